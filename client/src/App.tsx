@@ -17,6 +17,7 @@ import ClinicRegister from "@/pages/auth/ClinicRegister";
 import ForgotPassword from "@/pages/auth/ForgotPassword";
 import ResetPassword from "@/pages/auth/ResetPassword";
 import Subscribe from "@/pages/pricing/Subscribe";
+import GiftCardPurchase from "@/pages/GiftCardPurchase";
 
 // Super Admin Pages
 import SuperAdminDashboard from "@/pages/super-admin/Dashboard";
@@ -37,6 +38,9 @@ import PaymentSetup from "@/pages/clinic/PaymentSetup";
 import BusinessSetup from "@/pages/clinic/BusinessSetup";
 import ShareLink from "@/pages/clinic/ShareLink";
 import ClinicRewards from "@/pages/clinic/Rewards";
+import ClinicGiftCards from "@/pages/clinic/GiftCards";
+import Inventory from "@/pages/clinic/Inventory";
+import Payroll from "@/pages/clinic/Payroll";
 import RequireStripeConnect from "@/components/RequireStripeConnect";
 import { RequireBusinessSetup } from "@/components/RequireBusinessSetup";
 
@@ -46,6 +50,10 @@ import PatientAppointments from "@/pages/patient/Appointments";
 import Booking from "@/pages/patient/Booking";
 import PatientMembership from "@/pages/patient/Membership";
 import Rewards from "@/pages/patient/Rewards";
+import PatientWallet from "@/pages/patient/Wallet";
+import PatientPackages from "@/pages/patient/Packages";
+import PatientForms from "@/pages/patient/Forms";
+import PatientIntakeForm from "@/pages/patient/IntakeForm";
 
 import LoadingSpinner from "@/components/ui/loading-spinner";
 
@@ -71,6 +79,7 @@ function Router() {
       <Route path="/reset-password/:token" component={ResetPassword} />
       <Route path="/c/:slug/login" component={PatientLogin} />
       <Route path="/c/:slug/register" component={PatientSignup} />
+      <Route path="/c/:slug/gift-cards" component={GiftCardPurchase} />
       <Route path="/c/:slug" component={PatientSignup} />
       <Route path="/register/clinic/:slug" component={ClinicRegister} />
       <Route path="/subscribe" component={Subscribe} />
@@ -98,7 +107,10 @@ function Router() {
               <Route path="/clinic/services" component={() => (<RequireBusinessSetup><Services /></RequireBusinessSetup>)} />
               <Route path="/clinic/memberships" component={() => (<RequireBusinessSetup><Memberships /></RequireBusinessSetup>)} />
               <Route path="/clinic/rewards" component={() => (<RequireBusinessSetup><ClinicRewards /></RequireBusinessSetup>)} />
+              <Route path="/clinic/gift-cards" component={() => (<RequireBusinessSetup><ClinicGiftCards /></RequireBusinessSetup>)} />
+              <Route path="/clinic/inventory" component={() => (<RequireBusinessSetup><Inventory /></RequireBusinessSetup>)} />
               <Route path="/clinic/staff" component={() => (<RequireBusinessSetup><Staff /></RequireBusinessSetup>)} />
+              <Route path="/clinic/payroll" component={() => (<RequireBusinessSetup><Payroll /></RequireBusinessSetup>)} />
               <Route path="/clinic/staff-roles" component={() => (<RequireBusinessSetup><StaffRoles /></RequireBusinessSetup>)} />
               <Route path="/clinic/settings" component={() => (<RequireBusinessSetup><Settings /></RequireBusinessSetup>)} />
               <Route path="/clinic/reports" component={() => (<RequireBusinessSetup><Reports /></RequireBusinessSetup>)} />
@@ -117,6 +129,10 @@ function Router() {
               <Route path="/patient/booking" component={Booking} />
               <Route path="/patient/membership" component={PatientMembership} />
               <Route path="/patient/rewards" component={Rewards} />
+              <Route path="/patient/wallet" component={PatientWallet} />
+              <Route path="/patient/packages" component={PatientPackages} />
+              <Route path="/patient/forms" component={PatientForms} />
+              <Route path="/patient/forms/:id" component={PatientIntakeForm} />
             </PatientBrandingProvider>
           )}
         </>
@@ -1,7 +1,23 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Clock, User, MapPin, Scissors, Timer, CheckCircle, DollarSign, FileText } from "lucide-react";
-import type { Appointment } from "@/types";
+import { Button } from "@/components/ui/button";
+import ConsentSignDialog from "@/components/ConsentSignDialog";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  Calendar, Clock, User, MapPin, Scissors, Timer, CheckCircle, DollarSign, FileText, ClipboardList, AlertTriangle,
+  FileSignature
+} from "lucide-react";
+import { format } from "date-fns";
+import type { Appointment, ConsentForm, ConsentSignature, IntakeFlag, IntakeSubmission } from "@/types";
+
+interface AppointmentConsentStatus {
+  required: boolean;
+  unconfigured: boolean;
+  consents: { form: ConsentForm; signature: ConsentSignature | null }[];
+}
 
 interface AppointmentDetailsDialogProps {
   appointment: Appointment | null;
@@ -14,11 +30,27 @@ export default function AppointmentDetailsDialog({
   open, 
   onOpenChange 
 }: AppointmentDetailsDialogProps) {
+  const { user } = useAuth();
+  const isPatient = user?.role === "patient";
+  const queryClient = useQueryClient();
+  const [signingForm, setSigningForm] = useState<ConsentForm | null>(null);
+
+  const appointmentId: string | undefined = appointment?.id;
+  const { data: intakeSubmissions = [] } = useQuery<IntakeSubmission[]>({
+    queryKey: ["/api/appointments", appointmentId, "intake"],
+    enabled: open && !!appointmentId,
+  });
+
+  const { data: consentStatus } = useQuery<AppointmentConsentStatus>({
+    queryKey: ["/api/appointments", appointmentId, "consents"],
+    enabled: open && !!appointmentId,
+  });
+
   if (!appointment) {
     return null;
   }
 
-  const formatTimeInTimezone = (dateString: string, timezone: string = 'America/New_York') => {
+  const formatTimeInTimezone = (dateString: string | Date, timezone: string = 'America/New_York') => {
     const date = new Date(dateString);
     return date.toLocaleTimeString('en-US', { 
       timeZone: timezone,
@@ -28,7 +60,7 @@ export default function AppointmentDetailsDialog({
     });
   };
 
-  const formatDateInTimezone = (dateString: string, timezone: string = 'America/New_York', options: Intl.DateTimeFormatOptions = {}) => {
+  const formatDateInTimezone = (dateString: string | Date, timezone: string = 'America/New_York', options: Intl.DateTimeFormatOptions = {}) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', { 
       timeZone: timezone,
@@ -181,6 +213,84 @@ export default function AppointmentDetailsDialog({
             </div>
           )}
 
+          {/* Intake forms; staff see the answers the form flags before the visit */}
+          {intakeSubmissions.length > 0 && (
+            <div className="flex items-start space-x-3">
+              <ClipboardList className="w-5 h-5 text-primary mt-0.5" />
+              <div className="flex-1 space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Intake Forms</p>
+                {intakeSubmissions.map(submission => {
+                  const flags = (submission.flags as IntakeFlag[] | null) || [];
+                  return (
+                    <div key={submission.id} className="space-y-1" data-testid={`intake-submission-${submission.id}`}>
+                      <div className="flex items-center gap-2">
+                        <span className="text-base text-foreground">{submission.formName}</span>
+                        <Badge variant={submission.status === "completed" ? "outline" : "secondary"}>
+                          {submission.status === "completed" ? `Completed v${submission.formVersion}` : "Not completed"}
+                        </Badge>
+                        {isPatient && submission.status === "pending" && (
+                          <Link href={`/patient/forms/${submission.id}`} className="text-sm text-primary underline">
+                            Complete now
+                          </Link>
+                        )}
+                      </div>
+                      {!isPatient && flags.map(flag => (
+                        <div
+                          key={flag.fieldId}
+                          className="flex items-start gap-2 rounded-md bg-red-50 px-2 py-1 text-sm text-red-800"
+                          data-testid={`intake-flag-${submission.id}-${flag.fieldId}`}
+                        >
+                          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                          <span><span className="font-medium">{flag.label}</span> {flag.answer}</span>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Consent; at the clinic staff hand the device to the client to sign */}
+          {consentStatus?.required && (
+            <div className="flex items-start space-x-3">
+              <FileSignature className="w-5 h-5 text-primary mt-0.5" />
+              <div className="flex-1 space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Consent</p>
+                {consentStatus.unconfigured && (
+                  <div className="flex items-start gap-2 rounded-md bg-yellow-50 px-2 py-1 text-sm text-yellow-800">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>This service requires consent, but no consent form is attached to it yet.</span>
+                  </div>
+                )}
+                {consentStatus.consents.map(({ form, signature }) => (
+                  <div key={form.id} className="flex items-center gap-2" data-testid={`consent-${form.id}`}>
+                    <span className="text-base text-foreground">{form.name}</span>
+                    {signature ? (
+                      <Badge variant="outline">
+                        Signed {format(new Date(signature.signedAt), "MMM d, yyyy")}
+                        {signature.expiresAt && ` · expires ${format(new Date(signature.expiresAt), "MMM d, yyyy")}`}
+                      </Badge>
+                    ) : (
+                      <>
+                        <Badge variant="destructive">Not signed</Badge>
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0"
+                          onClick={() => setSigningForm(form)}
+                          data-testid={`button-sign-consent-${form.id}`}
+                        >
+                          Sign now
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Notes */}
           {appointment.notes && (
             <div className="flex items-start space-x-3">
@@ -194,6 +304,19 @@ export default function AppointmentDetailsDialog({
             </div>
           )}
         </div>
+
+        {appointmentId && (
+          <ConsentSignDialog
+            appointmentId={appointmentId}
+            form={signingForm}
+            open={!!signingForm}
+            onOpenChange={(open) => !open && setSigningForm(null)}
+            onSigned={() => {
+              queryClient.invalidateQueries({ queryKey: ["/api/appointments", appointmentId, "consents"] });
+              queryClient.invalidateQueries({ queryKey: ["/api/consents/pending"] });
+            }}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,10 +1,11 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Elements } from "@stripe/react-stripe-js";
 import { loadStripe, Stripe } from "@stripe/stripe-js";
 import { PaymentForm } from "./PaymentForm";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Loader2, Calendar, Clock, MapPin, User, DollarSign, AlertCircle } from "lucide-react";
+import { Loader2, Calendar, Clock, MapPin, User, DollarSign, AlertCircle, Wallet } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { apiRequest } from "@/lib/api";
@@ -23,6 +24,7 @@ interface BookingData {
   endTime: string;
   paymentType: "full" | "deposit";
   notes?: string;
+  waitlistOfferId?: string;
 }
 
 interface BookingWithPaymentProps {
@@ -45,11 +47,21 @@ export function BookingWithPayment({
   const [clientSecret, setClientSecret] = useState<string>("");
   const [isLoading, setIsLoading] = useState(true);
   const [appointmentId, setAppointmentId] = useState<string>("");
+  const [paymentIntentId, setPaymentIntentId] = useState<string>("");
   const [loadingStripe, setLoadingStripe] = useState(true);
   const [stripeError, setStripeError] = useState<string | null>(null);
   const [stripePromise, setStripePromise] = useState<Promise<Stripe | null> | null>(null);
+  const [useWallet, setUseWallet] = useState<boolean | null>(null);
+  const [walletApplied, setWalletApplied] = useState(0);
+  const [memberBenefits, setMemberBenefits] = useState({ discount: 0, credits: 0, tax: 0, paymentAmount: 0 });
   const { toast } = useToast();
 
+  const { data: wallet, isFetched: walletFetched } = useQuery<{ balance: number }>({
+    queryKey: ["/api/wallet/balance"],
+    retry: false,
+  });
+  const walletBalance = wallet?.balance || 0;
+
   // Determine payment amount based on service configuration
   // If paymentType is "deposit", charge ONLY the deposit amount
   // If paymentType is "full", charge the full price
@@ -73,14 +85,17 @@ export function BookingWithPayment({
     setLoadingStripe(false);
   }, []);
 
-  // Create payment intent after Stripe is initialized
+  // Create payment intent after Stripe is initialized, once the patient has decided whether to use their wallet
   useEffect(() => {
-    if (!loadingStripe && !stripeError) {
-      createPaymentIntent();
+    if (loadingStripe || stripeError || !walletFetched) return;
+    if (walletBalance <= 0) {
+      createPaymentIntent(false);
+    } else if (useWallet !== null) {
+      createPaymentIntent(useWallet);
     }
-  }, [loadingStripe, stripeError]);
+  }, [loadingStripe, stripeError, walletFetched, useWallet]);
 
-  const createPaymentIntent = async () => {
+  const createPaymentIntent = async (applyWallet: boolean) => {
     try {
       setIsLoading(true);
       console.log('🔍 [PAYMENT] Creating payment intent with booking data:', bookingData);
@@ -89,9 +104,24 @@ export function BookingWithPayment({
       // Note: organizationId is not needed in the request - the server derives it from the service
       const response = await apiRequest("POST", "/api/appointments/book-with-payment", {
         ...bookingData,
+        useWallet: applyWallet,
       });
 
       const data = await response.json();
+
+      if (data.paidWithoutCard) {
+        const paidWith = [
+          Number(data.creditsApplied) > 0 && `$${Number(data.creditsApplied).toFixed(2)} in membership credits`,
+          Number(data.walletApplied) > 0 && `$${Number(data.walletApplied).toFixed(2)} from your wallet`,
+        ].filter(Boolean).join(" and ");
+        toast({
+          title: "Appointment Booked",
+          description: paidWith ? `Paid with ${paidWith}.` : "Your membership discount covered the amount due.",
+        });
+        onSuccess(data.appointmentId);
+        return;
+      }
+
       console.log('🔍 [PAYMENT] Payment intent response:', { 
         hasClientSecret: !!data.clientSecret, 
         appointmentId: data.appointmentId,
@@ -101,6 +131,14 @@ export function BookingWithPayment({
       if (data.clientSecret) {
         setClientSecret(data.clientSecret);
         setAppointmentId(data.appointmentId);
+        setPaymentIntentId(data.paymentIntentId);
+        setWalletApplied(Number(data.walletApplied || 0));
+        setMemberBenefits({
+          discount: Number(data.memberDiscount || 0),
+          credits: Number(data.creditsApplied || 0),
+          tax: Number(data.taxAmount || 0),
+          paymentAmount: Number(data.paymentAmount || 0),
+        });
         console.log('✅ [PAYMENT] Client secret set successfully');
       } else {
         throw new Error("Failed to create payment intent");
@@ -136,6 +174,27 @@ export function BookingWithPayment({
     }
   };
 
+  // Re-price the card payment with the tip before it is confirmed
+  const handleTipChange = async (tipAmount: number) => {
+    await apiRequest("POST", `/api/appointments/${appointmentId}/tip`, {
+      paymentIntentId,
+      tipAmount
+    });
+  };
+
+  // Abandoning the payment releases the booking, canceling the card payment and handing any wallet and
+  // credit shares back. A guest's unpaid booking is released by the scheduler instead.
+  const handleCancel = async () => {
+    if (appointmentId) {
+      try {
+        await apiRequest("POST", "/api/wallet/release", { appointmentId });
+      } catch (error) {
+        console.error('❌ [PAYMENT] Failed to release booking:', error);
+      }
+    }
+    onCancel();
+  };
+
   const formatDateTime = (dateTimeStr: string) => {
     const date = new Date(dateTimeStr);
     return date.toLocaleString('en-US', {
@@ -156,6 +215,34 @@ export function BookingWithPayment({
     return `${minutes} minutes`;
   };
 
+  if (!loadingStripe && !stripeError && walletBalance > 0 && useWallet === null) {
+    const walletCovers = Math.min(walletBalance, paymentAmount);
+    return (
+      <Card className="w-full max-w-2xl mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Use Your Wallet?
+          </CardTitle>
+          <CardDescription>
+            You have ${walletBalance.toFixed(2)} in your wallet.
+            {walletCovers >= paymentAmount
+              ? ` It covers the full $${paymentAmount.toFixed(2)} due today.`
+              : ` Put $${walletCovers.toFixed(2)} toward the $${paymentAmount.toFixed(2)} due today and pay the rest by card.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => setUseWallet(false)} data-testid="button-pay-by-card">
+            Pay by Card
+          </Button>
+          <Button className="flex-1" onClick={() => setUseWallet(true)} data-testid="button-use-wallet">
+            Use Wallet Balance
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (loadingStripe || isLoading) {
     return (
       <Card className="w-full max-w-2xl mx-auto">
@@ -195,7 +282,7 @@ export function BookingWithPayment({
         <CardContent className="py-12">
           <div className="text-center space-y-4">
             <p className="text-red-600">Failed to initialize payment</p>
-            <Button onClick={createPaymentIntent} data-testid="button-retry">
+            <Button onClick={() => createPaymentIntent(!!useWallet)} data-testid="button-retry">
               Try Again
             </Button>
           </div>
@@ -284,10 +371,15 @@ export function BookingWithPayment({
           <PaymentForm
             amount={Number(service.price)}
             isDepositOnly={isDepositPayment || undefined}
-            depositAmount={Number(service.depositAmount)}
+            depositAmount={memberBenefits.paymentAmount}
+            walletAmount={walletApplied}
+            discountAmount={memberBenefits.discount}
+            creditAmount={memberBenefits.credits}
+            taxAmount={memberBenefits.tax}
             serviceName={service.name}
+            onTipChange={isDepositPayment ? undefined : handleTipChange}
             onSuccess={handlePaymentSuccess}
-            onCancel={onCancel}
+            onCancel={handleCancel}
           />
         </Elements>
       ) : (
@@ -2,7 +2,7 @@ import { Button } from "@/components/ui/button";
 import { Link, useLocation } from "wouter";
 import { 
   LayoutDashboard, Calendar, Users, Scissors, Crown, 
-  UserPlus, TrendingUp, Share2, Gift, Settings2
+  UserPlus, TrendingUp, Share2, Gift, Settings2, CreditCard, Boxes, Wallet
 } from "lucide-react";
 
 export default function ClinicNav() {
@@ -55,6 +55,17 @@ export default function ClinicNav() {
             <span className="hidden sm:inline">Rewards</span>
           </Button>
         </Link>
+        <Link href="/clinic/gift-cards">
+          <Button
+            variant={location === "/clinic/gift-cards" ? "default" : "ghost"}
+            size="sm"
+            className="relative whitespace-nowrap"
+            data-testid="tab-gift-cards"
+          >
+            <CreditCard className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Gift Cards</span>
+          </Button>
+        </Link>
         <Link href="/clinic/share-link">
           <Button
             variant={location === "/clinic/share-link" ? "default" : "ghost"}
@@ -88,6 +99,17 @@ export default function ClinicNav() {
             <span className="hidden sm:inline">Services</span>
           </Button>
         </Link>
+        <Link href="/clinic/inventory">
+          <Button
+            variant={location === "/clinic/inventory" ? "default" : "ghost"}
+            size="sm"
+            className="relative whitespace-nowrap"
+            data-testid="tab-inventory"
+          >
+            <Boxes className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Inventory</span>
+          </Button>
+        </Link>
         <Link href="/clinic/staff">
           <Button
             variant={location === "/clinic/staff" ? "default" : "ghost"}
@@ -99,6 +121,17 @@ export default function ClinicNav() {
             <span className="hidden sm:inline">Staff</span>
           </Button>
         </Link>
+        <Link href="/clinic/payroll">
+          <Button
+            variant={location === "/clinic/payroll" ? "default" : "ghost"}
+            size="sm"
+            className="relative whitespace-nowrap"
+            data-testid="tab-payroll"
+          >
+            <Wallet className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Payroll</span>
+          </Button>
+        </Link>
         <Link href="/clinic/reports">
           <Button
             variant={location === "/clinic/reports" ? "default" : "ghost"}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import SignaturePad from "@/components/SignaturePad";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import type { ConsentForm } from "@/types";
+
+interface ConsentSignDialogProps {
+  appointmentId: string;
+  form: ConsentForm | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSigned: () => void;
+}
+
+// The client reads the consent, types their name and draws their signature
+export default function ConsentSignDialog({ appointmentId, form, open, onOpenChange, onSigned }: ConsentSignDialogProps) {
+  const { toast } = useToast();
+  const [typedName, setTypedName] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [agreed, setAgreed] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setTypedName("");
+      setSignatureImage(null);
+      setAgreed(false);
+    }
+  }, [open, form?.id]);
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/appointments/${appointmentId}/consents/${form!.id}/sign`, {
+        typedName: typedName.trim(),
+        signatureImage,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Consent signed",
+        description: "A signed copy is kept on file.",
+      });
+      onSigned();
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not record consent",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!form) {
+    return null;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]" data-testid="dialog-consent-sign">
+        <DialogHeader>
+          <DialogTitle>{form.name}</DialogTitle>
+          <DialogDescription>Version {form.version}. Please read the whole document before signing.</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-64 overflow-y-auto border rounded-md p-3 text-sm whitespace-pre-wrap" data-testid="text-consent-content">
+          {form.content}
+        </div>
+
+        <div className="flex items-start space-x-2">
+          <Checkbox
+            id="consent-agree"
+            checked={agreed}
+            onCheckedChange={(checked) => setAgreed(checked === true)}
+            data-testid="checkbox-consent-agree"
+          />
+          <Label htmlFor="consent-agree" className="text-sm leading-snug">
+            I have read and understood this document and consent to the treatment it describes.
+          </Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="consent-typed-name">Full name</Label>
+          <Input
+            id="consent-typed-name"
+            value={typedName}
+            onChange={(e) => setTypedName(e.target.value)}
+            data-testid="input-consent-typed-name"
+          />
+        </div>
+
+        <SignaturePad onChange={setSignatureImage} />
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => signMutation.mutate()}
+            disabled={!agreed || typedName.trim().length < 2 || !signatureImage || signMutation.isPending}
+            data-testid="button-sign-consent"
+          >
+            {signMutation.isPending ? "Signing..." : "Sign"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
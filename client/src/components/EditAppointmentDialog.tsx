@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -32,7 +32,7 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import LoadingSpinner from "@/components/ui/loading-spinner";
-import { Save } from "lucide-react";
+import { Save, Repeat } from "lucide-react";
 import type { Appointment, Client, Staff, Service } from "@/types";
 
 interface EditAppointmentDialogProps {
@@ -86,6 +86,8 @@ export default function EditAppointmentDialog({
   const { organization } = useOrganization();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [applyTo, setApplyTo] = useState<"this" | "following">("this");
+  const isSeriesOccurrence = !!(appointment as any)?.seriesId;
 
   // Fetch dropdown data
   const { data: clients } = useQuery<Client[]>({
@@ -136,6 +138,7 @@ export default function EditAppointmentDialog({
         status: (appointment as any).status || "scheduled",
         notes: (appointment as any).notes || "",
       });
+      setApplyTo("this");
     }
   }, [appointment, open, form]);
 
@@ -153,18 +156,21 @@ export default function EditAppointmentDialog({
         endTime: new Date(data.endTime),
         status: data.status,
         notes: data.notes || "",
+        ...(isSeriesOccurrence ? { applyTo } : {}),
       });
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       // Invalidate appointments cache
       queryClient.invalidateQueries({ queryKey: ["appointments"] });
       
       // Show success toast
       toast({
         title: "Appointment updated",
-        description: "The appointment has been successfully updated.",
+        description: result.seriesUpdated
+          ? `${result.seriesUpdated} appointments in this series have been updated.`
+          : "The appointment has been successfully updated.",
       });
       
       // Call onSuccess callback
@@ -174,11 +180,21 @@ export default function EditAppointmentDialog({
       onOpenChange(false);
     },
     onError: (error: any) => {
+      if (error.message?.includes('CONSENT_REQUIRED')) {
+        toast({
+          title: "Consent required",
+          description: "The client must sign this service's consent form before the appointment can start. Collect it from View Details.",
+          variant: "destructive",
+        });
+        return;
+      }
       const isConflict = error.message?.includes('409') || error.message?.includes('conflict');
       toast({
         title: isConflict ? "Time slot conflict" : "Failed to update appointment",
         description: isConflict 
-          ? "This time slot is already booked. Please choose a different time."
+          ? applyTo === "following"
+            ? "Some later appointments in this series clash with existing bookings. Please choose a different time."
+            : "This time slot is already booked. Please choose a different time."
           : "Please try again.",
         variant: "destructive",
       });
@@ -395,6 +411,25 @@ export default function EditAppointmentDialog({
               )}
             />
 
+            {/* Series scope */}
+            {isSeriesOccurrence && (
+              <div className="space-y-2 border rounded-lg p-3">
+                <FormLabel className="flex items-center">
+                  <Repeat className="w-4 h-4 mr-1" />
+                  Recurring appointment #{(appointment as any).seriesIndex}
+                </FormLabel>
+                <Select value={applyTo} onValueChange={(value: "this" | "following") => setApplyTo(value)}>
+                  <SelectTrigger data-testid="select-edit-apply-to">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="this">This appointment only</SelectItem>
+                    <SelectItem value="following">This and following appointments</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { format } from "date-fns";
+import type { Transaction } from "@/types";
+
+interface MembershipCredits {
+  balance: number;
+  monthlyCredits: number;
+  usedCredits: number;
+  creditRollover: boolean;
+  creditRolloverCap: number | null;
+  transactions: Transaction[];
+}
+
+const ENTRY_LABELS: Record<string, { label: string; sign: "+" | "-" }> = {
+  membership_credit_grant: { label: "Monthly credits", sign: "+" },
+  membership_credit_redemption: { label: "Used at booking", sign: "-" },
+  membership_credit_refund: { label: "Returned", sign: "+" },
+  membership_credit_expiry: { label: "Expired at renewal", sign: "-" },
+};
+
+interface MembershipCreditHistoryProps {
+  membershipId: string;
+}
+
+// Balance, rollover rule and every credit movement for one membership
+export default function MembershipCreditHistory({ membershipId }: MembershipCreditHistoryProps) {
+  const { data, isLoading } = useQuery<MembershipCredits>({
+    queryKey: ["/api/memberships", membershipId, "credits"],
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const rolloverRule = !data.creditRollover
+    ? "Unused credits expire when the membership renews."
+    : data.creditRolloverCap === null
+      ? "Unused credits roll over to the next month."
+      : `Up to $${data.creditRolloverCap.toFixed(2)} of unused credits roll over to the next month.`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between">
+        <div>
+          <div className="text-2xl font-bold" data-testid="text-membership-credit-balance">
+            ${data.balance.toFixed(2)}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            available · ${data.usedCredits.toFixed(2)} used this cycle
+          </div>
+        </div>
+        <Badge variant="outline">${data.monthlyCredits.toFixed(2)} / month</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">{rolloverRule}</p>
+
+      {data.transactions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No credit activity yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {data.transactions.map(entry => {
+            const kind = ENTRY_LABELS[entry.type] || { label: entry.type, sign: "+" as const };
+            const refunded = entry.status === "refunded";
+            return (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between border rounded-lg p-3 text-sm"
+                data-testid={`membership-credit-entry-${entry.id}`}
+              >
+                <div>
+                  <div className="font-medium">{kind.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {entry.createdAt && format(new Date(entry.createdAt), "MMM d, yyyy")}
+                    {entry.description && ` · ${entry.description}`}
+                  </div>
+                </div>
+                <span className={refunded ? "line-through text-muted-foreground" : kind.sign === "+" ? "text-green-600" : ""}>
+                  {kind.sign}${Number(entry.amount).toFixed(2)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
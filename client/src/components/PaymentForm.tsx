@@ -3,14 +3,24 @@ import { PaymentElement, useStripe, useElements } from "@stripe/react-stripe-js"
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Loader2, CreditCard, DollarSign } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
+const TIP_PRESETS = [0, 15, 18, 20];
+
 interface PaymentFormProps {
   amount: number;
   isDepositOnly?: boolean;
   depositAmount?: number;
+  walletAmount?: number;
+  discountAmount?: number;
+  creditAmount?: number;
+  taxAmount?: number;
   serviceName: string;
+  // Offers a tip for the provider when given; called with the chosen tip before the card is charged
+  onTipChange?: (tipAmount: number) => Promise<void>;
   onSuccess: (paymentIntentId: string) => void;
   onCancel?: () => void;
 }
@@ -19,7 +29,12 @@ export function PaymentForm({
   amount,
   isDepositOnly = false,
   depositAmount,
+  walletAmount = 0,
+  discountAmount = 0,
+  creditAmount = 0,
+  taxAmount = 0,
   serviceName,
+  onTipChange,
   onSuccess,
   onCancel
 }: PaymentFormProps) {
@@ -29,9 +44,17 @@ export function PaymentForm({
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string>("");
   const [isReady, setIsReady] = useState(false);
+  const [tipInput, setTipInput] = useState("0");
+  const [appliedTip, setAppliedTip] = useState(0);
+
+  // Tips are only offered when paying in full, and go on the card on top of what is due
+  const canTip = !!onTipChange && !isDepositOnly;
+  const tipAmount = canTip ? Math.round(Math.max(Number(tipInput) || 0, 0) * 100) / 100 : 0;
 
-  const paymentAmount = isDepositOnly ? (depositAmount || 0) : amount;
-  const remainingBalance = isDepositOnly ? amount - (depositAmount || 0) : 0;
+  // Membership credits and wallet money have already been taken, so the card only covers the rest
+  const discountedAmount = amount - discountAmount + taxAmount;
+  const paymentAmount = (isDepositOnly ? (depositAmount || 0) : discountedAmount) - creditAmount - walletAmount + tipAmount;
+  const remainingBalance = isDepositOnly ? discountedAmount - (depositAmount || 0) : 0;
 
   // Debug: Log stripe and elements availability
   console.log('🔍 [PAYMENT FORM] Stripe available:', !!stripe);
@@ -61,6 +84,13 @@ export function PaymentForm({
     setErrorMessage("");
 
     try {
+      // The payment intent has to carry the tip before the card is confirmed
+      if (onTipChange && tipAmount !== appliedTip) {
+        await onTipChange(tipAmount);
+        await elements.fetchUpdates();
+        setAppliedTip(tipAmount);
+      }
+
       const { error, paymentIntent } = await stripe.confirmPayment({
         elements,
         confirmParams: {
@@ -117,6 +147,36 @@ export function PaymentForm({
             <span className="text-sm font-medium">Total Price:</span>
             <span className="text-sm">${amount.toFixed(2)}</span>
           </div>
+          {discountAmount > 0 && (
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Member Discount:</span>
+              <span className="text-sm text-green-600" data-testid="text-member-discount">-${discountAmount.toFixed(2)}</span>
+            </div>
+          )}
+          {taxAmount > 0 && (
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Sales Tax:</span>
+              <span className="text-sm" data-testid="text-sales-tax">${taxAmount.toFixed(2)}</span>
+            </div>
+          )}
+          {creditAmount > 0 && (
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Membership Credits:</span>
+              <span className="text-sm text-green-600" data-testid="text-membership-credits">-${creditAmount.toFixed(2)}</span>
+            </div>
+          )}
+          {walletAmount > 0 && (
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Wallet Credit:</span>
+              <span className="text-sm text-green-600" data-testid="text-wallet-credit">-${walletAmount.toFixed(2)}</span>
+            </div>
+          )}
+          {tipAmount > 0 && (
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Tip:</span>
+              <span className="text-sm" data-testid="text-tip">${tipAmount.toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between items-center font-semibold text-lg border-t pt-2">
             <span className="flex items-center gap-1">
               <DollarSign className="h-4 w-4" />
@@ -133,6 +193,38 @@ export function PaymentForm({
 
         {/* Payment Form */}
         <form onSubmit={handleSubmit} className="space-y-4">
+          {canTip && (
+            <div className="space-y-2">
+              <Label htmlFor="payment-tip">Add a tip for your provider</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                {TIP_PRESETS.map(percent => (
+                  <Button
+                    key={percent}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTipInput((Math.round(amount * percent) / 100).toFixed(2))}
+                    disabled={isLoading}
+                    data-testid={`button-payment-tip-${percent}`}
+                  >
+                    {percent === 0 ? "No tip" : `${percent}%`}
+                  </Button>
+                ))}
+                <Input
+                  id="payment-tip"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="w-28"
+                  value={tipInput}
+                  onChange={(e) => setTipInput(e.target.value)}
+                  disabled={isLoading}
+                  data-testid="input-payment-tip"
+                />
+              </div>
+            </div>
+          )}
+
           <div className="p-4 border rounded-lg">
             <PaymentElement 
               options={{
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+
+interface GiftCardLookup {
+  code: string;
+  balance: number;
+  status: string;
+  expiresAt: string | null;
+}
+
+interface RedeemGiftCardDialogProps {
+  target: { appointmentId: string } | { membershipId: string } | null;
+  amountDue: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRedeemed?: () => void;
+}
+
+// Applies part or all of a gift card to an appointment's unpaid balance or a membership's dues
+export default function RedeemGiftCardDialog({
+  target,
+  amountDue,
+  open,
+  onOpenChange,
+  onRedeemed
+}: RedeemGiftCardDialogProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [amount, setAmount] = useState("");
+  const [card, setCard] = useState<GiftCardLookup | null>(null);
+
+  const lookupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", `/api/gift-cards/lookup/${encodeURIComponent(code.trim())}`);
+      return response.json() as Promise<GiftCardLookup>;
+    },
+    onSuccess: (data) => {
+      setCard(data);
+      setAmount(Math.min(data.balance, amountDue).toFixed(2));
+    },
+    onError: () => {
+      setCard(null);
+      toast({
+        title: "Gift card not found",
+        description: "Check the code and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const redeemMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/gift-cards/redeem", {
+        ...target,
+        code: code.trim(),
+        amount: Number(amount),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Gift card applied",
+        description: `$${Number(data.redeemed).toFixed(2)} applied. $${Number(data.balance).toFixed(2)} left on the card.`,
+      });
+      onRedeemed?.();
+      handleOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not apply gift card",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setCode("");
+      setAmount("");
+      setCard(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const redeemAmount = Number(amount) || 0;
+  const usable = card?.status === "active";
+  const validAmount = !!card && redeemAmount > 0 && redeemAmount <= card.balance && redeemAmount <= amountDue;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Apply Gift Card</DialogTitle>
+          <DialogDescription>
+            ${Math.max(amountDue, 0).toFixed(2)} is due. Any amount left on the card stays available for later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="gift-card-code">Gift card code</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="gift-card-code"
+                value={code}
+                onChange={(e) => {
+                  setCode(e.target.value);
+                  setCard(null);
+                }}
+                placeholder="XXXX-XXXX-XXXX"
+                className="font-mono uppercase"
+                data-testid="input-gift-card-code"
+              />
+              <Button
+                variant="outline"
+                onClick={() => lookupMutation.mutate()}
+                disabled={!code.trim() || lookupMutation.isPending}
+                data-testid="button-lookup-gift-card"
+              >
+                Check
+              </Button>
+            </div>
+          </div>
+
+          {card && (
+            usable ? (
+              <>
+                <p className="text-sm text-muted-foreground" data-testid="text-gift-card-balance">
+                  Balance: ${card.balance.toFixed(2)}
+                  {card.expiresAt && ` · expires ${new Date(card.expiresAt).toLocaleDateString()}`}
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="gift-card-amount">Amount to apply</Label>
+                  <Input
+                    id="gift-card-amount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    data-testid="input-gift-card-amount"
+                  />
+                </div>
+              </>
+            ) : (
+              <Alert variant="destructive">
+                <AlertDescription>This gift card is {card.status} and can't be used.</AlertDescription>
+              </Alert>
+            )
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => redeemMutation.mutate()}
+            disabled={!target || !usable || !validAmount || redeemMutation.isPending}
+            data-testid="button-redeem-gift-card"
+          >
+            {redeemMutation.isPending ? "Applying..." : `Apply $${redeemAmount.toFixed(2)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Clock } from "lucide-react";
+import type { Appointment, BookingAvailability } from "@/types";
+
+interface RescheduleAppointmentDialogProps {
+  appointment: Appointment | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatTimeTo12Hour = (time24: string): string => {
+  const [hours, minutes] = time24.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const hours12 = hours % 12 || 12;
+  return `${hours12}:${minutes.toString().padStart(2, '0')} ${period}`;
+};
+
+// Lets a patient move their own appointment to another open time with the same provider
+export default function RescheduleAppointmentDialog({
+  appointment,
+  open,
+  onOpenChange
+}: RescheduleAppointmentDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  const [selectedSlot, setSelectedSlot] = useState<{ time: string; datetime: string } | null>(null);
+  const booking = appointment as (Appointment & { id: string; staffId: string; locationId: string; serviceId: string }) | null;
+
+  const { data: availability } = useQuery<BookingAvailability>({
+    queryKey: ["/api/availability", booking?.staffId, selectedDate?.toISOString(), booking?.locationId, booking?.serviceId],
+    queryFn: () => {
+      const params = new URLSearchParams({
+        date: selectedDate!.toISOString(),
+        locationId: booking!.locationId,
+        serviceId: booking!.serviceId
+      });
+      return apiRequest("GET", `/api/availability/${booking!.staffId}?${params.toString()}`).then(res => res.json());
+    },
+    enabled: open && !!booking && !!selectedDate,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/appointments/${booking!.id}/reschedule`, {
+        startTime: selectedSlot!.datetime
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments/upcoming"] });
+      toast({
+        title: "Appointment rescheduled",
+        description: "Your provider has been notified of the new time.",
+      });
+      handleOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not reschedule",
+        description: error.message || "That time is no longer available.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setSelectedDate(undefined);
+      setSelectedSlot(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  if (!appointment) {
+    return null;
+  }
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Reschedule Appointment</DialogTitle>
+          <DialogDescription>
+            Pick a new time for your {appointment.serviceName || "appointment"} with {appointment.staffName || "your provider"}.
+            Any deposit you've paid carries over.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={(date) => {
+              setSelectedDate(date);
+              setSelectedSlot(null);
+            }}
+            disabled={(date) => date < today}
+            className="rounded-md border w-fit"
+            data-testid="calendar-reschedule-date"
+          />
+
+          {selectedDate && (
+            <div>
+              <Label className="text-sm font-medium mb-2 block">
+                Available Times for {selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              </Label>
+              {availability ? (
+                availability.slots.some(slot => slot.available) ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    {availability.slots.filter(slot => slot.available && slot.datetime).map(slot => (
+                      <Button
+                        key={slot.time}
+                        variant={selectedSlot?.time === slot.time ? "default" : "outline"}
+                        onClick={() => setSelectedSlot({ time: slot.time, datetime: slot.datetime! })}
+                        data-testid={`reschedule-slot-${slot.time}`}
+                      >
+                        {formatTimeTo12Hour(slot.time)}
+                      </Button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="p-4 border rounded-lg bg-muted/30 text-center">
+                    <Clock className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
+                    <p className="text-sm font-medium">
+                      {availability.closed ? "Clinic closed" : "No appointments available"}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">Please select another date.</p>
+                  </div>
+                )
+              ) : (
+                <div className="flex items-center justify-center p-8">
+                  <LoadingSpinner />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Keep Current Time
+          </Button>
+          <Button
+            onClick={() => rescheduleMutation.mutate()}
+            disabled={!selectedSlot || rescheduleMutation.isPending}
+            data-testid="button-confirm-reschedule"
+          >
+            {rescheduleMutation.isPending ? "Rescheduling..." : "Confirm New Time"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
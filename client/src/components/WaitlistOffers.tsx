@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { BookingWithPayment } from "@/components/BookingWithPayment";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Hourglass, X } from "lucide-react";
+import type { Location, Service, Staff, WaitlistEntry, WaitlistOffer } from "@/types";
+
+type MyWaitlistOffer = WaitlistOffer & { serviceName?: string; locationName?: string; paymentRequired?: boolean };
+
+type MyWaitlist = {
+  entries: (WaitlistEntry & { serviceName?: string; locationName?: string })[];
+  offers: MyWaitlistOffer[];
+};
+
+// Pays the deposit or full price for an offer's held slot through the regular online booking payment
+function OfferCheckout({ offer, onDone }: { offer: MyWaitlistOffer; onDone: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+  const { data: services } = useQuery<Service[]>({
+    queryKey: ["/api/services", offer.locationId],
+    queryFn: () => apiRequest("GET", `/api/services?locationId=${offer.locationId}`).then(res => res.json()),
+  });
+  const { data: staff } = useQuery<Staff[]>({
+    queryKey: ["/api/staff", offer.locationId, offer.serviceId],
+    queryFn: () => apiRequest("GET", `/api/staff?locationId=${offer.locationId}&serviceId=${offer.serviceId}`).then(res => res.json()),
+  });
+
+  const location = locations?.find(l => l.id === offer.locationId);
+  const service = services?.find(s => s.id === offer.serviceId);
+  const provider = staff?.find(s => s.id === offer.staffId);
+
+  if (!location || !service || !provider) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">Loading...</p>;
+  }
+
+  return (
+    <BookingWithPayment
+      bookingData={{
+        serviceId: offer.serviceId,
+        staffId: offer.staffId,
+        locationId: offer.locationId,
+        startTime: new Date(offer.startTime).toISOString(),
+        endTime: new Date(offer.endTime).toISOString(),
+        paymentType: service.paymentType === "deposit" ? "deposit" : "full",
+        waitlistOfferId: offer.id,
+      }}
+      service={service}
+      staff={provider}
+      location={location}
+      onSuccess={() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+        toast({
+          title: "Appointment booked!",
+          description: "The opening is yours. See you then.",
+        });
+        onDone();
+      }}
+      onCancel={() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+        onDone();
+      }}
+    />
+  );
+}
+
+// Open waitlist offers and entries for the signed-in patient
+export default function WaitlistOffers() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [checkoutOffer, setCheckoutOffer] = useState<MyWaitlistOffer | null>(null);
+
+  const { data } = useQuery<MyWaitlist>({
+    queryKey: ["/api/waitlist/my"],
+    refetchInterval: 60000,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (offerId: string) => {
+      const response = await apiRequest("POST", `/api/waitlist/offers/${offerId}/accept`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Appointment booked!",
+        description: "The opening is yours. See you then.",
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+      toast({
+        title: "Could not claim this opening",
+        description: error.message || "The slot is no longer available.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (offerId: string) => {
+      const response = await apiRequest("POST", `/api/waitlist/offers/${offerId}/decline`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+      toast({
+        title: "Offer declined",
+        description: "You're still on the waitlist.",
+      });
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await apiRequest("DELETE", `/api/waitlist/${entryId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+      toast({
+        title: "Removed from waitlist",
+      });
+    },
+  });
+
+  if (!data || (data.offers.length === 0 && data.entries.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Hourglass className="w-5 h-5 mr-2" />
+          Your Waitlist
+        </CardTitle>
+        <CardDescription>We'll let you know as soon as a matching appointment opens up.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {data.offers.map(offer => (
+          <div
+            key={offer.id}
+            className="flex flex-col md:flex-row md:items-center justify-between gap-3 border border-primary rounded-lg p-4 bg-primary/5"
+            data-testid={`waitlist-offer-${offer.id}`}
+          >
+            <div>
+              <p className="font-medium">
+                {offer.serviceName || "Appointment"} – {format(new Date(offer.startTime), "EEE, MMM d 'at' h:mm a")}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {offer.locationName && `${offer.locationName} · `}Held for you until {format(new Date(offer.expiresAt), "h:mm a")}
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                onClick={() => offer.paymentRequired ? setCheckoutOffer(offer) : acceptMutation.mutate(offer.id)}
+                disabled={acceptMutation.isPending || declineMutation.isPending}
+                data-testid={`button-accept-offer-${offer.id}`}
+              >
+                {acceptMutation.isPending ? "Booking..." : "Book It"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => declineMutation.mutate(offer.id)}
+                disabled={acceptMutation.isPending || declineMutation.isPending}
+                data-testid={`button-decline-offer-${offer.id}`}
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <Dialog open={!!checkoutOffer} onOpenChange={(open) => !open && setCheckoutOffer(null)}>
+          <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-waitlist-checkout">
+            <DialogHeader>
+              <DialogTitle>Pay to Claim</DialogTitle>
+            </DialogHeader>
+            {checkoutOffer && <OfferCheckout offer={checkoutOffer} onDone={() => setCheckoutOffer(null)} />}
+          </DialogContent>
+        </Dialog>
+
+        {data.entries.filter(entry => entry.status === "waiting").map(entry => (
+          <div
+            key={entry.id}
+            className="flex items-center justify-between border rounded-lg p-3"
+            data-testid={`waitlist-entry-${entry.id}`}
+          >
+            <div className="flex items-center space-x-3">
+              <span className="font-medium">{entry.serviceName || "Service"}</span>
+              <Badge variant="outline">
+                {entry.earliestDate === entry.latestDate
+                  ? format(new Date(`${entry.earliestDate}T00:00:00`), "MMM d")
+                  : `${format(new Date(`${entry.earliestDate}T00:00:00`), "MMM d")} – ${format(new Date(`${entry.latestDate}T00:00:00`), "MMM d")}`}
+              </Badge>
+              {entry.locationName && <span className="text-sm text-muted-foreground">{entry.locationName}</span>}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => leaveMutation.mutate(entry.id)}
+              disabled={leaveMutation.isPending}
+              data-testid={`button-leave-waitlist-${entry.id}`}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
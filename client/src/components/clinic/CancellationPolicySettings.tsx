@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Save } from "lucide-react";
+import { describeCancellationPolicy } from "@shared/schema";
+import type { CancellationPolicy } from "@/types";
+
+type FeeType = "percent" | "flat";
+
+const DEFAULT_POLICY = {
+  freeCancelWindowHours: "24",
+  lateCancelFeeType: "percent" as FeeType,
+  lateCancelFeeAmount: "50",
+  noShowFeeType: "percent" as FeeType,
+  noShowFeeAmount: "100",
+  chargeNoShowToCard: false,
+};
+
+export default function CancellationPolicySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [enabled, setEnabled] = useState(false);
+  const [form, setForm] = useState(DEFAULT_POLICY);
+  const [rescheduleCutoffHours, setRescheduleCutoffHours] = useState("24");
+
+  const { data } = useQuery<{ policy: CancellationPolicy | null; rescheduleCutoffHours: number }>({
+    queryKey: ["/api/cancellation-policy"],
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setEnabled(!!data.policy);
+    setRescheduleCutoffHours(String(data.rescheduleCutoffHours));
+    if (data.policy) {
+      setForm({
+        freeCancelWindowHours: String(data.policy.freeCancelWindowHours),
+        lateCancelFeeType: data.policy.lateCancelFeeType,
+        lateCancelFeeAmount: String(data.policy.lateCancelFeeAmount),
+        noShowFeeType: data.policy.noShowFeeType,
+        noShowFeeAmount: String(data.policy.noShowFeeAmount),
+        chargeNoShowToCard: data.policy.chargeNoShowToCard,
+      });
+    }
+  }, [data]);
+
+  const policy: CancellationPolicy = {
+    freeCancelWindowHours: parseInt(form.freeCancelWindowHours) || 0,
+    lateCancelFeeType: form.lateCancelFeeType,
+    lateCancelFeeAmount: Number(form.lateCancelFeeAmount) || 0,
+    noShowFeeType: form.noShowFeeType,
+    noShowFeeAmount: Number(form.noShowFeeAmount) || 0,
+    chargeNoShowToCard: form.chargeNoShowToCard,
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/cancellation-policy", {
+        policy: enabled ? policy : null,
+        rescheduleCutoffHours: parseInt(rescheduleCutoffHours) || 0,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cancellation-policy"] });
+      toast({
+        title: "Cancellation policy saved",
+        description: enabled ? "Patients will see this policy when booking." : "No cancellation policy applies.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving policy",
+        description: error.message || "Failed to save cancellation policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const invalidPercent =
+    (policy.lateCancelFeeType === "percent" && policy.lateCancelFeeAmount > 100) ||
+    (policy.noShowFeeType === "percent" && policy.noShowFeeAmount > 100);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cancellation Policy</CardTitle>
+        <CardDescription>
+          Decides how much of a deposit is kept on late cancellations, what no-shows are charged and how late patients can reschedule online.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="policy-reschedule-cutoff">Online rescheduling closes (hours before)</Label>
+          <Input
+            id="policy-reschedule-cutoff"
+            type="number"
+            min="0"
+            value={rescheduleCutoffHours}
+            onChange={(e) => setRescheduleCutoffHours(e.target.value)}
+            data-testid="input-policy-reschedule-cutoff"
+          />
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="policy-enabled"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            data-testid="switch-cancellation-policy"
+          />
+          <Label htmlFor="policy-enabled">Enforce a cancellation policy</Label>
+        </div>
+
+        {enabled && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-window">Free cancellation (hours before)</Label>
+                <Input
+                  id="policy-window"
+                  type="number"
+                  min="0"
+                  value={form.freeCancelWindowHours}
+                  onChange={(e) => setForm(prev => ({ ...prev, freeCancelWindowHours: e.target.value }))}
+                  data-testid="input-policy-window"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Late cancellation fee</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.lateCancelFeeAmount}
+                    onChange={(e) => setForm(prev => ({ ...prev, lateCancelFeeAmount: e.target.value }))}
+                    data-testid="input-policy-late-fee"
+                  />
+                  <Select
+                    value={form.lateCancelFeeType}
+                    onValueChange={(value: FeeType) => setForm(prev => ({ ...prev, lateCancelFeeType: value }))}
+                  >
+                    <SelectTrigger className="w-24" data-testid="select-policy-late-fee-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">%</SelectItem>
+                      <SelectItem value="flat">$</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>No-show fee</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.noShowFeeAmount}
+                    onChange={(e) => setForm(prev => ({ ...prev, noShowFeeAmount: e.target.value }))}
+                    data-testid="input-policy-no-show-fee"
+                  />
+                  <Select
+                    value={form.noShowFeeType}
+                    onValueChange={(value: FeeType) => setForm(prev => ({ ...prev, noShowFeeType: value }))}
+                  >
+                    <SelectTrigger className="w-24" data-testid="select-policy-no-show-fee-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">%</SelectItem>
+                      <SelectItem value="flat">$</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="policy-charge-card"
+                checked={form.chargeNoShowToCard}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, chargeNoShowToCard: checked }))}
+                data-testid="switch-policy-charge-card"
+              />
+              <Label htmlFor="policy-charge-card">Charge no-show fees to the patient's saved card</Label>
+            </div>
+
+            <div className="p-4 bg-muted rounded-lg space-y-1">
+              <p className="text-sm font-medium">Patients will see</p>
+              {describeCancellationPolicy(policy).map(line => (
+                <p key={line} className="text-sm text-muted-foreground">{line}</p>
+              ))}
+            </div>
+          </>
+        )}
+
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || (enabled && invalidPercent)}
+          data-testid="button-save-cancellation-policy"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Policy"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
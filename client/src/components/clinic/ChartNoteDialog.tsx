@@ -0,0 +1,550 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import FaceDiagram from "@/components/clinic/FaceDiagram";
+import ChartSummary from "@/components/clinic/ChartSummary";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Lock, Plus, Trash2 } from "lucide-react";
+import type { Appointment, ChartDetails, ChartProduct, ChartTemplate, InjectionSite, Product } from "@/types";
+
+const OTHER_PRODUCT = "other";
+
+const SOAP_SECTIONS = [
+  { key: "subjective", label: "Subjective", placeholder: "Concerns and goals in the client's words" },
+  { key: "objective", label: "Objective", placeholder: "Findings on examination" },
+  { key: "assessment", label: "Assessment", placeholder: "Clinical impression" },
+  { key: "plan", label: "Plan", placeholder: "Treatment given, aftercare and follow-up" },
+] as const;
+
+type SoapKey = typeof SOAP_SECTIONS[number]["key"];
+
+// Numbers are edited as text and converted on save
+interface DraftProduct {
+  productId: string;
+  name: string;
+  lotNumber: string;
+  expiresOn: string;
+  quantity: string;
+  unit: string;
+}
+
+interface DraftSite {
+  id: string;
+  x: number;
+  y: number;
+  label: string;
+  product: string;
+  units: string;
+  notes: string;
+}
+
+interface DraftChart extends Record<SoapKey, string> {
+  templateId: string | null;
+  productsUsed: DraftProduct[];
+  injectionSites: DraftSite[];
+}
+
+const newId = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+
+const newProduct = (): DraftProduct => ({ productId: "", name: "", lotNumber: "", expiresOn: "", quantity: "", unit: "units" });
+
+const toDraft = (chart?: ChartDetails | null): DraftChart => ({
+  templateId: chart?.templateId || null,
+  subjective: chart?.subjective || "",
+  objective: chart?.objective || "",
+  assessment: chart?.assessment || "",
+  plan: chart?.plan || "",
+  productsUsed: ((chart?.productsUsed as ChartProduct[] | null) || []).map(product => ({
+    productId: product.productId || OTHER_PRODUCT,
+    name: product.name,
+    lotNumber: product.lotNumber || "",
+    expiresOn: product.expiresOn || "",
+    quantity: String(product.quantity),
+    unit: product.unit,
+  })),
+  injectionSites: ((chart?.injectionSites as InjectionSite[] | null) || []).map(site => ({
+    id: site.id,
+    x: site.x,
+    y: site.y,
+    label: site.label || "",
+    product: site.product || "",
+    units: site.units !== undefined ? String(site.units) : "",
+    notes: site.notes || "",
+  })),
+});
+
+// Rows without a product name are dropped rather than rejected
+const fromDraft = (draft: DraftChart) => ({
+  templateId: draft.templateId,
+  subjective: draft.subjective.trim() || null,
+  objective: draft.objective.trim() || null,
+  assessment: draft.assessment.trim() || null,
+  plan: draft.plan.trim() || null,
+  productsUsed: draft.productsUsed.filter(product => product.name.trim()).map(product => ({
+    productId: product.productId && product.productId !== OTHER_PRODUCT ? product.productId : null,
+    name: product.name.trim(),
+    ...(product.lotNumber.trim() ? { lotNumber: product.lotNumber.trim() } : {}),
+    ...(product.expiresOn ? { expiresOn: product.expiresOn } : {}),
+    quantity: Number(product.quantity),
+    unit: product.unit.trim() || "units",
+  })),
+  injectionSites: draft.injectionSites.map(site => ({
+    id: site.id,
+    x: site.x,
+    y: site.y,
+    ...(site.label.trim() ? { label: site.label.trim() } : {}),
+    ...(site.product.trim() ? { product: site.product.trim() } : {}),
+    ...(site.units ? { units: Number(site.units) } : {}),
+    ...(site.notes.trim() ? { notes: site.notes.trim() } : {}),
+  })),
+});
+
+interface ChartNoteDialogProps {
+  appointment: Appointment | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Chart an appointment: edit the draft, then sign to lock it; signed charts only take addenda
+export default function ChartNoteDialog({ appointment, open, onOpenChange }: ChartNoteDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<DraftChart>(toDraft());
+  const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
+  const [confirmSign, setConfirmSign] = useState(false);
+  const [addendum, setAddendum] = useState("");
+
+  const appointmentId: string | undefined = appointment?.id;
+  const serviceId: string | undefined = appointment?.serviceId;
+
+  const { data: chart, isLoading } = useQuery<ChartDetails | null>({
+    queryKey: ["/api/appointments", appointmentId, "chart"],
+    enabled: open && !!appointmentId,
+  });
+
+  const { data: templates = [] } = useQuery<ChartTemplate[]>({
+    queryKey: ["/api/chart-templates"],
+    enabled: open,
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && chart !== undefined) {
+      setDraft(toDraft(chart));
+      setSelectedSiteId(null);
+      setAddendum("");
+    }
+  }, [open, chart?.id, chart?.updatedAt]);
+
+  const refreshChart = (saved: ChartDetails) => {
+    queryClient.setQueryData(["/api/appointments", appointmentId, "chart"], saved);
+    queryClient.invalidateQueries({ queryKey: ["/api/clients", saved.clientId, "charts"] });
+  };
+
+  const saveDraft = async (): Promise<ChartDetails> => {
+    const response = await apiRequest("PUT", `/api/appointments/${appointmentId}/chart`, fromDraft(draft));
+    return response.json();
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveDraft,
+    onSuccess: (saved: ChartDetails) => {
+      refreshChart(saved);
+      toast({
+        title: "Chart saved",
+        description: "The draft can be edited until it is signed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving chart",
+        description: error.message || "Failed to save chart",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      await saveDraft();
+      const response = await apiRequest("POST", `/api/appointments/${appointmentId}/chart/sign`);
+      return response.json();
+    },
+    onSuccess: (signed: ChartDetails) => {
+      refreshChart(signed);
+      toast({
+        title: "Chart signed",
+        description: "The chart is locked. Later changes are added as addenda.",
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments", appointmentId, "chart"] });
+      toast({
+        title: "Error signing chart",
+        description: error.message || "Failed to sign chart",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addendumMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/appointments/${appointmentId}/chart/addenda`, { content: addendum.trim() });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments", appointmentId, "chart"] });
+      if (chart) {
+        queryClient.invalidateQueries({ queryKey: ["/api/clients", chart.clientId, "charts"] });
+      }
+      setAddendum("");
+      toast({
+        title: "Addendum added",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error adding addendum",
+        description: error.message || "Failed to add addendum",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!appointment) {
+    return null;
+  }
+
+  const signed = chart?.status === "signed";
+  const serviceTemplates = templates.filter(t => t.isActive && ((t.serviceIds as string[] | null) || []).includes(serviceId || ""));
+
+  // Template text only fills sections that are still blank
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+    setDraft(prev => ({
+      ...prev,
+      templateId: template.id,
+      subjective: prev.subjective.trim() ? prev.subjective : template.subjective || "",
+      objective: prev.objective.trim() ? prev.objective : template.objective || "",
+      assessment: prev.assessment.trim() ? prev.assessment : template.assessment || "",
+      plan: prev.plan.trim() ? prev.plan : template.plan || "",
+    }));
+  };
+
+  const updateProduct = (index: number, updates: Partial<DraftProduct>) => {
+    setDraft(prev => ({
+      ...prev,
+      productsUsed: prev.productsUsed.map((product, i) => i === index ? { ...product, ...updates } : product),
+    }));
+  };
+
+  const pickProduct = (index: number, productId: string) => {
+    const product = products.find(p => p.id === productId);
+    updateProduct(index, product
+      ? { productId, name: product.name, unit: product.unit || "units" }
+      : { productId: OTHER_PRODUCT, name: "" });
+  };
+
+  const updateSite = (siteId: string, updates: Partial<DraftSite>) => {
+    setDraft(prev => ({
+      ...prev,
+      injectionSites: prev.injectionSites.map(site => site.id === siteId ? { ...site, ...updates } : site),
+    }));
+  };
+
+  const addSite = (x: number, y: number) => {
+    const site: DraftSite = { id: newId("site"), x, y, label: "", product: "", units: "", notes: "" };
+    setDraft(prev => ({ ...prev, injectionSites: [...prev.injectionSites, site] }));
+    setSelectedSiteId(site.id);
+  };
+
+  const valid = draft.productsUsed.every(product => !product.name.trim() || Number(product.quantity) > 0);
+  const busy = saveMutation.isPending || signMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto" data-testid="dialog-chart-note">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Chart
+            {chart && (
+              <Badge variant={signed ? "outline" : "secondary"}>
+                {signed ? <><Lock className="w-3 h-3 mr-1" />Signed</> : "Draft"}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {appointment.clientName || "Client"} · {appointment.serviceName || "Service"} · {new Date(appointment.startTime).toLocaleDateString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : signed && chart ? (
+          <div className="space-y-6">
+            <ChartSummary chart={chart} />
+            <div className="space-y-2 border-t pt-4">
+              <Label htmlFor="chart-addendum">Add an addendum</Label>
+              <Textarea
+                id="chart-addendum"
+                rows={3}
+                value={addendum}
+                onChange={(e) => setAddendum(e.target.value)}
+                data-testid="input-chart-addendum"
+              />
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => addendumMutation.mutate()}
+                  disabled={!addendum.trim() || addendumMutation.isPending}
+                  data-testid="button-add-chart-addendum"
+                >
+                  {addendumMutation.isPending ? "Adding..." : "Add Addendum"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {serviceTemplates.length > 0 && (
+              <div className="space-y-2 max-w-sm">
+                <Label>Start from template</Label>
+                <Select value={draft.templateId || ""} onValueChange={applyTemplate}>
+                  <SelectTrigger data-testid="select-chart-template">
+                    <SelectValue placeholder="Select template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {serviceTemplates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {SOAP_SECTIONS.map(section => (
+                <div key={section.key} className="space-y-2">
+                  <Label htmlFor={`chart-${section.key}`}>{section.label}</Label>
+                  <Textarea
+                    id={`chart-${section.key}`}
+                    rows={4}
+                    placeholder={section.placeholder}
+                    value={draft[section.key]}
+                    onChange={(e) => setDraft({ ...draft, [section.key]: e.target.value })}
+                    data-testid={`input-chart-${section.key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Products Used</Label>
+              {draft.productsUsed.map((product, index) => (
+                <div key={index} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end" data-testid={`chart-product-${index}`}>
+                  <div className="md:col-span-3">
+                    <Select value={product.productId} onValueChange={(value) => pickProduct(index, value)}>
+                      <SelectTrigger data-testid={`select-chart-product-${index}`}>
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.filter(p => p.isActive).map(p => (
+                          <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                        ))}
+                        <SelectItem value={OTHER_PRODUCT}>Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="md:col-span-2"
+                    placeholder="Product name"
+                    value={product.name}
+                    onChange={(e) => updateProduct(index, { name: e.target.value })}
+                    disabled={product.productId !== OTHER_PRODUCT}
+                    data-testid={`input-chart-product-name-${index}`}
+                  />
+                  <Input
+                    className="md:col-span-2"
+                    placeholder="Lot number"
+                    value={product.lotNumber}
+                    onChange={(e) => updateProduct(index, { lotNumber: e.target.value })}
+                    data-testid={`input-chart-product-lot-${index}`}
+                  />
+                  <Input
+                    className="md:col-span-2"
+                    type="date"
+                    title="Expiry date"
+                    value={product.expiresOn}
+                    onChange={(e) => updateProduct(index, { expiresOn: e.target.value })}
+                    data-testid={`input-chart-product-expiry-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    placeholder="Qty"
+                    value={product.quantity}
+                    onChange={(e) => updateProduct(index, { quantity: e.target.value })}
+                    data-testid={`input-chart-product-quantity-${index}`}
+                  />
+                  <Input
+                    placeholder="Unit"
+                    value={product.unit}
+                    onChange={(e) => updateProduct(index, { unit: e.target.value })}
+                    data-testid={`input-chart-product-unit-${index}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft(prev => ({ ...prev, productsUsed: prev.productsUsed.filter((_, i) => i !== index) }))}
+                    data-testid={`button-remove-chart-product-${index}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft(prev => ({ ...prev, productsUsed: [...prev.productsUsed, newProduct()] }))}
+                data-testid="button-add-chart-product"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Product
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Injection Map</Label>
+              <p className="text-xs text-muted-foreground">Click the face to mark an injection site.</p>
+              <div className="flex flex-col md:flex-row gap-4">
+                <FaceDiagram
+                  sites={fromDraft(draft).injectionSites}
+                  selectedId={selectedSiteId}
+                  onAdd={addSite}
+                  onSelect={setSelectedSiteId}
+                />
+                <div className="flex-1 space-y-2">
+                  {draft.injectionSites.map((site, index) => (
+                    <div
+                      key={site.id}
+                      className={`grid grid-cols-2 md:grid-cols-12 gap-2 items-center rounded-md p-1 ${site.id === selectedSiteId ? "bg-muted" : ""}`}
+                      onClick={() => setSelectedSiteId(site.id)}
+                      data-testid={`chart-site-${site.id}`}
+                    >
+                      <span className="text-sm font-medium md:col-span-1">{index + 1}.</span>
+                      <Input
+                        className="md:col-span-3"
+                        placeholder="Area, e.g. Glabella"
+                        value={site.label}
+                        onChange={(e) => updateSite(site.id, { label: e.target.value })}
+                        data-testid={`input-chart-site-label-${site.id}`}
+                      />
+                      <Input
+                        className="md:col-span-3"
+                        placeholder="Product"
+                        value={site.product}
+                        onChange={(e) => updateSite(site.id, { product: e.target.value })}
+                        data-testid={`input-chart-site-product-${site.id}`}
+                      />
+                      <Input
+                        className="md:col-span-2"
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        placeholder="Units"
+                        value={site.units}
+                        onChange={(e) => updateSite(site.id, { units: e.target.value })}
+                        data-testid={`input-chart-site-units-${site.id}`}
+                      />
+                      <Input
+                        className="md:col-span-2"
+                        placeholder="Notes"
+                        value={site.notes}
+                        onChange={(e) => updateSite(site.id, { notes: e.target.value })}
+                        data-testid={`input-chart-site-notes-${site.id}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          setDraft(prev => ({ ...prev, injectionSites: prev.injectionSites.filter(s => s.id !== site.id) }));
+                        }}
+                        data-testid={`button-remove-chart-site-${site.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => saveMutation.mutate()}
+                disabled={!valid || busy}
+                data-testid="button-save-chart"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Draft"}
+              </Button>
+              <Button onClick={() => setConfirmSign(true)} disabled={!valid || busy} data-testid="button-sign-chart">
+                <Lock className="w-4 h-4 mr-2" />
+                {signMutation.isPending ? "Signing..." : "Sign & Lock"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <AlertDialog open={confirmSign} onOpenChange={setConfirmSign}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Sign this chart?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Once signed the chart can't be edited. Corrections and later notes are added as dated addenda.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => signMutation.mutate()} data-testid="button-confirm-sign-chart">
+                Sign & Lock
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { format } from "date-fns";
+import FaceDiagram from "@/components/clinic/FaceDiagram";
+import type { ChartDetails, ChartProduct, InjectionSite } from "@/types";
+
+const SOAP_SECTIONS = [
+  { key: "subjective", label: "Subjective" },
+  { key: "objective", label: "Objective" },
+  { key: "assessment", label: "Assessment" },
+  { key: "plan", label: "Plan" },
+] as const;
+
+interface ChartSummaryProps {
+  chart: ChartDetails;
+}
+
+// Read-only chart: SOAP notes, products with lots, the injection map and any addenda
+export default function ChartSummary({ chart }: ChartSummaryProps) {
+  const products = (chart.productsUsed as ChartProduct[] | null) || [];
+  const sites = (chart.injectionSites as InjectionSite[] | null) || [];
+
+  return (
+    <div className="space-y-4 text-sm">
+      {SOAP_SECTIONS.filter(section => chart[section.key]?.trim()).map(section => (
+        <div key={section.key}>
+          <p className="font-semibold">{section.label}</p>
+          <p className="whitespace-pre-wrap text-muted-foreground">{chart[section.key]}</p>
+        </div>
+      ))}
+
+      {products.length > 0 && (
+        <div>
+          <p className="font-semibold mb-1">Products Used</p>
+          <div className="space-y-1">
+            {products.map((product, index) => (
+              <div key={index} className="grid grid-cols-4 gap-2">
+                <span>{product.name}</span>
+                <span className="text-muted-foreground">{product.quantity} {product.unit}</span>
+                <span className="text-muted-foreground">{product.lotNumber ? `Lot ${product.lotNumber}` : "No lot recorded"}</span>
+                <span className="text-muted-foreground">{product.expiresOn && `Exp ${product.expiresOn}`}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {sites.length > 0 && (
+        <div className="flex flex-col md:flex-row gap-4">
+          <FaceDiagram sites={sites} />
+          <ol className="space-y-1 flex-1">
+            {sites.map((site, index) => (
+              <li key={site.id}>
+                <span className="font-medium">{index + 1}. {site.label || "Site"}</span>
+                <span className="text-muted-foreground">
+                  {site.product && ` · ${site.product}`}
+                  {site.units !== undefined && ` · ${site.units} units`}
+                  {site.notes && ` · ${site.notes}`}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {chart.status === "signed" && chart.signedAt && (
+        <p className="text-xs text-muted-foreground">
+          Signed by {chart.signedByName} on {format(new Date(chart.signedAt), "MMM d, yyyy h:mm a")}
+        </p>
+      )}
+
+      {chart.addenda.map(addendum => (
+        <div key={addendum.id} className="border-l-2 border-primary/40 pl-3" data-testid={`chart-addendum-${addendum.id}`}>
+          <p className="text-xs text-muted-foreground">
+            Addendum by {addendum.authorName}, {format(new Date(addendum.createdAt!), "MMM d, yyyy h:mm a")}
+          </p>
+          <p className="whitespace-pre-wrap">{addendum.content}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
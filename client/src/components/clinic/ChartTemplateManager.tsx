@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Pencil, Plus, Stethoscope } from "lucide-react";
+import type { ChartTemplate, Service } from "@/types";
+
+const SOAP_SECTIONS = [
+  { key: "subjective", label: "Subjective" },
+  { key: "objective", label: "Objective" },
+  { key: "assessment", label: "Assessment" },
+  { key: "plan", label: "Plan" },
+] as const;
+
+interface DraftTemplate {
+  id: string | null;
+  name: string;
+  serviceIds: string[];
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  isActive: boolean;
+}
+
+const toDraft = (template?: ChartTemplate): DraftTemplate => ({
+  id: template?.id || null,
+  name: template?.name || "",
+  serviceIds: (template?.serviceIds as string[] | null) || [],
+  subjective: template?.subjective || "",
+  objective: template?.objective || "",
+  assessment: template?.assessment || "",
+  plan: template?.plan || "",
+  isActive: template ? template.isActive !== false : true,
+});
+
+const fromDraft = (draft: DraftTemplate) => ({
+  name: draft.name.trim(),
+  serviceIds: draft.serviceIds,
+  subjective: draft.subjective.trim() || null,
+  objective: draft.objective.trim() || null,
+  assessment: draft.assessment.trim() || null,
+  plan: draft.plan.trim() || null,
+  isActive: draft.isActive,
+});
+
+// Starting text for treatment notes, offered to providers when they chart an attached service
+export default function ChartTemplateManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<DraftTemplate | null>(null);
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const { data: templates = [], isLoading } = useQuery<ChartTemplate[]>({
+    queryKey: ["/api/chart-templates"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (template: DraftTemplate) => {
+      const response = template.id
+        ? await apiRequest("PUT", `/api/chart-templates/${template.id}`, fromDraft(template))
+        : await apiRequest("POST", "/api/chart-templates", fromDraft(template));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chart-templates"] });
+      setDraft(null);
+      toast({
+        title: "Chart template saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving chart template",
+        description: error.message || "Failed to save chart template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleService = (serviceId: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      serviceIds: prev.serviceIds.includes(serviceId)
+        ? prev.serviceIds.filter(id => id !== serviceId)
+        : [...prev.serviceIds, serviceId],
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Chart Templates</CardTitle>
+            <CardDescription>
+              Pre-filled SOAP notes for a service. Providers start from the template and edit it before signing.
+            </CardDescription>
+          </div>
+          {!draft && (
+            <Button onClick={() => setDraft(toDraft())} data-testid="button-new-chart-template">
+              <Plus className="w-4 h-4 mr-2" />
+              New Template
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="chart-template-name">Name</Label>
+                <Input
+                  id="chart-template-name"
+                  placeholder="e.g. Neurotoxin Treatment"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  data-testid="input-chart-template-name"
+                />
+              </div>
+              <div className="flex items-center space-x-2 md:pt-8">
+                <Switch
+                  id="chart-template-active"
+                  checked={draft.isActive}
+                  onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                  data-testid="switch-chart-template-active"
+                />
+                <Label htmlFor="chart-template-active">Active</Label>
+              </div>
+              {SOAP_SECTIONS.map(section => (
+                <div key={section.key} className="space-y-2">
+                  <Label htmlFor={`chart-template-${section.key}`}>{section.label}</Label>
+                  <Textarea
+                    id={`chart-template-${section.key}`}
+                    rows={4}
+                    value={draft[section.key]}
+                    onChange={(e) => setDraft({ ...draft, [section.key]: e.target.value })}
+                    data-testid={`input-chart-template-${section.key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Offer when charting</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-48 overflow-y-auto border rounded-lg p-3">
+                {services.filter(s => s.isActive).map(service => (
+                  <div key={service.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`chart-template-service-${service.id}`}
+                      checked={draft.serviceIds.includes(service.id)}
+                      onCheckedChange={() => toggleService(service.id)}
+                      data-testid={`checkbox-chart-template-service-${service.id}`}
+                    />
+                    <label htmlFor={`chart-template-service-${service.id}`} className="text-sm font-medium leading-none">
+                      {service.name}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)} data-testid="button-cancel-chart-template">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={!draft.name.trim() || saveMutation.isPending}
+                data-testid="button-save-chart-template"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Template"}
+              </Button>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No chart templates yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {templates.map(template => {
+              const attached = services.filter(s => ((template.serviceIds as string[] | null) || []).includes(s.id));
+              return (
+                <div
+                  key={template.id}
+                  className="flex items-center justify-between border rounded-lg p-3"
+                  data-testid={`chart-template-${template.id}`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-3">
+                      <Stethoscope className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium">{template.name}</span>
+                      {!template.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {attached.length > 0 ? `Offered for ${attached.map(s => s.name).join(", ")}` : "Not attached to a service"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft(toDraft(template))}
+                    data-testid={`button-edit-chart-template-${template.id}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,400 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Trash2 } from "lucide-react";
+import type { Appointment, CheckoutTicket, Product, ProductStock, RewardOption, Service } from "@/types";
+
+const TIP_PRESETS = [0, 15, 18, 20];
+
+interface CheckoutDialogProps {
+  appointment: Appointment | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCheckedOut?: () => void;
+}
+
+// Front desk checkout: builds one ticket for the visit, add-on services, retail products, discounts and tip,
+// then takes the balance on the client's saved card, in cash or on an external terminal
+export default function CheckoutDialog({ appointment, open, onOpenChange, onCheckedOut }: CheckoutDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [addOnServiceIds, setAddOnServiceIds] = useState<string[]>([]);
+  const [cart, setCart] = useState<{ productId: string; quantity: number }[]>([]);
+  const [rewardOptionIds, setRewardOptionIds] = useState<string[]>([]);
+  const [applyMemberDiscount, setApplyMemberDiscount] = useState(true);
+  const [tipAmount, setTipAmount] = useState("0");
+  const [giftCardCode, setGiftCardCode] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<"saved_card" | "cash" | "external_terminal">("saved_card");
+
+  const appointmentId = appointment?.id;
+  const clientId = appointment?.clientId;
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+    enabled: open,
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+    enabled: open,
+  });
+
+  const { data: stock = [] } = useQuery<ProductStock[]>({
+    queryKey: ["/api/inventory/stock"],
+    enabled: open,
+  });
+
+  const { data: rewardOptions = [] } = useQuery<RewardOption[]>({
+    queryKey: ["/api/reward-options"],
+    enabled: open,
+  });
+
+  const { data: rewards } = useQuery<{ balance: number }>({
+    queryKey: ["/api/rewards", clientId],
+    enabled: open && !!clientId,
+  });
+
+  const checkout = {
+    addOnServiceIds,
+    products: cart,
+    rewardOptionIds,
+    applyMemberDiscount,
+    tipAmount: Math.max(Number(tipAmount) || 0, 0),
+    giftCardCode: giftCardCode.trim() || undefined,
+    paymentMethod,
+  };
+
+  const { data: ticket, error: previewError } = useQuery<CheckoutTicket>({
+    queryKey: ["/api/appointments", appointmentId, "checkout", checkout],
+    queryFn: async () => {
+      const response = await apiRequest("POST", `/api/appointments/${appointmentId}/checkout/preview`, checkout);
+      return response.json();
+    },
+    enabled: open && !!appointmentId,
+    placeholderData: (previous) => previous,
+    retry: false,
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/appointments/${appointmentId}/checkout`, checkout);
+      return response.json() as Promise<{ ticket: CheckoutTicket }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Checked out",
+        description: `$${data.ticket.amountDue.toFixed(2)} taken${data.ticket.giftCardApplied > 0 ? `, $${data.ticket.giftCardApplied.toFixed(2)} on gift card` : ""}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock"] });
+      onCheckedOut?.();
+      handleOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Checkout failed",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setAddOnServiceIds([]);
+      setCart([]);
+      setRewardOptionIds([]);
+      setApplyMemberDiscount(true);
+      setTipAmount("0");
+      setGiftCardCode("");
+      setPaymentMethod("saved_card");
+    }
+    onOpenChange(isOpen);
+  };
+
+  const addProduct = (productId: string) => {
+    setCart(prev => prev.some(item => item.productId === productId)
+      ? prev.map(item => item.productId === productId ? { ...item, quantity: item.quantity + 1 } : item)
+      : [...prev, { productId, quantity: 1 }]);
+  };
+
+  // Products are sold from the stock at the appointment's location
+  const getStockOnHand = (productId: string) =>
+    stock.find(s => s.productId === productId && s.locationId === appointment?.locationId)?.quantity ?? 0;
+
+  // Tip presets are a percentage of the visit before discounts, as most card terminals do
+  const servicesSubtotal = (ticket?.lines || [])
+    .filter(line => line.kind === "service" || line.kind === "add_on")
+    .reduce((sum, line) => sum + line.amount, 0);
+  const rewardPointsUsed = rewardOptions
+    .filter(option => rewardOptionIds.includes(option.id))
+    .reduce((sum, option) => sum + option.pointsCost, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Checkout</DialogTitle>
+          <DialogDescription>
+            {appointment?.clientName || "Client"} · {appointment?.serviceName || "Appointment"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Add service</Label>
+              <Select value="" onValueChange={(value) => setAddOnServiceIds(prev => [...prev, value])}>
+                <SelectTrigger data-testid="select-checkout-add-on">
+                  <SelectValue placeholder="Add-on service" />
+                </SelectTrigger>
+                <SelectContent>
+                  {services.filter(s => s.isActive && s.id !== appointment?.serviceId).map(service => (
+                    <SelectItem key={service.id} value={service.id}>
+                      {service.name} - ${Number(service.price).toFixed(2)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Add product</Label>
+              <Select value="" onValueChange={addProduct}>
+                <SelectTrigger data-testid="select-checkout-product">
+                  <SelectValue placeholder="Retail product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.filter(p => p.isActive && p.isRetail).map(product => {
+                    const onHand = getStockOnHand(product.id);
+                    return (
+                      <SelectItem
+                        key={product.id}
+                        value={product.id}
+                        disabled={!!product.trackInventory && onHand <= 0}
+                      >
+                        {product.name} - ${Number(product.price).toFixed(2)}
+                        {product.trackInventory && ` (${Math.max(onHand, 0)} in stock)`}
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {addOnServiceIds.length > 0 && (
+            <div className="space-y-2">
+              {addOnServiceIds.map((serviceId, index) => (
+                <div key={`${serviceId}-${index}`} className="flex items-center justify-between text-sm">
+                  <span>{services.find(s => s.id === serviceId)?.name || "Service"}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setAddOnServiceIds(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {cart.length > 0 && (
+            <div className="space-y-2">
+              {cart.map(item => {
+                const product = products.find(p => p.id === item.productId);
+                return (
+                  <div key={item.productId} className="flex items-center justify-between text-sm">
+                    <span>{product?.name || "Product"}</span>
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        className="w-20"
+                        value={item.quantity}
+                        onChange={(e) => {
+                          const quantity = Math.max(Math.floor(Number(e.target.value)) || 1, 1);
+                          setCart(prev => prev.map(p => p.productId === item.productId ? { ...p, quantity } : p));
+                        }}
+                        data-testid={`input-checkout-quantity-${item.productId}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCart(prev => prev.filter(p => p.productId !== item.productId))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {rewardOptions.some(option => option.isActive && Number(option.discountValue) > 0) && (
+            <div className="space-y-2">
+              <Label>Redeem rewards {rewards && `(${rewards.balance} points available)`}</Label>
+              {rewardOptions.filter(option => option.isActive && Number(option.discountValue) > 0).map(option => (
+                <div key={option.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`checkout-reward-${option.id}`}
+                    checked={rewardOptionIds.includes(option.id)}
+                    disabled={!rewardOptionIds.includes(option.id) && !!rewards && rewardPointsUsed + option.pointsCost > rewards.balance}
+                    onCheckedChange={(checked) => setRewardOptionIds(prev =>
+                      checked ? [...prev, option.id] : prev.filter(id => id !== option.id))}
+                    data-testid={`checkbox-checkout-reward-${option.id}`}
+                  />
+                  <Label htmlFor={`checkout-reward-${option.id}`} className="font-normal">
+                    {option.name} · {option.pointsCost} points for ${Number(option.discountValue).toFixed(2)} off
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="checkout-member-discount"
+              checked={applyMemberDiscount}
+              onCheckedChange={setApplyMemberDiscount}
+              data-testid="switch-checkout-member-discount"
+            />
+            <Label htmlFor="checkout-member-discount">Apply member discount</Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="checkout-tip">Tip</Label>
+            <div className="flex items-center space-x-2">
+              {TIP_PRESETS.map(percent => (
+                <Button
+                  key={percent}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTipAmount((Math.round(servicesSubtotal * percent) / 100).toFixed(2))}
+                  data-testid={`button-checkout-tip-${percent}`}
+                >
+                  {percent === 0 ? "No tip" : `${percent}%`}
+                </Button>
+              ))}
+              <Input
+                id="checkout-tip"
+                type="number"
+                min="0"
+                step="0.01"
+                className="w-28"
+                value={tipAmount}
+                onChange={(e) => setTipAmount(e.target.value)}
+                data-testid="input-checkout-tip"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="checkout-gift-card">Gift card</Label>
+              <Input
+                id="checkout-gift-card"
+                value={giftCardCode}
+                onChange={(e) => setGiftCardCode(e.target.value)}
+                placeholder="XXXX-XXXX-XXXX"
+                className="font-mono uppercase"
+                data-testid="input-checkout-gift-card"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Pay balance with</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as typeof paymentMethod)}>
+                <SelectTrigger data-testid="select-checkout-payment-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="saved_card">Card on file</SelectItem>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="external_terminal">Card terminal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Separator />
+
+          {previewError && (
+            <Alert variant="destructive">
+              <AlertDescription>{(previewError as Error).message}</AlertDescription>
+            </Alert>
+          )}
+
+          {ticket && (
+            <div className="space-y-1 text-sm" data-testid="checkout-ticket">
+              {ticket.lines.map((line, index) => (
+                <div key={index} className="flex justify-between">
+                  <span className={line.amount < 0 ? "text-green-600" : ""}>
+                    {line.description}{line.quantity > 1 && ` × ${line.quantity}`}
+                  </span>
+                  <span className={line.amount < 0 ? "text-green-600" : ""}>
+                    {line.amount < 0 ? "-" : ""}${Math.abs(line.amount).toFixed(2)}
+                  </span>
+                </div>
+              ))}
+              {ticket.taxTotal > 0 && (
+                <div className="flex justify-between" data-testid="text-checkout-tax">
+                  <span>Sales tax ({ticket.taxRate}%)</span>
+                  <span>${ticket.taxTotal.toFixed(2)}</span>
+                </div>
+              )}
+              <Separator className="my-2" />
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>${ticket.total.toFixed(2)}</span>
+              </div>
+              {ticket.previouslyPaid > 0 && (
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Already paid</span>
+                  <span>-${ticket.previouslyPaid.toFixed(2)}</span>
+                </div>
+              )}
+              {ticket.giftCardApplied > 0 && (
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Gift card</span>
+                  <span>-${ticket.giftCardApplied.toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg font-bold" data-testid="text-checkout-amount-due">
+                <span>Due now</span>
+                <span>${ticket.amountDue.toFixed(2)}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => checkoutMutation.mutate()}
+            disabled={!ticket || !!previewError || checkoutMutation.isPending}
+            data-testid="button-complete-checkout"
+          >
+            {checkoutMutation.isPending
+              ? "Processing..."
+              : paymentMethod === "saved_card" && ticket && ticket.amountDue > 0
+                ? `Charge $${ticket.amountDue.toFixed(2)}`
+                : "Complete Checkout"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import ChartSummary from "@/components/clinic/ChartSummary";
+import { Lock, Stethoscope } from "lucide-react";
+import { format } from "date-fns";
+import type { ChartDetails, ChartProduct } from "@/types";
+
+interface ClientChartsProps {
+  clientId: string;
+}
+
+// Timeline of every chart for a client, most recent visit first
+export default function ClientCharts({ clientId }: ClientChartsProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: charts = [] } = useQuery<ChartDetails[]>({
+    queryKey: ["/api/clients", clientId, "charts"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Stethoscope className="w-5 h-5" />
+          Treatment Charts
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {charts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No treatments charted for this client yet.</p>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-6">
+            {charts.map(chart => {
+              const expanded = expandedId === chart.id;
+              const products = (chart.productsUsed as ChartProduct[] | null) || [];
+              const visitDate = chart.appointmentStartTime || chart.createdAt;
+              return (
+                <li key={chart.id} className="ml-4" data-testid={`client-chart-${chart.id}`}>
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{chart.serviceName}</span>
+                        {chart.status === "signed" ? (
+                          <Badge variant="outline"><Lock className="w-3 h-3 mr-1" />Signed</Badge>
+                        ) : (
+                          <Badge variant="secondary">Draft</Badge>
+                        )}
+                        {chart.addenda.length > 0 && (
+                          <Badge variant="outline">
+                            {chart.addenda.length} addend{chart.addenda.length === 1 ? "um" : "a"}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {visitDate && format(new Date(visitDate), "MMM d, yyyy")} · {chart.providerName}
+                        {products.length > 0 && ` · ${products.map(p => p.name).join(", ")}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedId(expanded ? null : chart.id)}
+                      data-testid={`button-toggle-chart-${chart.id}`}
+                    >
+                      {expanded ? "Hide Chart" : "View Chart"}
+                    </Button>
+                  </div>
+                  {expanded && (
+                    <div className="mt-3 pt-3 border-t">
+                      <ChartSummary chart={chart} />
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, FileSignature } from "lucide-react";
+import { format } from "date-fns";
+import type { ConsentSignature } from "@/types";
+
+interface ClientConsentsProps {
+  clientId: string;
+}
+
+type VerifiedSignature = ConsentSignature & { verified: boolean };
+
+// Every consent a client has signed, newest first, with the signed copy exactly as they saw it
+export default function ClientConsents({ clientId }: ClientConsentsProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: signatures = [] } = useQuery<VerifiedSignature[]>({
+    queryKey: ["/api/clients", clientId, "consents"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSignature className="w-5 h-5" />
+          Signed Consents
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {signatures.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This client hasn't signed any consent forms yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {signatures.map(signature => {
+              const expired = !!signature.expiresAt && new Date(signature.expiresAt) <= new Date();
+              const expanded = expandedId === signature.id;
+              return (
+                <div key={signature.id} className="border rounded-lg p-3 space-y-2" data-testid={`client-consent-${signature.id}`}>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{signature.formName}</span>
+                        <Badge variant="outline">v{signature.formVersion}</Badge>
+                        {expired && <Badge variant="secondary">Expired</Badge>}
+                        {!signature.verified && <Badge variant="destructive">Altered</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Signed {format(new Date(signature.signedAt), "MMM d, yyyy h:mm a")}
+                        {signature.collectedBy && " at the clinic"}
+                        {signature.expiresAt
+                          ? ` · ${expired ? "expired" : "expires"} ${format(new Date(signature.expiresAt), "MMM d, yyyy")}`
+                          : " · never expires"}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedId(expanded ? null : signature.id)}
+                      data-testid={`button-toggle-consent-${signature.id}`}
+                    >
+                      {expanded ? "Hide Copy" : "View Signed Copy"}
+                    </Button>
+                  </div>
+
+                  {!signature.verified && (
+                    <div className="flex items-start gap-2 rounded-md bg-red-50 px-2 py-1 text-sm text-red-800">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      <span>This record no longer matches what was signed and doesn't count as consent.</span>
+                    </div>
+                  )}
+
+                  {expanded && (
+                    <div className="pt-2 border-t space-y-3">
+                      <div className="max-h-64 overflow-y-auto text-sm whitespace-pre-wrap">{signature.content}</div>
+                      <div className="flex items-end justify-between gap-4">
+                        <img
+                          src={signature.signatureImage}
+                          alt={`Signature of ${signature.typedName}`}
+                          className="h-20 border rounded-md bg-white"
+                          data-testid={`img-consent-signature-${signature.id}`}
+                        />
+                        <div className="text-xs text-muted-foreground text-right">
+                          <p className="text-sm text-foreground">{signature.typedName}</p>
+                          {signature.ipAddress && <p>IP {signature.ipAddress}</p>}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import DocumentAccessLogDialog from "@/components/clinic/DocumentAccessLogDialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, uploadFile } from "@/lib/api";
+import { ExternalLink, FileText, History, Send, Trash2, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { documentCategories, documentCategoryLabels } from "@shared/schema";
+import type { FileStorage } from "@/types";
+
+type DocumentCategory = typeof documentCategories[number];
+
+interface ClientDocumentsProps {
+  clientId: string;
+  clientEmail: string | null;
+}
+
+// Lab results, referrals and signed paperwork for a client, with sharing to the client's portal
+export default function ClientDocuments({ clientId, clientEmail }: ClientDocumentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [category, setCategory] = useState<DocumentCategory>("lab_result");
+  const [shareOnUpload, setShareOnUpload] = useState(false);
+  const [logDocument, setLogDocument] = useState<FileStorage | null>(null);
+
+  const { data: documents = [] } = useQuery<FileStorage[]>({
+    queryKey: ["/api/clients", clientId, "documents"],
+  });
+
+  const refreshDocuments = () => queryClient.invalidateQueries({ queryKey: ["/api/clients", clientId, "documents"] });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const params = new URLSearchParams({ category, fileName: file.name, sharedWithClient: String(shareOnUpload) });
+      const response = await uploadFile(`/api/clients/${clientId}/documents?${params}`, file);
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshDocuments();
+      toast({
+        title: "Document uploaded",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error uploading document",
+        description: error.message || "Failed to upload document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async ({ id, sharedWithClient }: { id: string; sharedWithClient: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/documents/${id}`, { sharedWithClient });
+      return response.json();
+    },
+    onSuccess: refreshDocuments,
+    onError: (error: any) => {
+      toast({
+        title: "Error updating document",
+        description: error.message || "Failed to update document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sendLinkMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/documents/${id}/link`, { expiresInHours: 72, sendToClient: true });
+      return response.json();
+    },
+    onSuccess: (data: { emailed: boolean; expiresAt: string }) => {
+      toast({
+        title: data.emailed ? "Download link sent" : "Link created but the email could not be sent",
+        description: `The link expires ${format(new Date(data.expiresAt), "MMM d, yyyy h:mm a")}`,
+        variant: data.emailed ? "default" : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error sending link",
+        description: error.message || "Failed to send download link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/files/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshDocuments();
+      toast({
+        title: "Document deleted",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting document",
+        description: error.message || "Failed to delete document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFiles = (files: FileList | null) => {
+    Array.from(files || []).forEach(file => uploadMutation.mutate(file));
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5" />
+          Documents
+        </CardTitle>
+        <CardDescription>
+          Shared documents appear in the client's portal. Every view and download is recorded in the access log.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as DocumentCategory)}>
+              <SelectTrigger data-testid="select-document-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {documentCategories.map(value => (
+                  <SelectItem key={value} value={value}>{documentCategoryLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2 pb-2">
+            <Checkbox
+              id="share-on-upload"
+              checked={shareOnUpload}
+              onCheckedChange={(checked) => setShareOnUpload(checked === true)}
+              data-testid="checkbox-share-on-upload"
+            />
+            <Label htmlFor="share-on-upload">Share with client</Label>
+          </div>
+          <div>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/pdf,image/jpeg,image/png,image/webp"
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+              data-testid="input-document-file"
+            />
+            <Button
+              onClick={() => fileInput.current?.click()}
+              disabled={uploadMutation.isPending}
+              data-testid="button-upload-document"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {uploadMutation.isPending ? "Uploading..." : "Upload Documents"}
+            </Button>
+          </div>
+        </div>
+
+        {documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents for this client yet.</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {documents.map(document => (
+              <div key={document.id} className="flex items-center justify-between p-3" data-testid={`document-${document.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{document.originalName}</span>
+                    <Badge variant="secondary">
+                      {documentCategoryLabels[document.category as DocumentCategory] || document.category}
+                    </Badge>
+                    {document.scanStatus === "not_scanned" && <Badge variant="outline">Not virus scanned</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {document.createdAt && format(new Date(document.createdAt), "MMM d, yyyy")} · {(document.fileSize / 1024).toFixed(0)} KB
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <div className="flex items-center space-x-2 mr-2">
+                    <Switch
+                      id={`document-shared-${document.id}`}
+                      checked={!!document.sharedWithClient}
+                      onCheckedChange={(checked) => shareMutation.mutate({ id: document.id, sharedWithClient: checked })}
+                      data-testid={`switch-document-shared-${document.id}`}
+                    />
+                    <Label htmlFor={`document-shared-${document.id}`} className="text-xs">Shared</Label>
+                  </div>
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={document.url} target="_blank" rel="noopener noreferrer" data-testid={`link-open-document-${document.id}`}>
+                      <ExternalLink className="w-4 h-4" />
+                    </a>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => sendLinkMutation.mutate(document.id)}
+                    disabled={!clientEmail || !document.sharedWithClient || sendLinkMutation.isPending}
+                    title={!clientEmail
+                      ? "The client has no email address"
+                      : document.sharedWithClient ? "Email a download link to the client" : "Share the document to send a link"}
+                    data-testid={`button-send-document-${document.id}`}
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLogDocument(document)}
+                    data-testid={`button-document-log-${document.id}`}
+                  >
+                    <History className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(document.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-document-${document.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DocumentAccessLogDialog
+          document={logDocument}
+          open={!!logDocument}
+          onOpenChange={(open) => !open && setLogDocument(null)}
+        />
+      </CardContent>
+    </Card>
+  );
+}
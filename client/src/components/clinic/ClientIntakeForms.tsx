@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ClipboardList } from "lucide-react";
+import { format } from "date-fns";
+import { isIntakeFieldShown } from "@shared/schema";
+import type { IntakeAnswers, IntakeFlag, IntakeFormSection, IntakeSubmission } from "@/types";
+
+interface ClientIntakeFormsProps {
+  clientId: string;
+}
+
+// Every intake form a client was sent, newest first, with the answers as given on each version
+export default function ClientIntakeForms({ clientId }: ClientIntakeFormsProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: submissions = [] } = useQuery<IntakeSubmission[]>({
+    queryKey: ["/api/clients", clientId, "intake-submissions"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5" />
+          Intake Forms
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {submissions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No forms sent to this client yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {submissions.map(submission => {
+              const flags = (submission.flags as IntakeFlag[] | null) || [];
+              const sections = (submission.sections as IntakeFormSection[] | null) || [];
+              const answers = (submission.answers as IntakeAnswers | null) || {};
+              const expanded = expandedId === submission.id;
+              return (
+                <div key={submission.id} className="border rounded-lg p-3 space-y-2" data-testid={`client-intake-${submission.id}`}>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{submission.formName}</span>
+                        {submission.status === "completed" ? (
+                          <Badge variant="outline">v{submission.formVersion}</Badge>
+                        ) : (
+                          <Badge variant="secondary">Not completed</Badge>
+                        )}
+                        {flags.length > 0 && (
+                          <Badge variant="destructive">{flags.length} flagged</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {submission.submittedAt
+                          ? `Submitted ${format(new Date(submission.submittedAt), "MMM d, yyyy")}`
+                          : submission.requestedAt && `Sent ${format(new Date(submission.requestedAt), "MMM d, yyyy")}`}
+                      </p>
+                    </div>
+                    {submission.status === "completed" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(expanded ? null : submission.id)}
+                        data-testid={`button-toggle-intake-${submission.id}`}
+                      >
+                        {expanded ? "Hide Answers" : "View Answers"}
+                      </Button>
+                    )}
+                  </div>
+
+                  {flags.map(flag => (
+                    <div key={flag.fieldId} className="flex items-start gap-2 rounded-md bg-red-50 px-2 py-1 text-sm text-red-800">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      <span><span className="font-medium">{flag.label}</span> {flag.answer}</span>
+                    </div>
+                  ))}
+
+                  {expanded && sections.map(section => (
+                    <div key={section.id} className="pt-2 border-t">
+                      <p className="text-sm font-semibold mb-1">{section.title}</p>
+                      {section.fields.filter(field => isIntakeFieldShown(sections, answers, field)).map(field => {
+                        const answer = answers[field.id];
+                        return (
+                          <div key={field.id} className="grid grid-cols-2 gap-2 text-sm py-1">
+                            <span className="text-muted-foreground">{field.label}</span>
+                            <span>{Array.isArray(answer) ? answer.join(", ") : answer || "No answer"}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Package, Plus } from "lucide-react";
+import type { ClientPackage, TreatmentPackage } from "@/types";
+
+interface ClientPackagesProps {
+  clientId: string;
+}
+
+// Remaining sessions on a client's packages, with an in-person sale form for the front desk
+export default function ClientPackages({ clientId }: ClientPackagesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [packageId, setPackageId] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("card");
+
+  const { data: clientPackages = [] } = useQuery<ClientPackage[]>({
+    queryKey: ["/api/clients", clientId, "packages"],
+  });
+
+  const { data: packages = [] } = useQuery<TreatmentPackage[]>({
+    queryKey: ["/api/packages"],
+  });
+
+  const sellMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/clients/${clientId}/packages`, { packageId, paymentMethod });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients", clientId, "packages"] });
+      setPackageId("");
+      toast({
+        title: "Package sold",
+        description: "The sessions are available for the client's next visits.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error selling package",
+        description: error.message || "Failed to sell package",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isExpired = (clientPackage: ClientPackage) =>
+    !!clientPackage.expiresAt && new Date(clientPackage.expiresAt) < new Date();
+  const selectedPackage = packages.find(p => p.id === packageId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Treatment Packages</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {clientPackages.length === 0 ? (
+          <div className="text-center py-8">
+            <Package className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground" data-testid="text-no-client-packages">
+              No packages purchased
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {clientPackages.map(clientPackage => (
+              <div
+                key={clientPackage.id}
+                className="p-3 border rounded-lg space-y-2"
+                data-testid={`client-package-${clientPackage.id}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{clientPackage.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {clientPackage.purchasedAt && `Purchased ${new Date(clientPackage.purchasedAt).toLocaleDateString()}`}
+                      {clientPackage.expiresAt ? ` · use by ${new Date(clientPackage.expiresAt).toLocaleDateString()}` : " · no expiry"}
+                    </div>
+                  </div>
+                  {clientPackage.status === "used" ? (
+                    <Badge variant="secondary">Used</Badge>
+                  ) : isExpired(clientPackage) ? (
+                    <Badge variant="destructive">Expired</Badge>
+                  ) : (
+                    <Badge data-testid={`text-client-package-remaining-${clientPackage.id}`}>
+                      {clientPackage.sessionsRemaining} of {clientPackage.sessionsTotal} left
+                    </Badge>
+                  )}
+                </div>
+                <Progress value={(clientPackage.sessionsRemaining / clientPackage.sessionsTotal) * 100} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end border-t pt-4">
+          <div className="space-y-2">
+            <Label>Sell package</Label>
+            <Select value={packageId} onValueChange={setPackageId}>
+              <SelectTrigger data-testid="select-sell-package">
+                <SelectValue placeholder="Select package" />
+              </SelectTrigger>
+              <SelectContent>
+                {packages.filter(p => p.isActive).map(treatmentPackage => (
+                  <SelectItem key={treatmentPackage.id} value={treatmentPackage.id}>
+                    {treatmentPackage.name} - ${Number(treatmentPackage.price).toFixed(2)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Paid with</Label>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <SelectTrigger data-testid="select-sell-package-payment-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="card">Card</SelectItem>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="check">Check</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => sellMutation.mutate()}
+            disabled={!selectedPackage || sellMutation.isPending}
+            data-testid="button-sell-package"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {sellMutation.isPending ? "Selling..." : "Sell Package"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,295 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import PhotoCompareDialog from "@/components/clinic/PhotoCompareDialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, uploadFile } from "@/lib/api";
+import { Camera, Columns2, Trash2, Upload } from "lucide-react";
+import { format } from "date-fns";
+import type { Appointment, FileStorage, Service } from "@/types";
+
+const NO_APPOINTMENT = "none";
+
+interface ClientPhotoGalleryProps {
+  clientId: string;
+  photoConsentAt: Date | string | null;
+}
+
+interface PhotoGroup {
+  key: string;
+  title: string;
+  date: Date;
+  photos: FileStorage[];
+}
+
+const takenAt = (photo: FileStorage) => new Date(photo.takenAt || photo.createdAt!);
+
+// Photos from a visit are grouped under its treatment; the rest by the day they were taken
+const groupPhotos = (photos: FileStorage[], services: Service[], appointments: Appointment[]): PhotoGroup[] => {
+  const groups: PhotoGroup[] = [];
+  for (const photo of photos) {
+    const key = photo.appointmentId || `day-${format(takenAt(photo), "yyyy-MM-dd")}`;
+    let group = groups.find(g => g.key === key);
+    if (!group) {
+      const appointment = appointments.find(a => a.id === photo.appointmentId);
+      const service = services.find(s => s.id === photo.serviceId);
+      group = {
+        key,
+        title: service?.name || appointment?.serviceName || "Other photos",
+        date: appointment ? new Date(appointment.startTime) : takenAt(photo),
+        photos: [],
+      };
+      groups.push(group);
+    }
+    group.photos.push(photo);
+  }
+  return groups.sort((a, b) => b.date.getTime() - a.date.getTime());
+};
+
+// Before, after and progress photos for a client, with side-by-side comparison
+export default function ClientPhotoGallery({ clientId, photoConsentAt }: ClientPhotoGalleryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [category, setCategory] = useState("before");
+  const [appointmentId, setAppointmentId] = useState(NO_APPOINTMENT);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState<[FileStorage, FileStorage] | null>(null);
+
+  const { data: photos = [] } = useQuery<FileStorage[]>({
+    queryKey: ["/api/clients", clientId, "photos"],
+  });
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const { data: appointments = [] } = useQuery<Appointment[]>({
+    queryKey: ["/api/appointments", "client", clientId],
+    staleTime: 30000,
+  });
+
+  const refreshPhotos = () => queryClient.invalidateQueries({ queryKey: ["/api/clients", clientId, "photos"] });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const params = new URLSearchParams({ category, fileName: file.name });
+      if (appointmentId !== NO_APPOINTMENT) params.set("appointmentId", appointmentId);
+      if (file.lastModified) params.set("takenAt", new Date(file.lastModified).toISOString());
+      const response = await uploadFile(`/api/clients/${clientId}/photos?${params}`, file);
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshPhotos();
+      toast({
+        title: "Photo uploaded",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error uploading photo",
+        description: error.message || "Failed to upload photo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async ({ id, isPublic }: { id: string; isPublic: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/files/${id}`, { isPublic });
+      return response.json();
+    },
+    onSuccess: refreshPhotos,
+    onError: (error: any) => {
+      toast({
+        title: "Error updating photo",
+        description: error.message || "Failed to update photo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/files/${id}`);
+      return response.json();
+    },
+    onSuccess: (_, id) => {
+      setSelectedIds(prev => prev.filter(selected => selected !== id));
+      refreshPhotos();
+      toast({
+        title: "Photo deleted",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting photo",
+        description: error.message || "Failed to delete photo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFiles = (files: FileList | null) => {
+    Array.from(files || []).forEach(file => uploadMutation.mutate(file));
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  // Keep the two most recently picked photos
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id].slice(-2));
+  };
+
+  const compareSelected = () => {
+    const [first, second] = selectedIds.map(id => photos.find(p => p.id === id)!);
+    setComparing([first, second]);
+  };
+
+  const groups = groupPhotos(photos, services, appointments);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Camera className="w-5 h-5" />
+              Photos
+            </CardTitle>
+            <CardDescription>
+              {photoConsentAt
+                ? `Client allowed marketing use on ${format(new Date(photoConsentAt), "MMM d, yyyy")}`
+                : "Photos stay private until the client allows marketing use in their portal"}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={compareSelected}
+            disabled={selectedIds.length !== 2}
+            data-testid="button-compare-photos"
+          >
+            <Columns2 className="w-4 h-4 mr-2" />
+            Compare
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger data-testid="select-photo-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="before">Before</SelectItem>
+                <SelectItem value="after">After</SelectItem>
+                <SelectItem value="progress">Progress</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Treatment</Label>
+            <Select value={appointmentId} onValueChange={setAppointmentId}>
+              <SelectTrigger data-testid="select-photo-appointment">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_APPOINTMENT}>Not linked to a visit</SelectItem>
+                {appointments.map(appointment => (
+                  <SelectItem key={appointment.id} value={appointment.id}>
+                    {appointment.serviceName || "Appointment"} · {format(new Date(appointment.startTime), "MMM d, yyyy")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+              data-testid="input-photo-file"
+            />
+            <Button
+              onClick={() => fileInput.current?.click()}
+              disabled={uploadMutation.isPending}
+              data-testid="button-upload-photo"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {uploadMutation.isPending ? "Uploading..." : "Upload Photos"}
+            </Button>
+          </div>
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No photos for this client yet.</p>
+        ) : groups.map(group => (
+          <div key={group.key} className="space-y-2" data-testid={`photo-group-${group.key}`}>
+            <p className="text-sm font-semibold">
+              {group.title} <span className="font-normal text-muted-foreground">· {format(group.date, "MMM d, yyyy")}</span>
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {group.photos.map(photo => (
+                <div key={photo.id} className="border rounded-lg overflow-hidden" data-testid={`photo-${photo.id}`}>
+                  <div className="relative">
+                    <img src={photo.url} alt={photo.originalName} className="w-full h-40 object-cover bg-muted" loading="lazy" />
+                    <Checkbox
+                      className="absolute top-2 left-2 bg-white"
+                      checked={selectedIds.includes(photo.id)}
+                      onCheckedChange={() => toggleSelected(photo.id)}
+                      data-testid={`checkbox-select-photo-${photo.id}`}
+                    />
+                    <Badge variant="secondary" className="absolute top-2 right-2 capitalize">{photo.category}</Badge>
+                  </div>
+                  <div className="flex items-center justify-between p-2">
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id={`photo-public-${photo.id}`}
+                        checked={!!photo.isPublic}
+                        onCheckedChange={(checked) => publishMutation.mutate({ id: photo.id, isPublic: checked })}
+                        disabled={!photoConsentAt && !photo.isPublic}
+                        data-testid={`switch-photo-public-${photo.id}`}
+                      />
+                      <Label htmlFor={`photo-public-${photo.id}`} className="text-xs">Marketing</Label>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(photo.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-photo-${photo.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <PhotoCompareDialog
+          photos={comparing}
+          open={!!comparing}
+          onOpenChange={(open) => !open && setComparing(null)}
+        />
+      </CardContent>
+    </Card>
+  );
+}
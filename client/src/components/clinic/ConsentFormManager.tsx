@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { FileSignature, Pencil, Plus } from "lucide-react";
+import type { ConsentForm, Service } from "@/types";
+
+// Renewal is edited as text so that blank can mean "never expires"
+interface DraftForm {
+  id: string | null;
+  name: string;
+  content: string;
+  serviceIds: string[];
+  renewalMonths: string;
+  isActive: boolean;
+}
+
+const toDraft = (form?: ConsentForm): DraftForm => form ? {
+  id: form.id,
+  name: form.name,
+  content: form.content,
+  serviceIds: (form.serviceIds as string[] | null) || [],
+  renewalMonths: form.renewalMonths ? String(form.renewalMonths) : "",
+  isActive: form.isActive !== false,
+} : { id: null, name: "", content: "", serviceIds: [], renewalMonths: "12", isActive: true };
+
+const fromDraft = (draft: DraftForm) => ({
+  name: draft.name.trim(),
+  content: draft.content.trim(),
+  serviceIds: draft.serviceIds,
+  renewalMonths: draft.renewalMonths ? Number(draft.renewalMonths) : null,
+  isActive: draft.isActive,
+});
+
+// Consent documents clients sign before services marked "Requires consent form" can start
+export default function ConsentFormManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<DraftForm | null>(null);
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const { data: forms = [], isLoading } = useQuery<ConsentForm[]>({
+    queryKey: ["/api/consent-forms"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: DraftForm) => {
+      const response = form.id
+        ? await apiRequest("PUT", `/api/consent-forms/${form.id}`, fromDraft(form))
+        : await apiRequest("POST", "/api/consent-forms", fromDraft(form));
+      return response.json();
+    },
+    onSuccess: (saved: ConsentForm) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/consent-forms"] });
+      setDraft(null);
+      toast({
+        title: "Consent form saved",
+        description: `${saved.name} is on version ${saved.version}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving consent form",
+        description: error.message || "Failed to save consent form",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleService = (serviceId: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      serviceIds: prev.serviceIds.includes(serviceId)
+        ? prev.serviceIds.filter(id => id !== serviceId)
+        : [...prev.serviceIds, serviceId],
+    });
+  };
+
+  const renewalMonths = Number(draft?.renewalMonths);
+  const valid = !!draft && !!draft.name.trim() && !!draft.content.trim() &&
+    (!draft.renewalMonths || (Number.isInteger(renewalMonths) && renewalMonths >= 1 && renewalMonths <= 120));
+  const consentServices = services.filter(s => s.isActive && s.requiresConsent);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Consent Forms</CardTitle>
+            <CardDescription>
+              Documents clients sign before treatment. An appointment for a service that requires consent can't be started until every attached form is signed.
+            </CardDescription>
+          </div>
+          {!draft && (
+            <Button onClick={() => setDraft(toDraft())} data-testid="button-new-consent-form">
+              <Plus className="w-4 h-4 mr-2" />
+              New Form
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="consent-form-name">Name</Label>
+                <Input
+                  id="consent-form-name"
+                  placeholder="e.g. Botox Consent"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  data-testid="input-consent-form-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="consent-form-renewal">Re-consent after (months)</Label>
+                <Input
+                  id="consent-form-renewal"
+                  type="number"
+                  min="1"
+                  max="120"
+                  step="1"
+                  placeholder="Never"
+                  value={draft.renewalMonths}
+                  onChange={(e) => setDraft({ ...draft, renewalMonths: e.target.value })}
+                  data-testid="input-consent-form-renewal"
+                />
+              </div>
+              <div className="flex items-center space-x-2 md:pt-8">
+                <Switch
+                  id="consent-form-active"
+                  checked={draft.isActive}
+                  onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                  data-testid="switch-consent-form-active"
+                />
+                <Label htmlFor="consent-form-active">Active</Label>
+              </div>
+              <div className="space-y-2 md:col-span-3">
+                <Label htmlFor="consent-form-content">Consent text</Label>
+                <Textarea
+                  id="consent-form-content"
+                  rows={10}
+                  value={draft.content}
+                  onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                  data-testid="input-consent-form-content"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Required for</Label>
+              {consentServices.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No services require consent yet. Turn on "Requires consent form" on a service to attach this form to it.
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-48 overflow-y-auto border rounded-lg p-3">
+                  {consentServices.map(service => (
+                    <div key={service.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`consent-service-${service.id}`}
+                        checked={draft.serviceIds.includes(service.id)}
+                        onCheckedChange={() => toggleService(service.id)}
+                        data-testid={`checkbox-consent-service-${service.id}`}
+                      />
+                      <label htmlFor={`consent-service-${service.id}`} className="text-sm font-medium leading-none">
+                        {service.name}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)} data-testid="button-cancel-consent-form">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={!valid || saveMutation.isPending}
+                data-testid="button-save-consent-form"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Form"}
+              </Button>
+            </div>
+            {draft.id && (
+              <p className="text-sm text-muted-foreground">
+                Changing the text starts a new version, and clients must sign it again before their next treatment.
+              </p>
+            )}
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : forms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No consent forms yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {forms.map(form => {
+              const attached = services.filter(s => ((form.serviceIds as string[] | null) || []).includes(s.id));
+              return (
+                <div
+                  key={form.id}
+                  className="flex items-center justify-between border rounded-lg p-3"
+                  data-testid={`consent-form-${form.id}`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-3">
+                      <FileSignature className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium">{form.name}</span>
+                      <Badge variant="outline">v{form.version}</Badge>
+                      {!form.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {form.renewalMonths ? `Re-signed every ${form.renewalMonths} months` : "Never expires"}
+                      {" · "}
+                      {attached.length > 0 ? `Required for ${attached.map(s => s.name).join(", ")}` : "Not attached to a service"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft(toDraft(form))}
+                    data-testid={`button-edit-consent-form-${form.id}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import type { DocumentAccessEntry, FileStorage } from "@/types";
+
+const ACTION_LABELS: Record<string, string> = {
+  upload: "Uploaded",
+  update: "Details changed",
+  share: "Shared with client",
+  unshare: "Unshared",
+  view: "Viewed",
+  download: "Downloaded",
+  create_link: "Download link created",
+  delete: "Deleted",
+};
+
+interface DocumentAccessLogDialogProps {
+  document: FileStorage | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Who opened, downloaded or shared a document, most recent first
+export default function DocumentAccessLogDialog({ document, open, onOpenChange }: DocumentAccessLogDialogProps) {
+  const { data: entries = [], isLoading } = useQuery<DocumentAccessEntry[]>({
+    queryKey: ["/api/documents", document?.id, "access-log"],
+    enabled: open && !!document,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]" data-testid="dialog-document-access-log">
+        <DialogHeader>
+          <DialogTitle>Access Log</DialogTitle>
+          <DialogDescription>{document?.originalName}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No access recorded yet.</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto divide-y">
+            {entries.map(entry => {
+              const viaLink = (entry.changes as { via?: string } | null)?.via === "signed_link";
+              return (
+                <div key={entry.id} className="flex items-center justify-between py-2 text-sm" data-testid={`access-entry-${entry.id}`}>
+                  <div>
+                    <p className="font-medium">
+                      {ACTION_LABELS[entry.action] || entry.action}
+                      {viaLink && <Badge variant="outline" className="ml-2">Signed link</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {entry.userName || (viaLink ? "Link holder" : "System")}
+                      {entry.ipAddress && ` · ${entry.ipAddress}`}
+                    </p>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {entry.createdAt && format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Save } from "lucide-react";
+import { documentCategories, documentCategoryLabels } from "@shared/schema";
+import type { DocumentRetention } from "@/types";
+
+// A blank field keeps documents of that category indefinitely
+export default function DocumentRetentionSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [months, setMonths] = useState<Record<string, string>>({});
+
+  const { data } = useQuery<DocumentRetention>({
+    queryKey: ["/api/document-retention"],
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    const values: Record<string, string> = {};
+    for (const category of documentCategories) {
+      values[category] = data[category] ? String(data[category]) : "";
+    }
+    setMonths(values);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const retention: DocumentRetention = {};
+      for (const category of documentCategories) {
+        retention[category] = months[category] ? Number(months[category]) : null;
+      }
+      const response = await apiRequest("PUT", "/api/document-retention", retention);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/document-retention"] });
+      toast({
+        title: "Retention rules saved",
+        description: "Documents past their retention period are deleted overnight.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving retention rules",
+        description: error.message || "Failed to save retention rules",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const invalid = documentCategories.some(category => {
+    const value = months[category];
+    return !!value && !(Number.isInteger(Number(value)) && Number(value) >= 1);
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Document Retention</CardTitle>
+        <CardDescription>
+          Months to keep client documents after upload. Leave a category blank to keep its documents indefinitely.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {documentCategories.map(category => (
+            <div key={category} className="space-y-2">
+              <Label htmlFor={`retention-${category}`}>{documentCategoryLabels[category]}</Label>
+              <Input
+                id={`retention-${category}`}
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Keep indefinitely"
+                value={months[category] || ""}
+                onChange={(e) => setMonths(prev => ({ ...prev, [category]: e.target.value }))}
+                data-testid={`input-retention-${category}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || invalid}
+          data-testid="button-save-document-retention"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Retention Rules"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+import type { InjectionSite } from "@/types";
+
+interface FaceDiagramProps {
+  sites: InjectionSite[];
+  selectedId?: string | null;
+  onAdd?: (x: number, y: number) => void; // Omit for a read-only map
+  onSelect?: (id: string) => void;
+}
+
+// Front view of a face; sites are placed by percentage so they line up at any size
+export default function FaceDiagram({ sites, selectedId, onAdd, onSelect }: FaceDiagramProps) {
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!onAdd) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * 100;
+    const y = ((event.clientY - rect.top) / rect.height) * 100;
+    onAdd(Math.round(x * 10) / 10, Math.round(y * 10) / 10);
+  };
+
+  return (
+    <svg
+      viewBox="0 0 200 260"
+      className={`w-full max-w-xs border rounded-md bg-white ${onAdd ? "cursor-crosshair" : ""}`}
+      onClick={handleClick}
+      data-testid="svg-face-diagram"
+    >
+      <g fill="none" stroke="#9ca3af" strokeWidth="1.5" strokeLinecap="round">
+        {/* Head, ears and neck */}
+        <path d="M100 18 C 150 18 168 62 166 112 C 164 160 150 200 124 224 C 112 235 88 235 76 224 C 50 200 36 160 34 112 C 32 62 50 18 100 18 Z" />
+        <path d="M34 104 C 22 100 20 128 30 142 C 33 146 37 146 38 142" />
+        <path d="M166 104 C 178 100 180 128 170 142 C 167 146 163 146 162 142" />
+        <path d="M78 228 L 76 258 M122 228 L 124 258" />
+        {/* Brows and eyes */}
+        <path d="M56 88 C 66 80 80 80 88 86 M112 86 C 120 80 134 80 144 88" />
+        <path d="M60 104 C 68 96 82 96 88 104 C 82 110 68 110 60 104 Z" />
+        <path d="M112 104 C 118 96 132 96 140 104 C 132 110 118 110 112 104 Z" />
+        {/* Nose */}
+        <path d="M100 104 L 96 146 C 92 152 96 156 100 156 C 104 156 108 152 104 146" />
+        {/* Lips */}
+        <path d="M78 182 C 88 174 96 176 100 178 C 104 176 112 174 122 182 C 112 194 88 194 78 182 Z" />
+        <path d="M78 182 L 122 182" />
+      </g>
+      {sites.map((site, index) => (
+        <g
+          key={site.id}
+          onClick={(event) => {
+            event.stopPropagation();
+            onSelect?.(site.id);
+          }}
+          className={onSelect ? "cursor-pointer" : ""}
+          data-testid={`injection-site-${site.id}`}
+        >
+          <circle
+            cx={site.x * 2}
+            cy={site.y * 2.6}
+            r="6"
+            fill={site.id === selectedId ? "#7c3aed" : "#ef4444"}
+            fillOpacity="0.85"
+          />
+          <text x={site.x * 2} y={site.y * 2.6 + 3} textAnchor="middle" fontSize="8" fill="#fff">
+            {index + 1}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
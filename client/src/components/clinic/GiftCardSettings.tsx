@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Save } from "lucide-react";
+import { getGiftCardExpiryMonths } from "@shared/schema";
+
+const US_STATES = [
+  "AL", "AK", "AZ", "AR", "CA", "CO", "CT", "DE", "DC", "FL", "GA", "HI", "ID", "IL", "IN", "IA", "KS",
+  "KY", "LA", "ME", "MD", "MA", "MI", "MN", "MS", "MO", "MT", "NE", "NV", "NH", "NJ", "NM", "NY", "NC",
+  "ND", "OH", "OK", "OR", "PA", "RI", "SC", "SD", "TN", "TX", "UT", "VT", "VA", "WA", "WV", "WI", "WY",
+];
+
+interface GiftCardSettingsData {
+  giftCardState: string | null;
+  giftCardExpiryMonths: number | null;
+  effectiveExpiryMonths: number | null;
+}
+
+export default function GiftCardSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [state, setState] = useState("");
+  const [expires, setExpires] = useState(false);
+  const [months, setMonths] = useState("60");
+
+  const { data } = useQuery<GiftCardSettingsData>({
+    queryKey: ["/api/gift-card-settings"],
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setState(data.giftCardState || "");
+    setExpires(data.giftCardExpiryMonths !== null);
+    if (data.giftCardExpiryMonths !== null) {
+      setMonths(String(data.giftCardExpiryMonths));
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/gift-card-settings", {
+        giftCardState: state || null,
+        giftCardExpiryMonths: expires ? Number(months) : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gift-card-settings"] });
+      toast({
+        title: "Gift card settings saved",
+        description: "Cards sold from now on use the new expiry rule.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving settings",
+        description: error.message || "Failed to save gift card settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const configuredMonths = expires ? Number(months) || 0 : null;
+  const effectiveMonths = getGiftCardExpiryMonths(state || null, configuredMonths);
+  const invalid = expires && !(Number(months) >= 1);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gift Cards</CardTitle>
+        <CardDescription>
+          Set where your clinic operates so gift card expiry follows your state's rules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label>State</Label>
+          <Select value={state} onValueChange={setState}>
+            <SelectTrigger data-testid="select-gift-card-state">
+              <SelectValue placeholder="Select a state" />
+            </SelectTrigger>
+            <SelectContent>
+              {US_STATES.map(code => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="gift-card-expires"
+            checked={expires}
+            onCheckedChange={setExpires}
+            data-testid="switch-gift-card-expires"
+          />
+          <Label htmlFor="gift-card-expires">Gift cards expire</Label>
+        </div>
+
+        {expires && (
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="gift-card-expiry-months">Months after purchase</Label>
+            <Input
+              id="gift-card-expiry-months"
+              type="number"
+              min="1"
+              step="1"
+              value={months}
+              onChange={(e) => setMonths(e.target.value)}
+              data-testid="input-gift-card-expiry-months"
+            />
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground" data-testid="text-gift-card-effective-expiry">
+          {effectiveMonths === null
+            ? expires
+              ? `${state} doesn't allow gift cards to expire, so new cards never will.`
+              : "New gift cards never expire."
+            : effectiveMonths !== configuredMonths
+              ? `New gift cards expire after ${effectiveMonths} months, the legal minimum${state ? ` in ${state}` : ""}.`
+              : `New gift cards expire after ${effectiveMonths} months.`}
+        </p>
+
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || invalid}
+          data-testid="button-save-gift-card-settings"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Gift Card Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,504 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { ClipboardList, Flag, Pencil, Plus, Trash2 } from "lucide-react";
+import type { IntakeField, IntakeForm, IntakeFormSection, Service } from "@/types";
+
+const FIELD_TYPES: { value: IntakeField["type"]; label: string }[] = [
+  { value: "text", label: "Short answer" },
+  { value: "textarea", label: "Long answer" },
+  { value: "yes_no", label: "Yes / No" },
+  { value: "select", label: "Single choice" },
+  { value: "multi_select", label: "Multiple choice" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+];
+
+const ALWAYS_ASK = "always";
+
+// Options and flagged answers are edited as comma-separated text and split on save
+interface DraftField {
+  id: string;
+  label: string;
+  type: IntakeField["type"];
+  required: boolean;
+  optionsText: string;
+  showIfFieldId: string;
+  showIfEquals: string;
+  flagText: string;
+}
+
+interface DraftSection {
+  id: string;
+  title: string;
+  fields: DraftField[];
+}
+
+interface DraftForm {
+  id: string | null;
+  name: string;
+  description: string;
+  serviceIds: string[];
+  isActive: boolean;
+  sections: DraftSection[];
+}
+
+const newId = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+
+const splitList = (text: string) => text.split(",").map(item => item.trim()).filter(Boolean);
+
+const newField = (): DraftField => ({
+  id: newId("q"),
+  label: "",
+  type: "yes_no",
+  required: true,
+  optionsText: "",
+  showIfFieldId: ALWAYS_ASK,
+  showIfEquals: "",
+  flagText: "",
+});
+
+const newSection = (): DraftSection => ({ id: newId("s"), title: "", fields: [newField()] });
+
+const toDraft = (form?: IntakeForm): DraftForm => form ? {
+  id: form.id,
+  name: form.name,
+  description: form.description || "",
+  serviceIds: (form.serviceIds as string[] | null) || [],
+  isActive: form.isActive !== false,
+  sections: (form.sections as IntakeFormSection[]).map(section => ({
+    id: section.id,
+    title: section.title,
+    fields: section.fields.map(field => ({
+      id: field.id,
+      label: field.label,
+      type: field.type,
+      required: field.required,
+      optionsText: (field.options || []).join(", "),
+      showIfFieldId: field.showIf?.fieldId || ALWAYS_ASK,
+      showIfEquals: field.showIf?.equals || "",
+      flagText: (field.flagAnswers || []).join(", "),
+    })),
+  })),
+} : { id: null, name: "", description: "", serviceIds: [], isActive: true, sections: [newSection()] };
+
+// A condition whose question was removed or moved below it is dropped
+const fromDraft = (draft: DraftForm) => {
+  const asked: string[] = [];
+  return {
+    name: draft.name.trim(),
+    description: draft.description.trim() || null,
+    serviceIds: draft.serviceIds,
+    isActive: draft.isActive,
+    sections: draft.sections.map(section => ({
+      id: section.id,
+      title: section.title.trim(),
+      fields: section.fields.map(field => {
+        const conditional = asked.includes(field.showIfFieldId) && !!field.showIfEquals.trim();
+        asked.push(field.id);
+        return {
+          id: field.id,
+          label: field.label.trim(),
+          type: field.type,
+          required: field.required,
+          ...(field.type === "select" || field.type === "multi_select" ? { options: splitList(field.optionsText) } : {}),
+          ...(conditional ? { showIf: { fieldId: field.showIfFieldId, equals: field.showIfEquals.trim() } } : {}),
+          ...(splitList(field.flagText).length > 0 ? { flagAnswers: splitList(field.flagText) } : {}),
+        };
+      }),
+    })),
+  };
+};
+
+// Clinic-built intake and medical history forms, sent automatically to clients who book the attached services
+export default function IntakeFormBuilder() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<DraftForm | null>(null);
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const { data: forms = [], isLoading } = useQuery<IntakeForm[]>({
+    queryKey: ["/api/intake-forms"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: DraftForm) => {
+      const response = form.id
+        ? await apiRequest("PUT", `/api/intake-forms/${form.id}`, fromDraft(form))
+        : await apiRequest("POST", "/api/intake-forms", fromDraft(form));
+      return response.json();
+    },
+    onSuccess: (saved: IntakeForm) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/intake-forms"] });
+      setDraft(null);
+      toast({
+        title: "Intake form saved",
+        description: `${saved.name} is on version ${saved.version}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving intake form",
+        description: error.message || "Failed to save intake form",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSection = (sectionId: string, updates: Partial<DraftSection>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      sections: prev.sections.map(section => section.id === sectionId ? { ...section, ...updates } : section),
+    });
+  };
+
+  const updateField = (sectionId: string, fieldId: string, updates: Partial<DraftField>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      sections: prev.sections.map(section => section.id !== sectionId ? section : {
+        ...section,
+        fields: section.fields.map(field => field.id === fieldId ? { ...field, ...updates } : field),
+      }),
+    });
+  };
+
+  const toggleService = (serviceId: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      serviceIds: prev.serviceIds.includes(serviceId)
+        ? prev.serviceIds.filter(id => id !== serviceId)
+        : [...prev.serviceIds, serviceId],
+    });
+  };
+
+  const allFields = draft ? draft.sections.flatMap(section => section.fields) : [];
+  const valid = !!draft && !!draft.name.trim() && draft.sections.every(section =>
+    !!section.title.trim() && section.fields.length > 0 && section.fields.every(field =>
+      !!field.label.trim() &&
+      (field.type !== "select" && field.type !== "multi_select" || splitList(field.optionsText).length > 0)
+    )
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Intake Forms</CardTitle>
+            <CardDescription>
+              Questionnaires clients complete in their portal before a visit. Booking an attached service sends the form automatically.
+            </CardDescription>
+          </div>
+          {!draft && (
+            <Button onClick={() => setDraft(toDraft())} data-testid="button-new-intake-form">
+              <Plus className="w-4 h-4 mr-2" />
+              New Form
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="intake-form-name">Name</Label>
+                <Input
+                  id="intake-form-name"
+                  placeholder="e.g. Medical History"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  data-testid="input-intake-form-name"
+                />
+              </div>
+              <div className="flex items-center space-x-2 md:pt-8">
+                <Switch
+                  id="intake-form-active"
+                  checked={draft.isActive}
+                  onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                  data-testid="switch-intake-form-active"
+                />
+                <Label htmlFor="intake-form-active">Active</Label>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="intake-form-description">Instructions for clients</Label>
+                <Textarea
+                  id="intake-form-description"
+                  rows={2}
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  data-testid="input-intake-form-description"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Send when booking</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-48 overflow-y-auto border rounded-lg p-3">
+                {services.filter(s => s.isActive).map(service => (
+                  <div key={service.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`intake-service-${service.id}`}
+                      checked={draft.serviceIds.includes(service.id)}
+                      onCheckedChange={() => toggleService(service.id)}
+                      data-testid={`checkbox-intake-service-${service.id}`}
+                    />
+                    <label htmlFor={`intake-service-${service.id}`} className="text-sm font-medium leading-none">
+                      {service.name}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {draft.sections.map((section, sectionIndex) => (
+              <div key={section.id} className="border rounded-lg p-4 space-y-4" data-testid={`intake-section-${section.id}`}>
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder={`Section ${sectionIndex + 1} title, e.g. Medications`}
+                    value={section.title}
+                    onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                    data-testid={`input-intake-section-title-${section.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft({ ...draft, sections: draft.sections.filter(s => s.id !== section.id) })}
+                    disabled={draft.sections.length === 1}
+                    data-testid={`button-remove-intake-section-${section.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {section.fields.map(field => {
+                  // Conditions can only depend on questions asked before this one
+                  const earlierFields = allFields.slice(0, allFields.findIndex(f => f.id === field.id));
+                  const parent = earlierFields.find(f => f.id === field.showIfFieldId);
+                  const parentOptions = parent?.type === "yes_no" ? ["yes", "no"] : parent ? splitList(parent.optionsText) : [];
+                  return (
+                    <div key={field.id} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-end border-t pt-3">
+                      <div className="space-y-1 md:col-span-5">
+                        <Label className="text-xs">Question</Label>
+                        <Input
+                          placeholder="e.g. Are you pregnant or breastfeeding?"
+                          value={field.label}
+                          onChange={(e) => updateField(section.id, field.id, { label: e.target.value })}
+                          data-testid={`input-intake-field-label-${field.id}`}
+                        />
+                      </div>
+                      <div className="space-y-1 md:col-span-3">
+                        <Label className="text-xs">Answer type</Label>
+                        <Select
+                          value={field.type}
+                          onValueChange={(value) => updateField(section.id, field.id, { type: value as IntakeField["type"] })}
+                        >
+                          <SelectTrigger data-testid={`select-intake-field-type-${field.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {FIELD_TYPES.map(type => (
+                              <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center space-x-2 md:col-span-3 pb-2">
+                        <Switch
+                          checked={field.required}
+                          onCheckedChange={(checked) => updateField(section.id, field.id, { required: checked })}
+                          data-testid={`switch-intake-field-required-${field.id}`}
+                        />
+                        <span className="text-sm">Required</span>
+                      </div>
+                      <div className="md:col-span-1 flex justify-end">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateSection(section.id, { fields: section.fields.filter(f => f.id !== field.id) })}
+                          disabled={section.fields.length === 1}
+                          data-testid={`button-remove-intake-field-${field.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+
+                      {(field.type === "select" || field.type === "multi_select") && (
+                        <div className="space-y-1 md:col-span-12">
+                          <Label className="text-xs">Options (comma separated)</Label>
+                          <Input
+                            placeholder="e.g. Aspirin, Warfarin, Other"
+                            value={field.optionsText}
+                            onChange={(e) => updateField(section.id, field.id, { optionsText: e.target.value })}
+                            data-testid={`input-intake-field-options-${field.id}`}
+                          />
+                        </div>
+                      )}
+                      <div className="space-y-1 md:col-span-4">
+                        <Label className="text-xs">Ask</Label>
+                        <Select
+                          value={field.showIfFieldId}
+                          onValueChange={(value) => updateField(section.id, field.id, { showIfFieldId: value, showIfEquals: "" })}
+                        >
+                          <SelectTrigger data-testid={`select-intake-field-condition-${field.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALWAYS_ASK}>Always</SelectItem>
+                            {earlierFields.filter(f => f.label.trim()).map(f => (
+                              <SelectItem key={f.id} value={f.id}>Only if "{f.label}" is…</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1 md:col-span-3">
+                        <Label className="text-xs">Answer</Label>
+                        {parentOptions.length > 0 ? (
+                          <Select
+                            value={field.showIfEquals}
+                            onValueChange={(value) => updateField(section.id, field.id, { showIfEquals: value })}
+                          >
+                            <SelectTrigger data-testid={`select-intake-field-condition-value-${field.id}`}>
+                              <SelectValue placeholder="Select answer" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {parentOptions.map(option => (
+                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Input
+                            value={field.showIfEquals}
+                            onChange={(e) => updateField(section.id, field.id, { showIfEquals: e.target.value })}
+                            disabled={!parent}
+                            data-testid={`input-intake-field-condition-value-${field.id}`}
+                          />
+                        )}
+                      </div>
+                      <div className="space-y-1 md:col-span-5">
+                        <Label className="text-xs">Flag for staff when the answer is</Label>
+                        <Input
+                          placeholder={field.type === "yes_no" ? "e.g. yes" : "Comma separated answers"}
+                          value={field.flagText}
+                          onChange={(e) => updateField(section.id, field.id, { flagText: e.target.value })}
+                          data-testid={`input-intake-field-flags-${field.id}`}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateSection(section.id, { fields: [...section.fields, newField()] })}
+                  data-testid={`button-add-intake-field-${section.id}`}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Question
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setDraft({ ...draft, sections: [...draft.sections, newSection()] })}
+                data-testid="button-add-intake-section"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Section
+              </Button>
+              <div className="flex-1" />
+              <Button variant="outline" onClick={() => setDraft(null)} data-testid="button-cancel-intake-form">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={!valid || saveMutation.isPending}
+                data-testid="button-save-intake-form"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Form"}
+              </Button>
+            </div>
+            {draft.id && (
+              <p className="text-sm text-muted-foreground">
+                Changing the questions starts a new version. Answers already on file stay with the version they were given on.
+              </p>
+            )}
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : forms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No intake forms yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {forms.map(form => {
+              const sections = form.sections as IntakeFormSection[];
+              const questions = sections.reduce((sum, section) => sum + section.fields.length, 0);
+              const flagged = sections.reduce((sum, section) => sum + section.fields.filter(f => f.flagAnswers?.length).length, 0);
+              const attached = services.filter(s => ((form.serviceIds as string[] | null) || []).includes(s.id));
+              return (
+                <div
+                  key={form.id}
+                  className="flex items-center justify-between border rounded-lg p-3"
+                  data-testid={`intake-form-${form.id}`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-3">
+                      <ClipboardList className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium">{form.name}</span>
+                      <Badge variant="outline">v{form.version}</Badge>
+                      {!form.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {questions} question{questions === 1 ? "" : "s"}
+                      {flagged > 0 && (
+                        <span className="inline-flex items-center ml-1">
+                          · <Flag className="w-3 h-3 mx-1" />{flagged} flagged
+                        </span>
+                      )}
+                      {" · "}
+                      {attached.length > 0 ? `Sent for ${attached.map(s => s.name).join(", ")}` : "Not attached to a service"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft(toDraft(form))}
+                    data-testid={`button-edit-intake-form-${form.id}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
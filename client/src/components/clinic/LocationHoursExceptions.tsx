@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { CalendarOff, Clock, Plus, Trash2 } from "lucide-react";
+import type { Location, LocationHoursException } from "@/types";
+
+export default function LocationHoursExceptions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [locationId, setLocationId] = useState<string>("");
+  const [date, setDate] = useState<Date | undefined>();
+  const [isClosed, setIsClosed] = useState(true);
+  const [openTime, setOpenTime] = useState("10:00");
+  const [closeTime, setCloseTime] = useState("14:00");
+  const [reason, setReason] = useState("");
+
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const selectedLocationId = locationId || locations[0]?.id || "";
+
+  const { data: exceptions = [], isLoading } = useQuery<LocationHoursException[]>({
+    queryKey: ["/api/locations", selectedLocationId, "hours-exceptions"],
+    enabled: !!selectedLocationId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/locations/${selectedLocationId}/hours-exceptions`, {
+        date: format(date!, "yyyy-MM-dd"),
+        isClosed,
+        openTime: isClosed ? null : openTime,
+        closeTime: isClosed ? null : closeTime,
+        reason: reason.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { affectedAppointments: unknown[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations", selectedLocationId, "hours-exceptions"] });
+      setDate(undefined);
+      setReason("");
+      const affected = result.affectedAppointments.length;
+      toast({
+        title: isClosed ? "Closure added" : "Special hours added",
+        description: affected > 0
+          ? `${affected} booked patient${affected === 1 ? " has" : "s have"} been notified to reschedule.`
+          : "No existing appointments are affected.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving date",
+        description: error.message || "Failed to save closure",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/locations/hours-exceptions/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations", selectedLocationId, "hours-exceptions"] });
+      toast({
+        title: "Date removed",
+        description: "Regular business hours apply again.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error removing date",
+        description: error.message || "Failed to remove closure",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Holidays & Special Hours</CardTitle>
+        <CardDescription>
+          Close a location for a day or change its hours for one date. Patients already booked on that date are notified.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label>Location</Label>
+          <Select value={selectedLocationId} onValueChange={setLocationId}>
+            <SelectTrigger data-testid="select-exception-location">
+              <SelectValue placeholder="Select location" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.map(location => (
+                <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Calendar
+            mode="single"
+            selected={date}
+            onSelect={setDate}
+            disabled={(day) => day < today}
+            modifiers={{ exception: exceptions.map(e => parseISO(e.date)) }}
+            modifiersClassNames={{ exception: "bg-destructive/10 text-destructive" }}
+            className="rounded-md border w-fit"
+          />
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="exception-closed"
+                checked={isClosed}
+                onCheckedChange={setIsClosed}
+                data-testid="switch-exception-closed"
+              />
+              <Label htmlFor="exception-closed">Closed all day</Label>
+            </div>
+            {!isClosed && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="exception-open">Opens</Label>
+                  <Input
+                    id="exception-open"
+                    type="time"
+                    value={openTime}
+                    onChange={(e) => setOpenTime(e.target.value)}
+                    data-testid="input-exception-open"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="exception-close">Closes</Label>
+                  <Input
+                    id="exception-close"
+                    type="time"
+                    value={closeTime}
+                    onChange={(e) => setCloseTime(e.target.value)}
+                    data-testid="input-exception-close"
+                  />
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="exception-reason">Reason</Label>
+              <Input
+                id="exception-reason"
+                placeholder="e.g. Thanksgiving"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                data-testid="input-exception-reason"
+              />
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!date || !selectedLocationId || (!isClosed && openTime >= closeTime) || createMutation.isPending}
+              data-testid="button-add-hours-exception"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? "Saving..." : isClosed ? "Add Closure" : "Add Special Hours"}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : exceptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No upcoming closures or special hours.</p>
+        ) : (
+          <div className="space-y-2">
+            {exceptions.map(exception => (
+              <div
+                key={exception.id}
+                className="flex items-center justify-between border rounded-lg p-3"
+                data-testid={`hours-exception-${exception.id}`}
+              >
+                <div className="flex items-center space-x-3">
+                  {exception.isClosed ? (
+                    <CalendarOff className="w-4 h-4 text-muted-foreground" />
+                  ) : (
+                    <Clock className="w-4 h-4 text-muted-foreground" />
+                  )}
+                  <span className="font-medium">{format(parseISO(exception.date), "EEE, PP")}</span>
+                  <Badge variant={exception.isClosed ? "destructive" : "outline"}>
+                    {exception.isClosed ? "Closed" : `${exception.openTime} – ${exception.closeTime}`}
+                  </Badge>
+                  {exception.reason && <span className="text-sm text-muted-foreground">{exception.reason}</span>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(exception.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-remove-hours-exception-${exception.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Package, Plus, Trash2 } from "lucide-react";
+import type { Service, TreatmentPackage } from "@/types";
+
+const EMPTY_FORM = {
+  name: "",
+  serviceId: "",
+  sessionCount: "6",
+  price: "",
+  expiryDays: "",
+};
+
+export default function PackageManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const { data: packages = [], isLoading } = useQuery<TreatmentPackage[]>({
+    queryKey: ["/api/packages"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/packages", {
+        name: form.name.trim(),
+        serviceId: form.serviceId,
+        sessionCount: Number(form.sessionCount),
+        price: Number(form.price),
+        expiryDays: form.expiryDays ? Number(form.expiryDays) : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/packages"] });
+      setForm(EMPTY_FORM);
+      toast({
+        title: "Package added",
+        description: "Patients can now buy it from their portal.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error adding package",
+        description: error.message || "Failed to add package",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/packages/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/packages"] });
+      toast({
+        title: "Package removed",
+        description: "It is no longer on sale. Clients who bought it keep their sessions.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error removing package",
+        description: error.message || "Failed to remove package",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedService = services.find(s => s.id === form.serviceId);
+  const sessionCount = Number(form.sessionCount) || 0;
+  const valid = !!form.name.trim() && !!form.serviceId && sessionCount >= 1 && Number(form.price) > 0 &&
+    (!form.expiryDays || Number(form.expiryDays) >= 1);
+  const activePackages = packages.filter(p => p.isActive);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Treatment Packages</CardTitle>
+        <CardDescription>
+          Prepaid bundles of sessions. A session is used automatically when a client's appointment for the service is completed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="package-name">Name</Label>
+            <Input
+              id="package-name"
+              placeholder="e.g. 6 Microneedling Sessions"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              data-testid="input-package-name"
+            />
+          </div>
+          <div className="space-y-2 md:col-span-3">
+            <Label>Service</Label>
+            <Select value={form.serviceId} onValueChange={(value) => setForm(prev => ({ ...prev, serviceId: value }))}>
+              <SelectTrigger data-testid="select-package-service">
+                <SelectValue placeholder="Select service" />
+              </SelectTrigger>
+              <SelectContent>
+                {services.filter(s => s.isActive).map(service => (
+                  <SelectItem key={service.id} value={service.id}>{service.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="package-sessions">Sessions</Label>
+            <Input
+              id="package-sessions"
+              type="number"
+              min="1"
+              step="1"
+              value={form.sessionCount}
+              onChange={(e) => setForm(prev => ({ ...prev, sessionCount: e.target.value }))}
+              data-testid="input-package-sessions"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="package-price">Price ($)</Label>
+            <Input
+              id="package-price"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.price}
+              onChange={(e) => setForm(prev => ({ ...prev, price: e.target.value }))}
+              data-testid="input-package-price"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="package-expiry">Expires after (days)</Label>
+            <Input
+              id="package-expiry"
+              type="number"
+              min="1"
+              step="1"
+              placeholder="Never"
+              value={form.expiryDays}
+              onChange={(e) => setForm(prev => ({ ...prev, expiryDays: e.target.value }))}
+              data-testid="input-package-expiry"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!valid || createMutation.isPending}
+              data-testid="button-add-package"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? "Adding..." : "Add Package"}
+            </Button>
+          </div>
+        </div>
+        {selectedService?.price && sessionCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {sessionCount} single visits cost ${(Number(selectedService.price) * sessionCount).toFixed(2)}.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : activePackages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No packages yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {activePackages.map(treatmentPackage => {
+              const service = services.find(s => s.id === treatmentPackage.serviceId);
+              return (
+                <div
+                  key={treatmentPackage.id}
+                  className="flex items-center justify-between border rounded-lg p-3"
+                  data-testid={`package-${treatmentPackage.id}`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <Package className="w-4 h-4 text-muted-foreground" />
+                    <span className="font-medium">{treatmentPackage.name}</span>
+                    <Badge variant="outline">
+                      {treatmentPackage.sessionCount} × {service?.name || "Service"}
+                    </Badge>
+                    <span className="text-sm text-muted-foreground">
+                      ${Number(treatmentPackage.price).toFixed(2)}
+                      {treatmentPackage.expiryDays ? ` · ${treatmentPackage.expiryDays} days` : " · no expiry"}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deactivateMutation.mutate(treatmentPackage.id)}
+                    disabled={deactivateMutation.isPending}
+                    data-testid={`button-remove-package-${treatmentPackage.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/api";
+import { Download, Lock, LockOpen, Plus } from "lucide-react";
+import type { PayPeriod } from "@/types";
+
+interface PayrollStatement {
+  staffId: string;
+  providerName: string;
+  commissionType: "percentage" | "flat";
+  commissionRate: number;
+  appointments: number;
+  serviceRevenue: number;
+  commission: number;
+  productSales: number;
+  productCommission: number;
+  tips: number;
+  hours: number;
+  hoursSource: "clocked" | "scheduled";
+  hourlyRate: number;
+  hourlyPay: number;
+  totalPay: number;
+}
+
+const formatMoney = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Pay periods and their statements; an open period is recalculated on every view until it is locked
+export default function PayPeriods() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: periods = [] } = useQuery<PayPeriod[]>({
+    queryKey: ["/api/pay-periods"],
+  });
+
+  const { data: selected } = useQuery<PayPeriod & { statements: PayrollStatement[] }>({
+    queryKey: ["/api/pay-periods", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pay-periods"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/pay-periods", { startDate, endDate });
+      return response.json();
+    },
+    onSuccess: (period: PayPeriod) => {
+      invalidate();
+      setSelectedId(period.id);
+      setStartDate("");
+      setEndDate("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error creating pay period",
+        description: error.message || "Failed to create pay period",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const lockMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "lock" | "unlock" }) => {
+      const response = await apiRequest("POST", `/api/pay-periods/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_period, { action }) => {
+      invalidate();
+      toast({
+        title: action === "lock" ? "Pay period locked" : "Pay period reopened",
+        description: action === "lock"
+          ? "Its statements won't change anymore and are ready to export."
+          : "Its statements are being recalculated from current data.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating pay period",
+        description: error.message || "Failed to update pay period",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const statements = selected?.statements || [];
+  const totalPay = statements.reduce((sum, s) => sum + s.totalPay, 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Pay Periods</CardTitle>
+          <CardDescription>
+            Commission, product commission, tips and hourly pay for each staff member. Lock a period once it's final.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="pay-period-start">Start</Label>
+              <Input
+                id="pay-period-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                data-testid="input-pay-period-start"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="pay-period-end">End</Label>
+              <Input
+                id="pay-period-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                data-testid="input-pay-period-end"
+              />
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!startDate || !endDate || endDate < startDate || createMutation.isPending}
+              data-testid="button-create-pay-period"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Pay Period
+            </Button>
+          </div>
+
+          {periods.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No pay periods yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {periods.map(period => (
+                <Button
+                  key={period.id}
+                  variant={period.id === selectedId ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSelectedId(period.id)}
+                  data-testid={`button-pay-period-${period.id}`}
+                >
+                  {period.startDate} to {period.endDate}
+                  {period.status === "locked" && <Lock className="w-3 h-3 ml-2" />}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  {selected.startDate} to {selected.endDate}
+                  <Badge variant={selected.status === "locked" ? "default" : "secondary"}>
+                    {selected.status === "locked" ? "Locked" : "Open"}
+                  </Badge>
+                </CardTitle>
+                <CardDescription>
+                  {formatMoney(totalPay)} total pay
+                  {selected.lockedAt && ` · locked ${new Date(selected.lockedAt).toLocaleString()}`}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/pay-periods/${selected.id}/export.csv`} download data-testid="button-export-payroll">
+                    <Download className="w-4 h-4 mr-2" />
+                    Export CSV
+                  </a>
+                </Button>
+                {selected.status === "open" ? (
+                  <Button
+                    size="sm"
+                    onClick={() => lockMutation.mutate({ id: selected.id, action: "lock" })}
+                    disabled={lockMutation.isPending}
+                    data-testid="button-lock-pay-period"
+                  >
+                    <Lock className="w-4 h-4 mr-2" />
+                    Lock Period
+                  </Button>
+                ) : user?.role === "clinic_admin" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => lockMutation.mutate({ id: selected.id, action: "unlock" })}
+                    disabled={lockMutation.isPending}
+                    data-testid="button-unlock-pay-period"
+                  >
+                    <LockOpen className="w-4 h-4 mr-2" />
+                    Reopen
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {statements.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No staff to pay for this period.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-xs text-muted-foreground">
+                      <th className="text-left py-2">Staff member</th>
+                      <th className="text-right py-2">Appts</th>
+                      <th className="text-right py-2">Service revenue</th>
+                      <th className="text-right py-2">Commission</th>
+                      <th className="text-right py-2">Product comm.</th>
+                      <th className="text-right py-2">Tips</th>
+                      <th className="text-right py-2">Hours</th>
+                      <th className="text-right py-2">Hourly pay</th>
+                      <th className="text-right py-2">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statements.map(statement => (
+                      <tr key={statement.staffId} className="border-b" data-testid={`payroll-row-${statement.staffId}`}>
+                        <td className="py-2">
+                          <div className="font-medium">{statement.providerName}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {statement.commissionType === "flat"
+                              ? `${formatMoney(statement.commissionRate)} per service`
+                              : `${statement.commissionRate}% commission`}
+                          </div>
+                        </td>
+                        <td className="text-right py-2">{statement.appointments}</td>
+                        <td className="text-right py-2">{formatMoney(statement.serviceRevenue)}</td>
+                        <td className="text-right py-2">{formatMoney(statement.commission)}</td>
+                        <td className="text-right py-2">{formatMoney(statement.productCommission)}</td>
+                        <td className="text-right py-2">{formatMoney(statement.tips)}</td>
+                        <td className="text-right py-2">
+                          {statement.hours.toFixed(2)}
+                          <div className="text-xs text-muted-foreground">{statement.hoursSource}</div>
+                        </td>
+                        <td className="text-right py-2">{formatMoney(statement.hourlyPay)}</td>
+                        <td className="text-right py-2 font-semibold">{formatMoney(statement.totalPay)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import type { FileStorage } from "@/types";
+
+interface PhotoCompareDialogProps {
+  photos: [FileStorage, FileStorage] | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Two photos side by side, earlier on the left
+export default function PhotoCompareDialog({ photos, open, onOpenChange }: PhotoCompareDialogProps) {
+  if (!photos) {
+    return null;
+  }
+
+  const takenAt = (photo: FileStorage) => new Date(photo.takenAt || photo.createdAt!);
+  const ordered = [...photos].sort((a, b) => takenAt(a).getTime() - takenAt(b).getTime());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px]" data-testid="dialog-photo-compare">
+        <DialogHeader>
+          <DialogTitle>Compare Photos</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          {ordered.map(photo => (
+            <div key={photo.id} className="space-y-2" data-testid={`compare-photo-${photo.id}`}>
+              <img
+                src={photo.url}
+                alt={photo.originalName}
+                className="w-full max-h-[70vh] object-contain rounded-md bg-muted"
+              />
+              <div className="flex items-center justify-center gap-2 text-sm">
+                <Badge variant="outline" className="capitalize">{photo.category}</Badge>
+                <span className="text-muted-foreground">{format(takenAt(photo), "MMM d, yyyy")}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { ShoppingBag, Plus, Trash2 } from "lucide-react";
+import type { Product } from "@/types";
+
+const EMPTY_FORM = {
+  name: "",
+  sku: "",
+  price: "",
+  cost: "",
+  unit: "each",
+  reorderLevel: "",
+  isRetail: true,
+  isTaxable: true,
+  trackInventory: true,
+};
+
+export default function ProductManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: products = [], isLoading } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/products", {
+        name: form.name.trim(),
+        sku: form.sku.trim() || null,
+        price: Number(form.price),
+        cost: form.cost ? Number(form.cost) : null,
+        unit: form.unit.trim() || "each",
+        reorderLevel: form.trackInventory && form.reorderLevel ? Number(form.reorderLevel) : null,
+        isRetail: form.isRetail,
+        isTaxable: form.isTaxable,
+        trackInventory: form.trackInventory,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setForm(EMPTY_FORM);
+      toast({
+        title: "Product added",
+        description: "Record its stock with a count or a purchase order.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error adding product",
+        description: error.message || "Failed to add product",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const taxableMutation = useMutation({
+    mutationFn: async ({ id, isTaxable }: { id: string; isTaxable: boolean }) => {
+      const response = await apiRequest("PUT", `/api/products/${id}`, { isTaxable });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating product",
+        description: error.message || "Failed to update product",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/products/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Product removed",
+        description: "It is no longer on sale.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error removing product",
+        description: error.message || "Failed to remove product",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const valid = !!form.name.trim() && Number(form.price) >= 0 && !!form.price &&
+    (!form.cost || Number(form.cost) >= 0) && (!form.reorderLevel || Number(form.reorderLevel) >= 0);
+  const activeProducts = products.filter(p => p.isActive);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Products</CardTitle>
+        <CardDescription>
+          Retail products sold at checkout and consumables used up in treatments. Admins are alerted when a location falls to the reorder level.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="product-name">Name</Label>
+            <Input
+              id="product-name"
+              placeholder="e.g. Vitamin C Serum"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              data-testid="input-product-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="product-sku">SKU</Label>
+            <Input
+              id="product-sku"
+              placeholder="Optional"
+              value={form.sku}
+              onChange={(e) => setForm(prev => ({ ...prev, sku: e.target.value }))}
+              data-testid="input-product-sku"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="product-price">Price ($)</Label>
+            <Input
+              id="product-price"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.price}
+              onChange={(e) => setForm(prev => ({ ...prev, price: e.target.value }))}
+              data-testid="input-product-price"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="product-cost">Cost ($)</Label>
+            <Input
+              id="product-cost"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Optional"
+              value={form.cost}
+              onChange={(e) => setForm(prev => ({ ...prev, cost: e.target.value }))}
+              data-testid="input-product-cost"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="product-unit">Unit</Label>
+            <Input
+              id="product-unit"
+              placeholder="each"
+              value={form.unit}
+              onChange={(e) => setForm(prev => ({ ...prev, unit: e.target.value }))}
+              data-testid="input-product-unit"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="product-reorder-level">Reorder level</Label>
+            <Input
+              id="product-reorder-level"
+              type="number"
+              min="0"
+              step="1"
+              placeholder="No alerts"
+              value={form.reorderLevel}
+              disabled={!form.trackInventory}
+              onChange={(e) => setForm(prev => ({ ...prev, reorderLevel: e.target.value }))}
+              data-testid="input-product-reorder-level"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="product-is-retail"
+              checked={form.isRetail}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, isRetail: checked }))}
+              data-testid="switch-product-is-retail"
+            />
+            <Label htmlFor="product-is-retail">Sold at checkout</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="product-is-taxable"
+              checked={form.isTaxable}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, isTaxable: checked }))}
+              data-testid="switch-product-is-taxable"
+            />
+            <Label htmlFor="product-is-taxable">Charge sales tax</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="product-track-inventory"
+              checked={form.trackInventory}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, trackInventory: checked }))}
+              data-testid="switch-product-track-inventory"
+            />
+            <Label htmlFor="product-track-inventory">Track stock</Label>
+          </div>
+          <div className="md:col-span-2">
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!valid || createMutation.isPending}
+              data-testid="button-add-product"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? "Adding..." : "Add Product"}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : activeProducts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No products yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {activeProducts.map(product => (
+              <div
+                key={product.id}
+                className="flex items-center justify-between border rounded-lg p-3"
+                data-testid={`product-${product.id}`}
+              >
+                <div className="flex items-center space-x-3">
+                  <ShoppingBag className="w-4 h-4 text-muted-foreground" />
+                  <span className="font-medium">{product.name}</span>
+                  {product.sku && <Badge variant="outline">{product.sku}</Badge>}
+                  <span className="text-sm text-muted-foreground">
+                    ${Number(product.price).toFixed(2)}
+                    {product.cost && ` · cost $${Number(product.cost).toFixed(2)}`}
+                    {` · per ${product.unit || "each"}`}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {!product.isRetail && <Badge variant="secondary">Consumable</Badge>}
+                  {!product.trackInventory && <Badge variant="secondary">Not tracked</Badge>}
+                  {product.trackInventory && product.reorderLevel !== null && (
+                    <Badge variant="outline">Reorder at {product.reorderLevel}</Badge>
+                  )}
+                  {product.isRetail && (
+                    <div className="flex items-center space-x-1">
+                      <Switch
+                        checked={product.isTaxable ?? true}
+                        onCheckedChange={(checked) => taxableMutation.mutate({ id: product.id, isTaxable: checked })}
+                        disabled={taxableMutation.isPending}
+                        data-testid={`switch-product-taxable-${product.id}`}
+                      />
+                      <span className="text-xs text-muted-foreground">Taxed</span>
+                    </div>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deactivateMutation.mutate(product.id)}
+                    disabled={deactivateMutation.isPending}
+                    data-testid={`button-remove-product-${product.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Plus, Trash2, PackageCheck, Ban } from "lucide-react";
+import { format } from "date-fns";
+import type { Location, Product, PurchaseOrder, PurchaseOrderItem } from "@/types";
+
+type PurchaseOrderWithItems = PurchaseOrder & { items: PurchaseOrderItem[] };
+
+const EMPTY_LINE = { productId: "", quantity: "1", unitCost: "" };
+
+const getStatusColor = (status: PurchaseOrder["status"]) => {
+  switch (status) {
+    case "received":
+      return "bg-green-100 text-green-800";
+    case "canceled":
+      return "bg-gray-100 text-gray-800";
+    default:
+      return "bg-blue-100 text-blue-800";
+  }
+};
+
+// Orders placed with suppliers; receiving one adds what was delivered to the order's location
+export default function PurchaseOrders() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [locationId, setLocationId] = useState("");
+  const [supplier, setSupplier] = useState("");
+  const [reference, setReference] = useState("");
+  const [lines, setLines] = useState([EMPTY_LINE]);
+  const [receiving, setReceiving] = useState<PurchaseOrderWithItems | null>(null);
+  const [received, setReceived] = useState<Record<string, string>>({});
+
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: orders = [], isLoading } = useQuery<PurchaseOrderWithItems[]>({
+    queryKey: ["/api/purchase-orders"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/purchase-orders", {
+        locationId,
+        supplier: supplier.trim(),
+        reference: reference.trim() || undefined,
+        items: lines.map(line => ({
+          productId: line.productId,
+          quantity: Number(line.quantity),
+          unitCost: Number(line.unitCost),
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      setSupplier("");
+      setReference("");
+      setLines([EMPTY_LINE]);
+      toast({
+        title: "Purchase order placed",
+        description: "Receive it when the delivery arrives to add the stock.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error placing order",
+        description: error.message || "Failed to place purchase order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async (order: PurchaseOrderWithItems) => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${order.id}/receive`, {
+        items: order.items.map(item => ({
+          itemId: item.id,
+          quantityReceived: Number(received[item.id] ?? item.quantityOrdered),
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setReceiving(null);
+      setReceived({});
+      toast({
+        title: "Delivery received",
+        description: "Stock and product costs have been updated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error receiving delivery",
+        description: error.message || "Failed to receive purchase order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      toast({
+        title: "Purchase order canceled",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error canceling order",
+        description: error.message || "Failed to cancel purchase order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLine = (index: number, changes: Partial<typeof EMPTY_LINE>) =>
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+  const trackedProducts = products.filter(p => p.isActive && p.trackInventory);
+  const orderTotal = lines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitCost) || 0), 0);
+  const valid = !!locationId && !!supplier.trim() && lines.every(line =>
+    !!line.productId && Number.isInteger(Number(line.quantity)) && Number(line.quantity) >= 1 &&
+    line.unitCost !== "" && Number(line.unitCost) >= 0);
+  const receiveValid = !!receiving && receiving.items.every(item => {
+    const quantity = Number(received[item.id] ?? item.quantityOrdered);
+    return Number.isInteger(quantity) && quantity >= 0;
+  });
+
+  const getProductName = (productId: string) => products.find(p => p.id === productId)?.name || "Product";
+  const getLocationName = (id: string) => locations.find(l => l.id === id)?.name || "Location";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>New Purchase Order</CardTitle>
+          <CardDescription>Stock is only added when the order is received.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label>Deliver to</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger data-testid="select-purchase-order-location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="purchase-order-supplier">Supplier</Label>
+              <Input
+                id="purchase-order-supplier"
+                value={supplier}
+                onChange={(e) => setSupplier(e.target.value)}
+                data-testid="input-purchase-order-supplier"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="purchase-order-reference">Supplier reference</Label>
+              <Input
+                id="purchase-order-reference"
+                placeholder="Optional"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                data-testid="input-purchase-order-reference"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-6 space-y-1">
+                  {index === 0 && <Label>Product</Label>}
+                  <Select value={line.productId} onValueChange={(value) => updateLine(index, {
+                    productId: value,
+                    unitCost: line.unitCost || (products.find(p => p.id === value)?.cost ?? ""),
+                  })}>
+                    <SelectTrigger data-testid={`select-purchase-order-product-${index}`}>
+                      <SelectValue placeholder="Select product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {trackedProducts.map(product => (
+                        <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2 space-y-1">
+                  {index === 0 && <Label>Quantity</Label>}
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    data-testid={`input-purchase-order-quantity-${index}`}
+                  />
+                </div>
+                <div className="col-span-3 space-y-1">
+                  {index === 0 && <Label>Unit cost ($)</Label>}
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                    data-testid={`input-purchase-order-cost-${index}`}
+                  />
+                </div>
+                <div className="col-span-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                    disabled={lines.length === 1}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setLines(prev => [...prev, EMPTY_LINE])} data-testid="button-add-purchase-order-line">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Line
+            </Button>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-muted-foreground">Total ${orderTotal.toFixed(2)}</span>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!valid || createMutation.isPending}
+                data-testid="button-place-purchase-order"
+              >
+                {createMutation.isPending ? "Placing..." : "Place Order"}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Purchase Orders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner />
+            </div>
+          ) : orders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No purchase orders yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {orders.map(order => (
+                <div key={order.id} className="border rounded-lg p-3 space-y-2" data-testid={`purchase-order-${order.id}`}>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium">
+                        {order.supplier}{order.reference && ` · ${order.reference}`}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {getLocationName(order.locationId)}
+                        {order.orderedAt && ` · ordered ${format(new Date(order.orderedAt), "MMM d, yyyy")}`}
+                        {order.receivedAt && ` · received ${format(new Date(order.receivedAt), "MMM d, yyyy")}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge className={getStatusColor(order.status)}>{order.status}</Badge>
+                      {order.status === "ordered" && (
+                        <>
+                          <Button
+                            size="sm"
+                            onClick={() => setReceiving(order)}
+                            data-testid={`button-receive-purchase-order-${order.id}`}
+                          >
+                            <PackageCheck className="w-4 h-4 mr-2" />
+                            Receive
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => cancelMutation.mutate(order.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-purchase-order-${order.id}`}
+                          >
+                            <Ban className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {order.items.map(item => (
+                      <div key={item.id} className="flex justify-between">
+                        <span>
+                          {getProductName(item.productId)} × {item.quantityOrdered}
+                          {item.quantityReceived !== null && item.quantityReceived !== item.quantityOrdered &&
+                            ` (${item.quantityReceived} received)`}
+                        </span>
+                        <span>${(Number(item.unitCost) * item.quantityOrdered).toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!receiving} onOpenChange={(open) => { if (!open) { setReceiving(null); setReceived({}); } }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Receive Delivery</DialogTitle>
+            <DialogDescription>
+              Enter what actually arrived at {receiving ? getLocationName(receiving.locationId) : "the location"}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {receiving?.items.map(item => (
+              <div key={item.id} className="flex items-center justify-between">
+                <Label htmlFor={`receive-${item.id}`} className="font-normal">
+                  {getProductName(item.productId)} <span className="text-muted-foreground">(ordered {item.quantityOrdered})</span>
+                </Label>
+                <Input
+                  id={`receive-${item.id}`}
+                  type="number"
+                  min="0"
+                  step="1"
+                  className="w-24"
+                  value={received[item.id] ?? String(item.quantityOrdered)}
+                  onChange={(e) => setReceived(prev => ({ ...prev, [item.id]: e.target.value }))}
+                  data-testid={`input-receive-quantity-${item.id}`}
+                />
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setReceiving(null); setReceived({}); }}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => receiving && receiveMutation.mutate(receiving)}
+              disabled={!receiveValid || receiveMutation.isPending}
+              data-testid="button-confirm-receive"
+            >
+              {receiveMutation.isPending ? "Receiving..." : "Receive"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
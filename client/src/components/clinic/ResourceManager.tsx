@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { DoorOpen, Zap, Armchair, Plus, Trash2 } from "lucide-react";
+import type { Location, Resource } from "@/types";
+
+type ResourceType = Resource["type"];
+
+const resourceTypes: { value: ResourceType; label: string; icon: typeof DoorOpen }[] = [
+  { value: "room", label: "Room", icon: DoorOpen },
+  { value: "equipment", label: "Equipment", icon: Zap },
+  { value: "chair", label: "Chair", icon: Armchair },
+];
+
+export default function ResourceManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<ResourceType>("room");
+  const [locationId, setLocationId] = useState<string>("");
+
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: resources = [], isLoading } = useQuery<Resource[]>({
+    queryKey: ["/api/resources"],
+  });
+
+  const selectedLocationId = locationId || locations[0]?.id || "";
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/resources", {
+        name: name.trim(),
+        type,
+        locationId: selectedLocationId,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+      setName("");
+      toast({
+        title: "Resource added",
+        description: "Services can now require this resource.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error adding resource",
+        description: error.message || "Failed to add resource",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/resources/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+      toast({
+        title: "Resource removed",
+        description: "It will no longer be offered for new bookings.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error removing resource",
+        description: error.message || "Failed to remove resource",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activeResources = resources.filter(r => r.isActive);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rooms & Equipment</CardTitle>
+        <CardDescription>
+          Bookable resources per location. A service that requires a resource can only be booked when it is free.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="resource-name">Name</Label>
+            <Input
+              id="resource-name"
+              placeholder="e.g. Laser Room 1"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-resource-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ResourceType)}>
+              <SelectTrigger data-testid="select-resource-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {resourceTypes.map(t => (
+                  <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Location</Label>
+            <Select value={selectedLocationId} onValueChange={setLocationId}>
+              <SelectTrigger data-testid="select-resource-location">
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={!name.trim() || !selectedLocationId || createMutation.isPending}
+          data-testid="button-add-resource"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          {createMutation.isPending ? "Adding..." : "Add Resource"}
+        </Button>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : activeResources.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rooms or equipment yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {activeResources.map(resource => {
+              const resourceType = resourceTypes.find(t => t.value === resource.type) || resourceTypes[0];
+              const Icon = resourceType.icon;
+              const location = locations.find(l => l.id === resource.locationId);
+              return (
+                <div
+                  key={resource.id}
+                  className="flex items-center justify-between border rounded-lg p-3"
+                  data-testid={`resource-${resource.id}`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <Icon className="w-4 h-4 text-muted-foreground" />
+                    <span className="font-medium">{resource.name}</span>
+                    <Badge variant="outline">{resourceType.label}</Badge>
+                    {location && <span className="text-sm text-muted-foreground">{location.name}</span>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deactivateMutation.mutate(resource.id)}
+                    disabled={deactivateMutation.isPending}
+                    data-testid={`button-remove-resource-${resource.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Plus, Save, Trash2 } from "lucide-react";
+import type { Product, Service, ServiceConsumable } from "@/types";
+
+// Products one treatment of a service uses up, e.g. 20 units of Botox; taken from stock when the visit is completed
+export default function ServiceConsumables() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [serviceId, setServiceId] = useState("");
+  const [items, setItems] = useState<{ productId: string; quantity: string }[]>([]);
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: consumables } = useQuery<ServiceConsumable[]>({
+    queryKey: ["/api/services", serviceId, "consumables"],
+    enabled: !!serviceId,
+  });
+
+  useEffect(() => {
+    setItems((consumables || []).map(c => ({ productId: c.productId, quantity: String(c.quantity) })));
+  }, [consumables]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/services/${serviceId}/consumables`,
+        items.map(item => ({ productId: item.productId, quantity: Number(item.quantity) })));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services", serviceId, "consumables"] });
+      toast({
+        title: "Consumables saved",
+        description: "They'll be taken from stock as appointments for this service are completed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving consumables",
+        description: error.message || "Failed to save consumables",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const trackedProducts = products.filter(p => p.isActive && p.trackInventory);
+  const valid = items.every(item => !!item.productId && Number.isInteger(Number(item.quantity)) && Number(item.quantity) >= 1) &&
+    new Set(items.map(item => item.productId)).size === items.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Treatment Consumables</CardTitle>
+        <CardDescription>
+          What one treatment uses up. It's taken from the appointment's location when the appointment is completed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-sm">
+          <Label>Service</Label>
+          <Select value={serviceId} onValueChange={setServiceId}>
+            <SelectTrigger data-testid="select-consumables-service">
+              <SelectValue placeholder="Select service" />
+            </SelectTrigger>
+            <SelectContent>
+              {services.filter(s => s.isActive).map(service => (
+                <SelectItem key={service.id} value={service.id}>{service.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {serviceId && (
+          <>
+            {items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This service doesn't use any stock.</p>
+            ) : (
+              <div className="space-y-2">
+                {items.map((item, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <Select
+                      value={item.productId}
+                      onValueChange={(value) => setItems(prev => prev.map((p, i) => i === index ? { ...p, productId: value } : p))}
+                    >
+                      <SelectTrigger className="w-72" data-testid={`select-consumable-product-${index}`}>
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {trackedProducts.map(product => (
+                          <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      className="w-24"
+                      value={item.quantity}
+                      onChange={(e) => setItems(prev => prev.map((p, i) => i === index ? { ...p, quantity: e.target.value } : p))}
+                      data-testid={`input-consumable-quantity-${index}`}
+                    />
+                    <span className="text-sm text-muted-foreground w-16">
+                      {products.find(p => p.id === item.productId)?.unit || "each"}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setItems(prev => [...prev, { productId: "", quantity: "1" }])}
+                data-testid="button-add-consumable"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Product
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={!valid || saveMutation.isPending}
+                data-testid="button-save-consumables"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
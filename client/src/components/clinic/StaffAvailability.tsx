@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import {
   Select,
   SelectContent,
@@ -28,8 +30,9 @@ import {
   Calendar as CalendarIcon, Clock, Save, X, Plus, Edit2,
   Coffee, AlertCircle, CheckCircle 
 } from "lucide-react";
-import { format, addDays, startOfWeek, isSameDay } from "date-fns";
-import type { Staff, StaffAvailability as StaffAvailabilityType } from "@/types";
+import { format, addDays, startOfWeek, eachDayOfInterval, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import type { Staff, StaffAvailability as StaffAvailabilityType, StaffScheduleException } from "@/types";
 
 interface TimeSlot {
   dayOfWeek: number;
@@ -38,6 +41,23 @@ interface TimeSlot {
   isRecurring: boolean;
 }
 
+type ExceptionType = StaffScheduleException["type"];
+
+interface ScheduleConflict {
+  appointmentId: string;
+  startTime: string;
+  endTime: string;
+  clientName?: string;
+  serviceName?: string;
+  reason: string;
+}
+
+const exceptionTypes: { value: ExceptionType; label: string }[] = [
+  { value: "time_off", label: "Time off" },
+  { value: "break", label: "Recurring break" },
+  { value: "extra_shift", label: "Extra shift" },
+];
+
 interface StaffAvailabilityProps {
   staff: Staff;
   organizationId: string;
@@ -77,8 +97,13 @@ export default function StaffAvailability({
   const [isEditMode, setIsEditMode] = useState(false);
   const [editedSlots, setEditedSlots] = useState<TimeSlot[]>([]);
   const [selectedDay, setSelectedDay] = useState<number | null>(null);
-  const [timeOffDates, setTimeOffDates] = useState<Date[]>([]);
   const [isTimeOffDialogOpen, setIsTimeOffDialogOpen] = useState(false);
+  const [exceptionType, setExceptionType] = useState<ExceptionType>("time_off");
+  const [exceptionRange, setExceptionRange] = useState<DateRange | undefined>(undefined);
+  const [exceptionDay, setExceptionDay] = useState<string>("all");
+  const [exceptionStartTime, setExceptionStartTime] = useState<string>("");
+  const [exceptionEndTime, setExceptionEndTime] = useState<string>("");
+  const [exceptionReason, setExceptionReason] = useState("");
 
   // Fetch staff availability
   const { data: availability, isLoading } = useQuery<StaffAvailabilityType[]>({
@@ -86,6 +111,18 @@ export default function StaffAvailability({
     enabled: !!staff.id,
   });
 
+  // Time off, breaks and extra shifts
+  const { data: exceptions = [] } = useQuery<StaffScheduleException[]>({
+    queryKey: ["/api/staff", staff.id, "schedule-exceptions"],
+    enabled: !!staff.id,
+  });
+
+  // Booked appointments that now fall in time off or a break
+  const { data: conflicts = [] } = useQuery<ScheduleConflict[]>({
+    queryKey: ["/api/staff", staff.id, "schedule-conflicts"],
+    enabled: !!staff.id,
+  });
+
   useEffect(() => {
     if (availability) {
       const slots: TimeSlot[] = availability.map(a => ({
@@ -137,6 +174,94 @@ export default function StaffAvailability({
     },
   });
 
+  const resetExceptionForm = () => {
+    setExceptionType("time_off");
+    setExceptionRange(undefined);
+    setExceptionDay("all");
+    setExceptionStartTime("");
+    setExceptionEndTime("");
+    setExceptionReason("");
+  };
+
+  const createExceptionMutation = useMutation({
+    mutationFn: async () => {
+      const toDateString = (date?: Date) => (date ? format(date, "yyyy-MM-dd") : null);
+      const response = await apiRequest("POST", `/api/staff/${staff.id}/schedule-exceptions`, {
+        type: exceptionType,
+        startDate: exceptionType === "break" ? null : toDateString(exceptionRange?.from),
+        endDate: exceptionType === "time_off" ? toDateString(exceptionRange?.to || exceptionRange?.from) : null,
+        dayOfWeek: exceptionType === "break" && exceptionDay !== "all" ? parseInt(exceptionDay) : null,
+        startTime: exceptionStartTime || null,
+        endTime: exceptionEndTime || null,
+        reason: exceptionReason || null,
+      });
+      return response.json() as Promise<{ exception: StaffScheduleException; conflicts: ScheduleConflict[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff", staff.id, "schedule-exceptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/staff", staff.id, "schedule-conflicts"] });
+      setIsTimeOffDialogOpen(false);
+      resetExceptionForm();
+      if (result.conflicts.length > 0) {
+        toast({
+          title: "Saved with conflicts",
+          description: `${result.conflicts.length} booked appointment(s) now conflict and need to be rescheduled.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Schedule updated",
+          description: "The schedule change has been saved.",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save schedule change",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteExceptionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/staff/schedule-exceptions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff", staff.id, "schedule-exceptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/staff", staff.id, "schedule-conflicts"] });
+    },
+  });
+
+  const describeException = (exception: StaffScheduleException) => {
+    const times = exception.startTime && exception.endTime
+      ? formatTimeRange(exception.startTime, exception.endTime)
+      : "All day";
+    if (exception.type === "break") {
+      const day = exception.dayOfWeek === null ? "Every day" : daysOfWeek[exception.dayOfWeek]?.label;
+      return `${day}, ${times}`;
+    }
+    const start = exception.startDate ? format(parseISO(exception.startDate), "PP") : "";
+    const end = exception.endDate && exception.endDate !== exception.startDate
+      ? ` – ${format(parseISO(exception.endDate), "PP")}`
+      : "";
+    return `${start}${end}, ${times}`;
+  };
+
+  // Days to highlight on the calendar
+  const timeOffDays = exceptions
+    .filter(e => e.type === "time_off" && e.startDate)
+    .flatMap(e => eachDayOfInterval({ start: parseISO(e.startDate!), end: parseISO(e.endDate || e.startDate!) }));
+  const extraShiftDays = exceptions
+    .filter(e => e.type === "extra_shift" && e.startDate)
+    .map(e => parseISO(e.startDate!));
+
+  const canSaveException =
+    (exceptionType === "break" || !!exceptionRange?.from) &&
+    (exceptionType === "time_off" || (!!exceptionStartTime && !!exceptionEndTime)) &&
+    (!exceptionStartTime || !exceptionEndTime || exceptionStartTime < exceptionEndTime);
+
   const handleAddSlot = (dayOfWeek: number) => {
     const newSlot: TimeSlot = {
       dayOfWeek,
@@ -272,61 +397,126 @@ export default function StaffAvailability({
                 </DialogTrigger>
                 <DialogContent>
                   <DialogHeader>
-                    <DialogTitle>Manage Time Off</DialogTitle>
+                    <DialogTitle>Time Off, Breaks & Extra Shifts</DialogTitle>
                     <DialogDescription>
-                      Select dates when {staff.title || "staff member"} will be unavailable
+                      Change when {staff.title || "staff member"} can be booked on specific dates
                     </DialogDescription>
                   </DialogHeader>
                   
                   <div className="space-y-4">
-                    <Calendar
-                      mode="multiple"
-                      selected={timeOffDates}
-                      onSelect={(dates) => setTimeOffDates(dates || [])}
-                      className="rounded-md border"
-                    />
-                    
-                    {timeOffDates.length > 0 && (
-                      <div className="space-y-2">
-                        <Label>Selected Time Off Dates:</Label>
-                        <div className="space-y-1 max-h-32 overflow-y-auto">
-                          {timeOffDates.map((date) => (
-                            <div key={date.toISOString()} className="flex items-center justify-between py-1">
-                              <span className="text-sm">{format(date, "PPP")}</span>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => setTimeOffDates(timeOffDates.filter(d => !isSameDay(d, date)))}
-                                data-testid={`button-remove-time-off-${date.toISOString()}`}
-                              >
-                                <X className="w-3 h-3" />
-                              </Button>
-                            </div>
+                    <div className="space-y-2">
+                      <Label>Type</Label>
+                      <Select
+                        value={exceptionType}
+                        onValueChange={(value) => {
+                          setExceptionType(value as ExceptionType);
+                          setExceptionRange(undefined);
+                        }}
+                      >
+                        <SelectTrigger data-testid="select-exception-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {exceptionTypes.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
                           ))}
-                        </div>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {exceptionType === "time_off" && (
+                      <Calendar
+                        mode="range"
+                        selected={exceptionRange}
+                        onSelect={setExceptionRange}
+                        className="rounded-md border"
+                      />
+                    )}
+                    {exceptionType === "extra_shift" && (
+                      <Calendar
+                        mode="single"
+                        selected={exceptionRange?.from}
+                        onSelect={(date) => setExceptionRange(date ? { from: date } : undefined)}
+                        className="rounded-md border"
+                      />
+                    )}
+                    {exceptionType === "break" && (
+                      <div className="space-y-2">
+                        <Label>Day</Label>
+                        <Select value={exceptionDay} onValueChange={setExceptionDay}>
+                          <SelectTrigger data-testid="select-exception-day">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">Every day</SelectItem>
+                            {daysOfWeek.map(day => (
+                              <SelectItem key={day.value} value={String(day.value)}>{day.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                     )}
+
+                    <div className="flex items-center space-x-2">
+                      <Select
+                        value={exceptionStartTime || "all_day"}
+                        onValueChange={(value) => setExceptionStartTime(value === "all_day" ? "" : value)}
+                      >
+                        <SelectTrigger className="w-36" data-testid="select-exception-start">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {exceptionType === "time_off" && <SelectItem value="all_day">All day</SelectItem>}
+                          {timeOptions.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span>to</span>
+                      <Select
+                        value={exceptionEndTime || "all_day"}
+                        onValueChange={(value) => setExceptionEndTime(value === "all_day" ? "" : value)}
+                      >
+                        <SelectTrigger className="w-36" data-testid="select-exception-end">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {exceptionType === "time_off" && <SelectItem value="all_day">All day</SelectItem>}
+                          {timeOptions.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="exception-reason">Note</Label>
+                      <Input
+                        id="exception-reason"
+                        placeholder="e.g. Vacation, Lunch"
+                        value={exceptionReason}
+                        onChange={(e) => setExceptionReason(e.target.value)}
+                        data-testid="input-exception-reason"
+                      />
+                    </div>
                     
                     <div className="flex justify-end space-x-2">
                       <Button
                         variant="outline"
-                        onClick={() => setIsTimeOffDialogOpen(false)}
+                        onClick={() => {
+                          setIsTimeOffDialogOpen(false);
+                          resetExceptionForm();
+                        }}
                         data-testid="button-cancel-time-off"
                       >
                         Cancel
                       </Button>
                       <Button
-                        onClick={() => {
-                          // Save time off dates logic here
-                          toast({
-                            title: "Time off saved",
-                            description: `${timeOffDates.length} days marked as time off.`,
-                          });
-                          setIsTimeOffDialogOpen(false);
-                        }}
+                        onClick={() => createExceptionMutation.mutate()}
+                        disabled={!canSaveException || createExceptionMutation.isPending}
                         data-testid="button-save-time-off"
                       >
-                        Save Time Off
+                        {createExceptionMutation.isPending ? "Saving..." : "Save"}
                       </Button>
                     </div>
                   </div>
@@ -457,6 +647,79 @@ export default function StaffAvailability({
             })}
           </div>
           
+          {/* Conflicts with already-booked appointments */}
+          {conflicts.length > 0 && (
+            <Alert variant="destructive" data-testid="alert-schedule-conflicts">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{conflicts.length} booked appointment(s) conflict with this schedule</AlertTitle>
+              <AlertDescription>
+                <ul className="mt-2 space-y-1">
+                  {conflicts.map(conflict => (
+                    <li key={conflict.appointmentId} className="text-sm">
+                      {format(new Date(conflict.startTime), "PPp")} – {conflict.serviceName || "Appointment"}
+                      {conflict.clientName ? ` with ${conflict.clientName}` : ""} ({conflict.reason})
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Time off, breaks and extra shifts */}
+          <div className="border rounded-lg p-4" data-testid="schedule-exceptions">
+            <h4 className="font-medium mb-3">Time Off, Breaks & Extra Shifts</h4>
+            <div className="grid gap-4 md:grid-cols-2">
+              <Calendar
+                mode="single"
+                modifiers={{ timeOff: timeOffDays, extraShift: extraShiftDays }}
+                modifiersClassNames={{
+                  timeOff: "bg-destructive/20 text-destructive",
+                  extraShift: "bg-primary/20 text-primary",
+                }}
+                className="rounded-md border"
+              />
+              <div className="space-y-2">
+                {exceptions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No time off, breaks or extra shifts</p>
+                ) : (
+                  exceptions.map(exception => (
+                    <div
+                      key={exception.id}
+                      className="flex items-center justify-between"
+                      data-testid={`exception-${exception.id}`}
+                    >
+                      <div className="flex items-center space-x-2">
+                        {exception.type === "extra_shift" ? (
+                          <CheckCircle className="w-4 h-4 text-primary" />
+                        ) : (
+                          <Coffee className="w-4 h-4 text-muted-foreground" />
+                        )}
+                        <div>
+                          <div className="text-sm">{describeException(exception)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {exceptionTypes.find(t => t.value === exception.type)?.label}
+                            {exception.reason ? ` · ${exception.reason}` : ""}
+                          </div>
+                        </div>
+                      </div>
+                      {editable && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteExceptionMutation.mutate(exception.id)}
+                          disabled={deleteExceptionMutation.isPending}
+                          data-testid={`button-remove-exception-${exception.id}`}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+          
           {/* Summary */}
           {!isEditMode && (
             <div className="mt-4 p-4 bg-muted rounded-lg">
@@ -468,9 +731,9 @@ export default function StaffAvailability({
                 <p>
                   Working {editedSlots.filter(s => s.isRecurring).length} regular days per week
                 </p>
-                {timeOffDates.length > 0 && (
+                {timeOffDays.length > 0 && (
                   <p className="mt-1">
-                    {timeOffDates.length} upcoming time off days scheduled
+                    {timeOffDays.length} time off days scheduled
                   </p>
                 )}
               </div>
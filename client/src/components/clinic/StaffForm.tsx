@@ -36,7 +36,7 @@ import LoadingSpinner from "@/components/ui/loading-spinner";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/hooks/useOrganization";
 import { apiRequest } from "@/lib/api";
-import { X } from "lucide-react";
+import { Plus, Trash2, X } from "lucide-react";
 import type { Staff, Service, StaffRole } from "@/types";
 
 const staffFormSchema = z.object({
@@ -49,8 +49,9 @@ const staffFormSchema = z.object({
   specialties: z.array(z.string()).optional(),
   bio: z.string().optional(),
   commissionRate: z.coerce.number().min(0).max(100).optional(),
-  commissionType: z.enum(["percentage", "fixed"]).optional(),
+  commissionType: z.enum(["percentage", "flat"]).optional(),
   hourlyRate: z.coerce.number().min(0).optional(),
+  productCommissionRate: z.coerce.number().min(0).max(100).optional(),
   canBookOnline: z.boolean().default(true),
   isActive: z.boolean().default(true),
   serviceIds: z.array(z.string()).optional(),
@@ -78,6 +79,8 @@ export default function StaffForm({
   const [selectedServices, setSelectedServices] = useState<string[]>([]);
   const [specialtyInput, setSpecialtyInput] = useState("");
   const [specialties, setSpecialties] = useState<string[]>([]);
+  // Higher percentage rates once the provider's revenue in a pay period passes each threshold
+  const [commissionTiers, setCommissionTiers] = useState<{ minRevenue: string; rate: string }[]>([]);
 
   // Fetch services
   const { data: services } = useQuery<Service[]>({
@@ -110,6 +113,7 @@ export default function StaffForm({
       commissionRate: 15,
       commissionType: "percentage",
       hourlyRate: 0,
+      productCommissionRate: 0,
       canBookOnline: true,
       isActive: true,
       serviceIds: [],
@@ -132,6 +136,7 @@ export default function StaffForm({
         commissionRate: staff.commissionRate ? parseFloat(staff.commissionRate.toString()) : 15,
         commissionType: staff.commissionType || "percentage",
         hourlyRate: staff.hourlyRate ? parseFloat(staff.hourlyRate.toString()) : 0,
+        productCommissionRate: staff.productCommissionRate ? parseFloat(staff.productCommissionRate.toString()) : 0,
         canBookOnline: staff.canBookOnline ?? true,
         isActive: staff.isActive ?? true,
         serviceIds: [],
@@ -140,6 +145,9 @@ export default function StaffForm({
       if (Array.isArray(staff.specialties)) {
         setSpecialties(staff.specialties as string[]);
       }
+      setCommissionTiers(Array.isArray(staff.commissionTiers)
+        ? (staff.commissionTiers as { minRevenue: number; rate: number }[]).map(t => ({ minRevenue: String(t.minRevenue), rate: String(t.rate) }))
+        : []);
     }
   }, [staff, mode, form]);
 
@@ -150,6 +158,12 @@ export default function StaffForm({
     }
   }, [staffServices, form]);
 
+  // Tiers only apply to percentage commission
+  const tiersForSave = (data: StaffFormValues) => data.commissionType === "flat" ? null : commissionTiers
+    .filter(t => t.minRevenue !== "" && t.rate !== "")
+    .map(t => ({ minRevenue: Number(t.minRevenue), rate: Number(t.rate) }))
+    .sort((a, b) => a.minRevenue - b.minRevenue);
+
   const createStaffMutation = useMutation({
     mutationFn: async (data: StaffFormValues) => {
       // Use the new staff invitation endpoint
@@ -162,6 +176,8 @@ export default function StaffForm({
         commissionRate: data.commissionRate,
         commissionType: data.commissionType,
         hourlyRate: data.hourlyRate,
+        productCommissionRate: data.productCommissionRate,
+        commissionTiers: tiersForSave(data),
         serviceIds: data.serviceIds || [],
       });
       
@@ -223,6 +239,8 @@ export default function StaffForm({
         commissionRate: data.commissionRate,
         commissionType: data.commissionType,
         hourlyRate: data.hourlyRate,
+        productCommissionRate: data.productCommissionRate,
+        commissionTiers: tiersForSave(data),
         canBookOnline: data.canBookOnline,
         isActive: data.isActive,
       });
@@ -523,12 +541,34 @@ export default function StaffForm({
               <h3 className="text-sm font-medium">Compensation</h3>
               
               <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="commissionType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Commission Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-staff-commission-type">
+                            <SelectValue placeholder="Select commission type" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="percentage">Percentage of service revenue</SelectItem>
+                          <SelectItem value="flat">Flat amount per service</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="commissionRate"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Commission Rate (%)</FormLabel>
+                      <FormLabel>{form.watch("commissionType") === "flat" ? "Commission per Service ($)" : "Commission Rate (%)"}</FormLabel>
                       <FormControl>
                         <Input
                           {...field}
@@ -565,7 +605,83 @@ export default function StaffForm({
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="productCommissionRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Product Commission (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          placeholder="10.00"
+                          data-testid="input-staff-product-commission"
+                        />
+                      </FormControl>
+                      <FormDescription>Of retail products sold on their visits</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
+
+              {form.watch("commissionType") !== "flat" && (
+                <div className="space-y-2">
+                  <FormLabel>Commission Tiers</FormLabel>
+                  <FormDescription>
+                    Revenue past each threshold in a pay period earns that tier's rate instead of the base rate.
+                  </FormDescription>
+                  {commissionTiers.map((tier, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">Over $</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-32"
+                        value={tier.minRevenue}
+                        onChange={(e) => setCommissionTiers(prev => prev.map((t, i) => i === index ? { ...t, minRevenue: e.target.value } : t))}
+                        data-testid={`input-commission-tier-revenue-${index}`}
+                      />
+                      <span className="text-sm text-muted-foreground">earns</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        className="w-24"
+                        value={tier.rate}
+                        onChange={(e) => setCommissionTiers(prev => prev.map((t, i) => i === index ? { ...t, rate: e.target.value } : t))}
+                        data-testid={`input-commission-tier-rate-${index}`}
+                      />
+                      <span className="text-sm text-muted-foreground">%</span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCommissionTiers(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCommissionTiers(prev => [...prev, { minRevenue: "", rate: "" }])}
+                    data-testid="button-add-commission-tier"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Tier
+                  </Button>
+                </div>
+              )}
             </div>
             
             {/* Bio */}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { format } from "date-fns";
+import type { Location, Product, ProductStock, StockMovement } from "@/types";
+
+const MOVEMENT_LABELS: Record<StockMovement["reason"], string> = {
+  sale: "Sold",
+  sale_return: "Sale reversed",
+  service_usage: "Used in treatment",
+  service_usage_return: "Treatment usage reversed",
+  received: "Received",
+  count: "Stock count",
+};
+
+// Stock on hand per location, with a stocktake field per product and the location's recent movements
+export default function StockLevels() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [locationId, setLocationId] = useState("");
+
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: products = [], isLoading: productsLoading } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: stock = [], isLoading: stockLoading } = useQuery<ProductStock[]>({
+    queryKey: ["/api/inventory/stock"],
+  });
+
+  const { data: movements = [] } = useQuery<StockMovement[]>({
+    queryKey: [`/api/inventory/movements?locationId=${locationId}`],
+    enabled: !!locationId,
+  });
+
+  useEffect(() => {
+    if (!locationId && locations.length > 0) {
+      setLocationId((locations.find(l => l.isDefault) || locations[0]).id);
+    }
+  }, [locations, locationId]);
+
+  const countMutation = useMutation({
+    mutationFn: async ({ productId, quantity }: { productId: string; quantity: number }) => {
+      const response = await apiRequest("POST", `/api/products/${productId}/count`, { locationId, quantity });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inventory/movements?locationId=${locationId}`] });
+      toast({
+        title: "Stock count saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving count",
+        description: error.message || "Failed to save stock count",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const trackedProducts = products.filter(p => p.isActive && p.trackInventory);
+  const getQuantity = (productId: string) =>
+    stock.find(s => s.productId === productId && s.locationId === locationId)?.quantity ?? 0;
+  const stockValue = trackedProducts.reduce((sum, product) =>
+    sum + Math.max(getQuantity(product.id), 0) * Number(product.cost || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Stock Levels</CardTitle>
+          <CardDescription>
+            Sales and treatments take stock from the appointment's location. Enter a new count after a stocktake.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end justify-between">
+            <div className="space-y-2 w-64">
+              <Label>Location</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger data-testid="select-stock-location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="text-right">
+              <div className="text-2xl font-bold" data-testid="text-stock-value">${stockValue.toFixed(2)}</div>
+              <div className="text-xs text-muted-foreground">stock value at cost</div>
+            </div>
+          </div>
+
+          {productsLoading || stockLoading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner />
+            </div>
+          ) : trackedProducts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No products with tracked stock yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {trackedProducts.map(product => {
+                const quantity = getQuantity(product.id);
+                const low = product.reorderLevel !== null && quantity <= product.reorderLevel;
+                return (
+                  <div
+                    key={product.id}
+                    className="flex items-center justify-between border rounded-lg p-3"
+                    data-testid={`stock-${product.id}`}
+                  >
+                    <div>
+                      <div className="font-medium">{product.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {product.sku && `${product.sku} · `}
+                        {product.isRetail ? "Retail" : "Consumable"}
+                        {product.reorderLevel !== null && ` · reorder at ${product.reorderLevel}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {quantity <= 0 ? (
+                        <Badge variant="destructive">Out of stock</Badge>
+                      ) : low ? (
+                        <Badge className="bg-yellow-100 text-yellow-800">Low</Badge>
+                      ) : null}
+                      <Input
+                        key={`${product.id}-${locationId}-${quantity}`}
+                        type="number"
+                        min="0"
+                        step="1"
+                        className="w-24"
+                        defaultValue={quantity}
+                        onBlur={(e) => {
+                          const count = Number(e.target.value);
+                          if (Number.isInteger(count) && count >= 0 && count !== quantity) {
+                            countMutation.mutate({ productId: product.id, quantity: count });
+                          }
+                        }}
+                        data-testid={`input-stock-count-${product.id}`}
+                      />
+                      <span className="text-sm text-muted-foreground w-16">{product.unit || "each"}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recent Movements</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {movements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stock movements at this location yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {movements.map(movement => (
+                <div
+                  key={movement.id}
+                  className="flex items-center justify-between text-sm border-b pb-2"
+                  data-testid={`stock-movement-${movement.id}`}
+                >
+                  <div>
+                    <span className="font-medium">{products.find(p => p.id === movement.productId)?.name || "Product"}</span>
+                    <span className="text-muted-foreground"> · {MOVEMENT_LABELS[movement.reason]}</span>
+                    {movement.note && <span className="text-muted-foreground"> · {movement.note}</span>}
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <span className="text-xs text-muted-foreground">
+                      {movement.createdAt && format(new Date(movement.createdAt), "MMM d, h:mm a")}
+                    </span>
+                    <span className={movement.quantity > 0 ? "text-green-600" : ""}>
+                      {movement.quantity > 0 ? "+" : ""}{movement.quantity}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Save } from "lucide-react";
+import type { Location } from "@/types";
+
+// Sales tax rate for each location; services and products marked taxable are charged it
+export default function TaxSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rates, setRates] = useState<Record<string, string>>({});
+
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  useEffect(() => {
+    setRates(Object.fromEntries(locations.map(location => [location.id, String(Number(location.taxRate || 0))])));
+  }, [locations]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const changed = locations.filter(location => Number(rates[location.id]) !== Number(location.taxRate || 0));
+      for (const location of changed) {
+        await apiRequest("PUT", `/api/locations/${location.id}`, { taxRate: Number(rates[location.id]) });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Tax rates saved",
+        description: "New bookings and checkouts use the new rates.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving tax rates",
+        description: error.message || "Failed to save tax rates",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const invalid = locations.some(location => {
+    const rate = Number(rates[location.id]);
+    return rates[location.id] === "" || isNaN(rate) || rate < 0 || rate > 25;
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sales Tax</CardTitle>
+        <CardDescription>
+          The combined sales tax rate at each location. Mark services and products as taxable to charge it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {locations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add a location first.</p>
+        ) : (
+          <div className="space-y-2">
+            {locations.map(location => (
+              <div key={location.id} className="flex items-center justify-between max-w-md">
+                <span className="font-medium">{location.name}</span>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    max="25"
+                    step="0.001"
+                    className="w-28"
+                    value={rates[location.id] ?? ""}
+                    onChange={(e) => setRates(prev => ({ ...prev, [location.id]: e.target.value }))}
+                    data-testid={`input-tax-rate-${location.id}`}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={invalid || locations.length === 0 || saveMutation.isPending}
+          data-testid="button-save-tax-rates"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Tax Rates"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { LogIn, LogOut } from "lucide-react";
+import type { TimeClockEntry } from "@/types";
+
+const formatHours = (entry: TimeClockEntry) => {
+  const end = entry.clockOut ? new Date(entry.clockOut).getTime() : Date.now();
+  return ((end - new Date(entry.clockIn).getTime()) / 3600000).toFixed(2);
+};
+
+// Clock in and out for the signed-in staff member, and everyone's shifts over the last two weeks
+export default function TimeClock() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isError: notStaff } = useQuery<{ entry: TimeClockEntry | null }>({
+    queryKey: ["/api/time-clock/status"],
+    retry: false,
+  });
+
+  const { data: entries = [] } = useQuery<(TimeClockEntry & { staffName: string })[]>({
+    queryKey: ["/api/time-clock/entries"],
+    retry: false,
+  });
+
+  const clockMutation = useMutation({
+    mutationFn: async (action: "clock-in" | "clock-out") => {
+      const response = await apiRequest("POST", `/api/time-clock/${action}`);
+      return response.json();
+    },
+    onSuccess: (_entry, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/time-clock/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/time-clock/entries"] });
+      toast({ title: action === "clock-in" ? "Clocked in" : "Clocked out" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Time clock error",
+        description: error.message || "Failed to update the time clock",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onClock = !!status?.entry;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Time Clock</CardTitle>
+          <CardDescription>
+            Clocked hours are used for hourly pay. Staff who don't clock in are paid for their scheduled hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {notStaff ? (
+            <p className="text-sm text-muted-foreground">Only staff members with a staff profile can clock in.</p>
+          ) : (
+            <div className="flex items-center gap-4">
+              <Badge variant={onClock ? "default" : "secondary"}>
+                {onClock ? `On the clock since ${new Date(status!.entry!.clockIn).toLocaleTimeString()}` : "Off the clock"}
+              </Badge>
+              <Button
+                onClick={() => clockMutation.mutate(onClock ? "clock-out" : "clock-in")}
+                disabled={!status || clockMutation.isPending}
+                data-testid="button-time-clock"
+              >
+                {onClock ? <LogOut className="w-4 h-4 mr-2" /> : <LogIn className="w-4 h-4 mr-2" />}
+                {onClock ? "Clock Out" : "Clock In"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Shifts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No shifts in the last two weeks.</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map(entry => (
+                <div
+                  key={entry.id}
+                  className="flex items-center justify-between border-b pb-2 text-sm"
+                  data-testid={`time-clock-entry-${entry.id}`}
+                >
+                  <div>
+                    <div className="font-medium">{entry.staffName}</div>
+                    <div className="text-muted-foreground">
+                      {new Date(entry.clockIn).toLocaleString()} to{" "}
+                      {entry.clockOut ? new Date(entry.clockOut).toLocaleTimeString() : "now"}
+                    </div>
+                  </div>
+                  <span className="font-medium">{formatHours(entry)} h</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
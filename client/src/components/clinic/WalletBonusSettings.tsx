@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Plus, Save, Trash2 } from "lucide-react";
+import type { WalletBonusTier } from "@/types";
+
+export default function WalletBonusSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tiers, setTiers] = useState<{ minAmount: string; bonusAmount: string }[]>([]);
+
+  const { data } = useQuery<WalletBonusTier[]>({
+    queryKey: ["/api/wallet/bonus-tiers"],
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setTiers(data.map(tier => ({ minAmount: String(tier.minAmount), bonusAmount: String(tier.bonusAmount) })));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/wallet/bonus-tiers", {
+        tiers: tiers.map(tier => ({
+          minAmount: Number(tier.minAmount) || 0,
+          bonusAmount: Number(tier.bonusAmount) || 0,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet/bonus-tiers"] });
+      toast({
+        title: "Wallet bonuses saved",
+        description: "New top-ups will receive the matching bonus.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving bonuses",
+        description: error.message || "Failed to save wallet bonuses",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateTier = (index: number, field: "minAmount" | "bonusAmount", value: string) => {
+    setTiers(prev => prev.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  const invalid = tiers.some(tier => !(Number(tier.minAmount) > 0) || Number(tier.bonusAmount) < 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Wallet Top-up Bonuses</CardTitle>
+        <CardDescription>
+          Give patients extra wallet credit when they load larger amounts. The highest tier reached applies.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tiers.length === 0 && (
+          <p className="text-sm text-muted-foreground">No bonuses configured. Top-ups are credited at face value.</p>
+        )}
+
+        {tiers.map((tier, index) => (
+          <div key={index} className="flex items-end space-x-2">
+            <div className="space-y-2">
+              <Label htmlFor={`bonus-min-${index}`}>Load at least ($)</Label>
+              <Input
+                id={`bonus-min-${index}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={tier.minAmount}
+                onChange={(e) => updateTier(index, "minAmount", e.target.value)}
+                data-testid={`input-bonus-min-${index}`}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`bonus-amount-${index}`}>Bonus ($)</Label>
+              <Input
+                id={`bonus-amount-${index}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={tier.bonusAmount}
+                onChange={(e) => updateTier(index, "bonusAmount", e.target.value)}
+                data-testid={`input-bonus-amount-${index}`}
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setTiers(prev => prev.filter((_, i) => i !== index))}
+              data-testid={`button-remove-bonus-${index}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setTiers(prev => [...prev, { minAmount: "", bonusAmount: "" }])}
+            disabled={tiers.length >= 10}
+            data-testid="button-add-bonus-tier"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Tier
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || invalid}
+            data-testid="button-save-wallet-bonuses"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Bonuses"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,13 +18,12 @@ export async function apiRequest(
   return res;
 }
 
+// Sends the file as the raw request body; any details go in the url's query string
 export async function uploadFile(url: string, file: File): Promise<Response> {
-  const formData = new FormData();
-  formData.append("file", file);
-
   const res = await fetch(url, {
     method: "POST",
-    body: formData,
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
     credentials: "include",
   });
 
@@ -0,0 +1,356 @@
+import { useState, useEffect } from "react";
+import { Link, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Elements } from "@stripe/react-stripe-js";
+import { loadStripe, Stripe } from "@stripe/stripe-js";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import { PaymentForm } from "@/components/PaymentForm";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Gem, Gift, Search } from "lucide-react";
+
+const PRESET_AMOUNTS = [50, 100, 150, 250];
+
+export default function GiftCardPurchase() {
+  const [match, params] = useRoute("/c/:slug/gift-cards");
+  const { toast } = useToast();
+
+  const [formData, setFormData] = useState({
+    amount: "100",
+    purchaserName: "",
+    purchaserEmail: "",
+    recipientName: "",
+    recipientEmail: "",
+    message: "",
+  });
+  const [purchase, setPurchase] = useState<{ giftCardId: string; clientSecret: string; amount: number } | null>(null);
+  const [purchased, setPurchased] = useState<{ code: string; balance: number; expiresAt: string | null; recipientEmail: string | null } | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [stripePromise, setStripePromise] = useState<Promise<Stripe | null> | null>(null);
+
+  const [lookupCode, setLookupCode] = useState("");
+  const [lookupResult, setLookupResult] = useState<{ balance: number; status: string; expiresAt: string | null } | null>(null);
+
+  // Fetch location/clinic info to display
+  const { data: clinicInfo, isLoading: isLoadingClinic, error: clinicError } = useQuery<{
+    id: string;
+    name: string;
+    slug: string;
+  }>({
+    queryKey: ["/api/signup-info", params?.slug],
+    queryFn: () => apiRequest("GET", `/api/signup-info/${params?.slug}`).then(res => res.json()),
+    enabled: !!params?.slug,
+    retry: false, // Don't retry on 404
+  });
+
+  useEffect(() => {
+    if (import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
+      setStripePromise(loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY));
+    }
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }));
+  };
+
+  const amount = Number(formData.amount) || 0;
+  const validAmount = amount >= 10 && amount <= 2000;
+
+  const startPurchase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsStarting(true);
+      const response = await apiRequest("POST", "/api/gift-cards/purchase", {
+        slug: params?.slug,
+        amount,
+        purchaserName: formData.purchaserName,
+        purchaserEmail: formData.purchaserEmail,
+        recipientName: formData.recipientName || undefined,
+        recipientEmail: formData.recipientEmail || undefined,
+        message: formData.message || undefined,
+      });
+      setPurchase(await response.json());
+    } catch (error: any) {
+      toast({
+        title: "Purchase Failed",
+        description: error.message || "Could not start the purchase. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handlePaymentSuccess = async (paymentIntentId: string) => {
+    try {
+      const response = await apiRequest("POST", "/api/gift-cards/purchase/confirm", {
+        giftCardId: purchase?.giftCardId,
+        paymentIntentId,
+      });
+      setPurchased(await response.json());
+    } catch (error: any) {
+      toast({
+        title: "Confirmation Error",
+        description: "Payment was successful but the gift card hasn't been issued yet. Please contact the clinic.",
+        variant: "destructive",
+      });
+    } finally {
+      setPurchase(null);
+    }
+  };
+
+  const checkBalance = async () => {
+    try {
+      const response = await apiRequest("GET", `/api/gift-cards/lookup/${encodeURIComponent(lookupCode.trim())}`);
+      setLookupResult(await response.json());
+    } catch (error: any) {
+      setLookupResult(null);
+      toast({
+        title: "Gift card not found",
+        description: "Check the code and try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!match || !params?.slug) {
+    return null;
+  }
+
+  if (isLoadingClinic) {
+    return (
+      <div className="min-h-screen luxury-gradient flex items-center justify-center p-6">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  // Show error if clinic not found
+  if (clinicError || !clinicInfo) {
+    return (
+      <div className="min-h-screen luxury-gradient flex items-center justify-center p-6">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl font-serif text-destructive">Clinic Not Found</CardTitle>
+            <CardDescription>
+              We couldn't find this clinic. Please check your link or contact your clinic.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/" className="block w-full">
+              <Button className="w-full">Return to Home</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen luxury-gradient flex flex-col items-center p-6 space-y-6">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center space-x-3 mb-4">
+            <div className="w-10 h-10 gold-shimmer rounded-lg flex items-center justify-center">
+              <Gem className="text-primary-foreground text-lg" />
+            </div>
+            <span className="text-2xl font-serif font-bold text-foreground">
+              {clinicInfo.name}
+            </span>
+          </div>
+          <CardTitle className="text-2xl font-serif" data-testid="text-gift-card-purchase-title">
+            Gift Cards
+          </CardTitle>
+          <CardDescription>
+            Treat someone to {clinicInfo.name}. Gift cards can be used toward appointments and memberships.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {purchased ? (
+            <div className="text-center space-y-4" data-testid="gift-card-purchased">
+              <Gift className="w-12 h-12 text-primary mx-auto" />
+              <p className="text-sm text-muted-foreground">Your gift card is ready</p>
+              <p className="text-2xl font-mono font-bold" data-testid="text-purchased-gift-card-code">{purchased.code}</p>
+              <p className="text-lg">${purchased.balance.toFixed(2)}</p>
+              <p className="text-xs text-muted-foreground">
+                {purchased.expiresAt
+                  ? `Valid until ${new Date(purchased.expiresAt).toLocaleDateString()}`
+                  : "This gift card never expires"}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                We've emailed the code to {purchased.recipientEmail || formData.purchaserEmail}.
+              </p>
+              <Button
+                variant="outline"
+                onClick={() => setPurchased(null)}
+                data-testid="button-buy-another"
+              >
+                Buy Another
+              </Button>
+            </div>
+          ) : purchase && stripePromise ? (
+            <Elements stripe={stripePromise} options={{ clientSecret: purchase.clientSecret, appearance: { theme: 'stripe' } }}>
+              <PaymentForm
+                amount={purchase.amount}
+                serviceName={`${clinicInfo.name} gift card`}
+                onSuccess={handlePaymentSuccess}
+                onCancel={() => setPurchase(null)}
+              />
+            </Elements>
+          ) : (
+            <form onSubmit={startPurchase} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="amount">Amount ($10 - $2,000)</Label>
+                <div className="flex flex-wrap gap-2">
+                  {PRESET_AMOUNTS.map(preset => (
+                    <Button
+                      key={preset}
+                      type="button"
+                      variant={amount === preset ? "default" : "outline"}
+                      onClick={() => setFormData(prev => ({ ...prev, amount: String(preset) }))}
+                      data-testid={`button-gift-card-preset-${preset}`}
+                    >
+                      ${preset}
+                    </Button>
+                  ))}
+                </div>
+                <Input
+                  id="amount"
+                  name="amount"
+                  type="number"
+                  min="10"
+                  max="2000"
+                  step="1"
+                  value={formData.amount}
+                  onChange={handleChange}
+                  data-testid="input-gift-card-amount"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="purchaserName">Your name</Label>
+                  <Input
+                    id="purchaserName"
+                    name="purchaserName"
+                    value={formData.purchaserName}
+                    onChange={handleChange}
+                    required
+                    data-testid="input-purchaser-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="purchaserEmail">Your email</Label>
+                  <Input
+                    id="purchaserEmail"
+                    name="purchaserEmail"
+                    type="email"
+                    value={formData.purchaserEmail}
+                    onChange={handleChange}
+                    required
+                    data-testid="input-purchaser-email"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recipientName">Recipient name</Label>
+                  <Input
+                    id="recipientName"
+                    name="recipientName"
+                    value={formData.recipientName}
+                    onChange={handleChange}
+                    placeholder="Optional"
+                    data-testid="input-recipient-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recipientEmail">Recipient email</Label>
+                  <Input
+                    id="recipientEmail"
+                    name="recipientEmail"
+                    type="email"
+                    value={formData.recipientEmail}
+                    onChange={handleChange}
+                    placeholder="Optional"
+                    data-testid="input-recipient-email"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave the recipient email blank to have the code sent to you instead.
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="message">Personal message</Label>
+                <Textarea
+                  id="message"
+                  name="message"
+                  value={formData.message}
+                  onChange={handleChange}
+                  maxLength={500}
+                  placeholder="Optional"
+                  data-testid="input-gift-card-message"
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
+                disabled={!validAmount || isStarting || !stripePromise}
+                data-testid="button-start-gift-card-purchase"
+              >
+                {isStarting ? "Preparing..." : `Continue to Payment · $${amount.toFixed(2)}`}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="text-lg">Check a Balance</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex space-x-2">
+            <Input
+              value={lookupCode}
+              onChange={(e) => {
+                setLookupCode(e.target.value);
+                setLookupResult(null);
+              }}
+              placeholder="XXXX-XXXX-XXXX"
+              className="font-mono uppercase"
+              data-testid="input-balance-lookup-code"
+            />
+            <Button
+              variant="outline"
+              onClick={checkBalance}
+              disabled={!lookupCode.trim()}
+              data-testid="button-balance-lookup"
+            >
+              <Search className="w-4 h-4" />
+            </Button>
+          </div>
+          {lookupResult && (
+            <p className="text-sm" data-testid="text-balance-lookup-result">
+              {lookupResult.status === "active"
+                ? `$${lookupResult.balance.toFixed(2)} available${lookupResult.expiresAt ? ` until ${new Date(lookupResult.expiresAt).toLocaleDateString()}` : ""}`
+                : `This gift card is ${lookupResult.status}.`}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-muted-foreground">
+        Powered by <span className="font-semibold">Aesthiq</span>
+      </p>
+    </div>
+  );
+}
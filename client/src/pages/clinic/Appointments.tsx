@@ -14,6 +14,10 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import ClinicNav from "@/components/ClinicNav";
 import EditAppointmentDialog from "@/components/EditAppointmentDialog";
+import RedeemGiftCardDialog from "@/components/RedeemGiftCardDialog";
+import CheckoutDialog from "@/components/clinic/CheckoutDialog";
+import AppointmentDetailsDialog from "@/components/AppointmentDetailsDialog";
+import ChartNoteDialog from "@/components/clinic/ChartNoteDialog";
 import { useAuth } from "@/hooks/useAuth";
 import { useOrganization } from "@/hooks/useOrganization";
 import { usePaymentRequired } from "@/hooks/usePaymentRequired";
@@ -22,7 +26,7 @@ import { useToast } from "@/hooks/use-toast";
 import { 
   Calendar as CalendarIcon, Clock, User, MapPin, Plus, Search,
   Filter, MoreHorizontal, CheckCircle, XCircle, AlertCircle,
-  Edit, UserX, CheckCheck, Archive, ArchiveRestore, ChevronDown, ChevronRight
+  Edit, UserX, CheckCheck, Archive, ArchiveRestore, ChevronDown, ChevronRight, DoorOpen, Repeat, Gift, Receipt, Eye, Stethoscope
 } from "lucide-react";
 import { 
   DropdownMenu, 
@@ -32,7 +36,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuCheckboxItem
 } from "@/components/ui/dropdown-menu";
-import type { Appointment, Client, Staff, Service } from "@/types";
+import type { Appointment, Client, Staff, Service, Resource } from "@/types";
 
 export default function Appointments() {
   const { user } = useAuth();
@@ -45,12 +49,17 @@ export default function Appointments() {
   
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined); // undefined = show all upcoming
   const [viewMode, setViewMode] = useState<"day" | "week" | "month">("day");
+  const [layout, setLayout] = useState<"list" | "resources">("list");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string[]>([]);
   const [includeArchived, setIncludeArchived] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [appointmentToEdit, setAppointmentToEdit] = useState<Appointment | null>(null);
+  const [giftCardAppointment, setGiftCardAppointment] = useState<Appointment | null>(null);
+  const [checkoutAppointment, setCheckoutAppointment] = useState<Appointment | null>(null);
+  const [detailsAppointment, setDetailsAppointment] = useState<Appointment | null>(null);
+  const [chartAppointment, setChartAppointment] = useState<Appointment | null>(null);
   const [openGroups, setOpenGroups] = useState<Record<string, boolean>>({
     upcoming: true,
     completed: false,
@@ -68,6 +77,19 @@ export default function Appointments() {
     notes: "",
   });
 
+  // Staff can knowingly book outside opening hours or the provider's weekly availability
+  const [allowOutsideHours, setAllowOutsideHours] = useState(false);
+
+  // Optional recurrence for booking a series, e.g. every 4 weeks for 6 visits
+  const [recurrence, setRecurrence] = useState({
+    enabled: false,
+    frequency: "weekly" as "weekly" | "monthly",
+    interval: "4",
+    endType: "count" as "count" | "date",
+    occurrenceCount: "6",
+    endDate: "",
+  });
+
   // Helper to get date string without UTC conversion (preserves local date)
   const getLocalDateString = (date: Date): string => {
     const year = date.getFullYear();
@@ -179,6 +201,12 @@ export default function Appointments() {
     staleTime: 5 * 60000,
   });
 
+  const { data: resources } = useQuery<Resource[]>({
+    queryKey: ["/api/resources"],
+    enabled: !!organization?.id,
+    staleTime: 5 * 60000,
+  });
+
   const createAppointmentMutation = useMutation({
     mutationFn: async (appointmentData: typeof newAppointment) => {
       const response = await apiRequest("POST", "/api/appointments", {
@@ -187,12 +215,21 @@ export default function Appointments() {
         locationId: appointmentData.locationId,
         startTime: new Date(appointmentData.startTime),
         endTime: new Date(appointmentData.endTime),
+        allowOutsideHours,
+        recurrence: recurrence.enabled ? {
+          frequency: recurrence.frequency,
+          interval: parseInt(recurrence.interval) || 1,
+          occurrenceCount: recurrence.endType === "count" ? parseInt(recurrence.occurrenceCount) || null : null,
+          endDate: recurrence.endType === "date" ? recurrence.endDate || null : null,
+        } : undefined,
       });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["appointments", organization?.id] });
       setIsCreateDialogOpen(false);
+      setRecurrence(prev => ({ ...prev, enabled: false }));
+      setAllowOutsideHours(false);
       setNewAppointment({
         clientId: "",
         staffId: "",
@@ -203,8 +240,10 @@ export default function Appointments() {
         notes: "",
       });
       toast({
-        title: "Appointment created",
-        description: "New appointment has been successfully scheduled.",
+        title: result.series ? "Series created" : "Appointment created",
+        description: result.series
+          ? `${result.appointments.length} recurring appointments have been scheduled.`
+          : "New appointment has been successfully scheduled.",
       });
     },
     onError: (error: any) => {
@@ -212,7 +251,9 @@ export default function Appointments() {
       toast({
         title: isConflict ? "Time slot conflict" : "Failed to create appointment",
         description: isConflict 
-          ? "This time slot is already booked. Please choose a different time."
+          ? recurrence.enabled
+            ? getSeriesConflictDescription(error.message)
+            : getConflictDescription(error.message)
           : "Please try again.",
         variant: "destructive",
       });
@@ -225,14 +266,19 @@ export default function Appointments() {
       const response = await apiRequest("PATCH", `/api/appointments/${appointmentId}`, { status });
       return response.json();
     },
-    onSuccess: (_, variables) => {
+    onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: ["appointments", organization?.id] });
       const statusLabel = variables.status === 'canceled' ? 'canceled' : 
                           variables.status === 'completed' ? 'completed' :
                           variables.status === 'no_show' ? 'marked as no-show' : 'updated';
+      const packageNote = data.packageSession
+        ? variables.status === 'completed'
+          ? ` 1 session used from ${data.packageSession.name} (${data.packageSession.sessionsRemaining} left).`
+          : ` The session was returned to ${data.packageSession.name}.`
+        : '';
       toast({
         title: "Appointment updated",
-        description: `Appointment has been ${statusLabel}.`,
+        description: `Appointment has been ${statusLabel}.${packageNote}`,
       });
     },
     onError: () => {
@@ -297,6 +343,28 @@ export default function Appointments() {
     setNewAppointment(prev => ({ ...prev, [field]: value }));
   };
 
+  // Series conflicts come back as "409: {message, conflicts}"; list the first few dates that clash
+  const getSeriesConflictDescription = (errorMessage: string): string => {
+    try {
+      const body = JSON.parse(errorMessage.slice(errorMessage.indexOf("{")));
+      const dates = (body.conflicts || []).slice(0, 3)
+        .map((conflict: { startTime: string }) => new Date(conflict.startTime).toLocaleDateString())
+        .join(", ");
+      return dates ? `${body.message}: ${dates}` : body.message;
+    } catch {
+      return "Some occurrences clash with existing bookings. Please choose a different time.";
+    }
+  };
+
+  // A single booking's 409 says why the slot can't be booked, e.g. the location is closed or the provider is busy
+  const getConflictDescription = (errorMessage: string): string => {
+    try {
+      return JSON.parse(errorMessage.slice(errorMessage.indexOf("{"))).message;
+    } catch {
+      return "This time slot is already booked. Please choose a different time.";
+    }
+  };
+
   const handleDialogOpenChange = (open: boolean) => {
     setIsCreateDialogOpen(open);
     // Refetch clients when dialog opens to show newly created patients
@@ -305,6 +373,10 @@ export default function Appointments() {
     }
   };
 
+  // Unpaid part of the visit that a gift card can still cover
+  const getAmountDue = (appointment: Appointment) =>
+    Math.round((Number(appointment.totalAmount || 0) - Number(appointment.depositPaid || 0) - Number(appointment.giftCardPaid || 0)) * 100) / 100;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "confirmed":
@@ -355,6 +427,16 @@ export default function Appointments() {
 
   const totalAppointments = Object.values(groupedAppointments).reduce((sum, group) => sum + group.length, 0);
 
+  // One column per active room/equipment, holding the upcoming appointments that use it
+  const resourceColumns = (resources || [])
+    .filter(resource => resource.isActive)
+    .map(resource => ({
+      resource,
+      appointments: groupedAppointments.upcoming.filter(apt =>
+        Array.isArray(apt.resourceIds) && (apt.resourceIds as string[]).includes(resource.id)
+      )
+    }));
+
   const toggleGroup = (group: string) => {
     setOpenGroups(prev => ({ ...prev, [group]: !prev[group] }));
   };
@@ -393,6 +475,12 @@ export default function Appointments() {
       </div>
       
       <div className="flex items-center space-x-3">
+        {appointment.seriesId && (
+          <Badge variant="outline" className="mr-2" data-testid="badge-series">
+            <Repeat className="w-3 h-3 mr-1" />
+            #{appointment.seriesIndex}
+          </Badge>
+        )}
         <Badge className={getStatusColor(appointment.status || "scheduled")}>
           <div className="flex items-center space-x-1">
             {getStatusIcon(appointment.status || "scheduled")}
@@ -407,6 +495,22 @@ export default function Appointments() {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onClick={() => setDetailsAppointment(appointment)}
+              data-testid={`menu-details-${appointment.id}`}
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              View Details
+            </DropdownMenuItem>
+
+            <DropdownMenuItem
+              onClick={() => setChartAppointment(appointment)}
+              data-testid={`menu-chart-${appointment.id}`}
+            >
+              <Stethoscope className="w-4 h-4 mr-2" />
+              Chart
+            </DropdownMenuItem>
+
             <DropdownMenuItem 
               onClick={() => {
                 setAppointmentToEdit(appointment);
@@ -418,6 +522,26 @@ export default function Appointments() {
               Edit
             </DropdownMenuItem>
             
+            {getAmountDue(appointment) > 0 && !['canceled', 'no_show'].includes(appointment.status || '') && !appointment.archived && (
+              <DropdownMenuItem 
+                onClick={() => setGiftCardAppointment(appointment)}
+                data-testid={`menu-gift-card-${appointment.id}`}
+              >
+                <Gift className="w-4 h-4 mr-2" />
+                Redeem Gift Card
+              </DropdownMenuItem>
+            )}
+            
+            {!['canceled', 'no_show'].includes(appointment.status || '') && !appointment.archived && (
+              <DropdownMenuItem 
+                onClick={() => setCheckoutAppointment(appointment)}
+                data-testid={`menu-checkout-${appointment.id}`}
+              >
+                <Receipt className="w-4 h-4 mr-2" />
+                Checkout
+              </DropdownMenuItem>
+            )}
+            
             {appointment.status !== 'completed' && !appointment.archived && (
               <DropdownMenuItem 
                 onClick={() => updateAppointmentStatusMutation.mutate({ 
@@ -523,6 +647,16 @@ export default function Appointments() {
             </SelectContent>
           </Select>
           
+          <Select value={layout} onValueChange={(value: "list" | "resources") => setLayout(value)}>
+            <SelectTrigger className="w-40 ml-2 mr-auto" data-testid="select-layout">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="list">List</SelectItem>
+              <SelectItem value="resources">By Resource</SelectItem>
+            </SelectContent>
+          </Select>
+          
           <Dialog open={isCreateDialogOpen} onOpenChange={handleDialogOpenChange}>
               <DialogTrigger asChild>
                 <Button data-testid="button-create-appointment">
@@ -627,6 +761,98 @@ export default function Appointments() {
                     </div>
                   </div>
                   
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="allowOutsideHours"
+                      checked={allowOutsideHours}
+                      onCheckedChange={(checked) => setAllowOutsideHours(!!checked)}
+                      data-testid="checkbox-allow-outside-hours"
+                    />
+                    <Label htmlFor="allowOutsideHours">
+                      Book outside opening hours and the provider's availability
+                    </Label>
+                  </div>
+
+                  <div className="space-y-3 border rounded-lg p-3">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="recurring"
+                        checked={recurrence.enabled}
+                        onCheckedChange={(checked) => setRecurrence(prev => ({ ...prev, enabled: !!checked }))}
+                        data-testid="checkbox-recurring"
+                      />
+                      <Label htmlFor="recurring" className="flex items-center">
+                        <Repeat className="w-4 h-4 mr-1" />
+                        Repeat this appointment
+                      </Label>
+                    </div>
+                    {recurrence.enabled && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Every</Label>
+                          <div className="flex space-x-2">
+                            <Input
+                              type="number"
+                              min={1}
+                              max={52}
+                              value={recurrence.interval}
+                              onChange={(e) => setRecurrence(prev => ({ ...prev, interval: e.target.value }))}
+                              className="w-20"
+                              data-testid="input-recurrence-interval"
+                            />
+                            <Select
+                              value={recurrence.frequency}
+                              onValueChange={(value: "weekly" | "monthly") => setRecurrence(prev => ({ ...prev, frequency: value }))}
+                            >
+                              <SelectTrigger data-testid="select-recurrence-frequency">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="weekly">Week(s)</SelectItem>
+                                <SelectItem value="monthly">Month(s)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Ends</Label>
+                          <div className="flex space-x-2">
+                            <Select
+                              value={recurrence.endType}
+                              onValueChange={(value: "count" | "date") => setRecurrence(prev => ({ ...prev, endType: value }))}
+                            >
+                              <SelectTrigger className="w-28" data-testid="select-recurrence-end">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="count">After</SelectItem>
+                                <SelectItem value="date">On date</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            {recurrence.endType === "count" ? (
+                              <Input
+                                type="number"
+                                min={2}
+                                max={52}
+                                value={recurrence.occurrenceCount}
+                                onChange={(e) => setRecurrence(prev => ({ ...prev, occurrenceCount: e.target.value }))}
+                                placeholder="Visits"
+                                data-testid="input-recurrence-count"
+                              />
+                            ) : (
+                              <Input
+                                type="date"
+                                value={recurrence.endDate}
+                                onChange={(e) => setRecurrence(prev => ({ ...prev, endDate: e.target.value }))}
+                                data-testid="input-recurrence-end-date"
+                              />
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  
                   <div className="space-y-2">
                     <Label htmlFor="notes">Notes</Label>
                     <Textarea
@@ -857,7 +1083,61 @@ export default function Appointments() {
                 </div>
               </CardHeader>
               <CardContent>
-                {totalAppointments === 0 ? (
+                {layout === "resources" ? (
+                  resourceColumns.length === 0 ? (
+                    <div className="text-center py-8">
+                      <DoorOpen className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                      <p className="text-muted-foreground" data-testid="text-no-resources">
+                        No rooms or equipment set up yet. Add them in Settings.
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="flex space-x-4 overflow-x-auto pb-2">
+                      {resourceColumns.map(({ resource, appointments: resourceAppointments }) => (
+                        <div
+                          key={resource.id}
+                          className="min-w-[220px] flex-1 space-y-2"
+                          data-testid={`resource-column-${resource.id}`}
+                        >
+                          <div className="flex items-center justify-between border-b pb-2">
+                            <div className="flex items-center space-x-2">
+                              <DoorOpen className="w-4 h-4 text-muted-foreground" />
+                              <span className="font-semibold">{resource.name}</span>
+                            </div>
+                            <Badge variant="secondary">{resourceAppointments.length}</Badge>
+                          </div>
+                          {resourceAppointments.length === 0 ? (
+                            <p className="text-xs text-muted-foreground py-2">Free</p>
+                          ) : (
+                            resourceAppointments.map(appointment => (
+                              <div
+                                key={appointment.id}
+                                className="p-3 border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
+                                onClick={() => {
+                                  setAppointmentToEdit(appointment);
+                                  setEditDialogOpen(true);
+                                }}
+                                data-testid={`resource-appointment-${resource.id}-${appointment.id}`}
+                              >
+                                <div className="text-xs text-muted-foreground">
+                                  {new Date(appointment.startTime!).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                                  {' · '}
+                                  {new Date(appointment.startTime!).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}
+                                  {' – '}
+                                  {new Date(appointment.endTime!).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}
+                                </div>
+                                <div className="text-sm font-medium text-foreground">{appointment.serviceName || 'Service'}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {appointment.clientName || 'Client'} · {appointment.staffName || 'Staff'}
+                                </div>
+                              </div>
+                            ))
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )
+                ) : totalAppointments === 0 ? (
                   <div className="text-center py-8">
                     <CalendarIcon className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                     <p className="text-muted-foreground" data-testid="text-no-appointments">
@@ -948,6 +1228,33 @@ export default function Appointments() {
         </div>
       </div>
 
+      <RedeemGiftCardDialog
+        target={giftCardAppointment ? { appointmentId: giftCardAppointment.id } : null}
+        amountDue={giftCardAppointment ? getAmountDue(giftCardAppointment) : 0}
+        open={!!giftCardAppointment}
+        onOpenChange={(open) => !open && setGiftCardAppointment(null)}
+        onRedeemed={() => queryClient.invalidateQueries({ queryKey: ["/api/appointments"] })}
+      />
+
+      <AppointmentDetailsDialog
+        appointment={detailsAppointment}
+        open={!!detailsAppointment}
+        onOpenChange={(open) => !open && setDetailsAppointment(null)}
+      />
+
+      <ChartNoteDialog
+        appointment={chartAppointment}
+        open={!!chartAppointment}
+        onOpenChange={(open) => !open && setChartAppointment(null)}
+      />
+
+      <CheckoutDialog
+        appointment={checkoutAppointment}
+        open={!!checkoutAppointment}
+        onOpenChange={(open) => !open && setCheckoutAppointment(null)}
+        onCheckedOut={() => queryClient.invalidateQueries({ queryKey: ["appointments"] })}
+      />
+
       <EditAppointmentDialog 
         appointment={appointmentToEdit}
         open={editDialogOpen}
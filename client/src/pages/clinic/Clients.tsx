@@ -12,6 +12,12 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import ClinicNav from "@/components/ClinicNav";
+import ClientPackages from "@/components/clinic/ClientPackages";
+import ClientIntakeForms from "@/components/clinic/ClientIntakeForms";
+import ClientConsents from "@/components/clinic/ClientConsents";
+import ClientCharts from "@/components/clinic/ClientCharts";
+import ClientPhotoGallery from "@/components/clinic/ClientPhotoGallery";
+import ClientDocuments from "@/components/clinic/ClientDocuments";
 import { useAuth } from "@/hooks/useAuth";
 import { useOrganization } from "@/hooks/useOrganization";
 import { usePaymentRequired } from "@/hooks/usePaymentRequired";
@@ -509,6 +515,11 @@ export default function Clients() {
                   <TabsTrigger value="overview" data-testid="tab-client-overview">Overview</TabsTrigger>
                   <TabsTrigger value="appointments" data-testid="tab-client-appointments">Appointments</TabsTrigger>
                   <TabsTrigger value="membership" data-testid="tab-client-membership">Membership</TabsTrigger>
+                  <TabsTrigger value="packages" data-testid="tab-client-packages">Packages</TabsTrigger>
+                  <TabsTrigger value="forms" data-testid="tab-client-forms">Forms</TabsTrigger>
+                  <TabsTrigger value="charts" data-testid="tab-client-charts">Charts</TabsTrigger>
+                  <TabsTrigger value="photos" data-testid="tab-client-photos">Photos</TabsTrigger>
+                  <TabsTrigger value="documents" data-testid="tab-client-documents">Documents</TabsTrigger>
                   <TabsTrigger value="history" data-testid="tab-client-history">History</TabsTrigger>
                 </TabsList>
 
@@ -620,6 +631,27 @@ export default function Clients() {
                   </Card>
                 </TabsContent>
 
+                <TabsContent value="packages">
+                  <ClientPackages clientId={selectedClient.id} />
+                </TabsContent>
+
+                <TabsContent value="forms" className="space-y-4">
+                  <ClientIntakeForms clientId={selectedClient.id} />
+                  <ClientConsents clientId={selectedClient.id} />
+                </TabsContent>
+
+                <TabsContent value="charts">
+                  <ClientCharts clientId={selectedClient.id} />
+                </TabsContent>
+
+                <TabsContent value="photos">
+                  <ClientPhotoGallery clientId={selectedClient.id} photoConsentAt={selectedClient.photoMarketingConsentAt} />
+                </TabsContent>
+
+                <TabsContent value="documents">
+                  <ClientDocuments clientId={selectedClient.id} clientEmail={selectedClient.email} />
+                </TabsContent>
+
                 <TabsContent value="history">
                   <Card>
                     <CardHeader>
@@ -0,0 +1,421 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import ClinicNav from "@/components/ClinicNav";
+import { useOrganization } from "@/hooks/useOrganization";
+import { usePaymentRequired } from "@/hooks/usePaymentRequired";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { CreditCard, Plus, Search, Ban, Copy } from "lucide-react";
+import { format } from "date-fns";
+import type { GiftCard } from "@/types";
+
+const EMPTY_SALE = {
+  amount: "100",
+  paymentMethod: "card",
+  purchaserName: "",
+  purchaserEmail: "",
+  recipientName: "",
+  recipientEmail: "",
+  message: "",
+};
+
+const formatCode = (code: string) => code.match(/.{1,4}/g)?.join("-") || code;
+
+const getStatusColor = (status: GiftCard["status"]) => {
+  switch (status) {
+    case "active":
+      return "bg-green-100 text-green-800";
+    case "redeemed":
+      return "bg-blue-100 text-blue-800";
+    case "expired":
+      return "bg-yellow-100 text-yellow-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+export default function GiftCards() {
+  const { organization } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Enforce payment setup requirement
+  const { isLoading: paymentLoading, hasAccess } = usePaymentRequired();
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isSellDialogOpen, setIsSellDialogOpen] = useState(false);
+  const [sale, setSale] = useState(EMPTY_SALE);
+  const [soldCard, setSoldCard] = useState<GiftCard | null>(null);
+  const [cardToVoid, setCardToVoid] = useState<GiftCard | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+
+  const { data: giftCards = [], isLoading } = useQuery<GiftCard[]>({
+    queryKey: ["/api/gift-cards"],
+    enabled: !!organization?.id,
+  });
+
+  const sellMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/gift-cards", {
+        amount: Number(sale.amount),
+        paymentMethod: sale.paymentMethod,
+        purchaserName: sale.purchaserName,
+        purchaserEmail: sale.purchaserEmail || undefined,
+        recipientName: sale.recipientName || undefined,
+        recipientEmail: sale.recipientEmail || undefined,
+        message: sale.message || undefined,
+      });
+      return response.json() as Promise<GiftCard>;
+    },
+    onSuccess: (card) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gift-cards"] });
+      setSoldCard(card);
+      setSale(EMPTY_SALE);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error selling gift card",
+        description: error.message || "Failed to sell gift card",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/gift-cards/${cardToVoid!.id}/void`, { reason: voidReason || undefined });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gift-cards"] });
+      toast({
+        title: "Gift card voided",
+        description: "The remaining balance can no longer be used.",
+      });
+      setCardToVoid(null);
+      setVoidReason("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error voiding gift card",
+        description: error.message || "Failed to void gift card",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(formatCode(code));
+      toast({ title: "Code copied" });
+    } catch (err) {
+      toast({ title: "Failed to copy", description: "Please copy the code manually", variant: "destructive" });
+    }
+  };
+
+  if (isLoading || paymentLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  // Block access if payment setup is not complete (will redirect to payment setup)
+  if (!hasAccess) {
+    return null;
+  }
+
+  const search = searchTerm.trim().toUpperCase().replace(/[^A-Z0-9 @.]/g, "");
+  const filteredCards = giftCards.filter(card =>
+    !search ||
+    card.code.includes(search.replace(/[^A-Z0-9]/g, "")) ||
+    (card.purchaserName || "").toUpperCase().includes(search) ||
+    (card.recipientName || "").toUpperCase().includes(search) ||
+    (card.recipientEmail || "").toUpperCase().includes(search)
+  );
+  const outstanding = giftCards
+    .filter(card => card.status === "active")
+    .reduce((total, card) => total + Number(card.balance), 0);
+  const saleAmount = Number(sale.amount) || 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-serif font-bold text-foreground mb-2" data-testid="text-gift-cards-title">
+            Gift Cards
+          </h1>
+          <p className="text-muted-foreground mb-4">Sell gift cards at the front desk and track balances sold online</p>
+          <ClinicNav />
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6 mb-8">
+          <Card>
+            <CardContent className="p-6">
+              <div className="text-sm text-muted-foreground mb-2">Active Cards</div>
+              <div className="text-2xl font-bold text-foreground" data-testid="text-active-gift-cards">
+                {giftCards.filter(card => card.status === "active").length}
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="text-sm text-muted-foreground mb-2">Outstanding Balance</div>
+              <div className="text-2xl font-bold text-foreground" data-testid="text-gift-card-outstanding">
+                ${outstanding.toFixed(2)}
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6 flex items-center h-full">
+              <Button className="w-full" onClick={() => setIsSellDialogOpen(true)} data-testid="button-sell-gift-card">
+                <Plus className="w-4 h-4 mr-2" />
+                Sell Gift Card
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="w-5 h-5" />
+                All Gift Cards
+              </CardTitle>
+              <div className="relative w-64">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Search code or name..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                  data-testid="input-search-gift-cards"
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {filteredCards.length === 0 ? (
+              <div className="text-center py-12">
+                <CreditCard className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No gift cards yet</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {filteredCards.map(card => (
+                  <div
+                    key={card.id}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                    data-testid={`gift-card-${card.id}`}
+                  >
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono font-medium">{formatCode(card.code)}</span>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => copyCode(card.code)}>
+                          <Copy className="w-3 h-3" />
+                        </Button>
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {card.recipientName ? `For ${card.recipientName} from ${card.purchaserName}` : `Bought by ${card.purchaserName}`}
+                        {card.soldBy ? " · front desk" : " · online"}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {card.activatedAt && `Sold ${format(new Date(card.activatedAt), "MMM d, yyyy")}`}
+                        {card.expiresAt ? ` · expires ${format(new Date(card.expiresAt), "MMM d, yyyy")}` : " · no expiry"}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <div className="text-right">
+                        <div className="font-bold">${Number(card.balance).toFixed(2)}</div>
+                        <div className="text-xs text-muted-foreground">of ${Number(card.initialAmount).toFixed(2)}</div>
+                      </div>
+                      <Badge className={getStatusColor(card.status)}>{card.status}</Badge>
+                      {card.status === "active" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setCardToVoid(card)}
+                          data-testid={`button-void-gift-card-${card.id}`}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Sell Dialog */}
+      <Dialog
+        open={isSellDialogOpen}
+        onOpenChange={(open) => {
+          setIsSellDialogOpen(open);
+          if (!open) setSoldCard(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{soldCard ? "Gift Card Sold" : "Sell Gift Card"}</DialogTitle>
+          </DialogHeader>
+          {soldCard ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-muted-foreground">Give this code to the customer.</p>
+              <p className="text-2xl font-mono font-bold" data-testid="text-sold-gift-card-code">{formatCode(soldCard.code)}</p>
+              <p className="text-sm">${Number(soldCard.initialAmount).toFixed(2)}</p>
+              {(soldCard.recipientEmail || soldCard.purchaserEmail) && (
+                <p className="text-xs text-muted-foreground">
+                  A copy was emailed to {soldCard.recipientEmail || soldCard.purchaserEmail}.
+                </p>
+              )}
+              <DialogFooter>
+                <Button onClick={() => { setIsSellDialogOpen(false); setSoldCard(null); }}>Done</Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sale-amount">Amount ($10 - $2,000)</Label>
+                  <Input
+                    id="sale-amount"
+                    type="number"
+                    min="10"
+                    max="2000"
+                    value={sale.amount}
+                    onChange={(e) => setSale(prev => ({ ...prev, amount: e.target.value }))}
+                    data-testid="input-sale-amount"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Paid with</Label>
+                  <Select value={sale.paymentMethod} onValueChange={(value) => setSale(prev => ({ ...prev, paymentMethod: value }))}>
+                    <SelectTrigger data-testid="select-sale-payment-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="card">Card</SelectItem>
+                      <SelectItem value="cash">Cash</SelectItem>
+                      <SelectItem value="check">Check</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sale-purchaser-name">Purchaser name</Label>
+                  <Input
+                    id="sale-purchaser-name"
+                    value={sale.purchaserName}
+                    onChange={(e) => setSale(prev => ({ ...prev, purchaserName: e.target.value }))}
+                    data-testid="input-sale-purchaser-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sale-purchaser-email">Purchaser email (optional)</Label>
+                  <Input
+                    id="sale-purchaser-email"
+                    type="email"
+                    value={sale.purchaserEmail}
+                    onChange={(e) => setSale(prev => ({ ...prev, purchaserEmail: e.target.value }))}
+                    data-testid="input-sale-purchaser-email"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sale-recipient-name">Recipient name (optional)</Label>
+                  <Input
+                    id="sale-recipient-name"
+                    value={sale.recipientName}
+                    onChange={(e) => setSale(prev => ({ ...prev, recipientName: e.target.value }))}
+                    data-testid="input-sale-recipient-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sale-recipient-email">Recipient email (optional)</Label>
+                  <Input
+                    id="sale-recipient-email"
+                    type="email"
+                    value={sale.recipientEmail}
+                    onChange={(e) => setSale(prev => ({ ...prev, recipientEmail: e.target.value }))}
+                    data-testid="input-sale-recipient-email"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sale-message">Message (optional)</Label>
+                <Textarea
+                  id="sale-message"
+                  value={sale.message}
+                  onChange={(e) => setSale(prev => ({ ...prev, message: e.target.value }))}
+                  data-testid="input-sale-message"
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsSellDialogOpen(false)}>Cancel</Button>
+                <Button
+                  onClick={() => sellMutation.mutate()}
+                  disabled={sellMutation.isPending || !sale.purchaserName || saleAmount < 10 || saleAmount > 2000}
+                  data-testid="button-confirm-sell-gift-card"
+                >
+                  {sellMutation.isPending ? "Selling..." : `Sell $${saleAmount.toFixed(2)} Gift Card`}
+                </Button>
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Dialog */}
+      <Dialog open={!!cardToVoid} onOpenChange={(open) => !open && setCardToVoid(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void Gift Card</DialogTitle>
+          </DialogHeader>
+          {cardToVoid && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {formatCode(cardToVoid.code)} has ${Number(cardToVoid.balance).toFixed(2)} left. Voiding it removes the
+                balance for good, e.g. after refunding the purchase.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="void-reason">Reason (optional)</Label>
+                <Input
+                  id="void-reason"
+                  value={voidReason}
+                  onChange={(e) => setVoidReason(e.target.value)}
+                  data-testid="input-void-reason"
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCardToVoid(null)}>Keep Card</Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => voidMutation.mutate()}
+                  disabled={voidMutation.isPending}
+                  data-testid="button-confirm-void-gift-card"
+                >
+                  {voidMutation.isPending ? "Voiding..." : "Void Card"}
+                </Button>
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
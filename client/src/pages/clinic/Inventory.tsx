@@ -0,0 +1,62 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import ClinicNav from "@/components/ClinicNav";
+import ProductManager from "@/components/clinic/ProductManager";
+import StockLevels from "@/components/clinic/StockLevels";
+import PurchaseOrders from "@/components/clinic/PurchaseOrders";
+import ServiceConsumables from "@/components/clinic/ServiceConsumables";
+import { usePaymentRequired } from "@/hooks/usePaymentRequired";
+
+export default function Inventory() {
+  // Enforce payment setup requirement
+  const { isLoading: paymentLoading, hasAccess } = usePaymentRequired();
+
+  if (paymentLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  // Block access if payment setup is not complete (will redirect to payment setup)
+  if (!hasAccess) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-serif font-bold text-foreground mb-2" data-testid="text-inventory-title">
+            Inventory
+          </h1>
+          <p className="text-muted-foreground mb-4">Products, stock at each location, supplier orders and treatment consumables</p>
+          <ClinicNav />
+        </div>
+
+        <Tabs defaultValue="stock" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="stock" data-testid="tab-inventory-stock">Stock</TabsTrigger>
+            <TabsTrigger value="products" data-testid="tab-inventory-products">Products</TabsTrigger>
+            <TabsTrigger value="purchase-orders" data-testid="tab-inventory-purchase-orders">Purchase Orders</TabsTrigger>
+            <TabsTrigger value="consumables" data-testid="tab-inventory-consumables">Consumables</TabsTrigger>
+          </TabsList>
+          <TabsContent value="stock">
+            <StockLevels />
+          </TabsContent>
+          <TabsContent value="products">
+            <ProductManager />
+          </TabsContent>
+          <TabsContent value="purchase-orders">
+            <PurchaseOrders />
+          </TabsContent>
+          <TabsContent value="consumables">
+            <ServiceConsumables />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import ClinicNav from "@/components/ClinicNav";
+import RedeemGiftCardDialog from "@/components/RedeemGiftCardDialog";
+import MembershipCreditHistory from "@/components/MembershipCreditHistory";
 import { useAuth } from "@/hooks/useAuth";
 import { useOrganization } from "@/hooks/useOrganization";
 import { usePaymentRequired } from "@/hooks/usePaymentRequired";
@@ -40,6 +42,8 @@ interface MembershipTier {
   benefits: string[];
   discountPercentage?: number;
   monthlyCredits?: number;
+  creditRollover?: boolean;
+  creditRolloverCap?: number | null;
   color: string;
   stripePriceIdMonthly?: string;
   stripePriceIdYearly?: string;
@@ -66,6 +70,8 @@ export default function Memberships() {
   const [editingTier, setEditingTier] = useState<MembershipTier | null>(null);
   const [selectedMembership, setSelectedMembership] = useState<Membership | null>(null);
   const [isManageDialogOpen, setIsManageDialogOpen] = useState(false);
+  const [giftCardMembership, setGiftCardMembership] = useState<Membership | null>(null);
+  const [creditHistoryMembership, setCreditHistoryMembership] = useState<Membership | null>(null);
   const [managementFormData, setManagementFormData] = useState({
     status: '',
     monthlyCredits: 0,
@@ -77,6 +83,8 @@ export default function Memberships() {
     yearlyPrice: "",
     discountPercentage: "",
     monthlyCredits: "",
+    creditRollover: false,
+    creditRolloverCap: "",
     benefits: "",
     color: "gold",
     autoRenew: true,
@@ -127,6 +135,8 @@ export default function Memberships() {
         yearlyPrice: "",
         discountPercentage: "",
         monthlyCredits: "",
+        creditRollover: false,
+        creditRolloverCap: "",
         benefits: "",
         color: "gold",
         autoRenew: true,
@@ -179,6 +189,8 @@ export default function Memberships() {
         yearlyPrice: formData.get("yearlyPrice") || null,
         discountPercentage: formData.get("discountPercentage") || null,
         monthlyCredits: formData.get("monthlyCredits") || null,
+        creditRollover: formData.get("creditRollover") === "on",
+        creditRolloverCap: formData.get("creditRolloverCap") || null,
         benefits: formData.get("benefits") ? (formData.get("benefits") as string).split(',').map(b => b.trim()) : []
       });
       return response.json();
@@ -445,6 +457,35 @@ export default function Memberships() {
                         />
                       </div>
                     </div>
+
+                    <div className="grid grid-cols-2 gap-4 items-end">
+                      <div className="flex items-center space-x-2 pb-2">
+                        <Switch
+                          id="creditRollover"
+                          checked={newTier.creditRollover}
+                          onCheckedChange={(checked) => setNewTier(prev => ({ ...prev, creditRollover: checked }))}
+                          data-testid="switch-credit-rollover"
+                        />
+                        <Label htmlFor="creditRollover">Unused credits roll over</Label>
+                      </div>
+
+                      {newTier.creditRollover && (
+                        <div className="space-y-2">
+                          <Label htmlFor="creditRolloverCap">Rollover Cap ($)</Label>
+                          <Input
+                            id="creditRolloverCap"
+                            name="creditRolloverCap"
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={newTier.creditRolloverCap}
+                            onChange={handleInputChange}
+                            placeholder="No cap"
+                            data-testid="input-credit-rollover-cap"
+                          />
+                        </div>
+                      )}
+                    </div>
                     
                     <div className="space-y-2">
                       <Label htmlFor="benefits">Benefits (comma-separated)</Label>
@@ -570,6 +611,34 @@ export default function Memberships() {
                       />
                     </div>
                   </div>
+
+                  <div className="grid grid-cols-2 gap-4 items-end">
+                    <div className="flex items-center space-x-2 pb-2">
+                      <Switch
+                        id="edit-credit-rollover"
+                        name="creditRollover"
+                        defaultChecked={!!editingTier?.creditRollover}
+                        data-testid="switch-credit-rollover"
+                      />
+                      <Label htmlFor="edit-credit-rollover">Unused credits roll over</Label>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-credit-rollover-cap">Rollover Cap ($)</Label>
+                      <Input
+                        id="edit-credit-rollover-cap"
+                        name="creditRolloverCap"
+                        type="number"
+                        placeholder="No cap"
+                        min="0"
+                        step="0.01"
+                        defaultValue={editingTier?.creditRolloverCap?.toString() || ""}
+                        data-testid="input-credit-rollover-cap"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Changes apply to new members. Existing members keep the rollover rule they signed up with.
+                  </p>
                   
                   <div className="space-y-2">
                     <Label htmlFor="edit-benefits">Benefits (comma-separated)</Label>
@@ -639,6 +708,16 @@ export default function Memberships() {
                           <span className="text-muted-foreground">Monthly Credits:</span>
                           <span className="font-medium">${tier.monthlyCredits}</span>
                         </div>
+                        <div className="flex justify-between text-sm mt-1">
+                          <span className="text-muted-foreground">Rollover:</span>
+                          <span className="font-medium">
+                            {!tier.creditRollover
+                              ? "None"
+                              : tier.creditRolloverCap != null
+                                ? `Up to $${tier.creditRolloverCap}`
+                                : "Unlimited"}
+                          </span>
+                        </div>
                         <div className="flex justify-between text-sm mt-1">
                           <span className="text-muted-foreground">Subscribers:</span>
                           <span className="font-medium">
@@ -726,7 +805,7 @@ export default function Memberships() {
                           <div className="text-right">
                             <div className="text-sm font-medium">${membership.monthlyFee}/month</div>
                             <div className="text-xs text-muted-foreground">
-                              ${membership.usedCredits || 0} of ${membership.monthlyCredits} used
+                              ${Number(membership.creditBalance || 0).toFixed(2)} credits left · ${membership.usedCredits || 0} used this cycle
                             </div>
                           </div>
                           
@@ -760,6 +839,20 @@ export default function Memberships() {
                               <DropdownMenuItem onClick={() => handleManageMembership(membership)}>
                                 Manage Membership
                               </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setCreditHistoryMembership(membership)}
+                                data-testid={`menu-credit-history-${membership.id}`}
+                              >
+                                Credit History
+                              </DropdownMenuItem>
+                              {membership.status === 'active' && (
+                                <DropdownMenuItem
+                                  onClick={() => setGiftCardMembership(membership)}
+                                  data-testid={`menu-gift-card-${membership.id}`}
+                                >
+                                  Redeem Gift Card Toward Dues
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuSeparator />
                               <DropdownMenuItem 
                                 onClick={() => handleCancelMembership(membership)}
@@ -844,6 +937,21 @@ export default function Memberships() {
             </DialogContent>
           </Dialog>
 
+          {/* Membership Credit History Dialog */}
+          <Dialog open={!!creditHistoryMembership} onOpenChange={(open) => !open && setCreditHistoryMembership(null)}>
+            <DialogContent className="max-h-[80vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  Credit History
+                  {creditHistoryMembership && ` · ${creditHistoryMembership.clientFirstName || ""} ${creditHistoryMembership.clientLastName || ""}`}
+                </DialogTitle>
+              </DialogHeader>
+              {creditHistoryMembership && (
+                <MembershipCreditHistory membershipId={creditHistoryMembership.id} />
+              )}
+            </DialogContent>
+          </Dialog>
+
           <TabsContent value="analytics">
             <div className="grid lg:grid-cols-2 gap-6">
               <Card>
@@ -886,6 +994,13 @@ export default function Memberships() {
             </div>
           </TabsContent>
         </Tabs>
+
+        <RedeemGiftCardDialog
+          target={giftCardMembership ? { membershipId: giftCardMembership.id } : null}
+          amountDue={giftCardMembership ? Number(giftCardMembership.monthlyFee) : 0}
+          open={!!giftCardMembership}
+          onOpenChange={(open) => !open && setGiftCardMembership(null)}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import ClinicNav from "@/components/ClinicNav";
+import PayPeriods from "@/components/clinic/PayPeriods";
+import TimeClock from "@/components/clinic/TimeClock";
+import { usePaymentRequired } from "@/hooks/usePaymentRequired";
+
+export default function Payroll() {
+  // Enforce payment setup requirement
+  const { isLoading: paymentLoading, hasAccess } = usePaymentRequired();
+
+  if (paymentLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  // Block access if payment setup is not complete (will redirect to payment setup)
+  if (!hasAccess) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-serif font-bold text-foreground mb-2" data-testid="text-payroll-title">
+            Payroll
+          </h1>
+          <p className="text-muted-foreground mb-4">Commission, tips and hourly pay by pay period, and the staff time clock</p>
+          <ClinicNav />
+        </div>
+
+        <Tabs defaultValue="pay-periods" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="pay-periods" data-testid="tab-payroll-pay-periods">Pay Periods</TabsTrigger>
+            <TabsTrigger value="time-clock" data-testid="tab-payroll-time-clock">Time Clock</TabsTrigger>
+          </TabsList>
+          <TabsContent value="pay-periods">
+            <PayPeriods />
+          </TabsContent>
+          <TabsContent value="time-clock">
+            <TimeClock />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -12,13 +12,55 @@ import ClinicNav from "@/components/ClinicNav";
 import { useAuth } from "@/hooks/useAuth";
 import { useOrganization } from "@/hooks/useOrganization";
 import { usePaymentRequired } from "@/hooks/usePaymentRequired";
+import { apiRequest } from "@/lib/api";
 import { 
   TrendingUp, DollarSign, Users, Calendar as CalendarIcon,
   Download, Filter, BarChart3, PieChart, LineChart,
-  Target, Crown, Clock, AlertCircle
+  Target, Crown, Clock, AlertCircle, Gift, MapPin, HandCoins
 } from "lucide-react";
 import type { DashboardStats } from "@/types";
 
+interface GiftCardTotals {
+  sold: number;
+  redeemed: number;
+  expired: number;
+  voided: number;
+}
+
+interface TaxReport {
+  taxCollected: number;
+  byLocation: { locationId: string; locationName: string; taxRate: number; taxCollected: number; payments: number }[];
+  byMonth: { month: string; taxCollected: number }[];
+}
+
+interface ProviderPayouts {
+  totalCommission: number;
+  totalTips: number;
+  statements: {
+    staffId: string;
+    providerName: string;
+    commissionType: "percentage" | "flat";
+    commissionRate: number;
+    appointments: number;
+    serviceRevenue: number;
+    commission: number;
+    productCommission: number;
+    tips: number;
+    totalPayout: number;
+    lines: {
+      appointmentId: string;
+      date: string;
+      clientName: string;
+      serviceName: string;
+      serviceRevenue: number;
+      commission: number;
+      tips: number;
+    }[];
+  }[];
+}
+
+const formatMoney = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
 export default function Reports() {
   const { user } = useAuth();
   const { organization } = useOrganization();
@@ -39,6 +81,45 @@ export default function Reports() {
     staleTime: 60000,
   });
 
+  const { data: giftCardReport } = useQuery<{
+    outstandingLiability: number;
+    activeCardCount: number;
+    activeCardBalance: number;
+    allTime: GiftCardTotals;
+    period: GiftCardTotals;
+  }>({
+    queryKey: ["/api/reports/gift-cards", organization?.id, dateRange],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (dateRange?.from) params.set("from", dateRange.from.toISOString());
+      if (dateRange?.to) params.set("to", dateRange.to.toISOString());
+      return apiRequest("GET", `/api/reports/gift-cards?${params.toString()}`).then(res => res.json());
+    },
+    enabled: !!organization?.id && reportType === "gift-cards",
+  });
+
+  const { data: taxReport } = useQuery<TaxReport>({
+    queryKey: ["/api/reports/tax", organization?.id, dateRange],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (dateRange?.from) params.set("from", dateRange.from.toISOString());
+      if (dateRange?.to) params.set("to", dateRange.to.toISOString());
+      return apiRequest("GET", `/api/reports/tax?${params.toString()}`).then(res => res.json());
+    },
+    enabled: !!organization?.id && reportType === "tax",
+  });
+
+  const { data: payoutReport } = useQuery<ProviderPayouts>({
+    queryKey: ["/api/reports/provider-payouts", organization?.id, dateRange],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (dateRange?.from) params.set("from", dateRange.from.toISOString());
+      if (dateRange?.to) params.set("to", dateRange.to.toISOString());
+      return apiRequest("GET", `/api/reports/provider-payouts?${params.toString()}`).then(res => res.json());
+    },
+    enabled: !!organization?.id && reportType === "payouts",
+  });
+
   // Mock report data
   const revenueByService = [
     { name: "Facial Treatments", revenue: 15420, appointments: 87, avgValue: 177 },
@@ -181,6 +262,9 @@ export default function Reports() {
             <TabsTrigger value="services" data-testid="tab-services-report">Services</TabsTrigger>
             <TabsTrigger value="staff" data-testid="tab-staff-report">Staff Performance</TabsTrigger>
             <TabsTrigger value="members" data-testid="tab-members-report">Memberships</TabsTrigger>
+            <TabsTrigger value="gift-cards" data-testid="tab-gift-cards-report">Gift Cards</TabsTrigger>
+            <TabsTrigger value="tax" data-testid="tab-tax-report">Sales Tax</TabsTrigger>
+            <TabsTrigger value="payouts" data-testid="tab-payouts-report">Provider Payouts</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview">
@@ -412,6 +496,235 @@ export default function Reports() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="gift-cards">
+            <div className="grid md:grid-cols-3 gap-6 mb-6">
+              <Card>
+                <CardContent className="p-6">
+                  <div className="text-sm text-muted-foreground mb-2">Outstanding Liability</div>
+                  <div className="text-2xl font-bold text-foreground" data-testid="text-gift-card-liability">
+                    ${(giftCardReport?.outstandingLiability || 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Sold minus redeemed, expired and voided</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <div className="text-sm text-muted-foreground mb-2">Active Card Balances</div>
+                  <div className="text-2xl font-bold text-foreground" data-testid="text-gift-card-active-balance">
+                    ${(giftCardReport?.activeCardBalance || 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Across {giftCardReport?.activeCardCount || 0} active cards
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <div className="text-sm text-muted-foreground mb-2">Breakage (All Time)</div>
+                  <div className="text-2xl font-bold text-foreground" data-testid="text-gift-card-breakage">
+                    ${(giftCardReport?.allTime.expired || 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Balances lost to expiry</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle data-testid="text-gift-card-activity-title">Gift Card Activity</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {([
+                    ["Sold", "sold"],
+                    ["Redeemed", "redeemed"],
+                    ["Expired", "expired"],
+                    ["Voided", "voided"],
+                  ] as const).map(([label, key]) => (
+                    <div 
+                      key={key}
+                      className="flex items-center justify-between p-4 border rounded-lg"
+                      data-testid={`gift-card-activity-${key}`}
+                    >
+                      <div className="flex items-center space-x-4">
+                        <Gift className="w-5 h-5 text-primary" />
+                        <div className="font-medium text-foreground">{label}</div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-lg font-bold text-foreground">
+                          ${(giftCardReport?.period[key] || 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          ${(giftCardReport?.allTime[key] || 0).toLocaleString(undefined, { minimumFractionDigits: 2 })} all time
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="tax">
+            <Card className="mb-6">
+              <CardContent className="p-6">
+                <div className="text-sm text-muted-foreground mb-2">Sales Tax Collected</div>
+                <div className="text-2xl font-bold text-foreground" data-testid="text-tax-collected">
+                  ${(taxReport?.taxCollected || 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                </div>
+                <div className="text-xs text-muted-foreground">In the selected period, net of refunds</div>
+              </CardContent>
+            </Card>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle data-testid="text-tax-by-location-title">By Location</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {!taxReport?.byLocation.length ? (
+                    <p className="text-sm text-muted-foreground">No sales tax collected in this period.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {taxReport.byLocation.map(row => (
+                        <div
+                          key={row.locationId}
+                          className="flex items-center justify-between p-4 border rounded-lg"
+                          data-testid={`tax-location-${row.locationId}`}
+                        >
+                          <div className="flex items-center space-x-4">
+                            <MapPin className="w-5 h-5 text-primary" />
+                            <div>
+                              <div className="font-medium text-foreground">{row.locationName}</div>
+                              <div className="text-sm text-muted-foreground">
+                                {row.payments} payments · current rate {row.taxRate}%
+                              </div>
+                            </div>
+                          </div>
+                          <div className="text-lg font-bold text-foreground">
+                            ${row.taxCollected.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle data-testid="text-tax-by-month-title">By Month</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {!taxReport?.byMonth.length ? (
+                    <p className="text-sm text-muted-foreground">No sales tax collected in this period.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {taxReport.byMonth.map(row => (
+                        <div
+                          key={row.month}
+                          className="flex items-center justify-between border-b pb-2"
+                          data-testid={`tax-month-${row.month}`}
+                        >
+                          <span className="text-foreground">
+                            {new Date(`${row.month}-01T00:00:00`).toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+                          </span>
+                          <span className="font-medium">
+                            ${row.taxCollected.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="payouts">
+            <div className="grid md:grid-cols-2 gap-6 mb-6">
+              <Card>
+                <CardContent className="p-6">
+                  <div className="text-sm text-muted-foreground mb-2">Commission Owed</div>
+                  <div className="text-2xl font-bold text-foreground" data-testid="text-payouts-commission">
+                    {formatMoney(payoutReport?.totalCommission || 0)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">On appointments completed in the selected period</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <div className="text-sm text-muted-foreground mb-2">Tips Owed</div>
+                  <div className="text-2xl font-bold text-foreground" data-testid="text-payouts-tips">
+                    {formatMoney(payoutReport?.totalTips || 0)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Paid online and at checkout, in full to the provider</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-6">
+              {!payoutReport?.statements.length ? (
+                <Card>
+                  <CardContent className="p-6">
+                    <p className="text-sm text-muted-foreground">No providers to pay for this period.</p>
+                  </CardContent>
+                </Card>
+              ) : payoutReport.statements.map(statement => (
+                <Card key={statement.staffId} data-testid={`payout-statement-${statement.staffId}`}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <HandCoins className="w-5 h-5 text-primary" />
+                        <div>
+                          <CardTitle className="text-lg">{statement.providerName}</CardTitle>
+                          <div className="text-sm text-muted-foreground">
+                            {statement.appointments} appointments ·{" "}
+                            {statement.commissionType === "flat"
+                              ? `${formatMoney(statement.commissionRate)} per service`
+                              : `${statement.commissionRate}% commission`}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-lg font-bold text-foreground">{formatMoney(statement.totalPayout)}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {formatMoney(statement.commission)} commission
+                          {statement.productCommission > 0 && ` + ${formatMoney(statement.productCommission)} products`}
+                          {` + ${formatMoney(statement.tips)} tips`}
+                        </div>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  {statement.lines.length > 0 && (
+                    <CardContent>
+                      <div className="grid grid-cols-6 gap-2 text-xs font-medium text-muted-foreground border-b pb-2">
+                        <span>Date</span>
+                        <span className="col-span-2">Client · Service</span>
+                        <span className="text-right">Service revenue</span>
+                        <span className="text-right">Commission</span>
+                        <span className="text-right">Tips</span>
+                      </div>
+                      {statement.lines.map(line => (
+                        <div
+                          key={line.appointmentId}
+                          className="grid grid-cols-6 gap-2 text-sm border-b py-2"
+                          data-testid={`payout-line-${line.appointmentId}`}
+                        >
+                          <span>{new Date(line.date).toLocaleDateString()}</span>
+                          <span className="col-span-2 truncate">{line.clientName} · {line.serviceName}</span>
+                          <span className="text-right">{formatMoney(line.serviceRevenue)}</span>
+                          <span className="text-right">{formatMoney(line.commission)}</span>
+                          <span className="text-right">{formatMoney(line.tips)}</span>
+                        </div>
+                      ))}
+                    </CardContent>
+                  )}
+                </Card>
+              ))}
+            </div>
+          </TabsContent>
         </Tabs>
       </div>
   );
@@ -10,14 +10,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganization } from "@/hooks/useOrganization";
 import { usePaymentRequired } from "@/hooks/usePaymentRequired";
 import ClinicNav from "@/components/ClinicNav";
+import PackageManager from "@/components/clinic/PackageManager";
+import IntakeFormBuilder from "@/components/clinic/IntakeFormBuilder";
+import ConsentFormManager from "@/components/clinic/ConsentFormManager";
+import ChartTemplateManager from "@/components/clinic/ChartTemplateManager";
 import LoadingSpinner from "@/components/ui/loading-spinner";
-import { Plus, MoreHorizontal, Edit, Trash2, Clock, DollarSign, Users } from "lucide-react";
+import { Plus, MoreHorizontal, Edit, Trash2, Clock, DollarSign, Users, DoorOpen } from "lucide-react";
 import { apiRequest } from "@/lib/api";
-import type { Service } from "@shared/schema";
+import type { Service, Resource } from "@shared/schema";
 
 interface ServiceFormData {
   name: string;
@@ -29,7 +34,11 @@ interface ServiceFormData {
   depositAmount: string;
   paymentType: "full" | "deposit";
   requiresConsent: boolean;
+  isTaxable: boolean;
   availableStaffIds: string[];
+  requiredResourceIds: string[];
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
 }
 
 export default function Services() {
@@ -52,7 +61,11 @@ export default function Services() {
     depositAmount: "",
     paymentType: "full",
     requiresConsent: false,
-    availableStaffIds: []
+    isTaxable: false,
+    availableStaffIds: [],
+    requiredResourceIds: [],
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0
   });
 
   // Fetch services
@@ -77,6 +90,22 @@ export default function Services() {
     staleTime: 60000,
   });
 
+  // Fetch rooms and equipment for the required resources picker
+  const { data: resources = [] } = useQuery<Resource[]>({
+    queryKey: ["/api/resources"],
+    staleTime: 60000,
+  });
+  const activeResources = resources.filter(r => r.isActive);
+
+  const toggleRequiredResource = (resourceId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      requiredResourceIds: checked
+        ? [...prev.requiredResourceIds, resourceId]
+        : prev.requiredResourceIds.filter(id => id !== resourceId)
+    }));
+  };
+
   // Create service mutation
   const createMutation = useMutation({
     mutationFn: async (data: ServiceFormData) => {
@@ -89,7 +118,8 @@ export default function Services() {
         organizationId: organization.id,
         price: data.price,
         depositAmount: data.depositRequired ? data.depositAmount : null,
-        availableStaffIds: data.availableStaffIds.length > 0 ? data.availableStaffIds : null
+        availableStaffIds: data.availableStaffIds.length > 0 ? data.availableStaffIds : null,
+        requiredResourceIds: data.requiredResourceIds.length > 0 ? data.requiredResourceIds : null
       };
       
       const response = await apiRequest("POST", "/api/services", serviceData);
@@ -122,7 +152,8 @@ export default function Services() {
         ...data,
         price: data.price,
         depositAmount: data.depositRequired ? data.depositAmount : null,
-        availableStaffIds: data.availableStaffIds.length > 0 ? data.availableStaffIds : null
+        availableStaffIds: data.availableStaffIds.length > 0 ? data.availableStaffIds : null,
+        requiredResourceIds: data.requiredResourceIds.length > 0 ? data.requiredResourceIds : null
       };
       const response = await apiRequest("PUT", `/api/services/${id}`, serviceData);
       return response.json();
@@ -182,7 +213,11 @@ export default function Services() {
       depositAmount: "",
       paymentType: "full",
       requiresConsent: false,
-      availableStaffIds: []
+      isTaxable: false,
+      availableStaffIds: [],
+      requiredResourceIds: [],
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 0
     });
   };
 
@@ -198,7 +233,11 @@ export default function Services() {
       depositAmount: service.depositAmount?.toString() || "",
       paymentType: service.paymentType || "full",
       requiresConsent: service.requiresConsent || false,
-      availableStaffIds: Array.isArray(service.availableStaffIds) ? service.availableStaffIds : []
+      isTaxable: service.isTaxable || false,
+      availableStaffIds: Array.isArray(service.availableStaffIds) ? service.availableStaffIds : [],
+      requiredResourceIds: Array.isArray(service.requiredResourceIds) ? service.requiredResourceIds : [],
+      bufferBeforeMinutes: service.bufferBeforeMinutes || 0,
+      bufferAfterMinutes: service.bufferAfterMinutes || 0
     });
   };
 
@@ -316,6 +355,33 @@ export default function Services() {
                   />
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="bufferBefore">Setup buffer (minutes)</Label>
+                    <Input
+                      id="bufferBefore"
+                      type="number"
+                      value={formData.bufferBeforeMinutes}
+                      onChange={(e) => setFormData(prev => ({ ...prev, bufferBeforeMinutes: parseInt(e.target.value) || 0 }))}
+                      min="0"
+                      step="5"
+                      data-testid="input-service-buffer-before"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bufferAfter">Cleanup buffer (minutes)</Label>
+                    <Input
+                      id="bufferAfter"
+                      type="number"
+                      value={formData.bufferAfterMinutes}
+                      onChange={(e) => setFormData(prev => ({ ...prev, bufferAfterMinutes: parseInt(e.target.value) || 0 }))}
+                      min="0"
+                      step="5"
+                      data-testid="input-service-buffer-after"
+                    />
+                  </div>
+                </div>
+
                 <div className="grid grid-cols-3 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="duration">Duration (minutes)</Label>
@@ -415,6 +481,37 @@ export default function Services() {
                     />
                     <Label htmlFor="requiresConsent">Requires consent form</Label>
                   </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="isTaxable"
+                      checked={formData.isTaxable}
+                      onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isTaxable: checked }))}
+                      data-testid="switch-is-taxable"
+                    />
+                    <Label htmlFor="isTaxable">Charge sales tax</Label>
+                  </div>
+
+                  {activeResources.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Required rooms & equipment</Label>
+                      <p className="text-xs text-muted-foreground">
+                        The service can only be booked when every selected resource at the location is free
+                      </p>
+                      <div className="grid grid-cols-2 gap-2">
+                        {activeResources.map(resource => (
+                          <label key={resource.id} className="flex items-center space-x-2 text-sm">
+                            <Checkbox
+                              checked={formData.requiredResourceIds.includes(resource.id)}
+                              onCheckedChange={(checked) => toggleRequiredResource(resource.id, checked === true)}
+                              data-testid={`checkbox-resource-${resource.id}`}
+                            />
+                            <span>{resource.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex justify-end space-x-3">
@@ -546,6 +643,21 @@ export default function Services() {
                         </div>
                       </div>
                       
+                      {Array.isArray(service.requiredResourceIds) && service.requiredResourceIds.length > 0 && (
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-muted-foreground">Requires:</span>
+                          <div className="flex items-center">
+                            <DoorOpen className="w-3 h-3 mr-1" />
+                            <span data-testid={`service-resources-${service.id}`}>
+                              {resources
+                                .filter(r => (service.requiredResourceIds as string[]).includes(r.id))
+                                .map(r => r.name)
+                                .join(", ") || `${service.requiredResourceIds.length} resource(s)`}
+                            </span>
+                          </div>
+                        </div>
+                      )}
+                      
                       {service.requiresConsent && (
                         <Badge variant="outline" className="w-fit" data-testid={`service-consent-${service.id}`}>
                           Consent Required
@@ -558,6 +670,22 @@ export default function Services() {
             </div>
           )}
         </div>
+
+        <div className="mt-8">
+          <PackageManager />
+        </div>
+
+        <div className="mt-8">
+          <IntakeFormBuilder />
+        </div>
+
+        <div className="mt-8">
+          <ConsentFormManager />
+        </div>
+
+        <div className="mt-8">
+          <ChartTemplateManager />
+        </div>
       </div>
     </div>
   );
@@ -12,6 +12,13 @@ import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import Navigation from "@/components/Navigation";
+import ResourceManager from "@/components/clinic/ResourceManager";
+import LocationHoursExceptions from "@/components/clinic/LocationHoursExceptions";
+import CancellationPolicySettings from "@/components/clinic/CancellationPolicySettings";
+import DocumentRetentionSettings from "@/components/clinic/DocumentRetentionSettings";
+import WalletBonusSettings from "@/components/clinic/WalletBonusSettings";
+import GiftCardSettings from "@/components/clinic/GiftCardSettings";
+import TaxSettings from "@/components/clinic/TaxSettings";
 import { useAuth } from "@/hooks/useAuth";
 import { useOrganization } from "@/hooks/useOrganization";
 import { useToast } from "@/hooks/use-toast";
@@ -29,8 +36,19 @@ interface Location {
   businessHours?: {
     [key: string]: { open: string; close: string } | null;
   };
+  slotIntervalMinutes?: number | null;
+  minBookingNoticeMinutes?: number | null;
+  maxBookingDaysAhead?: number | null;
+  waitlistHoldMinutes?: number | null;
 }
 
+type BookingRules = {
+  slotIntervalMinutes: string;
+  minBookingNoticeMinutes: string;
+  maxBookingDaysAhead: string;
+  waitlistHoldMinutes: string;
+};
+
 interface MessageTemplate {
   id: string;
   name: string;
@@ -66,6 +84,14 @@ export default function Settings() {
     sunday: { open: "09:00", close: "18:00", isClosed: true },
   });
 
+  // Online booking rules for the location
+  const [bookingRules, setBookingRules] = useState<BookingRules>({
+    slotIntervalMinutes: "30",
+    minBookingNoticeMinutes: "0",
+    maxBookingDaysAhead: "",
+    waitlistHoldMinutes: "60",
+  });
+
   // Fetch locations
   const { data: locations, isLoading: locationsLoading } = useQuery<Location[]>({
     queryKey: ["/api/locations"],
@@ -96,6 +122,14 @@ export default function Settings() {
       
       setBusinessHours(updatedHours);
     }
+    if (primaryLocation) {
+      setBookingRules({
+        slotIntervalMinutes: String(primaryLocation.slotIntervalMinutes ?? 30),
+        minBookingNoticeMinutes: String(primaryLocation.minBookingNoticeMinutes ?? 0),
+        maxBookingDaysAhead: primaryLocation.maxBookingDaysAhead ? String(primaryLocation.maxBookingDaysAhead) : "",
+        waitlistHoldMinutes: String(primaryLocation.waitlistHoldMinutes ?? 60),
+      });
+    }
   }, [primaryLocation]);
 
   // Fetch message templates
@@ -162,7 +196,13 @@ export default function Settings() {
       const response = await apiRequest(
         "PUT",
         `/api/locations/${primaryLocation.id}`,
-        { businessHours: formattedHours }
+        {
+          businessHours: formattedHours,
+          slotIntervalMinutes: parseInt(bookingRules.slotIntervalMinutes) || 30,
+          minBookingNoticeMinutes: parseInt(bookingRules.minBookingNoticeMinutes) || 0,
+          maxBookingDaysAhead: bookingRules.maxBookingDaysAhead ? parseInt(bookingRules.maxBookingDaysAhead) : null,
+          waitlistHoldMinutes: parseInt(bookingRules.waitlistHoldMinutes) || 60,
+        }
       );
       if (!response.ok) throw new Error("Failed to save business hours");
       return response.json();
@@ -350,6 +390,54 @@ export default function Settings() {
                         </div>
                       );
                     })}
+                    <div className="pt-4 border-t grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="slot-interval">Slot interval (minutes)</Label>
+                        <Input
+                          id="slot-interval"
+                          type="number"
+                          min={5}
+                          step={5}
+                          value={bookingRules.slotIntervalMinutes}
+                          onChange={(e) => setBookingRules(prev => ({ ...prev, slotIntervalMinutes: e.target.value }))}
+                          data-testid="input-slot-interval"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="min-notice">Minimum notice (minutes)</Label>
+                        <Input
+                          id="min-notice"
+                          type="number"
+                          min={0}
+                          value={bookingRules.minBookingNoticeMinutes}
+                          onChange={(e) => setBookingRules(prev => ({ ...prev, minBookingNoticeMinutes: e.target.value }))}
+                          data-testid="input-min-notice"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="max-days-ahead">Book up to (days ahead)</Label>
+                        <Input
+                          id="max-days-ahead"
+                          type="number"
+                          min={1}
+                          placeholder="No limit"
+                          value={bookingRules.maxBookingDaysAhead}
+                          onChange={(e) => setBookingRules(prev => ({ ...prev, maxBookingDaysAhead: e.target.value }))}
+                          data-testid="input-max-days-ahead"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="waitlist-hold">Waitlist hold (minutes)</Label>
+                        <Input
+                          id="waitlist-hold"
+                          type="number"
+                          min={5}
+                          value={bookingRules.waitlistHoldMinutes}
+                          onChange={(e) => setBookingRules(prev => ({ ...prev, waitlistHoldMinutes: e.target.value }))}
+                          data-testid="input-waitlist-hold"
+                        />
+                      </div>
+                    </div>
                     <div className="pt-4 border-t">
                       <Button
                         onClick={() => saveBusinessHoursMutation.mutate()}
@@ -364,6 +452,16 @@ export default function Settings() {
                 )}
               </CardContent>
             </Card>
+
+            <LocationHoursExceptions />
+
+            <CancellationPolicySettings />
+            <WalletBonusSettings />
+            <GiftCardSettings />
+            <TaxSettings />
+            <DocumentRetentionSettings />
+
+            <ResourceManager />
           </TabsContent>
 
           <TabsContent value="templates" className="space-y-6">
@@ -8,7 +8,7 @@ import ClinicNav from "@/components/ClinicNav";
 import { useOrganization } from "@/hooks/useOrganization";
 import { useToast } from "@/hooks/use-toast";
 import LoadingSpinner from "@/components/ui/loading-spinner";
-import { Copy, Download, ExternalLink, Share2, QrCode } from "lucide-react";
+import { Copy, Download, ExternalLink, Share2, QrCode, Gift } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import type { Location } from "@shared/schema";
 
@@ -35,6 +35,7 @@ export default function ShareLink() {
   const bookingUrl = selectedLocation 
     ? `${window.location.origin}/c/${selectedLocation.slug}`
     : `${window.location.origin}/c/${organization?.slug}`;
+  const giftCardUrl = `${bookingUrl}/gift-cards`;
 
   const copyToClipboard = async () => {
     try {
@@ -52,6 +53,22 @@ export default function ShareLink() {
     }
   };
 
+  const copyGiftCardLink = async () => {
+    try {
+      await navigator.clipboard.writeText(giftCardUrl);
+      toast({
+        title: "Link copied!",
+        description: "Your gift card link has been copied to clipboard",
+      });
+    } catch (err) {
+      toast({
+        title: "Failed to copy",
+        description: "Please copy the link manually",
+        variant: "destructive",
+      });
+    }
+  };
+
   const downloadQRCode = () => {
     const svg = document.getElementById("qr-code");
     if (!svg) return;
@@ -178,6 +195,45 @@ export default function ShareLink() {
             </CardContent>
           </Card>
 
+          {/* Gift Card Link Card */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gift className="h-5 w-5" />
+                Gift Card Link
+              </CardTitle>
+              <CardDescription>
+                Anyone can buy a gift card from this page, no account needed. The code is emailed as soon as payment clears.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex gap-2">
+                <Input
+                  value={giftCardUrl}
+                  readOnly
+                  className="font-mono text-sm"
+                  data-testid="input-gift-card-url"
+                />
+                <Button
+                  onClick={copyGiftCardLink}
+                  variant="outline"
+                  size="icon"
+                  data-testid="button-copy-gift-card-link"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  onClick={() => window.open(giftCardUrl, "_blank", "noopener,noreferrer")}
+                  variant="outline"
+                  size="icon"
+                  data-testid="button-preview-gift-card-link"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* QR Code Card */}
           <Card>
             <CardHeader>
@@ -405,12 +405,20 @@ export default function StaffPage() {
                         <div className="space-y-4">
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Commission Rate:</span>
-                            <span className="font-medium">{selectedStaff.commissionRate || 0}%</span>
+                            <span className="font-medium">
+                              {selectedStaff.commissionType === "flat"
+                                ? `$${selectedStaff.commissionRate || 0} per service`
+                                : `${selectedStaff.commissionRate || 0}%`}
+                            </span>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Commission Type:</span>
                             <span className="font-medium capitalize">{selectedStaff.commissionType || "percentage"}</span>
                           </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Product Commission:</span>
+                            <span className="font-medium">{selectedStaff.productCommissionRate || 0}%</span>
+                          </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Hourly Rate:</span>
                             <span className="font-medium">${selectedStaff.hourlyRate || "0.00"}/hour</span>
@@ -29,12 +29,18 @@ import { apiRequest } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Shield, Plus, Edit2, Trash2, AlertCircle, Settings, 
-  Calendar, Users, CreditCard, Scissors, Mail, Copy 
+  Calendar, Users, CreditCard, Scissors, Mail, Copy, Crown, Gift, BarChart3, ShoppingBag, Stethoscope 
 } from "lucide-react";
 import type { StaffRole } from "@/types";
+import {
+  PERMISSION_CATALOG,
+  normalizePermissions,
+  type PermissionCategory as PermissionCategoryKey,
+  type PermissionKey,
+} from "@shared/schema";
 
 interface Permission {
-  key: string;
+  key: PermissionKey;
   label: string;
   description: string;
 }
@@ -45,70 +51,34 @@ interface PermissionCategory {
   permissions: Permission[];
 }
 
-const permissionCategories: PermissionCategory[] = [
-  {
-    name: "Appointments",
-    icon: <Calendar className="w-4 h-4" />,
-    permissions: [
-      { key: "appointments.view", label: "View Appointments", description: "Can view appointment calendar" },
-      { key: "appointments.create", label: "Create Appointments", description: "Can book new appointments" },
-      { key: "appointments.edit", label: "Edit Appointments", description: "Can modify existing appointments" },
-      { key: "appointments.cancel", label: "Cancel Appointments", description: "Can cancel appointments" },
-    ],
-  },
-  {
-    name: "Clients",
-    icon: <Users className="w-4 h-4" />,
-    permissions: [
-      { key: "clients.view", label: "View Clients", description: "Can view client information" },
-      { key: "clients.create", label: "Create Clients", description: "Can add new clients" },
-      { key: "clients.edit", label: "Edit Clients", description: "Can modify client information" },
-      { key: "clients.delete", label: "Delete Clients", description: "Can remove clients from system" },
-    ],
-  },
-  {
-    name: "Payments",
-    icon: <CreditCard className="w-4 h-4" />,
-    permissions: [
-      { key: "payments.process", label: "Process Payments", description: "Can process transactions" },
-      { key: "payments.refund", label: "Issue Refunds", description: "Can refund payments" },
-      { key: "payments.viewReports", label: "View Reports", description: "Can access financial reports" },
-      { key: "payments.editPricing", label: "Edit Pricing", description: "Can modify service prices" },
-    ],
-  },
-  {
-    name: "Services",
-    icon: <Scissors className="w-4 h-4" />,
-    permissions: [
-      { key: "services.view", label: "View Services", description: "Can view service menu" },
-      { key: "services.create", label: "Create Services", description: "Can add new services" },
-      { key: "services.edit", label: "Edit Services", description: "Can modify service details" },
-      { key: "services.setPricing", label: "Set Pricing", description: "Can set service prices" },
-    ],
-  },
-  {
-    name: "Marketing",
-    icon: <Mail className="w-4 h-4" />,
-    permissions: [
-      { key: "marketing.sendCampaigns", label: "Send Campaigns", description: "Can send marketing emails/SMS" },
-      { key: "marketing.viewAnalytics", label: "View Analytics", description: "Can access marketing analytics" },
-      { key: "marketing.manageTemplates", label: "Manage Templates", description: "Can create/edit templates" },
-      { key: "marketing.exportData", label: "Export Data", description: "Can export client data" },
-    ],
-  },
-  {
-    name: "Settings",
-    icon: <Settings className="w-4 h-4" />,
-    permissions: [
-      { key: "settings.view", label: "View Settings", description: "Can view clinic settings" },
-      { key: "settings.edit", label: "Edit Settings", description: "Can modify clinic settings" },
-      { key: "settings.manageStaff", label: "Manage Staff", description: "Can manage staff accounts" },
-      { key: "settings.manageRoles", label: "Manage Roles", description: "Can create/edit roles" },
-    ],
-  },
-];
+const categoryIcons: Record<PermissionCategoryKey, React.ReactNode> = {
+  appointments: <Calendar className="w-4 h-4" />,
+  clients: <Users className="w-4 h-4" />,
+  charts: <Stethoscope className="w-4 h-4" />,
+  payments: <CreditCard className="w-4 h-4" />,
+  services: <Scissors className="w-4 h-4" />,
+  memberships: <Crown className="w-4 h-4" />,
+  products: <ShoppingBag className="w-4 h-4" />,
+  rewards: <Gift className="w-4 h-4" />,
+  marketing: <Mail className="w-4 h-4" />,
+  reports: <BarChart3 className="w-4 h-4" />,
+  settings: <Settings className="w-4 h-4" />,
+};
+
+// Rendered from the shared catalog so the checkboxes match what the API enforces
+const permissionCategories: PermissionCategory[] = (
+  Object.entries(PERMISSION_CATALOG) as [PermissionCategoryKey, typeof PERMISSION_CATALOG[PermissionCategoryKey]][]
+).map(([category, { label, permissions }]) => ({
+  name: label,
+  icon: categoryIcons[category],
+  permissions: Object.entries(permissions).map(([action, permission]) => ({
+    key: `${category}.${action}` as PermissionKey,
+    label: permission.label,
+    description: permission.description,
+  })),
+}));
 
-const defaultRoleTemplates = [
+const defaultRoleTemplates: { name: string; description: string; permissions: Partial<Record<PermissionKey, boolean>> }[] = [
   {
     name: "Manager",
     description: "Full access to all features except financial settings",
@@ -121,9 +91,16 @@ const defaultRoleTemplates = [
       "clients.create": true,
       "clients.edit": true,
       "payments.process": true,
-      "payments.viewReports": true,
+      "reports.view": true,
       "services.view": true,
       "services.edit": true,
+      "memberships.view": true,
+      "memberships.manage": true,
+      "products.view": true,
+      "products.manage": true,
+      "products.receive": true,
+      "rewards.view": true,
+      "rewards.manage": true,
       "marketing.sendCampaigns": true,
       "marketing.viewAnalytics": true,
       "settings.view": true,
@@ -138,6 +115,8 @@ const defaultRoleTemplates = [
       "appointments.create": true,
       "appointments.edit": true,
       "clients.view": true,
+      "charts.view": true,
+      "charts.write": true,
       "services.view": true,
     },
   },
@@ -309,13 +288,13 @@ export default function StaffRolesPage() {
   const handleEditRole = (role: StaffRole) => {
     setSelectedRole(role);
     setEditRoleName(role.name);
-    setEditRolePermissions(role.permissions as Record<string, boolean> || {});
+    setEditRolePermissions(normalizePermissions(role.permissions));
     setIsEditDialogOpen(true);
   };
 
   const handleApplyTemplate = (template: typeof defaultRoleTemplates[0]) => {
     setNewRoleName(template.name);
-    setNewRolePermissions(template.permissions);
+    setNewRolePermissions({ ...template.permissions });
     toast({
       title: "Template applied",
       description: `"${template.name}" template has been applied. You can customize it further.`,
@@ -538,11 +517,11 @@ export default function StaffRolesPage() {
                         <Shield className="w-4 h-4 text-primary" />
                         <h3 className="font-medium">{role.name}</h3>
                         <Badge variant="secondary">
-                          {getPermissionCount(role.permissions as Record<string, boolean> || {})} permissions
+                          {getPermissionCount(normalizePermissions(role.permissions))} permissions
                         </Badge>
                       </div>
                       <div className="mt-2 flex flex-wrap gap-1">
-                        {Object.entries(role.permissions as Record<string, boolean> || {})
+                        {Object.entries(normalizePermissions(role.permissions))
                           .filter(([_, hasPermission]) => hasPermission)
                           .slice(0, 5)
                           .map(([key]) => (
@@ -550,10 +529,10 @@ export default function StaffRolesPage() {
                               {key.split('.')[1]}
                             </Badge>
                           ))}
-                        {Object.entries(role.permissions as Record<string, boolean> || {})
+                        {Object.entries(normalizePermissions(role.permissions))
                           .filter(([_, hasPermission]) => hasPermission).length > 5 && (
                           <Badge variant="outline" className="text-xs">
-                            +{Object.entries(role.permissions as Record<string, boolean> || {})
+                            +{Object.entries(normalizePermissions(role.permissions))
                               .filter(([_, hasPermission]) => hasPermission).length - 5} more
                           </Badge>
                         )}
@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,11 +6,13 @@ import { Badge } from "@/components/ui/badge";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import Navigation from "@/components/Navigation";
 import AppointmentDetailsDialog from "@/components/AppointmentDetailsDialog";
-import { Calendar, CalendarPlus, Clock, User, MapPin, Phone } from "lucide-react";
+import RescheduleAppointmentDialog from "@/components/RescheduleAppointmentDialog";
+import RedeemGiftCardDialog from "@/components/RedeemGiftCardDialog";
+import { Calendar, CalendarPlus, CalendarClock, Clock, User, MapPin, Phone, Gift, Receipt } from "lucide-react";
 import type { Appointment, Client } from "@/types";
 import { useState } from "react";
 
-const formatTimeInTimezone = (dateString: string, timezone: string = 'America/New_York') => {
+const formatTimeInTimezone = (dateString: string | Date, timezone: string = 'America/New_York') => {
   const date = new Date(dateString);
   return date.toLocaleTimeString('en-US', { 
     timeZone: timezone,
@@ -20,7 +22,7 @@ const formatTimeInTimezone = (dateString: string, timezone: string = 'America/Ne
   });
 };
 
-const formatDateInTimezone = (dateString: string, timezone: string = 'America/New_York', options: Intl.DateTimeFormatOptions = {}) => {
+const formatDateInTimezone = (dateString: string | Date, timezone: string = 'America/New_York', options: Intl.DateTimeFormatOptions = {}) => {
   const date = new Date(dateString);
   return date.toLocaleDateString('en-US', { 
     timeZone: timezone,
@@ -30,7 +32,10 @@ const formatDateInTimezone = (dateString: string, timezone: string = 'America/Ne
 
 export default function PatientAppointments() {
   const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
+  const [rescheduleDialogOpen, setRescheduleDialogOpen] = useState(false);
+  const [giftCardDialogOpen, setGiftCardDialogOpen] = useState(false);
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
 
   const { data: client, isLoading: clientLoading } = useQuery<Client>({
@@ -43,6 +48,11 @@ export default function PatientAppointments() {
     staleTime: 30000,
   });
 
+  const { data: pastAppointments = [], isLoading: pastLoading } = useQuery<Appointment[]>({
+    queryKey: ["/api/appointments/past"],
+    staleTime: 30000,
+  });
+
   const { data: organization } = useQuery<any>({
     queryKey: ["/api/organizations", client?.organizationId],
     queryFn: async () => {
@@ -57,7 +67,44 @@ export default function PatientAppointments() {
     staleTime: 5 * 60000,
   });
 
-  const isLoading = clientLoading || appointmentsLoading;
+  const { data: bookingRules } = useQuery<{ rescheduleCutoffHours: number }>({
+    queryKey: ["/api/cancellation-policy"],
+    staleTime: 5 * 60000,
+  });
+
+  // Online rescheduling closes a set number of hours before the appointment
+  const canReschedule = (appointment: Appointment) => {
+    const { status, startTime } = appointment as Appointment & { status: string | null; startTime: string };
+    return ['pending', 'scheduled', 'confirmed'].includes(status || '') &&
+      new Date(startTime).getTime() - Date.now() >= (bookingRules?.rescheduleCutoffHours ?? 24) * 60 * 60 * 1000;
+  };
+
+  // Unpaid part of the visit that a gift card can still cover
+  const getAmountDue = (appointment: Appointment) => {
+    const { totalAmount, depositPaid, giftCardPaid } = appointment as Appointment &
+      { totalAmount: string | null; depositPaid: string | null; giftCardPaid: string | null };
+    return Math.round((Number(totalAmount || 0) - Number(depositPaid || 0) - Number(giftCardPaid || 0)) * 100) / 100;
+  };
+
+  // A receipt (or an invoice for the unpaid part) is available once anything has been paid
+  const hasPayments = (appointment: Appointment) => {
+    const { depositPaid, giftCardPaid } = appointment as Appointment & { depositPaid: string | null; giftCardPaid: string | null };
+    return Number(depositPaid || 0) + Number(giftCardPaid || 0) > 0;
+  };
+
+  const receiptButton = (appointment: Appointment) => {
+    const { id } = appointment as Appointment & { id: string };
+    return (
+      <Button variant="outline" size="sm" asChild data-testid={`button-download-receipt-${id}`}>
+        <a href={`/api/appointments/${id}/receipt.pdf`} download>
+          <Receipt className="w-4 h-4 mr-2" />
+          Receipt
+        </a>
+      </Button>
+    );
+  };
+
+  const isLoading = clientLoading || appointmentsLoading || pastLoading;
 
   if (isLoading) {
     return (
@@ -196,6 +243,35 @@ export default function PatientAppointments() {
                         >
                           View Details
                         </Button>
+                        {canReschedule(appointment) && (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => {
+                              setSelectedAppointment(appointment);
+                              setRescheduleDialogOpen(true);
+                            }}
+                            data-testid={`button-reschedule-${appointment.id}`}
+                          >
+                            <CalendarClock className="w-4 h-4 mr-2" />
+                            Reschedule
+                          </Button>
+                        )}
+                        {getAmountDue(appointment) > 0 && (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => {
+                              setSelectedAppointment(appointment);
+                              setGiftCardDialogOpen(true);
+                            }}
+                            data-testid={`button-apply-gift-card-${(appointment as Appointment & { id: string }).id}`}
+                          >
+                            <Gift className="w-4 h-4 mr-2" />
+                            Apply Gift Card
+                          </Button>
+                        )}
+                        {hasPayments(appointment) && receiptButton(appointment)}
                         {organization?.phone && (
                           <Button 
                             variant="default" 
@@ -221,12 +297,52 @@ export default function PatientAppointments() {
               <CardTitle data-testid="text-past-section-title">Past Appointments</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-center py-8">
-                <Clock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-muted-foreground" data-testid="text-no-past-appointments">
-                  No past appointments yet
-                </p>
-              </div>
+              {pastAppointments.length === 0 ? (
+                <div className="text-center py-8">
+                  <Clock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground" data-testid="text-no-past-appointments">
+                    No past appointments yet
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {pastAppointments.map((appointment) => {
+                    const past = appointment as Appointment & {
+                      id: string;
+                      startTime: string;
+                      status: string | null;
+                      timezone?: string;
+                      serviceName?: string;
+                      staffName?: string;
+                    };
+                    return (
+                      <div
+                        key={past.id}
+                        className="flex items-center justify-between border rounded-lg p-4"
+                        data-testid={`past-appointment-${past.id}`}
+                      >
+                        <div>
+                          <div className="font-medium text-foreground">{past.serviceName || 'Service'}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {formatDateInTimezone(past.startTime, past.timezone || 'America/New_York', {
+                              year: 'numeric',
+                              month: 'short',
+                              day: 'numeric'
+                            })}
+                            {' · '}{past.staffName || 'Provider'}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <Badge variant="outline">
+                            {past.status ? past.status.charAt(0).toUpperCase() + past.status.slice(1).replace('_', ' ') : 'Pending'}
+                          </Badge>
+                          {hasPayments(appointment) && receiptButton(appointment)}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -237,6 +353,20 @@ export default function PatientAppointments() {
         open={detailsDialogOpen}
         onOpenChange={setDetailsDialogOpen}
       />
+
+      <RescheduleAppointmentDialog
+        appointment={selectedAppointment}
+        open={rescheduleDialogOpen}
+        onOpenChange={setRescheduleDialogOpen}
+      />
+
+      <RedeemGiftCardDialog
+        target={selectedAppointment ? { appointmentId: (selectedAppointment as Appointment & { id: string }).id } : null}
+        amountDue={selectedAppointment ? getAmountDue(selectedAppointment) : 0}
+        open={giftCardDialogOpen}
+        onOpenChange={setGiftCardDialogOpen}
+        onRedeemed={() => queryClient.invalidateQueries({ queryKey: ["/api/appointments/upcoming"] })}
+      />
     </div>
   );
 }
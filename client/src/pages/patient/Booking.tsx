@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
+import { format, addDays } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -15,11 +16,13 @@ import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { BookingWithPayment } from "@/components/BookingWithPayment";
+import WaitlistOffers from "@/components/WaitlistOffers";
 import { 
   Calendar as CalendarIcon, Clock, User, MapPin, CreditCard,
   ChevronRight, Check, ArrowLeft, Star, DollarSign
 } from "lucide-react";
-import type { Service, Staff, Location, BookingAvailability } from "@/types";
+import { describeCancellationPolicy } from "@shared/schema";
+import type { Service, Staff, Location, BookingAvailability, LocationHoursException, CancellationPolicy } from "@/types";
 
 interface BookingStep {
   id: string;
@@ -51,6 +54,8 @@ export default function Booking() {
   // Payment type is determined by the service configuration, not user choice
   const [notes, setNotes] = useState("");
   const [showPaymentFlow, setShowPaymentFlow] = useState(false);
+  const [waitlistDays, setWaitlistDays] = useState("0");
+  const [waitlistAnyProvider, setWaitlistAnyProvider] = useState(false);
 
   const { data: locations } = useQuery<Location[]>({
     queryKey: ["/api/locations"],
@@ -97,13 +102,26 @@ export default function Booking() {
     staleTime: 5 * 60000,
   });
 
+  // The clinic's cancellation policy, shown before payment
+  const { data: cancellationPolicy } = useQuery<{ policy: CancellationPolicy | null }>({
+    queryKey: ["/api/cancellation-policy"],
+  });
+
+  // Holiday closures for the chosen location, so those dates can't be picked
+  const { data: hoursExceptions = [] } = useQuery<LocationHoursException[]>({
+    queryKey: ["/api/locations", selectedLocation, "hours-exceptions"],
+    enabled: !!selectedLocation,
+  });
+  const closedDates = new Set(hoursExceptions.filter(e => e.isClosed).map(e => e.date));
+
   const { data: availability } = useQuery<BookingAvailability>({
-    queryKey: ["/api/availability", selectedProvider?.id, selectedDate?.toISOString(), selectedLocation],
+    queryKey: ["/api/availability", selectedProvider?.id, selectedDate?.toISOString(), selectedLocation, selectedService?.id],
     queryFn: () => {
       const params = new URLSearchParams({
         date: selectedDate!.toISOString(),
         locationId: selectedLocation
       });
+      if (selectedService?.id) params.append('serviceId', selectedService.id);
       return apiRequest("GET", `/api/availability/${selectedProvider!.id}?${params.toString()}`).then(res => res.json());
     },
     enabled: !!selectedProvider && !!selectedDate && !!selectedLocation,
@@ -111,6 +129,33 @@ export default function Booking() {
     gcTime: 0, // Don't cache results
   });
 
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/waitlist", {
+        locationId: selectedLocation,
+        serviceId: selectedService!.id,
+        staffId: waitlistAnyProvider ? null : selectedProvider?.id,
+        earliestDate: format(selectedDate!, "yyyy-MM-dd"),
+        latestDate: format(addDays(selectedDate!, parseInt(waitlistDays)), "yyyy-MM-dd"),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+      toast({
+        title: "You're on the waitlist",
+        description: "We'll text and email you if an appointment opens up.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not join waitlist",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const bookAppointmentMutation = useMutation({
     mutationFn: async (bookingData: any) => {
       const response = await apiRequest("POST", "/api/appointments", bookingData);
@@ -321,7 +366,7 @@ export default function Booking() {
                     today.setHours(0, 0, 0, 0);
                     const checkDate = new Date(date);
                     checkDate.setHours(0, 0, 0, 0);
-                    return checkDate < today;
+                    return checkDate < today || closedDates.has(format(checkDate, "yyyy-MM-dd"));
                   }}
                   className="rounded-md border"
                   data-testid="calendar-date-picker"
@@ -358,9 +403,13 @@ export default function Booking() {
                     ) : (
                       <div className="p-4 border rounded-lg bg-muted/30 text-center">
                         <Clock className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
-                        <p className="text-sm font-medium">No appointments available</p>
+                        <p className="text-sm font-medium">
+                          {availability.closed ? "Clinic closed" : "No appointments available"}
+                        </p>
                         <p className="text-xs text-muted-foreground mt-1">
-                          This day is fully booked or unavailable. Please select another date.
+                          {availability.closed
+                            ? `${availability.closedReason ? `${availability.closedReason}. ` : ""}Please select another date.`
+                            : "This day is fully booked or unavailable. Please select another date."}
                         </p>
                       </div>
                     )
@@ -369,6 +418,48 @@ export default function Booking() {
                       <LoadingSpinner />
                     </div>
                   )}
+                  {user && selectedService && availability && !availability.closed && (
+                    <div className="mt-4 p-4 border rounded-lg space-y-3" data-testid="waitlist-join">
+                      <p className="text-sm font-medium">Can't find a time that works?</p>
+                      <p className="text-xs text-muted-foreground">
+                        Join the waitlist and we'll offer you the first opening that matches.
+                      </p>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Select value={waitlistDays} onValueChange={setWaitlistDays}>
+                          <SelectTrigger data-testid="select-waitlist-range">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="0">This day only</SelectItem>
+                            <SelectItem value="3">Within 3 days</SelectItem>
+                            <SelectItem value="7">Within a week</SelectItem>
+                            <SelectItem value="14">Within 2 weeks</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={waitlistAnyProvider ? "any" : "selected"}
+                          onValueChange={(value) => setWaitlistAnyProvider(value === "any")}
+                        >
+                          <SelectTrigger data-testid="select-waitlist-provider">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="selected">This provider</SelectItem>
+                            <SelectItem value="any">Any provider</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => joinWaitlistMutation.mutate()}
+                        disabled={joinWaitlistMutation.isPending}
+                        data-testid="button-join-waitlist"
+                      >
+                        {joinWaitlistMutation.isPending ? "Joining..." : "Join Waitlist"}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -496,6 +587,15 @@ export default function Booking() {
               </CardContent>
             </Card>
 
+            {cancellationPolicy?.policy && (
+              <div className="p-4 border rounded-lg space-y-1" data-testid="text-cancellation-policy">
+                <p className="text-sm font-medium">Cancellation Policy</p>
+                {describeCancellationPolicy(cancellationPolicy.policy).map(line => (
+                  <p key={line} className="text-xs text-muted-foreground">{line}</p>
+                ))}
+              </div>
+            )}
+
             {/* Notes */}
             <div className="space-y-2">
               <Label htmlFor="notes">Special Requests (Optional)</Label>
@@ -541,6 +641,8 @@ export default function Booking() {
           <p className="text-muted-foreground">Schedule your next beauty and wellness experience</p>
         </div>
 
+        {user && <WaitlistOffers />}
+
         {/* Progress Steps */}
         <Card className="mb-8">
           <CardContent className="p-6">
@@ -16,12 +16,12 @@ import { CancelMembershipDialog } from "@/components/CancelMembershipDialog";
 import AppointmentDetailsDialog from "@/components/AppointmentDetailsDialog";
 import { 
   Calendar, Crown, Gift, Wallet, Clock, Star, MessageCircle,
-  CalendarPlus, Settings, Bell, CreditCard, Send, Phone
+  CalendarPlus, Settings, Bell, CreditCard, Send, Phone, Package, ClipboardList
 } from "lucide-react";
-import type { Appointment, Membership, Reward, Client, ChatMessage } from "@/types";
+import type { Appointment, Membership, Reward, Client, ChatMessage, ClientPackage, IntakeSubmission, ConsentForm } from "@/types";
 
 // Helper function to format time in clinic's timezone
-const formatTimeInTimezone = (dateString: string, timezone: string = 'America/New_York') => {
+const formatTimeInTimezone = (dateString: string | Date, timezone: string = 'America/New_York') => {
   const date = new Date(dateString);
   return date.toLocaleTimeString('en-US', { 
     timeZone: timezone,
@@ -31,7 +31,7 @@ const formatTimeInTimezone = (dateString: string, timezone: string = 'America/Ne
   });
 };
 
-const formatDateInTimezone = (dateString: string, timezone: string = 'America/New_York', options: Intl.DateTimeFormatOptions = {}) => {
+const formatDateInTimezone = (dateString: string | Date, timezone: string = 'America/New_York', options: Intl.DateTimeFormatOptions = {}) => {
   const date = new Date(dateString);
   return date.toLocaleDateString('en-US', { 
     timeZone: timezone,
@@ -79,6 +79,21 @@ export default function PatientDashboard() {
     staleTime: 60000,
   });
 
+  const { data: packages = [] } = useQuery<ClientPackage[]>({
+    queryKey: ["/api/packages/my-packages"],
+    staleTime: 60000,
+  });
+
+  const { data: intakeForms = [] } = useQuery<IntakeSubmission[]>({
+    queryKey: ["/api/intake/my-forms"],
+    staleTime: 60000,
+  });
+
+  const { data: pendingConsents = [] } = useQuery<{ appointmentId: string; forms: ConsentForm[] }[]>({
+    queryKey: ["/api/consents/pending"],
+    staleTime: 60000,
+  });
+
   // Fetch services and membership tiers for chat context
   const { data: services } = useQuery<any[]>({
     queryKey: ["/api/services"],
@@ -206,6 +221,12 @@ export default function PatientDashboard() {
   const nextAppointment = upcomingAppointments?.[0];
   const rewardBalance = rewards?.balance || 0;
   const walletBalance = wallet?.balance || 0;
+  const activePackages = packages.filter(p =>
+    p.status === "active" && (!p.expiresAt || new Date(p.expiresAt) > new Date())
+  );
+  const pendingForms = intakeForms.filter(f => f.status === "pending");
+  const unsignedConsents = pendingConsents.flatMap(p => p.forms);
+  const formsToDo = pendingForms.length + unsignedConsents.length;
 
   return (
     <div className="min-h-screen bg-background">
@@ -401,14 +422,91 @@ export default function PatientDashboard() {
                 <Wallet className="w-6 h-6 text-primary" />
               </div>
               <div className="text-2xl font-bold text-primary mb-1" data-testid="text-wallet-balance">
-                ${walletBalance}
+                ${walletBalance.toFixed(2)}
               </div>
               <div className="text-sm text-muted-foreground">Wallet Balance</div>
-              <div className="text-xs text-blue-500 mt-1">Ready to use</div>
+              <Button
+                variant="link"
+                size="sm"
+                className="text-xs text-blue-500 mt-1 h-auto p-0"
+                onClick={() => setLocation("/patient/wallet")}
+                data-testid="button-open-wallet"
+              >
+                Add funds
+              </Button>
             </CardContent>
           </Card>
         </div>
 
+        {/* Forms the clinic needs before the next visit */}
+        {formsToDo > 0 && (
+          <Card className="mb-8 border-primary/40" data-testid="card-pending-forms">
+            <CardContent className="p-6 flex items-center justify-between gap-4">
+              <div className="flex items-center space-x-3">
+                <ClipboardList className="w-5 h-5 text-primary" />
+                <div>
+                  <div className="font-medium">
+                    {formsToDo === 1 ? "1 form" : `${formsToDo} forms`} to complete before your visit
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {pendingForms.map(f => f.formName).concat(unsignedConsents.map(f => f.name)).join(", ")}
+                  </div>
+                </div>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => setLocation(formsToDo === 1 && pendingForms.length === 1 ? `/patient/forms/${pendingForms[0].id}` : "/patient/forms")}
+                data-testid="button-complete-forms"
+              >
+                Complete Forms
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Treatment Packages */}
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center space-x-2" data-testid="text-packages-title">
+                <Package className="w-5 h-5" />
+                <span>Treatment Packages</span>
+              </CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLocation("/patient/packages")}
+                data-testid="button-open-packages"
+              >
+                {activePackages.length > 0 ? "View All" : "Browse Packages"}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {activePackages.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-packages">
+                Prepay for a series of sessions and save. Sessions are used automatically as you complete visits.
+              </p>
+            ) : (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {activePackages.map(clientPackage => (
+                  <div key={clientPackage.id} className="p-4 border rounded-lg" data-testid={`package-item-${clientPackage.id}`}>
+                    <div className="font-medium text-foreground">{clientPackage.name}</div>
+                    <div className="text-2xl font-bold text-primary" data-testid={`text-package-sessions-${clientPackage.id}`}>
+                      {clientPackage.sessionsRemaining} <span className="text-sm font-normal text-muted-foreground">of {clientPackage.sessionsTotal} sessions left</span>
+                    </div>
+                    {clientPackage.expiresAt && (
+                      <div className="text-xs text-muted-foreground">
+                        Use by {new Date(clientPackage.expiresAt).toLocaleDateString()}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Main Content - Responsive Tabs */}
         <Tabs defaultValue="overview" className="space-y-6">
           <div className="overflow-x-auto -mx-6 px-6 scrollbar-hide">
@@ -495,7 +593,7 @@ export default function PatientDashboard() {
                             className={
                               appointment.status === 'confirmed' ? 'bg-green-100 text-green-800' :
                               appointment.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                              appointment.status === 'cancelled' ? 'bg-red-100 text-red-800' :
+                              appointment.status === 'canceled' ? 'bg-red-100 text-red-800' :
                               'bg-blue-100 text-blue-800'
                             }
                           >
@@ -629,7 +727,7 @@ export default function PatientDashboard() {
                             className={
                               appointment.status === 'confirmed' ? 'bg-green-100 text-green-800' :
                               appointment.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                              appointment.status === 'cancelled' ? 'bg-red-100 text-red-800' :
+                              appointment.status === 'canceled' ? 'bg-red-100 text-red-800' :
                               'bg-blue-100 text-blue-800'
                             }
                           >
@@ -671,9 +769,9 @@ export default function PatientDashboard() {
                       </div>
                       <div className="grid grid-cols-2 gap-4 text-sm mb-4">
                         <div>
-                          <div className="text-primary-foreground/80">Monthly Credits</div>
+                          <div className="text-primary-foreground/80">Credits Available</div>
                           <div className="font-semibold text-lg">
-                            ${membership.usedCredits || 0} / ${membership.monthlyCredits}
+                            ${Number(membership.creditBalance || 0).toFixed(2)}
                           </div>
                         </div>
                         <div>
@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import Navigation from "@/components/Navigation";
+import ConsentSignDialog from "@/components/ConsentSignDialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Camera, CheckCircle, ClipboardList, Download, FileSignature, FileText } from "lucide-react";
+import { format } from "date-fns";
+import { documentCategoryLabels } from "@shared/schema";
+import type { ConsentForm, FileStorage, IntakeSubmission } from "@/types";
+
+interface PendingConsent {
+  appointmentId: string;
+  serviceName: string;
+  startTime: string;
+  forms: ConsentForm[];
+}
+
+export default function Forms() {
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [signing, setSigning] = useState<{ appointmentId: string; form: ConsentForm } | null>(null);
+
+  const { data: submissions = [], isLoading } = useQuery<IntakeSubmission[]>({
+    queryKey: ["/api/intake/my-forms"],
+  });
+
+  const { data: pendingConsents = [] } = useQuery<PendingConsent[]>({
+    queryKey: ["/api/consents/pending"],
+  });
+
+  const { data: photoConsent } = useQuery<{ consentedAt: string | null }>({
+    queryKey: ["/api/photos/consent"],
+  });
+
+  const photoConsentMutation = useMutation({
+    mutationFn: async (consent: boolean) => {
+      const response = await apiRequest("PUT", "/api/photos/consent", { consent });
+      return response.json();
+    },
+    onSuccess: (_, consent) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/photos/consent"] });
+      toast({
+        title: consent ? "Thank you" : "Permission withdrawn",
+        description: consent
+          ? "Your clinic may now use your treatment photos in its marketing."
+          : "Your photos are no longer used in your clinic's marketing.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not update your choice",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: documents = [] } = useQuery<FileStorage[]>({
+    queryKey: ["/api/documents/my"],
+  });
+
+  // Downloads go through a short-lived signed link so each one is recorded
+  const downloadMutation = useMutation({
+    mutationFn: async (documentId: string) => {
+      const response = await apiRequest("POST", `/api/documents/${documentId}/link`);
+      return response.json();
+    },
+    onSuccess: (link: { url: string }) => {
+      window.location.assign(link.url);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not download the document",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const pending = submissions.filter(s => s.status === "pending");
+  const completed = submissions.filter(s => s.status === "completed");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="container mx-auto px-6 py-8 space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-foreground mb-2" data-testid="text-forms-title">
+            My Forms
+          </h1>
+          <p className="text-muted-foreground">Health and intake questionnaires from your clinic</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              To Complete
+            </CardTitle>
+            <CardDescription>Please complete these before your visit so your provider can review them</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {pending.length > 0 ? (
+              <div className="space-y-3">
+                {pending.map(submission => (
+                  <div
+                    key={submission.id}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                    data-testid={`form-pending-${submission.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">{submission.formName}</p>
+                      {submission.requestedAt && (
+                        <p className="text-sm text-muted-foreground">
+                          Sent {format(new Date(submission.requestedAt), "MMM d, yyyy")}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => setLocation(`/patient/forms/${submission.id}`)}
+                      data-testid={`button-complete-form-${submission.id}`}
+                    >
+                      Complete Form
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-pending-forms">
+                You're all caught up.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {pendingConsents.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileSignature className="h-5 w-5" />
+                Consents to Sign
+              </CardTitle>
+              <CardDescription>Your treatment can't start until these are signed</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {pendingConsents.flatMap(pendingConsent => pendingConsent.forms.map(form => (
+                  <div
+                    key={`${pendingConsent.appointmentId}-${form.id}`}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                    data-testid={`consent-pending-${pendingConsent.appointmentId}-${form.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">{form.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        For {pendingConsent.serviceName} on {format(new Date(pendingConsent.startTime), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => setSigning({ appointmentId: pendingConsent.appointmentId, form })}
+                      data-testid={`button-sign-consent-${pendingConsent.appointmentId}-${form.id}`}
+                    >
+                      Review & Sign
+                    </Button>
+                  </div>
+                )))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Camera className="h-5 w-5" />
+              Photo Use
+            </CardTitle>
+            <CardDescription>
+              Your before and after photos are part of your private record. You choose whether your clinic may also
+              show them in its marketing, and you can change your mind at any time.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center space-x-3">
+              <Switch
+                id="photo-marketing-consent"
+                checked={!!photoConsent?.consentedAt}
+                onCheckedChange={(checked) => photoConsentMutation.mutate(checked)}
+                disabled={!photoConsent || photoConsentMutation.isPending}
+                data-testid="switch-photo-marketing-consent"
+              />
+              <Label htmlFor="photo-marketing-consent">
+                {photoConsent?.consentedAt
+                  ? `Allowed since ${format(new Date(photoConsent.consentedAt), "MMM d, yyyy")}`
+                  : "Allow my clinic to use my photos in marketing"}
+              </Label>
+            </div>
+          </CardContent>
+        </Card>
+
+        {documents.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                My Documents
+              </CardTitle>
+              <CardDescription>Lab results, referrals and paperwork your clinic has shared with you.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {documents.map(document => (
+                  <div
+                    key={document.id}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                    data-testid={`document-${document.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">{document.originalName}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {documentCategoryLabels[document.category as keyof typeof documentCategoryLabels] || "Document"}
+                        {document.createdAt && ` · ${format(new Date(document.createdAt), "MMM d, yyyy")}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => downloadMutation.mutate(document.id)}
+                      disabled={downloadMutation.isPending}
+                      data-testid={`button-download-document-${document.id}`}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Download
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {completed.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CheckCircle className="h-5 w-5" />
+                Completed
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {completed.map(submission => (
+                  <div
+                    key={submission.id}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                    data-testid={`form-completed-${submission.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">{submission.formName}</p>
+                      {submission.submittedAt && (
+                        <p className="text-sm text-muted-foreground">
+                          Submitted {format(new Date(submission.submittedAt), "MMM d, yyyy")}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">v{submission.formVersion}</Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLocation(`/patient/forms/${submission.id}`)}
+                        data-testid={`button-view-form-${submission.id}`}
+                      >
+                        View
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {signing && (
+        <ConsentSignDialog
+          appointmentId={signing.appointmentId}
+          form={signing.form}
+          open={!!signing}
+          onOpenChange={(open) => !open && setSigning(null)}
+          onSigned={() => queryClient.invalidateQueries({ queryKey: ["/api/consents/pending"] })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import Navigation from "@/components/Navigation";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { ArrowLeft } from "lucide-react";
+import { format } from "date-fns";
+import { isIntakeFieldShown, reviewIntakeAnswers } from "@shared/schema";
+import type { IntakeAnswers, IntakeField, IntakeFormSection, IntakeSubmission } from "@/types";
+
+type SubmissionWithForm = IntakeSubmission & { description: string | null; sections: IntakeFormSection[] };
+
+const formatAnswer = (field: IntakeField, answer: string | string[] | undefined) => {
+  if (answer === undefined || answer.length === 0) return "No answer";
+  if (Array.isArray(answer)) return answer.join(", ");
+  if (field.type === "yes_no") return answer === "yes" ? "Yes" : "No";
+  return answer;
+};
+
+// A form sent by the clinic: filled in while pending, read-only once submitted
+export default function IntakeForm() {
+  const [, params] = useRoute("/patient/forms/:id");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [answers, setAnswers] = useState<IntakeAnswers>({});
+
+  const { data: submission, isLoading } = useQuery<SubmissionWithForm>({
+    queryKey: ["/api/intake/submissions", params?.id],
+    enabled: !!params?.id,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/intake/submissions/${params!.id}`, { answers });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/intake/my-forms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/intake/submissions", params?.id] });
+      toast({
+        title: "Form submitted",
+        description: "Thank you. Your provider will review it before your visit.",
+      });
+      setLocation("/patient/forms");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not submit form",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !submission) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const completed = submission.status === "completed";
+  const shownAnswers = completed ? (submission.answers as IntakeAnswers) || {} : answers;
+
+  const setAnswer = (fieldId: string, value: string | string[]) => {
+    setAnswers(prev => ({ ...prev, [fieldId]: value }));
+  };
+
+  const toggleOption = (fieldId: string, option: string) => {
+    const current = Array.isArray(answers[fieldId]) ? answers[fieldId] as string[] : [];
+    setAnswer(fieldId, current.includes(option) ? current.filter(o => o !== option) : [...current, option]);
+  };
+
+  const handleSubmit = () => {
+    const { missing } = reviewIntakeAnswers(submission.sections, answers);
+    if (missing.length > 0) {
+      toast({
+        title: "Please answer all required questions",
+        description: missing.join(", "),
+        variant: "destructive",
+      });
+      return;
+    }
+    submitMutation.mutate();
+  };
+
+  const renderInput = (field: IntakeField) => {
+    const value = answers[field.id];
+    switch (field.type) {
+      case "textarea":
+        return (
+          <Textarea
+            id={field.id}
+            value={(value as string) || ""}
+            onChange={(e) => setAnswer(field.id, e.target.value)}
+            data-testid={`input-answer-${field.id}`}
+          />
+        );
+      case "yes_no":
+      case "select": {
+        const options = field.type === "yes_no" ? ["yes", "no"] : field.options || [];
+        return (
+          <RadioGroup value={(value as string) || ""} onValueChange={(option) => setAnswer(field.id, option)}>
+            <div className={field.type === "yes_no" ? "flex gap-6" : "space-y-2"}>
+              {options.map(option => (
+                <div key={option} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option} id={`${field.id}-${option}`} data-testid={`radio-answer-${field.id}-${option}`} />
+                  <Label htmlFor={`${field.id}-${option}`}>
+                    {field.type === "yes_no" ? (option === "yes" ? "Yes" : "No") : option}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </RadioGroup>
+        );
+      }
+      case "multi_select":
+        return (
+          <div className="space-y-2">
+            {(field.options || []).map(option => (
+              <div key={option} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${field.id}-${option}`}
+                  checked={Array.isArray(value) && value.includes(option)}
+                  onCheckedChange={() => toggleOption(field.id, option)}
+                  data-testid={`checkbox-answer-${field.id}-${option}`}
+                />
+                <Label htmlFor={`${field.id}-${option}`}>{option}</Label>
+              </div>
+            ))}
+          </div>
+        );
+      default:
+        return (
+          <Input
+            id={field.id}
+            type={field.type === "number" ? "number" : field.type === "date" ? "date" : "text"}
+            value={(value as string) || ""}
+            onChange={(e) => setAnswer(field.id, e.target.value)}
+            data-testid={`input-answer-${field.id}`}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="container mx-auto px-6 py-8 space-y-6 max-w-3xl">
+        <Button variant="ghost" size="sm" onClick={() => setLocation("/patient/forms")} data-testid="button-back-to-forms">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          My Forms
+        </Button>
+
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-foreground mb-2" data-testid="text-intake-form-title">
+            {submission.formName}
+          </h1>
+          <p className="text-muted-foreground">
+            {completed && submission.submittedAt
+              ? `Submitted ${format(new Date(submission.submittedAt), "MMMM d, yyyy")}`
+              : submission.description || "Please answer each question as accurately as you can"}
+          </p>
+        </div>
+
+        {submission.sections.map(section => {
+          const fields = section.fields.filter(field => isIntakeFieldShown(submission.sections, shownAnswers, field));
+          if (fields.length === 0) return null;
+          return (
+            <Card key={section.id}>
+              <CardHeader>
+                <CardTitle>{section.title}</CardTitle>
+                {!completed && <CardDescription>Questions marked * are required</CardDescription>}
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {fields.map(field => (
+                  <div key={field.id} className="space-y-2" data-testid={`question-${field.id}`}>
+                    <Label htmlFor={field.id} className="text-sm font-medium">
+                      {field.label}{field.required && !completed && " *"}
+                    </Label>
+                    {completed ? (
+                      <p className="text-sm text-muted-foreground">{formatAnswer(field, shownAnswers[field.id])}</p>
+                    ) : renderInput(field)}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {!completed && (
+          <div className="flex justify-end">
+            <Button onClick={handleSubmit} disabled={submitMutation.isPending} data-testid="button-submit-intake-form">
+              {submitMutation.isPending ? "Submitting..." : "Submit Form"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import Navigation from "@/components/Navigation";
+import MembershipCreditHistory from "@/components/MembershipCreditHistory";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
@@ -38,9 +39,10 @@ export default function PatientMembership() {
   const [billingCycle, setBillingCycle] = useState<"monthly" | "yearly">("monthly");
   const [isUpgradeDialogOpen, setIsUpgradeDialogOpen] = useState(false);
 
-  const { data: currentMembership, isLoading: membershipLoading } = useQuery<Membership>({
+  const { data: currentMembership, isLoading: membershipLoading } = useQuery<Membership | null>({
     queryKey: ["/api/memberships/my-membership"],
     staleTime: 60000,
+    select: (data: any) => data.membership,
   });
 
   // Fetch real membership tiers from the clinic
@@ -220,10 +222,7 @@ export default function PatientMembership() {
                         </div>
                         <Progress value={creditsUsedPercentage} className="h-2" />
                         <div className="text-xs text-muted-foreground">
-                          {creditsUsedPercentage < 80 
-                            ? `You have $${parseFloat(currentMembership.monthlyCredits?.toString() || "0") - parseFloat(currentMembership.usedCredits?.toString() || "0")} remaining this month`
-                            : "You're close to your monthly limit"
-                          }
+                          {`You have $${parseFloat(currentMembership.creditBalance?.toString() || "0").toFixed(2)} in credits. They're applied automatically when you book online.`}
                         </div>
                       </div>
                     </CardContent>
@@ -258,6 +257,16 @@ export default function PatientMembership() {
                   </Card>
                 </div>
 
+                {/* Credit History */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle data-testid="text-credit-history-title">Credit History</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <MembershipCreditHistory membershipId={currentMembership.id} />
+                  </CardContent>
+                </Card>
+
                 {/* Current Benefits */}
                 <Card>
                   <CardHeader>
@@ -0,0 +1,215 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { Elements } from "@stripe/react-stripe-js";
+import { loadStripe, Stripe } from "@stripe/stripe-js";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import Navigation from "@/components/Navigation";
+import { PaymentForm } from "@/components/PaymentForm";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Package, ShoppingBag } from "lucide-react";
+import { format } from "date-fns";
+import type { ClientPackage, Service, TreatmentPackage } from "@/types";
+
+export default function Packages() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [purchase, setPurchase] = useState<{ clientPackageId: string; clientSecret: string; amount: number; name: string } | null>(null);
+  const [startingId, setStartingId] = useState<string | null>(null);
+  const [stripePromise, setStripePromise] = useState<Promise<Stripe | null> | null>(null);
+
+  const { data: myPackages = [], isLoading: myPackagesLoading } = useQuery<ClientPackage[]>({
+    queryKey: ["/api/packages/my-packages"],
+  });
+
+  const { data: packages = [], isLoading: packagesLoading } = useQuery<TreatmentPackage[]>({
+    queryKey: ["/api/packages"],
+  });
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  useEffect(() => {
+    if (import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
+      setStripePromise(loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY));
+    }
+  }, []);
+
+  const startPurchase = async (treatmentPackage: TreatmentPackage) => {
+    try {
+      setStartingId(treatmentPackage.id);
+      const response = await apiRequest("POST", `/api/packages/${treatmentPackage.id}/purchase`);
+      setPurchase({ ...(await response.json()), name: treatmentPackage.name });
+    } catch (error: any) {
+      toast({
+        title: "Purchase Failed",
+        description: error.message || "Could not start the purchase. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  const handlePurchaseSuccess = async (paymentIntentId: string) => {
+    try {
+      await apiRequest("POST", "/api/packages/purchase/confirm", {
+        clientPackageId: purchase?.clientPackageId,
+        paymentIntentId,
+      });
+      toast({
+        title: "Package Purchased",
+        description: "Your sessions are ready. They'll be used automatically as you complete visits.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Confirmation Error",
+        description: "Payment was successful but your package hasn't been added yet. Please contact support.",
+        variant: "destructive",
+      });
+    } finally {
+      setPurchase(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/packages/my-packages"] });
+    }
+  };
+
+  if (myPackagesLoading || packagesLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const getServiceName = (serviceId: string) => services.find(s => s.id === serviceId)?.name || "Service";
+  const isExpired = (clientPackage: ClientPackage) =>
+    !!clientPackage.expiresAt && new Date(clientPackage.expiresAt) < new Date();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="container mx-auto px-6 py-8 space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-foreground mb-2" data-testid="text-packages-title">
+            Treatment Packages
+          </h1>
+          <p className="text-muted-foreground">Prepay for a series of sessions and save</p>
+        </div>
+
+        {/* My packages */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              My Packages
+            </CardTitle>
+            <CardDescription>A session is used each time you complete a visit for the package's service</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {myPackages.length > 0 ? (
+              <div className="space-y-4">
+                {myPackages.map(clientPackage => (
+                  <div key={clientPackage.id} className="p-4 border rounded-lg space-y-2" data-testid={`my-package-${clientPackage.id}`}>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{clientPackage.name}</p>
+                        <p className="text-xs text-muted-foreground">{getServiceName(clientPackage.serviceId)}</p>
+                      </div>
+                      {clientPackage.status === "used" ? (
+                        <Badge variant="secondary">All sessions used</Badge>
+                      ) : isExpired(clientPackage) ? (
+                        <Badge variant="destructive">Expired</Badge>
+                      ) : (
+                        <Badge className="bg-green-100 text-green-800">
+                          {clientPackage.sessionsRemaining} of {clientPackage.sessionsTotal} left
+                        </Badge>
+                      )}
+                    </div>
+                    <Progress value={(clientPackage.sessionsRemaining / clientPackage.sessionsTotal) * 100} />
+                    <p className="text-xs text-muted-foreground">
+                      {clientPackage.purchasedAt && `Purchased ${format(new Date(clientPackage.purchasedAt), "MMM d, yyyy")}`}
+                      {clientPackage.expiresAt ? ` · use by ${format(new Date(clientPackage.expiresAt), "MMM d, yyyy")}` : " · no expiry"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">You don't have any packages yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Catalog */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShoppingBag className="h-5 w-5" />
+              Available Packages
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {purchase && stripePromise ? (
+              <Elements stripe={stripePromise} options={{ clientSecret: purchase.clientSecret, appearance: { theme: 'stripe' } }}>
+                <PaymentForm
+                  amount={purchase.amount}
+                  serviceName={purchase.name}
+                  onSuccess={handlePurchaseSuccess}
+                  onCancel={() => setPurchase(null)}
+                />
+              </Elements>
+            ) : packages.length > 0 ? (
+              <div className="grid md:grid-cols-2 gap-4">
+                {packages.map(treatmentPackage => {
+                  const service = services.find(s => s.id === treatmentPackage.serviceId);
+                  const singlePrice = Number(service?.price || 0) * treatmentPackage.sessionCount;
+                  const savings = singlePrice - Number(treatmentPackage.price);
+                  return (
+                    <div key={treatmentPackage.id} className="p-4 border rounded-lg space-y-3" data-testid={`package-${treatmentPackage.id}`}>
+                      <div>
+                        <p className="font-medium">{treatmentPackage.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {treatmentPackage.sessionCount} × {service?.name || "sessions"}
+                        </p>
+                        {treatmentPackage.description && (
+                          <p className="text-sm text-muted-foreground mt-1">{treatmentPackage.description}</p>
+                        )}
+                      </div>
+                      <div className="flex items-baseline gap-2">
+                        <span className="text-2xl font-bold text-primary">${Number(treatmentPackage.price).toFixed(2)}</span>
+                        {savings > 0 && (
+                          <span className="text-sm text-green-600">Save ${savings.toFixed(2)}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {treatmentPackage.expiryDays
+                          ? `Sessions must be used within ${treatmentPackage.expiryDays} days`
+                          : "Sessions never expire"}
+                      </p>
+                      <Button
+                        className="w-full"
+                        onClick={() => startPurchase(treatmentPackage)}
+                        disabled={!!startingId || !stripePromise}
+                        data-testid={`button-buy-package-${treatmentPackage.id}`}
+                      >
+                        {startingId === treatmentPackage.id ? "Preparing..." : "Buy Package"}
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Your clinic isn't offering packages right now.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
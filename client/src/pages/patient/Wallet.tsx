@@ -0,0 +1,256 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { Elements } from "@stripe/react-stripe-js";
+import { loadStripe, Stripe } from "@stripe/stripe-js";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import LoadingSpinner from "@/components/ui/loading-spinner";
+import Navigation from "@/components/Navigation";
+import { PaymentForm } from "@/components/PaymentForm";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Wallet as WalletIcon, Gift, Plus, ArrowDownLeft, ArrowUpRight } from "lucide-react";
+import { format } from "date-fns";
+import { getWalletTopUpBonus } from "@shared/schema";
+import type { Transaction, WalletBonusTier } from "@/types";
+
+const PRESET_AMOUNTS = [50, 100, 250, 500];
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  wallet_deposit: "Top-up",
+  wallet_bonus: "Top-up bonus",
+  wallet_payment: "Appointment payment",
+  wallet_refund: "Refund to wallet",
+};
+
+export default function Wallet() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("100");
+  const [topUp, setTopUp] = useState<{ clientSecret: string; amount: number; bonusAmount: number } | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [stripePromise, setStripePromise] = useState<Promise<Stripe | null> | null>(null);
+
+  const { data: wallet, isLoading: walletLoading } = useQuery<{ balance: number }>({
+    queryKey: ["/api/wallet/balance"],
+  });
+
+  const { data: history = [], isLoading: historyLoading } = useQuery<Transaction[]>({
+    queryKey: ["/api/wallet/transactions"],
+  });
+
+  const { data: bonusTiers = [] } = useQuery<WalletBonusTier[]>({
+    queryKey: ["/api/wallet/bonus-tiers"],
+  });
+
+  useEffect(() => {
+    if (import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
+      setStripePromise(loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY));
+    }
+  }, []);
+
+  const topUpAmount = Number(amount) || 0;
+  const bonusPreview = getWalletTopUpBonus(bonusTiers, topUpAmount);
+  const validAmount = topUpAmount >= 10 && topUpAmount <= 5000;
+
+  const startTopUp = async () => {
+    try {
+      setIsStarting(true);
+      const response = await apiRequest("POST", "/api/wallet/top-up", { amount: topUpAmount });
+      setTopUp(await response.json());
+    } catch (error: any) {
+      toast({
+        title: "Top-up Failed",
+        description: error.message || "Could not start the top-up. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleTopUpSuccess = async (paymentIntentId: string) => {
+    try {
+      await apiRequest("POST", "/api/wallet/top-up/confirm", { paymentIntentId });
+      toast({
+        title: "Wallet Topped Up",
+        description: topUp && topUp.bonusAmount > 0
+          ? `$${(topUp.amount + topUp.bonusAmount).toFixed(2)} added, including a $${topUp.bonusAmount.toFixed(2)} bonus.`
+          : "Your new balance is ready to use.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Confirmation Error",
+        description: "Payment was successful but your wallet hasn't updated yet. Please contact support.",
+        variant: "destructive",
+      });
+    } finally {
+      setTopUp(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet/balance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet/transactions"] });
+    }
+  };
+
+  if (walletLoading || historyLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const balance = wallet?.balance || 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="container mx-auto px-6 py-8 space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-foreground mb-2" data-testid="text-wallet-title">
+            Wallet
+          </h1>
+          <p className="text-muted-foreground">Load funds ahead of time and use them to pay for visits</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Balance & Top-up */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <WalletIcon className="h-5 w-5" />
+                Balance
+              </CardTitle>
+              <CardDescription>Available for appointment payments at checkout</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="text-4xl font-bold text-primary" data-testid="text-wallet-page-balance">
+                ${balance.toFixed(2)}
+              </div>
+
+              {topUp && stripePromise ? (
+                <Elements stripe={stripePromise} options={{ clientSecret: topUp.clientSecret, appearance: { theme: 'stripe' } }}>
+                  <PaymentForm
+                    amount={topUp.amount}
+                    serviceName="Wallet top-up"
+                    onSuccess={handleTopUpSuccess}
+                    onCancel={() => setTopUp(null)}
+                  />
+                </Elements>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    {PRESET_AMOUNTS.map(preset => (
+                      <Button
+                        key={preset}
+                        variant={topUpAmount === preset ? "default" : "outline"}
+                        onClick={() => setAmount(String(preset))}
+                        data-testid={`button-topup-preset-${preset}`}
+                      >
+                        ${preset}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="space-y-2 max-w-xs">
+                    <Label htmlFor="topup-amount">Amount ($10 - $5,000)</Label>
+                    <Input
+                      id="topup-amount"
+                      type="number"
+                      min="10"
+                      max="5000"
+                      step="1"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      data-testid="input-topup-amount"
+                    />
+                  </div>
+                  {bonusPreview > 0 && (
+                    <p className="text-sm text-green-600" data-testid="text-topup-bonus">
+                      You'll receive ${(topUpAmount + bonusPreview).toFixed(2)} including a ${bonusPreview.toFixed(2)} bonus.
+                    </p>
+                  )}
+                  <Button
+                    onClick={startTopUp}
+                    disabled={!validAmount || isStarting || !stripePromise}
+                    data-testid="button-start-topup"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    {isStarting ? "Preparing..." : `Add $${topUpAmount.toFixed(2)}`}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Bonus tiers */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gift className="h-5 w-5" />
+                Top-up Bonuses
+              </CardTitle>
+              <CardDescription>Load more at once and get extra credit from your clinic</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {bonusTiers.length > 0 ? (
+                <div className="space-y-2">
+                  {[...bonusTiers].sort((a, b) => a.minAmount - b.minAmount).map(tier => (
+                    <div key={tier.minAmount} className="flex items-center justify-between p-3 border rounded-lg">
+                      <span className="text-sm">Load ${tier.minAmount.toFixed(2)} or more</span>
+                      <Badge variant="secondary">+${tier.bonusAmount.toFixed(2)}</Badge>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Your clinic isn't offering top-up bonuses right now.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* History */}
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {history.length > 0 ? (
+              <div className="divide-y">
+                {history.map(tx => {
+                  const isDebit = tx.type === 'wallet_payment';
+                  return (
+                    <div key={tx.id} className="flex items-center justify-between py-3" data-testid={`wallet-transaction-${tx.id}`}>
+                      <div className="flex items-center gap-3">
+                        {isDebit ? (
+                          <ArrowUpRight className="h-4 w-4 text-red-500" />
+                        ) : (
+                          <ArrowDownLeft className="h-4 w-4 text-green-600" />
+                        )}
+                        <div>
+                          <p className="text-sm font-medium">{TRANSACTION_LABELS[tx.type] || tx.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {tx.createdAt ? format(new Date(tx.createdAt), "MMM d, yyyy h:mm a") : ""}
+                            {tx.status === 'refunded' && " · returned to wallet"}
+                          </p>
+                        </div>
+                      </div>
+                      <span className={`text-sm font-semibold ${isDebit ? 'text-red-500' : 'text-green-600'}`}>
+                        {isDebit ? '-' : '+'}${Number(tx.amount).toFixed(2)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No wallet activity yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ export type {
   Appointment as BaseAppointment,
   Membership,
   Reward,
+  RewardOption,
   Transaction,
   AddOn,
   UsageLog,
@@ -17,10 +18,45 @@ export type {
   Notification,
   AuditLog,
   FileStorage,
-  FeatureFlag
+  FeatureFlag,
+  Resource,
+  StaffScheduleException,
+  LocationHoursException,
+  WaitlistEntry,
+  WaitlistOffer,
+  CancellationPolicy,
+  WalletBonusTier,
+  DocumentRetention,
+  DocumentAccessEntry,
+  GiftCard,
+  TreatmentPackage,
+  ClientPackage,
+  Product,
+  ProductStock,
+  StockMovement,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  ServiceConsumable,
+  CheckoutLineItem,
+  CheckoutTicket,
+  PayPeriod,
+  TimeClockEntry,
+  IntakeForm,
+  IntakeSubmission,
+  IntakeField,
+  IntakeFormSection,
+  IntakeAnswers,
+  IntakeFlag,
+  ConsentForm,
+  ConsentSignature,
+  ChartTemplate,
+  ChartNote,
+  ChartAddendum,
+  ChartProduct,
+  InjectionSite
 } from "@shared/schema";
 
-import type { BaseAppointment } from "@shared/schema";
+import type { Appointment as BaseAppointment, ChartNote, ChartAddendum } from "@shared/schema";
 
 // Enriched appointment type with additional display fields
 export interface Appointment extends BaseAppointment {
@@ -29,7 +65,15 @@ export interface Appointment extends BaseAppointment {
   staffName?: string;
   locationName?: string;
   timezone?: string;
-  archived?: boolean;
+}
+
+// Chart as returned by the charting endpoints, with names resolved
+export interface ChartDetails extends ChartNote {
+  serviceName: string;
+  providerName: string;
+  signedByName: string | null;
+  appointmentStartTime: string | null;
+  addenda: (ChartAddendum & { authorName: string })[];
 }
 
 // Additional frontend-specific types
@@ -70,10 +114,13 @@ export interface BookingAvailability {
   date: string;
   slots: {
     time: string;
+    datetime?: string;
     available: boolean;
     staffId?: string;
     staffName?: string;
   }[];
+  closed?: boolean;
+  closedReason?: string | null;
 }
 
 export interface PlatformStats {
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobScheduler } from "./services/scheduler";
 
 const app = express();
 // Raw body for Stripe webhooks (must come before express.json)
@@ -103,5 +104,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Start background jobs (reminders, birthdays, renewals, follow-ups, scheduled campaigns)
+    jobScheduler.start().catch((error) => {
+      console.error("❌ [SCHEDULER] Failed to start:", error);
+    });
   });
 })();
@@ -1,4 +1,4 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
@@ -12,6 +12,19 @@ import * as stripeService from "./services/stripe";
 import { stripe } from "./services/stripe";
 import { sendEmail, getEmailServiceStatus } from "./services/sendgrid";
 import { notificationService } from "./services/notifications";
+import { jobScheduler } from "./services/scheduler";
+import { waitlistService } from "./services/waitlist";
+import { pendingBookingService } from "./services/pendingBookings";
+import { giftCardService } from "./services/giftCards";
+import { receiptService } from "./services/receipts";
+import { payoutService, type PayrollStatement } from "./services/payouts";
+import { intakeFormService } from "./services/intakeForms";
+import { consentService } from "./services/consents";
+import { chartService } from "./services/charts";
+import { fileStoreService, UPLOAD_IMAGE_TYPES, UPLOAD_DOCUMENT_TYPES, MAX_UPLOAD_BYTES, type UploadResult } from "./services/fileStore";
+import {
+  documentService, isDocument, getDocumentRetention, PATIENT_LINK_TTL_SECONDS, MAX_LINK_TTL_SECONDS
+} from "./services/documents";
 
 // Helper to safely convert timestamp to UTC ISO string
 // Handles both Date objects and string timestamps from database
@@ -27,6 +40,37 @@ function toUTCISOString(timestamp: Date | string): string {
   return new Date(timestamp + 'Z').toISOString();
 }
 
+// Add service, staff, and location names, including timezone, to an appointment shown in the patient portal
+async function enrichClientAppointment(apt: Appointment) {
+  const service = await storage.getService(apt.serviceId);
+  const staffRecord = await storage.getStaff(apt.staffId);
+  const location = await storage.getLocation(apt.locationId);
+
+  // Get staff name - prefer title, fallback to user's name
+  let staffName = 'Staff member';
+  if (staffRecord) {
+    if (staffRecord.title) {
+      staffName = staffRecord.title;
+    } else {
+      const user = await storage.getUser(staffRecord.userId);
+      if (user) {
+        staffName = `${user.firstName || ''} ${user.lastName || ''}`.trim() || 'Staff member';
+      }
+    }
+  }
+
+  // Convert timestamps to UTC ISO strings to ensure proper timezone handling
+  return {
+    ...apt,
+    startTime: toUTCISOString(apt.startTime),
+    endTime: toUTCISOString(apt.endTime),
+    serviceName: service?.name || 'Service',
+    staffName,
+    locationName: location?.name || 'Location',
+    timezone: location?.timezone || 'America/New_York'
+  };
+}
+
 // Helper function to calculate reward points based on membership tier and spend
 async function calculateRewardPoints(clientId: string, organizationId: string, amountSpent: number): Promise<number> {
   try {
@@ -67,13 +111,748 @@ async function calculateRewardPoints(clientId: string, organizationId: string, a
     return 0;
   }
 }
+
+// Helper to find a staff member's upcoming appointments that fall in their time off or breaks
+async function findStaffScheduleConflicts(staffMember: Staff, exceptions: StaffScheduleException[]) {
+  const upcoming = await storage.getAppointmentsByOrganization(staffMember.organizationId, {
+    startDate: new Date(),
+    statusFilter: ['pending', 'scheduled', 'confirmed']
+  });
+  const locations = await storage.getLocationsByOrganization(staffMember.organizationId);
+  const timezones = new Map(locations.map(l => [l.id, l.timezone || 'America/New_York']));
+
+  return upcoming
+    .filter(apt => apt.staffId === staffMember.id)
+    .flatMap(apt => {
+      const timezone = timezones.get(apt.locationId) || 'America/New_York';
+      const start = getLocalTimeParts(new Date(apt.startTime), timezone);
+      const end = getLocalTimeParts(new Date(apt.endTime), timezone);
+      const endTime = end.date === start.date ? end.time : '24:00';
+      const daySchedule = getStaffDaySchedule(exceptions, start.date, start.dayOfWeek);
+
+      let reason: string | null = null;
+      if (daySchedule.offAllDay) {
+        reason = 'Staff member is off this day';
+      } else if (daySchedule.blocked.some(window => window.start < endTime && window.end > start.time)) {
+        reason = 'Overlaps a break or partial time off';
+      }
+
+      return reason ? [{
+        appointmentId: apt.id,
+        startTime: apt.startTime,
+        endTime: apt.endTime,
+        clientName: apt.clientName,
+        serviceName: apt.serviceName,
+        reason
+      }] : [];
+    });
+}
+
+// Shown when a booking overlaps a slot offered to a waitlisted client
+const WAITLIST_HOLD_MESSAGE = "This time is being held for a waitlisted client";
+
+// A checkout still claimed after this long was interrupted and can be retried
+const CHECKOUT_CLAIM_STALE_MS = 5 * 60 * 1000;
+
+// Default business hours for new clinics (9am-6pm Mon-Sat, closed Sunday)
+const DEFAULT_BUSINESS_HOURS: Record<string, { open: string; close: string } | null> = {
+  monday: { open: "09:00", close: "18:00" },
+  tuesday: { open: "09:00", close: "18:00" },
+  wednesday: { open: "09:00", close: "18:00" },
+  thursday: { open: "09:00", close: "18:00" },
+  friday: { open: "09:00", close: "18:00" },
+  saturday: { open: "09:00", close: "18:00" },
+  sunday: null // Closed on Sundays by default
+};
+
+// Helper to check a slot start against a location's minimum notice and maximum booking horizon
+function isWithinBookingWindow(location: Location, slotStart: Date, now: Date = new Date()): boolean {
+  const noticeMs = (location.minBookingNoticeMinutes || 0) * 60 * 1000;
+  if (slotStart.getTime() < now.getTime() + noticeMs) {
+    return false;
+  }
+  if (location.maxBookingDaysAhead !== null && location.maxBookingDaysAhead !== undefined) {
+    const horizonMs = location.maxBookingDaysAhead * 24 * 60 * 60 * 1000;
+    if (slotStart.getTime() > now.getTime() + horizonMs) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Helper to check a slot against a location's closures and modified hours for that day.
+// Returns a reason when the slot cannot be booked, or null when the date has no exception or the slot fits.
+async function checkLocationHoursException(location: Location, startTime: Date, endTime: Date): Promise<string | null> {
+  const timezone = location.timezone || 'America/New_York';
+  const start = getLocalTimeParts(startTime, timezone);
+  const exception = await storage.getLocationHoursException(location.id, start.date);
+  if (!exception) return null;
+
+  if (exception.isClosed) {
+    return exception.reason ? `${location.name} is closed on this date: ${exception.reason}` : `${location.name} is closed on this date`;
+  }
+
+  const end = getLocalTimeParts(endTime, timezone);
+  const endTimeOfDay = end.date === start.date ? end.time : '24:00';
+  if (exception.openTime && exception.closeTime && (start.time < exception.openTime || endTimeOfDay > exception.closeTime)) {
+    return `${location.name} has special hours on this date (${exception.openTime}-${exception.closeTime})`;
+  }
+  return null;
+}
+
+// Helper to check a provider's active bookings against a slot, with each service's setup and cleanup buffers on both sides
+async function hasStaffBookingConflict(
+  slot: { organizationId: string; staffId: string; startTime: Date; endTime: Date },
+  service: Service,
+  excludeAppointmentId?: string
+): Promise<boolean> {
+  const [staffAppointments, services] = await Promise.all([
+    storage.getAppointmentsByStaff(slot.staffId, slot.organizationId, slot.startTime),
+    storage.getServicesByOrganization(slot.organizationId)
+  ]);
+  const servicesById = new Map(services.map(s => [s.id, s]));
+  const requested = getBufferedWindow(slot.startTime, slot.endTime, service);
+  return staffAppointments.some(apt => {
+    if (apt.id === excludeAppointmentId || !['pending', 'scheduled', 'confirmed', 'in_progress', 'cancellation_requested'].includes(apt.status || '')) {
+      return false;
+    }
+    const existing = getBufferedWindow(apt.startTime, apt.endTime, servicesById.get(apt.serviceId));
+    return requested.start < existing.end && requested.end > existing.start;
+  });
+}
+
+// Helper to check one appointment time against the provider's time off and breaks, their other active bookings,
+// the location's closures and special hours, and the service's required resources.
+// allowOutsideHours lets staff book outside the location's opening hours and the provider's weekly availability;
+// closures, time off, other bookings and resources still apply. waitlistOfferId is the offer being claimed,
+// which doesn't hold the slot against its own client.
+async function checkSlotBookable(
+  slot: { organizationId: string; staffId: string; startTime: Date; endTime: Date },
+  service: Service,
+  location: Location,
+  excludeAppointmentId?: string,
+  options: { allowOutsideHours?: boolean; waitlistOfferId?: string } = {}
+): Promise<{ available: boolean; reason?: string; resourceIds: string[] }> {
+  const closureReason = await checkLocationHoursException(location, slot.startTime, slot.endTime);
+  if (closureReason) {
+    return { available: false, reason: closureReason, resourceIds: [] };
+  }
+
+  const timezone = location.timezone || 'America/New_York';
+  const localStart = getLocalTimeParts(slot.startTime, timezone);
+  const localEnd = getLocalTimeParts(slot.endTime, timezone);
+  const localEndTime = localEnd.date === localStart.date ? localEnd.time : '24:00';
+  const daySchedule = getStaffDaySchedule(await storage.getStaffScheduleExceptions(slot.staffId), localStart.date, localStart.dayOfWeek);
+  if (daySchedule.offAllDay || daySchedule.blocked.some(window => window.start < localEndTime && window.end > localStart.time)) {
+    return { available: false, reason: "Provider is not working at this time", resourceIds: [] };
+  }
+
+  // Same hours online booking offers: the location's weekly or special hours, or one of the provider's extra shifts,
+  // and inside the provider's weekly availability when they have any set
+  const fitsWindow = (window: { start: string; end: string }) => window.start <= localStart.time && window.end >= localEndTime;
+  const inExtraShift = options.allowOutsideHours || daySchedule.extraShifts.some(fitsWindow);
+  const hoursException = await storage.getLocationHoursException(location.id, localStart.date);
+  let businessHours = location.businessHours as Record<string, { open: string; close: string } | null> | null;
+  if (!businessHours || typeof businessHours !== 'object' || Object.keys(businessHours).length === 0) {
+    businessHours = DEFAULT_BUSINESS_HOURS;
+  }
+  const dayHours = hoursException?.openTime && hoursException?.closeTime
+    ? { open: hoursException.openTime, close: hoursException.closeTime }
+    : businessHours[['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][localStart.dayOfWeek]];
+  if (!inExtraShift && !(dayHours?.open && dayHours?.close && fitsWindow({ start: dayHours.open, end: dayHours.close }))) {
+    return { available: false, reason: `${location.name} is not open at this time`, resourceIds: [] };
+  }
+  const weeklyAvailability = await storage.getStaffAvailabilityByStaff(slot.staffId);
+  if (!inExtraShift && weeklyAvailability.length > 0 && !weeklyAvailability.some(window =>
+    window.dayOfWeek === localStart.dayOfWeek && fitsWindow({ start: window.startTime, end: window.endTime }))) {
+    return { available: false, reason: "Provider is not working at this time", resourceIds: [] };
+  }
+
+  if (await hasStaffBookingConflict(slot, service, excludeAppointmentId)) {
+    return { available: false, reason: "Provider already has a booking at this time", resourceIds: [] };
+  }
+  if (await waitlistService.findHoldingOffer(slot, service, options.waitlistOfferId)) {
+    return { available: false, reason: WAITLIST_HOLD_MESSAGE, resourceIds: [] };
+  }
+
+  return await checkResourceAvailability(service, location.id, slot.startTime, slot.endTime, excludeAppointmentId);
+}
+
+// Helper to find active appointments at a location on a date that a new closure or modified hours would cut into
+async function findAppointmentsAffectedByHoursException(location: Location, exception: LocationHoursException) {
+  const timezone = location.timezone || 'America/New_York';
+  const [year, month, day] = exception.date.split('-').map(Number);
+  // Wide window around the calendar day so every timezone offset is covered
+  const appointments = await storage.getAppointmentsByOrganization(location.organizationId, {
+    startDate: new Date(Date.UTC(year, month - 1, day) - 14 * 60 * 60 * 1000),
+    endDate: new Date(Date.UTC(year, month - 1, day + 1) + 14 * 60 * 60 * 1000),
+    statusFilter: ['pending', 'scheduled', 'confirmed']
+  });
+
+  return appointments.filter(apt => {
+    if (apt.locationId !== location.id) return false;
+    const start = getLocalTimeParts(new Date(apt.startTime), timezone);
+    if (start.date !== exception.date) return false;
+    if (exception.isClosed) return true;
+    const end = getLocalTimeParts(new Date(apt.endTime), timezone);
+    const endTime = end.date === start.date ? end.time : '24:00';
+    return start.time < (exception.openTime || '00:00') || endTime > (exception.closeTime || '24:00');
+  });
+}
+
+// Helper to check that every resource a service needs at a location is free for the whole appointment, buffers included.
+// Services list resources from any location; only the ones at the booking location apply.
+async function checkResourceAvailability(
+  service: Service,
+  locationId: string,
+  startTime: Date,
+  endTime: Date,
+  excludeAppointmentId?: string
+): Promise<{ resourceIds: string[]; available: boolean; reason?: string }> {
+  const requiredIds = Array.isArray(service.requiredResourceIds) ? service.requiredResourceIds as string[] : [];
+  if (requiredIds.length === 0) {
+    return { resourceIds: [], available: true };
+  }
+
+  const locationResources = await storage.getResourcesByLocation(locationId);
+  const resourceIds = locationResources.filter(r => requiredIds.includes(r.id)).map(r => r.id);
+  if (resourceIds.length === 0) {
+    return { resourceIds, available: false, reason: "This service's required rooms or equipment are not available at this location" };
+  }
+
+  // Rooms and equipment are tied up for setup and cleanup too, so both sides' buffers count. The query is widened
+  // by the longest buffer any service has, then each booking is compared with its own service's buffers.
+  const services = await storage.getServicesByOrganization(service.organizationId);
+  const servicesById = new Map(services.map(s => [s.id, s]));
+  const maxBufferMs = Math.max(0, ...services.map(s => Math.max(s.bufferBeforeMinutes || 0, s.bufferAfterMinutes || 0))) * 60 * 1000;
+  const requested = getBufferedWindow(startTime, endTime, service);
+  const conflicts = (await storage.getConflictingResourceAppointments(
+    service.organizationId,
+    resourceIds,
+    new Date(requested.start.getTime() - maxBufferMs),
+    new Date(requested.end.getTime() + maxBufferMs),
+    excludeAppointmentId
+  )).filter(apt => {
+    const existing = getBufferedWindow(apt.startTime, apt.endTime, servicesById.get(apt.serviceId));
+    return requested.start < existing.end && requested.end > existing.start;
+  });
+  if (conflicts.length > 0) {
+    const busy = locationResources.filter(r => conflicts.some(apt => (apt.resourceIds as string[] | null)?.includes(r.id)));
+    return { resourceIds, available: false, reason: `Required resource is already booked: ${busy.map(r => r.name).join(", ")}` };
+  }
+
+  return { resourceIds, available: true };
+}
+
+// Helper to read an organization's cancellation policy; a missing or malformed policy means none applies
+function getCancellationPolicy(organization: Organization | undefined): CancellationPolicy | null {
+  const parsed = cancellationPolicySchema.safeParse(organization?.cancellationPolicy);
+  return parsed.success ? parsed.data : null;
+}
+
+// Helper to escape user-entered text placed into HTML emails
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Helper to read an organization's wallet top-up bonus tiers, ignoring malformed data
+function getWalletBonusTiers(organization: Organization | undefined): WalletBonusTier[] {
+  const parsed = z.array(walletBonusTierSchema).safeParse(organization?.walletBonusTiers ?? []);
+  return parsed.success ? parsed.data : [];
+}
+
+// Helper to find the organization behind a public booking link, which may use a location or organization slug
+async function getOrganizationByPublicSlug(slug: string): Promise<Organization | undefined> {
+  const location = await storage.getLocationBySlug(slug);
+  if (location?.isActive) {
+    const organization = await storage.getOrganization(location.organizationId);
+    if (organization?.isActive) return organization;
+  }
+
+  const organization = await storage.getOrganizationBySlug(slug);
+  return organization?.isActive ? organization : undefined;
+}
+
+// Helper to apply the no-show fee from the organization's policy, less any deposit and gift card money already paid.
+// Charges the client's saved card on the clinic's Connect account when the policy allows it and always
+// records a no_show_fee transaction, left pending when the fee still has to be collected.
+async function chargeNoShowFee(appointment: Appointment) {
+  const organization = await storage.getOrganization(appointment.organizationId);
+  const policy = getCancellationPolicy(organization);
+  if (!organization || !policy) return null;
+
+  const fee = getPolicyFee(policy.noShowFeeType, policy.noShowFeeAmount, Number(appointment.totalAmount || 0));
+  const amountDue = Math.round((fee - Number(appointment.depositPaid || 0) - Number(appointment.giftCardPaid || 0)) * 100) / 100;
+  if (amountDue <= 0) return null;
+
+  // Never charge twice for the same missed visit
+  const existing = await storage.getTransactionsByAppointment(appointment.id);
+  if (existing.some(t => t.type === "no_show_fee" && t.status !== "failed")) return null;
+
+  let status: "pending" | "completed" | "failed" = "pending";
+  let stripePaymentIntentId: string | null = null;
+  let failureReason: string | null = null;
+
+  if (policy.chargeNoShowToCard) {
+    const client = await storage.getClient(appointment.clientId);
+    try {
+      if (!client?.stripeCustomerId || !organization.stripeConnectAccountId) {
+        throw new Error("No saved card on file");
+      }
+      const paymentIntent = await stripeService.chargeSavedPaymentMethod(
+        Math.round(amountDue * 100), // Convert to cents
+        client.stripeCustomerId,
+        { appointmentId: appointment.id, organizationId: appointment.organizationId, type: "no_show_fee" },
+        organization.stripeConnectAccountId
+      );
+      stripePaymentIntentId = paymentIntent.id;
+      status = paymentIntent.status === "succeeded" ? "completed" : "pending";
+    } catch (chargeError: any) {
+      console.error("No-show fee charge error:", chargeError);
+      status = "failed";
+      failureReason = chargeError.message || "Card charge failed";
+      stripePaymentIntentId = chargeError.raw?.payment_intent?.id || null;
+    }
+  }
+
+  return await storage.createTransaction({
+    organizationId: appointment.organizationId,
+    clientId: appointment.clientId,
+    appointmentId: appointment.id,
+    amount: amountDue.toFixed(2),
+    type: "no_show_fee",
+    status,
+    paymentMethod: policy.chargeNoShowToCard ? "card" : null,
+    stripePaymentIntentId,
+    description: "No-show fee",
+    metadata: { fee, depositApplied: Number(appointment.depositPaid || 0), failureReason }
+  });
+}
+
+// Activate a paid package and record its sale; the expiry clock starts now. Undefined when it was already activated.
+async function activatePackagePurchase(clientPackage: ClientPackage, sale: { paymentMethod: string; soldBy?: string | null }) {
+  const treatmentPackage = await storage.getTreatmentPackage(clientPackage.packageId);
+  const expiresAt = treatmentPackage?.expiryDays
+    ? new Date(Date.now() + treatmentPackage.expiryDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  return await storage.activateClientPackage(clientPackage.id, expiresAt, {
+    organizationId: clientPackage.organizationId,
+    clientId: clientPackage.clientId,
+    amount: clientPackage.pricePaid,
+    type: "package_purchase",
+    status: "completed",
+    paymentMethod: sale.paymentMethod,
+    stripePaymentIntentId: clientPackage.stripePaymentIntentId,
+    description: `${clientPackage.name} package`,
+    metadata: { clientPackageId: clientPackage.id, packageId: clientPackage.packageId, soldBy: sale.soldBy || null }
+  });
+}
+
+// Puts gift card money redeemed toward a canceled appointment back on the cards it came from, up to amount when given,
+// returning the amount restored. It never goes through the card refund, which only covers depositPaid.
+async function restoreGiftCardRedemptions(appointment: Appointment, amount?: number): Promise<number> {
+  const redemptions = (await storage.getTransactionsByAppointment(appointment.id))
+    .filter(t => t.type === "gift_card_redemption" && t.status === "completed");
+  let restored = 0;
+  for (const redemption of redemptions) {
+    const restore = amount === undefined ? Number(redemption.amount) : Math.min(Number(redemption.amount), amount - restored);
+    if (restore > 0 && await storage.reverseGiftCardRedemption(redemption.id, restore)) {
+      restored += restore;
+    }
+  }
+  restored = Math.round(restored * 100) / 100;
+  if (restored > 0) {
+    await storage.updateAppointment(appointment.id, appointment.organizationId, {
+      giftCardPaid: Math.max(Number(appointment.giftCardPaid || 0) - restored, 0).toFixed(2)
+    });
+  }
+  return restored;
+}
+
+// Deposit and gift card money paid ahead for an appointment
+function getPrepaidAmount(appointment: Appointment): number {
+  return Math.round((Number(appointment.depositPaid || 0) + Number(appointment.giftCardPaid || 0)) * 100) / 100;
+}
+
+// How much of what was paid ahead a cancellation at canceledAt keeps when the clinic doesn't decide:
+// what the organization's policy charges, or all of it without a policy
+async function getDefaultRetainedAmount(appointment: Appointment, canceledAt: Date): Promise<number> {
+  const policy = getCancellationPolicy(await storage.getOrganization(appointment.organizationId));
+  return policy ? evaluateCancellation(policy, appointment, canceledAt).retainedDeposit : getPrepaidAmount(appointment);
+}
+
+// Settles what was paid ahead for a canceled appointment. The retained amount is kept from the deposit first, then
+// from gift card money; the rest of the gift card money goes back on the cards and, given a refund description,
+// the rest of the deposit is refunded. Without one the deposit stays with the clinic.
+async function settleCanceledPrepayments(appointment: Appointment, retainedAmount: number, refundDescription: string | null) {
+  const depositPaid = Number(appointment.depositPaid || 0);
+  const giftCardPaid = Number(appointment.giftCardPaid || 0);
+  const retainedFromDeposit = Math.min(retainedAmount, depositPaid);
+  const refundAmount = Math.round((depositPaid - retainedFromDeposit) * 100) / 100;
+  const giftCardRestore = Math.round((giftCardPaid - Math.min(retainedAmount - retainedFromDeposit, giftCardPaid)) * 100) / 100;
+
+  const giftCardRestored = giftCardRestore > 0 ? await restoreGiftCardRedemptions(appointment, giftCardRestore) : 0;
+  if (refundAmount > 0 && refundDescription) {
+    await refundDeposit(appointment, refundAmount, refundDescription);
+  }
+  return { refundAmount: refundDescription ? refundAmount : 0, giftCardRestored };
+}
+
+// Refunds part or all of an appointment's deposit. Membership credits and wallet money go back where they came from
+// first, partly when only part of the deposit is refunded; the card is only refunded for the rest.
+async function refundDeposit(appointment: Appointment, refundAmount: number, cardRefundDescription: string) {
+  const transactions = await storage.getTransactionsByAppointment(appointment.id);
+  const depositTransaction = transactions.find(t =>
+    t.type === "appointment_deposit" && t.status === "completed"
+  );
+
+  let cardRefundAmount = refundAmount;
+  const creditsPaid = transactions
+    .filter(t => t.type === "membership_credit_redemption" && t.status === "completed")
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+  const creditsRefund = Math.round(Math.min(creditsPaid, cardRefundAmount) * 100) / 100;
+  if (creditsRefund > 0) {
+    await storage.refundMembershipCredits(appointment.id, "Membership credits returned for cancelled appointment", creditsRefund);
+    cardRefundAmount = Math.round((cardRefundAmount - creditsRefund) * 100) / 100;
+  }
+  const walletPaid = transactions
+    .filter(t => t.type === "wallet_payment" && t.status === "completed")
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+  const walletRefund = Math.round(Math.min(walletPaid, cardRefundAmount) * 100) / 100;
+  if (walletRefund > 0) {
+    await storage.refundWalletPayments(appointment.id, "Wallet refund for cancelled appointment", walletRefund);
+    cardRefundAmount = Math.round((cardRefundAmount - walletRefund) * 100) / 100;
+  }
+
+  if (cardRefundAmount > 0 && depositTransaction?.stripePaymentIntentId) {
+    try {
+      // Process refund through Stripe
+      const organization = await storage.getOrganization(appointment.organizationId);
+      if (stripe && organization?.stripeConnectAccountId) {
+        await stripe.refunds.create({
+          payment_intent: depositTransaction.stripePaymentIntentId,
+          amount: Math.round(cardRefundAmount * 100) // Convert to cents
+        }, {
+          stripeAccount: organization.stripeConnectAccountId
+        });
+
+        // Record refund transaction
+        await storage.createTransaction({
+          organizationId: appointment.organizationId,
+          clientId: appointment.clientId,
+          appointmentId: appointment.id,
+          amount: `-${cardRefundAmount.toFixed(2)}`,
+          type: "refund",
+          status: "completed",
+          stripePaymentIntentId: depositTransaction.stripePaymentIntentId,
+          description: cardRefundDescription
+        });
+      }
+    } catch (refundError) {
+      console.error("Refund processing error:", refundError);
+      // Continue even if refund fails - log it for manual processing
+    }
+  }
+}
+
+// A service that requires consent can't be performed until the client has a current signed consent on file.
+// Returns the 409 response body when consent is missing, or null when the appointment may go ahead.
+async function checkConsentGate(appointment: Appointment, action: "start" | "be completed") {
+  const consent = await consentService.getStatus(appointment);
+  if (consent.unconfigured) {
+    return {
+      message: "This service requires consent, but no consent form is attached to it",
+      error_code: "CONSENT_REQUIRED"
+    };
+  }
+  if (consent.missing.length > 0) {
+    return {
+      message: `The client must sign ${consent.missing.map(form => form.name).join(", ")} before this appointment can ${action}`,
+      error_code: "CONSENT_REQUIRED",
+      missingConsentFormIds: consent.missing.map(form => form.id)
+    };
+  }
+  return null;
+}
+
+// Completing an appointment uses a session from a matching package; moving it off completed gives the session back.
+// Called after the update is saved, with the appointment as it was before.
+async function syncPackageSession(appointment: Appointment, newStatus: string | undefined) {
+  if (!newStatus || newStatus === appointment.status) return null;
+  try {
+    if (newStatus === "completed") {
+      // Re-read so a service or client changed in the same update is the one matched
+      const updated = await storage.getAppointment(appointment.id);
+      return updated ? await storage.useClientPackageSession(updated) || null : null;
+    }
+    if (appointment.status === "completed") {
+      return await storage.restoreClientPackageSession(appointment.id) || null;
+    }
+  } catch (error) {
+    // The status change itself still stands; the session can be adjusted by hand
+    console.error("Package session update error:", error);
+  }
+  return null;
+}
+
+// Tells the clinic's admins about each location that has just fallen to a product's reorder level.
+// The alert is claimed first so concurrent sales don't send it twice; it re-arms once the location is restocked.
+async function alertLowStock(stock: ProductStock[]) {
+  for (const level of stock) {
+    try {
+      const product = await storage.getProduct(level.productId);
+      if (!product || product.reorderLevel === null || level.quantity > product.reorderLevel || level.lowStockAlertedAt) continue;
+      if (!await storage.claimLowStockAlert(level.id)) continue;
+
+      const location = await storage.getLocation(level.locationId);
+      const organizationStaff = await storage.getStaffByOrganization(product.organizationId);
+      for (const staffMember of organizationStaff) {
+        const user = await storage.getUser(staffMember.userId);
+        if (user?.role !== "clinic_admin" || !user.isActive) continue;
+
+        await notificationService.send({
+          userId: user.id,
+          organizationId: product.organizationId,
+          type: 'system',
+          title: `Low stock: ${product.name}`,
+          message: `${location?.name || "A location"} has ${level.quantity} ${product.unit || "each"} of ${product.name} left (reorder level ${product.reorderLevel}).`,
+          data: { productId: product.id, locationId: level.locationId, actionUrl: "/clinic/inventory", actionText: "View Inventory" },
+          channels: ['in_app', 'email']
+        });
+      }
+    } catch (error) {
+      // A failed alert never undoes the sale or usage behind it
+      console.error("Low stock alert error:", error);
+    }
+  }
+}
+
+// Completing an appointment uses up its service's consumables at the appointment's location; moving it off
+// completed puts them back. Called after the update is saved, with the appointment as it was before.
+async function syncServiceUsage(appointment: Appointment, newStatus: string | undefined) {
+  if (!newStatus || newStatus === appointment.status) return;
+  try {
+    if (newStatus === "completed") {
+      const updated = await storage.getAppointment(appointment.id);
+      if (updated) await alertLowStock(await storage.recordServiceUsage(updated));
+    } else if (appointment.status === "completed") {
+      await storage.restoreServiceUsage(appointment.id);
+    }
+  } catch (error) {
+    // The status change itself still stands; stock can be corrected with a count
+    console.error("Service usage update error:", error);
+  }
+}
+
+// Sales tax already collected for an appointment, from the tax recorded on its completed payments
+function getRecordedTax(transactions: Transaction[]): number {
+  return Math.round(transactions
+    .filter(t => t.status === "completed")
+    .reduce((sum, t) => sum + Number((t.metadata as { tax?: TaxBreakdown } | null)?.tax?.amount || 0), 0) * 100) / 100;
+}
+
+// Price a front desk checkout for an appointment. Read-only, so the same ticket backs the preview and the charge.
+// The service is covered when a package session pays for it; the member discount applies to services only,
+// and redeemed rewards come off what is left after it.
+async function buildCheckoutTicket(appointment: Appointment, input: PosCheckout): Promise<{
+  ticket?: CheckoutTicket;
+  products: { product: Product; quantity: number }[];
+  rewardOptions: RewardOption[];
+  giftCard?: GiftCard;
+  error?: string;
+}> {
+  const lines: CheckoutLineItem[] = [];
+  const soldProducts: { product: Product; quantity: number }[] = [];
+  const rewardOptions: RewardOption[] = [];
+  const fail = (error: string) => ({ products: soldProducts, rewardOptions, error });
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const service = await storage.getService(appointment.serviceId);
+  if (!service) return fail("Service not found");
+  const location = await storage.getLocation(appointment.locationId);
+  const taxRate = Number(location?.taxRate || 0);
+  // Taxable part of the service and add-on lines, and of the product lines
+  let taxableServices = 0;
+  let taxableProducts = 0;
+
+  const coveredByPackage = !!appointment.clientPackageId ||
+    (await storage.getClientPackagesByClient(appointment.clientId)).some(p =>
+      p.serviceId === appointment.serviceId && p.status === "active" && p.sessionsRemaining > 0 &&
+      (!p.expiresAt || p.expiresAt >= appointment.startTime));
+  const servicePrice = coveredByPackage ? 0 : Number(service.price);
+  if (service.isTaxable) taxableServices += servicePrice;
+  lines.push({
+    kind: "service",
+    referenceId: service.id,
+    description: coveredByPackage ? `${service.name} (package session)` : service.name,
+    quantity: 1,
+    unitPrice: servicePrice,
+    amount: servicePrice
+  });
+
+  for (const addOnServiceId of input.addOnServiceIds) {
+    const addOn = await storage.getService(addOnServiceId);
+    if (!addOn || addOn.organizationId !== appointment.organizationId || !addOn.isActive) {
+      return fail("Add-on service not found");
+    }
+    lines.push({ kind: "add_on", referenceId: addOn.id, description: addOn.name, quantity: 1, unitPrice: Number(addOn.price), amount: Number(addOn.price) });
+    if (addOn.isTaxable) taxableServices += Number(addOn.price);
+  }
+
+  // Products are sold from the stock at the appointment's location
+  const locationStock = input.products.length > 0
+    ? (await storage.getProductStockByOrganization(appointment.organizationId)).filter(s => s.locationId === appointment.locationId)
+    : [];
+  for (const { productId, quantity } of input.products) {
+    const product = await storage.getProduct(productId);
+    if (!product || product.organizationId !== appointment.organizationId || !product.isActive || !product.isRetail) {
+      return fail("Product not found");
+    }
+    const onHand = locationStock.find(s => s.productId === product.id)?.quantity ?? 0;
+    if (product.trackInventory && onHand < quantity) {
+      return fail(`Only ${Math.max(onHand, 0)} of ${product.name} in stock`);
+    }
+    soldProducts.push({ product, quantity });
+    lines.push({
+      kind: "product",
+      referenceId: product.id,
+      description: product.name,
+      quantity,
+      unitPrice: Number(product.price),
+      amount: round(Number(product.price) * quantity)
+    });
+    if (product.isTaxable) taxableProducts += round(Number(product.price) * quantity);
+  }
+
+  const serviceTotal = lines.filter(l => l.kind === "service" || l.kind === "add_on").reduce((sum, l) => sum + l.amount, 0);
+  const subtotal = round(lines.reduce((sum, l) => sum + l.amount, 0));
+  let remaining = subtotal;
+  let taxableAmount = taxableServices + taxableProducts;
+
+  if (input.applyMemberDiscount) {
+    const membership = (await storage.getMembershipsByClient(appointment.clientId))
+      .find(m => m.status === "active" && m.organizationId === appointment.organizationId);
+    const memberDiscount = round(serviceTotal * Number(membership?.discountPercentage || 0) / 100);
+    taxableAmount -= taxableServices * Number(membership?.discountPercentage || 0) / 100;
+    if (memberDiscount > 0) {
+      lines.push({
+        kind: "member_discount",
+        referenceId: membership!.id,
+        description: `Member discount (${Number(membership!.discountPercentage)}%)`,
+        quantity: 1,
+        unitPrice: -memberDiscount,
+        amount: -memberDiscount
+      });
+      remaining = round(remaining - memberDiscount);
+    }
+  }
+
+  // Rewards come off the whole ticket, so they reduce the taxable amount in proportion
+  const beforeRewards = remaining;
+  let pointsCost = 0;
+  for (const optionId of input.rewardOptionIds) {
+    const option = await storage.getRewardOptionById(optionId);
+    if (!option || option.organizationId !== appointment.organizationId || !option.isActive) {
+      return fail("Reward option not found");
+    }
+    if (!Number(option.discountValue)) {
+      return fail(`${option.name} can't be redeemed at checkout`);
+    }
+    pointsCost += option.pointsCost;
+    rewardOptions.push(option);
+    const discount = Math.min(Number(option.discountValue), remaining);
+    lines.push({ kind: "reward", referenceId: option.id, description: `Reward: ${option.name}`, quantity: 1, unitPrice: -discount, amount: -discount });
+    remaining = round(remaining - discount);
+  }
+  if (pointsCost > 0 && await storage.getClientRewardBalance(appointment.clientId) < pointsCost) {
+    return fail("Insufficient points balance");
+  }
+
+  if (beforeRewards > 0) {
+    taxableAmount = taxableAmount * remaining / beforeRewards;
+  }
+  taxableAmount = round(Math.max(taxableAmount, 0));
+  const taxTotal = calculateTax(taxableAmount, taxRate);
+
+  const tipAmount = round(input.tipAmount);
+  if (tipAmount > 0) {
+    lines.push({ kind: "tip", referenceId: appointment.staffId, description: "Tip", quantity: 1, unitPrice: tipAmount, amount: tipAmount });
+  }
+
+  const total = round(remaining + taxTotal + tipAmount);
+  const previouslyPaid = Number(appointment.depositPaid || 0) + Number(appointment.giftCardPaid || 0);
+  const due = Math.max(round(total - previouslyPaid), 0);
+
+  let giftCard: GiftCard | undefined;
+  let giftCardApplied = 0;
+  if (input.giftCardCode) {
+    giftCard = await storage.getGiftCardByCode(normalizeGiftCardCode(input.giftCardCode));
+    if (!giftCard || giftCard.status === "pending" || giftCard.organizationId !== appointment.organizationId) {
+      return fail("Gift card not found");
+    }
+    if (giftCard.status !== "active" || (giftCard.expiresAt && giftCard.expiresAt <= new Date())) {
+      return fail(`This gift card is ${giftCard.status === "active" ? "expired" : giftCard.status}`);
+    }
+    const balance = Number(giftCard.balance);
+    if (input.giftCardAmount && input.giftCardAmount > balance) {
+      return fail(`This gift card only has $${balance.toFixed(2)} left`);
+    }
+    giftCardApplied = round(Math.min(input.giftCardAmount ?? balance, balance, due));
+  }
+
+  const amountDue = round(due - giftCardApplied);
+  if (input.paymentMethod === "saved_card" && amountDue > 0 && amountDue < 0.5) {
+    return fail("Card charges must be at least $0.50");
+  }
+
+  return {
+    ticket: {
+      lines,
+      subtotal,
+      discountTotal: round(subtotal - remaining),
+      taxRate,
+      taxableAmount,
+      taxTotal,
+      tipAmount,
+      total,
+      previouslyPaid,
+      giftCardApplied,
+      amountDue
+    },
+    products: soldProducts,
+    rewardOptions,
+    giftCard
+  };
+}
+
 import * as openaiService from "./services/openai";
 import { 
   insertUserSchema, insertOrganizationSchema, insertStaffSchema, insertStaffRoleSchema, 
   insertStaffAvailabilitySchema, insertStaffServiceSchema, insertClientSchema,
   insertAppointmentSchema, insertServiceSchema, insertMembershipSchema, insertMembershipTierSchema,
   insertRewardSchema, insertRewardOptionSchema, insertTransactionSchema, insertAuditLogSchema, insertUsageLogSchema, 
-  insertAiInsightSchema, type User
+  insertAiInsightSchema, insertResourceSchema, insertStaffScheduleExceptionSchema, insertLocationHoursExceptionSchema, insertWaitlistEntrySchema, appointmentRecurrenceSchema,
+  cancellationPolicySchema,
+  normalizePermissions, DEFAULT_STAFF_ROLE_PERMISSIONS, getBufferedWindow, getStaffDaySchedule, getLocalTimeParts, localTimeToUtc, getSeriesOccurrences,
+  getPolicyFee, evaluateCancellation, walletBonusTierSchema, getWalletTopUpBonus,
+  giftCardPurchaseSchema, getGiftCardExpiryMonths, normalizeGiftCardCode, insertTreatmentPackageSchema,
+  type User, type PermissionKey, type Service, type Location, type Staff, type StaffScheduleException,
+  type LocationHoursException, type Organization, type Appointment, type CancellationPolicy,
+  posCheckoutSchema, insertProductSchema,
+  type WalletBonusTier, type ClientPackage, type Product, type RewardOption, type GiftCard,
+  type PosCheckout, type CheckoutTicket, type CheckoutLineItem, type ProductStock,
+  purchaseOrderSchema, receivePurchaseOrderSchema, stockCountSchema, serviceConsumablesSchema,
+  calculateTax, type TaxBreakdown, type Transaction, payPeriodSchema, commissionTiersSchema, type PayPeriod,
+  intakeFormSchema, intakeAnswersSchema, consentFormSchema, consentSignSchema,
+  chartTemplateSchema, chartNoteSchema, chartAddendumSchema, type ChartProduct,
+  photoCategories, photoUploadSchema, photoUpdateSchema,
+  documentCategories, documentUploadSchema, documentUpdateSchema, documentRetentionSchema, type FileStorage
 } from "@shared/schema";
 import { z } from "zod";
 
@@ -184,6 +963,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
+  // Resolve a staff user's permissions from their custom role, falling back to their system role defaults
+  const getStaffPermissions = async (user: User): Promise<Partial<Record<PermissionKey, boolean>>> => {
+    const staffMember = await storage.getStaffByUser(user.id);
+    if (!staffMember || !staffMember.isActive) {
+      return {};
+    }
+
+    if (staffMember.roleId) {
+      const staffRole = await storage.getStaffRole(staffMember.roleId);
+      if (staffRole && staffRole.organizationId === staffMember.organizationId) {
+        return normalizePermissions(staffRole.permissions);
+      }
+    }
+
+    return normalizePermissions(
+      Object.fromEntries(DEFAULT_STAFF_ROLE_PERMISSIONS[staffMember.role].map(key => [key, true]))
+    );
+  };
+
+  // Clinic admins and super admins hold every permission. Patients are not restricted here;
+  // their access is enforced by the route's own role and ownership checks.
+  const userHasPermission = async (user: User, permission: PermissionKey): Promise<boolean> => {
+    if (user.role !== "staff") {
+      return true;
+    }
+    const permissions = await getStaffPermissions(user);
+    return permissions[permission] === true;
+  };
+
+  const requirePermission = (...permissions: PermissionKey[]) => async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (req.user.role !== "staff") {
+      return next();
+    }
+
+    try {
+      const granted = await getStaffPermissions(req.user);
+      const missing = permissions.filter(permission => granted[permission] !== true);
+      if (missing.length > 0) {
+        return res.status(403).json({ message: "Insufficient permissions", missingPermissions: missing });
+      }
+      next();
+    } catch (error) {
+      console.error("Permission check error:", error);
+      res.status(500).json({ message: "Failed to verify permissions" });
+    }
+  };
+
   // Middleware to enforce business setup completion for core clinic features
   const requireBusinessSetupComplete = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -331,41 +1160,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .filter(apt => new Date(apt.endTime) > now && apt.status !== 'cancelled')
         .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
 
-      // Enrich appointments with service, staff, and location names, including timezone
-      const enrichedAppointments = await Promise.all(
-        upcomingAppointments.map(async (apt) => {
-          const service = await storage.getService(apt.serviceId);
-          const staffRecord = await storage.getStaff(apt.staffId);
-          const location = await storage.getLocation(apt.locationId);
-          
-          // Get staff name - prefer title, fallback to user's name
-          let staffName = 'Staff member';
-          if (staffRecord) {
-            if (staffRecord.title) {
-              staffName = staffRecord.title;
-            } else {
-              const user = await storage.getUser(staffRecord.userId);
-              if (user) {
-                staffName = `${user.firstName || ''} ${user.lastName || ''}`.trim() || 'Staff member';
-              }
-            }
-          }
-          
-          // Convert timestamps to UTC ISO strings to ensure proper timezone handling
-          const startTimeUTC = toUTCISOString(apt.startTime);
-          const endTimeUTC = toUTCISOString(apt.endTime);
-          
-          return {
-            ...apt,
-            startTime: startTimeUTC,
-            endTime: endTimeUTC,
-            serviceName: service?.name || 'Service',
-            staffName,
-            locationName: location?.name || 'Location',
-            timezone: location?.timezone || 'America/New_York'
-          };
-        })
-      );
+      const enrichedAppointments = await Promise.all(upcomingAppointments.map(enrichClientAppointment));
 
       res.json(enrichedAppointments);
     } catch (error) {
@@ -374,6 +1169,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get past appointments for patient, most recent first
+  app.get("/api/appointments/past", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.json([]);
+      }
+
+      const allAppointments = await storage.getAppointmentsByClient(client.id);
+      const now = new Date();
+      const pastAppointments = allAppointments
+        .filter(apt => new Date(apt.endTime) <= now && apt.status !== 'canceled')
+        .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+
+      res.json(await Promise.all(pastAppointments.map(enrichClientAppointment)));
+    } catch (error) {
+      console.error("Error fetching past appointments:", error);
+      res.status(500).json({ message: "Failed to fetch past appointments" });
+    }
+  });
+
   // Get patient wallet balance  
   app.get("/api/wallet/balance", requireAuth, async (req, res) => {
     try {
@@ -382,26 +1198,2775 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ balance: 0 });
       }
 
-      // Get all transactions for the client to calculate wallet balance
-      const transactions = await storage.getTransactionsByClient(client.id);
-      
-      // Calculate wallet balance from deposits minus spending
-      const balance = transactions.reduce((total, tx) => {
-        if (tx.type === 'wallet_deposit' || tx.type === 'refund') {
-          return total + (tx.amount || 0);
-        } else if (tx.type === 'wallet_payment') {
-          return total - (tx.amount || 0);
-        }
-        return total;
-      }, 0);
-
-      res.json({ balance });
+      // The balance is kept on the client record, updated in the same database transaction as each ledger entry
+      res.json({ balance: Number(client.walletBalance || 0) });
     } catch (error) {
       console.error("Error fetching wallet balance:", error);
       res.status(500).json({ message: "Failed to fetch wallet balance" });
     }
   });
 
+  // Patient wallet history - top-ups, bonuses, payments and refunds back to the wallet
+  app.get("/api/wallet/transactions", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.json([]);
+      }
+
+      const transactions = await storage.getWalletTransactions(client.id);
+      res.json(transactions.filter(tx => tx.status !== 'pending' || tx.type !== 'wallet_deposit'));
+    } catch (error) {
+      console.error("Error fetching wallet transactions:", error);
+      res.status(500).json({ message: "Failed to fetch wallet history" });
+    }
+  });
+
+  // Top-up bonus tiers - readable by the clinic's staff and patients
+  app.get("/api/wallet/bonus-tiers", requireAuth, async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const organization = await storage.getOrganization(organizationId);
+      res.json(getWalletBonusTiers(organization));
+    } catch (error) {
+      console.error("Error fetching wallet bonus tiers:", error);
+      res.status(500).json({ message: "Failed to fetch wallet bonuses" });
+    }
+  });
+
+  app.put("/api/wallet/bonus-tiers", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const tiers = z.array(walletBonusTierSchema).max(10).parse(req.body.tiers);
+      await storage.updateOrganization(organizationId, { walletBonusTiers: tiers });
+      await auditLog(req, "update", "wallet_bonus_tiers", organizationId, { tiers });
+
+      res.json(tiers);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update wallet bonus tiers error:", error);
+      res.status(500).json({ message: "Failed to update wallet bonuses" });
+    }
+  });
+
+  // Start a card-funded wallet top-up; the wallet is credited once the payment is confirmed
+  app.post("/api/wallet/top-up", requireAuth, async (req, res) => {
+    try {
+      const { amount } = z.object({ amount: z.number().min(10).max(5000) }).parse(req.body);
+
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.status(400).json({ message: "Client profile not found" });
+      }
+
+      if (!stripe) {
+        return res.status(500).json({ message: "Payment system not configured" });
+      }
+
+      const organization = await storage.getOrganization(client.organizationId);
+      if (!organization?.stripeConnectAccountId) {
+        return res.status(400).json({ 
+          message: "Payment system not configured. Clinic must complete Stripe Connect onboarding first.",
+          error_code: "STRIPE_CONNECT_REQUIRED"
+        });
+      }
+
+      const bonusAmount = getWalletTopUpBonus(getWalletBonusTiers(organization), amount);
+
+      // Same destination charge and platform commission as booking payments
+      const orgPlan = organization.subscriptionPlanId ? 
+        await storage.getSubscriptionPlan(organization.subscriptionPlanId) : null;
+      const commissionPercent = orgPlan?.tier === 'enterprise' ? 10 : 12;
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(amount * 100), // Convert to cents
+        currency: 'usd',
+        automatic_payment_methods: {
+          enabled: true,
+        },
+        application_fee_amount: Math.round((amount * commissionPercent / 100) * 100),
+        transfer_data: {
+          destination: organization.stripeConnectAccountId,
+        },
+        on_behalf_of: organization.stripeConnectAccountId,
+        metadata: {
+          organizationId: organization.id,
+          clientId: client.id,
+          paymentType: "wallet_top_up",
+          platformCommission: `${commissionPercent}%`
+        }
+      });
+
+      await storage.createTransaction({
+        organizationId: organization.id,
+        clientId: client.id,
+        amount: amount.toFixed(2),
+        type: "wallet_deposit",
+        status: "pending",
+        paymentMethod: "card",
+        stripePaymentIntentId: paymentIntent.id,
+        description: "Wallet top-up",
+        metadata: { bonusAmount }
+      });
+
+      res.json({
+        clientSecret: paymentIntent.client_secret,
+        amount,
+        bonusAmount
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Wallet top-up error:", error);
+      res.status(500).json({ message: "Failed to start wallet top-up" });
+    }
+  });
+
+  app.post("/api/wallet/top-up/confirm", requireAuth, async (req, res) => {
+    try {
+      const { paymentIntentId } = req.body;
+      if (!paymentIntentId) {
+        return res.status(400).json({ message: "Payment Intent ID required" });
+      }
+
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.status(400).json({ message: "Client profile not found" });
+      }
+
+      const topUp = (await storage.getWalletTransactions(client.id))
+        .find(tx => tx.type === 'wallet_deposit' && tx.stripePaymentIntentId === paymentIntentId);
+      if (!topUp) {
+        return res.status(404).json({ message: "Top-up not found" });
+      }
+
+      if (!stripe) {
+        return res.status(500).json({ message: "Payment system not configured" });
+      }
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      if (paymentIntent.status !== 'succeeded') {
+        return res.status(400).json({ message: "Payment not confirmed" });
+      }
+
+      const bonusAmount = Number((topUp.metadata as { bonusAmount?: number } | null)?.bonusAmount || 0);
+      const result = await storage.completeWalletTopUp(topUp.id, bonusAmount);
+      if (result) {
+        await auditLog(req, "wallet_top_up", "client", client.id, {
+          amount: topUp.amount,
+          bonusAmount,
+          paymentIntentId
+        });
+      }
+
+      // A repeated confirmation finds the top-up already credited and just reports the balance
+      const balance = result ? result.balance : (await storage.getClient(client.id))?.walletBalance;
+      res.json({ balance: Number(balance || 0), credited: !!result });
+    } catch (error) {
+      console.error("Wallet top-up confirmation error:", error);
+      res.status(500).json({ message: "Failed to confirm wallet top-up" });
+    }
+  });
+
+  // Release a booking the patient abandoned before paying: cancel its card payment and give back held wallet funds and credits
+  app.post("/api/wallet/release", requireAuth, async (req, res) => {
+    try {
+      const { appointmentId } = req.body;
+      const appointment = appointmentId ? await storage.getAppointment(appointmentId) : undefined;
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client || client.id !== appointment.clientId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (appointment.status !== "pending") {
+        return res.status(400).json({ message: "Only unpaid bookings can release wallet funds" });
+      }
+
+      // The card payment intent is canceled too, so a payment form left open can't charge a released booking
+      const released = await pendingBookingService.releaseBooking(appointment, "unpaid booking");
+      if (!released) {
+        return res.status(409).json({ message: "This booking can no longer be released" });
+      }
+
+      res.json({
+        released: !!released.wallet || !!released.credits,
+        balance: Number(released.wallet?.balance ?? client.walletBalance ?? 0),
+        creditBalance: released.credits ? Number(released.credits.balance) : undefined
+      });
+    } catch (error) {
+      console.error("Wallet release error:", error);
+      res.status(500).json({ message: "Failed to release wallet funds" });
+    }
+  });
+
+  // Gift card expiry settings
+  app.get("/api/gift-card-settings", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const organization = await storage.getOrganization(organizationId);
+      res.json({
+        giftCardState: organization?.giftCardState || null,
+        giftCardExpiryMonths: organization?.giftCardExpiryMonths ?? null,
+        effectiveExpiryMonths: getGiftCardExpiryMonths(organization?.giftCardState, organization?.giftCardExpiryMonths)
+      });
+    } catch (error) {
+      console.error("Error fetching gift card settings:", error);
+      res.status(500).json({ message: "Failed to fetch gift card settings" });
+    }
+  });
+
+  app.put("/api/gift-card-settings", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const settings = z.object({
+        giftCardState: z.string().length(2).transform(state => state.toUpperCase()).nullable(),
+        giftCardExpiryMonths: z.number().int().min(1).nullable()
+      }).parse(req.body);
+
+      await storage.updateOrganization(organizationId, settings);
+      await auditLog(req, "update", "gift_card_settings", organizationId, settings);
+
+      // Cards already sold keep the expiry they were issued with
+      res.json({
+        ...settings,
+        effectiveExpiryMonths: getGiftCardExpiryMonths(settings.giftCardState, settings.giftCardExpiryMonths)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update gift card settings error:", error);
+      res.status(500).json({ message: "Failed to update gift card settings" });
+    }
+  });
+
+  // Gift cards sold by the clinic
+  app.get("/api/gift-cards", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("payments.process"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const giftCards = await storage.getGiftCardsByOrganization(organizationId);
+      res.json(giftCards.filter(card => card.status !== "pending"));
+    } catch (error) {
+      console.error("Error fetching gift cards:", error);
+      res.status(500).json({ message: "Failed to fetch gift cards" });
+    }
+  });
+
+  // Front desk sale, paid in person
+  app.post("/api/gift-cards", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("payments.process"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      const organization = organizationId ? await storage.getOrganization(organizationId) : undefined;
+      if (!organization) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const sale = giftCardPurchaseSchema.extend({
+        paymentMethod: z.enum(["cash", "card", "check"]),
+        clientId: z.string().uuid().optional()
+      }).parse(req.body);
+
+      if (sale.clientId) {
+        const client = await storage.getClient(sale.clientId);
+        if (!client || client.organizationId !== organization.id) {
+          return res.status(400).json({ message: "Client not found" });
+        }
+      }
+
+      const card = await storage.createGiftCard({
+        organizationId: organization.id,
+        code: await giftCardService.generateCode(),
+        initialAmount: sale.amount.toFixed(2),
+        balance: sale.amount.toFixed(2),
+        purchaserClientId: sale.clientId || null,
+        purchaserName: sale.purchaserName,
+        purchaserEmail: sale.purchaserEmail || null,
+        recipientName: sale.recipientName || null,
+        recipientEmail: sale.recipientEmail || null,
+        message: sale.message || null,
+        soldBy: req.user!.id
+      });
+      const activated = await giftCardService.activate(card, organization, {
+        paymentMethod: sale.paymentMethod,
+        clientId: sale.clientId,
+        soldBy: req.user!.id
+      });
+
+      await auditLog(req, "sell", "gift_card", card.id, { amount: sale.amount, paymentMethod: sale.paymentMethod });
+
+      res.status(201).json(activated || card);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Sell gift card error:", error);
+      res.status(500).json({ message: "Failed to sell gift card" });
+    }
+  });
+
+  // Void a card, e.g. when its purchase is refunded; the remaining balance comes off the liability
+  app.post("/api/gift-cards/:id/void", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("payments.refund"), async (req, res) => {
+    try {
+      const card = await storage.getGiftCard(req.params.id);
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!card || card.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Gift card not found" });
+      }
+
+      const result = await storage.closeGiftCard(card.id, "void", {
+        organizationId: card.organizationId,
+        clientId: card.purchaserClientId,
+        type: "gift_card_void",
+        status: "completed",
+        description: `Gift card ${giftCardService.formatCode(card.code)} voided${req.body.reason ? `: ${req.body.reason}` : ""}`,
+        metadata: { giftCardId: card.id, voidedBy: req.user!.id }
+      });
+      if (!result) {
+        return res.status(400).json({ message: "Only active gift cards can be voided" });
+      }
+
+      await auditLog(req, "void", "gift_card", card.id, {
+        balance: result.transaction.amount,
+        reason: req.body.reason
+      });
+
+      res.json(result.giftCard);
+    } catch (error) {
+      console.error("Void gift card error:", error);
+      res.status(500).json({ message: "Failed to void gift card" });
+    }
+  });
+
+  // Public balance lookup by code
+  app.get("/api/gift-cards/lookup/:code", async (req, res) => {
+    try {
+      const card = await storage.getGiftCardByCode(normalizeGiftCardCode(req.params.code));
+      if (!card || card.status === "pending") {
+        return res.status(404).json({ message: "Gift card not found" });
+      }
+
+      const organization = await storage.getOrganization(card.organizationId);
+      res.json({
+        code: giftCardService.formatCode(card.code),
+        balance: Number(card.balance),
+        initialAmount: Number(card.initialAmount),
+        status: card.status,
+        expiresAt: card.expiresAt,
+        organizationName: organization?.name
+      });
+    } catch (error) {
+      console.error("Gift card lookup error:", error);
+      res.status(500).json({ message: "Failed to look up gift card" });
+    }
+  });
+
+  // Public online purchase from the clinic's booking link; the card is activated once payment is confirmed
+  app.post("/api/gift-cards/purchase", async (req, res) => {
+    try {
+      const purchase = giftCardPurchaseSchema.extend({
+        slug: z.string().min(1),
+        purchaserEmail: z.string().email()
+      }).parse(req.body);
+
+      const organization = await getOrganizationByPublicSlug(purchase.slug);
+      if (!organization) {
+        return res.status(404).json({ message: "Clinic not found" });
+      }
+
+      if (!stripe) {
+        return res.status(500).json({ message: "Payment system not configured" });
+      }
+      if (!organization.stripeConnectAccountId) {
+        return res.status(400).json({ 
+          message: "Payment system not configured. Clinic must complete Stripe Connect onboarding first.",
+          error_code: "STRIPE_CONNECT_REQUIRED"
+        });
+      }
+
+      const purchaser = req.isAuthenticated() ? await storage.getClientByUser(req.user!.id) : undefined;
+
+      // Same destination charge and platform commission as booking payments
+      const orgPlan = organization.subscriptionPlanId ? 
+        await storage.getSubscriptionPlan(organization.subscriptionPlanId) : null;
+      const commissionPercent = orgPlan?.tier === 'enterprise' ? 10 : 12;
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(purchase.amount * 100), // Convert to cents
+        currency: 'usd',
+        automatic_payment_methods: {
+          enabled: true,
+        },
+        application_fee_amount: Math.round((purchase.amount * commissionPercent / 100) * 100),
+        transfer_data: {
+          destination: organization.stripeConnectAccountId,
+        },
+        on_behalf_of: organization.stripeConnectAccountId,
+        receipt_email: purchase.purchaserEmail,
+        metadata: {
+          organizationId: organization.id,
+          paymentType: "gift_card",
+          platformCommission: `${commissionPercent}%`
+        }
+      });
+
+      const card = await storage.createGiftCard({
+        organizationId: organization.id,
+        code: await giftCardService.generateCode(),
+        initialAmount: purchase.amount.toFixed(2),
+        balance: purchase.amount.toFixed(2),
+        purchaserClientId: purchaser && purchaser.organizationId === organization.id ? purchaser.id : null,
+        purchaserName: purchase.purchaserName,
+        purchaserEmail: purchase.purchaserEmail,
+        recipientName: purchase.recipientName || null,
+        recipientEmail: purchase.recipientEmail || null,
+        message: purchase.message || null,
+        stripePaymentIntentId: paymentIntent.id
+      });
+
+      res.json({
+        giftCardId: card.id,
+        clientSecret: paymentIntent.client_secret,
+        amount: purchase.amount
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Gift card purchase error:", error);
+      res.status(500).json({ message: "Failed to start gift card purchase" });
+    }
+  });
+
+  app.post("/api/gift-cards/purchase/confirm", async (req, res) => {
+    try {
+      const { giftCardId, paymentIntentId } = req.body;
+      const card = giftCardId ? await storage.getGiftCard(giftCardId) : undefined;
+      if (!card || !paymentIntentId || card.stripePaymentIntentId !== paymentIntentId) {
+        return res.status(404).json({ message: "Gift card purchase not found" });
+      }
+
+      if (card.status === "pending") {
+        if (!stripe) {
+          return res.status(500).json({ message: "Payment system not configured" });
+        }
+        const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+        if (paymentIntent.status !== 'succeeded') {
+          return res.status(400).json({ message: "Payment not confirmed" });
+        }
+
+        const organization = await storage.getOrganization(card.organizationId);
+        if (!organization) {
+          return res.status(404).json({ message: "Clinic not found" });
+        }
+        await giftCardService.activate(card, organization, {
+          paymentMethod: "card",
+          clientId: card.purchaserClientId
+        });
+      }
+
+      // A repeated confirmation finds the card already active and just returns it
+      const activated = await storage.getGiftCard(card.id);
+      res.json({
+        code: giftCardService.formatCode(activated!.code),
+        balance: Number(activated!.balance),
+        expiresAt: activated!.expiresAt,
+        recipientEmail: activated!.recipientEmail
+      });
+    } catch (error) {
+      console.error("Gift card purchase confirmation error:", error);
+      res.status(500).json({ message: "Failed to confirm gift card purchase" });
+    }
+  });
+
+  // Redeem part or all of a card against an appointment's unpaid balance or a membership's dues.
+  // Staff can redeem for any client of their clinic; patients only for their own bookings and membership.
+  app.post("/api/gift-cards/redeem", requireAuth, requirePermission("payments.process"), async (req, res) => {
+    try {
+      const redemption = z.object({
+        code: z.string().min(1),
+        amount: z.number().positive(),
+        appointmentId: z.string().uuid().optional(),
+        membershipId: z.string().uuid().optional()
+      }).refine(data => !!data.appointmentId !== !!data.membershipId, {
+        message: "Redeem against either an appointment or a membership"
+      }).parse(req.body);
+      const amount = Math.round(redemption.amount * 100) / 100;
+
+      const appointment = redemption.appointmentId ? await storage.getAppointment(redemption.appointmentId) : undefined;
+      const membership = redemption.membershipId ? await storage.getMembership(redemption.membershipId) : undefined;
+      const target = appointment || membership;
+      if (!target) {
+        return res.status(404).json({ message: redemption.appointmentId ? "Appointment not found" : "Membership not found" });
+      }
+
+      if (req.user!.role === "patient") {
+        const client = await storage.getClientByUser(req.user!.id);
+        if (!client || client.id !== target.clientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (req.user!.role !== "super_admin" && await getUserOrganizationId(req.user!) !== target.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const card = await storage.getGiftCardByCode(normalizeGiftCardCode(redemption.code));
+      if (!card || card.status === "pending" || card.organizationId !== target.organizationId) {
+        return res.status(404).json({ message: "Gift card not found" });
+      }
+      if (card.status !== "active" || (card.expiresAt && card.expiresAt <= new Date())) {
+        return res.status(400).json({ message: `This gift card is ${card.status === "active" ? "expired" : card.status}` });
+      }
+
+      let amountDue: number;
+      if (appointment) {
+        if (!["pending", "scheduled", "confirmed", "in_progress", "completed"].includes(appointment.status || "")) {
+          return res.status(400).json({ message: "Gift cards can't be applied to this appointment" });
+        }
+        amountDue = Number(appointment.totalAmount || 0) - Number(appointment.depositPaid || 0) - Number(appointment.giftCardPaid || 0);
+      } else {
+        amountDue = Number(membership!.monthlyFee);
+      }
+      if (amount > Math.round(amountDue * 100) / 100) {
+        return res.status(400).json({ message: `Only $${Math.max(amountDue, 0).toFixed(2)} is due` });
+      }
+      if (amount > Number(card.balance)) {
+        return res.status(400).json({ message: `This gift card only has $${Number(card.balance).toFixed(2)} left` });
+      }
+
+      // Membership dues are billed by Stripe, so the redeemed amount becomes credit on the next invoice
+      const organization = await storage.getOrganization(target.organizationId);
+      const client = await storage.getClient(target.clientId);
+      let stripeCredit = false;
+      if (membership) {
+        if (!client?.stripeCustomerId || !organization?.stripeConnectAccountId) {
+          return res.status(400).json({ message: "This membership has no billing account to credit" });
+        }
+        await stripeService.creditCustomerBalance(
+          Math.round(amount * 100), // Convert to cents
+          client.stripeCustomerId,
+          `Gift card ${giftCardService.formatCode(card.code)}`,
+          organization.stripeConnectAccountId
+        );
+        stripeCredit = true;
+      }
+
+      const result = await storage.redeemGiftCard(card.id, amount, {
+        organizationId: target.organizationId,
+        clientId: target.clientId,
+        appointmentId: appointment?.id || null,
+        membershipId: membership?.id || null,
+        amount: amount.toFixed(2),
+        type: "gift_card_redemption",
+        status: "completed",
+        paymentMethod: "gift_card",
+        description: `Gift card ${giftCardService.formatCode(card.code)} redeemed`,
+        metadata: { giftCardId: card.id, redeemedBy: req.user!.id }
+      });
+      if (!result) {
+        if (stripeCredit) {
+          // Take back the credit added above
+          await stripeService.creditCustomerBalance(
+            -Math.round(amount * 100),
+            client!.stripeCustomerId!,
+            `Reversal: gift card ${giftCardService.formatCode(card.code)}`,
+            organization!.stripeConnectAccountId!
+          );
+        }
+        return res.status(409).json({ message: "Gift card balance changed, please try again" });
+      }
+
+      if (appointment) {
+        await storage.updateAppointment(appointment.id, appointment.organizationId, {
+          giftCardPaid: (Number(appointment.giftCardPaid || 0) + amount).toFixed(2)
+        });
+      }
+
+      await auditLog(req, "redeem", "gift_card", card.id, {
+        amount,
+        appointmentId: appointment?.id,
+        membershipId: membership?.id
+      });
+
+      res.json({
+        redeemed: amount,
+        balance: Number(result.giftCard.balance),
+        status: result.giftCard.status
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Gift card redemption error:", error);
+      res.status(500).json({ message: "Failed to redeem gift card" });
+    }
+  });
+
+  // Gift card liability: money taken for cards minus what has been redeemed, expired or voided
+  app.get("/api/reports/gift-cards", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("reports.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const from = req.query.from ? new Date(req.query.from as string) : null;
+      const to = req.query.to ? new Date(req.query.to as string) : null;
+      const entries = (await storage.getGiftCardTransactions(organizationId)).filter(t => t.status === "completed");
+
+      const totals = (list: typeof entries) => {
+        const sum = (type: string) => Math.round(list
+          .filter(t => t.type === type)
+          .reduce((total, t) => total + Number(t.amount), 0) * 100) / 100;
+        return {
+          sold: sum("gift_card_sale"),
+          redeemed: sum("gift_card_redemption"),
+          expired: sum("gift_card_expiry"),
+          voided: sum("gift_card_void")
+        };
+      };
+
+      const allTime = totals(entries);
+      const period = totals(entries.filter(t =>
+        t.createdAt && (!from || t.createdAt >= from) && (!to || t.createdAt <= to)
+      ));
+      const outstandingLiability = Math.round((allTime.sold - allTime.redeemed - allTime.expired - allTime.voided) * 100) / 100;
+
+      // Balances on the cards themselves, to reconcile against the ledger
+      const activeCards = (await storage.getGiftCardsByOrganization(organizationId)).filter(card => card.status === "active");
+      const activeCardBalance = Math.round(activeCards.reduce((total, card) => total + Number(card.balance), 0) * 100) / 100;
+
+      res.json({
+        outstandingLiability,
+        activeCardCount: activeCards.length,
+        activeCardBalance,
+        allTime,
+        period
+      });
+    } catch (error) {
+      console.error("Gift card report error:", error);
+      res.status(500).json({ message: "Failed to generate gift card report" });
+    }
+  });
+
+  // Sales tax collected in a period, by location and by month, from the tax recorded on each payment
+  app.get("/api/reports/tax", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("reports.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const from = req.query.from ? new Date(req.query.from as string) : null;
+      const to = req.query.to ? new Date(req.query.to as string) : null;
+      const entries = (await storage.getTransactionsByOrganization(organizationId))
+        .filter(t => t.status === "completed" && t.createdAt && (!from || t.createdAt >= from) && (!to || t.createdAt <= to))
+        .map(t => ({ createdAt: t.createdAt!, tax: (t.metadata as { tax?: TaxBreakdown } | null)?.tax }))
+        .filter((entry): entry is { createdAt: Date; tax: TaxBreakdown } => !!entry.tax && entry.tax.amount !== 0);
+
+      const locations = await storage.getLocationsByOrganization(organizationId);
+      const byLocation = new Map<string, { locationId: string; locationName: string; taxRate: number; taxCollected: number; payments: number }>();
+      const byMonth = new Map<string, number>();
+      let taxCollected = 0;
+      for (const { createdAt, tax } of entries) {
+        const location = locations.find(l => l.id === tax.locationId);
+        const row = byLocation.get(tax.locationId) || {
+          locationId: tax.locationId,
+          locationName: location?.name || "Location",
+          taxRate: Number(location?.taxRate || 0),
+          taxCollected: 0,
+          payments: 0
+        };
+        row.taxCollected = Math.round((row.taxCollected + tax.amount) * 100) / 100;
+        row.payments++;
+        byLocation.set(tax.locationId, row);
+
+        const month = `${createdAt.getFullYear()}-${String(createdAt.getMonth() + 1).padStart(2, "0")}`;
+        byMonth.set(month, Math.round(((byMonth.get(month) || 0) + tax.amount) * 100) / 100);
+        taxCollected += tax.amount;
+      }
+
+      res.json({
+        taxCollected: Math.round(taxCollected * 100) / 100,
+        byLocation: Array.from(byLocation.values()).sort((a, b) => b.taxCollected - a.taxCollected),
+        byMonth: Array.from(byMonth.entries())
+          .map(([month, amount]) => ({ month, taxCollected: amount }))
+          .sort((a, b) => a.month.localeCompare(b.month))
+      });
+    } catch (error) {
+      console.error("Tax report error:", error);
+      res.status(500).json({ message: "Failed to generate tax report" });
+    }
+  });
+
+  // Commission and tips owed to each provider for the appointments they completed in a period
+  app.get("/api/reports/provider-payouts", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("reports.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const from = req.query.from ? new Date(req.query.from as string) : null;
+      const to = req.query.to ? new Date(req.query.to as string) : null;
+      const statements = await payoutService.buildStatements(organizationId, from, to, req.query.staffId as string | undefined);
+
+      res.json({
+        totalCommission: Math.round(statements.reduce((sum, s) => sum + s.commission, 0) * 100) / 100,
+        totalTips: Math.round(statements.reduce((sum, s) => sum + s.tips, 0) * 100) / 100,
+        statements
+      });
+    } catch (error) {
+      console.error("Provider payouts report error:", error);
+      res.status(500).json({ message: "Failed to generate provider payouts report" });
+    }
+  });
+
+  // Payroll: pay periods whose statements are worked out live until the period is locked for the bookkeeper
+  const getOrganizationPayPeriod = async (req: Request, res: Response): Promise<PayPeriod | undefined> => {
+    const organizationId = await getUserOrganizationId(req.user!);
+    const period = await storage.getPayPeriod(req.params.id);
+    if (!period || period.organizationId !== organizationId) {
+      res.status(404).json({ message: "Pay period not found" });
+      return undefined;
+    }
+    return period;
+  };
+
+  app.get("/api/pay-periods", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("reports.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+      const periods = await storage.getPayPeriodsByOrganization(organizationId);
+      res.json(periods.map(({ statements, ...period }) => period));
+    } catch (error) {
+      console.error("Pay periods error:", error);
+      res.status(500).json({ message: "Failed to fetch pay periods" });
+    }
+  });
+
+  app.post("/api/pay-periods", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("reports.payroll"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const { startDate, endDate } = payPeriodSchema.parse(req.body);
+      const overlapping = (await storage.getPayPeriodsByOrganization(organizationId))
+        .find(p => p.startDate <= endDate && p.endDate >= startDate);
+      if (overlapping) {
+        return res.status(409).json({ message: `Overlaps the ${overlapping.startDate} to ${overlapping.endDate} pay period` });
+      }
+
+      const period = await storage.createPayPeriod({ organizationId, startDate, endDate, createdBy: req.user!.id });
+      await auditLog(req, "create", "pay_period", period.id, { startDate, endDate });
+      res.status(201).json(period);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create pay period error:", error);
+      res.status(500).json({ message: "Failed to create pay period" });
+    }
+  });
+
+  // Locked periods return the statements as they were when locked
+  app.get("/api/pay-periods/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("reports.view"), async (req, res) => {
+    try {
+      const period = await getOrganizationPayPeriod(req, res);
+      if (!period) return;
+
+      const statements = period.status === "locked"
+        ? period.statements
+        : await payoutService.buildPayroll(period.organizationId, period.startDate, period.endDate);
+      res.json({ ...period, statements });
+    } catch (error) {
+      console.error("Pay period error:", error);
+      res.status(500).json({ message: "Failed to fetch pay period" });
+    }
+  });
+
+  app.post("/api/pay-periods/:id/lock", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("reports.payroll"), async (req, res) => {
+    try {
+      const period = await getOrganizationPayPeriod(req, res);
+      if (!period) return;
+
+      const statements = await payoutService.buildPayroll(period.organizationId, period.startDate, period.endDate);
+      const locked = await storage.lockPayPeriod(period.id, period.organizationId, statements, req.user!.id);
+      if (!locked) {
+        return res.status(409).json({ message: "This pay period is already locked" });
+      }
+
+      await auditLog(req, "lock", "pay_period", period.id, {
+        totalPay: Math.round(statements.reduce((sum, s) => sum + s.totalPay, 0) * 100) / 100
+      });
+      res.json(locked);
+    } catch (error) {
+      console.error("Lock pay period error:", error);
+      res.status(500).json({ message: "Failed to lock pay period" });
+    }
+  });
+
+  // Reopening a period discards its frozen statements, so only clinic admins can do it
+  app.post("/api/pay-periods/:id/unlock", requireAuth, requireRole("clinic_admin"), async (req, res) => {
+    try {
+      const period = await getOrganizationPayPeriod(req, res);
+      if (!period) return;
+
+      const unlocked = await storage.unlockPayPeriod(period.id, period.organizationId);
+      if (!unlocked) {
+        return res.status(409).json({ message: "This pay period isn't locked" });
+      }
+
+      await auditLog(req, "unlock", "pay_period", period.id, { lockedAt: period.lockedAt, lockedBy: period.lockedBy });
+      res.json(unlocked);
+    } catch (error) {
+      console.error("Unlock pay period error:", error);
+      res.status(500).json({ message: "Failed to unlock pay period" });
+    }
+  });
+
+  app.get("/api/pay-periods/:id/export.csv", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("reports.payroll"), async (req, res) => {
+    try {
+      const period = await getOrganizationPayPeriod(req, res);
+      if (!period) return;
+
+      const statements = period.status === "locked"
+        ? period.statements as PayrollStatement[]
+        : await payoutService.buildPayroll(period.organizationId, period.startDate, period.endDate);
+
+      await auditLog(req, "export", "pay_period", period.id, { status: period.status });
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="payroll-${period.startDate}-to-${period.endDate}.csv"`);
+      res.send(payoutService.toCsv(statements, period.startDate, period.endDate));
+    } catch (error) {
+      console.error("Export pay period error:", error);
+      res.status(500).json({ message: "Failed to export pay period" });
+    }
+  });
+
+  // Time clock: staff clock themselves in and out; the hours feed hourly pay
+  app.get("/api/time-clock/status", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+    try {
+      const staffMember = await storage.getStaffByUser(req.user!.id);
+      if (!staffMember) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+      res.json({ entry: await storage.getOpenTimeClockEntry(staffMember.id) || null });
+    } catch (error) {
+      console.error("Time clock status error:", error);
+      res.status(500).json({ message: "Failed to fetch time clock status" });
+    }
+  });
+
+  app.post("/api/time-clock/clock-in", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+    try {
+      const staffMember = await storage.getStaffByUser(req.user!.id);
+      if (!staffMember) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+
+      const entry = await storage.clockIn({
+        organizationId: staffMember.organizationId,
+        staffId: staffMember.id,
+        clockIn: new Date()
+      });
+      if (!entry) {
+        return res.status(409).json({ message: "You're already clocked in" });
+      }
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Clock in error:", error);
+      res.status(500).json({ message: "Failed to clock in" });
+    }
+  });
+
+  app.post("/api/time-clock/clock-out", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+    try {
+      const staffMember = await storage.getStaffByUser(req.user!.id);
+      if (!staffMember) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+
+      const entry = await storage.clockOut(staffMember.id, new Date());
+      if (!entry) {
+        return res.status(409).json({ message: "You're not clocked in" });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Clock out error:", error);
+      res.status(500).json({ message: "Failed to clock out" });
+    }
+  });
+
+  app.get("/api/time-clock/entries", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("reports.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 14 * 24 * 60 * 60 * 1000);
+      const entries = await storage.getTimeClockEntries(organizationId, from, to);
+      const staffMembers = await storage.getStaffByOrganization(organizationId);
+      const names = new Map<string, string>();
+      for (const staffMember of staffMembers) {
+        const user = await storage.getUser(staffMember.userId);
+        names.set(staffMember.id, `${user?.firstName || ""} ${user?.lastName || ""}`.trim() || staffMember.title || "Staff member");
+      }
+      res.json(entries.map(entry => ({ ...entry, staffName: names.get(entry.staffId) || "Former staff member" })));
+    } catch (error) {
+      console.error("Time clock entries error:", error);
+      res.status(500).json({ message: "Failed to fetch time clock entries" });
+    }
+  });
+
+  // Intake forms: clinic-built questionnaires sent to clients when they book a service the form is attached to
+  app.get("/api/intake-forms", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+      res.json(await storage.getIntakeFormsByOrganization(organizationId));
+    } catch (error) {
+      console.error("Get intake forms error:", error);
+      res.status(500).json({ message: "Failed to fetch intake forms" });
+    }
+  });
+
+  app.post("/api/intake-forms", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.manageForms"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const formData = intakeFormSchema.parse(req.body);
+      const services = await storage.getServicesByOrganization(organizationId);
+      if (formData.serviceIds.some(serviceId => !services.some(service => service.id === serviceId))) {
+        return res.status(400).json({ message: "Service not found" });
+      }
+
+      const form = await storage.createIntakeForm({ ...formData, organizationId });
+      await auditLog(req, "create", "intake_form", form.id, { name: form.name });
+      res.status(201).json(form);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create intake form error:", error);
+      res.status(500).json({ message: "Failed to create intake form" });
+    }
+  });
+
+  // Changing the questions starts a new version; submissions keep the version they answered
+  app.put("/api/intake-forms/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.manageForms"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      const existing = await storage.getIntakeForm(req.params.id);
+      if (!existing || existing.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Intake form not found" });
+      }
+
+      const formData = intakeFormSchema.parse(req.body);
+      const services = await storage.getServicesByOrganization(existing.organizationId);
+      if (formData.serviceIds.some(serviceId => !services.some(service => service.id === serviceId))) {
+        return res.status(400).json({ message: "Service not found" });
+      }
+
+      const newVersion = JSON.stringify(formData.sections) !== JSON.stringify(existing.sections);
+      const form = await storage.updateIntakeForm(existing.id, formData, newVersion);
+      await auditLog(req, "update", "intake_form", form.id, { name: form.name, version: form.version });
+      res.json(form);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update intake form error:", error);
+      res.status(500).json({ message: "Failed to update intake form" });
+    }
+  });
+
+  // Every submission on file for a client, newest first, including earlier versions of the same form
+  app.get("/api/clients/:id/intake-submissions", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.view"), async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!client || client.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(await storage.getIntakeSubmissionsByClient(client.id));
+    } catch (error) {
+      console.error("Get client intake submissions error:", error);
+      res.status(500).json({ message: "Failed to fetch intake submissions" });
+    }
+  });
+
+  app.get("/api/appointments/:id/intake", requireAuth, requirePermission("clients.view"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      if (req.user!.role === "patient") {
+        const client = await storage.getClientByUser(req.user!.id);
+        if (!client || client.id !== appointment.clientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (req.user!.role !== "super_admin" && await getUserOrganizationId(req.user!) !== appointment.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(await intakeFormService.getForAppointment(appointment));
+    } catch (error) {
+      console.error("Get appointment intake error:", error);
+      res.status(500).json({ message: "Failed to fetch intake forms" });
+    }
+  });
+
+  // Patient portal: forms sent to the signed-in client
+  app.get("/api/intake/my-forms", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.json([]);
+      }
+      res.json(await storage.getIntakeSubmissionsByClient(client.id));
+    } catch (error) {
+      console.error("Get my intake forms error:", error);
+      res.status(500).json({ message: "Failed to fetch intake forms" });
+    }
+  });
+
+  app.get("/api/intake/submissions/:id", requireAuth, requirePermission("clients.view"), async (req, res) => {
+    try {
+      const submission = await storage.getIntakeSubmission(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      if (req.user!.role === "patient") {
+        const client = await storage.getClientByUser(req.user!.id);
+        if (!client || client.id !== submission.clientId) {
+          return res.status(404).json({ message: "Form not found" });
+        }
+      } else if (req.user!.role !== "super_admin" && await getUserOrganizationId(req.user!) !== submission.organizationId) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      const form = await storage.getIntakeForm(submission.formId);
+      res.json({
+        ...submission,
+        description: form?.description || null,
+        sections: await intakeFormService.getSections(submission)
+      });
+    } catch (error) {
+      console.error("Get intake submission error:", error);
+      res.status(500).json({ message: "Failed to fetch form" });
+    }
+  });
+
+  app.post("/api/intake/submissions/:id", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      const submission = await storage.getIntakeSubmission(req.params.id);
+      if (!client || !submission || submission.clientId !== client.id) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      if (submission.status !== "pending") {
+        return res.status(409).json({ message: "This form has already been completed" });
+      }
+
+      const { answers } = z.object({ answers: intakeAnswersSchema }).parse(req.body);
+      const result = await intakeFormService.complete(submission, answers);
+      if (result.missing.length > 0) {
+        return res.status(400).json({ message: "Please answer all required questions", missing: result.missing });
+      }
+      if (!result.submission) {
+        return res.status(409).json({ message: "This form has already been completed" });
+      }
+
+      await auditLog(req, "submit", "intake_submission", submission.id, { formId: submission.formId, version: result.submission.formVersion });
+      res.json(result.submission);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Submit intake form error:", error);
+      res.status(500).json({ message: "Failed to submit form" });
+    }
+  });
+
+  // Consent forms: signed by the client before services that require consent can start
+  app.get("/api/consent-forms", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+      res.json(await storage.getConsentFormsByOrganization(organizationId));
+    } catch (error) {
+      console.error("Get consent forms error:", error);
+      res.status(500).json({ message: "Failed to fetch consent forms" });
+    }
+  });
+
+  app.post("/api/consent-forms", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.manageForms"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const formData = consentFormSchema.parse(req.body);
+      const services = await storage.getServicesByOrganization(organizationId);
+      if (formData.serviceIds.some(serviceId => !services.some(service => service.id === serviceId))) {
+        return res.status(400).json({ message: "Service not found" });
+      }
+
+      const form = await storage.createConsentForm({ ...formData, organizationId });
+      await auditLog(req, "create", "consent_form", form.id, { name: form.name });
+      res.status(201).json(form);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create consent form error:", error);
+      res.status(500).json({ message: "Failed to create consent form" });
+    }
+  });
+
+  // Changing the text starts a new version, which every client has to sign again
+  app.put("/api/consent-forms/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.manageForms"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      const existing = await storage.getConsentForm(req.params.id);
+      if (!existing || existing.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Consent form not found" });
+      }
+
+      const formData = consentFormSchema.parse(req.body);
+      const services = await storage.getServicesByOrganization(existing.organizationId);
+      if (formData.serviceIds.some(serviceId => !services.some(service => service.id === serviceId))) {
+        return res.status(400).json({ message: "Service not found" });
+      }
+
+      const form = await storage.updateConsentForm(existing.id, formData, formData.content !== existing.content);
+      await auditLog(req, "update", "consent_form", form.id, { name: form.name, version: form.version });
+      res.json(form);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update consent form error:", error);
+      res.status(500).json({ message: "Failed to update consent form" });
+    }
+  });
+
+  // Which consents the appointment's service needs and whether each is signed, for staff and the client
+  app.get("/api/appointments/:id/consents", requireAuth, requirePermission("clients.view"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      if (req.user!.role === "patient") {
+        const client = await storage.getClientByUser(req.user!.id);
+        if (!client || client.id !== appointment.clientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (req.user!.role !== "super_admin" && await getUserOrganizationId(req.user!) !== appointment.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Clients sign ahead of time, so a consent that lapses before the visit is shown as needed
+      const at = req.user!.role === "patient" ? new Date(Math.max(Date.now(), new Date(appointment.startTime).getTime())) : new Date();
+      res.json(await consentService.getStatus(appointment, at));
+    } catch (error) {
+      console.error("Get appointment consents error:", error);
+      res.status(500).json({ message: "Failed to fetch consents" });
+    }
+  });
+
+  // The client signs in their portal, or on a clinic device handed over by staff
+  app.post("/api/appointments/:id/consents/:formId/sign", requireAuth, requirePermission("appointments.edit"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const isPatient = req.user!.role === "patient";
+      if (isPatient) {
+        const patientClient = await storage.getClientByUser(req.user!.id);
+        if (!patientClient || patientClient.id !== appointment.clientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (!["clinic_admin", "staff"].includes(req.user!.role) || await getUserOrganizationId(req.user!) !== appointment.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const form = await storage.getConsentForm(req.params.formId);
+      const service = await storage.getService(appointment.serviceId);
+      if (!form || !form.isActive || form.organizationId !== appointment.organizationId ||
+          !service || !((form.serviceIds as string[] | null) || []).includes(service.id)) {
+        return res.status(404).json({ message: "Consent form not found" });
+      }
+
+      const client = await storage.getClient(appointment.clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const { typedName, signatureImage } = consentSignSchema.parse(req.body);
+      const signature = await consentService.sign(form, client, {
+        typedName,
+        signatureImage,
+        ipAddress: req.ip || null,
+        userAgent: req.get("user-agent") || null,
+        appointmentId: appointment.id,
+        collectedBy: isPatient ? null : req.user!.id
+      });
+
+      await auditLog(req, "sign", "consent_signature", signature.id, {
+        consentFormId: form.id, version: form.version, clientId: client.id, appointmentId: appointment.id
+      });
+      res.status(201).json(signature);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Sign consent error:", error);
+      res.status(500).json({ message: "Failed to record consent" });
+    }
+  });
+
+  // Patient portal: upcoming visits with consents still to sign
+  app.get("/api/consents/pending", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.json([]);
+      }
+
+      const now = new Date();
+      const upcoming = (await storage.getAppointmentsByClient(client.id))
+        .filter(apt => new Date(apt.startTime) > now && ["pending", "scheduled", "confirmed"].includes(apt.status || ""))
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+      const pending = [];
+      for (const appointment of upcoming) {
+        const status = await consentService.getStatus(appointment, new Date(appointment.startTime));
+        if (status.missing.length === 0) continue;
+        const service = await storage.getService(appointment.serviceId);
+        pending.push({
+          appointmentId: appointment.id,
+          serviceName: service?.name || "Appointment",
+          startTime: appointment.startTime,
+          forms: status.missing
+        });
+      }
+      res.json(pending);
+    } catch (error) {
+      console.error("Get pending consents error:", error);
+      res.status(500).json({ message: "Failed to fetch consents" });
+    }
+  });
+
+  app.get("/api/clients/:id/consents", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.view"), async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!client || client.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const signatures = await storage.getConsentSignaturesByClient(client.id);
+      res.json(signatures.map(signature => ({ ...signature, verified: consentService.verify(signature) })));
+    } catch (error) {
+      console.error("Get client consents error:", error);
+      res.status(500).json({ message: "Failed to fetch consents" });
+    }
+  });
+
+  // Chart templates: starting text for the SOAP sections when charting a service
+  app.get("/api/chart-templates", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("charts.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+      res.json(await storage.getChartTemplatesByOrganization(organizationId));
+    } catch (error) {
+      console.error("Get chart templates error:", error);
+      res.status(500).json({ message: "Failed to fetch chart templates" });
+    }
+  });
+
+  app.post("/api/chart-templates", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.manageForms"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const templateData = chartTemplateSchema.parse(req.body);
+      const services = await storage.getServicesByOrganization(organizationId);
+      if (templateData.serviceIds.some(serviceId => !services.some(service => service.id === serviceId))) {
+        return res.status(400).json({ message: "Service not found" });
+      }
+
+      const template = await storage.createChartTemplate({ ...templateData, organizationId });
+      await auditLog(req, "create", "chart_template", template.id, { name: template.name });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create chart template error:", error);
+      res.status(500).json({ message: "Failed to create chart template" });
+    }
+  });
+
+  app.put("/api/chart-templates/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.manageForms"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      const existing = await storage.getChartTemplate(req.params.id);
+      if (!existing || existing.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Chart template not found" });
+      }
+
+      const templateData = chartTemplateSchema.parse(req.body);
+      const services = await storage.getServicesByOrganization(existing.organizationId);
+      if (templateData.serviceIds.some(serviceId => !services.some(service => service.id === serviceId))) {
+        return res.status(400).json({ message: "Service not found" });
+      }
+
+      const template = await storage.updateChartTemplate(existing.id, templateData);
+      await auditLog(req, "update", "chart_template", template.id, { name: template.name });
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update chart template error:", error);
+      res.status(500).json({ message: "Failed to update chart template" });
+    }
+  });
+
+  // The appointment's chart with its addenda, or null when nothing has been charted yet
+  app.get("/api/appointments/:id/chart", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("charts.view"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || appointment.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const note = await storage.getChartNoteByAppointment(appointment.id);
+      res.json(note ? (await chartService.withDetails([note]))[0] : null);
+    } catch (error) {
+      console.error("Get chart error:", error);
+      res.status(500).json({ message: "Failed to fetch chart" });
+    }
+  });
+
+  // Saves the draft; a signed chart is locked and only takes addenda
+  app.put("/api/appointments/:id/chart", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("charts.write"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || appointment.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const chartData = chartNoteSchema.parse(req.body);
+      if (chartData.templateId) {
+        const template = await storage.getChartTemplate(chartData.templateId);
+        if (!template || template.organizationId !== organizationId) {
+          return res.status(400).json({ message: "Chart template not found" });
+        }
+      }
+      const products = await storage.getProductsByOrganization(appointment.organizationId);
+      if (chartData.productsUsed.some(used => used.productId && !products.some(product => product.id === used.productId))) {
+        return res.status(400).json({ message: "Product not found" });
+      }
+
+      const note = await chartService.save(appointment, chartData, req.user!.id);
+      if (!note) {
+        return res.status(409).json({ message: "This chart is signed and locked. Add an addendum instead." });
+      }
+
+      await auditLog(req, "update", "chart_note", note.id, { appointmentId: appointment.id });
+      res.json((await chartService.withDetails([note]))[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Save chart error:", error);
+      res.status(500).json({ message: "Failed to save chart" });
+    }
+  });
+
+  app.post("/api/appointments/:id/chart/sign", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("charts.write"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || appointment.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const existing = await storage.getChartNoteByAppointment(appointment.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Save the chart before signing it" });
+      }
+      const charted = [existing.subjective, existing.objective, existing.assessment, existing.plan].some(text => text?.trim()) ||
+        ((existing.productsUsed as ChartProduct[] | null) || []).length > 0;
+      if (!charted) {
+        return res.status(400).json({ message: "An empty chart can't be signed" });
+      }
+
+      const note = await storage.signChartNote(existing.id, req.user!.id);
+      if (!note) {
+        return res.status(409).json({ message: "This chart is already signed" });
+      }
+
+      await auditLog(req, "sign", "chart_note", note.id, { appointmentId: appointment.id });
+      res.json((await chartService.withDetails([note]))[0]);
+    } catch (error) {
+      console.error("Sign chart error:", error);
+      res.status(500).json({ message: "Failed to sign chart" });
+    }
+  });
+
+  app.post("/api/appointments/:id/chart/addenda", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("charts.write"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || appointment.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const note = await storage.getChartNoteByAppointment(appointment.id);
+      if (!note || note.status !== "signed") {
+        return res.status(409).json({ message: "Addenda can only be added to a signed chart. Edit the draft instead." });
+      }
+
+      const { content } = chartAddendumSchema.parse(req.body);
+      const addendum = await storage.createChartAddendum({ chartNoteId: note.id, content, createdBy: req.user!.id });
+      await auditLog(req, "create", "chart_addendum", addendum.id, { chartNoteId: note.id });
+      res.status(201).json(addendum);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Add chart addendum error:", error);
+      res.status(500).json({ message: "Failed to add addendum" });
+    }
+  });
+
+  // Every chart for a client, most recent visit first
+  app.get("/api/clients/:id/charts", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("charts.view"), async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      if (!client || client.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const charts = await chartService.withDetails(await storage.getChartNotesByClient(client.id));
+      charts.sort((a, b) => new Date(b.appointmentStartTime || b.createdAt!).getTime() - new Date(a.appointmentStartTime || a.createdAt!).getTime());
+      res.json(charts);
+    } catch (error) {
+      console.error("Get client charts error:", error);
+      res.status(500).json({ message: "Failed to fetch charts" });
+    }
+  });
+
+  // Respond to an upload the file store turned away; infected files are recorded in the audit log
+  const rejectUpload = async (req: Request, res: Response, result: Exclude<UploadResult, { ok: true }>, clientId: string) => {
+    if (result.reason === "infected") {
+      await auditLog(req, "upload_blocked", "file", undefined, { clientId, threat: result.threat, fileName: req.query.fileName });
+      return res.status(422).json({ message: "The file failed the virus scan and was not stored", error_code: "FILE_INFECTED" });
+    }
+    return res.status(415).json({ message: "The file isn't a valid file of its stated type" });
+  };
+
+  // Clinical photos: before/after images in the file store, grouped by treatment in the client's gallery
+  app.get("/api/clients/:id/photos", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.view"), async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      if (!client || client.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(await storage.getFilesByClient(client.id, [...photoCategories]));
+    } catch (error) {
+      console.error("Get client photos error:", error);
+      res.status(500).json({ message: "Failed to fetch photos" });
+    }
+  });
+
+  // The image is the raw request body; its details come in the query string
+  app.post("/api/clients/:id/photos", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.edit"),
+    express.raw({ type: UPLOAD_IMAGE_TYPES, limit: MAX_UPLOAD_BYTES }), async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      if (!client || client.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(415).json({ message: "Upload a JPEG, PNG or WebP image" });
+      }
+
+      const details = photoUploadSchema.parse(req.query);
+      let serviceId: string | null = null;
+      if (details.appointmentId) {
+        const appointment = await storage.getAppointment(details.appointmentId);
+        if (!appointment || appointment.clientId !== client.id) {
+          return res.status(400).json({ message: "Appointment not found" });
+        }
+        serviceId = appointment.serviceId;
+      }
+
+      const result = await fileStoreService.uploadImage({
+        organizationId: client.organizationId,
+        clientId: client.id,
+        appointmentId: details.appointmentId || null,
+        serviceId,
+        uploadedById: req.user!.id,
+        originalName: details.fileName,
+        category: details.category,
+        tags: details.tags,
+        takenAt: details.takenAt ? new Date(details.takenAt) : new Date()
+      }, req.get("content-type")!.split(";")[0].trim(), req.body);
+      if (!result.ok) {
+        return rejectUpload(req, res, result, client.id);
+      }
+
+      await auditLog(req, "upload", "file", result.file.id, { clientId: client.id, category: result.file.category });
+      res.status(201).json(result.file);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Upload photo error:", error);
+      res.status(500).json({ message: "Failed to upload photo" });
+    }
+  });
+
+  // Public files are served to anyone; others to the clinic's staff and the client they belong to
+  app.get("/api/files/:id", async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      if (!file.isPublic) {
+        if (!req.isAuthenticated()) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+        if (req.user!.role === "patient") {
+          // Patients download documents through signed links, so every download is logged
+          const client = await storage.getClientByUser(req.user!.id);
+          if (!client || !file.clientId || client.id !== file.clientId || isDocument(file)) {
+            return res.status(404).json({ message: "File not found" });
+          }
+        } else if (req.user!.role !== "super_admin" && (
+          await getUserOrganizationId(req.user!) !== file.organizationId || !await userHasPermission(req.user!, "clients.view")
+        )) {
+          return res.status(404).json({ message: "File not found" });
+        }
+      }
+
+      const data = await fileStoreService.read(file);
+      if (!data) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if (isDocument(file)) {
+        await auditLog(req, req.query.download ? "download" : "view", "document", file.id, { clientId: file.clientId });
+      }
+
+      sendFile(res, file, data, req.query.download ? "attachment" : "inline");
+    } catch (error) {
+      console.error("Download file error:", error);
+      res.status(500).json({ message: "Failed to fetch file" });
+    }
+  });
+
+  // Stored files are served with their recorded type and never sniffed, so an upload can't run as a page
+  const sendFile = (res: Response, file: FileStorage, data: Buffer, disposition: "attachment" | "inline") => {
+    res.setHeader("Content-Type", file.mimeType);
+    res.setHeader("Content-Length", data.length);
+    res.setHeader("Content-Disposition", `${disposition}; filename="${file.originalName.replace(/[^\w.\- ]/g, "_")}"`);
+    res.setHeader("Cache-Control", file.isPublic ? "public, max-age=3600" : "private, no-store");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.send(data);
+  };
+
+  app.patch("/api/files/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.edit"), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.organizationId !== await getUserOrganizationId(req.user!) || isDocument(file)) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const updates = photoUpdateSchema.parse(req.body);
+      const client = file.clientId ? await storage.getClient(file.clientId) : undefined;
+      // Only the client can allow marketing use, from their portal
+      if (updates.isPublic && !client?.photoMarketingConsentAt) {
+        return res.status(409).json({
+          message: "The client hasn't consented to marketing use of their photos",
+          error_code: "PHOTO_CONSENT_REQUIRED"
+        });
+      }
+
+      let serviceId = file.serviceId;
+      if (updates.appointmentId !== undefined) {
+        serviceId = null;
+        if (updates.appointmentId) {
+          const appointment = await storage.getAppointment(updates.appointmentId);
+          if (!appointment || appointment.clientId !== file.clientId) {
+            return res.status(400).json({ message: "Appointment not found" });
+          }
+          serviceId = appointment.serviceId;
+        }
+      }
+
+      const updated = await storage.updateFile(file.id, { ...updates, serviceId });
+      await auditLog(req, "update", "file", file.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update file error:", error);
+      res.status(500).json({ message: "Failed to update file" });
+    }
+  });
+
+  app.delete("/api/files/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.edit"), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      await fileStoreService.delete(file);
+      await auditLog(req, "delete", isDocument(file) ? "document" : "file", file.id, { clientId: file.clientId, originalName: file.originalName });
+      res.json({ message: "File deleted" });
+    } catch (error) {
+      console.error("Delete file error:", error);
+      res.status(500).json({ message: "Failed to delete file" });
+    }
+  });
+
+  // Patient portal: the client's own permission for the clinic to use their photos in marketing
+  app.get("/api/photos/consent", requireAuth, requireRole("patient"), async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json({ consentedAt: client.photoMarketingConsentAt });
+    } catch (error) {
+      console.error("Get photo consent error:", error);
+      res.status(500).json({ message: "Failed to fetch photo consent" });
+    }
+  });
+
+  // Withdrawing consent takes every photo of the client out of public use straight away
+  app.put("/api/photos/consent", requireAuth, requireRole("patient"), async (req, res) => {
+    try {
+      const { consent } = z.object({ consent: z.boolean() }).parse(req.body);
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const updated = await storage.updateClient(client.id, { photoMarketingConsentAt: consent ? new Date() : null });
+      const unpublished = consent ? 0 : await storage.unpublishClientFiles(client.id);
+      await auditLog(req, consent ? "grant" : "withdraw", "photo_consent", client.id, { unpublished });
+      res.json({ consentedAt: updated.photoMarketingConsentAt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update photo consent error:", error);
+      res.status(500).json({ message: "Failed to update photo consent" });
+    }
+  });
+
+  // Document vault: lab results, referrals and signed paperwork kept per client. Every access is written to the audit log.
+  app.get("/api/clients/:id/documents", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.view"), async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      if (!client || client.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(await storage.getFilesByClient(client.id, [...documentCategories]));
+    } catch (error) {
+      console.error("Get client documents error:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  // The file is the raw request body; its details come in the query string
+  app.post("/api/clients/:id/documents", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.edit"),
+    express.raw({ type: UPLOAD_DOCUMENT_TYPES, limit: MAX_UPLOAD_BYTES }), async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      if (!client || client.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(415).json({ message: "Upload a PDF, JPEG, PNG or WebP file" });
+      }
+
+      const details = documentUploadSchema.parse(req.query);
+      const result = await fileStoreService.uploadDocument({
+        organizationId: client.organizationId,
+        clientId: client.id,
+        uploadedById: req.user!.id,
+        originalName: details.fileName,
+        category: details.category,
+        tags: details.tags,
+        sharedWithClient: details.sharedWithClient
+      }, req.get("content-type")!.split(";")[0].trim(), req.body);
+      if (!result.ok) {
+        return rejectUpload(req, res, result, client.id);
+      }
+
+      await auditLog(req, "upload", "document", result.file.id, {
+        clientId: client.id, category: result.file.category, scanStatus: result.file.scanStatus
+      });
+      res.status(201).json(result.file);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Upload document error:", error);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  });
+
+  app.patch("/api/documents/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.edit"), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || !isDocument(file) || file.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const updates = documentUpdateSchema.parse(req.body);
+      const updated = await storage.updateFile(file.id, updates);
+      const action = updates.sharedWithClient === undefined || updates.sharedWithClient === file.sharedWithClient
+        ? "update"
+        : updates.sharedWithClient ? "share" : "unshare";
+      await auditLog(req, action, "document", file.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update document error:", error);
+      res.status(500).json({ message: "Failed to update document" });
+    }
+  });
+
+  app.get("/api/documents/:id/access-log", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.view"), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || !isDocument(file) || file.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.json(await documentService.getAccessLog(file));
+    } catch (error) {
+      console.error("Get document access log error:", error);
+      res.status(500).json({ message: "Failed to fetch access log" });
+    }
+  });
+
+  // Patient portal: documents the clinic has shared with the client
+  app.get("/api/documents/my", requireAuth, requireRole("patient"), async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      const documents = await storage.getFilesByClient(client.id, [...documentCategories]);
+      res.json(documents.filter(document => document.sharedWithClient));
+    } catch (error) {
+      console.error("Get my documents error:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  /**
+   * Create a signed, time-limited download link. Patients get a short-lived link to a document shared
+   * with them; staff can choose a longer expiry and have the link emailed to the client.
+   */
+  app.post("/api/documents/:id/link", requireAuth, requireRole("clinic_admin", "staff", "patient"), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || !isDocument(file) || !file.clientId) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      if (req.user!.role === "patient") {
+        const client = await storage.getClientByUser(req.user!.id);
+        if (!client || client.id !== file.clientId || !file.sharedWithClient) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+        const link = documentService.createDownloadLink(file, PATIENT_LINK_TTL_SECONDS);
+        await auditLog(req, "create_link", "document", file.id, { expiresAt: link.expiresAt });
+        return res.json(link);
+      }
+
+      if (file.organizationId !== await getUserOrganizationId(req.user!) || !await userHasPermission(req.user!, "clients.view")) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      // Links only download documents the client can see, so an unshared document's link would never work
+      if (!file.sharedWithClient) {
+        return res.status(409).json({ message: "Share the document with the client before sending a link" });
+      }
+      const { expiresInHours, sendToClient } = z.object({
+        expiresInHours: z.number().int().min(1).max(MAX_LINK_TTL_SECONDS / 3600).default(24),
+        sendToClient: z.boolean().default(false)
+      }).parse(req.body);
+
+      const link = documentService.createDownloadLink(file, expiresInHours * 3600);
+      let emailed = false;
+      if (sendToClient) {
+        const client = await storage.getClient(file.clientId);
+        if (!client?.email) {
+          return res.status(400).json({ message: "The client has no email address" });
+        }
+        const organization = await storage.getOrganization(file.organizationId);
+        const absoluteUrl = `${req.protocol}://${req.get('host')}${link.url}`;
+        const expiry = link.expiresAt.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+        const clinicName = organization?.name || "Your clinic";
+        const result = await sendEmail({
+          to: client.email,
+          subject: `A document from ${organization?.name || "your clinic"}`,
+          html: `<p>Hi ${escapeHtml(client.firstName)},</p><p>${escapeHtml(clinicName)} has shared a document with you: <strong>${escapeHtml(file.originalName)}</strong>.</p><p><a href="${escapeHtml(absoluteUrl)}">Download the document</a></p><p>This link expires on ${expiry}.</p>`,
+          text: `Hi ${client.firstName},\n\n${clinicName} has shared a document with you: ${file.originalName}.\n\nDownload it here: ${absoluteUrl}\n\nThis link expires on ${expiry}.`,
+          fromName: organization?.name
+        });
+        emailed = result.success;
+      }
+
+      await auditLog(req, "create_link", "document", file.id, { expiresAt: link.expiresAt, emailedToClient: emailed });
+      res.json({ ...link, emailed });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create document link error:", error);
+      res.status(500).json({ message: "Failed to create download link" });
+    }
+  });
+
+  // Signed links work without a session; the signature and expiry are the authorization
+  app.get("/api/documents/:id/download", async (req, res) => {
+    try {
+      const valid = documentService.verifyDownloadLink(req.params.id, String(req.query.expires || ""), String(req.query.signature || ""));
+      if (!valid) {
+        return res.status(403).json({ message: "This download link is invalid or has expired" });
+      }
+      const file = await storage.getFile(req.params.id);
+      if (!file || !documentService.canDownloadByLink(file, await storage.getOrganization(file.organizationId))) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      const data = await fileStoreService.read(file);
+      if (!data) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      // Written directly rather than through auditLog, which only records signed-in users
+      await storage.createAuditLog({
+        userId: req.user?.id ?? null,
+        organizationId: file.organizationId,
+        action: "download",
+        resource: "document",
+        resourceId: file.id,
+        changes: { clientId: file.clientId, via: "signed_link" },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent")
+      });
+      sendFile(res, file, data, "attachment");
+    } catch (error) {
+      console.error("Download document error:", error);
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  });
+
+  // Retention rules: months to keep documents of each category before the nightly job deletes them
+  app.get("/api/document-retention", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+      res.json(getDocumentRetention(await storage.getOrganization(organizationId)));
+    } catch (error) {
+      console.error("Get document retention error:", error);
+      res.status(500).json({ message: "Failed to fetch document retention" });
+    }
+  });
+
+  app.put("/api/document-retention", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const retention = documentRetentionSchema.parse(req.body);
+      await storage.updateOrganization(organizationId, { documentRetention: retention });
+      await auditLog(req, "update", "document_retention", organizationId, retention);
+      res.json(retention);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update document retention error:", error);
+      res.status(500).json({ message: "Failed to update document retention" });
+    }
+  });
+
+  // Treatment packages: prepaid bundles of sessions of one service
+  app.get("/api/packages", requireAuth, requirePermission("services.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const packages = await storage.getTreatmentPackagesByOrganization(organizationId);
+      // Patients only see what is currently on sale
+      res.json(req.user!.role === "patient" ? packages.filter(p => p.isActive) : packages);
+    } catch (error) {
+      console.error("Error fetching packages:", error);
+      res.status(500).json({ message: "Failed to fetch packages" });
+    }
+  });
+
+  app.post("/api/packages", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("services.create", "services.setPricing"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const packageData = insertTreatmentPackageSchema.parse({ ...req.body, organizationId });
+
+      const service = await storage.getService(packageData.serviceId);
+      if (!service || service.organizationId !== organizationId) {
+        return res.status(400).json({ message: "Service does not belong to your organization" });
+      }
+
+      const treatmentPackage = await storage.createTreatmentPackage(packageData);
+      await auditLog(req, "create", "treatment_package", treatmentPackage.id, packageData);
+
+      res.status(201).json(treatmentPackage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create package error:", error);
+      res.status(500).json({ message: "Failed to create package" });
+    }
+  });
+
+  // Changes apply to future purchases; packages already sold keep their sessions and expiry
+  app.put("/api/packages/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("services.edit", "services.setPricing"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const updates = insertTreatmentPackageSchema.omit({ organizationId: true }).partial().parse(req.body);
+
+      if (updates.serviceId) {
+        const service = await storage.getService(updates.serviceId);
+        if (!service || service.organizationId !== organizationId) {
+          return res.status(400).json({ message: "Service does not belong to your organization" });
+        }
+      }
+
+      const treatmentPackage = await storage.updateTreatmentPackage(req.params.id, organizationId, updates);
+      if (!treatmentPackage) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+      await auditLog(req, "update", "treatment_package", treatmentPackage.id, updates);
+
+      res.json(treatmentPackage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update package error:", error);
+      res.status(500).json({ message: "Failed to update package" });
+    }
+  });
+
+  // Packages are taken off sale rather than deleted so sold packages keep their references
+  app.delete("/api/packages/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("services.edit"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const treatmentPackage = await storage.updateTreatmentPackage(req.params.id, organizationId, { isActive: false });
+      if (!treatmentPackage) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+      await auditLog(req, "delete", "treatment_package", treatmentPackage.id, { isActive: false });
+
+      res.json({ message: "Package deactivated" });
+    } catch (error) {
+      console.error("Delete package error:", error);
+      res.status(500).json({ message: "Failed to delete package" });
+    }
+  });
+
+  // The signed-in patient's packages and their remaining sessions
+  app.get("/api/packages/my-packages", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.json([]);
+      }
+
+      const clientPackages = await storage.getClientPackagesByClient(client.id);
+      res.json(clientPackages.filter(p => p.status !== "pending"));
+    } catch (error) {
+      console.error("Error fetching client packages:", error);
+      res.status(500).json({ message: "Failed to fetch packages" });
+    }
+  });
+
+  // Online purchase by the patient; the package is activated once payment is confirmed
+  app.post("/api/packages/:id/purchase", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.status(400).json({ message: "Client profile not found" });
+      }
+
+      const treatmentPackage = await storage.getTreatmentPackage(req.params.id);
+      if (!treatmentPackage || !treatmentPackage.isActive || treatmentPackage.organizationId !== client.organizationId) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+
+      if (!stripe) {
+        return res.status(500).json({ message: "Payment system not configured" });
+      }
+
+      const organization = await storage.getOrganization(client.organizationId);
+      if (!organization?.stripeConnectAccountId) {
+        return res.status(400).json({ 
+          message: "Payment system not configured. Clinic must complete Stripe Connect onboarding first.",
+          error_code: "STRIPE_CONNECT_REQUIRED"
+        });
+      }
+
+      const amount = Number(treatmentPackage.price);
+
+      // Same destination charge and platform commission as booking payments
+      const orgPlan = organization.subscriptionPlanId ? 
+        await storage.getSubscriptionPlan(organization.subscriptionPlanId) : null;
+      const commissionPercent = orgPlan?.tier === 'enterprise' ? 10 : 12;
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(amount * 100), // Convert to cents
+        currency: 'usd',
+        automatic_payment_methods: {
+          enabled: true,
+        },
+        application_fee_amount: Math.round((amount * commissionPercent / 100) * 100),
+        transfer_data: {
+          destination: organization.stripeConnectAccountId,
+        },
+        on_behalf_of: organization.stripeConnectAccountId,
+        metadata: {
+          organizationId: organization.id,
+          clientId: client.id,
+          packageId: treatmentPackage.id,
+          paymentType: "package",
+          platformCommission: `${commissionPercent}%`
+        }
+      });
+
+      const clientPackage = await storage.createClientPackage({
+        organizationId: organization.id,
+        clientId: client.id,
+        packageId: treatmentPackage.id,
+        serviceId: treatmentPackage.serviceId,
+        name: treatmentPackage.name,
+        sessionsTotal: treatmentPackage.sessionCount,
+        sessionsRemaining: treatmentPackage.sessionCount,
+        pricePaid: treatmentPackage.price,
+        stripePaymentIntentId: paymentIntent.id
+      });
+
+      res.json({
+        clientPackageId: clientPackage.id,
+        clientSecret: paymentIntent.client_secret,
+        amount
+      });
+    } catch (error) {
+      console.error("Package purchase error:", error);
+      res.status(500).json({ message: "Failed to start package purchase" });
+    }
+  });
+
+  app.post("/api/packages/purchase/confirm", requireAuth, async (req, res) => {
+    try {
+      const { clientPackageId, paymentIntentId } = req.body;
+      const client = await storage.getClientByUser(req.user!.id);
+      const clientPackage = clientPackageId ? await storage.getClientPackage(clientPackageId) : undefined;
+      if (!client || !clientPackage || clientPackage.clientId !== client.id ||
+          !paymentIntentId || clientPackage.stripePaymentIntentId !== paymentIntentId) {
+        return res.status(404).json({ message: "Package purchase not found" });
+      }
+
+      if (clientPackage.status === "pending") {
+        if (!stripe) {
+          return res.status(500).json({ message: "Payment system not configured" });
+        }
+        const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+        if (paymentIntent.status !== 'succeeded') {
+          return res.status(400).json({ message: "Payment not confirmed" });
+        }
+
+        await activatePackagePurchase(clientPackage, { paymentMethod: "card" });
+      }
+
+      // A repeated confirmation finds the package already active and just returns it
+      res.json(await storage.getClientPackage(clientPackage.id));
+    } catch (error) {
+      console.error("Package purchase confirmation error:", error);
+      res.status(500).json({ message: "Failed to confirm package purchase" });
+    }
+  });
+
+  app.get("/api/clients/:id/packages", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("clients.view"), async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!client || client.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const clientPackages = await storage.getClientPackagesByClient(client.id);
+      res.json(clientPackages.filter(p => p.status !== "pending"));
+    } catch (error) {
+      console.error("Error fetching client packages:", error);
+      res.status(500).json({ message: "Failed to fetch client packages" });
+    }
+  });
+
+  // Front desk sale, paid in person
+  app.post("/api/clients/:id/packages", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("payments.process"), async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!client || client.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const sale = z.object({
+        packageId: z.string().uuid(),
+        paymentMethod: z.enum(["cash", "card", "check"])
+      }).parse(req.body);
+
+      const treatmentPackage = await storage.getTreatmentPackage(sale.packageId);
+      if (!treatmentPackage || !treatmentPackage.isActive || treatmentPackage.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+
+      const clientPackage = await storage.createClientPackage({
+        organizationId: client.organizationId,
+        clientId: client.id,
+        packageId: treatmentPackage.id,
+        serviceId: treatmentPackage.serviceId,
+        name: treatmentPackage.name,
+        sessionsTotal: treatmentPackage.sessionCount,
+        sessionsRemaining: treatmentPackage.sessionCount,
+        pricePaid: treatmentPackage.price,
+        soldBy: req.user!.id
+      });
+      const activated = await activatePackagePurchase(clientPackage, { paymentMethod: sale.paymentMethod, soldBy: req.user!.id });
+
+      await auditLog(req, "sell", "client_package", clientPackage.id, { ...sale, clientId: client.id });
+
+      res.status(201).json(activated || clientPackage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Sell package error:", error);
+      res.status(500).json({ message: "Failed to sell package" });
+    }
+  });
+
+  // Retail products sold at the front desk checkout
+  app.get("/api/products", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      res.json(await storage.getProductsByOrganization(organizationId));
+    } catch (error) {
+      console.error("Error fetching products:", error);
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  app.post("/api/products", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.manage"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const productData = insertProductSchema.parse({ ...req.body, organizationId });
+      const product = await storage.createProduct(productData);
+      await auditLog(req, "create", "product", product.id, productData);
+
+      res.status(201).json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create product error:", error);
+      res.status(500).json({ message: "Failed to create product" });
+    }
+  });
+
+  // Catalog and price changes; stock only changes through counts, purchase orders, sales and treatments
+  app.put("/api/products/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.manage"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const updates = insertProductSchema.omit({ organizationId: true }).partial().parse(req.body);
+      const product = await storage.updateProduct(req.params.id, organizationId, updates);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      await auditLog(req, "update", "product", product.id, updates);
+
+      res.json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update product error:", error);
+      res.status(500).json({ message: "Failed to update product" });
+    }
+  });
+
+  // Products are taken off sale rather than deleted so past tickets keep their references
+  app.delete("/api/products/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.manage"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const product = await storage.updateProduct(req.params.id, organizationId, { isActive: false });
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      await auditLog(req, "delete", "product", product.id, { isActive: false });
+
+      res.json({ message: "Product deactivated" });
+    } catch (error) {
+      console.error("Delete product error:", error);
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
+  // Stock on hand for every product at every location
+  app.get("/api/inventory/stock", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      res.json(await storage.getProductStockByOrganization(organizationId));
+    } catch (error) {
+      console.error("Error fetching stock:", error);
+      res.status(500).json({ message: "Failed to fetch stock" });
+    }
+  });
+
+  app.get("/api/inventory/movements", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const filters = z.object({
+        productId: z.string().uuid().optional(),
+        locationId: z.string().uuid().optional()
+      }).parse(req.query);
+
+      res.json(await storage.getStockMovements(organizationId, filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Record a stocktake: the location's stock is set to what was counted
+  app.post("/api/products/:id/count", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.manage"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      const product = await storage.getProduct(req.params.id);
+      if (!product || product.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (!product.trackInventory) {
+        return res.status(400).json({ message: "Stock isn't tracked for this product" });
+      }
+
+      const count = stockCountSchema.parse(req.body);
+      const location = await storage.getLocation(count.locationId);
+      if (!location || location.organizationId !== organizationId) {
+        return res.status(400).json({ message: "Location does not belong to your organization" });
+      }
+
+      const stock = await storage.countProductStock({
+        organizationId: product.organizationId,
+        productId: product.id,
+        locationId: location.id,
+        quantity: count.quantity,
+        reason: "count",
+        note: count.note || null,
+        createdBy: req.user!.id
+      });
+      await auditLog(req, "count", "product", product.id, count);
+      await alertLowStock([stock]);
+
+      res.json(stock);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Stock count error:", error);
+      res.status(500).json({ message: "Failed to record stock count" });
+    }
+  });
+
+  // Purchase orders with their items, newest first
+  app.get("/api/purchase-orders", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.view"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const orders = await storage.getPurchaseOrdersByOrganization(organizationId);
+      const items = await storage.getPurchaseOrderItems(orders.map(o => o.id));
+      res.json(orders.map(order => ({ ...order, items: items.filter(i => i.purchaseOrderId === order.id) })));
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.post("/api/purchase-orders", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.receive"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const orderData = purchaseOrderSchema.parse(req.body);
+      const location = await storage.getLocation(orderData.locationId);
+      if (!location || location.organizationId !== organizationId) {
+        return res.status(400).json({ message: "Location does not belong to your organization" });
+      }
+      for (const item of orderData.items) {
+        const product = await storage.getProduct(item.productId);
+        if (!product || product.organizationId !== organizationId) {
+          return res.status(400).json({ message: "Product does not belong to your organization" });
+        }
+      }
+
+      const order = await storage.createPurchaseOrder({
+        organizationId,
+        locationId: location.id,
+        supplier: orderData.supplier,
+        reference: orderData.reference || null,
+        notes: orderData.notes || null,
+        createdBy: req.user!.id
+      }, orderData.items.map(item => ({
+        productId: item.productId,
+        quantityOrdered: item.quantity,
+        unitCost: item.unitCost.toFixed(2)
+      })));
+      await auditLog(req, "create", "purchase_order", order.id, orderData);
+
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create purchase order error:", error);
+      res.status(500).json({ message: "Failed to create purchase order" });
+    }
+  });
+
+  // Receive a delivery into the order's location; lines not listed are taken as delivered in full
+  app.post("/api/purchase-orders/:id/receive", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.receive"), async (req, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(req.params.id);
+      if (!order || order.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      const { items } = receivePurchaseOrderSchema.parse(req.body);
+      const result = await storage.receivePurchaseOrder(order.id, items, req.user!.id);
+      if (!result) {
+        return res.status(409).json({ message: `This purchase order is already ${order.status}` });
+      }
+      await auditLog(req, "receive", "purchase_order", order.id, { items });
+
+      res.json(result.order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Receive purchase order error:", error);
+      res.status(500).json({ message: "Failed to receive purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/cancel", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.receive"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const order = await storage.cancelPurchaseOrder(req.params.id, organizationId);
+      if (!order) {
+        return res.status(404).json({ message: "Open purchase order not found" });
+      }
+      await auditLog(req, "cancel", "purchase_order", order.id, { status: "canceled" });
+
+      res.json(order);
+    } catch (error) {
+      console.error("Cancel purchase order error:", error);
+      res.status(500).json({ message: "Failed to cancel purchase order" });
+    }
+  });
+
+  // Products used up by one treatment of a service
+  app.get("/api/services/:id/consumables", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("services.view"), async (req, res) => {
+    try {
+      const service = await storage.getService(req.params.id);
+      if (!service || service.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+
+      res.json(await storage.getServiceConsumables(service.id));
+    } catch (error) {
+      console.error("Error fetching service consumables:", error);
+      res.status(500).json({ message: "Failed to fetch service consumables" });
+    }
+  });
+
+  // Replaces the service's consumables; applies to appointments completed from now on
+  app.put("/api/services/:id/consumables", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("products.manage"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      const service = await storage.getService(req.params.id);
+      if (!service || service.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+
+      const items = serviceConsumablesSchema.parse(req.body);
+      if (new Set(items.map(i => i.productId)).size !== items.length) {
+        return res.status(400).json({ message: "List each product once" });
+      }
+      for (const item of items) {
+        const product = await storage.getProduct(item.productId);
+        if (!product || product.organizationId !== organizationId) {
+          return res.status(400).json({ message: "Product does not belong to your organization" });
+        }
+      }
+
+      const consumables = await storage.setServiceConsumables(service.id, items);
+      await auditLog(req, "update", "service_consumables", service.id, { items });
+
+      res.json(consumables);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update service consumables error:", error);
+      res.status(500).json({ message: "Failed to update service consumables" });
+    }
+  });
+
+  // Price the front desk ticket for a visit without taking payment
+  app.post("/api/appointments/:id/checkout/preview", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("payments.process"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || appointment.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const checkout = posCheckoutSchema.parse(req.body);
+      const { ticket, error } = await buildCheckoutTicket(appointment, checkout);
+      if (!ticket) {
+        return res.status(400).json({ message: error });
+      }
+
+      res.json(ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Checkout preview error:", error);
+      res.status(500).json({ message: "Failed to price checkout" });
+    }
+  });
+
+  // Check out a visit: takes product stock, redeems the gift card and rewards, then charges the client's saved card
+  // or records cash or an external terminal payment. The itemized ticket is kept on the pos_payment transaction.
+  app.post("/api/appointments/:id/checkout", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("payments.process"), async (req, res) => {
+    let checkoutClaim: { appointmentId: string; startedAt: Date } | null = null;
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || appointment.organizationId !== await getUserOrganizationId(req.user!)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      if (appointment.status === "canceled" || appointment.status === "no_show") {
+        return res.status(400).json({ message: "This appointment can't be checked out" });
+      }
+
+      // Claim the visit before anything is taken, so a double-click or a second terminal can't check it out twice
+      const startedAt = await storage.claimAppointmentCheckout(appointment.id, new Date(Date.now() - CHECKOUT_CLAIM_STALE_MS));
+      if (!startedAt) {
+        return res.status(409).json({ message: "This visit is already being checked out" });
+      }
+      checkoutClaim = { appointmentId: appointment.id, startedAt };
+
+      const existing = await storage.getTransactionsByAppointment(appointment.id);
+      if (existing.some(t => t.type === "pos_payment" && t.status === "completed")) {
+        return res.status(409).json({ message: "This visit has already been checked out" });
+      }
+
+      // Checkout completes the visit, so a visit that never started still needs its consent on file
+      if (appointment.status !== "in_progress" && appointment.status !== "completed") {
+        const consentBlock = await checkConsentGate(appointment, "be completed");
+        if (consentBlock) {
+          return res.status(409).json(consentBlock);
+        }
+      }
+
+      const checkout = posCheckoutSchema.parse(req.body);
+      const { ticket, products: sold, rewardOptions, giftCard, error } = await buildCheckoutTicket(appointment, checkout);
+      if (!ticket) {
+        return res.status(400).json({ message: error });
+      }
+
+      const organization = await storage.getOrganization(appointment.organizationId);
+      const client = await storage.getClient(appointment.clientId);
+      const chargeCard = checkout.paymentMethod === "saved_card" && ticket.amountDue > 0;
+      if (chargeCard && (!client?.stripeCustomerId || !organization?.stripeConnectAccountId)) {
+        return res.status(400).json({ message: "This client has no saved card on file" });
+      }
+
+      const checkoutId = crypto.randomUUID();
+      const stockItems = sold
+        .filter(s => s.product.trackInventory)
+        .map(s => ({ productId: s.product.id, quantity: s.quantity }));
+      const stockMovement = (reason: "sale" | "sale_return") => stockItems.map(item => ({
+        organizationId: appointment.organizationId,
+        productId: item.productId,
+        locationId: appointment.locationId,
+        quantity: reason === "sale" ? -item.quantity : item.quantity,
+        reason,
+        referenceId: appointment.id,
+        createdBy: req.user!.id
+      }));
+      const soldStock = await storage.moveProductStock(stockMovement("sale"));
+      if (!soldStock) {
+        return res.status(409).json({ message: "Stock changed, please review the ticket and try again" });
+      }
+
+      let giftCardTransactionId: string | null = null;
+      if (giftCard && ticket.giftCardApplied > 0) {
+        const redeemed = await storage.redeemGiftCard(giftCard.id, ticket.giftCardApplied, {
+          organizationId: appointment.organizationId,
+          clientId: appointment.clientId,
+          appointmentId: appointment.id,
+          amount: ticket.giftCardApplied.toFixed(2),
+          type: "gift_card_redemption",
+          status: "completed",
+          paymentMethod: "gift_card",
+          description: `Gift card ${giftCardService.formatCode(giftCard.code)} redeemed`,
+          metadata: { giftCardId: giftCard.id, redeemedBy: req.user!.id, checkoutId }
+        });
+        if (!redeemed) {
+          await storage.moveProductStock(stockMovement("sale_return"), true);
+          return res.status(409).json({ message: "Gift card balance changed, please try again" });
+        }
+        giftCardTransactionId = redeemed.transaction.id;
+      }
+
+      let stripePaymentIntentId: string | null = null;
+      if (chargeCard) {
+        try {
+          const paymentIntent = await stripeService.chargeSavedPaymentMethod(
+            Math.round(ticket.amountDue * 100), // Convert to cents
+            client!.stripeCustomerId!,
+            { appointmentId: appointment.id, organizationId: appointment.organizationId, type: "pos_payment", checkoutId },
+            organization!.stripeConnectAccountId!
+          );
+          if (paymentIntent.status !== "succeeded") {
+            // Off-session charges can't complete a card challenge at the desk
+            await stripe?.paymentIntents.cancel(paymentIntent.id, {}, { stripeAccount: organization!.stripeConnectAccountId! });
+            throw new Error("The card needs to be authenticated, please take payment on the terminal");
+          }
+          stripePaymentIntentId = paymentIntent.id;
+        } catch (chargeError: any) {
+          console.error("Checkout card charge error:", chargeError);
+          // Give back what was taken above so the ticket can be retried
+          if (giftCardTransactionId) {
+            await storage.reverseGiftCardRedemption(giftCardTransactionId);
+          }
+          await storage.moveProductStock(stockMovement("sale_return"), true);
+          return res.status(402).json({ message: chargeError.message || "Card charge failed" });
+        }
+      }
+
+      // A booking paid in full already recorded the tax on its service; this records the rest of the visit's tax
+      const tax: TaxBreakdown = {
+        locationId: appointment.locationId,
+        rate: ticket.taxRate,
+        taxableAmount: ticket.taxableAmount,
+        amount: Math.max(Math.round((ticket.taxTotal - getRecordedTax(existing)) * 100) / 100, 0)
+      };
+      const transaction = await storage.createTransaction({
+        organizationId: appointment.organizationId,
+        clientId: appointment.clientId,
+        appointmentId: appointment.id,
+        amount: ticket.amountDue.toFixed(2),
+        type: "pos_payment",
+        status: "completed",
+        paymentMethod: checkout.paymentMethod === "saved_card" ? "card" : checkout.paymentMethod,
+        stripePaymentIntentId,
+        description: "Front desk checkout",
+        metadata: { checkoutId, ticket, tipAmount: ticket.tipAmount, giftCardTransactionId, checkedOutBy: req.user!.id, tax }
+      });
+
+      for (const option of rewardOptions) {
+        await storage.createReward({
+          organizationId: appointment.organizationId,
+          clientId: appointment.clientId,
+          points: -option.pointsCost, // Negative for redemption
+          reason: `Redeemed: ${option.name}`,
+          referenceId: option.id,
+          referenceType: 'reward_option'
+        });
+      }
+
+      // Tips go to the provider and tax to the state, so only what was paid for the visit and products earns points
+      const pointsEarned = await calculateRewardPoints(
+        appointment.clientId,
+        appointment.organizationId,
+        Math.max(ticket.amountDue - ticket.tipAmount - tax.amount, 0)
+      );
+      if (pointsEarned > 0) {
+        await storage.createReward({
+          organizationId: appointment.organizationId,
+          clientId: appointment.clientId,
+          points: pointsEarned,
+          reason: "Front desk checkout",
+          referenceId: transaction.id,
+          referenceType: 'transaction'
+        });
+      }
+
+      const status = appointment.status === "completed" ? undefined : "completed";
+      await storage.updateAppointment(appointment.id, appointment.organizationId, {
+        totalAmount: (ticket.total - ticket.tipAmount).toFixed(2),
+        depositPaid: (Number(appointment.depositPaid || 0) + ticket.amountDue).toFixed(2),
+        giftCardPaid: (Number(appointment.giftCardPaid || 0) + ticket.giftCardApplied).toFixed(2),
+        ...(status ? { status } : {})
+      });
+      await syncPackageSession(appointment, status);
+      await syncServiceUsage(appointment, status);
+      await alertLowStock(soldStock);
+
+      await auditLog(req, "checkout", "appointment", appointment.id, {
+        checkoutId,
+        total: ticket.total,
+        amountDue: ticket.amountDue,
+        paymentMethod: checkout.paymentMethod,
+        products: stockItems
+      });
+      await receiptService.emailReceipt(appointment.id);
+
+      res.status(201).json({ checkoutId, ticket, transaction });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Checkout error:", error);
+      res.status(500).json({ message: "Failed to check out" });
+    } finally {
+      // A finished checkout is guarded by its completed payment; a failed one can be tried again
+      if (checkoutClaim) {
+        await storage.releaseAppointmentCheckout(checkoutClaim.appointmentId, checkoutClaim.startedAt)
+          .catch(error => console.error("Checkout release error:", error));
+      }
+    }
+  });
+
   // Email configuration status endpoint
   app.get("/api/email/status", requireAuth, async (req, res) => {
     try {
@@ -1145,6 +4710,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cancellation policy and online reschedule cutoff - readable by the clinic's staff and patients, shown at booking
+  app.get("/api/cancellation-policy", requireAuth, async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      const organization = await storage.getOrganization(organizationId);
+      res.json({
+        policy: getCancellationPolicy(organization),
+        rescheduleCutoffHours: organization?.rescheduleCutoffHours ?? 24
+      });
+    } catch (error) {
+      console.error("Get cancellation policy error:", error);
+      res.status(500).json({ message: "Failed to fetch cancellation policy" });
+    }
+  });
+
+  app.put("/api/cancellation-policy", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const organizationId = await getUserOrganizationId(req.user!);
+      if (!organizationId) {
+        return res.status(404).json({ message: "No organization found for user" });
+      }
+
+      // Sending { policy: null } removes the policy
+      const policy = req.body.policy === null ? null : cancellationPolicySchema.parse(req.body.policy);
+      const rescheduleCutoffHours = z.number().int().min(0).max(720).optional().parse(req.body.rescheduleCutoffHours);
+      const organization = await storage.updateOrganization(organizationId, {
+        cancellationPolicy: policy,
+        ...(rescheduleCutoffHours !== undefined && { rescheduleCutoffHours })
+      });
+      await auditLog(req, "update", "cancellation_policy", organizationId, { policy, rescheduleCutoffHours });
+
+      res.json({ policy, rescheduleCutoffHours: organization.rescheduleCutoffHours ?? 24 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update cancellation policy error:", error);
+      res.status(500).json({ message: "Failed to update cancellation policy" });
+    }
+  });
+
   app.post("/api/organizations", requireRole("super_admin"), async (req, res) => {
     try {
       const orgData = insertOrganizationSchema.parse(req.body);
@@ -1262,9 +4872,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Invite staff member endpoint
   app.post("/api/staff/invite", requireAuth, requireRole("clinic_admin", "super_admin"), async (req, res) => {
     try {
-      const { email, firstName, lastName, role, title, commissionRate, commissionType, hourlyRate, serviceIds } = req.body;
+      const { email, firstName, lastName, role, title, commissionRate, commissionType, hourlyRate, productCommissionRate, commissionTiers, serviceIds } = req.body;
       
       console.log(`📋 Processing staff invitation for: ${email}`);
+
+      if (commissionTiers !== undefined && commissionTiers !== null) {
+        const tiers = commissionTiersSchema.safeParse(commissionTiers);
+        if (!tiers.success) {
+          return res.status(400).json({ message: "Invalid data", errors: tiers.error.errors });
+        }
+      }
       
       const organizationId = await getUserOrganizationId(req.user!);
       if (!organizationId) {
@@ -1326,6 +4943,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           commissionRate: commissionRate || 15,
           commissionType: commissionType || "percentage",
           hourlyRate: hourlyRate || 0,
+          productCommissionRate: productCommissionRate || 0,
+          commissionTiers: commissionTiers || null,
           canBookOnline: true,
           isActive: true,
         });
@@ -1670,9 +5289,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/staff/availability", requireRole("clinic_admin", "staff", "super_admin"), requireBusinessSetupComplete, async (req, res) => {
+  // Staff manage their own weekly hours and schedule exceptions; changing someone else's needs the manage staff permission
+  const canManageStaffSchedule = async (user: User, staffMember: Staff) =>
+    staffMember.userId === user.id || await userHasPermission(user, "settings.manageStaff");
+
+  app.post("/api/staff/availability", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requireBusinessSetupComplete, async (req, res) => {
     try {
       const availabilityData = insertStaffAvailabilitySchema.parse(req.body);
+      const orgId = await getUserOrganizationId(req.user!);
+      const staffMember = await storage.getStaff(availabilityData.staffId);
+      if (!orgId || !staffMember || staffMember.organizationId !== orgId) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+      if (!await canManageStaffSchedule(req.user!, staffMember)) {
+        return res.status(403).json({ message: "You can only change your own schedule" });
+      }
+
       const availability = await storage.createStaffAvailability(availabilityData);
       
       await auditLog(req, "create", "staff_availability", availability.id, availabilityData);
@@ -1685,22 +5317,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/staff/availability/:id", requireRole("clinic_admin", "staff", "super_admin"), requireBusinessSetupComplete, async (req, res) => {
+  app.put("/api/staff/availability/:id", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requireBusinessSetupComplete, async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      // A window stays with its staff member; only the day and times can change
+      const updates = insertStaffAvailabilitySchema.omit({ staffId: true }).partial().parse(req.body);
+
+      const orgId = await getUserOrganizationId(req.user!);
+      const existing = await storage.getStaffAvailability(id);
+      const staffMember = existing ? await storage.getStaff(existing.staffId) : undefined;
+      if (!orgId || !existing || !staffMember || staffMember.organizationId !== orgId) {
+        return res.status(404).json({ message: "Availability not found" });
+      }
+      if (!await canManageStaffSchedule(req.user!, staffMember)) {
+        return res.status(403).json({ message: "You can only change your own schedule" });
+      }
       
       const availability = await storage.updateStaffAvailability(id, updates);
       await auditLog(req, "update", "staff_availability", id, updates);
       res.json(availability);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update staff availability" });
     }
   });
 
-  app.delete("/api/staff/availability/:id", requireRole("clinic_admin", "staff", "super_admin"), requireBusinessSetupComplete, async (req, res) => {
+  app.delete("/api/staff/availability/:id", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requireBusinessSetupComplete, async (req, res) => {
     try {
       const { id } = req.params;
+
+      const orgId = await getUserOrganizationId(req.user!);
+      const existing = await storage.getStaffAvailability(id);
+      const staffMember = existing ? await storage.getStaff(existing.staffId) : undefined;
+      if (!orgId || !existing || !staffMember || staffMember.organizationId !== orgId) {
+        return res.status(404).json({ message: "Availability not found" });
+      }
+      if (!await canManageStaffSchedule(req.user!, staffMember)) {
+        return res.status(403).json({ message: "You can only change your own schedule" });
+      }
       
       await storage.deleteStaffAvailability(id);
       await auditLog(req, "delete", "staff_availability", id, {});
@@ -1710,19 +5366,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Staff schedule exceptions - time off, breaks and extra shifts
+
+  app.get("/api/staff/:staffId/schedule-exceptions", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      const staffMember = await storage.getStaff(req.params.staffId);
+      if (!staffMember || staffMember.organizationId !== orgId) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+
+      const exceptions = await storage.getStaffScheduleExceptions(staffMember.id);
+      res.json(exceptions);
+    } catch (error) {
+      console.error("Get schedule exceptions error:", error);
+      res.status(500).json({ message: "Failed to fetch schedule exceptions" });
+    }
+  });
+
+  // Returns the new exception plus any already-booked appointments it now conflicts with
+  app.post("/api/staff/:staffId/schedule-exceptions", requireAuth, requireRole("clinic_admin", "staff"), requireBusinessSetupComplete, async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      const staffMember = await storage.getStaff(req.params.staffId);
+      if (!orgId || !staffMember || staffMember.organizationId !== orgId) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+      if (!await canManageStaffSchedule(req.user!, staffMember)) {
+        return res.status(403).json({ message: "You can only change your own schedule" });
+      }
+
+      const exceptionData = insertStaffScheduleExceptionSchema.parse({
+        ...req.body,
+        organizationId: orgId,
+        staffId: staffMember.id
+      });
+
+      const exception = await storage.createStaffScheduleException(exceptionData);
+      await auditLog(req, "create", "staff_schedule_exception", exception.id, exceptionData);
+
+      const conflicts = await findStaffScheduleConflicts(staffMember, [exception]);
+      res.json({ exception, conflicts });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create schedule exception error:", error);
+      res.status(500).json({ message: "Failed to create schedule exception" });
+    }
+  });
+
+  app.delete("/api/staff/schedule-exceptions/:id", requireAuth, requireRole("clinic_admin", "staff"), requireBusinessSetupComplete, async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      if (!orgId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const exception = await storage.getStaffScheduleException(req.params.id);
+      const staffMember = exception ? await storage.getStaff(exception.staffId) : undefined;
+      if (!exception || !staffMember || exception.organizationId !== orgId) {
+        return res.status(404).json({ message: "Schedule exception not found" });
+      }
+      if (!await canManageStaffSchedule(req.user!, staffMember)) {
+        return res.status(403).json({ message: "You can only change your own schedule" });
+      }
+
+      const deleted = await storage.deleteStaffScheduleException(exception.id, orgId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Schedule exception not found" });
+      }
+      await auditLog(req, "delete", "staff_schedule_exception", req.params.id, {});
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete schedule exception error:", error);
+      res.status(500).json({ message: "Failed to delete schedule exception" });
+    }
+  });
+
+  // Upcoming appointments that fall in the staff member's time off or breaks
+  app.get("/api/staff/:staffId/schedule-conflicts", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      const staffMember = await storage.getStaff(req.params.staffId);
+      if (!staffMember || staffMember.organizationId !== orgId) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+
+      const exceptions = await storage.getStaffScheduleExceptions(staffMember.id);
+      const conflicts = await findStaffScheduleConflicts(staffMember, exceptions);
+      res.json(conflicts);
+    } catch (error) {
+      console.error("Get schedule conflicts error:", error);
+      res.status(500).json({ message: "Failed to check schedule conflicts" });
+    }
+  });
+
   // Get available staff for a time slot
   app.get("/api/staff/available-for-slot", requireAuth, async (req, res) => {
     try {
-      const { organizationId, startTime, endTime } = req.query;
+      const { organizationId, startTime, endTime, serviceId, locationId } = req.query;
       
       if (!organizationId || !startTime || !endTime) {
         return res.status(400).json({ message: "organizationId, startTime, and endTime are required" });
       }
       
+      const slotStart = new Date(startTime as string);
+      let timezone = 'America/New_York';
+      
+      // Nobody is bookable outside the location's notice and horizon window, or on a closure day
+      if (locationId) {
+        const location = await storage.getLocation(locationId as string);
+        if (location && location.organizationId === organizationId) {
+          timezone = location.timezone || timezone;
+          if (!isWithinBookingWindow(location, slotStart)) {
+            return res.json([]);
+          }
+          const closure = await checkLocationHoursException(location, slotStart, new Date(endTime as string));
+          if (closure) {
+            return res.json([]);
+          }
+        }
+      }
+      
+      const service = serviceId ? await storage.getService(serviceId as string) : undefined;
+      
       const availableStaff = await storage.getAvailableStaffForTimeSlot(
         organizationId as string,
-        new Date(startTime as string),
-        new Date(endTime as string)
+        slotStart,
+        new Date(endTime as string),
+        service && service.organizationId === organizationId ? service : undefined,
+        timezone
       );
       
       res.json(availableStaff);
@@ -1792,6 +5566,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const updates = req.body;
+      if (updates.commissionTiers !== undefined && updates.commissionTiers !== null) {
+        const tiers = commissionTiersSchema.safeParse(updates.commissionTiers);
+        if (!tiers.success) {
+          return res.status(400).json({ message: "Invalid data", errors: tiers.error.errors });
+        }
+      }
       
       const staff = await storage.updateStaff(id, updates);
       await auditLog(req, "update", "staff", id, updates);
@@ -1837,7 +5617,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Client routes
-  app.get("/api/clients", requireAuth, requireBusinessSetupComplete, async (req, res) => {
+  app.get("/api/clients", requireAuth, requirePermission("clients.view"), requireBusinessSetupComplete, async (req, res) => {
     try {
       let organizationId = req.query.organizationId as string;
       
@@ -1861,7 +5641,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update client information
-  app.patch("/api/clients/:id", requireAuth, requireRole("clinic_admin", "super_admin"), async (req, res) => {
+  app.patch("/api/clients/:id", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requirePermission("clients.edit"), async (req, res) => {
     try {
       const { id } = req.params;
       const { firstName, lastName, email, phone, dateOfBirth, address, notes } = req.body;
@@ -1923,7 +5703,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete client
-  app.delete("/api/clients/:id", requireAuth, requireRole("clinic_admin", "super_admin"), async (req, res) => {
+  app.delete("/api/clients/:id", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requirePermission("clients.delete"), async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -1971,7 +5751,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Toggle client active status
-  app.patch("/api/clients/:id/status", requireAuth, requireRole("clinic_admin", "super_admin"), async (req, res) => {
+  app.patch("/api/clients/:id/status", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requirePermission("clients.edit"), async (req, res) => {
     try {
       const { id } = req.params;
       const { isActive } = req.body;
@@ -2008,7 +5788,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/clients", requireRole("clinic_admin", "staff", "super_admin"), requireBusinessSetupComplete, async (req, res) => {
+  app.post("/api/clients", requireRole("clinic_admin", "staff", "super_admin"), requirePermission("clients.create"), requireBusinessSetupComplete, async (req, res) => {
     try {
       // Get organization ID from user session (same logic as GET endpoint)
       let organizationId: string;
@@ -2031,7 +5811,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         organizationId,
         // Convert date string to Date object if needed
-        dateOfBirth: req.body.dateOfBirth ? new Date(req.body.dateOfBirth) : undefined
+        dateOfBirth: req.body.dateOfBirth ? new Date(req.body.dateOfBirth) : undefined,
+        // Only the client can give photo consent, from their portal
+        photoMarketingConsentAt: undefined
       };
       
       const clientData = insertClientSchema.parse(clientDataWithOrg);
@@ -2063,7 +5845,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Services routes
-  app.post("/api/services", requireAuth, requireRole("clinic_admin"), async (req, res) => {
+  app.post("/api/services", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("services.create"), async (req, res) => {
     try {
       const organizationId = await getUserOrganizationId(req.user!);
       if (!organizationId) {
@@ -2083,7 +5865,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/services/:id", requireAuth, requireRole("clinic_admin"), async (req, res) => {
+  app.patch("/api/services/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("services.edit"), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -2098,6 +5880,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied - service belongs to another organization" });
       }
 
+      // Changing prices needs services.setPricing on top of services.edit
+      const changesPricing = (["price", "depositAmount"] as const).some(field =>
+        req.body[field] !== undefined && parseFloat(req.body[field] || "0") !== parseFloat(existingService[field] || "0")
+      );
+      if (changesPricing && !(await userHasPermission(req.user!, "services.setPricing"))) {
+        return res.status(403).json({ message: "Insufficient permissions", missingPermissions: ["services.setPricing"] });
+      }
+
       // Validate the request body with the schema
       const updates = insertServiceSchema.partial().parse(req.body);
       
@@ -2114,7 +5904,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Appointment routes
-  app.get("/api/appointments", requireAuth, requireBusinessSetupComplete, async (req, res) => {
+  app.get("/api/appointments", requireAuth, requirePermission("appointments.view"), requireBusinessSetupComplete, async (req, res) => {
     try {
       let organizationId = req.query.organizationId as string;
       
@@ -2181,33 +5971,157 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/appointments", requireAuth, requireBusinessSetupComplete, async (req, res) => {
+  app.post("/api/appointments", requireAuth, requirePermission("appointments.create"), requireBusinessSetupComplete, async (req, res) => {
     try {
       const appointmentData = insertAppointmentSchema.parse(req.body);
+      // Staff can knowingly book outside opening hours or the provider's weekly availability, e.g. an early opening
+      const allowOutsideHours = req.body.allowOutsideHours === true && req.user!.role !== "patient";
+      
+      // A recurrence rule books the whole series; every occurrence must be free before any is created
+      if (req.body.recurrence) {
+        const recurrence = appointmentRecurrenceSchema.parse(req.body.recurrence);
+        const [service, location] = await Promise.all([
+          storage.getService(appointmentData.serviceId),
+          storage.getLocation(appointmentData.locationId)
+        ]);
+        if (!service || service.organizationId !== appointmentData.organizationId) {
+          return res.status(400).json({ message: "Service not found" });
+        }
+        if (!location || location.organizationId !== appointmentData.organizationId) {
+          return res.status(400).json({ message: "Location not found" });
+        }
+
+        const occurrences = getSeriesOccurrences(
+          new Date(appointmentData.startTime),
+          new Date(appointmentData.endTime),
+          recurrence,
+          location.timezone || 'America/New_York'
+        );
+        if (occurrences.length < 2) {
+          return res.status(400).json({ message: "The end date leaves only one occurrence; book a single appointment instead" });
+        }
+
+        const checks = [];
+        for (const occurrence of occurrences) {
+          checks.push(await checkSlotBookable(
+            { organizationId: appointmentData.organizationId, staffId: appointmentData.staffId, startTime: occurrence.start, endTime: occurrence.end },
+            service,
+            location,
+            undefined,
+            { allowOutsideHours }
+          ));
+        }
+        const conflicts = checks.flatMap((check, index) => check.available ? [] : [{
+          occurrence: index + 1,
+          startTime: occurrences[index].start,
+          reason: check.reason
+        }]);
+        if (conflicts.length > 0) {
+          return res.status(409).json({
+            message: `${conflicts.length} of ${occurrences.length} occurrences conflict with existing bookings`,
+            conflicts
+          });
+        }
+
+        const series = await storage.createAppointmentSeries({
+          organizationId: appointmentData.organizationId,
+          locationId: appointmentData.locationId,
+          clientId: appointmentData.clientId,
+          staffId: appointmentData.staffId,
+          serviceId: appointmentData.serviceId,
+          frequency: recurrence.frequency,
+          interval: recurrence.interval,
+          occurrenceCount: recurrence.occurrenceCount ?? null,
+          endDate: recurrence.endDate ?? null
+        });
+
+        const seriesAppointments = [];
+        for (let index = 0; index < occurrences.length; index++) {
+          seriesAppointments.push(await storage.createAppointment({
+            ...appointmentData,
+            startTime: occurrences[index].start,
+            endTime: occurrences[index].end,
+            seriesId: series.id,
+            seriesIndex: index + 1,
+            resourceIds: checks[index].resourceIds.length > 0 ? checks[index].resourceIds : null
+          }));
+        }
+
+        await auditLog(req, "create", "appointment_series", series.id, { ...recurrence, occurrences: occurrences.length });
+        await intakeFormService.requestForAppointment(seriesAppointments[0]);
+
+        try {
+          const client = await storage.getClient(appointmentData.clientId);
+          if (client?.userId) {
+            const firstDate = occurrences[0].start.toLocaleDateString('en-US', {
+              weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: location.timezone || 'America/New_York'
+            });
+            const cadence = recurrence.frequency === 'weekly'
+              ? (recurrence.interval === 1 ? 'every week' : `every ${recurrence.interval} weeks`)
+              : (recurrence.interval === 1 ? 'every month' : `every ${recurrence.interval} months`);
+
+            await notificationService.send({
+              userId: client.userId,
+              organizationId: appointmentData.organizationId,
+              type: 'booking',
+              title: 'Recurring Appointments Confirmed',
+              message: `Your ${service.name} appointments are booked ${cadence}: ${occurrences.length} visits starting ${firstDate}.`,
+              data: {
+                seriesId: series.id,
+                appointmentId: seriesAppointments[0].id,
+                serviceId: service.id,
+                serviceName: service.name,
+                startTime: seriesAppointments[0].startTime,
+                actionUrl: `/appointments`,
+                actionText: 'View Appointments'
+              },
+              channels: ['in_app', 'email']
+            });
+          }
+        } catch (notifError) {
+          console.error('Failed to send series notification:', notifError);
+          // Don't fail the request if notification fails
+        }
+
+        return res.json({ series, appointments: seriesAppointments });
+      }
       
-      // Check for appointment conflicts (scoped to organization for multi-tenant isolation)
-      const conflicts = await storage.getAppointmentsByStaff(
-        appointmentData.staffId,
-        appointmentData.organizationId,
-        new Date(appointmentData.startTime)
+      const [bookedService, bookedLocation] = await Promise.all([
+        storage.getService(appointmentData.serviceId),
+        storage.getLocation(appointmentData.locationId)
+      ]);
+      if (!bookedService || bookedService.organizationId !== appointmentData.organizationId) {
+        return res.status(400).json({ message: "Service not found" });
+      }
+      if (!bookedLocation || bookedLocation.organizationId !== appointmentData.organizationId) {
+        return res.status(400).json({ message: "Location not found" });
+      }
+
+      // Same checks as every other booking: hours, the provider's schedule, other bookings (buffers included),
+      // waitlist holds and resources
+      const resourceCheck = await checkSlotBookable(
+        {
+          organizationId: appointmentData.organizationId,
+          staffId: appointmentData.staffId,
+          startTime: new Date(appointmentData.startTime),
+          endTime: new Date(appointmentData.endTime)
+        },
+        bookedService,
+        bookedLocation,
+        undefined,
+        { allowOutsideHours }
       );
-      
-      const hasConflict = conflicts.some(apt => {
-        const aptStart = new Date(apt.startTime);
-        const aptEnd = new Date(apt.endTime);
-        const newStart = new Date(appointmentData.startTime);
-        const newEnd = new Date(appointmentData.endTime);
-        
-        return (newStart < aptEnd && newEnd > aptStart);
-      });
-      
-      if (hasConflict) {
-        return res.status(409).json({ message: "Appointment time conflicts with existing booking" });
+      if (!resourceCheck.available) {
+        return res.status(409).json({ message: resourceCheck.reason });
       }
       
-      const appointment = await storage.createAppointment(appointmentData);
+      const appointment = await storage.createAppointment({
+        ...appointmentData,
+        resourceIds: resourceCheck.resourceIds.length > 0 ? resourceCheck.resourceIds : null
+      });
       
-      await auditLog(req, "create", "appointment", appointment.id, appointmentData);
+      await auditLog(req, "create", "appointment", appointment.id, { ...appointmentData, allowOutsideHours });
+      await intakeFormService.requestForAppointment(appointment);
       
       // Send notification to client about appointment booking
       try {
@@ -2254,7 +6168,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update appointment (clinic admin can edit/reschedule)
-  app.patch("/api/appointments/:id", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+  app.patch("/api/appointments/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("appointments.edit"), async (req, res) => {
     try {
       const appointmentId = req.params.id;
       
@@ -2292,6 +6206,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         privateNotes: z.string().optional(),
         totalAmount: z.string().optional(),
         depositPaid: z.string().optional(),
+        applyTo: z.enum(["this", "following"]).optional(),
       });
 
       const validationResult = updateSchema.safeParse(req.body);
@@ -2302,7 +6217,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const updates = validationResult.data;
+      const { applyTo = "this", ...updates } = validationResult.data;
+      const isNewNoShow = updates.status === "no_show" && appointment.status !== "no_show";
+      const isNewCancel = updates.status === "canceled" && appointment.status !== "canceled";
+
+      // A service that requires consent can't start, or be completed without starting, until the client has a
+      // current signed consent on file. Completing from in_progress already passed the check unless the service changed.
+      const startsService = updates.status === "in_progress" && appointment.status !== "in_progress";
+      const completesService = updates.status === "completed" && appointment.status !== "completed" &&
+        (appointment.status !== "in_progress" || (!!updates.serviceId && updates.serviceId !== appointment.serviceId));
+      if (startsService || completesService) {
+        const consentBlock = await checkConsentGate(
+          { ...appointment, serviceId: updates.serviceId || appointment.serviceId },
+          startsService ? "start" : "be completed"
+        );
+        if (consentBlock) {
+          return res.status(409).json(consentBlock);
+        }
+      }
 
       // Validate foreign keys exist and belong to organization
       if (updates.clientId) {
@@ -2360,10 +6292,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Re-check resources when the appointment moves or changes service
+      if (processedUpdates.startTime || processedUpdates.endTime || updates.serviceId || updates.locationId) {
+        const service = await storage.getService(updates.serviceId || appointment.serviceId);
+        if (service) {
+          const resourceCheck = await checkResourceAvailability(
+            service,
+            updates.locationId || appointment.locationId,
+            processedUpdates.startTime || appointment.startTime,
+            processedUpdates.endTime || appointment.endTime,
+            appointmentId
+          );
+          if (!resourceCheck.available) {
+            return res.status(409).json({ message: resourceCheck.reason });
+          }
+          processedUpdates.resourceIds = resourceCheck.resourceIds.length > 0 ? resourceCheck.resourceIds : null;
+        }
+      }
+
+      // "This and following" carries the change to later occurrences of a recurring series,
+      // keeping each one's date but moving it by the same number of days and to the new time of day
+      if (applyTo === "following" && appointment.seriesId) {
+        const [service, location] = await Promise.all([
+          storage.getService(updates.serviceId || appointment.serviceId),
+          storage.getLocation(updates.locationId || appointment.locationId)
+        ]);
+        if (!service || !location) {
+          return res.status(400).json({ message: "Service or location not found" });
+        }
+
+        const timezone = location.timezone || 'America/New_York';
+        const newStart: Date = processedUpdates.startTime || new Date(appointment.startTime);
+        const newEnd: Date = processedUpdates.endTime || new Date(appointment.endTime);
+        const durationMs = newEnd.getTime() - newStart.getTime();
+        const oldLocal = getLocalTimeParts(new Date(appointment.startTime), timezone);
+        const newLocal = getLocalTimeParts(newStart, timezone);
+        const dayShift = Math.round((Date.parse(newLocal.date) - Date.parse(oldLocal.date)) / (24 * 60 * 60 * 1000));
+
+        const following = (await storage.getAppointmentsBySeries(appointment.seriesId)).filter(apt =>
+          (apt.seriesIndex || 0) > (appointment.seriesIndex || 0) &&
+          ['pending', 'scheduled', 'confirmed'].includes(apt.status || '')
+        );
+        const moves = following.map(apt => {
+          const [year, month, day] = getLocalTimeParts(new Date(apt.startTime), timezone).date.split('-').map(Number);
+          const date = new Date(Date.UTC(year, month - 1, day + dayShift)).toISOString().slice(0, 10);
+          const startTime = localTimeToUtc(date, newLocal.time, timezone);
+          return { appointment: apt, startTime, endTime: new Date(startTime.getTime() + durationMs) };
+        });
+
+        // Only cancellation carries over as a status; completion and no-shows are per visit
+        const isCancel = updates.status === "canceled";
+        const checks = [];
+        for (const move of moves) {
+          checks.push(isCancel
+            ? { available: true, resourceIds: (move.appointment.resourceIds as string[] | null) || [] }
+            : await checkSlotBookable(
+                { organizationId: appointment.organizationId, staffId: updates.staffId || move.appointment.staffId, startTime: move.startTime, endTime: move.endTime },
+                service,
+                location,
+                move.appointment.id
+              ));
+        }
+        const conflicts = checks.flatMap((check, index) => check.available ? [] : [{
+          appointmentId: moves[index].appointment.id,
+          occurrence: moves[index].appointment.seriesIndex,
+          startTime: moves[index].startTime,
+          reason: check.reason
+        }]);
+        if (conflicts.length > 0) {
+          return res.status(409).json({
+            message: `${conflicts.length} of the following occurrences conflict with existing bookings`,
+            conflicts
+          });
+        }
+
+        const updatedAppointment = await storage.updateAppointment(appointmentId, userOrgId, processedUpdates);
+        for (let index = 0; index < moves.length; index++) {
+          const move = moves[index];
+          await storage.updateAppointment(move.appointment.id, userOrgId, {
+            clientId: updates.clientId,
+            serviceId: updates.serviceId,
+            staffId: updates.staffId,
+            locationId: updates.locationId,
+            notes: updates.notes,
+            ...(isCancel ? { status: "canceled" as const } : {
+              startTime: move.startTime,
+              endTime: move.endTime,
+              resourceIds: checks[index].resourceIds.length > 0 ? checks[index].resourceIds : null
+            })
+          });
+        }
+        if (isCancel) {
+          // Editing the status keeps deposits; gift card money beyond what the policy retains goes back on the cards
+          const canceledAt = new Date();
+          for (const canceled of [appointment, ...moves.map(move => move.appointment)]) {
+            await settleCanceledPrepayments(canceled, await getDefaultRetainedAmount(canceled, canceledAt), null);
+          }
+        }
+        await auditLog(req, "update", "appointment_series", appointment.seriesId, {
+          ...updates,
+          fromAppointmentId: appointmentId,
+          occurrencesUpdated: moves.length + 1
+        });
+
+        const noShowFee = isNewNoShow ? await chargeNoShowFee(appointment) : null;
+        const packageSession = await syncPackageSession(appointment, updates.status);
+        await syncServiceUsage(appointment, updates.status);
+        return res.json({ ...updatedAppointment, seriesUpdated: moves.length + 1, noShowFee, packageSession });
+      }
+
       const updatedAppointment = await storage.updateAppointment(appointmentId, userOrgId, processedUpdates);
       await auditLog(req, "update", "appointment", appointmentId, updates);
+      if (isNewCancel) {
+        // Editing the status keeps the deposit; gift card money beyond what the policy retains goes back on the cards
+        await settleCanceledPrepayments(appointment, await getDefaultRetainedAmount(appointment, new Date()), null);
+      }
+
+      // Marking a no-show applies the organization's no-show fee once
+      const noShowFee = isNewNoShow ? await chargeNoShowFee(appointment) : null;
+      const packageSession = await syncPackageSession(appointment, updates.status);
+      await syncServiceUsage(appointment, updates.status);
       
-      res.json(updatedAppointment);
+      res.json({ ...updatedAppointment, noShowFee, packageSession });
     } catch (error) {
       console.error("Update appointment error:", error);
       if (error instanceof Error && error.message === 'Appointment not found or access denied') {
@@ -2374,7 +6424,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Cancel appointment - patients request cancellation, clinics approve/cancel directly
-  app.delete("/api/appointments/:id", requireAuth, async (req, res) => {
+  app.delete("/api/appointments/:id", requireAuth, requirePermission("appointments.cancel"), async (req, res) => {
     try {
       const appointmentId = req.params.id;
       const appointment = await storage.getAppointment(appointmentId);
@@ -2394,14 +6444,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!client || client.id !== appointment.clientId) {
           return res.status(403).json({ message: "Can only cancel your own appointments" });
         }
-        // For patients, mark as cancellation requested
+        // For patients, mark as cancellation requested; the request time decides any late-cancel fee
+        const requestedAt = new Date();
         await storage.updateAppointment(appointmentId, appointment.organizationId, { 
           status: "cancellation_requested" as any,
-          notes: `${appointment.notes || ''}\nPatient requested cancellation on ${new Date().toLocaleDateString()}`
+          cancellationRequestedAt: requestedAt,
+          notes: `${appointment.notes || ''}\nPatient requested cancellation on ${requestedAt.toLocaleDateString()}`
         });
+
+        const policy = getCancellationPolicy(await storage.getOrganization(appointment.organizationId));
+        const lateCancellation = policy ? evaluateCancellation(policy, appointment, requestedAt) : null;
         res.json({ 
-          message: "Cancellation request submitted. Clinic will review and decide on deposit retention.",
-          depositPaid: appointment.depositPaid 
+          message: lateCancellation?.isLate
+            ? `Cancellation request submitted. This is within ${policy!.freeCancelWindowHours} hours of your appointment, so up to $${lateCancellation.retainedDeposit.toFixed(2)} of your deposit may be retained.`
+            : "Cancellation request submitted. Clinic will review and decide on deposit retention.",
+          depositPaid: appointment.depositPaid,
+          lateCancellation
         });
       } else {
         // Clinic staff can directly cancel with option to retain deposit
@@ -2410,14 +6468,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(403).json({ message: "Access denied" });
         }
         
-        // Check if deposit should be retained (default: no refund for late cancellations)
-        const retainDeposit = req.query.retainDeposit !== 'false';
+        // Check if deposit should be retained; the organization's policy decides when the clinic doesn't say
+        // (default without a policy: no refund for late cancellations). Gift card money paid ahead counts too.
+        const retainedAmount = req.query.retainDeposit === undefined
+          ? await getDefaultRetainedAmount(appointment, new Date())
+          : req.query.retainDeposit !== 'false' ? getPrepaidAmount(appointment) : 0;
+        const retainDeposit = retainedAmount > 0;
         
         await storage.updateAppointment(appointmentId, appointment.organizationId, { status: "canceled" });
+        // Whatever is not retained goes back: gift card money to the cards, the deposit to credits and the wallet before the card
+        const { refundAmount, giftCardRestored } = await settleCanceledPrepayments(
+          appointment,
+          retainedAmount,
+          retainDeposit ? `Partial deposit refund for late cancellation` : `Deposit refund for cancelled appointment`
+        );
         await auditLog(req, "cancel", "appointment", appointmentId, { 
           status: "canceled",
           depositRetained: retainDeposit,
-          depositAmount: appointment.depositPaid
+          retainedAmount,
+          refundAmount,
+          depositAmount: appointment.depositPaid,
+          giftCardRestored
         });
         
         // Send cancellation notification to client
@@ -2456,7 +6527,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.json({ 
           message: `Appointment cancelled ${retainDeposit ? 'with deposit retained' : 'with full refund'}`,
           depositRetained: retainDeposit,
-          depositAmount: appointment.depositPaid
+          depositAmount: appointment.depositPaid,
+          giftCardRestored
         });
       }
     } catch (error) {
@@ -2465,10 +6537,139 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Patient self-service reschedule - moves the appointment itself, so any deposit already paid stays with it
+  app.post("/api/appointments/:id/reschedule", requireAuth, async (req, res) => {
+    try {
+      const rescheduleSchema = z.object({
+        startTime: z.string().datetime(),
+        staffId: z.string().uuid().optional()
+      });
+      const { startTime, staffId } = rescheduleSchema.parse(req.body);
+
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client || client.id !== appointment.clientId) {
+        return res.status(403).json({ message: "Can only reschedule your own appointments" });
+      }
+
+      if (!['pending', 'scheduled', 'confirmed'].includes(appointment.status || '')) {
+        return res.status(400).json({ message: `Cannot reschedule ${appointment.status} appointment` });
+      }
+
+      // Late changes go through the clinic
+      const organization = await storage.getOrganization(appointment.organizationId);
+      const cutoffHours = organization?.rescheduleCutoffHours ?? 24;
+      const hoursBeforeStart = (new Date(appointment.startTime).getTime() - Date.now()) / (60 * 60 * 1000);
+      if (hoursBeforeStart < cutoffHours) {
+        return res.status(400).json({
+          message: `Appointments can't be rescheduled online within ${cutoffHours} hours of the start time. Please call the clinic.`
+        });
+      }
+
+      const [service, location] = await Promise.all([
+        storage.getService(appointment.serviceId),
+        storage.getLocation(appointment.locationId)
+      ]);
+      if (!service || !location) {
+        return res.status(400).json({ message: "Service or location not found" });
+      }
+
+      const newStaffId = staffId || appointment.staffId;
+      if (newStaffId !== appointment.staffId) {
+        const staffMember = await storage.getStaff(newStaffId);
+        if (!staffMember || staffMember.organizationId !== appointment.organizationId || !staffMember.isActive) {
+          return res.status(400).json({ message: "Staff member not found" });
+        }
+        const staffServices = await storage.getStaffServices(newStaffId);
+        if (!staffServices.some(s => s.id === service.id)) {
+          return res.status(400).json({ message: "This provider doesn't offer this service" });
+        }
+      }
+
+      const newStart = new Date(startTime);
+      const newEnd = new Date(newStart.getTime() + (new Date(appointment.endTime).getTime() - new Date(appointment.startTime).getTime()));
+      if (!isWithinBookingWindow(location, newStart)) {
+        return res.status(400).json({ message: "This time is outside the clinic's booking window" });
+      }
+
+      const slotCheck = await checkSlotBookable(
+        { organizationId: appointment.organizationId, staffId: newStaffId, startTime: newStart, endTime: newEnd },
+        service,
+        location,
+        appointment.id
+      );
+      if (!slotCheck.available) {
+        return res.status(409).json({ message: slotCheck.reason });
+      }
+
+      const timezone = location.timezone || 'America/New_York';
+      const formatWhen = (date: Date) => date.toLocaleString('en-US', {
+        weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: timezone
+      });
+      const previousWhen = formatWhen(new Date(appointment.startTime));
+
+      const updatedAppointment = await storage.updateAppointment(appointment.id, appointment.organizationId, {
+        staffId: newStaffId,
+        startTime: newStart,
+        endTime: newEnd,
+        resourceIds: slotCheck.resourceIds.length > 0 ? slotCheck.resourceIds : null,
+        notes: `${appointment.notes || ''}\nPatient rescheduled from ${previousWhen} on ${new Date().toLocaleDateString()}`
+      });
+      await auditLog(req, "reschedule", "appointment", appointment.id, {
+        from: { startTime: appointment.startTime, staffId: appointment.staffId },
+        to: { startTime: newStart, staffId: newStaffId },
+        depositPaid: appointment.depositPaid
+      });
+
+      // Let the assigned provider know, and the previous one if the patient switched providers
+      try {
+        const staffIds = Array.from(new Set([newStaffId, appointment.staffId]));
+        for (const id of staffIds) {
+          const staffMember = await storage.getStaff(id);
+          if (!staffMember?.userId) continue;
+          const isAssigned = id === newStaffId;
+          await notificationService.send({
+            userId: staffMember.userId,
+            organizationId: appointment.organizationId,
+            type: 'booking',
+            title: isAssigned ? 'Appointment Rescheduled' : 'Appointment Moved to Another Provider',
+            message: isAssigned
+              ? `${client.firstName} ${client.lastName} moved their ${service.name} appointment from ${previousWhen} to ${formatWhen(newStart)}.`
+              : `${client.firstName} ${client.lastName}'s ${service.name} appointment on ${previousWhen} has moved to another provider.`,
+            data: {
+              appointmentId: appointment.id,
+              serviceId: service.id,
+              previousStartTime: appointment.startTime,
+              startTime: newStart,
+              actionUrl: `/clinic/appointments`,
+              actionText: 'View Appointments'
+            },
+            channels: ['in_app', 'email']
+          });
+        }
+      } catch (notifError) {
+        console.error('Failed to send reschedule notification:', notifError);
+        // Don't fail the request if notification fails
+      }
+
+      res.json(updatedAppointment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Reschedule appointment error:", error);
+      res.status(500).json({ message: "Failed to reschedule appointment" });
+    }
+  });
+
   // Process cancellation request - approve or deny with deposit retention decision
-  app.post("/api/appointments/:id/process-cancellation", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+  app.post("/api/appointments/:id/process-cancellation", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("appointments.cancel", "payments.refund"), async (req, res) => {
     try {
-      const { approved, retainDeposit, reason } = req.body;
+      const { approved, reason } = req.body;
       const appointmentId = req.params.id;
 
       // Get appointment and verify it has cancellation request
@@ -2487,69 +6688,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      if (approved) {
+      if (approved) {
+        // Without an explicit decision, the organization's policy decides how much of the deposit and gift card
+        // money paid ahead is kept, judged by when the patient asked to cancel
+        let retainedAmount = req.body.retainDeposit ? getPrepaidAmount(appointment) : 0;
+        let lateCancellation: ReturnType<typeof evaluateCancellation> | null = null;
+        if (req.body.retainDeposit === undefined) {
+          const policy = getCancellationPolicy(await storage.getOrganization(appointment.organizationId));
+          if (policy) {
+            lateCancellation = evaluateCancellation(policy, appointment, appointment.cancellationRequestedAt || new Date());
+            retainedAmount = lateCancellation.retainedDeposit;
+          }
+        }
+        const retainDeposit = retainedAmount > 0;
+
         // Approve cancellation
         await storage.updateAppointment(appointmentId, appointment.organizationId, { 
           status: "canceled",
-          privateNotes: `${appointment.privateNotes || ''}\nCancellation approved by ${req.user!.email} on ${new Date().toLocaleDateString()}.${retainDeposit ? ' Deposit retained.' : ' Full refund issued.'} Reason: ${reason || 'N/A'}`
+          privateNotes: `${appointment.privateNotes || ''}\nCancellation approved by ${req.user!.email} on ${new Date().toLocaleDateString()}.${retainDeposit ? ` $${retainedAmount.toFixed(2)} of deposit retained.` : ' Full refund issued.'} Reason: ${reason || 'N/A'}`
         });
 
-        // Handle refund if not retaining deposit
-        if (!retainDeposit && Number(appointment.depositPaid) > 0) {
-          // Get the original payment transaction
-          const transactions = await storage.getTransactionsByAppointment(appointmentId);
-          const depositTransaction = transactions.find(t => 
-            t.type === "appointment_deposit" && t.status === "completed"
-          );
-
-          if (depositTransaction?.stripePaymentIntentId) {
-            try {
-              // Process refund through Stripe
-              const organization = await storage.getOrganization(appointment.organizationId);
-              if (stripe && organization?.stripeConnectAccountId) {
-                const refund = await stripe.refunds.create({
-                  payment_intent: depositTransaction.stripePaymentIntentId,
-                  amount: Math.round(Number(appointment.depositPaid) * 100) // Convert to cents
-                }, {
-                  stripeAccount: organization.stripeConnectAccountId
-                });
-
-                // Record refund transaction
-                await storage.createTransaction({
-                  organizationId: appointment.organizationId,
-                  clientId: appointment.clientId,
-                  appointmentId: appointment.id,
-                  amount: `-${appointment.depositPaid}`,
-                  type: "refund",
-                  status: "completed",
-                  stripePaymentIntentId: depositTransaction.stripePaymentIntentId,
-                  description: `Deposit refund for cancelled appointment`
-                });
-              }
-            } catch (refundError) {
-              console.error("Refund processing error:", refundError);
-              // Continue even if refund fails - log it for manual processing
-            }
-          }
-        }
+        // Give back whatever is not retained
+        const { refundAmount, giftCardRestored } = await settleCanceledPrepayments(
+          appointment,
+          retainedAmount,
+          retainDeposit ? `Partial deposit refund for late cancellation` : `Deposit refund for cancelled appointment`
+        );
 
         await auditLog(req, "approve_cancellation", "appointment", appointmentId, {
           approved: true,
           retainDeposit,
+          retainedAmount,
+          refundAmount,
+          decidedByPolicy: !!lateCancellation,
           depositAmount: appointment.depositPaid,
+          giftCardRestored,
           reason
         });
 
+        // Offer the freed slot to the waitlist
+        let waitlistOffered = false;
+        try {
+          const offer = await waitlistService.offerSlot({
+            organizationId: appointment.organizationId,
+            locationId: appointment.locationId,
+            staffId: appointment.staffId,
+            serviceId: appointment.serviceId,
+            startTime: new Date(appointment.startTime),
+            endTime: new Date(appointment.endTime),
+            sourceAppointmentId: appointment.id
+          });
+          waitlistOffered = !!offer;
+        } catch (waitlistError) {
+          console.error("Waitlist offer error:", waitlistError);
+          // Don't fail the request if the waitlist offer fails
+        }
+
         res.json({
           message: `Cancellation approved${retainDeposit ? ', deposit retained' : ', deposit refunded'}`,
           approved: true,
           retainDeposit,
-          depositAmount: appointment.depositPaid
+          retainedAmount,
+          refundAmount,
+          lateCancellation,
+          depositAmount: appointment.depositPaid,
+          giftCardRestored,
+          waitlistOffered
         });
       } else {
         // Deny cancellation - appointment remains scheduled
         await storage.updateAppointment(appointmentId, appointment.organizationId, { 
           status: "scheduled",
+          cancellationRequestedAt: null,
           privateNotes: `${appointment.privateNotes || ''}\nCancellation denied by ${req.user!.email} on ${new Date().toLocaleDateString()}. Reason: ${reason || 'N/A'}`
         });
 
@@ -2569,8 +6779,307 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Waitlist - patients wait for an opening; freed slots are offered in priority order
+  app.get("/api/waitlist/my", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.json({ entries: [], offers: [] });
+      }
+
+      const [entries, offers, services, locations] = await Promise.all([
+        storage.getWaitlistEntriesByClient(client.id),
+        storage.getWaitlistOffersByClient(client.id),
+        storage.getServicesByOrganization(client.organizationId),
+        storage.getLocationsByOrganization(client.organizationId)
+      ]);
+      const serviceNames = new Map(services.map(s => [s.id, s.name]));
+      const locationNames = new Map(locations.map(l => [l.id, l.name]));
+      const paidServiceIds = new Set(services.filter(s => Number(s.price) > 0).map(s => s.id));
+
+      res.json({
+        entries: entries
+          .filter(entry => entry.status === 'waiting' || entry.status === 'offered')
+          .map(entry => ({
+            ...entry,
+            serviceName: serviceNames.get(entry.serviceId),
+            locationName: locationNames.get(entry.locationId)
+          })),
+        offers: offers
+          .filter(offer => offer.status === 'pending' && new Date(offer.expiresAt) > new Date())
+          .map(offer => ({
+            ...offer,
+            serviceName: serviceNames.get(offer.serviceId),
+            locationName: locationNames.get(offer.locationId),
+            paymentRequired: paidServiceIds.has(offer.serviceId)
+          }))
+      });
+    } catch (error) {
+      console.error("Get my waitlist error:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  app.post("/api/waitlist", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      if (!client) {
+        return res.status(400).json({ message: "Client profile not found" });
+      }
+
+      const entryData = insertWaitlistEntrySchema.parse({
+        ...req.body,
+        organizationId: client.organizationId,
+        clientId: client.id,
+        priority: 0,
+        status: "waiting"
+      });
+
+      const [location, service] = await Promise.all([
+        storage.getLocation(entryData.locationId),
+        storage.getService(entryData.serviceId)
+      ]);
+      if (!location || location.organizationId !== client.organizationId) {
+        return res.status(400).json({ message: "Invalid location" });
+      }
+      if (!service || service.organizationId !== client.organizationId) {
+        return res.status(400).json({ message: "Invalid service" });
+      }
+      if (entryData.staffId) {
+        const staffMember = await storage.getStaff(entryData.staffId);
+        if (!staffMember || staffMember.organizationId !== client.organizationId) {
+          return res.status(400).json({ message: "Invalid provider" });
+        }
+      }
+
+      const entry = await storage.createWaitlistEntry(entryData);
+      await auditLog(req, "create", "waitlist_entry", entry.id, entryData);
+
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Join waitlist error:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  app.get("/api/waitlist", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("appointments.view"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      if (!orgId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const entries = await storage.getWaitlistEntriesByOrganization(orgId);
+      res.json(entries.filter(entry => entry.status === 'waiting' || entry.status === 'offered'));
+    } catch (error) {
+      console.error("Get waitlist error:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  // Clinics can move a client up or down the waitlist
+  app.patch("/api/waitlist/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("appointments.edit"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry || entry.organizationId !== orgId) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+
+      const { priority } = z.object({ priority: z.number().int() }).parse(req.body);
+      const updated = await storage.updateWaitlistEntry(entry.id, { priority });
+      await auditLog(req, "update", "waitlist_entry", entry.id, { priority });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update waitlist entry error:", error);
+      res.status(500).json({ message: "Failed to update waitlist entry" });
+    }
+  });
+
+  app.delete("/api/waitlist/:id", requireAuth, async (req, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+
+      // Patients can leave their own entries; clinic users can remove any entry in their organization
+      if (req.user!.role === "patient") {
+        const client = await storage.getClientByUser(req.user!.id);
+        if (!client || client.id !== entry.clientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else {
+        const orgId = await getUserOrganizationId(req.user!);
+        if (entry.organizationId !== orgId || !(await userHasPermission(req.user!, "appointments.edit"))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      await storage.updateWaitlistEntry(entry.id, { status: "canceled" });
+      await auditLog(req, "delete", "waitlist_entry", entry.id, { status: "canceled" });
+
+      res.json({ message: "Removed from waitlist" });
+    } catch (error) {
+      console.error("Leave waitlist error:", error);
+      res.status(500).json({ message: "Failed to remove waitlist entry" });
+    }
+  });
+
+  // Accepting an offer books a free service's held slot straight away. Priced services are claimed through
+  // book-with-payment with the offer id instead, so the deposit or full price is paid like any other online booking.
+  app.post("/api/waitlist/offers/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      const offer = await storage.getWaitlistOffer(req.params.id);
+      if (!client || !offer || offer.clientId !== client.id) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      if (offer.status !== "pending" || new Date(offer.expiresAt) <= new Date()) {
+        return res.status(410).json({ message: "This offer has expired" });
+      }
+
+      const [service, location] = await Promise.all([
+        storage.getService(offer.serviceId),
+        storage.getLocation(offer.locationId)
+      ]);
+      if (!service || !location) {
+        return res.status(400).json({ message: "This slot is no longer available" });
+      }
+      if (Number(service.price) > 0) {
+        return res.status(402).json({ message: "This appointment needs payment to book", paymentRequired: true });
+      }
+
+      const startTime = new Date(offer.startTime);
+      const endTime = new Date(offer.endTime);
+      const slot = { ...offer, startTime, endTime };
+      const closureReason = await checkLocationHoursException(location, startTime, endTime);
+      const resourceCheck = await checkResourceAvailability(service, location.id, startTime, endTime);
+      if (closureReason || !resourceCheck.available || await waitlistService.isSlotTaken(slot)) {
+        await storage.updateWaitlistOffer(offer.id, { status: "expired", respondedAt: new Date() });
+        await storage.updateWaitlistEntry(offer.waitlistEntryId, { status: "waiting" });
+        return res.status(409).json({ message: closureReason || resourceCheck.reason || "This slot is no longer available" });
+      }
+
+      // Claim the offer first so a concurrent expiry or second click can't book twice
+      const accepted = await storage.updateWaitlistOffer(offer.id, { status: "accepted", respondedAt: new Date() });
+      if (!accepted) {
+        return res.status(410).json({ message: "This offer has expired" });
+      }
+
+      const appointment = await storage.createAppointment({
+        organizationId: offer.organizationId,
+        locationId: offer.locationId,
+        clientId: offer.clientId,
+        staffId: offer.staffId,
+        serviceId: offer.serviceId,
+        startTime,
+        endTime,
+        status: "scheduled",
+        totalAmount: service.price,
+        notes: "Booked from waitlist",
+        resourceIds: resourceCheck.resourceIds.length > 0 ? resourceCheck.resourceIds : null
+      });
+      await storage.updateWaitlistOffer(offer.id, { appointmentId: appointment.id }, "accepted");
+      await storage.updateWaitlistEntry(offer.waitlistEntryId, { status: "booked" });
+      await auditLog(req, "accept", "waitlist_offer", offer.id, { appointmentId: appointment.id });
+      await intakeFormService.requestForAppointment(appointment);
+
+      try {
+        const appointmentDate = startTime.toLocaleString('en-US', {
+          weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit',
+          timeZone: location.timezone || 'America/New_York'
+        });
+        await notificationService.send({
+          userId: req.user!.id,
+          organizationId: offer.organizationId,
+          type: 'booking',
+          title: 'Appointment Confirmed',
+          message: `Your ${service.name} appointment has been booked for ${appointmentDate}.`,
+          data: {
+            appointmentId: appointment.id,
+            serviceId: service.id,
+            serviceName: service.name,
+            startTime: appointment.startTime,
+            actionUrl: `/patient/appointments`,
+            actionText: 'View Appointment'
+          },
+          channels: ['in_app', 'email']
+        });
+      } catch (notifError) {
+        console.error('Failed to send waitlist booking notification:', notifError);
+        // Don't fail the request if notification fails
+      }
+
+      res.json(appointment);
+    } catch (error) {
+      console.error("Accept waitlist offer error:", error);
+      res.status(500).json({ message: "Failed to accept offer" });
+    }
+  });
+
+  app.post("/api/waitlist/offers/:id/decline", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClientByUser(req.user!.id);
+      const offer = await storage.getWaitlistOffer(req.params.id);
+      if (!client || !offer || offer.clientId !== client.id) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+
+      const declined = await waitlistService.declineOffer(offer);
+      if (!declined) {
+        return res.status(410).json({ message: "This offer is no longer pending" });
+      }
+      await auditLog(req, "decline", "waitlist_offer", offer.id, {});
+
+      res.json({ message: "Offer declined. You're still on the waitlist." });
+    } catch (error) {
+      console.error("Decline waitlist offer error:", error);
+      res.status(500).json({ message: "Failed to decline offer" });
+    }
+  });
+
+  // Series overview with attendance so far, used to track package adherence
+  app.get("/api/appointment-series/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("appointments.view"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      const series = await storage.getAppointmentSeries(req.params.id);
+      if (!series || series.organizationId !== orgId) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+
+      const occurrences = await storage.getAppointmentsBySeries(series.id);
+      const now = new Date();
+      const countStatus = (...statuses: string[]) => occurrences.filter(apt => statuses.includes(apt.status || '')).length;
+
+      res.json({
+        series,
+        occurrences,
+        adherence: {
+          total: occurrences.length,
+          completed: countStatus('completed'),
+          noShow: countStatus('no_show'),
+          canceled: countStatus('canceled'),
+          upcoming: occurrences.filter(apt =>
+            ['pending', 'scheduled', 'confirmed'].includes(apt.status || '') && new Date(apt.startTime) >= now
+          ).length
+        }
+      });
+    } catch (error) {
+      console.error("Get appointment series error:", error);
+      res.status(500).json({ message: "Failed to fetch appointment series" });
+    }
+  });
+
   // Archive appointment
-  app.patch("/api/appointments/:id/archive", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+  app.patch("/api/appointments/:id/archive", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("appointments.edit"), async (req, res) => {
     try {
       const appointmentId = req.params.id;
       const appointment = await storage.getAppointment(appointmentId);
@@ -2596,7 +7105,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Unarchive appointment
-  app.patch("/api/appointments/:id/unarchive", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+  app.patch("/api/appointments/:id/unarchive", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("appointments.edit"), async (req, res) => {
     try {
       const appointmentId = req.params.id;
       const appointment = await storage.getAppointment(appointmentId);
@@ -2627,6 +7136,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { staffId } = req.params;
       const date = req.query.date as string;
       const locationId = req.query.locationId as string;
+      const serviceId = req.query.serviceId as string | undefined;
       
       // Verify staff belongs to user's organization
       const userOrgId = await getUserOrganizationId(req.user!);
@@ -2676,22 +7186,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Default business hours for new clinics (9am-6pm Mon-Sat, closed Sunday)
-      const defaultBusinessHours = {
-        monday: { open: "09:00", close: "18:00" },
-        tuesday: { open: "09:00", close: "18:00" },
-        wednesday: { open: "09:00", close: "18:00" },
-        thursday: { open: "09:00", close: "18:00" },
-        friday: { open: "09:00", close: "18:00" },
-        saturday: { open: "09:00", close: "18:00" },
-        sunday: null // Closed on Sundays by default
-      };
+      // When a service is given, slots must fit its full duration plus buffers,
+      // and every required room/equipment must be free for that time
+      const requestedService = serviceId ? await storage.getService(serviceId) : undefined;
+      const service = requestedService?.organizationId === staff.organizationId ? requestedService : undefined;
+      const requiredResourceIds = Array.isArray(service?.requiredResourceIds) ? service!.requiredResourceIds as string[] : [];
+      let resourceIds: string[] = [];
+      let resourceAppointments: Awaited<ReturnType<typeof storage.getConflictingResourceAppointments>> = [];
+      if (service && requiredResourceIds.length > 0 && location) {
+        const locationResources = await storage.getResourcesByLocation(location.id);
+        resourceIds = locationResources.filter(r => requiredResourceIds.includes(r.id)).map(r => r.id);
+        // Wide window around the calendar day so every timezone offset is covered
+        const dayStartUTC = new Date(Date.UTC(year, month - 1, day) - 14 * 60 * 60 * 1000);
+        const dayEndUTC = new Date(Date.UTC(year, month - 1, day + 1) + 14 * 60 * 60 * 1000);
+        resourceAppointments = await storage.getConflictingResourceAppointments(staff.organizationId, resourceIds, dayStartUTC, dayEndUTC);
+        console.log(`🔍 [AVAILABILITY] Required resources: ${resourceIds.length}/${requiredResourceIds.length} at location, ${resourceAppointments.length} bookings`);
+      }
+      const resourcesMissing = requiredResourceIds.length > 0 && resourceIds.length === 0;
+      
+      // Existing bookings block their own service's setup and cleanup time too
+      const servicesById = new Map((await storage.getServicesByOrganization(staff.organizationId)).map(s => [s.id, s]));
+      // Slots offered to waitlisted clients stay held until the offer is accepted, declined or expires
+      const heldOffers = await storage.getPendingWaitlistOffersByStaff(staffId, new Date());
       
       // Get business hours from location or use defaults
       // Handle NULL, empty object, or undefined by using defaults
       let businessHours = location?.businessHours as any;
       if (!businessHours || typeof businessHours !== 'object' || Object.keys(businessHours).length === 0) {
-        businessHours = defaultBusinessHours;
+        businessHours = DEFAULT_BUSINESS_HOURS;
         console.log(`🔍 [AVAILABILITY] Using default business hours`);
       } else {
         console.log(`🔍 [AVAILABILITY] Using location business hours:`, JSON.stringify(businessHours));
@@ -2701,25 +7223,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const selectedDate = new Date(year, month - 1, day);
       const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
       const dayName = dayNames[selectedDate.getDay()];
-      const dayHours = businessHours[dayName];
-      console.log(`🔍 [AVAILABILITY] Day: ${dayName}, Hours: ${JSON.stringify(dayHours)}`);
+      const dateString = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+      let dayHours = businessHours[dayName];
+      
+      // A holiday closure or special hours for this date replace the weekly hours
+      const hoursException = location ? await storage.getLocationHoursException(location.id, dateString) : undefined;
+      if (hoursException?.isClosed) {
+        console.log(`🔍 [AVAILABILITY] Location closed on ${dateString}: ${hoursException.reason || 'no reason given'}`);
+        return res.json({
+          date: dateString,
+          timezone,
+          slots: [],
+          closed: true,
+          closedReason: hoursException.reason
+        });
+      }
+      if (hoursException) {
+        dayHours = { open: hoursException.openTime, close: hoursException.closeTime };
+      }
+      console.log(`🔍 [AVAILABILITY] Day: ${dayName}, Hours: ${JSON.stringify(dayHours)}${hoursException ? ' (modified)' : ''}`);
       
-      // If clinic is closed on this day, return empty slots
-      if (!dayHours || !dayHours.open || !dayHours.close) {
+      // Apply the staff member's time off, breaks and extra shifts for this date
+      const daySchedule = getStaffDaySchedule(await storage.getStaffScheduleExceptions(staffId), dateString, selectedDate.getDay());
+      const toMinutes = (time: string) => {
+        const [h, m] = time.split(':').map(Number);
+        return h * 60 + m;
+      };
+      const workingWindows = [
+        ...(dayHours?.open && dayHours?.close ? [{ start: dayHours.open as string, end: dayHours.close as string }] : []),
+        ...daySchedule.extraShifts
+      ].map(window => ({ start: toMinutes(window.start), end: toMinutes(window.end) }));
+      const blockedWindows = daySchedule.blocked.map(window => ({ start: toMinutes(window.start), end: toMinutes(window.end) }));
+      // Providers with weekly availability set only take bookings inside it, apart from extra shifts
+      const weeklyAvailability = await storage.getStaffAvailabilityByStaff(staffId);
+      const weeklyWindows = weeklyAvailability
+        .filter(window => window.dayOfWeek === selectedDate.getDay())
+        .map(window => ({ start: toMinutes(window.startTime), end: toMinutes(window.endTime) }));
+      const extraShiftWindows = daySchedule.extraShifts.map(window => ({ start: toMinutes(window.start), end: toMinutes(window.end) }));
+      console.log(`🔍 [AVAILABILITY] Off all day: ${daySchedule.offAllDay}, Extra shifts: ${daySchedule.extraShifts.length}, Blocked: ${blockedWindows.length}`);
+      
+      // If clinic is closed (and no extra shift) or the staff member is off, return empty slots
+      if (daySchedule.offAllDay || workingWindows.length === 0) {
         return res.json({
-          date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+          date: dateString,
           timezone,
           slots: []
         });
       }
       
-      // Parse business hours
-      const [startHour, startMinute] = dayHours.open.split(':').map(Number);
-      const [endHour, endMinute] = dayHours.close.split(':').map(Number);
+      // Slots run from the earliest opening to the latest closing across business hours and extra shifts
+      const openMinutes = Math.min(...workingWindows.map(window => window.start));
+      const startHour = Math.floor(openMinutes / 60);
+      const startMinute = openMinutes % 60;
       
-      // Generate time slots based on business hours (30-minute intervals)
+      // Generate time slots based on business hours, using the location's slot interval
       const slots = [];
-      const intervalMinutes = 30;
+      const intervalMinutes = location?.slotIntervalMinutes || 30;
+      const durationMinutes = service?.duration || intervalMinutes;
+      const closeMinutes = Math.max(...workingWindows.map(window => window.end));
+      console.log(`🔍 [AVAILABILITY] Interval: ${intervalMinutes}min, Duration: ${durationMinutes}min`);
       
       let currentHour = startHour;
       let currentMinute = startMinute;
@@ -2744,7 +7306,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const clinicCurrentHour = nowInClinicTz.getHours();
       const clinicCurrentMinute = nowInClinicTz.getMinutes();
       
-      while (currentHour < endHour || (currentHour === endHour && currentMinute < endMinute)) {
+      // Only offer starts where the whole service finishes by closing time
+      while (currentHour * 60 + currentMinute + durationMinutes <= closeMinutes) {
         // Format time for display (HH:MM in clinic's local time)
         const timeString = `${String(currentHour).padStart(2, '0')}:${String(currentMinute).padStart(2, '0')}`;
         
@@ -2809,22 +7372,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Step 4: Apply the offset to get the correct UTC time
         const slotTime = new Date(probeUTC.getTime() + offsetMinutes * 60 * 1000);
         
+        // Skip slots that don't fit inside a single working window,
+        // and slots inside the minimum notice period or beyond the booking horizon
+        const slotStartMinutes = currentHour * 60 + currentMinute;
+        const fitsWindow = (window: { start: number; end: number }) =>
+          slotStartMinutes >= window.start && slotStartMinutes + durationMinutes <= window.end;
+        const fitsWorkingWindow = workingWindows.some(fitsWindow) &&
+          (weeklyAvailability.length === 0 || weeklyWindows.some(fitsWindow) || extraShiftWindows.some(fitsWindow));
+        if (!fitsWorkingWindow || (location && !isWithinBookingWindow(location, slotTime, now))) {
+          currentMinute += intervalMinutes;
+          if (currentMinute >= 60) {
+            currentHour += Math.floor(currentMinute / 60);
+            currentMinute = currentMinute % 60;
+          }
+          continue;
+        }
+        
+        // The time this booking would block, including the service's setup and cleanup buffers
+        const slotWindow = getBufferedWindow(slotTime, new Date(slotTime.getTime() + durationMinutes * 60 * 1000), service);
+        
         // Check if this slot conflicts with existing active appointments
         // Only consider scheduled/pending/confirmed appointments (exclude canceled/completed)
-        const isAvailable = !existingAppointments.some(apt => {
+        const onBreak = blockedWindows.some(window =>
+          slotStartMinutes < window.end && slotStartMinutes + durationMinutes > window.start
+        );
+        const isHeld = heldOffers.some(offer => {
+          const offerWindow = getBufferedWindow(offer.startTime, offer.endTime, servicesById.get(offer.serviceId));
+          return slotWindow.start < offerWindow.end && slotWindow.end > offerWindow.start;
+        });
+        const isAvailable = !onBreak && !isHeld && !existingAppointments.some(apt => {
           // Skip canceled or completed appointments
           if (apt.status === 'canceled' || apt.status === 'completed') {
             return false;
           }
           
-          const aptStart = new Date(apt.startTime);
-          const aptEnd = new Date(apt.endTime);
-          return slotTime >= aptStart && slotTime < aptEnd;
+          const aptWindow = getBufferedWindow(apt.startTime, apt.endTime, servicesById.get(apt.serviceId));
+          return slotWindow.start < aptWindow.end && slotWindow.end > aptWindow.start;
+        });
+        
+        // Check that the service's rooms/equipment are free for the whole appointment
+        const resourcesFree = !resourcesMissing && !resourceAppointments.some(apt => {
+          const aptWindow = getBufferedWindow(apt.startTime, apt.endTime, servicesById.get(apt.serviceId));
+          return slotWindow.start < aptWindow.end && slotWindow.end > aptWindow.start;
         });
         
         slots.push({
           time: timeString,
-          available: isAvailable,
+          available: isAvailable && resourcesFree,
           staffId: staffId,
           datetime: slotTime.toISOString()
         });
@@ -2863,7 +7457,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         startTime, 
         endTime, 
         paymentType = 'full',
-        clientInfo 
+        clientInfo,
+        useWallet = false,
+        waitlistOfferId
       } = req.body;
 
       // Get service details to determine payment type
@@ -2878,6 +7474,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid location for this service" });
       }
 
+      // Claiming a waitlist offer books exactly the held slot, and only the client it was offered to can claim it
+      const waitlistOffer = waitlistOfferId ? await storage.getWaitlistOffer(waitlistOfferId) : undefined;
+      if (waitlistOfferId) {
+        const offerClient = req.isAuthenticated() ? await storage.getClientByUser(req.user!.id) : undefined;
+        if (!waitlistOffer || !offerClient || waitlistOffer.clientId !== offerClient.id ||
+            waitlistOffer.status !== 'pending' || new Date(waitlistOffer.expiresAt) <= new Date() ||
+            waitlistOffer.serviceId !== serviceId || waitlistOffer.locationId !== locationId || waitlistOffer.staffId !== staffId ||
+            new Date(waitlistOffer.startTime).getTime() !== new Date(startTime).getTime() ||
+            new Date(waitlistOffer.endTime).getTime() !== new Date(endTime).getTime()) {
+          return res.status(410).json({ message: "This offer has expired" });
+        }
+      }
+
+      // A waitlist offer was made for a freed slot, so it can be claimed inside the usual notice period
+      if (!waitlistOffer && !isWithinBookingWindow(location, new Date(startTime))) {
+        return res.status(400).json({ message: "This time is outside the clinic's booking window" });
+      }
+
+      // Check hours, the provider's schedule and other bookings (buffers included), other clients' waitlist holds
+      // and required rooms/equipment before charging anything
+      const resourceCheck = await checkSlotBookable(
+        { organizationId: service.organizationId, staffId, startTime: new Date(startTime), endTime: new Date(endTime) },
+        service,
+        location,
+        undefined,
+        { waitlistOfferId: waitlistOffer?.id }
+      );
+      if (!resourceCheck.available) {
+        return res.status(409).json({ message: resourceCheck.reason });
+      }
+
       // For public bookings, create temporary client record
       let client;
       if (req.isAuthenticated()) {
@@ -2919,7 +7546,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // If service is set to "deposit", charge only the deposit amount
       // If service is set to "full", charge the full price
       const isDepositPayment = service.paymentType === 'deposit';
-      const paymentAmount = isDepositPayment ? Number(service.depositAmount || 0) : Number(service.price);
+
+      // Signed-in members get their tier discount off the price, and their credits go toward what's due today
+      // before the wallet or card. Public bookings only match a client by email, so they get neither.
+      const membership = req.isAuthenticated()
+        ? (await storage.getMembershipsByClient(client.id))
+          .find(m => m.status === 'active' && m.organizationId === service.organizationId)
+        : undefined;
+      const memberDiscount = Math.round(Number(service.price) * Number(membership?.discountPercentage || 0)) / 100;
+      const discountedPrice = Math.round((Number(service.price) - memberDiscount) * 100) / 100;
+
+      // Taxable services pay the location's sales tax on the discounted price. A deposit collects no tax itself,
+      // so the checkout records all of it later.
+      const taxRate = Number(location.taxRate || 0);
+      const taxAmount = service.isTaxable ? calculateTax(discountedPrice, taxRate) : 0;
+      const totalPrice = Math.round((discountedPrice + taxAmount) * 100) / 100;
+      const tax: TaxBreakdown | null = taxAmount > 0
+        ? { locationId, rate: taxRate, taxableAmount: discountedPrice, amount: isDepositPayment ? 0 : taxAmount }
+        : null;
+      const paymentAmount = isDepositPayment ? Math.min(Number(service.depositAmount || 0), totalPrice) : totalPrice;
+
+      // Stripe won't charge less than $0.50, so leave at least that on the card when splitting
+      const leaveCardMinimum = (applied: number, due: number) => {
+        if (applied < due && due - applied < 0.5) {
+          applied = Math.max(0, due - 0.5);
+        }
+        return Math.round(applied * 100) / 100;
+      };
+
+      let creditsApplied = 0;
+      if (membership && paymentAmount > 0) {
+        creditsApplied = leaveCardMinimum(Math.min(Number(membership.creditBalance || 0), paymentAmount), paymentAmount);
+      }
+      const dueAfterCredits = Math.round((paymentAmount - creditsApplied) * 100) / 100;
+
+      // Signed-in patients can put their wallet balance toward the payment
+      let walletApplied = 0;
+      if (useWallet && req.isAuthenticated() && dueAfterCredits > 0) {
+        walletApplied = leaveCardMinimum(Math.min(Number(client.walletBalance || 0), dueAfterCredits), dueAfterCredits);
+      }
+      const cardAmount = Math.round((dueAfterCredits - walletApplied) * 100) / 100;
+
+      const walletPayment = (appointmentId: string) => ({
+        organizationId: service.organizationId,
+        clientId: client.id,
+        appointmentId,
+        amount: walletApplied.toFixed(2),
+        type: "wallet_payment",
+        status: "completed" as const,
+        paymentMethod: "wallet",
+        description: `Wallet payment for ${service.name}`,
+        // The tax goes on the card payment, or on the wallet payment when there is no card payment
+        ...(tax && cardAmount === 0 ? { metadata: { tax } } : {})
+      });
+
+      // Claim the offer before booking so a concurrent expiry or second click can't book the slot twice
+      const claimWaitlistOffer = async (): Promise<boolean> =>
+        !waitlistOffer || !!await storage.updateWaitlistOffer(waitlistOffer.id, { status: "accepted", respondedAt: new Date() });
+      const linkWaitlistOffer = async (appointmentId: string) => {
+        if (!waitlistOffer) return;
+        await storage.updateWaitlistOffer(waitlistOffer.id, { appointmentId }, "accepted");
+        await storage.updateWaitlistEntry(waitlistOffer.waitlistEntryId, { status: "booked" });
+      };
+      // Hands the offer back when the booking fails after it was claimed
+      const releaseWaitlistOffer = async () => {
+        if (!waitlistOffer) return;
+        await storage.updateWaitlistOffer(waitlistOffer.id, { status: "pending", respondedAt: null, appointmentId: null }, "accepted");
+        await storage.updateWaitlistEntry(waitlistOffer.waitlistEntryId, { status: "offered" });
+      };
+
+      // Takes the credit and wallet shares; on failure nothing stays taken and the reason is returned
+      const holdMemberFunds = async (appointmentId: string): Promise<string | null> => {
+        if (membership && creditsApplied > 0) {
+          const redemption = await storage.applyMembershipCredits(membership.id, creditsApplied, {
+            organizationId: service.organizationId,
+            clientId: client.id,
+            membershipId: membership.id,
+            appointmentId,
+            amount: creditsApplied.toFixed(2),
+            type: "membership_credit_redemption",
+            status: "completed",
+            paymentMethod: "membership_credits",
+            description: `Membership credits for ${service.name}`,
+            ...(tax && cardAmount === 0 && walletApplied === 0 ? { metadata: { tax } } : {})
+          });
+          if (!redemption) return "Membership credit balance is too low for this booking";
+        }
+        if (walletApplied > 0) {
+          const debit = await storage.applyWalletEntries(client.id, -walletApplied, [walletPayment(appointmentId)]);
+          if (!debit) {
+            await storage.refundMembershipCredits(appointmentId, "Membership credits released from failed booking");
+            return "Wallet balance is too low for this booking";
+          }
+        }
+        return null;
+      };
+
+      if (cardAmount === 0 && (walletApplied > 0 || creditsApplied > 0 || memberDiscount > 0)) {
+        // Covered entirely by membership benefits and the wallet - no card charge needed
+        if (!await claimWaitlistOffer()) {
+          return res.status(410).json({ message: "This offer has expired" });
+        }
+        const appointment = await storage.createAppointment({
+          organizationId: service.organizationId,
+          locationId,
+          clientId: client.id,
+          staffId,
+          serviceId,
+          startTime: new Date(startTime),
+          endTime: new Date(endTime),
+          totalAmount: totalPrice.toString(),
+          depositPaid: "0",
+          status: "pending",
+          resourceIds: resourceCheck.resourceIds.length > 0 ? resourceCheck.resourceIds : null
+        });
+
+        const holdError = await holdMemberFunds(appointment.id);
+        if (holdError) {
+          await storage.updateAppointment(appointment.id, service.organizationId, { status: "canceled" });
+          await releaseWaitlistOffer();
+          return res.status(409).json({ message: holdError });
+        }
+        await linkWaitlistOffer(appointment.id);
+
+        await storage.updateAppointment(appointment.id, service.organizationId, {
+          status: "scheduled",
+          depositPaid: paymentAmount.toFixed(2)
+        });
+
+        // Credits are a membership benefit rather than a payment, so only wallet money earns points
+        const pointsEarned = walletApplied > 0 ? await calculateRewardPoints(client.id, service.organizationId, walletApplied) : 0;
+        if (pointsEarned > 0) {
+          await storage.createReward({
+            organizationId: service.organizationId,
+            clientId: client.id,
+            points: pointsEarned,
+            reason: `Service payment: ${service.name}`,
+            referenceId: appointment.id,
+            referenceType: 'appointment'
+          });
+        }
+
+        await receiptService.emailReceipt(appointment.id);
+        await intakeFormService.requestForAppointment(appointment);
+
+        return res.json({
+          appointmentId: appointment.id,
+          paymentAmount: paymentAmount,
+          paymentType: isDepositPayment ? "deposit" : "full",
+          totalAmount: totalPrice,
+          memberDiscount,
+          taxAmount,
+          creditsApplied,
+          walletApplied,
+          paidWithoutCard: true
+        });
+      }
       
       // Create Stripe PaymentIntent using DESTINATION CHARGE pattern
       if (!stripe) {
@@ -2942,16 +7724,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Commission rates: Professional=12%, Enterprise=10%, default=12%
       const commissionPercent = orgPlan?.tier === 'enterprise' ? 10 : 12;
-      const applicationFeeAmount = Math.round((paymentAmount * commissionPercent / 100) * 100); // in cents
+      const applicationFeeAmount = Math.round((cardAmount * commissionPercent / 100) * 100); // in cents
       
       console.log(`🔍 [PAYMENT INTENT] Creating DESTINATION CHARGE for org: ${organization.name}`);
-      console.log(`🔍 [PAYMENT INTENT] Amount: $${paymentAmount}, Commission: ${commissionPercent}% ($${applicationFeeAmount/100})`);
+      console.log(`🔍 [PAYMENT INTENT] Amount: $${cardAmount}, Commission: ${commissionPercent}% ($${applicationFeeAmount/100})`);
       console.log(`🔍 [PAYMENT INTENT] Destination Connect account: ${organization.stripeConnectAccountId}`);
       
       // DESTINATION CHARGE: Created on platform account, funds transferred to Connect account
       // This allows application_fee_amount and on_behalf_of for proper commission collection
       const paymentIntentData: any = {
-        amount: Math.round(paymentAmount * 100), // Convert to cents
+        amount: Math.round(cardAmount * 100), // Convert to cents
         currency: 'usd',
         automatic_payment_methods: {
           enabled: true,
@@ -2968,6 +7750,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           clientEmail: client.email || '',
           clientName: `${client.firstName} ${client.lastName}`,
           paymentType: isDepositPayment ? "deposit" : "full_payment",
+          walletApplied: walletApplied.toFixed(2),
+          creditsApplied: creditsApplied.toFixed(2),
+          memberDiscount: memberDiscount.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
           platformCommission: `${commissionPercent}%`
         }
       };
@@ -2977,6 +7763,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`✅ [PAYMENT INTENT] Destination charge created: ${paymentIntent.id}`);
 
+      if (!await claimWaitlistOffer()) {
+        await stripe.paymentIntents.cancel(paymentIntent.id);
+        return res.status(410).json({ message: "This offer has expired" });
+      }
+
       // Create appointment with pending status - only marked as scheduled after payment confirmation
       const appointment = await storage.createAppointment({
         organizationId: service.organizationId,
@@ -2986,32 +7777,100 @@ export async function registerRoutes(app: Express): Promise<Server> {
         serviceId,
         startTime: new Date(startTime),
         endTime: new Date(endTime),
-        totalAmount: (service.price || 0).toString(),
+        totalAmount: totalPrice.toString(),
         depositPaid: "0", // No deposit paid yet until payment is confirmed
-        status: "pending"
+        status: "pending",
+        resourceIds: resourceCheck.resourceIds.length > 0 ? resourceCheck.resourceIds : null
+      });
+
+      // Hold the credit and wallet shares now; they go back if the booking is abandoned
+      const holdError = await holdMemberFunds(appointment.id);
+      if (holdError) {
+        await stripe.paymentIntents.cancel(paymentIntent.id);
+        await storage.updateAppointment(appointment.id, service.organizationId, { status: "canceled" });
+        await releaseWaitlistOffer();
+        return res.status(409).json({ message: holdError });
+      }
+      await linkWaitlistOffer(appointment.id);
+
+      // Create transaction record
+      await storage.createTransaction({
+        organizationId: service.organizationId,
+        clientId: client.id,
+        appointmentId: appointment.id,
+        amount: cardAmount.toString(),
+        type: isDepositPayment ? "appointment_deposit" : "appointment_full",
+        status: "pending",
+        stripePaymentIntentId: paymentIntent.id,
+        metadata: tax ? { tax } : null
+      });
+
+      res.json({
+        appointmentId: appointment.id,
+        clientSecret: paymentIntent.client_secret,
+        paymentIntentId: paymentIntent.id,
+        paymentAmount: paymentAmount,
+        paymentType: isDepositPayment ? "deposit" : "full",
+        totalAmount: totalPrice,
+        memberDiscount,
+        taxAmount,
+        creditsApplied,
+        walletApplied
       });
+      
+    } catch (error) {
+      console.error("Book with payment error:", error);
+      res.status(500).json({ message: "Failed to create appointment with payment" });
+    }
+  });
+
+  // Add a tip for the provider to a booking paid in full online, before the card is confirmed.
+  // A new tip replaces the earlier one; tips are charged on the card but aren't part of the appointment total.
+  app.post("/api/appointments/:id/tip", async (req, res) => {
+    try {
+      const { paymentIntentId } = req.body;
+      const tipAmount = Math.round(Number(req.body.tipAmount) * 100) / 100;
+      if (!paymentIntentId || !Number.isFinite(tipAmount) || tipAmount < 0) {
+        return res.status(400).json({ message: "Payment Intent ID and a valid tip amount required" });
+      }
+
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment || appointment.status !== "pending") {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      // Guests book too, so holding the booking's unpaid payment intent stands in for a login
+      const transaction = (await storage.getTransactionsByAppointment(appointment.id))
+        .find(t => t.stripePaymentIntentId === paymentIntentId && t.status === "pending");
+      if (!transaction) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (transaction.type !== "appointment_full") {
+        return res.status(400).json({ message: "Tips can only be added when paying in full" });
+      }
+      if (tipAmount > Number(appointment.totalAmount || 0)) {
+        return res.status(400).json({ message: "The tip can't be more than the appointment total" });
+      }
+      if (!stripe) {
+        return res.status(500).json({ message: "Payment system not configured" });
+      }
 
-      // Create transaction record
-      await storage.createTransaction({
-        organizationId: service.organizationId,
-        clientId: client.id,
-        appointmentId: appointment.id,
-        amount: paymentAmount.toString(),
-        type: isDepositPayment ? "appointment_deposit" : "appointment_full",
-        status: "pending",
-        stripePaymentIntentId: paymentIntent.id
+      // The platform commission stays on the service amount, so the whole tip reaches the clinic
+      const metadata = (transaction.metadata || {}) as Record<string, unknown>;
+      const cardAmount = Math.round((Number(transaction.amount) - Number(metadata.tipAmount || 0) + tipAmount) * 100) / 100;
+      await stripe.paymentIntents.update(paymentIntentId, {
+        amount: Math.round(cardAmount * 100),
+        metadata: { tipAmount: tipAmount.toFixed(2), tipStaffId: appointment.staffId }
       });
-
-      res.json({
-        appointmentId: appointment.id,
-        clientSecret: paymentIntent.client_secret,
-        paymentAmount: paymentAmount,
-        paymentType: isDepositPayment ? "deposit" : "full"
+      await storage.updateTransaction(transaction.id, {
+        amount: cardAmount.toFixed(2),
+        metadata: { ...metadata, tipAmount }
       });
-      
+
+      res.json({ tipAmount, paymentAmount: cardAmount });
     } catch (error) {
-      console.error("Book with payment error:", error);
-      res.status(500).json({ message: "Failed to create appointment with payment" });
+      console.error("Booking tip error:", error);
+      res.status(500).json({ message: "Failed to add tip" });
     }
   });
 
@@ -3043,13 +7902,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get transaction to determine payment amount and type
       const transactions = await storage.getTransactionsByAppointment(appointmentId);
       const transaction = transactions.find(t => t.stripePaymentIntentId === paymentIntentId);
-      const paymentAmount = paymentIntent.amount / 100; // Convert cents to dollars
+      if (!transaction) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
 
-      // Update appointment to scheduled (confirmed) and record deposit/payment
-      await storage.updateAppointment(appointmentId, appointment.organizationId, {
+      if (appointment.status !== "pending") {
+        // A repeated confirmation of a booking that is already paid just reports it
+        if (transaction.status === "completed") {
+          return res.json({ success: true, appointment });
+        }
+        // The booking was released or canceled while the card was being charged, so the charge goes back
+        await pendingBookingService.refundCardPayment(transaction);
+        return res.status(409).json({ message: "This booking was released before the payment went through. The charge has been refunded." });
+      }
+
+      // Any credit or wallet share of a split payment was already taken when the booking was created
+      const sharePaid = (type: string) => transactions
+        .filter(t => t.type === type && t.status === 'completed')
+        .reduce((sum, t) => sum + Number(t.amount), 0);
+      const walletPaid = sharePaid('wallet_payment');
+      const creditsPaid = sharePaid('membership_credit_redemption');
+      // A tip added at payment goes to the provider, so it neither counts toward the visit nor earns points
+      const tipAmount = Number((transaction.metadata as { tipAmount?: number } | null)?.tipAmount || 0);
+      const paymentAmount = paymentIntent.amount / 100 + walletPaid + creditsPaid - tipAmount; // Convert cents to dollars
+
+      // Update appointment to scheduled (confirmed) and record deposit/payment, unless it was released meanwhile
+      const confirmed = await storage.transitionAppointment(appointmentId, "pending", {
         status: "scheduled",
         depositPaid: paymentAmount.toString() // Record the amount paid
       });
+      if (!confirmed) {
+        await pendingBookingService.refundCardPayment(transaction);
+        return res.status(409).json({ message: "This booking was released before the payment went through. The charge has been refunded." });
+      }
 
       // Update transaction to succeeded
       await storage.updateTransactionByPaymentIntent(paymentIntentId, {
@@ -3065,10 +7950,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
         
         if (!alreadyAwarded) {
+          // Credits are a membership benefit rather than a payment, so they earn no points
           const pointsEarned = await calculateRewardPoints(
             appointment.clientId, 
             appointment.organizationId, 
-            paymentIntent.amount / 100 // Convert cents to dollars
+            Math.round((paymentAmount - creditsPaid) * 100) / 100
           );
           
           if (pointsEarned > 0) {
@@ -3084,6 +7970,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      await receiptService.emailReceipt(appointmentId);
+      await intakeFormService.requestForAppointment(appointment);
+
       res.json({
         success: true,
         appointment: await storage.getAppointment(appointmentId)
@@ -3096,7 +7985,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin: Finalize appointment payment (charge remaining balance)
-  app.post("/api/appointments/:id/finalize-payment", requireAuth, requireRole("clinic_admin", "staff"), async (req, res) => {
+  app.post("/api/appointments/:id/finalize-payment", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("payments.process"), async (req, res) => {
     try {
       const { finalTotal } = req.body;
       const appointmentId = req.params.id;
@@ -3117,6 +8006,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
+      // Finalizing completes the visit, so a visit that never started still needs its consent on file
+      if (appointment.status !== "in_progress" && appointment.status !== "completed") {
+        const consentBlock = await checkConsentGate(appointment, "be completed");
+        if (consentBlock) {
+          return res.status(409).json(consentBlock);
+        }
+      }
+
       // Get client's Stripe customer ID
       const client = await storage.getClient(appointment.clientId);
       if (!client) {
@@ -3204,7 +8101,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get appointment payment history
-  app.get("/api/appointments/:id/transactions", requireAuth, async (req, res) => {
+  app.get("/api/appointments/:id/transactions", requireAuth, requirePermission("appointments.view"), async (req, res) => {
     try {
       const appointmentId = req.params.id;
       
@@ -3247,9 +8144,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Itemized receipt for a visit as a PDF; an invoice while part of it is still unpaid
+  app.get("/api/appointments/:id/receipt.pdf", requireAuth, requirePermission("appointments.view"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      if (req.user!.role === "patient") {
+        const client = await storage.getClientByUser(req.user!.id);
+        if (!client || client.id !== appointment.clientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (req.user!.role !== "super_admin" && await getUserOrganizationId(req.user!) !== appointment.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const receipt = await receiptService.buildReceipt(appointment);
+      if (!receipt) {
+        return res.status(404).json({ message: "Receipt not available" });
+      }
+
+      const pdf = await receiptService.renderPdf(receipt);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${receiptService.filename(receipt)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Receipt error:", error);
+      res.status(500).json({ message: "Failed to generate receipt" });
+    }
+  });
+
   // Service routes
 
-  app.post("/api/services", requireRole("clinic_admin", "super_admin"), async (req, res) => {
+  app.post("/api/services", requireRole("clinic_admin", "staff", "super_admin"), requirePermission("services.create"), async (req, res) => {
     try {
       const serviceData = insertServiceSchema.parse(req.body);
       
@@ -3337,7 +8266,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/services/:id", requireRole("clinic_admin", "super_admin"), async (req, res) => {
+  app.put("/api/services/:id", requireRole("clinic_admin", "staff", "super_admin"), requirePermission("services.edit"), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = insertServiceSchema.partial().parse(req.body);
@@ -3353,6 +8282,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
+      // Changing prices needs services.setPricing on top of services.edit
+      const changesPricing = (["price", "depositAmount"] as const).some(field =>
+        req.body[field] !== undefined && parseFloat(req.body[field] || "0") !== parseFloat(existingService[field] || "0")
+      );
+      if (changesPricing && !(await userHasPermission(req.user!, "services.setPricing"))) {
+        return res.status(403).json({ message: "Insufficient permissions", missingPermissions: ["services.setPricing"] });
+      }
+
       const service = await storage.updateService(id, updates);
       await auditLog(req, "update", "service", service.id, updates);
       res.json(service);
@@ -3364,7 +8301,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/services/:id", requireRole("clinic_admin", "super_admin"), async (req, res) => {
+  app.delete("/api/services/:id", requireRole("clinic_admin", "staff", "super_admin"), requirePermission("services.edit"), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -3389,7 +8326,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Membership routes
-  app.get("/api/memberships", requireAuth, async (req, res) => {
+  app.get("/api/memberships", requireAuth, requirePermission("memberships.view"), async (req, res) => {
     try {
       const clientId = req.query.clientId as string;
       let organizationId = req.query.organizationId as string;
@@ -3498,9 +8435,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           status: 'active', // Active immediately since no payment required (DEV ONLY)
           organizationId: client.organizationId,
           monthlyFee: billingCycle === 'yearly' ? tier.yearlyPrice || tier.monthlyPrice : tier.monthlyPrice,
+          discountPercentage: tier.discountPercentage,
+          monthlyCredits: tier.monthlyCredits,
+          creditRollover: tier.creditRollover,
+          creditRolloverCap: tier.creditRolloverCap,
           stripeSubscriptionId: null
         });
 
+        // No invoice will arrive to grant the first cycle's credits, so grant them now
+        await storage.grantMembershipCredits(membership.id, null);
+
         await auditLog(req, "upgrade_completed_dev", "membership", membership.id, { tierId, billingCycle, reason: "no_stripe_config" });
         
         // Award membership signup points immediately
@@ -3601,6 +8545,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           status: initialStatus, // Active if payment confirmed, suspended if pending
           organizationId: client.organizationId,
           monthlyFee: billingCycle === 'yearly' ? tier.yearlyPrice || tier.monthlyPrice : tier.monthlyPrice,
+          discountPercentage: tier.discountPercentage,
+          monthlyCredits: tier.monthlyCredits,
+          creditRollover: tier.creditRollover,
+          creditRolloverCap: tier.creditRolloverCap,
           stripeSubscriptionId: subscriptionResult.subscriptionId
         });
 
@@ -3659,15 +8607,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update membership status and credits
-  app.patch("/api/memberships/:id", requireRole("clinic_admin", "staff"), async (req, res) => {
+  app.patch("/api/memberships/:id", requireRole("clinic_admin", "staff"), requirePermission("memberships.manage"), async (req, res) => {
     try {
       const { id } = req.params;
       
-      // Validate request body - only allow specific fields to be updated
+      // Validate request body - only allow specific fields to be updated.
+      // Spent and remaining credits only change through the credit ledger.
       const updateSchema = z.object({
         status: z.enum(['active', 'suspended', 'cancelled']).optional(),
         monthlyCredits: z.number().min(0).optional(),
-        usedCredits: z.number().min(0).optional(),
       });
       
       const validatedUpdates = updateSchema.parse(req.body);
@@ -3698,6 +8646,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Credit ledger for one membership: grants, spending, refunds and credits forfeited at renewal
+  app.get("/api/memberships/:id/credits", requireAuth, requirePermission("memberships.view"), async (req, res) => {
+    try {
+      const membership = await storage.getMembership(req.params.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Membership not found" });
+      }
+
+      if (req.user!.role === "patient") {
+        const client = await storage.getClientByUser(req.user!.id);
+        if (!client || client.id !== membership.clientId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      } else if (req.user!.role !== "super_admin") {
+        const userOrgId = await getUserOrganizationId(req.user!);
+        if (membership.organizationId !== userOrgId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      res.json({
+        balance: Number(membership.creditBalance || 0),
+        monthlyCredits: Number(membership.monthlyCredits || 0),
+        usedCredits: Number(membership.usedCredits || 0),
+        creditRollover: !!membership.creditRollover,
+        creditRolloverCap: membership.creditRolloverCap === null ? null : Number(membership.creditRolloverCap),
+        transactions: await storage.getMembershipCreditTransactions(membership.id)
+      });
+    } catch (error) {
+      console.error("Error fetching membership credits:", error);
+      res.status(500).json({ message: "Failed to fetch membership credits" });
+    }
+  });
+
   // Retry payment for suspended membership
   app.post("/api/memberships/:id/retry-payment", requireAuth, async (req, res) => {
     try {
@@ -3857,7 +8839,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get rewards by client ID - parameterized route (must come after specific routes)
-  app.get("/api/rewards/:clientId", requireAuth, async (req, res) => {
+  app.get("/api/rewards/:clientId", requireAuth, requirePermission("rewards.view"), async (req, res) => {
     try {
       const rewards = await storage.getRewardsByClient(req.params.clientId);
       const balance = await storage.getClientRewardBalance(req.params.clientId);
@@ -3954,7 +8936,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/rewards", requireAuth, async (req, res) => {
+  app.post("/api/rewards", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requirePermission("rewards.manage"), async (req, res) => {
     try {
       const rewardData = insertRewardSchema.parse(req.body);
       const reward = await storage.createReward(rewardData);
@@ -4000,7 +8982,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reward Options API (catalog items)
-  app.get("/api/reward-options", requireAuth, async (req, res) => {
+  app.get("/api/reward-options", requireAuth, requirePermission("rewards.view"), async (req, res) => {
     try {
       console.log("🔍 [GET /api/reward-options] User:", req.user?.email, "Role:", req.user?.role);
       
@@ -4021,7 +9003,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reward-options", requireAuth, async (req, res) => {
+  app.post("/api/reward-options", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requirePermission("rewards.manage"), async (req, res) => {
     try {
       const orgId = await getUserOrganizationId(req.user!);
       if (!orgId) {
@@ -4172,7 +9154,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Membership Tiers API (authenticated)
-  app.get("/api/membership-tiers", requireAuth, async (req, res) => {
+  app.get("/api/membership-tiers", requireAuth, requirePermission("memberships.view"), async (req, res) => {
     try {
       console.log('🔍 [GET /api/membership-tiers] Request received for user:', req.user!.email, 'role:', req.user!.role);
       const orgId = await getUserOrganizationId(req.user!);
@@ -4200,7 +9182,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/membership-tiers", requireAuth, async (req, res) => {
+  app.post("/api/membership-tiers", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requirePermission("memberships.manage"), async (req, res) => {
     try {
       console.log('🔍 [POST /api/membership-tiers] Request received:', req.body);
       const orgId = await getUserOrganizationId(req.user!);
@@ -4214,7 +9196,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         organizationId: orgId,
         // Convert numbers to strings for decimal fields
         discountPercentage: req.body.discountPercentage != null ? String(req.body.discountPercentage) : undefined,
-        monthlyCredits: req.body.monthlyCredits != null ? String(req.body.monthlyCredits) : undefined
+        monthlyCredits: req.body.monthlyCredits != null ? String(req.body.monthlyCredits) : undefined,
+        creditRolloverCap: req.body.creditRolloverCap != null && req.body.creditRolloverCap !== "" ? String(req.body.creditRolloverCap) : null
       };
 
       // Validate request body using Zod schema
@@ -4285,7 +9268,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/membership-tiers/:id", requireAuth, async (req, res) => {
+  app.put("/api/membership-tiers/:id", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requirePermission("memberships.manage"), async (req, res) => {
     try {
       const { id } = req.params;
       const orgId = await getUserOrganizationId(req.user!);
@@ -4371,7 +9354,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/membership-tiers/:id", requireAuth, async (req, res) => {
+  app.delete("/api/membership-tiers/:id", requireAuth, requireRole("clinic_admin", "staff", "super_admin"), requirePermission("memberships.manage"), async (req, res) => {
     try {
       const { id } = req.params;
       const orgId = await getUserOrganizationId(req.user!);
@@ -4591,8 +9574,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Validate booking rules if provided
+      const bookingRulesSchema = z.object({
+        slotIntervalMinutes: z.number().int().min(5).max(240).optional(),
+        minBookingNoticeMinutes: z.number().int().min(0).optional(),
+        maxBookingDaysAhead: z.number().int().min(1).nullable().optional(),
+        waitlistHoldMinutes: z.number().int().min(5).max(24 * 60).optional()
+      });
+      const bookingRulesResult = bookingRulesSchema.safeParse(req.body);
+      if (!bookingRulesResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid booking rules", 
+          errors: bookingRulesResult.error.errors 
+        });
+      }
+
       // Update location with provided data (including businessHours)
-      const updates: any = {};
+      const updates: any = { ...bookingRulesResult.data };
       if (req.body.businessHours !== undefined) updates.businessHours = req.body.businessHours;
       if (req.body.name !== undefined) updates.name = req.body.name;
       if (req.body.address !== undefined) updates.address = req.body.address;
@@ -4602,6 +9600,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.body.publicSettings !== undefined) updates.publicSettings = req.body.publicSettings;
       if (req.body.settings !== undefined) updates.settings = req.body.settings;
       if (req.body.isActive !== undefined) updates.isActive = req.body.isActive;
+      if (req.body.taxRate !== undefined) {
+        const taxRate = z.number().min(0).max(25).safeParse(req.body.taxRate);
+        if (!taxRate.success) {
+          return res.status(400).json({ message: "Tax rate must be a percentage between 0 and 25" });
+        }
+        updates.taxRate = taxRate.data.toString();
+      }
 
       const updatedLocation = await storage.updateLocation(id, updates);
       
@@ -4614,6 +9619,233 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Location hours exceptions - holiday closures and special hours for a single date
+  app.get("/api/locations/:id/hours-exceptions", requireAuth, async (req, res) => {
+    try {
+      const location = await storage.getLocation(req.params.id);
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+
+      // Past exceptions are only useful for reviewing history
+      const fromDate = req.query.includePast === 'true'
+        ? undefined
+        : getLocalTimeParts(new Date(), location.timezone || 'America/New_York').date;
+      const exceptions = await storage.getLocationHoursExceptions(location.id, fromDate);
+
+      res.json(exceptions);
+    } catch (error) {
+      console.error("Get location hours exceptions error:", error);
+      res.status(500).json({ message: "Failed to fetch location hours exceptions" });
+    }
+  });
+
+  app.post("/api/locations/:id/hours-exceptions", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      if (!orgId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const location = await storage.getLocation(req.params.id);
+      if (!location || location.organizationId !== orgId) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+
+      const exceptionData = insertLocationHoursExceptionSchema.parse({
+        ...req.body,
+        organizationId: orgId,
+        locationId: location.id
+      });
+      if (exceptionData.isClosed !== false) {
+        exceptionData.openTime = null;
+        exceptionData.closeTime = null;
+      }
+
+      const existing = await storage.getLocationHoursException(location.id, exceptionData.date);
+      if (existing) {
+        return res.status(409).json({ message: "This date already has a closure or special hours. Remove it first to change it." });
+      }
+
+      const exception = await storage.createLocationHoursException(exceptionData);
+      await auditLog(req, "create", "location_hours_exception", exception.id, exceptionData);
+
+      // Let patients already booked on this date know their appointment is affected
+      const affectedAppointments = await findAppointmentsAffectedByHoursException(location, exception);
+      for (const appointment of affectedAppointments) {
+        try {
+          const client = await storage.getClient(appointment.clientId);
+          if (client?.userId) {
+            const appointmentDate = new Date(appointment.startTime).toLocaleDateString('en-US', {
+              weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: location.timezone || 'America/New_York'
+            });
+            const change = exception.isClosed
+              ? `${location.name} will be closed on ${appointmentDate}`
+              : `${location.name} has special hours on ${appointmentDate} (${exception.openTime}-${exception.closeTime})`;
+
+            await notificationService.send({
+              userId: client.userId,
+              organizationId: orgId,
+              type: 'booking',
+              title: exception.isClosed ? 'Clinic Closure Affects Your Appointment' : 'Clinic Hours Changed',
+              message: `${change}${exception.reason ? ` (${exception.reason})` : ''}. Your ${appointment.serviceName} appointment needs to be rescheduled.`,
+              data: {
+                appointmentId: appointment.id,
+                serviceId: appointment.serviceId,
+                serviceName: appointment.serviceName,
+                startTime: appointment.startTime,
+                actionUrl: `/appointments`,
+                actionText: 'View Appointment'
+              },
+              channels: ['in_app', 'email']
+            });
+          }
+        } catch (notifError) {
+          console.error('Failed to send closure notification:', notifError);
+          // Don't fail the request if notification fails
+        }
+      }
+
+      res.json({
+        exception,
+        affectedAppointments: affectedAppointments.map(apt => ({
+          appointmentId: apt.id,
+          startTime: apt.startTime,
+          endTime: apt.endTime,
+          clientName: apt.clientName,
+          serviceName: apt.serviceName
+        }))
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create location hours exception error:", error);
+      res.status(500).json({ message: "Failed to create location hours exception" });
+    }
+  });
+
+  app.delete("/api/locations/hours-exceptions/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      if (!orgId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const deleted = await storage.deleteLocationHoursException(req.params.id, orgId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Hours exception not found" });
+      }
+      await auditLog(req, "delete", "location_hours_exception", req.params.id, {});
+
+      res.json({ message: "Hours exception removed" });
+    } catch (error) {
+      console.error("Delete location hours exception error:", error);
+      res.status(500).json({ message: "Failed to delete location hours exception" });
+    }
+  });
+
+  // Resources - rooms and equipment that services need free to be booked
+  app.get("/api/resources", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("appointments.view"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      if (!orgId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const locationId = req.query.locationId as string | undefined;
+      let resources = await storage.getResourcesByOrganization(orgId);
+      if (locationId) {
+        resources = resources.filter(r => r.locationId === locationId);
+      }
+
+      res.json(resources);
+    } catch (error) {
+      console.error("Get resources error:", error);
+      res.status(500).json({ message: "Failed to fetch resources" });
+    }
+  });
+
+  app.post("/api/resources", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      if (!orgId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const resourceData = insertResourceSchema.parse({ ...req.body, organizationId: orgId });
+
+      const location = await storage.getLocation(resourceData.locationId);
+      if (!location || location.organizationId !== orgId) {
+        return res.status(400).json({ message: "Location does not belong to your organization" });
+      }
+
+      const resource = await storage.createResource(resourceData);
+      await auditLog(req, "create", "resource", resource.id, resourceData);
+
+      res.json(resource);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create resource error:", error);
+      res.status(500).json({ message: "Failed to create resource" });
+    }
+  });
+
+  app.put("/api/resources/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      if (!orgId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const updates = insertResourceSchema.omit({ organizationId: true }).partial().parse(req.body);
+
+      if (updates.locationId) {
+        const location = await storage.getLocation(updates.locationId);
+        if (!location || location.organizationId !== orgId) {
+          return res.status(400).json({ message: "Location does not belong to your organization" });
+        }
+      }
+
+      const resource = await storage.updateResource(req.params.id, orgId, updates);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      await auditLog(req, "update", "resource", resource.id, updates);
+
+      res.json(resource);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update resource error:", error);
+      res.status(500).json({ message: "Failed to update resource" });
+    }
+  });
+
+  // Resources are deactivated rather than deleted so past appointments keep their references
+  app.delete("/api/resources/:id", requireAuth, requireRole("clinic_admin", "staff"), requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const orgId = await getUserOrganizationId(req.user!);
+      if (!orgId) {
+        return res.status(400).json({ message: "User organization not found" });
+      }
+
+      const resource = await storage.updateResource(req.params.id, orgId, { isActive: false });
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      await auditLog(req, "delete", "resource", resource.id, { isActive: false });
+
+      res.json({ message: "Resource deactivated" });
+    } catch (error) {
+      console.error("Delete resource error:", error);
+      res.status(500).json({ message: "Failed to delete resource" });
+    }
+  });
+
   app.get("/api/services", async (req, res) => {
     try {
       console.log('🔍 [GET /api/services] Request received:', {
@@ -5587,6 +10819,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             
             console.log(`Membership ${membership.id} activated for subscription ${subscriptionId}`);
           }
+
+          // Every paid invoice starts a new billing cycle of membership credits
+          if (membership && membership.status !== 'canceled' && membership.status !== 'expired') {
+            const grant = await storage.grantMembershipCredits(membership.id, invoice.id);
+            if (grant) {
+              console.log(`💳 [WEBHOOK] Membership ${membership.id} credit balance is now $${grant.balance} for invoice ${invoice.id}`);
+            }
+          }
         }
       }
       
@@ -5712,7 +10952,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get today's appointments for organization
-  app.get("/api/appointments/:organizationId/today", requireAuth, async (req, res) => {
+  app.get("/api/appointments/:organizationId/today", requireAuth, requirePermission("appointments.view"), async (req, res) => {
     try {
       const { organizationId } = req.params;
       
@@ -6389,7 +11629,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard analytics routes
-  app.get("/api/analytics/dashboard", requireAuth, async (req, res) => {
+  app.get("/api/analytics/dashboard", requireAuth, requirePermission("reports.view"), async (req, res) => {
     try {
       let organizationId = req.query.organizationId as string;
       
@@ -6685,6 +11925,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Background jobs (super admin)
+  app.get("/api/admin/jobs", requireAuth, requireRole("super_admin"), async (req, res) => {
+    try {
+      const jobs = await storage.getScheduledJobs();
+      res.json(jobs);
+    } catch (error) {
+      console.error("Get scheduled jobs error:", error);
+      res.status(500).json({ message: "Failed to get scheduled jobs" });
+    }
+  });
+
+  app.get("/api/admin/jobs/runs", requireAuth, requireRole("super_admin"), async (req, res) => {
+    try {
+      const { jobName, limit } = req.query;
+      const runs = await storage.getJobRuns({
+        jobName: jobName ? String(jobName) : undefined,
+        limit: limit ? Math.min(parseInt(String(limit)) || 50, 500) : 50
+      });
+      res.json(runs);
+    } catch (error) {
+      console.error("Get job runs error:", error);
+      res.status(500).json({ message: "Failed to get job runs" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:name/run", requireAuth, requireRole("super_admin"), async (req, res) => {
+    try {
+      const { name } = req.params;
+      const job = await storage.getScheduledJob(name);
+      if (!job || !jobScheduler.hasJob(name)) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const run = await jobScheduler.runJob(name, { force: true, triggeredBy: req.user!.id });
+      if (!run) {
+        return res.status(409).json({ message: "Job is already running" });
+      }
+
+      await auditLog(req, "run_job", "scheduled_job", job.id, { jobName: name, runId: run.id, status: run.status });
+      res.json(run);
+    } catch (error) {
+      console.error("Run job error:", error);
+      res.status(500).json({ message: "Failed to run job" });
+    }
+  });
+
+  app.patch("/api/admin/jobs/:name", requireAuth, requireRole("super_admin"), async (req, res) => {
+    try {
+      const updateSchema = z.object({
+        isEnabled: z.boolean().optional(),
+        intervalMinutes: z.number().int().min(1).optional(),
+        maxAttempts: z.number().int().min(1).max(10).optional()
+      });
+      const updates = updateSchema.parse(req.body);
+
+      const job = await storage.updateScheduledJob(req.params.name, updates);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      await auditLog(req, "update", "scheduled_job", job.id, updates);
+      res.json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update job error:", error);
+      res.status(500).json({ message: "Failed to update job" });
+    }
+  });
+
   // SMS and Email Marketing Endpoints
   
   // Rate limiting storage (in-memory for now, can be replaced with Redis later)
@@ -6759,6 +12070,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/sms/send", 
     requireAuth, 
     requireRole("clinic_admin", "staff", "super_admin"),
+    requirePermission("marketing.sendCampaigns"),
     checkRateLimit('sms_per_minute'),
     checkRateLimit('sms_daily'),
     async (req, res) => {
@@ -6960,7 +12272,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Create message template
-  app.post("/api/message-templates/:organizationId", requireAuth, async (req, res) => {
+  app.post("/api/message-templates/:organizationId", requireAuth, requirePermission("marketing.manageTemplates"), async (req, res) => {
     try {
       const { organizationId } = req.params;
       
@@ -6986,7 +12298,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update message template
-  app.put("/api/message-templates/:organizationId/:templateId", requireAuth, async (req, res) => {
+  app.put("/api/message-templates/:organizationId/:templateId", requireAuth, requirePermission("marketing.manageTemplates"), async (req, res) => {
     try {
       const { organizationId, templateId } = req.params;
       
@@ -7005,7 +12317,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Delete message template
-  app.delete("/api/message-templates/:organizationId/:templateId", requireAuth, async (req, res) => {
+  app.delete("/api/message-templates/:organizationId/:templateId", requireAuth, requirePermission("marketing.manageTemplates"), async (req, res) => {
     try {
       const { organizationId, templateId } = req.params;
       
@@ -7024,7 +12336,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Create marketing campaign
-  app.post("/api/marketing/campaigns/:organizationId", requireAuth, async (req, res) => {
+  app.post("/api/marketing/campaigns/:organizationId", requireAuth, requirePermission("marketing.sendCampaigns"), async (req, res) => {
     try {
       const { organizationId } = req.params;
       
@@ -7046,37 +12358,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // If audience filters provided, calculate estimated recipients
       if (req.body.audience) {
-        const clients = await storage.getClientsByOrganization(organizationId);
-        let filteredClients = clients;
-        
-        // Apply filters
-        const audience = req.body.audience;
-        if (audience.membershipTier) {
-          const memberships = await storage.getMembershipsByOrganization(organizationId);
-          const tierMembershipClientIds = memberships
-            .filter(m => m.tierName === audience.membershipTier && m.status === 'active')
-            .map(m => m.clientId);
-          filteredClients = filteredClients.filter(c => tierMembershipClientIds.includes(c.id));
-        }
-        
-        if (audience.lastVisitDays) {
-          const daysAgo = new Date();
-          daysAgo.setDate(daysAgo.getDate() - audience.lastVisitDays);
-          filteredClients = filteredClients.filter(c => c.lastVisit && c.lastVisit >= daysAgo);
-        }
-        
-        if (audience.birthdayMonth) {
-          const month = parseInt(audience.birthdayMonth);
-          filteredClients = filteredClients.filter(c => 
-            c.dateOfBirth && c.dateOfBirth.getMonth() + 1 === month
-          );
-        }
-        
-        if (audience.minTotalSpent) {
-          filteredClients = filteredClients.filter(c => 
-            parseFloat(c.totalSpent || "0") >= audience.minTotalSpent
-          );
-        }
+        const filteredClients = await notificationService.resolveCampaignAudience(organizationId, req.body.audience);
         
         // Update estimated recipients
         await storage.updateMarketingCampaign(campaign.id, {
@@ -7094,7 +12376,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get marketing campaigns
-  app.get("/api/marketing/campaigns/:organizationId", requireAuth, async (req, res) => {
+  app.get("/api/marketing/campaigns/:organizationId", requireAuth, requirePermission("marketing.viewAnalytics"), async (req, res) => {
     try {
       const { organizationId } = req.params;
       
@@ -7113,7 +12395,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get campaign analytics
-  app.get("/api/marketing/campaigns/:organizationId/:campaignId/analytics", requireAuth, async (req, res) => {
+  app.get("/api/marketing/campaigns/:organizationId/:campaignId/analytics", requireAuth, requirePermission("marketing.viewAnalytics"), async (req, res) => {
     try {
       const { organizationId, campaignId } = req.params;
       
@@ -0,0 +1,79 @@
+import { storage } from "../storage";
+import type { Appointment, ChartAddendum, ChartNote, InsertChartNote } from "@shared/schema";
+
+export interface ChartAddendumWithAuthor extends ChartAddendum {
+  authorName: string;
+}
+
+// A chart as shown to staff: the note, its addenda and the names behind the ids
+export interface ChartDetails extends ChartNote {
+  serviceName: string;
+  providerName: string;
+  signedByName: string | null;
+  appointmentStartTime: Date | null;
+  addenda: ChartAddendumWithAuthor[];
+}
+
+type ChartContent = Pick<InsertChartNote,
+  'templateId' | 'subjective' | 'objective' | 'assessment' | 'plan' | 'productsUsed' | 'injectionSites'
+>;
+
+export class ChartService {
+  /**
+   * Create the appointment's chart or update its draft. Returns undefined when the chart is already signed,
+   * since signed charts only take addenda.
+   */
+  async save(appointment: Appointment, content: ChartContent, userId: string): Promise<ChartNote | undefined> {
+    const existing = await storage.getChartNoteByAppointment(appointment.id);
+    if (!existing) {
+      return await storage.createChartNote({
+        ...content,
+        organizationId: appointment.organizationId,
+        appointmentId: appointment.id,
+        clientId: appointment.clientId,
+        serviceId: appointment.serviceId,
+        staffId: appointment.staffId,
+        createdBy: userId
+      });
+    }
+    return await storage.updateChartNote(existing.id, content);
+  }
+
+  // Oldest addendum first under each note; names are looked up once per person
+  async withDetails(notes: ChartNote[]): Promise<ChartDetails[]> {
+    const addenda = await storage.getChartAddenda(notes.map(note => note.id));
+    const userNames = new Map<string, string>();
+    const userName = async (userId: string) => {
+      if (!userNames.has(userId)) {
+        const user = await storage.getUser(userId);
+        userNames.set(userId, user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email : 'Unknown');
+      }
+      return userNames.get(userId)!;
+    };
+
+    const details: ChartDetails[] = [];
+    for (const note of notes) {
+      const [service, provider, appointment] = await Promise.all([
+        storage.getService(note.serviceId),
+        storage.getStaff(note.staffId),
+        storage.getAppointment(note.appointmentId)
+      ]);
+      const noteAddenda: ChartAddendumWithAuthor[] = [];
+      for (const addendum of addenda.filter(a => a.chartNoteId === note.id)) {
+        noteAddenda.push({ ...addendum, authorName: await userName(addendum.createdBy) });
+      }
+      details.push({
+        ...note,
+        serviceName: service?.name || 'Service',
+        providerName: provider ? await userName(provider.userId) : 'Provider',
+        signedByName: note.signedBy ? await userName(note.signedBy) : null,
+        appointmentStartTime: appointment?.startTime || null,
+        addenda: noteAddenda
+      });
+    }
+    return details;
+  }
+}
+
+// Create singleton instance
+export const chartService = new ChartService();
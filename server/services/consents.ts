@@ -0,0 +1,114 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import type { Appointment, Client, ConsentForm, ConsentSignature } from "@shared/schema";
+
+// Who signed and from where, as captured by the signing request
+export interface SignatureCapture {
+  typedName: string;
+  signatureImage: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  appointmentId?: string | null;
+  collectedBy?: string | null; // Staff user handing over the device at the clinic
+}
+
+export interface AppointmentConsent {
+  form: ConsentForm;
+  signature: ConsentSignature | null; // The current signature, if any
+}
+
+export interface AppointmentConsentStatus {
+  required: boolean; // The service requires consent
+  unconfigured: boolean; // Required, but no active consent form is attached to the service
+  consents: AppointmentConsent[];
+  missing: ConsentForm[];
+}
+
+export class ConsentService {
+  /**
+   * The consent forms an appointment's service requires and the client's current signature for each, as of `at`.
+   * A signature is current when it is for the form's latest version, hasn't expired and its hash still matches.
+   */
+  async getStatus(appointment: Appointment, at: Date = new Date()): Promise<AppointmentConsentStatus> {
+    const service = await storage.getService(appointment.serviceId);
+    if (!service?.requiresConsent) {
+      return { required: false, unconfigured: false, consents: [], missing: [] };
+    }
+
+    const forms = (await storage.getConsentFormsByOrganization(appointment.organizationId))
+      .filter(form => form.isActive && ((form.serviceIds as string[] | null) || []).includes(service.id));
+    const signatures = await storage.getConsentSignaturesByClient(appointment.clientId);
+
+    const consents = forms.map(form => ({
+      form,
+      signature: signatures.find(signature => this.isCurrent(signature, form, at)) || null
+    }));
+    return {
+      required: true,
+      unconfigured: forms.length === 0,
+      consents,
+      missing: consents.filter(consent => !consent.signature).map(consent => consent.form)
+    };
+  }
+
+  // Record a signed copy of the form's current text; expires after the form's renewal period
+  async sign(form: ConsentForm, client: Client, capture: SignatureCapture): Promise<ConsentSignature> {
+    const signedAt = new Date();
+    let expiresAt: Date | null = null;
+    if (form.renewalMonths) {
+      expiresAt = new Date(signedAt);
+      expiresAt.setMonth(expiresAt.getMonth() + form.renewalMonths);
+    }
+
+    const signed = {
+      organizationId: form.organizationId,
+      consentFormId: form.id,
+      clientId: client.id,
+      formVersion: form.version,
+      content: form.content,
+      typedName: capture.typedName,
+      signatureImage: capture.signatureImage,
+      signedAt,
+      ipAddress: capture.ipAddress
+    };
+    return await storage.createConsentSignature({
+      ...signed,
+      appointmentId: capture.appointmentId ?? null,
+      formName: form.name,
+      userAgent: capture.userAgent,
+      collectedBy: capture.collectedBy ?? null,
+      expiresAt,
+      contentHash: this.hash(signed)
+    });
+  }
+
+  // False when the signed copy no longer matches the hash taken at signing
+  verify(signature: ConsentSignature): boolean {
+    return this.hash(signature) === signature.contentHash;
+  }
+
+  private isCurrent(signature: ConsentSignature, form: ConsentForm, at: Date): boolean {
+    return signature.consentFormId === form.id &&
+      signature.formVersion === form.version &&
+      (!signature.expiresAt || signature.expiresAt.getTime() > at.getTime()) &&
+      this.verify(signature);
+  }
+
+  private hash(signature: Pick<ConsentSignature,
+    'consentFormId' | 'clientId' | 'formVersion' | 'content' | 'typedName' | 'signatureImage' | 'signedAt' | 'ipAddress'
+  >): string {
+    return crypto.createHash('sha256').update(JSON.stringify([
+      signature.consentFormId,
+      signature.clientId,
+      signature.formVersion,
+      signature.content,
+      signature.typedName,
+      signature.signatureImage,
+      signature.signedAt.toISOString(),
+      signature.ipAddress || ''
+    ])).digest('hex');
+  }
+}
+
+// Create singleton instance
+export const consentService = new ConsentService();
@@ -0,0 +1,110 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { fileStoreService } from "./fileStore";
+import { documentCategories, documentRetentionSchema } from "@shared/schema";
+import type { DocumentAccessEntry, DocumentRetention, FileStorage, Organization } from "@shared/schema";
+
+// Links a patient opens from their portal; long enough to start a download, short enough that a forwarded link goes stale
+export const PATIENT_LINK_TTL_SECONDS = 15 * 60;
+// Links staff send to a client by email
+export const MAX_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const LINK_SECRET = process.env.DOCUMENT_LINK_SECRET || process.env.SESSION_SECRET || "fallback-secret";
+
+export const isDocument = (file: FileStorage) =>
+  (documentCategories as readonly string[]).includes(file.category || "");
+
+// Helper to read an organization's retention rules, ignoring malformed data
+export function getDocumentRetention(organization: Organization | undefined): DocumentRetention {
+  const parsed = documentRetentionSchema.safeParse(organization?.documentRetention ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+// Documents uploaded before this date are past the retention period
+function retentionCutoff(months: number): Date {
+  const cutoff = new Date();
+  cutoff.setMonth(cutoff.getMonth() - months);
+  return cutoff;
+}
+
+export class DocumentService {
+  // A download url that works without a session until it expires
+  createDownloadLink(file: FileStorage, ttlSeconds: number): { url: string; expiresAt: Date } {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const params = new URLSearchParams({ expires: String(expires), signature: this.sign(file.id, expires) });
+    return { url: `/api/documents/${file.id}/download?${params}`, expiresAt: new Date(expires * 1000) };
+  }
+
+  verifyDownloadLink(fileId: string, expires: string, signature: string): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(fileId, expiresAt));
+    const given = Buffer.from(signature);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  /**
+   * Whether a signed link to the document may still be redeemed. Sharing and retention can change after
+   * a link is issued, so they are checked on every download rather than only when the link is created.
+   */
+  canDownloadByLink(file: FileStorage, organization: Organization | undefined): boolean {
+    if (!isDocument(file) || !file.sharedWithClient) {
+      return false;
+    }
+    const months = getDocumentRetention(organization)[file.category as keyof DocumentRetention];
+    return !months || !file.createdAt || file.createdAt > retentionCutoff(months);
+  }
+
+  // Everything recorded against a document, most recent first; names are looked up once per person
+  async getAccessLog(file: FileStorage): Promise<DocumentAccessEntry[]> {
+    const logs = await storage.getAuditLogsByResource("document", file.id);
+    const userNames = new Map<string, string>();
+    const entries: DocumentAccessEntry[] = [];
+    for (const log of logs) {
+      if (log.userId && !userNames.has(log.userId)) {
+        const user = await storage.getUser(log.userId);
+        userNames.set(log.userId, user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email : 'Unknown');
+      }
+      entries.push({ ...log, userName: log.userId ? userNames.get(log.userId)! : null });
+    }
+    return entries;
+  }
+
+  // Delete documents older than their category's retention period, recording each deletion in the audit log
+  async applyRetention(): Promise<{ deleted: number }> {
+    const organizations = await storage.getOrganizationsWithDocumentRetention();
+    let deleted = 0;
+
+    for (const organization of organizations) {
+      const retention = getDocumentRetention(organization);
+      for (const category of documentCategories) {
+        const months = retention[category];
+        if (!months) continue;
+
+        const expired = await storage.getDocumentsUploadedBefore(organization.id, category, retentionCutoff(months));
+        for (const file of expired) {
+          await fileStoreService.delete(file);
+          await storage.createAuditLog({
+            organizationId: organization.id,
+            action: "retention_delete",
+            resource: "document",
+            resourceId: file.id,
+            changes: { clientId: file.clientId, category, originalName: file.originalName, retentionMonths: months }
+          });
+          deleted++;
+        }
+      }
+    }
+
+    return { deleted };
+  }
+
+  private sign(fileId: string, expires: number): string {
+    return crypto.createHmac("sha256", LINK_SECRET).update(`${fileId}.${expires}`).digest("hex");
+  }
+}
+
+// Create singleton instance
+export const documentService = new DocumentService();
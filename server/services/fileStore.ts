@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import { spawn } from "child_process";
+import fs from "fs/promises";
+import path from "path";
+import { storage } from "../storage";
+import type { FileStorage, InsertFileStorage } from "@shared/schema";
+
+// Where file bytes are kept. Records in file_storage hold the key; swap the driver to move storage elsewhere.
+export interface FileStoreDriver {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null when the file is missing
+  remove(key: string): Promise<void>;
+}
+
+// Files under a directory on the server's disk, one subdirectory per organization
+export class LocalDiskDriver implements FileStoreDriver {
+  constructor(private root: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  // Keys are generated by FileStoreService, but never let one point outside the root
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+// Checks uploaded bytes for malware before anything is written to the store
+export interface FileScanner {
+  scan(data: Buffer): Promise<ScanResult>;
+}
+
+export interface ScanResult {
+  scanned: boolean; // false when no scanner is configured
+  clean: boolean;
+  threat?: string;
+}
+
+// Used when no scanner is configured; files are stored and marked not_scanned
+export class NoopScanner implements FileScanner {
+  async scan(): Promise<ScanResult> {
+    return { scanned: false, clean: true };
+  }
+}
+
+/**
+ * Pipes the file to a scanner command on stdin, e.g. "clamdscan --no-summary -". Exit code 0 is clean
+ * and 1 is infected, as with ClamAV; anything else is an error so a broken scanner never lets files through.
+ */
+export class CommandScanner implements FileScanner {
+  constructor(private command: string, private timeoutMs = 60 * 1000) {}
+
+  scan(data: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, { shell: true, timeout: this.timeoutMs });
+      let output = '';
+      child.stdout.on('data', chunk => { output += chunk; });
+      child.on('error', reject);
+      child.on('close', code => {
+        if (code === 0) return resolve({ scanned: true, clean: true });
+        if (code === 1) return resolve({ scanned: true, clean: false, threat: output.trim().split('\n')[0] || 'Malware detected' });
+        reject(new Error(`Virus scanner exited with code ${code}`));
+      });
+      child.stdin.on('error', () => {}); // The scanner may stop reading early; its exit code still decides
+      child.stdin.end(data);
+    });
+  }
+}
+
+// File types accepted for upload, with the bytes each file must start with
+const FILE_SIGNATURES: Record<string, { extension: string; matches: (data: Buffer) => boolean }> = {
+  'image/jpeg': { extension: '.jpg', matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  'image/png': { extension: '.png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  'image/webp': { extension: '.webp', matches: data => data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP' },
+  'application/pdf': { extension: '.pdf', matches: data => data.subarray(0, 5).toString('ascii') === '%PDF-' }
+};
+
+export const UPLOAD_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const UPLOAD_DOCUMENT_TYPES = Object.keys(FILE_SIGNATURES);
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+type FileDetails = Omit<InsertFileStorage, 'fileName' | 'mimeType' | 'fileSize' | 'url' | 'scanStatus'>;
+
+export type UploadResult =
+  | { ok: true; file: FileStorage }
+  | { ok: false; reason: 'invalid_type' } // The bytes are not a file of the declared type
+  | { ok: false; reason: 'infected'; threat: string };
+
+export class FileStoreService {
+  constructor(private driver: FileStoreDriver, private scanner: FileScanner) {}
+
+  // Store a clinical photo. A renamed file is rejected so it can't be served as something else.
+  async uploadImage(details: FileDetails, mimeType: string, data: Buffer): Promise<UploadResult> {
+    if (!UPLOAD_IMAGE_TYPES.includes(mimeType)) {
+      return { ok: false, reason: 'invalid_type' };
+    }
+    return await this.upload(details, mimeType, data);
+  }
+
+  // Store a client document: a PDF or a scanned image
+  async uploadDocument(details: FileDetails, mimeType: string, data: Buffer): Promise<UploadResult> {
+    return await this.upload(details, mimeType, data);
+  }
+
+  async read(file: FileStorage): Promise<Buffer | null> {
+    return await this.driver.get(file.fileName);
+  }
+
+  async delete(file: FileStorage): Promise<void> {
+    await storage.deleteFile(file.id);
+    await this.driver.remove(file.fileName);
+  }
+
+  private async upload(details: FileDetails, mimeType: string, data: Buffer): Promise<UploadResult> {
+    const signature = FILE_SIGNATURES[mimeType];
+    if (!signature || data.length === 0 || !signature.matches(data)) {
+      return { ok: false, reason: 'invalid_type' };
+    }
+
+    const scan = await this.scanner.scan(data);
+    if (!scan.clean) {
+      return { ok: false, reason: 'infected', threat: scan.threat || 'Malware detected' };
+    }
+
+    const id = crypto.randomUUID();
+    const key = `${details.organizationId}/${id}${signature.extension}`;
+    await this.driver.put(key, data);
+    try {
+      const file = await storage.createFile({
+        ...details,
+        id,
+        fileName: key,
+        mimeType,
+        fileSize: data.length,
+        scanStatus: scan.scanned ? 'clean' : 'not_scanned',
+        url: `/api/files/${id}`
+      });
+      return { ok: true, file };
+    } catch (error) {
+      await this.driver.remove(key);
+      throw error;
+    }
+  }
+}
+
+// Create singleton instance
+export const fileStoreService = new FileStoreService(
+  new LocalDiskDriver(process.env.FILE_STORAGE_DIR || path.resolve(process.cwd(), 'uploads')),
+  process.env.VIRUS_SCAN_COMMAND ? new CommandScanner(process.env.VIRUS_SCAN_COMMAND) : new NoopScanner()
+);
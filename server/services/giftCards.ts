@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import * as sendgridService from "./sendgrid";
+import { getGiftCardExpiry, type GiftCard, type Organization } from "@shared/schema";
+
+// No 0/O or 1/I so codes can be read out over the phone
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 12;
+
+export class GiftCardService {
+  // A random code not yet used by any card, stored without separators
+  async generateCode(): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const bytes = crypto.randomBytes(CODE_LENGTH);
+      let code = "";
+      for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+      }
+      if (!await storage.getGiftCardByCode(code)) {
+        return code;
+      }
+    }
+    throw new Error("Could not generate a unique gift card code");
+  }
+
+  formatCode(code: string): string {
+    return code.match(/.{1,4}/g)?.join("-") || code;
+  }
+
+  /**
+   * Activate a paid card, starting its expiry clock under the organization's state rules, and record the sale.
+   * Returns undefined when the card was already activated, so repeated payment confirmations are harmless.
+   */
+  async activate(
+    card: GiftCard,
+    organization: Organization,
+    sale: { paymentMethod: string; clientId?: string | null; soldBy?: string | null }
+  ): Promise<GiftCard | undefined> {
+    const expiresAt = getGiftCardExpiry(organization.giftCardState, organization.giftCardExpiryMonths, new Date());
+    const activated = await storage.activateGiftCard(card.id, expiresAt, {
+      organizationId: card.organizationId,
+      clientId: sale.clientId || null,
+      amount: card.initialAmount,
+      type: "gift_card_sale",
+      status: "completed",
+      paymentMethod: sale.paymentMethod,
+      stripePaymentIntentId: card.stripePaymentIntentId,
+      description: `Gift card ${this.formatCode(card.code)} sold`,
+      metadata: { giftCardId: card.id, soldBy: sale.soldBy || null }
+    });
+
+    if (activated) {
+      try {
+        await this.sendGiftCardEmail(activated, organization);
+      } catch (error) {
+        console.error("Gift card email error:", error);
+        // Don't fail the activation if the email fails
+      }
+    }
+    return activated;
+  }
+
+  // Email the code to the recipient, or to the purchaser when it was bought for themselves
+  async sendGiftCardEmail(card: GiftCard, organization: Organization): Promise<void> {
+    const to = card.recipientEmail || card.purchaserEmail;
+    if (!to) return;
+
+    await sendgridService.sendEmailWithTemplate({
+      to,
+      templateName: "gift_card",
+      variables: {
+        recipientName: card.recipientName || card.purchaserName || "there",
+        purchaserName: card.recipientEmail ? card.purchaserName || "Someone" : "You",
+        message: card.message || "",
+        amount: `$${Number(card.initialAmount).toFixed(2)}`,
+        code: this.formatCode(card.code),
+        expiryNote: card.expiresAt
+          ? `Valid until ${card.expiresAt.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}`
+          : "This gift card never expires",
+        bookingLink: `https://aesthiq.app/c/${organization.slug}`,
+        organizationName: organization.name,
+        organizationPhone: organization.phone || "",
+        organizationEmail: organization.email || ""
+      }
+    });
+  }
+
+  // Close out cards past their expiry date, recording the unused balance as breakage
+  async expireCards(): Promise<{ expired: number; amount: number }> {
+    const expiredCards = await storage.getExpiredGiftCards(new Date());
+    let expired = 0;
+    let amount = 0;
+
+    for (const card of expiredCards) {
+      const result = await storage.closeGiftCard(card.id, "expired", {
+        organizationId: card.organizationId,
+        clientId: card.purchaserClientId,
+        type: "gift_card_expiry",
+        status: "completed",
+        description: `Gift card ${this.formatCode(card.code)} expired`,
+        metadata: { giftCardId: card.id }
+      });
+      if (!result) continue;
+      expired++;
+      amount += Number(result.transaction.amount);
+    }
+
+    return { expired, amount: Math.round(amount * 100) / 100 };
+  }
+}
+
+// Create singleton instance
+export const giftCardService = new GiftCardService();
@@ -0,0 +1,130 @@
+import { storage } from "../storage";
+import { notificationService } from "./notifications";
+import {
+  isIntakeFieldShown, reviewIntakeAnswers, type Appointment, type IntakeAnswers, type IntakeForm,
+  type IntakeFormSection, type IntakeSubmission
+} from "@shared/schema";
+
+// Clients who completed the current version of a form this recently aren't asked to fill it in again
+const RESUBMIT_AFTER_DAYS = 365;
+
+export class IntakeFormService {
+  /**
+   * Send the client the active forms attached to the booked service. A form is skipped while the client still has
+   * it pending, or when they answered its current version within the last year. Failures are logged so they never
+   * fail the booking.
+   */
+  async requestForAppointment(appointment: Appointment): Promise<void> {
+    try {
+      const forms = await this.getFormsForService(appointment.organizationId, appointment.serviceId);
+      if (forms.length === 0) return;
+
+      const previous = await storage.getIntakeSubmissionsByClient(appointment.clientId);
+      const cutoff = Date.now() - RESUBMIT_AFTER_DAYS * 24 * 60 * 60 * 1000;
+      const requested: IntakeSubmission[] = [];
+
+      for (const form of forms) {
+        const upToDate = previous.some(submission => submission.formId === form.id && (
+          submission.status === 'pending' ||
+          (submission.formVersion === form.version && !!submission.submittedAt && submission.submittedAt.getTime() >= cutoff)
+        ));
+        if (upToDate) continue;
+
+        requested.push(await storage.createIntakeSubmission({
+          organizationId: appointment.organizationId,
+          formId: form.id,
+          clientId: appointment.clientId,
+          appointmentId: appointment.id,
+          status: 'pending',
+          formName: form.name
+        }));
+      }
+
+      // Forms are completed in the patient portal, so clients without a login only show up as pending to staff
+      const client = requested.length > 0 ? await storage.getClient(appointment.clientId) : undefined;
+      if (!client?.userId) return;
+
+      const names = requested.map(submission => submission.formName).join(', ');
+      await notificationService.send({
+        userId: client.userId,
+        organizationId: appointment.organizationId,
+        type: 'booking',
+        title: 'Forms to Complete Before Your Visit',
+        message: `Please complete ${requested.length === 1 ? 'this form' : 'these forms'} before your appointment: ${names}.`,
+        data: {
+          appointmentId: appointment.id,
+          actionUrl: requested.length === 1 ? `/patient/forms/${requested[0].id}` : `/patient/forms`,
+          actionText: 'Complete Forms'
+        },
+        channels: ['in_app', 'email']
+      });
+    } catch (error) {
+      console.error('Failed to request intake forms:', error);
+    }
+  }
+
+  // The newest submission of each form that applies to the appointment: forms attached to its service and any it sent
+  async getForAppointment(appointment: Appointment): Promise<IntakeSubmission[]> {
+    const forms = await this.getFormsForService(appointment.organizationId, appointment.serviceId);
+    const submissions = await storage.getIntakeSubmissionsByClient(appointment.clientId);
+    const formIds = forms.map(form => form.id);
+    for (const submission of submissions) {
+      if (submission.appointmentId === appointment.id && !formIds.includes(submission.formId)) {
+        formIds.push(submission.formId);
+      }
+    }
+
+    return formIds
+      .map(formId => submissions.find(submission => submission.formId === formId))
+      .filter((submission): submission is IntakeSubmission => !!submission);
+  }
+
+  // Questions as answered once completed; a pending submission is filled in against the form's current version
+  async getSections(submission: IntakeSubmission): Promise<IntakeFormSection[]> {
+    if (submission.status === 'completed') {
+      return (submission.sections as IntakeFormSection[]) || [];
+    }
+    const form = await storage.getIntakeForm(submission.formId);
+    return (form?.sections as IntakeFormSection[]) || [];
+  }
+
+  /**
+   * Record the client's answers against the form's current version. Returns the labels of unanswered required
+   * questions instead when there are any, and no submission when it was already completed.
+   */
+  async complete(
+    submission: IntakeSubmission,
+    answers: IntakeAnswers
+  ): Promise<{ submission?: IntakeSubmission; missing: string[] }> {
+    const form = await storage.getIntakeForm(submission.formId);
+    if (!form) return { missing: [] };
+
+    const sections = form.sections as IntakeFormSection[];
+    const { missing, flags } = reviewIntakeAnswers(sections, answers);
+    if (missing.length > 0) return { missing };
+
+    // Answers to questions the client wasn't asked, e.g. hidden by their condition, aren't kept
+    const kept: IntakeAnswers = {};
+    for (const field of sections.flatMap(section => section.fields)) {
+      if (answers[field.id] !== undefined && isIntakeFieldShown(sections, answers, field)) {
+        kept[field.id] = answers[field.id];
+      }
+    }
+
+    const completed = await storage.completeIntakeSubmission(submission.id, {
+      formVersion: form.version,
+      sections,
+      answers: kept,
+      flags
+    });
+    return { submission: completed, missing: [] };
+  }
+
+  private async getFormsForService(organizationId: string, serviceId: string): Promise<IntakeForm[]> {
+    const forms = await storage.getIntakeFormsByOrganization(organizationId);
+    return forms.filter(form => form.isActive && ((form.serviceIds as string[] | null) || []).includes(serviceId));
+  }
+}
+
+// Create singleton instance
+export const intakeFormService = new IntakeFormService();
@@ -1,9 +1,15 @@
 import { storage } from "../storage";
 import * as twilioService from "./twilio";
 import * as sendgridService from "./sendgrid";
-import type { Client, Appointment, Membership, Organization, MessageTemplate } from "@shared/schema";
+import type { Client, Appointment, Membership, Organization, MessageTemplate, CampaignRecipient, InsertCampaignRecipient } from "@shared/schema";
 import { addDays, addHours, format, startOfDay, endOfDay } from "date-fns";
 
+// A campaign left in "sending" this long was interrupted and can be picked up by the next run; matches the scheduler lease
+const CAMPAIGN_SEND_STALE_MS = 15 * 60 * 1000;
+
+// Follow-ups also go out for visits this many days back that a missed run didn't cover
+const FOLLOW_UP_LOOKBACK_DAYS = 3;
+
 // Default SMS templates
 const DEFAULT_SMS_TEMPLATES = {
   appointment_reminder_24h: {
@@ -444,15 +450,15 @@ export class NotificationService {
       await storage.createNotification({
         userId: recipient.userId,
         organizationId: options.organizationId,
-        type: options.templateCategory,
+        type: options.templateCategory === 'appointment' ? 'booking' :
+              options.templateCategory === 'membership' ? 'membership' : 'custom',
         title: `${options.templateCategory} notification`,
         message: `Notification sent via ${channels.join(' and ')}`,
         data: {
           variables: fullVariables,
           results
         },
-        channels: channels,
-        sentAt: new Date()
+        channels: channels
       });
     }
 
@@ -473,12 +479,12 @@ export class NotificationService {
     for (const org of organizations) {
       if (!org.isActive) continue;
       
-      // Get appointments for the next 24 hours
-      const appointments = await storage.getAppointmentsByOrganization(
-        org.id,
-        now,
-        in24Hours
-      );
+      // Get upcoming appointments for the next 24 hours
+      const appointments = await storage.getAppointmentsByOrganization(org.id, {
+        startDate: now,
+        endDate: in24Hours,
+        statusFilter: ['scheduled', 'confirmed']
+      });
 
       for (const appointment of appointments) {
         const timeDiff = appointment.startTime.getTime() - now.getTime();
@@ -488,10 +494,9 @@ export class NotificationService {
         if (appointment.remindersSent && appointment.remindersSent >= 2) continue;
         
         // Get client and service details
-        const [client, service, staff] = await Promise.all([
+        const [client, service] = await Promise.all([
           storage.getClient(appointment.clientId),
-          storage.getService(appointment.serviceId),
-          storage.getStaff(appointment.staffId)
+          storage.getService(appointment.serviceId)
         ]);
 
         if (!client || !service) continue;
@@ -501,7 +506,7 @@ export class NotificationService {
           serviceName: service.name,
           appointmentDate: format(appointment.startTime, 'MMMM d, yyyy'),
           appointmentTime: format(appointment.startTime, 'h:mm a'),
-          staffName: staff ? `${staff.user?.firstName || ''} ${staff.user?.lastName || ''}`.trim() : '',
+          staffName: appointment.staffName?.trim() || '',
           locationName: org.name
         };
 
@@ -518,7 +523,7 @@ export class NotificationService {
           });
 
           // Update reminder count
-          await storage.updateAppointment(appointment.id, {
+          await storage.updateAppointment(appointment.id, org.id, {
             remindersSent: (appointment.remindersSent || 0) + 1
           });
         }
@@ -536,7 +541,7 @@ export class NotificationService {
           });
 
           // Update reminder count
-          await storage.updateAppointment(appointment.id, {
+          await storage.updateAppointment(appointment.id, org.id, {
             remindersSent: 2
           });
         }
@@ -567,8 +572,9 @@ export class NotificationService {
         const birthMonth = client.dateOfBirth.getMonth() + 1;
         const birthDay = client.dateOfBirth.getDate();
         
-        // Check if it's their birthday
+        // Check if it's their birthday; a retried or manual run skips clients already greeted this year
         if (birthMonth === todayMonth && birthDay === todayDay) {
+          if (client.birthdayGreetedAt && client.birthdayGreetedAt.getFullYear() === today.getFullYear()) continue;
           console.log(`Sending birthday greeting to ${client.firstName} ${client.lastName}`);
           
           await this.sendNotification({
@@ -581,6 +587,7 @@ export class NotificationService {
             },
             channels: ['sms', 'email']
           });
+          await storage.updateClient(client.id, { birthdayGreetedAt: new Date() });
         }
       }
     }
@@ -648,15 +655,16 @@ export class NotificationService {
     for (const org of organizations) {
       if (!org.isActive) continue;
       
-      // Get completed appointments from yesterday
-      const appointments = await storage.getAppointmentsByOrganization(
-        org.id,
-        startOfDay(yesterday),
-        endOfDay(yesterday)
-      );
+      // Get completed appointments from yesterday, and from the days before in case a run was missed
+      const appointments = await storage.getAppointmentsByOrganization(org.id, {
+        startDate: startOfDay(addDays(today, -FOLLOW_UP_LOOKBACK_DAYS)),
+        endDate: endOfDay(yesterday),
+        statusFilter: ['completed']
+      });
 
       for (const appointment of appointments) {
-        if (appointment.status !== 'completed') continue;
+        // A retried or manual run skips appointments already followed up
+        if (appointment.status !== 'completed' || appointment.followUpSentAt) continue;
         
         const [client, service] = await Promise.all([
           storage.getClient(appointment.clientId),
@@ -678,10 +686,156 @@ export class NotificationService {
           },
           channels: ['email']  // Follow-ups via email only
         });
+        await storage.updateAppointment(appointment.id, org.id, { followUpSentAt: new Date() });
       }
     }
   }
 
+  // Resolve the clients targeted by a campaign's audience filters
+  async resolveCampaignAudience(organizationId: string, audience?: any): Promise<Client[]> {
+    const clients = await storage.getClientsByOrganization(organizationId);
+    let filteredClients = clients;
+    if (!audience) return filteredClients;
+
+    if (audience.membershipTier) {
+      const memberships = await storage.getMembershipsByOrganization(organizationId);
+      const tierMembershipClientIds = memberships
+        .filter(m => m.tierName === audience.membershipTier && m.status === 'active')
+        .map(m => m.clientId);
+      filteredClients = filteredClients.filter(c => tierMembershipClientIds.includes(c.id));
+    }
+
+    if (audience.lastVisitDays) {
+      const daysAgo = new Date();
+      daysAgo.setDate(daysAgo.getDate() - audience.lastVisitDays);
+      filteredClients = filteredClients.filter(c => c.lastVisit && c.lastVisit >= daysAgo);
+    }
+
+    if (audience.birthdayMonth) {
+      const month = parseInt(audience.birthdayMonth);
+      filteredClients = filteredClients.filter(c =>
+        c.dateOfBirth && c.dateOfBirth.getMonth() + 1 === month
+      );
+    }
+
+    if (audience.minTotalSpent) {
+      filteredClients = filteredClients.filter(c =>
+        parseFloat(c.totalSpent || "0") >= audience.minTotalSpent
+      );
+    }
+
+    return filteredClients;
+  }
+
+  // Send marketing campaigns whose scheduled date has passed. Safe to retry: a campaign is claimed before sending,
+  // and recipients an earlier run already reached are skipped.
+  async sendScheduledCampaigns(): Promise<{ campaignsSent: number }> {
+    console.log('[NOTIFICATIONS] Checking for scheduled campaigns...');
+
+    const staleBefore = new Date(Date.now() - CAMPAIGN_SEND_STALE_MS);
+    const campaigns = await storage.getDueMarketingCampaigns(new Date(), staleBefore);
+    let campaignsSent = 0;
+
+    for (const due of campaigns) {
+      const organization = await this.getOrganization(due.organizationId);
+      if (!organization || !organization.isActive) continue;
+
+      const campaign = await storage.claimMarketingCampaign(due.id, staleBefore);
+      if (!campaign) continue;
+
+      console.log(`Sending scheduled campaign ${campaign.id} (${campaign.name})`);
+
+      // One recipient row per client and channel; only failed sends from an earlier run are tried again
+      const recorded = new Map<string, CampaignRecipient>();
+      for (const recipient of await storage.getCampaignRecipients(campaign.id)) {
+        recorded.set(`${recipient.clientId}:${recipient.phoneNumber ? 'sms' : 'email'}`, recipient);
+      }
+      let attempted = 0;
+
+      // The recipient is recorded as pending before the message goes out, so a run that dies mid-send never sends it twice
+      const deliver = async (
+        client: Client,
+        channel: 'sms' | 'email',
+        contact: Partial<InsertCampaignRecipient>,
+        variables: Record<string, string>,
+        send: () => Promise<{ success: boolean; messageId?: string; error?: string }>
+      ) => {
+        const previous = recorded.get(`${client.id}:${channel}`);
+        if (previous && previous.status !== 'failed') return;
+
+        const recipient = previous || await storage.createCampaignRecipient({
+          campaignId: campaign.id,
+          clientId: client.id,
+          status: 'pending',
+          ...contact,
+          variables
+        });
+        const result = await send();
+        attempted++;
+        await storage.updateCampaignRecipient(recipient.id, {
+          status: result.success ? 'sent' : 'failed',
+          messageId: result.messageId,
+          error: result.success ? null : result.error
+        });
+      };
+
+      const clients = await this.resolveCampaignAudience(campaign.organizationId, campaign.audience);
+      for (const client of clients) {
+        if (!client.isActive) continue;
+
+        const variables = {
+          firstName: client.firstName,
+          lastName: client.lastName,
+          organizationName: organization.name,
+          bookingLink: `https://aesthiq.app/c/${organization.slug}`
+        };
+
+        if ((campaign.type === 'sms' || campaign.type === 'both') && client.phone) {
+          const phone = client.phone;
+          await deliver(client, 'sms', { phoneNumber: phone }, variables, () => twilioService.sendSMS({
+            to: phone,
+            message: twilioService.replaceTemplateVariables(campaign.content, variables)
+          }));
+        }
+
+        if ((campaign.type === 'email' || campaign.type === 'both') && client.email) {
+          const email = client.email;
+          await deliver(client, 'email', { email }, variables, () => sendgridService.sendEmail({
+            to: email,
+            subject: sendgridService.replaceTemplateVariables(campaign.subject || campaign.name, variables),
+            html: sendgridService.replaceTemplateVariables(campaign.content, variables),
+            categories: ['marketing', `campaign_${campaign.id}`]
+          }));
+        }
+      }
+
+      // Totals cover every run of the campaign; the usage log only counts what this run sent
+      const recipients = await storage.getCampaignRecipients(campaign.id);
+      const successCount = recipients.filter(r => r.status === 'sent').length;
+      const failedCount = recipients.filter(r => r.status === 'failed').length;
+
+      await storage.updateMarketingCampaign(campaign.id, {
+        status: 'sent',
+        sentDate: new Date(),
+        sentCount: successCount + failedCount,
+        successCount,
+        failedCount
+      });
+
+      await storage.createUsageLog({
+        organizationId: campaign.organizationId,
+        feature: 'marketing_campaign',
+        action: 'scheduled_send',
+        quantity: attempted,
+        metadata: { campaignId: campaign.id, sent: successCount, failed: failedCount }
+      });
+
+      campaignsSent++;
+    }
+
+    return { campaignsSent };
+  }
+
   // Run all automated notifications
   async runAutomatedNotifications(): Promise<void> {
     console.log('[NOTIFICATIONS] Running automated notifications...');
@@ -0,0 +1,283 @@
+import { storage } from "../storage";
+import {
+  calculateTax, getStaffDaySchedule, localTimeToUtc, type CheckoutTicket, type CommissionTier, type Staff,
+  type TaxBreakdown, type Transaction
+} from "@shared/schema";
+
+export interface PayoutStatementLine {
+  appointmentId: string;
+  date: Date;
+  clientName: string;
+  serviceName: string;
+  serviceRevenue: number;
+  commission: number;
+  productSales: number;
+  productCommission: number;
+  tips: number;
+}
+
+export interface PayoutStatement {
+  staffId: string;
+  providerName: string;
+  commissionType: "percentage" | "flat";
+  commissionRate: number; // Percent of service revenue, or dollars per service when flat
+  commissionTiers: CommissionTier[];
+  productCommissionRate: number;
+  appointments: number;
+  serviceRevenue: number;
+  commission: number;
+  productSales: number;
+  productCommission: number;
+  tips: number;
+  totalPayout: number; // Commission, product commission and tips
+  lines: PayoutStatementLine[];
+}
+
+export interface PayrollStatement extends PayoutStatement {
+  hours: number;
+  hoursSource: "clocked" | "scheduled";
+  hourlyRate: number;
+  hourlyPay: number;
+  totalPay: number; // Everything owed for the period, hourly pay included
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// The day after a YYYY-MM-DD date
+function nextDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+export class PayoutService {
+  /**
+   * Commission and tips owed to each provider for the appointments they completed in a period.
+   * Tips go in full to the appointment's provider; sales tax earns no commission, and products only earn
+   * the provider's product commission rate.
+   */
+  async buildStatements(organizationId: string, from: Date | null, to: Date | null, staffId?: string): Promise<PayoutStatement[]> {
+    const [staffMembers, appointments] = await Promise.all([
+      storage.getStaffByOrganization(organizationId),
+      storage.getAppointmentsByOrganization(organizationId, {
+        startDate: from || undefined,
+        endDate: to || undefined,
+        statusFilter: ["completed"],
+        includeArchived: true
+      })
+    ]);
+
+    const statements = new Map<string, PayoutStatement>();
+    for (const appointment of appointments) {
+      if (staffId && appointment.staffId !== staffId) continue;
+
+      let statement = statements.get(appointment.staffId);
+      if (!statement) {
+        const staffMember = staffMembers.find(s => s.id === appointment.staffId);
+        if (!staffMember) continue;
+        statement = this.emptyStatement(staffMember, appointment.staffName);
+        statements.set(staffMember.id, statement);
+      }
+
+      const paid = (await storage.getTransactionsByAppointment(appointment.id)).filter(t => t.status === "completed");
+      const { serviceRevenue, servicesPerformed, productSales } = this.visitSales(Number(appointment.totalAmount || 0), paid);
+      const tips = round(paid.reduce((sum, t) => sum + Number((t.metadata as { tipAmount?: number } | null)?.tipAmount || 0), 0));
+      // Appointments come in date order, so each one is paid at the tier the provider has reached by then
+      const commission = statement.commissionType === "flat"
+        ? round(statement.commissionRate * servicesPerformed)
+        : this.tieredCommission(statement.serviceRevenue, serviceRevenue, statement.commissionRate, statement.commissionTiers);
+      const productCommission = round(productSales * statement.productCommissionRate / 100);
+
+      statement.lines.push({
+        appointmentId: appointment.id,
+        date: appointment.startTime,
+        clientName: appointment.clientName?.trim() || "Client",
+        serviceName: appointment.serviceName || "Service",
+        serviceRevenue,
+        commission,
+        productSales,
+        productCommission,
+        tips
+      });
+      statement.appointments++;
+      statement.serviceRevenue = round(statement.serviceRevenue + serviceRevenue);
+      statement.commission = round(statement.commission + commission);
+      statement.productSales = round(statement.productSales + productSales);
+      statement.productCommission = round(statement.productCommission + productCommission);
+      statement.tips = round(statement.tips + tips);
+      statement.totalPayout = round(statement.commission + statement.productCommission + statement.tips);
+    }
+
+    // Providers with nothing in the period still get an empty statement
+    for (const staffMember of staffMembers) {
+      if (statements.has(staffMember.id) || (staffId && staffMember.id !== staffId) || !staffMember.isActive) continue;
+      const user = await storage.getUser(staffMember.userId);
+      statements.set(staffMember.id, this.emptyStatement(staffMember, `${user?.firstName || ""} ${user?.lastName || ""}`));
+    }
+
+    return Array.from(statements.values()).sort((a, b) => b.totalPayout - a.totalPayout);
+  }
+
+  /**
+   * Full pay for a pay period of clinic-local dates (YYYY-MM-DD, inclusive): commission, product commission and
+   * tips, plus hourly pay. Hours come from the time clock when the staff member clocked any in the period,
+   * otherwise from their schedule.
+   */
+  async buildPayroll(organizationId: string, startDate: string, endDate: string): Promise<PayrollStatement[]> {
+    const locations = await storage.getLocationsByOrganization(organizationId);
+    const timezone = locations[0]?.timezone || "America/New_York";
+    const from = localTimeToUtc(startDate, "00:00", timezone);
+    const to = new Date(localTimeToUtc(nextDate(endDate), "00:00", timezone).getTime() - 1);
+
+    const [statements, staffMembers, entries] = await Promise.all([
+      this.buildStatements(organizationId, from, to),
+      storage.getStaffByOrganization(organizationId),
+      storage.getTimeClockEntries(organizationId, from, to)
+    ]);
+
+    const payroll: PayrollStatement[] = [];
+    for (const statement of statements) {
+      const staffMember = staffMembers.find(s => s.id === statement.staffId);
+      const hourlyRate = Number(staffMember?.hourlyRate || 0);
+      const clocked = entries.filter(e => e.staffId === statement.staffId);
+
+      let hours: number;
+      if (clocked.length > 0) {
+        // Shifts are cut at the period's edges; one still open counts up to now
+        const now = Date.now();
+        const minutes = clocked.reduce((sum, e) => {
+          const start = Math.max(e.clockIn.getTime(), from.getTime());
+          const end = Math.min(e.clockOut ? e.clockOut.getTime() : now, to.getTime());
+          return sum + Math.max(end - start, 0) / 60000;
+        }, 0);
+        hours = round(minutes / 60);
+      } else {
+        hours = staffMember ? await this.scheduledHours(staffMember, startDate, endDate) : 0;
+      }
+
+      const hourlyPay = round(hours * hourlyRate);
+      payroll.push({
+        ...statement,
+        hours,
+        hoursSource: clocked.length > 0 ? "clocked" : "scheduled",
+        hourlyRate,
+        hourlyPay,
+        totalPay: round(statement.totalPayout + hourlyPay)
+      });
+    }
+
+    return payroll.sort((a, b) => b.totalPay - a.totalPay);
+  }
+
+  // One row per staff member, in the column order bookkeepers paste into their payroll software
+  toCsv(statements: PayrollStatement[], startDate: string, endDate: string): string {
+    const escape = (value: string | number) => {
+      const text = String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows: (string | number)[][] = [[
+      "Period Start", "Period End", "Staff Member", "Appointments", "Service Revenue", "Commission Type",
+      "Commission Rate", "Commission", "Product Sales", "Product Commission", "Tips", "Hours", "Hours Source",
+      "Hourly Rate", "Hourly Pay", "Total Pay"
+    ]];
+    for (const s of statements) {
+      rows.push([
+        startDate, endDate, s.providerName, s.appointments, s.serviceRevenue.toFixed(2), s.commissionType,
+        s.commissionRate.toFixed(2), s.commission.toFixed(2), s.productSales.toFixed(2), s.productCommission.toFixed(2),
+        s.tips.toFixed(2), s.hours.toFixed(2), s.hoursSource, s.hourlyRate.toFixed(2), s.hourlyPay.toFixed(2),
+        s.totalPay.toFixed(2)
+      ]);
+    }
+    return rows.map(row => row.map(escape).join(",")).join("\n") + "\n";
+  }
+
+  private emptyStatement(staffMember: Staff, name: string | null): PayoutStatement {
+    const tiers = Array.isArray(staffMember.commissionTiers) ? staffMember.commissionTiers as CommissionTier[] : [];
+    return {
+      staffId: staffMember.id,
+      providerName: name?.trim() || staffMember.title || "Provider",
+      commissionType: staffMember.commissionType === "flat" ? "flat" : "percentage",
+      commissionRate: Number(staffMember.commissionRate || 0),
+      commissionTiers: tiers.slice().sort((a, b) => a.minRevenue - b.minRevenue),
+      productCommissionRate: Number(staffMember.productCommissionRate || 0),
+      appointments: 0,
+      serviceRevenue: 0,
+      commission: 0,
+      productSales: 0,
+      productCommission: 0,
+      tips: 0,
+      totalPayout: 0,
+      lines: []
+    };
+  }
+
+  // What the visit's services earned after discounts, how many services were performed and what products sold.
+  // A checkout ticket itemizes them; otherwise it is the booked service, less the sales tax recorded with its payment.
+  private visitSales(bookedTotal: number, paid: Transaction[]): { serviceRevenue: number; servicesPerformed: number; productSales: number } {
+    const ticket = (paid.find(t => t.type === "pos_payment")?.metadata as { ticket?: CheckoutTicket } | null)?.ticket;
+    if (ticket) {
+      const sum = (kinds: string[]) => ticket.lines.filter(l => kinds.includes(l.kind)).reduce((total, l) => total + l.amount, 0);
+      return {
+        serviceRevenue: round(Math.max(sum(["service", "add_on", "member_discount"]), 0)),
+        servicesPerformed: ticket.lines.filter(l => l.kind === "service" || l.kind === "add_on").length,
+        productSales: round(sum(["product"]))
+      };
+    }
+    const tax = paid.map(t => (t.metadata as { tax?: TaxBreakdown } | null)?.tax).find(Boolean);
+    return {
+      serviceRevenue: round(Math.max(bookedTotal - (tax ? calculateTax(tax.taxableAmount, tax.rate) : 0), 0)),
+      servicesPerformed: 1,
+      productSales: 0
+    };
+  }
+
+  // Commission on revenue taking the provider's period total from earnedBefore to earnedBefore + revenue.
+  // Revenue below the first tier earns the base rate; revenue past each tier's threshold earns that tier's rate.
+  private tieredCommission(earnedBefore: number, revenue: number, baseRate: number, tiers: CommissionTier[]): number {
+    const brackets = [{ minRevenue: 0, rate: baseRate }, ...tiers.filter(t => t.minRevenue > 0)];
+    let commission = 0;
+    for (let i = 0; i < brackets.length; i++) {
+      const lower = Math.max(brackets[i].minRevenue, earnedBefore);
+      const upper = Math.min(i + 1 < brackets.length ? brackets[i + 1].minRevenue : Infinity, earnedBefore + revenue);
+      if (upper > lower) commission += (upper - lower) * brackets[i].rate / 100;
+    }
+    return round(commission);
+  }
+
+  // Hours on the staff member's weekly schedule in the period, after time off and breaks and with extra shifts
+  private async scheduledHours(staffMember: Staff, startDate: string, endDate: string): Promise<number> {
+    const [availability, exceptions] = await Promise.all([
+      storage.getStaffAvailabilityByStaff(staffMember.id),
+      storage.getStaffScheduleExceptions(staffMember.id)
+    ]);
+
+    let minutes = 0;
+    for (let date = startDate; date <= endDate; date = nextDate(date)) {
+      const [year, month, day] = date.split("-").map(Number);
+      const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+      const daySchedule = getStaffDaySchedule(exceptions, date, dayOfWeek);
+      if (daySchedule.offAllDay) continue;
+
+      // Minute by minute, so overlapping windows aren't counted twice
+      const working = new Array<boolean>(24 * 60).fill(false);
+      const windows = availability
+        .filter(a => a.dayOfWeek === dayOfWeek)
+        .map(a => ({ start: a.startTime, end: a.endTime }))
+        .concat(daySchedule.extraShifts);
+      for (let w = 0; w < windows.length; w++) {
+        for (let m = toMinutes(windows[w].start); m < toMinutes(windows[w].end); m++) working[m] = true;
+      }
+      for (let b = 0; b < daySchedule.blocked.length; b++) {
+        const blocked = daySchedule.blocked[b];
+        for (let m = toMinutes(blocked.start); m < toMinutes(blocked.end); m++) working[m] = false;
+      }
+      minutes += working.filter(Boolean).length;
+    }
+    return round(minutes / 60);
+  }
+}
+
+export const payoutService = new PayoutService();
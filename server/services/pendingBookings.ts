@@ -0,0 +1,93 @@
+import { storage } from "../storage";
+import { stripe } from "./stripe";
+import type { Appointment, Transaction } from "@shared/schema";
+
+// An online booking the patient hasn't paid for within this long is treated as abandoned
+const PENDING_BOOKING_TTL_MINUTES = 30;
+
+const CARD_PAYMENT_TYPES = ["appointment_deposit", "appointment_full"];
+
+export interface ReleasedBooking {
+  wallet?: { balance: string };
+  credits?: { balance: string };
+}
+
+export class PendingBookingService {
+  /**
+   * Cancel an online booking still waiting on its card payment: the payment intent is canceled (or refunded
+   * if it went through in the meantime) and the wallet and membership credit shares go back to the client.
+   * Returns null when the booking is no longer pending or its card payment is still settling.
+   */
+  async releaseBooking(appointment: Appointment, reason: string): Promise<ReleasedBooking | null> {
+    const cardPayments = (await storage.getTransactionsByAppointment(appointment.id))
+      .filter(t => t.status === "pending" && t.stripePaymentIntentId && CARD_PAYMENT_TYPES.includes(t.type));
+
+    const intents = stripe
+      ? await Promise.all(cardPayments.map(t => stripe!.paymentIntents.retrieve(t.stripePaymentIntentId!)))
+      : [];
+    // A payment that is still processing may yet succeed, so the booking stays until it settles
+    if (intents.some(intent => intent.status === "processing")) {
+      return null;
+    }
+
+    const released = await storage.transitionAppointment(appointment.id, "pending", { status: "canceled" });
+    if (!released) {
+      return null;
+    }
+
+    for (const intent of intents) {
+      const transaction = cardPayments.find(t => t.stripePaymentIntentId === intent.id)!;
+      try {
+        if (intent.status === "succeeded") {
+          await this.refundCardPayment(transaction);
+        } else if (intent.status !== "canceled") {
+          await stripe!.paymentIntents.cancel(intent.id);
+          await storage.updateTransaction(transaction.id, { status: "failed" });
+        }
+      } catch (error) {
+        // The transaction stays pending, so a late finalize-payment call refunds the charge instead
+        console.error(`Failed to release payment ${intent.id} for appointment ${appointment.id}:`, error);
+      }
+    }
+
+    const wallet = await storage.refundWalletPayments(appointment.id, `Wallet funds released from ${reason}`);
+    const credits = await storage.refundMembershipCredits(appointment.id, `Membership credits released from ${reason}`);
+    return { wallet, credits };
+  }
+
+  // Give back a card payment that went through for a booking that was released before it could be confirmed
+  async refundCardPayment(transaction: Transaction): Promise<void> {
+    if (!stripe || !transaction.stripePaymentIntentId) return;
+
+    // Destination charges are refunded from the platform, pulling the clinic's share and the commission back
+    await stripe.refunds.create({
+      payment_intent: transaction.stripePaymentIntentId,
+      reverse_transfer: true,
+      refund_application_fee: true
+    });
+    await storage.updateTransaction(transaction.id, { status: "refunded" });
+  }
+
+  // Release online bookings whose patient left before paying, so the slot and the held funds don't stay tied up
+  async releaseStaleBookings(): Promise<{ released: number }> {
+    const createdBefore = new Date(Date.now() - PENDING_BOOKING_TTL_MINUTES * 60 * 1000);
+    const appointments = await storage.getStalePendingAppointments(createdBefore);
+    let released = 0;
+
+    for (const appointment of appointments) {
+      // Bookings set to pending by staff have no card payment and are left alone
+      const transactions = await storage.getTransactionsByAppointment(appointment.id);
+      if (!transactions.some(t => t.status === "pending" && t.stripePaymentIntentId && CARD_PAYMENT_TYPES.includes(t.type))) {
+        continue;
+      }
+      if (await this.releaseBooking(appointment, "abandoned booking")) {
+        released++;
+      }
+    }
+
+    return { released };
+  }
+}
+
+// Create singleton instance
+export const pendingBookingService = new PendingBookingService();
@@ -0,0 +1,348 @@
+import PDFDocument from "pdfkit";
+import { storage } from "../storage";
+import * as sendgridService from "./sendgrid";
+import { calculateTax, type Appointment, type CheckoutLineItem, type CheckoutTicket, type TaxBreakdown, type Transaction } from "@shared/schema";
+
+// Transactions that paid for the visit, and how each shows on the receipt
+const PAYMENT_LABELS: Record<string, string> = {
+  appointment_deposit: "Deposit",
+  appointment_full: "Card payment",
+  appointment_balance: "Card payment",
+  wallet_payment: "Wallet",
+  membership_credit_redemption: "Membership credits",
+  gift_card_redemption: "Gift card",
+  pos_payment: "Payment",
+  refund: "Refund"
+};
+
+const POS_METHOD_LABELS: Record<string, string> = {
+  card: "Card on file",
+  cash: "Cash",
+  external_terminal: "Card terminal"
+};
+
+export interface Receipt {
+  number: string;
+  kind: "receipt" | "invoice"; // An invoice while part of the visit is still unpaid
+  issuedAt: Date;
+  organization: {
+    name: string;
+    address: string;
+    phone: string;
+    email: string;
+    primaryColor: string;
+    logo?: string;
+  };
+  client: { name: string; email: string | null };
+  serviceDate: Date;
+  locationName: string;
+  providerName: string;
+  lines: CheckoutLineItem[];
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  tipAmount: number;
+  total: number;
+  payments: { description: string; amount: number; date: Date | null }[];
+  amountPaid: number;
+  balanceDue: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const money = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+
+// Addresses are stored as free-form JSON; take whatever parts are present
+function formatAddress(address: unknown): string {
+  if (!address) return "";
+  if (typeof address === "string") return address;
+  const parts = ["street", "city", "state", "zipCode", "zip", "country"]
+    .map(key => (address as Record<string, unknown>)[key])
+    .filter((part): part is string => typeof part === "string" && part.trim() !== "");
+  return parts.join(", ");
+}
+
+export class ReceiptService {
+  /**
+   * Itemize a visit from its completed payments. A front desk checkout keeps its full ticket; otherwise the
+   * service price is listed with any difference to the booked total as a discount or extra charge.
+   */
+  async buildReceipt(appointment: Appointment): Promise<Receipt | undefined> {
+    const [organization, client, service, location, staffMember, transactions] = await Promise.all([
+      storage.getOrganization(appointment.organizationId),
+      storage.getClient(appointment.clientId),
+      storage.getService(appointment.serviceId),
+      storage.getLocation(appointment.locationId),
+      storage.getStaff(appointment.staffId),
+      storage.getTransactionsByAppointment(appointment.id)
+    ]);
+    if (!organization || !client || !service) return undefined;
+
+    const provider = staffMember ? await storage.getUser(staffMember.userId) : undefined;
+    const providerName = `${provider?.firstName || ""} ${provider?.lastName || ""}`.trim() || staffMember?.title || "Provider";
+
+    const paid = transactions
+      .filter(t => t.status === "completed" && PAYMENT_LABELS[t.type])
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+    const checkout = paid.find(t => t.type === "pos_payment");
+    const ticket = (checkout?.metadata as { ticket?: CheckoutTicket } | null)?.ticket;
+
+    let lines: CheckoutLineItem[];
+    let subtotal: number;
+    let discountTotal: number;
+    let taxTotal: number;
+    let tipAmount: number;
+    let total: number;
+    if (ticket) {
+      ({ lines, subtotal, discountTotal, tipAmount, total } = ticket);
+      taxTotal = ticket.taxTotal || 0;
+    } else {
+      // The booked total includes the sales tax recorded with the booking payment
+      const tax = paid.map(t => (t.metadata as { tax?: TaxBreakdown } | null)?.tax).find(Boolean);
+      taxTotal = tax ? calculateTax(tax.taxableAmount, tax.rate) : 0;
+      const price = Number(service.price);
+      const booked = Number(appointment.totalAmount ?? price);
+      const adjustment = round(booked - taxTotal - price);
+      lines = [{ kind: "service", referenceId: service.id, description: service.name, quantity: 1, unitPrice: price, amount: price }];
+      if (adjustment < 0) {
+        lines.push({ kind: "member_discount", referenceId: null, description: "Discount", quantity: 1, unitPrice: adjustment, amount: adjustment });
+      } else if (adjustment > 0) {
+        lines.push({ kind: "add_on", referenceId: null, description: "Additional charges", quantity: 1, unitPrice: adjustment, amount: adjustment });
+      }
+      subtotal = round(Math.max(price, booked - taxTotal));
+      discountTotal = adjustment < 0 ? -adjustment : 0;
+      tipAmount = 0;
+      total = booked;
+    }
+
+    // A tip added when paying online rides on the booking payment rather than the checkout ticket
+    const bookingTip = round(paid
+      .filter(t => t.type !== "pos_payment")
+      .reduce((sum, t) => sum + Number((t.metadata as { tipAmount?: number } | null)?.tipAmount || 0), 0));
+    if (bookingTip > 0) {
+      lines = [...lines, { kind: "tip", referenceId: appointment.staffId, description: "Tip", quantity: 1, unitPrice: bookingTip, amount: bookingTip }];
+      tipAmount = round(tipAmount + bookingTip);
+      total = round(total + bookingTip);
+    }
+
+    const payments = paid.map(t => ({
+      description: this.describePayment(t),
+      amount: Number(t.amount),
+      date: t.createdAt
+    }));
+    const amountPaid = round(payments.reduce((sum, p) => sum + p.amount, 0));
+    const balanceDue = Math.max(round(total - amountPaid), 0);
+    const branding = (organization.whiteLabelSettings || {}) as { primaryColor?: string; logo?: string };
+
+    return {
+      number: `R-${appointment.id.slice(0, 8).toUpperCase()}`,
+      kind: balanceDue > 0 ? "invoice" : "receipt",
+      issuedAt: checkout?.createdAt || paid[paid.length - 1]?.createdAt || new Date(),
+      organization: {
+        name: organization.name,
+        address: formatAddress(location?.address) || formatAddress(organization.address),
+        phone: location?.phone || organization.phone || "",
+        email: organization.email || "",
+        primaryColor: /^#[0-9a-f]{6}$/i.test(branding.primaryColor || "") ? branding.primaryColor! : "#667eea",
+        logo: branding.logo
+      },
+      client: { name: `${client.firstName} ${client.lastName}`.trim(), email: client.email },
+      serviceDate: appointment.startTime,
+      locationName: location?.name || "",
+      providerName,
+      lines,
+      subtotal,
+      discountTotal,
+      taxTotal,
+      tipAmount,
+      total,
+      payments,
+      amountPaid,
+      balanceDue
+    };
+  }
+
+  private describePayment(transaction: Transaction): string {
+    if (transaction.type === "pos_payment") {
+      return POS_METHOD_LABELS[transaction.paymentMethod || ""] || PAYMENT_LABELS.pos_payment;
+    }
+    return PAYMENT_LABELS[transaction.type];
+  }
+
+  // The clinic logo is an image URL or data URL; receipts go out without it when it can't be loaded
+  private async loadLogo(logo?: string): Promise<Buffer | undefined> {
+    if (!logo) return undefined;
+    try {
+      const dataUrl = logo.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+      if (dataUrl) return Buffer.from(dataUrl[2], "base64");
+      if (!/^https?:\/\//.test(logo)) return undefined;
+      const response = await fetch(logo, { signal: AbortSignal.timeout(5000) });
+      if (!response.ok || !/image\/(png|jpe?g)/.test(response.headers.get("content-type") || "")) return undefined;
+      return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      console.error("Receipt logo error:", error);
+      return undefined;
+    }
+  }
+
+  async renderPdf(receipt: Receipt): Promise<Buffer> {
+    const logo = await this.loadLogo(receipt.organization.logo);
+    const doc = new PDFDocument({ size: "LETTER", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+    });
+
+    const color = receipt.organization.primaryColor;
+    const left = 50;
+    const right = doc.page.width - 50;
+    const date = (value: Date) => value.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+
+    // Header: clinic on the left, document details on the right
+    let y = 50;
+    if (logo) {
+      try {
+        doc.image(logo, left, y, { fit: [120, 50] });
+        y += 60;
+      } catch (error) {
+        console.error("Receipt logo error:", error);
+      }
+    }
+    doc.fillColor(color).fontSize(18).font("Helvetica-Bold").text(receipt.organization.name, left, y, { width: 300 });
+    doc.fillColor("#555555").fontSize(9).font("Helvetica");
+    [receipt.organization.address, receipt.organization.phone, receipt.organization.email]
+      .filter(Boolean)
+      .forEach(line => doc.text(line, { width: 300 }));
+
+    doc.fillColor(color).fontSize(20).font("Helvetica-Bold")
+      .text(receipt.kind === "invoice" ? "INVOICE" : "RECEIPT", left, 50, { width: right - left, align: "right" });
+    doc.fillColor("#333333").fontSize(9).font("Helvetica")
+      .text(`No. ${receipt.number}`, { width: right - left, align: "right" })
+      .text(`Issued ${date(receipt.issuedAt)}`, { width: right - left, align: "right" });
+
+    y = Math.max(doc.y, y + 60) + 20;
+    doc.moveTo(left, y).lineTo(right, y).strokeColor(color).lineWidth(2).stroke();
+    y += 15;
+
+    // Who and when
+    doc.fillColor("#333333").fontSize(10).font("Helvetica-Bold").text("Billed to", left, y);
+    doc.font("Helvetica").text(receipt.client.name, left, y + 14);
+    if (receipt.client.email) doc.text(receipt.client.email, left, y + 28);
+    doc.font("Helvetica-Bold").text("Visit", 320, y);
+    doc.font("Helvetica")
+      .text(date(receipt.serviceDate), 320, y + 14)
+      .text(`Provider: ${receipt.providerName}`, 320, y + 28);
+    if (receipt.locationName) doc.text(receipt.locationName, 320, y + 42);
+    y += 70;
+
+    // Line items
+    const columns = { description: left, quantity: 330, unitPrice: 390, amount: 470 };
+    const amountWidth = right - columns.amount;
+    doc.rect(left, y, right - left, 20).fill(color);
+    doc.fillColor("#ffffff").fontSize(9).font("Helvetica-Bold")
+      .text("Description", columns.description + 6, y + 6)
+      .text("Qty", columns.quantity, y + 6, { width: 40, align: "right" })
+      .text("Unit price", columns.unitPrice, y + 6, { width: 70, align: "right" })
+      .text("Amount", columns.amount, y + 6, { width: amountWidth - 6, align: "right" });
+    y += 26;
+
+    doc.fillColor("#333333").font("Helvetica");
+    for (const line of receipt.lines) {
+      if (y > doc.page.height - 150) {
+        doc.addPage();
+        y = 50;
+      }
+      doc.text(line.description, columns.description + 6, y, { width: columns.quantity - columns.description - 16 })
+        .text(String(line.quantity), columns.quantity, y, { width: 40, align: "right" })
+        .text(money(line.unitPrice), columns.unitPrice, y, { width: 70, align: "right" })
+        .text(money(line.amount), columns.amount, y, { width: amountWidth - 6, align: "right" });
+      y = Math.max(doc.y, y + 12) + 6;
+    }
+    doc.moveTo(left, y).lineTo(right, y).strokeColor("#dddddd").lineWidth(1).stroke();
+    y += 10;
+
+    // Totals
+    const totalRow = (label: string, value: string, bold = false) => {
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(bold ? 11 : 9)
+        .text(label, 330, y, { width: 130, align: "right" })
+        .text(value, columns.amount, y, { width: amountWidth - 6, align: "right" });
+      y += bold ? 18 : 14;
+    };
+    totalRow("Subtotal", money(receipt.subtotal));
+    if (receipt.discountTotal > 0) totalRow("Discounts", money(-receipt.discountTotal));
+    totalRow("Sales tax", money(receipt.taxTotal));
+    if (receipt.tipAmount > 0) totalRow("Tip", money(receipt.tipAmount));
+    totalRow("Total", money(receipt.total), true);
+    y += 10;
+
+    // Payments
+    doc.fillColor(color).font("Helvetica-Bold").fontSize(10).text("Payments", left, y);
+    y += 16;
+    doc.fillColor("#333333").font("Helvetica").fontSize(9);
+    if (receipt.payments.length === 0) {
+      doc.text("No payments yet", left, y);
+      y += 14;
+    }
+    for (const payment of receipt.payments) {
+      doc.text(payment.description, left, y, { width: 200 })
+        .text(payment.date ? date(payment.date) : "", 260, y, { width: 150 })
+        .text(money(payment.amount), columns.amount, y, { width: amountWidth - 6, align: "right" });
+      y += 14;
+    }
+    y += 4;
+    totalRow("Amount paid", money(receipt.amountPaid));
+    totalRow(receipt.balanceDue > 0 ? "Balance due" : "Paid in full", money(receipt.balanceDue), true);
+
+    doc.fillColor("#999999").fontSize(8)
+      .text(`Thank you for visiting ${receipt.organization.name}.`, left, doc.page.height - 70, { width: right - left, align: "center" });
+
+    doc.end();
+    return await finished;
+  }
+
+  /**
+   * Email the visit's receipt as a PDF attachment. Called after each payment; failures are logged rather than
+   * thrown so they never undo the payment itself.
+   */
+  async emailReceipt(appointmentId: string): Promise<void> {
+    try {
+      const appointment = await storage.getAppointment(appointmentId);
+      const receipt = appointment ? await this.buildReceipt(appointment) : undefined;
+      if (!receipt?.client.email) return;
+
+      const pdf = await this.renderPdf(receipt);
+      await sendgridService.sendEmailWithTemplate({
+        to: receipt.client.email,
+        templateName: "receipt",
+        variables: {
+          firstName: receipt.client.name.split(" ")[0] || "there",
+          documentType: receipt.kind === "invoice" ? "invoice" : "receipt",
+          receiptNumber: receipt.number,
+          serviceDate: receipt.serviceDate,
+          total: money(receipt.total),
+          amountPaid: money(receipt.amountPaid),
+          balanceDue: money(receipt.balanceDue),
+          organizationName: receipt.organization.name,
+          organizationPhone: receipt.organization.phone,
+          organizationEmail: receipt.organization.email
+        },
+        attachments: [{
+          content: pdf.toString("base64"),
+          filename: this.filename(receipt),
+          type: "application/pdf",
+          disposition: "attachment"
+        }]
+      });
+    } catch (error) {
+      console.error("Receipt email error:", error);
+    }
+  }
+
+  filename(receipt: Receipt): string {
+    return `${receipt.kind}-${receipt.number}.pdf`;
+  }
+}
+
+// Create singleton instance
+export const receiptService = new ReceiptService();
@@ -0,0 +1,250 @@
+import crypto from "crypto";
+import os from "os";
+import { storage } from "../storage";
+import { notificationService } from "./notifications";
+import { waitlistService } from "./waitlist";
+import { pendingBookingService } from "./pendingBookings";
+import { giftCardService } from "./giftCards";
+import { documentService } from "./documents";
+import type { JobRun } from "@shared/schema";
+
+// Scheduler configuration
+const SCHEDULER_CONFIG = {
+  enabled: process.env.JOB_SCHEDULER_ENABLED !== 'false',
+  pollIntervalMs: 60 * 1000,
+  leaseMs: 15 * 60 * 1000, // Must outlive the slowest job; an expired lease can be taken over by another instance
+  retryBaseDelayMs: 60 * 1000,
+  retryMaxDelayMs: 60 * 60 * 1000
+};
+
+interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  maxAttempts?: number;
+  runAtHour?: number; // Daily jobs run at this hour (server time) instead of a day after their last run finished
+  handler: () => Promise<any>;
+}
+
+const DAY_MINUTES = 24 * 60;
+
+// The next run time after a finished run. Daily jobs with a runAtHour stay on that hour, so their start time
+// doesn't creep later each day and skip a calendar day.
+function getNextRunAt(definition: JobDefinition, intervalMinutes: number, from: Date): Date {
+  if (definition.runAtHour === undefined || intervalMinutes !== DAY_MINUTES) {
+    return new Date(from.getTime() + intervalMinutes * 60 * 1000);
+  }
+  const next = new Date(from);
+  next.setHours(definition.runAtHour, 0, 0, 0);
+  if (next <= from) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
+
+// Jobs registered with the scheduler. Rows in scheduled_jobs are created from these on startup;
+// after that the enabled flag, interval and attempts are owned by the database.
+const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    name: "appointment_reminders",
+    description: "Send 24 hour and 2 hour appointment reminders",
+    intervalMinutes: 15,
+    handler: () => notificationService.sendAppointmentReminders()
+  },
+  {
+    name: "birthday_greetings",
+    description: "Send birthday greetings to clients",
+    intervalMinutes: 24 * 60,
+    runAtHour: 9,
+    handler: () => notificationService.sendBirthdayGreetings()
+  },
+  {
+    name: "membership_renewals",
+    description: "Remind members whose membership expires within 7 days",
+    intervalMinutes: 24 * 60,
+    runAtHour: 9,
+    handler: () => notificationService.sendMembershipRenewals()
+  },
+  {
+    name: "service_follow_ups",
+    description: "Send follow-ups for appointments completed yesterday, or earlier if a run was missed",
+    intervalMinutes: 24 * 60,
+    runAtHour: 10,
+    handler: () => notificationService.sendServiceFollowUps()
+  },
+  {
+    name: "scheduled_campaigns",
+    description: "Send marketing campaigns whose scheduled date has passed",
+    intervalMinutes: 5,
+    handler: () => notificationService.sendScheduledCampaigns()
+  },
+  {
+    name: "waitlist_offers",
+    description: "Expire unanswered waitlist offers and offer the slot to the next client",
+    intervalMinutes: 5,
+    handler: () => waitlistService.expireOffers()
+  },
+  {
+    name: "pending_bookings",
+    description: "Cancel online bookings left unpaid and give back their held wallet funds and credits",
+    intervalMinutes: 10,
+    handler: () => pendingBookingService.releaseStaleBookings()
+  },
+  {
+    name: "gift_card_expiry",
+    description: "Close out gift cards past their expiry date and record the unused balance",
+    intervalMinutes: 24 * 60,
+    runAtHour: 1,
+    handler: () => giftCardService.expireCards()
+  },
+  {
+    name: "document_retention",
+    description: "Delete client documents older than their category's retention period",
+    intervalMinutes: 24 * 60,
+    runAtHour: 2,
+    handler: () => documentService.applyRetention()
+  }
+];
+
+export class JobScheduler {
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private readonly jobs = new Map<string, JobDefinition>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(definitions: JobDefinition[]) {
+    for (const definition of definitions) {
+      this.jobs.set(definition.name, definition);
+    }
+  }
+
+  hasJob(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  async start(): Promise<void> {
+    if (!SCHEDULER_CONFIG.enabled) {
+      console.log('⏸️ [SCHEDULER] Disabled via JOB_SCHEDULER_ENABLED=false');
+      return;
+    }
+    if (this.timer) return;
+
+    for (const definition of Array.from(this.jobs.values())) {
+      await storage.ensureScheduledJob({
+        name: definition.name,
+        description: definition.description,
+        intervalMinutes: definition.intervalMinutes,
+        maxAttempts: definition.maxAttempts ?? 3
+      });
+    }
+
+    console.log(`✅ [SCHEDULER] Started instance ${this.instanceId} with ${this.jobs.size} jobs`);
+
+    this.timer = setInterval(() => { void this.tick(); }, SCHEDULER_CONFIG.pollIntervalMs);
+    this.timer.unref();
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Try every job once; jobs that are not due, disabled, or leased elsewhere are skipped by acquireJobLease
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      for (const name of Array.from(this.jobs.keys())) {
+        try {
+          await this.runJob(name);
+        } catch (error) {
+          console.error(`❌ [SCHEDULER] Failed to run job ${name}:`, error);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a job if this instance can take its lease.
+   * Returns null when the job is not due or another run holds the lease.
+   * Manual runs (force) ignore the enabled flag and the next run time but still respect the lease.
+   */
+  async runJob(name: string, options: { force?: boolean; triggeredBy?: string } = {}): Promise<JobRun | null> {
+    const definition = this.jobs.get(name);
+    if (!definition) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    const job = await storage.acquireJobLease(name, this.instanceId, SCHEDULER_CONFIG.leaseMs, options.force);
+    if (!job) return null;
+
+    const attempt = (job.consecutiveFailures || 0) + 1;
+    const run = await storage.createJobRun({
+      jobName: name,
+      status: "running",
+      trigger: options.force ? "manual" : attempt > 1 ? "retry" : "schedule",
+      attempt,
+      instanceId: this.instanceId,
+      triggeredBy: options.triggeredBy
+    });
+
+    console.log(`🕒 [SCHEDULER] Running ${name} (attempt ${attempt})`);
+    const startedAt = Date.now();
+
+    try {
+      const result = await definition.handler();
+      const finishedAt = new Date();
+
+      const completedRun = await storage.updateJobRun(run.id, {
+        status: "succeeded",
+        result: result ?? null,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt
+      });
+      await storage.releaseJobLease(name, this.instanceId, {
+        consecutiveFailures: 0,
+        lastRunAt: finishedAt,
+        nextRunAt: getNextRunAt(definition, job.intervalMinutes, finishedAt)
+      });
+
+      console.log(`✅ [SCHEDULER] ${name} succeeded in ${completedRun.durationMs}ms`);
+      return completedRun;
+    } catch (error) {
+      const finishedAt = new Date();
+      const message = error instanceof Error ? error.message : String(error);
+
+      // Retry with exponential backoff until maxAttempts, then fall back to the normal interval
+      const exhausted = attempt >= (job.maxAttempts ?? 3);
+      const retryDelayMs = Math.min(
+        SCHEDULER_CONFIG.retryBaseDelayMs * 2 ** (attempt - 1),
+        SCHEDULER_CONFIG.retryMaxDelayMs
+      );
+      const nextRunAt = exhausted
+        ? getNextRunAt(definition, job.intervalMinutes, finishedAt)
+        : new Date(finishedAt.getTime() + retryDelayMs);
+
+      const failedRun = await storage.updateJobRun(run.id, {
+        status: "failed",
+        error: message,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt
+      });
+      await storage.releaseJobLease(name, this.instanceId, {
+        consecutiveFailures: exhausted ? 0 : attempt,
+        lastRunAt: finishedAt,
+        nextRunAt
+      });
+
+      console.error(`❌ [SCHEDULER] ${name} failed (attempt ${attempt}${exhausted ? ', giving up until next interval' : ''}):`, error);
+      return failedRun;
+    }
+  }
+}
+
+// Create singleton instance
+export const jobScheduler = new JobScheduler(JOB_DEFINITIONS);
@@ -182,6 +182,61 @@ export const DEFAULT_EMAIL_TEMPLATES: Record<string, EmailTemplate> = {
       </div>
     `,
     variables: ['firstName', 'promotionTitle', 'promotionHeadline', 'promotionDescription', 'offerDetails', 'expiryDate', 'ctaLink', 'ctaText', 'organizationName', 'organizationPhone', 'organizationEmail']
+  },
+  gift_card: {
+    subject: 'You received a {{amount}} gift card to {{organizationName}}',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">A Gift For You</h1>
+        </div>
+        <div style="padding: 40px 20px; background: #f7f7f7;">
+          <p style="font-size: 16px; color: #333;">Hi {{recipientName}},</p>
+          <p style="font-size: 16px; color: #333;">{{purchaserName}} sent you a gift card to {{organizationName}}.</p>
+          <p style="font-size: 16px; color: #333; font-style: italic;">{{message}}</p>
+          <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
+            <p style="margin: 10px 0; font-size: 28px; font-weight: bold; color: #667eea;">{{amount}}</p>
+            <p style="margin: 10px 0; font-size: 20px; letter-spacing: 2px;"><strong>{{code}}</strong></p>
+            <p style="margin: 10px 0; color: #666;">{{expiryNote}}</p>
+          </div>
+          <p style="font-size: 14px; color: #666;">Share this code with the clinic when you book or check out.</p>
+          <div style="text-align: center; margin-top: 30px;">
+            <a href="{{bookingLink}}" style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">Book a Visit</a>
+          </div>
+        </div>
+        <div style="padding: 20px; background: #333; color: #999; text-align: center; font-size: 12px;">
+          <p style="margin: 5px 0;">{{organizationName}}</p>
+          <p style="margin: 5px 0;">{{organizationPhone}} | {{organizationEmail}}</p>
+        </div>
+      </div>
+    `,
+    variables: ['recipientName', 'purchaserName', 'message', 'amount', 'code', 'expiryNote', 'bookingLink', 'organizationName', 'organizationPhone', 'organizationEmail']
+  },
+  receipt: {
+    subject: 'Your {{documentType}} from {{organizationName}}',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">Thank You</h1>
+        </div>
+        <div style="padding: 40px 20px; background: #f7f7f7;">
+          <p style="font-size: 16px; color: #333;">Hi {{firstName}},</p>
+          <p style="font-size: 16px; color: #333;">Your itemized {{documentType}} for your visit on {{serviceDate}} is attached.</p>
+          <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <p style="margin: 10px 0;"><strong>Number:</strong> {{receiptNumber}}</p>
+            <p style="margin: 10px 0;"><strong>Total:</strong> {{total}}</p>
+            <p style="margin: 10px 0;"><strong>Paid:</strong> {{amountPaid}}</p>
+            <p style="margin: 10px 0;"><strong>Balance due:</strong> {{balanceDue}}</p>
+          </div>
+          <p style="font-size: 14px; color: #666;">Questions about your bill? Reply to this email or give us a call.</p>
+        </div>
+        <div style="padding: 20px; background: #333; color: #999; text-align: center; font-size: 12px;">
+          <p style="margin: 5px 0;">{{organizationName}}</p>
+          <p style="margin: 5px 0;">{{organizationPhone}} | {{organizationEmail}}</p>
+        </div>
+      </div>
+    `,
+    variables: ['firstName', 'documentType', 'serviceDate', 'receiptNumber', 'total', 'amountPaid', 'balanceDue', 'organizationName', 'organizationPhone', 'organizationEmail']
   }
 };
 
@@ -442,6 +497,12 @@ export async function sendEmailWithTemplate(options: {
   from?: string;
   fromName?: string;
   categories?: string[];
+  attachments?: Array<{
+    content: string;
+    filename: string;
+    type?: string;
+    disposition?: string;
+  }>;
 }): Promise<{
   success: boolean;
   messageId?: string;
@@ -468,6 +529,7 @@ export async function sendEmailWithTemplate(options: {
     text,
     from: options.from,
     fromName: options.fromName,
+    attachments: options.attachments,
     categories: options.categories || [options.templateName]
   });
 }
@@ -374,6 +374,59 @@ export async function createPaymentIntent(
   };
 }
 
+// Charge the customer's saved card without them present, e.g. a no-show fee.
+// Uses the default payment method, falling back to the most recently saved card.
+export async function chargeSavedPaymentMethod(
+  amount: number, // Amount should be in CENTS (e.g., $10.00 = 1000)
+  customerId: string,
+  metadata?: Record<string, string>,
+  connectAccountId?: string
+): Promise<Stripe.PaymentIntent> {
+  if (!stripe) throw new Error("Stripe not configured");
+
+  const requestOptions = connectAccountId ? { stripeAccount: connectAccountId } : undefined;
+
+  const customer = await stripe.customers.retrieve(customerId, requestOptions);
+  if (customer.deleted) throw new Error("Customer not found");
+
+  const defaultPaymentMethod = customer.invoice_settings?.default_payment_method;
+  let paymentMethodId = typeof defaultPaymentMethod === 'string' ? defaultPaymentMethod : defaultPaymentMethod?.id;
+  if (!paymentMethodId) {
+    const cards = await stripe.paymentMethods.list({ customer: customerId, type: 'card', limit: 1 }, requestOptions);
+    paymentMethodId = cards.data[0]?.id;
+  }
+  if (!paymentMethodId) throw new Error("No saved card on file");
+
+  return await stripe.paymentIntents.create({
+    amount: Math.round(amount), // Amount is already in cents, just round for safety
+    currency: "usd",
+    customer: customerId,
+    payment_method: paymentMethodId,
+    off_session: true,
+    confirm: true,
+    metadata,
+  }, requestOptions);
+}
+
+// Add credit to a customer's balance, which Stripe applies to their next invoice (e.g. membership dues).
+// A negative amount takes previously added credit back.
+export async function creditCustomerBalance(
+  amount: number, // Amount should be in CENTS (e.g., $10.00 = 1000)
+  customerId: string,
+  description: string,
+  connectAccountId?: string
+): Promise<Stripe.CustomerBalanceTransaction> {
+  if (!stripe) throw new Error("Stripe not configured");
+
+  const requestOptions = connectAccountId ? { stripeAccount: connectAccountId } : undefined;
+
+  // Stripe records credit as a negative balance
+  return await stripe.customers.createBalanceTransaction(customerId, {
+    amount: -Math.round(amount),
+    currency: "usd",
+    description,
+  }, requestOptions);
+}
 
 export async function transferFunds(
   amount: number, // Amount should be in CENTS (e.g., $10.00 = 1000)
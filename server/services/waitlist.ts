@@ -0,0 +1,185 @@
+import { storage } from "../storage";
+import { notificationService } from "./notifications";
+import { getBufferedWindow, getLocalTimeParts, type Service, type WaitlistOffer } from "@shared/schema";
+
+// A bookable slot that has opened up, e.g. from a canceled appointment
+export interface WaitlistSlot {
+  organizationId: string;
+  locationId: string;
+  staffId: string;
+  serviceId: string;
+  startTime: Date;
+  endTime: Date;
+  sourceAppointmentId?: string | null;
+}
+
+const DEFAULT_HOLD_MINUTES = 60;
+
+export class WaitlistService {
+  /**
+   * Offer a freed slot to the highest-priority waiting client who has not already been offered it.
+   * The slot is held for the location's waitlistHoldMinutes; returns null when nobody is left to offer it to
+   * or the slot has been booked in the meantime.
+   */
+  async offerSlot(slot: WaitlistSlot): Promise<WaitlistOffer | null> {
+    const location = await storage.getLocation(slot.locationId);
+    if (!location) return null;
+
+    // Nothing to offer once the slot has started or someone else has taken it
+    if (slot.startTime.getTime() <= Date.now() || await this.isSlotTaken(slot)) {
+      return null;
+    }
+
+    const timezone = location.timezone || 'America/New_York';
+    const slotDate = getLocalTimeParts(slot.startTime, timezone).date;
+    const candidates = await storage.getWaitingEntriesForSlot({
+      organizationId: slot.organizationId,
+      locationId: slot.locationId,
+      serviceId: slot.serviceId,
+      staffId: slot.staffId,
+      date: slotDate
+    });
+    const previousOffers = await storage.getWaitlistOffersForSlot(slot.staffId, slot.startTime);
+    if (previousOffers.some(offer => offer.status === 'pending')) {
+      return null;
+    }
+    const alreadyOffered = new Set(previousOffers.map(offer => offer.clientId));
+
+    for (const entry of candidates) {
+      if (alreadyOffered.has(entry.clientId)) continue;
+
+      // Offers are accepted online, so clients without a login are skipped
+      const client = await storage.getClient(entry.clientId);
+      if (!client?.userId) continue;
+
+      const holdMinutes = location.waitlistHoldMinutes || DEFAULT_HOLD_MINUTES;
+      const offer = await storage.createWaitlistOffer({
+        organizationId: slot.organizationId,
+        waitlistEntryId: entry.id,
+        clientId: entry.clientId,
+        locationId: slot.locationId,
+        staffId: slot.staffId,
+        serviceId: slot.serviceId,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        sourceAppointmentId: slot.sourceAppointmentId ?? null,
+        status: 'pending',
+        expiresAt: new Date(Date.now() + holdMinutes * 60 * 1000)
+      });
+      await storage.updateWaitlistEntry(entry.id, { status: 'offered' });
+
+      try {
+        const service = await storage.getService(slot.serviceId);
+        const when = slot.startTime.toLocaleString('en-US', {
+          weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: timezone
+        });
+        await notificationService.send({
+          userId: client.userId,
+          organizationId: slot.organizationId,
+          type: 'booking',
+          title: 'An Appointment Opened Up',
+          message: `A ${service?.name || 'appointment'} slot on ${when} at ${location.name} is available. We're holding it for you for ${holdMinutes} minutes.`,
+          data: {
+            waitlistOfferId: offer.id,
+            serviceId: slot.serviceId,
+            startTime: slot.startTime,
+            expiresAt: offer.expiresAt,
+            actionUrl: `/patient/booking`,
+            actionText: 'Claim Appointment'
+          },
+          channels: ['in_app', 'email', 'sms']
+        });
+      } catch (notifError) {
+        console.error('Failed to send waitlist offer notification:', notifError);
+        // The offer still stands and is visible on the booking page
+      }
+
+      console.log(`📋 [WAITLIST] Offered ${slot.startTime.toISOString()} with staff ${slot.staffId} to client ${entry.clientId}`);
+      return offer;
+    }
+
+    return null;
+  }
+
+  // Put the client back on the waitlist and move the slot on to the next person
+  async declineOffer(offer: WaitlistOffer): Promise<WaitlistOffer | null> {
+    const declined = await storage.updateWaitlistOffer(offer.id, { status: 'declined', respondedAt: new Date() });
+    if (!declined) return null;
+
+    await storage.updateWaitlistEntry(offer.waitlistEntryId, { status: 'waiting' });
+    await this.offerSlot(this.slotFromOffer(offer));
+    return declined;
+  }
+
+  // Expire offers whose hold window has passed and offer each slot to the next client in line
+  async expireOffers(): Promise<{ expired: number; reoffered: number }> {
+    const expiredOffers = await storage.getExpiredWaitlistOffers(new Date());
+    let expired = 0;
+    let reoffered = 0;
+
+    for (const offer of expiredOffers) {
+      const updated = await storage.updateWaitlistOffer(offer.id, { status: 'expired' });
+      if (!updated) continue;
+      expired++;
+
+      await storage.updateWaitlistEntry(offer.waitlistEntryId, { status: 'waiting' });
+      if (await this.offerSlot(this.slotFromOffer(offer))) {
+        reoffered++;
+      }
+    }
+
+    return { expired, reoffered };
+  }
+
+  // A slot is taken when the provider has an active booking overlapping it, including service buffers
+  async isSlotTaken(slot: WaitlistSlot): Promise<boolean> {
+    const service = await storage.getService(slot.serviceId);
+    const slotWindow = getBufferedWindow(slot.startTime, slot.endTime, service);
+    const appointments = await storage.getAppointmentsByStaff(slot.staffId, slot.organizationId, slot.startTime);
+
+    for (const apt of appointments) {
+      if (!['pending', 'scheduled', 'confirmed', 'in_progress', 'cancellation_requested'].includes(apt.status || '')) continue;
+      const aptService = apt.serviceId === slot.serviceId ? service : await storage.getService(apt.serviceId);
+      const aptWindow = getBufferedWindow(apt.startTime, apt.endTime, aptService);
+      if (slotWindow.start < aptWindow.end && slotWindow.end > aptWindow.start) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // A pending offer overlapping the slot, including service buffers; a held slot can only be booked by accepting its offer
+  async findHoldingOffer(
+    slot: { staffId: string; startTime: Date; endTime: Date },
+    service?: Service,
+    excludeOfferId?: string
+  ): Promise<WaitlistOffer | undefined> {
+    const slotWindow = getBufferedWindow(slot.startTime, slot.endTime, service);
+    const offers = await storage.getPendingWaitlistOffersByStaff(slot.staffId, new Date());
+
+    for (const offer of offers) {
+      if (offer.id === excludeOfferId) continue;
+      const offerService = offer.serviceId === service?.id ? service : await storage.getService(offer.serviceId);
+      const offerWindow = getBufferedWindow(offer.startTime, offer.endTime, offerService);
+      if (slotWindow.start < offerWindow.end && slotWindow.end > offerWindow.start) {
+        return offer;
+      }
+    }
+    return undefined;
+  }
+
+  private slotFromOffer(offer: WaitlistOffer): WaitlistSlot {
+    return {
+      organizationId: offer.organizationId,
+      locationId: offer.locationId,
+      staffId: offer.staffId,
+      serviceId: offer.serviceId,
+      startTime: offer.startTime,
+      endTime: offer.endTime,
+      sourceAppointmentId: offer.sourceAppointmentId
+    };
+  }
+}
+
+// Create singleton instance
+export const waitlistService = new WaitlistService();
@@ -2,7 +2,10 @@ import {
   users, organizations, subscriptionPlans, locations, staff, staffRoles, staffAvailability, staffServices,
   clients, clientLocations, services, appointments, memberships, membershipTiers, rewards, rewardOptions, 
   transactions, addOns, organizationAddOns, usageLogs, aiInsights, notifications, auditLogs, fileStorage, featureFlags,
-  messageTemplates, marketingCampaigns, campaignRecipients, passwordResetTokens,
+  messageTemplates, marketingCampaigns, campaignRecipients, passwordResetTokens, scheduledJobs, jobRuns, resources, staffScheduleExceptions, locationHoursExceptions,
+  waitlistEntries, waitlistOffers, appointmentSeries, giftCards, treatmentPackages, clientPackages, products,
+  productStock, stockMovements, purchaseOrders, purchaseOrderItems, serviceConsumables, timeClockEntries, payPeriods,
+  intakeForms, intakeSubmissions, consentForms, consentSignatures, chartTemplates, chartNotes, chartAddenda,
   type User, type InsertUser, type Organization, type InsertOrganization,
   type SubscriptionPlan, type InsertSubscriptionPlan, type Location, type InsertLocation,
   type Staff, type InsertStaff, type StaffRole, type InsertStaffRole,
@@ -16,10 +19,24 @@ import {
   type AuditLog, type InsertAuditLog, type FileStorage, type InsertFileStorage,
   type FeatureFlag, type InsertFeatureFlag,
   type MessageTemplate, type InsertMessageTemplate, type MarketingCampaign, type InsertMarketingCampaign,
-  type CampaignRecipient, type InsertCampaignRecipient, type PasswordResetToken, type InsertPasswordResetToken
+  type CampaignRecipient, type InsertCampaignRecipient, type PasswordResetToken, type InsertPasswordResetToken,
+  type ScheduledJob, type InsertScheduledJob, type JobRun, type InsertJobRun, type Resource, type InsertResource,
+  type StaffScheduleException, type InsertStaffScheduleException,
+  type LocationHoursException, type InsertLocationHoursException,
+  type AppointmentSeries, type InsertAppointmentSeries,
+  type WaitlistEntry, type InsertWaitlistEntry, type WaitlistOffer, type InsertWaitlistOffer,
+  type GiftCard, type InsertGiftCard,
+  type TreatmentPackage, type InsertTreatmentPackage, type ClientPackage, type InsertClientPackage,
+  type Product, type InsertProduct, type ProductStock, type StockMovement, type InsertStockMovement,
+  type PurchaseOrder, type InsertPurchaseOrder, type PurchaseOrderItem, type InsertPurchaseOrderItem,
+  type ServiceConsumable, type TimeClockEntry, type InsertTimeClockEntry, type PayPeriod, type InsertPayPeriod,
+  type IntakeForm, type InsertIntakeForm, type IntakeSubmission, type InsertIntakeSubmission,
+  type ConsentForm, type InsertConsentForm, type ConsentSignature, type InsertConsentSignature,
+  type ChartTemplate, type InsertChartTemplate, type ChartNote, type InsertChartNote, type ChartAddendum, type InsertChartAddendum,
+  PERMISSION_KEYS, type PermissionKey, getBufferedWindow, getStaffDaySchedule, getCreditRollover, getLocalTimeParts
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, gte, lte, like, count, sql, or, inArray } from "drizzle-orm";
+import { eq, and, desc, asc, gte, lte, gt, like, count, sql, or, inArray, isNull } from "drizzle-orm";
 
 export interface IStorage {
   // Users
@@ -66,6 +83,12 @@ export interface IStorage {
   createLocation(location: InsertLocation): Promise<Location>;
   updateLocation(id: string, updates: Partial<InsertLocation>): Promise<Location>;
 
+  // Location Hours Exceptions
+  getLocationHoursExceptions(locationId: string, fromDate?: string): Promise<LocationHoursException[]>;
+  getLocationHoursException(locationId: string, date: string): Promise<LocationHoursException | undefined>;
+  createLocationHoursException(exception: InsertLocationHoursException): Promise<LocationHoursException>;
+  deleteLocationHoursException(id: string, organizationId: string): Promise<boolean>;
+
   // Staff
   getStaffByOrganization(organizationId: string): Promise<Staff[]>;
   getStaffByLocation(locationId: string): Promise<Staff[]>;
@@ -84,12 +107,19 @@ export interface IStorage {
   createDefaultRolesForOrganization(organizationId: string): Promise<void>;
 
   // Staff Availability
+  getStaffAvailability(id: string): Promise<StaffAvailability | undefined>;
   getStaffAvailabilityByStaff(staffId: string): Promise<StaffAvailability[]>;
   getStaffAvailabilityByDay(staffId: string, dayOfWeek: number): Promise<StaffAvailability[]>;
   createStaffAvailability(availability: InsertStaffAvailability): Promise<StaffAvailability>;
   updateStaffAvailability(id: string, updates: Partial<InsertStaffAvailability>): Promise<StaffAvailability>;
   deleteStaffAvailability(id: string): Promise<boolean>;
-  getAvailableStaffForTimeSlot(organizationId: string, startTime: Date, endTime: Date): Promise<Staff[]>;
+  getAvailableStaffForTimeSlot(organizationId: string, startTime: Date, endTime: Date, service?: Service, timezone?: string): Promise<Staff[]>;
+
+  // Staff Schedule Exceptions
+  getStaffScheduleExceptions(staffId: string): Promise<StaffScheduleException[]>;
+  getStaffScheduleException(id: string): Promise<StaffScheduleException | undefined>;
+  createStaffScheduleException(exception: InsertStaffScheduleException): Promise<StaffScheduleException>;
+  deleteStaffScheduleException(id: string, organizationId: string): Promise<boolean>;
 
   // Staff Services
   getStaffServices(staffId: string): Promise<Service[]>;
@@ -112,6 +142,38 @@ export interface IStorage {
   getClientLocations(clientId: string): Promise<ClientLocation[]>;
   createClientLocation(clientLocation: InsertClientLocation): Promise<ClientLocation>;
 
+  // Intake Forms
+  getIntakeFormsByOrganization(organizationId: string): Promise<IntakeForm[]>;
+  getIntakeForm(id: string): Promise<IntakeForm | undefined>;
+  createIntakeForm(form: InsertIntakeForm): Promise<IntakeForm>;
+  updateIntakeForm(id: string, updates: Partial<InsertIntakeForm>, newVersion: boolean): Promise<IntakeForm>;
+  getIntakeSubmission(id: string): Promise<IntakeSubmission | undefined>;
+  getIntakeSubmissionsByClient(clientId: string): Promise<IntakeSubmission[]>;
+  createIntakeSubmission(submission: InsertIntakeSubmission): Promise<IntakeSubmission>;
+  completeIntakeSubmission(id: string, completion: Pick<InsertIntakeSubmission, "formVersion" | "sections" | "answers" | "flags">): Promise<IntakeSubmission | undefined>;
+
+  // Consent Forms (signatures are never updated or deleted)
+  getConsentFormsByOrganization(organizationId: string): Promise<ConsentForm[]>;
+  getConsentForm(id: string): Promise<ConsentForm | undefined>;
+  createConsentForm(form: InsertConsentForm): Promise<ConsentForm>;
+  updateConsentForm(id: string, updates: Partial<InsertConsentForm>, newVersion: boolean): Promise<ConsentForm>;
+  getConsentSignature(id: string): Promise<ConsentSignature | undefined>;
+  getConsentSignaturesByClient(clientId: string): Promise<ConsentSignature[]>;
+  createConsentSignature(signature: InsertConsentSignature): Promise<ConsentSignature>;
+
+  // Clinical Charts (signed notes are only changed through addenda)
+  getChartTemplatesByOrganization(organizationId: string): Promise<ChartTemplate[]>;
+  getChartTemplate(id: string): Promise<ChartTemplate | undefined>;
+  createChartTemplate(template: InsertChartTemplate): Promise<ChartTemplate>;
+  updateChartTemplate(id: string, updates: Partial<InsertChartTemplate>): Promise<ChartTemplate>;
+  getChartNoteByAppointment(appointmentId: string): Promise<ChartNote | undefined>;
+  getChartNotesByClient(clientId: string): Promise<ChartNote[]>;
+  createChartNote(note: InsertChartNote): Promise<ChartNote>;
+  updateChartNote(id: string, updates: Partial<InsertChartNote>): Promise<ChartNote | undefined>;
+  signChartNote(id: string, signedBy: string): Promise<ChartNote | undefined>;
+  getChartAddenda(chartNoteIds: string[]): Promise<ChartAddendum[]>;
+  createChartAddendum(addendum: InsertChartAddendum): Promise<ChartAddendum>;
+
   // Services
   getServicesByOrganization(organizationId: string): Promise<Service[]>;
   getServicesByLocation(locationId: string): Promise<Service[]>;
@@ -135,8 +197,46 @@ export interface IStorage {
   getAppointment(id: string): Promise<Appointment | undefined>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
   updateAppointment(id: string, organizationId: string, updates: Partial<InsertAppointment>): Promise<any>;
+  transitionAppointment(id: string, fromStatus: Appointment["status"], updates: Partial<InsertAppointment>): Promise<Appointment | undefined>;
+  getStalePendingAppointments(createdBefore: Date): Promise<Appointment[]>;
+  claimAppointmentCheckout(id: string, staleBefore: Date): Promise<Date | undefined>;
+  releaseAppointmentCheckout(id: string, startedAt: Date): Promise<void>;
   archiveAppointment(id: string): Promise<void>;
   unarchiveAppointment(id: string): Promise<void>;
+  getConflictingResourceAppointments(
+    organizationId: string,
+    resourceIds: string[],
+    startTime: Date,
+    endTime: Date,
+    excludeAppointmentId?: string
+  ): Promise<Appointment[]>;
+
+  // Appointment Series
+  getAppointmentSeries(id: string): Promise<AppointmentSeries | undefined>;
+  getAppointmentsBySeries(seriesId: string): Promise<Appointment[]>;
+  createAppointmentSeries(series: InsertAppointmentSeries): Promise<AppointmentSeries>;
+
+  // Resources
+  getResourcesByOrganization(organizationId: string): Promise<Resource[]>;
+  getResourcesByLocation(locationId: string): Promise<Resource[]>;
+  getResource(id: string): Promise<Resource | undefined>;
+  createResource(resource: InsertResource): Promise<Resource>;
+  updateResource(id: string, organizationId: string, updates: Partial<InsertResource>): Promise<Resource | undefined>;
+
+  // Waitlist
+  getWaitlistEntriesByOrganization(organizationId: string): Promise<WaitlistEntry[]>;
+  getWaitlistEntriesByClient(clientId: string): Promise<WaitlistEntry[]>;
+  getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  getWaitingEntriesForSlot(slot: { organizationId: string; locationId: string; serviceId: string; staffId: string; date: string }): Promise<WaitlistEntry[]>;
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  updateWaitlistEntry(id: string, updates: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined>;
+  getWaitlistOffer(id: string): Promise<WaitlistOffer | undefined>;
+  getWaitlistOffersByClient(clientId: string): Promise<WaitlistOffer[]>;
+  getWaitlistOffersForSlot(staffId: string, startTime: Date): Promise<WaitlistOffer[]>;
+  getExpiredWaitlistOffers(now: Date): Promise<WaitlistOffer[]>;
+  getPendingWaitlistOffersByStaff(staffId: string, now: Date): Promise<WaitlistOffer[]>;
+  createWaitlistOffer(offer: InsertWaitlistOffer): Promise<WaitlistOffer>;
+  updateWaitlistOffer(id: string, updates: Partial<InsertWaitlistOffer>, fromStatus?: WaitlistOffer["status"]): Promise<WaitlistOffer | undefined>;
 
   // Membership Tiers
   getMembershipTiersByOrganization(organizationId: string): Promise<MembershipTier[]>;
@@ -172,6 +272,82 @@ export interface IStorage {
   updateTransaction(id: string, updates: Partial<InsertTransaction>): Promise<Transaction>;
   updateTransactionByPaymentIntent(paymentIntentId: string, updates: Partial<InsertTransaction>): Promise<void>;
 
+  // Wallet - balance changes and their wallet_* transactions are always written together
+  getWalletTransactions(clientId: string): Promise<Transaction[]>;
+  applyWalletEntries(clientId: string, delta: number, entries: InsertTransaction[]): Promise<{ balance: string; transactions: Transaction[] } | undefined>;
+  completeWalletTopUp(transactionId: string, bonusAmount: number): Promise<{ balance: string; transactions: Transaction[] } | undefined>;
+  refundWalletPayments(appointmentId: string, description: string, amount?: number): Promise<{ balance: string; transactions: Transaction[] } | undefined>;
+
+  // Membership Credits - balance changes and their membership_credit_* transactions are always written together
+  getMembershipCreditTransactions(membershipId: string): Promise<Transaction[]>;
+  grantMembershipCredits(membershipId: string, stripeInvoiceId: string | null): Promise<{ balance: string; transactions: Transaction[] } | undefined>;
+  applyMembershipCredits(membershipId: string, amount: number, redemption: InsertTransaction): Promise<{ balance: string; transaction: Transaction } | undefined>;
+  refundMembershipCredits(appointmentId: string, description: string, amount?: number): Promise<{ balance: string; transaction: Transaction } | undefined>;
+
+  // Gift Cards - balance changes and their gift_card_* transactions are always written together
+  getGiftCardsByOrganization(organizationId: string): Promise<GiftCard[]>;
+  getGiftCard(id: string): Promise<GiftCard | undefined>;
+  getGiftCardByCode(code: string): Promise<GiftCard | undefined>;
+  getExpiredGiftCards(now: Date): Promise<GiftCard[]>;
+  getGiftCardTransactions(organizationId: string): Promise<Transaction[]>;
+  createGiftCard(card: InsertGiftCard): Promise<GiftCard>;
+  activateGiftCard(id: string, expiresAt: Date | null, sale: InsertTransaction): Promise<GiftCard | undefined>;
+  redeemGiftCard(id: string, amount: number, redemption: InsertTransaction): Promise<{ giftCard: GiftCard; transaction: Transaction } | undefined>;
+  closeGiftCard(id: string, status: "expired" | "void", entry: Omit<InsertTransaction, "amount">): Promise<{ giftCard: GiftCard; transaction: Transaction } | undefined>;
+  reverseGiftCardRedemption(transactionId: string, amount?: number): Promise<GiftCard | undefined>;
+
+  // Treatment Packages - a completed appointment uses at most one session, linked via appointments.clientPackageId
+  getTreatmentPackagesByOrganization(organizationId: string): Promise<TreatmentPackage[]>;
+  getTreatmentPackage(id: string): Promise<TreatmentPackage | undefined>;
+  createTreatmentPackage(treatmentPackage: InsertTreatmentPackage): Promise<TreatmentPackage>;
+  updateTreatmentPackage(id: string, organizationId: string, updates: Partial<InsertTreatmentPackage>): Promise<TreatmentPackage | undefined>;
+  getClientPackagesByClient(clientId: string): Promise<ClientPackage[]>;
+  getClientPackage(id: string): Promise<ClientPackage | undefined>;
+  createClientPackage(clientPackage: InsertClientPackage): Promise<ClientPackage>;
+  activateClientPackage(id: string, expiresAt: Date | null, sale: InsertTransaction): Promise<ClientPackage | undefined>;
+  useClientPackageSession(appointment: Appointment): Promise<ClientPackage | undefined>;
+  restoreClientPackageSession(appointmentId: string): Promise<ClientPackage | undefined>;
+
+  // Products
+  getProductsByOrganization(organizationId: string): Promise<Product[]>;
+  getProduct(id: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct): Promise<Product>;
+  updateProduct(id: string, organizationId: string, updates: Partial<InsertProduct>): Promise<Product | undefined>;
+
+  // Inventory - stock is per location and only counted for products with trackInventory set
+  getProductStockByOrganization(organizationId: string): Promise<ProductStock[]>;
+  getStockMovements(organizationId: string, filters?: { productId?: string; locationId?: string }, limit?: number): Promise<StockMovement[]>;
+  moveProductStock(movements: InsertStockMovement[], allowNegative?: boolean): Promise<ProductStock[] | undefined>;
+  countProductStock(count: InsertStockMovement): Promise<ProductStock>;
+  claimLowStockAlert(stockId: string): Promise<ProductStock | undefined>;
+  recordServiceUsage(appointment: Appointment): Promise<ProductStock[]>;
+  restoreServiceUsage(appointmentId: string): Promise<ProductStock[]>;
+
+  // Purchase Orders
+  getPurchaseOrdersByOrganization(organizationId: string): Promise<PurchaseOrder[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  getPurchaseOrderItems(purchaseOrderIds: string[]): Promise<PurchaseOrderItem[]>;
+  createPurchaseOrder(order: InsertPurchaseOrder, items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]): Promise<PurchaseOrder>;
+  receivePurchaseOrder(id: string, received: { itemId: string; quantityReceived: number }[], receivedBy: string): Promise<{ order: PurchaseOrder; stock: ProductStock[] } | undefined>;
+  cancelPurchaseOrder(id: string, organizationId: string): Promise<PurchaseOrder | undefined>;
+
+  // Service Consumables
+  getServiceConsumables(serviceId: string): Promise<ServiceConsumable[]>;
+  setServiceConsumables(serviceId: string, items: { productId: string; quantity: number }[]): Promise<ServiceConsumable[]>;
+
+  // Time Clock
+  getTimeClockEntries(organizationId: string, from: Date, to: Date): Promise<TimeClockEntry[]>;
+  getOpenTimeClockEntry(staffId: string): Promise<TimeClockEntry | undefined>;
+  clockIn(entry: InsertTimeClockEntry): Promise<TimeClockEntry | undefined>;
+  clockOut(staffId: string, clockOut: Date): Promise<TimeClockEntry | undefined>;
+
+  // Pay Periods
+  getPayPeriodsByOrganization(organizationId: string): Promise<PayPeriod[]>;
+  getPayPeriod(id: string): Promise<PayPeriod | undefined>;
+  createPayPeriod(period: InsertPayPeriod): Promise<PayPeriod>;
+  lockPayPeriod(id: string, organizationId: string, statements: unknown, lockedBy: string): Promise<PayPeriod | undefined>;
+  unlockPayPeriod(id: string, organizationId: string): Promise<PayPeriod | undefined>;
+
   // AI Insights
   getAiInsightsByOrganization(organizationId: string): Promise<AiInsight[]>;
   createAiInsight(insight: InsertAiInsight): Promise<AiInsight>;
@@ -188,9 +364,20 @@ export interface IStorage {
   createUsageLog(log: InsertUsageLog): Promise<UsageLog>;
   getUsageLogsByOrganization(organizationId: string, feature?: string): Promise<UsageLog[]>;
 
+  // File Storage (the file bytes live in the file store; these are the records)
+  getFile(id: string): Promise<FileStorage | undefined>;
+  getFilesByClient(clientId: string, categories?: string[]): Promise<FileStorage[]>;
+  createFile(file: InsertFileStorage & { id: string }): Promise<FileStorage>;
+  updateFile(id: string, updates: Partial<InsertFileStorage>): Promise<FileStorage>;
+  deleteFile(id: string): Promise<boolean>;
+  unpublishClientFiles(clientId: string): Promise<number>;
+  getOrganizationsWithDocumentRetention(): Promise<Organization[]>;
+  getDocumentsUploadedBefore(organizationId: string, category: string, before: Date): Promise<FileStorage[]>;
+
   // Audit Logs
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogsByOrganization(organizationId: string): Promise<AuditLog[]>;
+  getAuditLogsByResource(resource: string, resourceId: string): Promise<AuditLog[]>;
 
   // Message Templates
   getMessageTemplatesByOrganization(organizationId: string): Promise<MessageTemplate[]>;
@@ -205,15 +392,68 @@ export interface IStorage {
   getMarketingCampaignsByOrganization(organizationId: string): Promise<MarketingCampaign[]>;
   getMarketingCampaign(id: string): Promise<MarketingCampaign | undefined>;
   createMarketingCampaign(campaign: InsertMarketingCampaign): Promise<MarketingCampaign>;
-  updateMarketingCampaign(id: string, updates: Partial<InsertMarketingCampaign>): Promise<MarketingCampaign>;
+  updateMarketingCampaign(id: string, updates: Partial<InsertMarketingCampaign> & Partial<Pick<MarketingCampaign, 'sentDate' | 'sentCount' | 'successCount' | 'failedCount'>>): Promise<MarketingCampaign>;
   deleteMarketingCampaign(id: string): Promise<boolean>;
   getCampaignAnalytics(campaignId: string): Promise<any>;
+  getDueMarketingCampaigns(now: Date, staleBefore: Date): Promise<MarketingCampaign[]>;
+  claimMarketingCampaign(id: string, staleBefore: Date): Promise<MarketingCampaign | undefined>;
 
   // Campaign Recipients
   getCampaignRecipients(campaignId: string): Promise<CampaignRecipient[]>;
   createCampaignRecipient(recipient: InsertCampaignRecipient): Promise<CampaignRecipient>;
   updateCampaignRecipient(id: string, updates: Partial<InsertCampaignRecipient>): Promise<CampaignRecipient>;
   bulkCreateCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<CampaignRecipient[]>;
+
+  // Scheduled Jobs
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  getScheduledJob(name: string): Promise<ScheduledJob | undefined>;
+  ensureScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob>;
+  updateScheduledJob(name: string, updates: Partial<InsertScheduledJob>): Promise<ScheduledJob | undefined>;
+  acquireJobLease(name: string, instanceId: string, leaseMs: number, force?: boolean): Promise<ScheduledJob | undefined>;
+  releaseJobLease(name: string, instanceId: string, updates: Partial<InsertScheduledJob>): Promise<void>;
+
+  // Job Runs
+  getJobRuns(options?: { jobName?: string; limit?: number }): Promise<JobRun[]>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  updateJobRun(id: string, updates: Partial<InsertJobRun>): Promise<JobRun>;
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Applies stock movements inside a transaction and records each one. Products without trackInventory are skipped.
+// Undefined when a decrement would leave a location below zero and allowNegative isn't set; the caller rolls back.
+async function applyStockMovements(tx: DbTransaction, movements: InsertStockMovement[], allowNegative: boolean): Promise<ProductStock[] | undefined> {
+  const updated: ProductStock[] = [];
+  for (const movement of movements) {
+    const [product] = await tx.select().from(products).where(eq(products.id, movement.productId));
+    if (!product?.trackInventory) continue;
+
+    await tx.insert(productStock)
+      .values({ organizationId: movement.organizationId, productId: movement.productId, locationId: movement.locationId })
+      .onConflictDoNothing({ target: [productStock.productId, productStock.locationId] });
+
+    const newQuantity = sql`${productStock.quantity} + ${movement.quantity}`;
+    const [stock] = await tx.update(productStock)
+      .set({
+        quantity: newQuantity,
+        // A restock above the reorder level re-arms the low-stock alert
+        lowStockAlertedAt: product.reorderLevel === null
+          ? null
+          : sql`case when ${newQuantity} > ${product.reorderLevel} then null else ${productStock.lowStockAlertedAt} end`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(productStock.productId, movement.productId),
+        eq(productStock.locationId, movement.locationId),
+        allowNegative || movement.quantity >= 0 ? undefined : gte(productStock.quantity, -movement.quantity)
+      ))
+      .returning();
+    if (!stock) return undefined;
+
+    await tx.insert(stockMovements).values(movement);
+    updated.push(stock);
+  }
+  return updated;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -379,6 +619,35 @@ export class DatabaseStorage implements IStorage {
     return location;
   }
 
+  // Location Hours Exceptions
+  async getLocationHoursExceptions(locationId: string, fromDate?: string): Promise<LocationHoursException[]> {
+    const conditions = [eq(locationHoursExceptions.locationId, locationId)];
+    if (fromDate) {
+      conditions.push(gte(locationHoursExceptions.date, fromDate));
+    }
+    return await db.select().from(locationHoursExceptions)
+      .where(and(...conditions))
+      .orderBy(asc(locationHoursExceptions.date));
+  }
+
+  async getLocationHoursException(locationId: string, date: string): Promise<LocationHoursException | undefined> {
+    const [exception] = await db.select().from(locationHoursExceptions)
+      .where(and(eq(locationHoursExceptions.locationId, locationId), eq(locationHoursExceptions.date, date)));
+    return exception || undefined;
+  }
+
+  async createLocationHoursException(insertException: InsertLocationHoursException): Promise<LocationHoursException> {
+    const [exception] = await db.insert(locationHoursExceptions).values(insertException).returning();
+    return exception;
+  }
+
+  async deleteLocationHoursException(id: string, organizationId: string): Promise<boolean> {
+    const deleted = await db.delete(locationHoursExceptions)
+      .where(and(eq(locationHoursExceptions.id, id), eq(locationHoursExceptions.organizationId, organizationId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
   // Staff
   async getStaffByOrganization(organizationId: string): Promise<Staff[]> {
     return await db.select().from(staff)
@@ -470,84 +739,53 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createDefaultRolesForOrganization(organizationId: string): Promise<void> {
+    const grant = (...keys: PermissionKey[]) => Object.fromEntries(keys.map(key => [key, true]));
     const defaultRoles = [
       {
         name: "Clinic Admin",
         organizationId,
-        permissions: {
-          appointments: { view: true, create: true, edit: true, cancel: true },
-          clients: { view: true, create: true, edit: true, delete: true },
-          payments: { process: true, refund: true, viewReports: true },
-          services: { view: true, create: true, edit: true, setPricing: true },
-          products: { manageInventory: true, sell: true },
-          marketing: { sendCampaigns: true, viewAnalytics: true },
-          staff: { manage: true, viewSchedules: true }
-        }
+        permissions: grant(...PERMISSION_KEYS)
       },
       {
         name: "Injector",
         organizationId,
-        permissions: {
-          appointments: { view: true, create: true, edit: true, cancel: true },
-          clients: { view: true, create: true, edit: true, delete: false },
-          payments: { process: true, refund: false, viewReports: false },
-          services: { view: true, create: false, edit: false, setPricing: false },
-          products: { manageInventory: false, sell: true },
-          marketing: { sendCampaigns: false, viewAnalytics: false },
-          staff: { manage: false, viewSchedules: true }
-        }
+        permissions: grant(
+          "appointments.view", "appointments.create", "appointments.edit", "appointments.cancel",
+          "clients.view", "clients.create", "clients.edit",
+          "payments.process", "services.view", "products.view", "memberships.view", "rewards.view"
+        )
       },
       {
         name: "Aesthetician",
         organizationId,
-        permissions: {
-          appointments: { view: true, create: true, edit: true, cancel: true },
-          clients: { view: true, create: true, edit: true, delete: false },
-          payments: { process: true, refund: false, viewReports: false },
-          services: { view: true, create: false, edit: false, setPricing: false },
-          products: { manageInventory: false, sell: true },
-          marketing: { sendCampaigns: false, viewAnalytics: false },
-          staff: { manage: false, viewSchedules: true }
-        }
+        permissions: grant(
+          "appointments.view", "appointments.create", "appointments.edit", "appointments.cancel",
+          "clients.view", "clients.create", "clients.edit",
+          "payments.process", "services.view", "products.view", "memberships.view", "rewards.view"
+        )
       },
       {
         name: "Nail Technician",
         organizationId,
-        permissions: {
-          appointments: { view: true, create: true, edit: true, cancel: true },
-          clients: { view: true, create: true, edit: false, delete: false },
-          payments: { process: false, refund: false, viewReports: false },
-          services: { view: true, create: false, edit: false, setPricing: false },
-          products: { manageInventory: false, sell: false },
-          marketing: { sendCampaigns: false, viewAnalytics: false },
-          staff: { manage: false, viewSchedules: true }
-        }
+        permissions: grant(
+          "appointments.view", "appointments.create", "appointments.edit", "appointments.cancel",
+          "clients.view", "clients.create",
+          "services.view"
+        )
       },
       {
         name: "Receptionist",
         organizationId,
-        permissions: {
-          appointments: { view: true, create: true, edit: true, cancel: true },
-          clients: { view: true, create: true, edit: true, delete: false },
-          payments: { process: false, refund: false, viewReports: false },
-          services: { view: true, create: false, edit: false, setPricing: false },
-          products: { manageInventory: false, sell: false },
-          marketing: { sendCampaigns: false, viewAnalytics: false },
-          staff: { manage: false, viewSchedules: true }
-        }
+        permissions: grant(
+          "appointments.view", "appointments.create", "appointments.edit", "appointments.cancel",
+          "clients.view", "clients.create", "clients.edit",
+          "services.view", "memberships.view", "rewards.view"
+        )
       },
       {
         name: "Manager",
         organizationId,
-        permissions: {
-          appointments: { view: true, create: true, edit: true, cancel: true },
-          clients: { view: true, create: true, edit: true, delete: true },
-          payments: { process: true, refund: true, viewReports: true },
-          services: { view: true, create: true, edit: true, setPricing: true },
-          products: { manageInventory: true, sell: true },
-          marketing: { sendCampaigns: true, viewAnalytics: true },
-          staff: { manage: true, viewSchedules: true }
-        }
+        permissions: grant(...PERMISSION_KEYS)
       }
     ];
 
@@ -557,6 +795,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Staff Availability
+  async getStaffAvailability(id: string): Promise<StaffAvailability | undefined> {
+    const [availability] = await db.select().from(staffAvailability).where(eq(staffAvailability.id, id));
+    return availability || undefined;
+  }
+
   async getStaffAvailabilityByStaff(staffId: string): Promise<StaffAvailability[]> {
     return await db.select().from(staffAvailability)
       .where(eq(staffAvailability.staffId, staffId))
@@ -587,30 +830,45 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
-  async getAvailableStaffForTimeSlot(organizationId: string, startTime: Date, endTime: Date): Promise<Staff[]> {
-    const dayOfWeek = startTime.getDay();
-    const startTimeStr = `${String(startTime.getHours()).padStart(2, '0')}:${String(startTime.getMinutes()).padStart(2, '0')}`;
-    const endTimeStr = `${String(endTime.getHours()).padStart(2, '0')}:${String(endTime.getMinutes()).padStart(2, '0')}`;
+  // Weekly hours and schedule exceptions are wall-clock times at the location, so the slot is compared in its timezone
+  async getAvailableStaffForTimeSlot(organizationId: string, startTime: Date, endTime: Date, service?: Service, timezone = 'America/New_York'): Promise<Staff[]> {
+    const localStart = getLocalTimeParts(startTime, timezone);
+    const localEnd = getLocalTimeParts(endTime, timezone);
+    const dayOfWeek = localStart.dayOfWeek;
+    const startTimeStr = localStart.time;
+    const endTimeStr = localEnd.date === localStart.date ? localEnd.time : '24:00';
+    const dateStr = localStart.date;
 
     // Get all staff for the organization
     const allStaff = await this.getStaffByOrganization(organizationId);
     
+    // Compare buffered windows so setup/cleanup time on either side is respected
+    const requested = getBufferedWindow(startTime, endTime, service);
+    const servicesById = new Map((await this.getServicesByOrganization(organizationId)).map(s => [s.id, s]));
+    
     // Filter staff based on availability
     const availableStaff: Staff[] = [];
     
     for (const staffMember of allStaff) {
       const availability = await this.getStaffAvailabilityByDay(staffMember.id, dayOfWeek);
+      const daySchedule = getStaffDaySchedule(await this.getStaffScheduleExceptions(staffMember.id), dateStr, dayOfWeek);
       
-      // Check if staff is available during the requested time slot
-      const isAvailable = availability.some(slot => {
-        return slot.startTime <= startTimeStr && slot.endTime >= endTimeStr;
-      });
+      // Check if staff is available during the requested time slot:
+      // inside a weekly window or extra shift, and not on time off or a break
+      const workingWindows = [
+        ...availability.map(slot => ({ start: slot.startTime, end: slot.endTime })),
+        ...daySchedule.extraShifts
+      ];
+      const isAvailable = !daySchedule.offAllDay &&
+        workingWindows.some(window => window.start <= startTimeStr && window.end >= endTimeStr) &&
+        !daySchedule.blocked.some(window => window.start < endTimeStr && window.end > startTimeStr);
       
       if (isAvailable) {
         // Check if staff has any conflicting appointments (scoped to organization)
         const appointments = await this.getAppointmentsByStaff(staffMember.id, organizationId, startTime);
         const hasConflict = appointments.some(apt => {
-          return (apt.startTime < endTime && apt.endTime > startTime) && 
+          const existing = getBufferedWindow(apt.startTime, apt.endTime, servicesById.get(apt.serviceId));
+          return (existing.start < requested.end && existing.end > requested.start) && 
                  apt.status !== 'canceled';
         });
         
@@ -623,6 +881,30 @@ export class DatabaseStorage implements IStorage {
     return availableStaff;
   }
 
+  // Staff Schedule Exceptions
+  async getStaffScheduleExceptions(staffId: string): Promise<StaffScheduleException[]> {
+    return await db.select().from(staffScheduleExceptions)
+      .where(eq(staffScheduleExceptions.staffId, staffId))
+      .orderBy(asc(staffScheduleExceptions.startDate), asc(staffScheduleExceptions.startTime));
+  }
+
+  async getStaffScheduleException(id: string): Promise<StaffScheduleException | undefined> {
+    const [exception] = await db.select().from(staffScheduleExceptions).where(eq(staffScheduleExceptions.id, id));
+    return exception || undefined;
+  }
+
+  async createStaffScheduleException(insertException: InsertStaffScheduleException): Promise<StaffScheduleException> {
+    const [exception] = await db.insert(staffScheduleExceptions).values(insertException).returning();
+    return exception;
+  }
+
+  async deleteStaffScheduleException(id: string, organizationId: string): Promise<boolean> {
+    const deleted = await db.delete(staffScheduleExceptions)
+      .where(and(eq(staffScheduleExceptions.id, id), eq(staffScheduleExceptions.organizationId, organizationId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
   // Staff Services
   async getStaffServices(staffId: string): Promise<Service[]> {
     const staffServiceLinks = await db.select()
@@ -724,6 +1006,180 @@ export class DatabaseStorage implements IStorage {
     return clientLocation;
   }
 
+  // Intake Forms
+  async getIntakeFormsByOrganization(organizationId: string): Promise<IntakeForm[]> {
+    return await db.select().from(intakeForms)
+      .where(eq(intakeForms.organizationId, organizationId))
+      .orderBy(asc(intakeForms.name));
+  }
+
+  async getIntakeForm(id: string): Promise<IntakeForm | undefined> {
+    const [form] = await db.select().from(intakeForms).where(eq(intakeForms.id, id));
+    return form || undefined;
+  }
+
+  async createIntakeForm(form: InsertIntakeForm): Promise<IntakeForm> {
+    const [created] = await db.insert(intakeForms).values(form).returning();
+    return created;
+  }
+
+  async updateIntakeForm(id: string, updates: Partial<InsertIntakeForm>, newVersion: boolean): Promise<IntakeForm> {
+    const [form] = await db.update(intakeForms)
+      .set({
+        ...updates,
+        ...(newVersion ? { version: sql`${intakeForms.version} + 1` } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(intakeForms.id, id))
+      .returning();
+    return form;
+  }
+
+  async getIntakeSubmission(id: string): Promise<IntakeSubmission | undefined> {
+    const [submission] = await db.select().from(intakeSubmissions).where(eq(intakeSubmissions.id, id));
+    return submission || undefined;
+  }
+
+  async getIntakeSubmissionsByClient(clientId: string): Promise<IntakeSubmission[]> {
+    return await db.select().from(intakeSubmissions)
+      .where(eq(intakeSubmissions.clientId, clientId))
+      .orderBy(desc(intakeSubmissions.requestedAt));
+  }
+
+  async createIntakeSubmission(submission: InsertIntakeSubmission): Promise<IntakeSubmission> {
+    const [created] = await db.insert(intakeSubmissions).values(submission).returning();
+    return created;
+  }
+
+  // Returns undefined when the submission was already completed
+  async completeIntakeSubmission(
+    id: string,
+    completion: Pick<InsertIntakeSubmission, "formVersion" | "sections" | "answers" | "flags">
+  ): Promise<IntakeSubmission | undefined> {
+    const [submission] = await db.update(intakeSubmissions)
+      .set({ ...completion, status: "completed", submittedAt: new Date() })
+      .where(and(eq(intakeSubmissions.id, id), eq(intakeSubmissions.status, "pending")))
+      .returning();
+    return submission || undefined;
+  }
+
+  // Consent Forms
+  async getConsentFormsByOrganization(organizationId: string): Promise<ConsentForm[]> {
+    return await db.select().from(consentForms)
+      .where(eq(consentForms.organizationId, organizationId))
+      .orderBy(asc(consentForms.name));
+  }
+
+  async getConsentForm(id: string): Promise<ConsentForm | undefined> {
+    const [form] = await db.select().from(consentForms).where(eq(consentForms.id, id));
+    return form || undefined;
+  }
+
+  async createConsentForm(form: InsertConsentForm): Promise<ConsentForm> {
+    const [created] = await db.insert(consentForms).values(form).returning();
+    return created;
+  }
+
+  async updateConsentForm(id: string, updates: Partial<InsertConsentForm>, newVersion: boolean): Promise<ConsentForm> {
+    const [form] = await db.update(consentForms)
+      .set({
+        ...updates,
+        ...(newVersion ? { version: sql`${consentForms.version} + 1` } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(consentForms.id, id))
+      .returning();
+    return form;
+  }
+
+  async getConsentSignature(id: string): Promise<ConsentSignature | undefined> {
+    const [signature] = await db.select().from(consentSignatures).where(eq(consentSignatures.id, id));
+    return signature || undefined;
+  }
+
+  async getConsentSignaturesByClient(clientId: string): Promise<ConsentSignature[]> {
+    return await db.select().from(consentSignatures)
+      .where(eq(consentSignatures.clientId, clientId))
+      .orderBy(desc(consentSignatures.signedAt));
+  }
+
+  async createConsentSignature(signature: InsertConsentSignature): Promise<ConsentSignature> {
+    const [created] = await db.insert(consentSignatures).values(signature).returning();
+    return created;
+  }
+
+  // Clinical Charts
+  async getChartTemplatesByOrganization(organizationId: string): Promise<ChartTemplate[]> {
+    return await db.select().from(chartTemplates)
+      .where(eq(chartTemplates.organizationId, organizationId))
+      .orderBy(asc(chartTemplates.name));
+  }
+
+  async getChartTemplate(id: string): Promise<ChartTemplate | undefined> {
+    const [template] = await db.select().from(chartTemplates).where(eq(chartTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createChartTemplate(template: InsertChartTemplate): Promise<ChartTemplate> {
+    const [created] = await db.insert(chartTemplates).values(template).returning();
+    return created;
+  }
+
+  async updateChartTemplate(id: string, updates: Partial<InsertChartTemplate>): Promise<ChartTemplate> {
+    const [template] = await db.update(chartTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(chartTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async getChartNoteByAppointment(appointmentId: string): Promise<ChartNote | undefined> {
+    const [note] = await db.select().from(chartNotes).where(eq(chartNotes.appointmentId, appointmentId));
+    return note || undefined;
+  }
+
+  async getChartNotesByClient(clientId: string): Promise<ChartNote[]> {
+    return await db.select().from(chartNotes)
+      .where(eq(chartNotes.clientId, clientId))
+      .orderBy(desc(chartNotes.createdAt));
+  }
+
+  async createChartNote(note: InsertChartNote): Promise<ChartNote> {
+    const [created] = await db.insert(chartNotes).values(note).returning();
+    return created;
+  }
+
+  // Returns undefined when the chart was already signed
+  async updateChartNote(id: string, updates: Partial<InsertChartNote>): Promise<ChartNote | undefined> {
+    const [note] = await db.update(chartNotes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(chartNotes.id, id), eq(chartNotes.status, "draft")))
+      .returning();
+    return note || undefined;
+  }
+
+  // Returns undefined when the chart was already signed
+  async signChartNote(id: string, signedBy: string): Promise<ChartNote | undefined> {
+    const now = new Date();
+    const [note] = await db.update(chartNotes)
+      .set({ status: "signed", signedBy, signedAt: now, updatedAt: now })
+      .where(and(eq(chartNotes.id, id), eq(chartNotes.status, "draft")))
+      .returning();
+    return note || undefined;
+  }
+
+  async getChartAddenda(chartNoteIds: string[]): Promise<ChartAddendum[]> {
+    if (chartNoteIds.length === 0) return [];
+    return await db.select().from(chartAddenda)
+      .where(inArray(chartAddenda.chartNoteId, chartNoteIds))
+      .orderBy(asc(chartAddenda.createdAt));
+  }
+
+  async createChartAddendum(addendum: InsertChartAddendum): Promise<ChartAddendum> {
+    const [created] = await db.insert(chartAddenda).values(addendum).returning();
+    return created;
+  }
+
   // Services
   async getServicesByOrganization(organizationId: string): Promise<Service[]> {
     return await db.select().from(services)
@@ -808,7 +1264,12 @@ export class DatabaseStorage implements IStorage {
         privateNotes: appointments.privateNotes,
         totalAmount: appointments.totalAmount,
         depositPaid: appointments.depositPaid,
+        giftCardPaid: appointments.giftCardPaid,
         remindersSent: appointments.remindersSent,
+        followUpSentAt: appointments.followUpSentAt,
+        resourceIds: appointments.resourceIds,
+        seriesId: appointments.seriesId,
+        seriesIndex: appointments.seriesIndex,
         archived: appointments.archived,
         createdAt: appointments.createdAt,
         clientName: sql<string>`CONCAT(${clients.firstName}, ' ', ${clients.lastName})`,
@@ -910,7 +1371,12 @@ export class DatabaseStorage implements IStorage {
         privateNotes: appointments.privateNotes,
         totalAmount: appointments.totalAmount,
         depositPaid: appointments.depositPaid,
+        giftCardPaid: appointments.giftCardPaid,
         remindersSent: appointments.remindersSent,
+        followUpSentAt: appointments.followUpSentAt,
+        resourceIds: appointments.resourceIds,
+        seriesId: appointments.seriesId,
+        seriesIndex: appointments.seriesIndex,
         archived: appointments.archived,
         createdAt: appointments.createdAt,
         clientName: sql<string>`CONCAT(${clients.firstName}, ' ', ${clients.lastName})`,
@@ -927,6 +1393,42 @@ export class DatabaseStorage implements IStorage {
     return enrichedAppointment;
   }
 
+  // Only updates an appointment still in fromStatus, so two requests racing on the same booking can't both act on it
+  async transitionAppointment(id: string, fromStatus: Appointment["status"], updates: Partial<InsertAppointment>): Promise<Appointment | undefined> {
+    const [appointment] = await db.update(appointments)
+      .set(updates)
+      .where(and(eq(appointments.id, id), eq(appointments.status, fromStatus!)))
+      .returning();
+    return appointment || undefined;
+  }
+
+  // Online bookings still waiting on their card payment
+  async getStalePendingAppointments(createdBefore: Date): Promise<Appointment[]> {
+    return await db.select().from(appointments)
+      .where(and(eq(appointments.status, "pending"), lte(appointments.createdAt, createdBefore)));
+  }
+
+  // Single conditional UPDATE so only one checkout of a visit runs at a time; an interrupted one can be taken over once
+  // stale. Returns the claim's start time, which releasing it needs.
+  async claimAppointmentCheckout(id: string, staleBefore: Date): Promise<Date | undefined> {
+    const startedAt = new Date();
+    const [appointment] = await db.update(appointments)
+      .set({ checkoutStartedAt: startedAt })
+      .where(and(
+        eq(appointments.id, id),
+        or(isNull(appointments.checkoutStartedAt), lte(appointments.checkoutStartedAt, staleBefore))
+      ))
+      .returning();
+    return appointment ? startedAt : undefined;
+  }
+
+  // Only releases the claim it was given, not one a later checkout took over
+  async releaseAppointmentCheckout(id: string, startedAt: Date): Promise<void> {
+    await db.update(appointments)
+      .set({ checkoutStartedAt: null })
+      .where(and(eq(appointments.id, id), eq(appointments.checkoutStartedAt, startedAt)));
+  }
+
   async archiveAppointment(id: string): Promise<void> {
     await db.update(appointments).set({ archived: true }).where(eq(appointments.id, id));
   }
@@ -935,6 +1437,170 @@ export class DatabaseStorage implements IStorage {
     await db.update(appointments).set({ archived: false }).where(eq(appointments.id, id));
   }
 
+  // Active appointments overlapping [startTime, endTime) that hold any of the given resources
+  async getConflictingResourceAppointments(
+    organizationId: string,
+    resourceIds: string[],
+    startTime: Date,
+    endTime: Date,
+    excludeAppointmentId?: string
+  ): Promise<Appointment[]> {
+    if (resourceIds.length === 0) {
+      return [];
+    }
+
+    const conditions = [
+      eq(appointments.organizationId, organizationId),
+      sql`${appointments.startTime} < ${endTime}`,
+      sql`${appointments.endTime} > ${startTime}`,
+      sql`${appointments.status} NOT IN ('canceled', 'completed', 'no_show')`,
+      sql`${appointments.resourceIds} ?| array[${sql.join(resourceIds.map(id => sql`${id}`), sql`, `)}]::text[]`
+    ];
+
+    if (excludeAppointmentId) {
+      conditions.push(sql`${appointments.id} <> ${excludeAppointmentId}`);
+    }
+
+    return await db.select().from(appointments)
+      .where(and(...conditions))
+      .orderBy(asc(appointments.startTime));
+  }
+
+  // Appointment Series
+  async getAppointmentSeries(id: string): Promise<AppointmentSeries | undefined> {
+    const [series] = await db.select().from(appointmentSeries).where(eq(appointmentSeries.id, id));
+    return series || undefined;
+  }
+
+  async getAppointmentsBySeries(seriesId: string): Promise<Appointment[]> {
+    return await db.select().from(appointments)
+      .where(eq(appointments.seriesId, seriesId))
+      .orderBy(asc(appointments.seriesIndex));
+  }
+
+  async createAppointmentSeries(insertSeries: InsertAppointmentSeries): Promise<AppointmentSeries> {
+    const [series] = await db.insert(appointmentSeries).values(insertSeries).returning();
+    return series;
+  }
+
+  // Resources
+  async getResourcesByOrganization(organizationId: string): Promise<Resource[]> {
+    return await db.select().from(resources)
+      .where(eq(resources.organizationId, organizationId))
+      .orderBy(asc(resources.name));
+  }
+
+  async getResourcesByLocation(locationId: string): Promise<Resource[]> {
+    return await db.select().from(resources)
+      .where(and(eq(resources.locationId, locationId), eq(resources.isActive, true)))
+      .orderBy(asc(resources.name));
+  }
+
+  async getResource(id: string): Promise<Resource | undefined> {
+    const [resource] = await db.select().from(resources).where(eq(resources.id, id));
+    return resource || undefined;
+  }
+
+  async createResource(insertResource: InsertResource): Promise<Resource> {
+    const [resource] = await db.insert(resources).values(insertResource).returning();
+    return resource;
+  }
+
+  async updateResource(id: string, organizationId: string, updates: Partial<InsertResource>): Promise<Resource | undefined> {
+    const [resource] = await db.update(resources)
+      .set(updates)
+      .where(and(eq(resources.id, id), eq(resources.organizationId, organizationId)))
+      .returning();
+    return resource || undefined;
+  }
+
+  // Waitlist
+  async getWaitlistEntriesByOrganization(organizationId: string): Promise<WaitlistEntry[]> {
+    return await db.select().from(waitlistEntries)
+      .where(eq(waitlistEntries.organizationId, organizationId))
+      .orderBy(desc(waitlistEntries.priority), asc(waitlistEntries.createdAt));
+  }
+
+  async getWaitlistEntriesByClient(clientId: string): Promise<WaitlistEntry[]> {
+    return await db.select().from(waitlistEntries)
+      .where(eq(waitlistEntries.clientId, clientId))
+      .orderBy(desc(waitlistEntries.createdAt));
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry || undefined;
+  }
+
+  // Entries that would take this slot, in the order they should be offered it
+  async getWaitingEntriesForSlot(slot: { organizationId: string; locationId: string; serviceId: string; staffId: string; date: string }): Promise<WaitlistEntry[]> {
+    return await db.select().from(waitlistEntries)
+      .where(and(
+        eq(waitlistEntries.organizationId, slot.organizationId),
+        eq(waitlistEntries.locationId, slot.locationId),
+        eq(waitlistEntries.serviceId, slot.serviceId),
+        eq(waitlistEntries.status, "waiting"),
+        or(isNull(waitlistEntries.staffId), eq(waitlistEntries.staffId, slot.staffId)),
+        lte(waitlistEntries.earliestDate, slot.date),
+        gte(waitlistEntries.latestDate, slot.date)
+      ))
+      .orderBy(desc(waitlistEntries.priority), asc(waitlistEntries.createdAt));
+  }
+
+  async createWaitlistEntry(insertEntry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const [entry] = await db.insert(waitlistEntries).values(insertEntry).returning();
+    return entry;
+  }
+
+  async updateWaitlistEntry(id: string, updates: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.update(waitlistEntries)
+      .set(updates)
+      .where(eq(waitlistEntries.id, id))
+      .returning();
+    return entry || undefined;
+  }
+
+  async getWaitlistOffer(id: string): Promise<WaitlistOffer | undefined> {
+    const [offer] = await db.select().from(waitlistOffers).where(eq(waitlistOffers.id, id));
+    return offer || undefined;
+  }
+
+  async getWaitlistOffersByClient(clientId: string): Promise<WaitlistOffer[]> {
+    return await db.select().from(waitlistOffers)
+      .where(eq(waitlistOffers.clientId, clientId))
+      .orderBy(desc(waitlistOffers.createdAt));
+  }
+
+  async getWaitlistOffersForSlot(staffId: string, startTime: Date): Promise<WaitlistOffer[]> {
+    return await db.select().from(waitlistOffers)
+      .where(and(eq(waitlistOffers.staffId, staffId), eq(waitlistOffers.startTime, startTime)));
+  }
+
+  async getExpiredWaitlistOffers(now: Date): Promise<WaitlistOffer[]> {
+    return await db.select().from(waitlistOffers)
+      .where(and(eq(waitlistOffers.status, "pending"), lte(waitlistOffers.expiresAt, now)));
+  }
+
+  // Offers still holding their slot
+  async getPendingWaitlistOffersByStaff(staffId: string, now: Date): Promise<WaitlistOffer[]> {
+    return await db.select().from(waitlistOffers)
+      .where(and(eq(waitlistOffers.staffId, staffId), eq(waitlistOffers.status, "pending"), gt(waitlistOffers.expiresAt, now)));
+  }
+
+  async createWaitlistOffer(insertOffer: InsertWaitlistOffer): Promise<WaitlistOffer> {
+    const [offer] = await db.insert(waitlistOffers).values(insertOffer).returning();
+    return offer;
+  }
+
+  // Only updates an offer still in fromStatus, so a late expiry cannot overwrite an acceptance
+  async updateWaitlistOffer(id: string, updates: Partial<InsertWaitlistOffer>, fromStatus: WaitlistOffer["status"] = "pending"): Promise<WaitlistOffer | undefined> {
+    const [offer] = await db.update(waitlistOffers)
+      .set(updates)
+      .where(and(eq(waitlistOffers.id, id), eq(waitlistOffers.status, fromStatus)))
+      .returning();
+    return offer || undefined;
+  }
+
   // Memberships
   async getMembershipsByOrganization(organizationId: string): Promise<Membership[]> {
     return await db
@@ -948,6 +1614,9 @@ export class DatabaseStorage implements IStorage {
         discountPercentage: memberships.discountPercentage,
         monthlyCredits: memberships.monthlyCredits,
         usedCredits: memberships.usedCredits,
+        creditBalance: memberships.creditBalance,
+        creditRollover: memberships.creditRollover,
+        creditRolloverCap: memberships.creditRolloverCap,
         status: memberships.status,
         startDate: memberships.startDate,
         endDate: memberships.endDate,
@@ -1116,6 +1785,747 @@ export class DatabaseStorage implements IStorage {
     await db.update(transactions).set(updates).where(eq(transactions.stripePaymentIntentId, paymentIntentId));
   }
 
+  // Wallet
+  async getWalletTransactions(clientId: string): Promise<Transaction[]> {
+    return await db.select().from(transactions)
+      .where(and(eq(transactions.clientId, clientId), like(transactions.type, 'wallet_%')))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  // Returns undefined, writing nothing, when a debit would take the balance below zero
+  async applyWalletEntries(clientId: string, delta: number, entries: InsertTransaction[]): Promise<{ balance: string; transactions: Transaction[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [client] = await tx.update(clients)
+        .set({ walletBalance: sql`coalesce(${clients.walletBalance}, 0) + ${delta.toFixed(2)}` })
+        .where(and(eq(clients.id, clientId), sql`coalesce(${clients.walletBalance}, 0) + ${delta.toFixed(2)} >= 0`))
+        .returning();
+      if (!client) return undefined;
+
+      const written = entries.length > 0 ? await tx.insert(transactions).values(entries).returning() : [];
+      return { balance: client.walletBalance || "0", transactions: written };
+    });
+  }
+
+  // Credits a pending card-funded top-up plus its bonus; undefined when it was already credited
+  async completeWalletTopUp(transactionId: string, bonusAmount: number): Promise<{ balance: string; transactions: Transaction[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [topUp] = await tx.update(transactions)
+        .set({ status: "completed" })
+        .where(and(eq(transactions.id, transactionId), eq(transactions.type, "wallet_deposit"), eq(transactions.status, "pending")))
+        .returning();
+      if (!topUp?.clientId) return undefined;
+
+      const credit = Number(topUp.amount) + bonusAmount;
+      const [client] = await tx.update(clients)
+        .set({ walletBalance: sql`coalesce(${clients.walletBalance}, 0) + ${credit.toFixed(2)}` })
+        .where(eq(clients.id, topUp.clientId))
+        .returning();
+
+      const written = [topUp];
+      if (bonusAmount > 0) {
+        const [bonus] = await tx.insert(transactions).values({
+          organizationId: topUp.organizationId,
+          clientId: topUp.clientId,
+          amount: bonusAmount.toFixed(2),
+          type: "wallet_bonus",
+          status: "completed",
+          description: `Bonus for $${Number(topUp.amount).toFixed(2)} top-up`,
+          metadata: { topUpTransactionId: topUp.id }
+        }).returning();
+        written.push(bonus);
+      }
+      return { balance: client.walletBalance || "0", transactions: written };
+    });
+  }
+
+  // Puts wallet payments on an appointment back in the wallet, up to amount when given; undefined when there is nothing left to refund.
+  // Payments are only marked refunded once the full amount has gone back, so a partial refund can be followed by the rest.
+  async refundWalletPayments(appointmentId: string, description: string, amount?: number): Promise<{ balance: string; transactions: Transaction[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      const payments = await tx.select().from(transactions)
+        .where(and(eq(transactions.appointmentId, appointmentId), eq(transactions.type, "wallet_payment"), eq(transactions.status, "completed")))
+        .for("update");
+      if (payments.length === 0 || !payments[0].clientId) return undefined;
+
+      const refunded = await tx.select().from(transactions)
+        .where(and(eq(transactions.appointmentId, appointmentId), eq(transactions.type, "wallet_refund"), eq(transactions.status, "completed")));
+      const remaining = Math.round((payments.reduce((total, payment) => total + Number(payment.amount), 0) -
+        refunded.reduce((total, refund) => total + Number(refund.amount), 0)) * 100) / 100;
+      const credit = Math.min(amount ?? remaining, remaining);
+      if (credit <= 0) return undefined;
+      if (credit === remaining) {
+        await tx.update(transactions)
+          .set({ status: "refunded" })
+          .where(inArray(transactions.id, payments.map(payment => payment.id)));
+      }
+
+      const [client] = await tx.update(clients)
+        .set({ walletBalance: sql`coalesce(${clients.walletBalance}, 0) + ${credit.toFixed(2)}` })
+        .where(eq(clients.id, payments[0].clientId))
+        .returning();
+      const [refund] = await tx.insert(transactions).values({
+        organizationId: payments[0].organizationId,
+        clientId: payments[0].clientId,
+        appointmentId,
+        amount: credit.toFixed(2),
+        type: "wallet_refund",
+        status: "completed",
+        description
+      }).returning();
+      return { balance: client.walletBalance || "0", transactions: [refund] };
+    });
+  }
+
+  // Membership Credits
+  async getMembershipCreditTransactions(membershipId: string): Promise<Transaction[]> {
+    return await db.select().from(transactions)
+      .where(and(eq(transactions.membershipId, membershipId), like(transactions.type, 'membership_credit_%')))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  // Starts a billing cycle: forfeits whatever doesn't roll over, then adds the monthly credits.
+  // Undefined when this invoice was already granted or there is nothing to grant.
+  async grantMembershipCredits(membershipId: string, stripeInvoiceId: string | null): Promise<{ balance: string; transactions: Transaction[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the membership so a redelivered webhook waits for, then sees, the first grant
+      const [membership] = await tx.select().from(memberships)
+        .where(eq(memberships.id, membershipId))
+        .for("update");
+      if (!membership) return undefined;
+
+      if (stripeInvoiceId) {
+        const [granted] = await tx.select({ id: transactions.id }).from(transactions)
+          .where(and(
+            eq(transactions.membershipId, membershipId),
+            eq(transactions.type, "membership_credit_grant"),
+            sql`${transactions.metadata}->>'stripeInvoiceId' = ${stripeInvoiceId}`
+          ));
+        if (granted) return undefined;
+      }
+
+      const balance = Number(membership.creditBalance || 0);
+      const carried = getCreditRollover(balance, membership.creditRollover,
+        membership.creditRolloverCap === null ? null : Number(membership.creditRolloverCap));
+      const forfeited = Math.round((balance - carried) * 100) / 100;
+      const grant = Number(membership.monthlyCredits || 0);
+      if (grant <= 0 && forfeited <= 0) return undefined;
+
+      const entries: InsertTransaction[] = [];
+      if (forfeited > 0) {
+        entries.push({
+          organizationId: membership.organizationId,
+          clientId: membership.clientId,
+          membershipId,
+          amount: forfeited.toFixed(2),
+          type: "membership_credit_expiry",
+          status: "completed",
+          description: carried > 0 ? `Unused credits above the $${carried.toFixed(2)} rollover cap` : "Unused credits from last cycle"
+        });
+      }
+      if (grant > 0) {
+        entries.push({
+          organizationId: membership.organizationId,
+          clientId: membership.clientId,
+          membershipId,
+          amount: grant.toFixed(2),
+          type: "membership_credit_grant",
+          status: "completed",
+          description: `${membership.tierName} monthly credits`,
+          metadata: stripeInvoiceId ? { stripeInvoiceId } : null
+        });
+      }
+
+      const [updated] = await tx.update(memberships)
+        .set({ creditBalance: (carried + grant).toFixed(2), usedCredits: "0" })
+        .where(eq(memberships.id, membershipId))
+        .returning();
+      const written = await tx.insert(transactions).values(entries).returning();
+      return { balance: updated.creditBalance || "0", transactions: written };
+    });
+  }
+
+  // Returns undefined, writing nothing, when the membership doesn't have enough credit left
+  async applyMembershipCredits(membershipId: string, amount: number, redemption: InsertTransaction): Promise<{ balance: string; transaction: Transaction } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [membership] = await tx.update(memberships)
+        .set({
+          creditBalance: sql`${memberships.creditBalance} - ${amount.toFixed(2)}`,
+          usedCredits: sql`coalesce(${memberships.usedCredits}, 0) + ${amount.toFixed(2)}`
+        })
+        .where(and(eq(memberships.id, membershipId), sql`coalesce(${memberships.creditBalance}, 0) >= ${amount.toFixed(2)}`))
+        .returning();
+      if (!membership) return undefined;
+
+      const [transaction] = await tx.insert(transactions).values(redemption).returning();
+      return { balance: membership.creditBalance || "0", transaction };
+    });
+  }
+
+  // Puts credits spent on an appointment back on the membership, up to amount when given; undefined when there is nothing left to refund.
+  // As with wallet payments, redemptions are only marked refunded once the full amount has gone back.
+  async refundMembershipCredits(appointmentId: string, description: string, amount?: number): Promise<{ balance: string; transaction: Transaction } | undefined> {
+    return await db.transaction(async (tx) => {
+      const redemptions = await tx.select().from(transactions)
+        .where(and(eq(transactions.appointmentId, appointmentId), eq(transactions.type, "membership_credit_redemption"), eq(transactions.status, "completed")))
+        .for("update");
+      if (redemptions.length === 0 || !redemptions[0].membershipId) return undefined;
+
+      const refunded = await tx.select().from(transactions)
+        .where(and(eq(transactions.appointmentId, appointmentId), eq(transactions.type, "membership_credit_refund"), eq(transactions.status, "completed")));
+      const remaining = Math.round((redemptions.reduce((total, redemption) => total + Number(redemption.amount), 0) -
+        refunded.reduce((total, refund) => total + Number(refund.amount), 0)) * 100) / 100;
+      const credit = Math.min(amount ?? remaining, remaining);
+      if (credit <= 0) return undefined;
+      if (credit === remaining) {
+        await tx.update(transactions)
+          .set({ status: "refunded" })
+          .where(inArray(transactions.id, redemptions.map(redemption => redemption.id)));
+      }
+
+      const [membership] = await tx.update(memberships)
+        .set({
+          creditBalance: sql`coalesce(${memberships.creditBalance}, 0) + ${credit.toFixed(2)}`,
+          usedCredits: sql`greatest(coalesce(${memberships.usedCredits}, 0) - ${credit.toFixed(2)}, 0)`
+        })
+        .where(eq(memberships.id, redemptions[0].membershipId))
+        .returning();
+      const [transaction] = await tx.insert(transactions).values({
+        organizationId: redemptions[0].organizationId,
+        clientId: redemptions[0].clientId,
+        membershipId: redemptions[0].membershipId,
+        appointmentId,
+        amount: credit.toFixed(2),
+        type: "membership_credit_refund",
+        status: "completed",
+        description
+      }).returning();
+      return { balance: membership.creditBalance || "0", transaction };
+    });
+  }
+
+  // Gift Cards
+  async getGiftCardsByOrganization(organizationId: string): Promise<GiftCard[]> {
+    return await db.select().from(giftCards)
+      .where(eq(giftCards.organizationId, organizationId))
+      .orderBy(desc(giftCards.createdAt));
+  }
+
+  async getGiftCard(id: string): Promise<GiftCard | undefined> {
+    const [card] = await db.select().from(giftCards).where(eq(giftCards.id, id));
+    return card || undefined;
+  }
+
+  async getGiftCardByCode(code: string): Promise<GiftCard | undefined> {
+    const [card] = await db.select().from(giftCards).where(eq(giftCards.code, code));
+    return card || undefined;
+  }
+
+  async getExpiredGiftCards(now: Date): Promise<GiftCard[]> {
+    return await db.select().from(giftCards)
+      .where(and(eq(giftCards.status, "active"), lte(giftCards.expiresAt, now)));
+  }
+
+  async getGiftCardTransactions(organizationId: string): Promise<Transaction[]> {
+    return await db.select().from(transactions)
+      .where(and(eq(transactions.organizationId, organizationId), like(transactions.type, 'gift_card_%')))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  async createGiftCard(card: InsertGiftCard): Promise<GiftCard> {
+    const [created] = await db.insert(giftCards).values(card).returning();
+    return created;
+  }
+
+  // Activates a paid card and records its sale; undefined when it was already activated
+  async activateGiftCard(id: string, expiresAt: Date | null, sale: InsertTransaction): Promise<GiftCard | undefined> {
+    return await db.transaction(async (tx) => {
+      const [card] = await tx.update(giftCards)
+        .set({ status: "active", activatedAt: new Date(), expiresAt })
+        .where(and(eq(giftCards.id, id), eq(giftCards.status, "pending")))
+        .returning();
+      if (!card) return undefined;
+
+      await tx.insert(transactions).values(sale);
+      return card;
+    });
+  }
+
+  // Returns undefined, writing nothing, when the card is not active, has expired or lacks the balance
+  async redeemGiftCard(id: string, amount: number, redemption: InsertTransaction): Promise<{ giftCard: GiftCard; transaction: Transaction } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [card] = await tx.update(giftCards)
+        .set({
+          balance: sql`${giftCards.balance} - ${amount.toFixed(2)}`,
+          status: sql`case when ${giftCards.balance} - ${amount.toFixed(2)} = 0 then 'redeemed'::gift_card_status else ${giftCards.status} end`
+        })
+        .where(and(
+          eq(giftCards.id, id),
+          eq(giftCards.status, "active"),
+          sql`${giftCards.balance} >= ${amount.toFixed(2)}`,
+          or(isNull(giftCards.expiresAt), sql`${giftCards.expiresAt} > now()`)
+        ))
+        .returning();
+      if (!card) return undefined;
+
+      const [transaction] = await tx.insert(transactions).values(redemption).returning();
+      return { giftCard: card, transaction };
+    });
+  }
+
+  // Zeroes an active card, recording the remaining balance it took off the books
+  async closeGiftCard(id: string, status: "expired" | "void", entry: Omit<InsertTransaction, "amount">): Promise<{ giftCard: GiftCard; transaction: Transaction } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(giftCards).where(eq(giftCards.id, id));
+      if (!current || current.status !== "active") return undefined;
+
+      const [card] = await tx.update(giftCards)
+        .set({ balance: "0", status })
+        .where(and(eq(giftCards.id, id), eq(giftCards.status, "active"), eq(giftCards.balance, current.balance)))
+        .returning();
+      if (!card) return undefined;
+
+      const [transaction] = await tx.insert(transactions).values({ ...entry, amount: current.balance }).returning();
+      return { giftCard: card, transaction };
+    });
+  }
+
+  // Puts a redemption back on its card, e.g. when the rest of the checkout it was part of failed. With an amount,
+  // only that much goes back and the redemption keeps the rest, so the liability ledger still matches the card balances.
+  async reverseGiftCardRedemption(transactionId: string, amount?: number): Promise<GiftCard | undefined> {
+    return await db.transaction(async (tx) => {
+      const [redemption] = await tx.select().from(transactions)
+        .where(and(eq(transactions.id, transactionId), eq(transactions.type, "gift_card_redemption"), eq(transactions.status, "completed")))
+        .for("update");
+      const giftCardId = (redemption?.metadata as { giftCardId?: string } | null)?.giftCardId;
+      if (!giftCardId) return undefined;
+
+      const restore = Math.round(Math.min(amount ?? Number(redemption.amount), Number(redemption.amount)) * 100) / 100;
+      if (restore <= 0) return undefined;
+      const kept = Math.round((Number(redemption.amount) - restore) * 100) / 100;
+      await tx.update(transactions)
+        .set(kept > 0
+          ? { amount: kept.toFixed(2), metadata: { ...(redemption.metadata as Record<string, unknown>), restoredAmount: restore } }
+          : { status: "refunded" })
+        .where(eq(transactions.id, redemption.id));
+
+      const [card] = await tx.update(giftCards)
+        .set({
+          balance: sql`${giftCards.balance} + ${restore.toFixed(2)}`,
+          status: sql`case when ${giftCards.status} = 'redeemed' then 'active'::gift_card_status else ${giftCards.status} end`
+        })
+        .where(eq(giftCards.id, giftCardId))
+        .returning();
+      return card;
+    });
+  }
+
+  // Treatment Packages
+  async getTreatmentPackagesByOrganization(organizationId: string): Promise<TreatmentPackage[]> {
+    return await db.select().from(treatmentPackages)
+      .where(eq(treatmentPackages.organizationId, organizationId))
+      .orderBy(asc(treatmentPackages.name));
+  }
+
+  async getTreatmentPackage(id: string): Promise<TreatmentPackage | undefined> {
+    const [treatmentPackage] = await db.select().from(treatmentPackages).where(eq(treatmentPackages.id, id));
+    return treatmentPackage || undefined;
+  }
+
+  async createTreatmentPackage(insertPackage: InsertTreatmentPackage): Promise<TreatmentPackage> {
+    const [treatmentPackage] = await db.insert(treatmentPackages).values(insertPackage).returning();
+    return treatmentPackage;
+  }
+
+  async updateTreatmentPackage(id: string, organizationId: string, updates: Partial<InsertTreatmentPackage>): Promise<TreatmentPackage | undefined> {
+    const [treatmentPackage] = await db.update(treatmentPackages)
+      .set(updates)
+      .where(and(eq(treatmentPackages.id, id), eq(treatmentPackages.organizationId, organizationId)))
+      .returning();
+    return treatmentPackage || undefined;
+  }
+
+  async getClientPackagesByClient(clientId: string): Promise<ClientPackage[]> {
+    return await db.select().from(clientPackages)
+      .where(eq(clientPackages.clientId, clientId))
+      .orderBy(desc(clientPackages.createdAt));
+  }
+
+  async getClientPackage(id: string): Promise<ClientPackage | undefined> {
+    const [clientPackage] = await db.select().from(clientPackages).where(eq(clientPackages.id, id));
+    return clientPackage || undefined;
+  }
+
+  async createClientPackage(insertPackage: InsertClientPackage): Promise<ClientPackage> {
+    const [clientPackage] = await db.insert(clientPackages).values(insertPackage).returning();
+    return clientPackage;
+  }
+
+  // Activates a paid package and records its sale; undefined when it was already activated
+  async activateClientPackage(id: string, expiresAt: Date | null, sale: InsertTransaction): Promise<ClientPackage | undefined> {
+    return await db.transaction(async (tx) => {
+      const [clientPackage] = await tx.update(clientPackages)
+        .set({ status: "active", purchasedAt: new Date(), expiresAt })
+        .where(and(eq(clientPackages.id, id), eq(clientPackages.status, "pending")))
+        .returning();
+      if (!clientPackage) return undefined;
+
+      await tx.insert(transactions).values(sale);
+      return clientPackage;
+    });
+  }
+
+  // Uses one session of the client's package for the appointment's service, soonest-expiring first.
+  // Returns undefined, writing nothing, when the appointment already used a session or no package covers it.
+  async useClientPackageSession(appointment: Appointment): Promise<ClientPackage | undefined> {
+    return await db.transaction(async (tx) => {
+      const [candidate] = await tx.select().from(clientPackages)
+        .where(and(
+          eq(clientPackages.clientId, appointment.clientId),
+          eq(clientPackages.serviceId, appointment.serviceId),
+          eq(clientPackages.status, "active"),
+          sql`${clientPackages.sessionsRemaining} > 0`,
+          or(isNull(clientPackages.expiresAt), gte(clientPackages.expiresAt, appointment.startTime))
+        ))
+        .orderBy(sql`${clientPackages.expiresAt} asc nulls last`, asc(clientPackages.createdAt))
+        .limit(1)
+        .for("update");
+      if (!candidate) return undefined;
+
+      const [claimed] = await tx.update(appointments)
+        .set({ clientPackageId: candidate.id })
+        .where(and(eq(appointments.id, appointment.id), isNull(appointments.clientPackageId)))
+        .returning();
+      if (!claimed) return undefined;
+
+      const [clientPackage] = await tx.update(clientPackages)
+        .set({
+          sessionsRemaining: sql`${clientPackages.sessionsRemaining} - 1`,
+          status: sql`case when ${clientPackages.sessionsRemaining} - 1 = 0 then 'used'::client_package_status else ${clientPackages.status} end`
+        })
+        .where(eq(clientPackages.id, candidate.id))
+        .returning();
+      return clientPackage;
+    });
+  }
+
+  // Gives back the session an appointment used, e.g. when it was marked completed by mistake
+  async restoreClientPackageSession(appointmentId: string): Promise<ClientPackage | undefined> {
+    return await db.transaction(async (tx) => {
+      const [appointment] = await tx.select().from(appointments).where(eq(appointments.id, appointmentId)).for("update");
+      if (!appointment?.clientPackageId) return undefined;
+
+      await tx.update(appointments)
+        .set({ clientPackageId: null })
+        .where(eq(appointments.id, appointmentId));
+
+      const [clientPackage] = await tx.update(clientPackages)
+        .set({ sessionsRemaining: sql`${clientPackages.sessionsRemaining} + 1`, status: "active" })
+        .where(eq(clientPackages.id, appointment.clientPackageId))
+        .returning();
+      return clientPackage;
+    });
+  }
+
+  // Products
+  async getProductsByOrganization(organizationId: string): Promise<Product[]> {
+    return await db.select().from(products)
+      .where(eq(products.organizationId, organizationId))
+      .orderBy(asc(products.name));
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.id, id));
+    return product || undefined;
+  }
+
+  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    const [product] = await db.insert(products).values(insertProduct).returning();
+    return product;
+  }
+
+  async updateProduct(id: string, organizationId: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
+    const [product] = await db.update(products)
+      .set(updates)
+      .where(and(eq(products.id, id), eq(products.organizationId, organizationId)))
+      .returning();
+    return product || undefined;
+  }
+
+  // Inventory
+  async getProductStockByOrganization(organizationId: string): Promise<ProductStock[]> {
+    return await db.select().from(productStock).where(eq(productStock.organizationId, organizationId));
+  }
+
+  async getStockMovements(organizationId: string, filters: { productId?: string; locationId?: string } = {}, limit = 100): Promise<StockMovement[]> {
+    return await db.select().from(stockMovements)
+      .where(and(
+        eq(stockMovements.organizationId, organizationId),
+        filters.productId ? eq(stockMovements.productId, filters.productId) : undefined,
+        filters.locationId ? eq(stockMovements.locationId, filters.locationId) : undefined
+      ))
+      .orderBy(desc(stockMovements.createdAt))
+      .limit(limit);
+  }
+
+  // All movements are applied or, when any would go below zero, none of them
+  async moveProductStock(movements: InsertStockMovement[], allowNegative = false): Promise<ProductStock[] | undefined> {
+    let short = false;
+    let updated: ProductStock[] | undefined;
+    try {
+      await db.transaction(async (tx) => {
+        updated = await applyStockMovements(tx, movements, allowNegative);
+        if (!updated) {
+          short = true;
+          tx.rollback();
+        }
+      });
+    } catch (error) {
+      if (!short) throw error;
+    }
+    return updated;
+  }
+
+  // Sets a location's stock to a counted quantity, recording the difference as a count movement
+  async countProductStock(count: InsertStockMovement): Promise<ProductStock> {
+    return await db.transaction(async (tx) => {
+      await tx.insert(productStock)
+        .values({ organizationId: count.organizationId, productId: count.productId, locationId: count.locationId })
+        .onConflictDoNothing({ target: [productStock.productId, productStock.locationId] });
+      const [current] = await tx.select().from(productStock)
+        .where(and(eq(productStock.productId, count.productId), eq(productStock.locationId, count.locationId)))
+        .for("update");
+
+      if (count.quantity === current.quantity) return current;
+
+      const [stock] = await applyStockMovements(tx, [{ ...count, quantity: count.quantity - current.quantity, reason: "count" }], true) || [];
+      return stock || current;
+    });
+  }
+
+  // Claims the alert for a location at or below its reorder level so admins are told once per shortage
+  async claimLowStockAlert(stockId: string): Promise<ProductStock | undefined> {
+    const [stock] = await db.update(productStock)
+      .set({ lowStockAlertedAt: new Date() })
+      .where(and(eq(productStock.id, stockId), isNull(productStock.lowStockAlertedAt)))
+      .returning();
+    return stock || undefined;
+  }
+
+  // Takes the service's consumables from the appointment's location. Usage is never blocked by a stock count
+  // that is out of date, so stock may go negative. Does nothing when the usage is already recorded.
+  async recordServiceUsage(appointment: Appointment): Promise<ProductStock[]> {
+    return await db.transaction(async (tx) => {
+      await tx.select().from(appointments).where(eq(appointments.id, appointment.id)).for("update");
+      const [recorded] = await tx.select({ net: sql<number>`coalesce(sum(${stockMovements.quantity}), 0)::int` })
+        .from(stockMovements)
+        .where(and(
+          eq(stockMovements.referenceId, appointment.id),
+          inArray(stockMovements.reason, ["service_usage", "service_usage_return"])
+        ));
+      if (recorded.net !== 0) return [];
+
+      const consumables = await tx.select().from(serviceConsumables).where(eq(serviceConsumables.serviceId, appointment.serviceId));
+      return await applyStockMovements(tx, consumables.map(consumable => ({
+        organizationId: appointment.organizationId,
+        productId: consumable.productId,
+        locationId: appointment.locationId,
+        quantity: -consumable.quantity,
+        reason: "service_usage" as const,
+        referenceId: appointment.id
+      })), true) || [];
+    });
+  }
+
+  // Puts back what an appointment used, e.g. when it was marked completed by mistake
+  async restoreServiceUsage(appointmentId: string): Promise<ProductStock[]> {
+    return await db.transaction(async (tx) => {
+      await tx.select().from(appointments).where(eq(appointments.id, appointmentId)).for("update");
+      const usage = await tx.select({
+        organizationId: stockMovements.organizationId,
+        productId: stockMovements.productId,
+        locationId: stockMovements.locationId,
+        net: sql<number>`sum(${stockMovements.quantity})::int`
+      })
+        .from(stockMovements)
+        .where(and(
+          eq(stockMovements.referenceId, appointmentId),
+          inArray(stockMovements.reason, ["service_usage", "service_usage_return"])
+        ))
+        .groupBy(stockMovements.organizationId, stockMovements.productId, stockMovements.locationId);
+
+      return await applyStockMovements(tx, usage.filter(u => u.net < 0).map(u => ({
+        organizationId: u.organizationId,
+        productId: u.productId,
+        locationId: u.locationId,
+        quantity: -u.net,
+        reason: "service_usage_return" as const,
+        referenceId: appointmentId
+      })), true) || [];
+    });
+  }
+
+  // Purchase Orders
+  async getPurchaseOrdersByOrganization(organizationId: string): Promise<PurchaseOrder[]> {
+    return await db.select().from(purchaseOrders)
+      .where(eq(purchaseOrders.organizationId, organizationId))
+      .orderBy(desc(purchaseOrders.orderedAt));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return order || undefined;
+  }
+
+  async getPurchaseOrderItems(purchaseOrderIds: string[]): Promise<PurchaseOrderItem[]> {
+    if (purchaseOrderIds.length === 0) return [];
+    return await db.select().from(purchaseOrderItems).where(inArray(purchaseOrderItems.purchaseOrderId, purchaseOrderIds));
+  }
+
+  async createPurchaseOrder(insertOrder: InsertPurchaseOrder, items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]): Promise<PurchaseOrder> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.insert(purchaseOrders).values(insertOrder).returning();
+      await tx.insert(purchaseOrderItems).values(items.map(item => ({ ...item, purchaseOrderId: order.id })));
+      return order;
+    });
+  }
+
+  // Adds what was delivered to the order's location and takes the product's cost from the order.
+  // Undefined when the order isn't open, so a delivery is never received twice.
+  async receivePurchaseOrder(id: string, received: { itemId: string; quantityReceived: number }[], receivedBy: string): Promise<{ order: PurchaseOrder; stock: ProductStock[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+      if (!order || order.status !== "ordered") return undefined;
+
+      const items = await tx.select().from(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      const movements: InsertStockMovement[] = [];
+      for (const item of items) {
+        // Lines left out were delivered in full
+        const quantityReceived = received.find(r => r.itemId === item.id)?.quantityReceived ?? item.quantityOrdered;
+        await tx.update(purchaseOrderItems)
+          .set({ quantityReceived })
+          .where(eq(purchaseOrderItems.id, item.id));
+        if (quantityReceived === 0) continue;
+
+        await tx.update(products)
+          .set({ cost: item.unitCost })
+          .where(eq(products.id, item.productId));
+        movements.push({
+          organizationId: order.organizationId,
+          productId: item.productId,
+          locationId: order.locationId,
+          quantity: quantityReceived,
+          reason: "received",
+          referenceId: order.id,
+          createdBy: receivedBy
+        });
+      }
+
+      const stock = await applyStockMovements(tx, movements, true) || [];
+      const [updated] = await tx.update(purchaseOrders)
+        .set({ status: "received", receivedAt: new Date(), receivedBy })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return { order: updated, stock };
+    });
+  }
+
+  async cancelPurchaseOrder(id: string, organizationId: string): Promise<PurchaseOrder | undefined> {
+    const [order] = await db.update(purchaseOrders)
+      .set({ status: "canceled" })
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.organizationId, organizationId), eq(purchaseOrders.status, "ordered")))
+      .returning();
+    return order || undefined;
+  }
+
+  // Service Consumables
+  async getServiceConsumables(serviceId: string): Promise<ServiceConsumable[]> {
+    return await db.select().from(serviceConsumables).where(eq(serviceConsumables.serviceId, serviceId));
+  }
+
+  // Replaces the service's consumables with the given list
+  async setServiceConsumables(serviceId: string, items: { productId: string; quantity: number }[]): Promise<ServiceConsumable[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(serviceConsumables).where(eq(serviceConsumables.serviceId, serviceId));
+      if (items.length === 0) return [];
+      return await tx.insert(serviceConsumables)
+        .values(items.map(item => ({ serviceId, productId: item.productId, quantity: item.quantity })))
+        .returning();
+    });
+  }
+
+  // Time Clock
+  // Shifts overlapping the range, including any still on the clock
+  async getTimeClockEntries(organizationId: string, from: Date, to: Date): Promise<TimeClockEntry[]> {
+    return await db.select().from(timeClockEntries)
+      .where(and(
+        eq(timeClockEntries.organizationId, organizationId),
+        lte(timeClockEntries.clockIn, to),
+        or(isNull(timeClockEntries.clockOut), gte(timeClockEntries.clockOut, from))
+      ))
+      .orderBy(desc(timeClockEntries.clockIn));
+  }
+
+  async getOpenTimeClockEntry(staffId: string): Promise<TimeClockEntry | undefined> {
+    const [entry] = await db.select().from(timeClockEntries)
+      .where(and(eq(timeClockEntries.staffId, staffId), isNull(timeClockEntries.clockOut)));
+    return entry || undefined;
+  }
+
+  // Returns undefined when the staff member is already on the clock
+  async clockIn(entry: InsertTimeClockEntry): Promise<TimeClockEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const [open] = await tx.select().from(timeClockEntries)
+        .where(and(eq(timeClockEntries.staffId, entry.staffId), isNull(timeClockEntries.clockOut)))
+        .for("update");
+      if (open) return undefined;
+      const [created] = await tx.insert(timeClockEntries).values(entry).returning();
+      return created;
+    });
+  }
+
+  // Returns undefined when the staff member isn't on the clock
+  async clockOut(staffId: string, clockOut: Date): Promise<TimeClockEntry | undefined> {
+    const [entry] = await db.update(timeClockEntries)
+      .set({ clockOut })
+      .where(and(eq(timeClockEntries.staffId, staffId), isNull(timeClockEntries.clockOut)))
+      .returning();
+    return entry || undefined;
+  }
+
+  // Pay Periods
+  async getPayPeriodsByOrganization(organizationId: string): Promise<PayPeriod[]> {
+    return await db.select().from(payPeriods)
+      .where(eq(payPeriods.organizationId, organizationId))
+      .orderBy(desc(payPeriods.startDate));
+  }
+
+  async getPayPeriod(id: string): Promise<PayPeriod | undefined> {
+    const [period] = await db.select().from(payPeriods).where(eq(payPeriods.id, id));
+    return period || undefined;
+  }
+
+  async createPayPeriod(period: InsertPayPeriod): Promise<PayPeriod> {
+    const [created] = await db.insert(payPeriods).values(period).returning();
+    return created;
+  }
+
+  // Freezes the statements; returns undefined when the period was already locked
+  async lockPayPeriod(id: string, organizationId: string, statements: unknown, lockedBy: string): Promise<PayPeriod | undefined> {
+    const [period] = await db.update(payPeriods)
+      .set({ status: "locked", statements, lockedAt: new Date(), lockedBy })
+      .where(and(eq(payPeriods.id, id), eq(payPeriods.organizationId, organizationId), eq(payPeriods.status, "open")))
+      .returning();
+    return period || undefined;
+  }
+
+  async unlockPayPeriod(id: string, organizationId: string): Promise<PayPeriod | undefined> {
+    const [period] = await db.update(payPeriods)
+      .set({ status: "open", statements: null, lockedAt: null, lockedBy: null })
+      .where(and(eq(payPeriods.id, id), eq(payPeriods.organizationId, organizationId), eq(payPeriods.status, "locked")))
+      .returning();
+    return period || undefined;
+  }
+
   // AI Insights
   async getAiInsightsByOrganization(organizationId: string): Promise<AiInsight[]> {
     return await db.select().from(aiInsights)
@@ -1196,6 +2606,59 @@ export class DatabaseStorage implements IStorage {
     return await query.orderBy(desc(usageLogs.createdAt));
   }
 
+  // File Storage
+  async getFile(id: string): Promise<FileStorage | undefined> {
+    const [file] = await db.select().from(fileStorage).where(eq(fileStorage.id, id));
+    return file || undefined;
+  }
+
+  async getFilesByClient(clientId: string, categories?: string[]): Promise<FileStorage[]> {
+    return await db.select().from(fileStorage)
+      .where(categories
+        ? and(eq(fileStorage.clientId, clientId), inArray(fileStorage.category, categories))
+        : eq(fileStorage.clientId, clientId))
+      .orderBy(desc(sql`coalesce(${fileStorage.takenAt}, ${fileStorage.createdAt})`));
+  }
+
+  // The id is chosen by the caller so the download url can be stored with the record
+  async createFile(file: InsertFileStorage & { id: string }): Promise<FileStorage> {
+    const [created] = await db.insert(fileStorage).values(file).returning();
+    return created;
+  }
+
+  async updateFile(id: string, updates: Partial<InsertFileStorage>): Promise<FileStorage> {
+    const [file] = await db.update(fileStorage).set(updates).where(eq(fileStorage.id, id)).returning();
+    return file;
+  }
+
+  async deleteFile(id: string): Promise<boolean> {
+    const result = await db.delete(fileStorage).where(eq(fileStorage.id, id)).returning({ id: fileStorage.id });
+    return result.length > 0;
+  }
+
+  // Returns how many files were taken out of public use
+  async unpublishClientFiles(clientId: string): Promise<number> {
+    const result = await db.update(fileStorage)
+      .set({ isPublic: false })
+      .where(and(eq(fileStorage.clientId, clientId), eq(fileStorage.isPublic, true)))
+      .returning({ id: fileStorage.id });
+    return result.length;
+  }
+
+  async getOrganizationsWithDocumentRetention(): Promise<Organization[]> {
+    return await db.select().from(organizations)
+      .where(and(eq(organizations.isActive, true), sql`${organizations.documentRetention} is not null`));
+  }
+
+  async getDocumentsUploadedBefore(organizationId: string, category: string, before: Date): Promise<FileStorage[]> {
+    return await db.select().from(fileStorage)
+      .where(and(
+        eq(fileStorage.organizationId, organizationId),
+        eq(fileStorage.category, category),
+        lte(fileStorage.createdAt, before)
+      ));
+  }
+
   // Audit Logs
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
     const [log] = await db.insert(auditLogs).values(insertLog).returning();
@@ -1208,6 +2671,12 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(auditLogs.createdAt));
   }
 
+  async getAuditLogsByResource(resource: string, resourceId: string): Promise<AuditLog[]> {
+    return await db.select().from(auditLogs)
+      .where(and(eq(auditLogs.resource, resource), eq(auditLogs.resourceId, resourceId)))
+      .orderBy(desc(auditLogs.createdAt));
+  }
+
   // Additional missing method implementations
   async getClientByEmail(email: string): Promise<Client | undefined> {
     const [client] = await db.select().from(clients).where(eq(clients.email, email));
@@ -1282,7 +2751,7 @@ export class DatabaseStorage implements IStorage {
     return campaign;
   }
 
-  async updateMarketingCampaign(id: string, updates: Partial<InsertMarketingCampaign>): Promise<MarketingCampaign> {
+  async updateMarketingCampaign(id: string, updates: Partial<InsertMarketingCampaign> & Partial<Pick<MarketingCampaign, 'sentDate' | 'sentCount' | 'successCount' | 'failedCount'>>): Promise<MarketingCampaign> {
     const [campaign] = await db.update(marketingCampaigns)
       .set({ ...updates, updatedAt: sql`now()` })
       .where(eq(marketingCampaigns.id, id))
@@ -1298,6 +2767,31 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  // Scheduled campaigns that are due, plus any a run stopped sending before staleBefore
+  async getDueMarketingCampaigns(now: Date, staleBefore: Date): Promise<MarketingCampaign[]> {
+    return await db.select().from(marketingCampaigns)
+      .where(or(
+        and(eq(marketingCampaigns.status, "scheduled"), lte(marketingCampaigns.scheduledDate, now)),
+        and(eq(marketingCampaigns.status, "sending"), lte(marketingCampaigns.updatedAt, staleBefore))
+      ))
+      .orderBy(asc(marketingCampaigns.scheduledDate));
+  }
+
+  async claimMarketingCampaign(id: string, staleBefore: Date): Promise<MarketingCampaign | undefined> {
+    // Single conditional UPDATE so only one run sends a campaign; a stalled send can be taken over once it is stale
+    const [campaign] = await db.update(marketingCampaigns)
+      .set({ status: "sending", updatedAt: sql`now()` })
+      .where(and(
+        eq(marketingCampaigns.id, id),
+        or(
+          eq(marketingCampaigns.status, "scheduled"),
+          and(eq(marketingCampaigns.status, "sending"), lte(marketingCampaigns.updatedAt, staleBefore))
+        )
+      ))
+      .returning();
+    return campaign || undefined;
+  }
+
   async getCampaignAnalytics(campaignId: string): Promise<any> {
     const [campaign] = await db.select().from(marketingCampaigns).where(eq(marketingCampaigns.id, campaignId));
     
@@ -1356,6 +2850,82 @@ export class DatabaseStorage implements IStorage {
     }
     return await db.insert(campaignRecipients).values(recipients).returning();
   }
+
+  // Scheduled Jobs
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return await db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.name));
+  }
+
+  async getScheduledJob(name: string): Promise<ScheduledJob | undefined> {
+    const [job] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, name));
+    return job || undefined;
+  }
+
+  async ensureScheduledJob(insertJob: InsertScheduledJob): Promise<ScheduledJob> {
+    // Keep operator changes (enabled flag, interval) if the job row already exists
+    await db.insert(scheduledJobs).values(insertJob).onConflictDoNothing({ target: scheduledJobs.name });
+    const [job] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, insertJob.name));
+    return job;
+  }
+
+  async updateScheduledJob(name: string, updates: Partial<InsertScheduledJob>): Promise<ScheduledJob | undefined> {
+    const [job] = await db.update(scheduledJobs)
+      .set({ ...updates, updatedAt: sql`now()` })
+      .where(eq(scheduledJobs.name, name))
+      .returning();
+    return job || undefined;
+  }
+
+  async acquireJobLease(name: string, instanceId: string, leaseMs: number, force = false): Promise<ScheduledJob | undefined> {
+    // Single conditional UPDATE so only one instance can win the lease; forced (manual) runs skip the due check
+    const [job] = await db.update(scheduledJobs)
+      .set({
+        lockedBy: instanceId,
+        lockedUntil: sql`now() + ${leaseMs} * interval '1 millisecond'`,
+        updatedAt: sql`now()`
+      })
+      .where(and(
+        eq(scheduledJobs.name, name),
+        or(isNull(scheduledJobs.lockedUntil), lte(scheduledJobs.lockedUntil, sql`now()`)),
+        force ? undefined : and(
+          eq(scheduledJobs.isEnabled, true),
+          lte(scheduledJobs.nextRunAt, sql`now()`)
+        )
+      ))
+      .returning();
+    return job || undefined;
+  }
+
+  async releaseJobLease(name: string, instanceId: string, updates: Partial<InsertScheduledJob>): Promise<void> {
+    await db.update(scheduledJobs)
+      .set({ ...updates, lockedBy: null, lockedUntil: null, updatedAt: sql`now()` })
+      .where(and(
+        eq(scheduledJobs.name, name),
+        eq(scheduledJobs.lockedBy, instanceId)
+      ));
+  }
+
+  // Job Runs
+  async getJobRuns(options?: { jobName?: string; limit?: number }): Promise<JobRun[]> {
+    const { jobName, limit = 50 } = options || {};
+    return await db.select().from(jobRuns)
+      .where(jobName ? eq(jobRuns.jobName, jobName) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit);
+  }
+
+  async createJobRun(insertRun: InsertJobRun): Promise<JobRun> {
+    const [run] = await db.insert(jobRuns).values(insertRun).returning();
+    return run;
+  }
+
+  async updateJobRun(id: string, updates: Partial<InsertJobRun>): Promise<JobRun> {
+    const [run] = await db.update(jobRuns)
+      .set(updates)
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return run;
+  }
 }
 
 export const storage = new DatabaseStorage();
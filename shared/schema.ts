@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, boolean, timestamp, uuid, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, boolean, timestamp, uuid, jsonb, pgEnum, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -14,6 +14,18 @@ export const paymentStatusEnum = pgEnum("payment_status", ["pending", "completed
 export const membershipStatusEnum = pgEnum("membership_status", ["active", "expired", "canceled", "suspended"]);
 export const planTierEnum = pgEnum("plan_tier", ["starter", "professional", "business", "enterprise", "medical_chain"]);
 export const notificationTypeEnum = pgEnum("notification_type", ["booking", "membership", "reward", "custom", "system"]);
+export const resourceTypeEnum = pgEnum("resource_type", ["room", "equipment", "chair"]);
+export const staffScheduleExceptionTypeEnum = pgEnum("staff_schedule_exception_type", ["time_off", "break", "extra_shift"]);
+export const waitlistStatusEnum = pgEnum("waitlist_status", ["waiting", "offered", "booked", "canceled"]);
+export const appointmentSeriesFrequencyEnum = pgEnum("appointment_series_frequency", ["weekly", "monthly"]);
+export const waitlistOfferStatusEnum = pgEnum("waitlist_offer_status", ["pending", "accepted", "declined", "expired"]);
+export const giftCardStatusEnum = pgEnum("gift_card_status", ["pending", "active", "redeemed", "expired", "void"]);
+export const clientPackageStatusEnum = pgEnum("client_package_status", ["pending", "active", "used"]);
+export const stockMovementReasonEnum = pgEnum("stock_movement_reason", ["sale", "sale_return", "service_usage", "service_usage_return", "received", "count"]);
+export const purchaseOrderStatusEnum = pgEnum("purchase_order_status", ["ordered", "received", "canceled"]);
+export const payPeriodStatusEnum = pgEnum("pay_period_status", ["open", "locked"]);
+export const intakeSubmissionStatusEnum = pgEnum("intake_submission_status", ["pending", "completed"]);
+export const chartNoteStatusEnum = pgEnum("chart_note_status", ["draft", "signed"]);
 
 // Core Tables
 export const users = pgTable("users", {
@@ -63,6 +75,12 @@ export const organizations = pgTable("organizations", {
   hasExternalAccount: boolean("has_external_account").default(false),
   businessFeaturesEnabled: boolean("business_features_enabled").default(false),
   settings: jsonb("settings"),
+  cancellationPolicy: jsonb("cancellation_policy"), // CancellationPolicy; null when the clinic has none
+  rescheduleCutoffHours: integer("reschedule_cutoff_hours").default(24), // Patients can't move appointments online closer than this
+  walletBonusTiers: jsonb("wallet_bonus_tiers"), // WalletBonusTier[], e.g. load $500 and get $50 extra
+  giftCardState: text("gift_card_state"), // Two-letter US state whose gift card expiry law applies
+  giftCardExpiryMonths: integer("gift_card_expiry_months"), // null = gift cards never expire
+  documentRetention: jsonb("document_retention"), // DocumentRetention; months to keep client documents of each category
   whiteLabelSettings: jsonb("white_label_settings"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").default(sql`now()`),
@@ -97,6 +115,11 @@ export const locations = pgTable("locations", {
   email: text("email"),
   timezone: text("timezone").default("America/New_York"),
   businessHours: jsonb("business_hours"),
+  slotIntervalMinutes: integer("slot_interval_minutes").default(30),
+  minBookingNoticeMinutes: integer("min_booking_notice_minutes").default(0),
+  maxBookingDaysAhead: integer("max_booking_days_ahead"), // null = no limit
+  waitlistHoldMinutes: integer("waitlist_hold_minutes").default(60), // How long a freed slot is held for a waitlisted client
+  taxRate: decimal("tax_rate", { precision: 6, scale: 3 }).default("0"), // Sales tax percentage, e.g. 8.25
   isDefault: boolean("is_default").default(false),
   publicSettings: jsonb("public_settings"),
   settings: jsonb("settings"),
@@ -104,6 +127,19 @@ export const locations = pgTable("locations", {
   createdAt: timestamp("created_at").default(sql`now()`)
 });
 
+// Date-specific closures and modified hours, overriding locations.businessHours for one day
+export const locationHoursExceptions = pgTable("location_hours_exceptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  locationId: uuid("location_id").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD in the location's timezone
+  isClosed: boolean("is_closed").notNull().default(true),
+  openTime: text("open_time"), // HH:MM format; modified hours when not closed
+  closeTime: text("close_time"), // HH:MM format
+  reason: text("reason"),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
 // Staff Management Tables
 export const staffRoles = pgTable("staff_roles", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -126,6 +162,8 @@ export const staff = pgTable("staff", {
   commissionRate: decimal("commission_rate", { precision: 5, scale: 2 }),
   commissionType: commissionTypeEnum("commission_type").default("percentage"),
   hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }),
+  commissionTiers: jsonb("commission_tiers"), // CommissionTier[]; percentage rates for revenue past each threshold in a pay period
+  productCommissionRate: decimal("product_commission_rate", { precision: 5, scale: 2 }), // Percent of retail products sold on their visits
   availability: jsonb("availability"),
   canBookOnline: boolean("can_book_online").default(true),
   isActive: boolean("is_active").default(true),
@@ -142,6 +180,45 @@ export const staffAvailability = pgTable("staff_availability", {
   createdAt: timestamp("created_at").default(sql`now()`)
 });
 
+// Date-specific changes on top of the weekly staffAvailability windows
+export const staffScheduleExceptions = pgTable("staff_schedule_exceptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  staffId: uuid("staff_id").notNull(),
+  type: staffScheduleExceptionTypeEnum("type").notNull(),
+  startDate: text("start_date"), // YYYY-MM-DD in the clinic's timezone; time off and extra shifts
+  endDate: text("end_date"), // YYYY-MM-DD inclusive; time off only
+  dayOfWeek: integer("day_of_week"), // 0-6 for breaks; null = every day
+  startTime: text("start_time"), // HH:MM format; null on time off = all day
+  endTime: text("end_time"), // HH:MM format
+  reason: text("reason"),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+// Hours a staff member actually worked; hourly pay uses these when there are any, otherwise the schedule
+export const timeClockEntries = pgTable("time_clock_entries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  staffId: uuid("staff_id").notNull(),
+  clockIn: timestamp("clock_in").notNull(),
+  clockOut: timestamp("clock_out"), // null while on the clock
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+// A payroll period. Statements are worked out live while it is open and frozen into statements when it is locked.
+export const payPeriods = pgTable("pay_periods", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD in the clinic's timezone
+  endDate: text("end_date").notNull(), // YYYY-MM-DD inclusive
+  status: payPeriodStatusEnum("status").default("open"),
+  statements: jsonb("statements"), // PayrollStatement[] once locked
+  createdBy: uuid("created_by"),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: uuid("locked_by"),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
 export const staffServices = pgTable("staff_services", {
   staffId: uuid("staff_id").notNull(),
   serviceId: uuid("service_id").notNull(),
@@ -166,10 +243,13 @@ export const clients = pgTable("clients", {
   tags: jsonb("tags"),
   preferences: jsonb("preferences"),
   totalSpent: decimal("total_spent", { precision: 10, scale: 2 }).default("0"),
+  walletBalance: decimal("wallet_balance", { precision: 10, scale: 2 }).default("0"), // Only changed together with wallet_* transactions
   lastVisit: timestamp("last_visit"),
+  birthdayGreetedAt: timestamp("birthday_greeted_at"), // Last birthday greeting, so each birthday is greeted once
   status: text("status").default("active"), // "invited", "active", "inactive"
   isActive: boolean("is_active").default(true),
   stripeCustomerId: text("stripe_customer_id"),
+  photoMarketingConsentAt: timestamp("photo_marketing_consent_at"), // Set by the client in their portal; null = photos stay private
   createdAt: timestamp("created_at").default(sql`now()`)
 });
 
@@ -180,6 +260,123 @@ export const clientLocations = pgTable("client_locations", {
   createdAt: timestamp("created_at").default(sql`now()`)
 });
 
+// A clinic-built intake or medical history form. Changing its questions bumps the version.
+export const intakeForms = pgTable("intake_forms", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  sections: jsonb("sections").notNull(), // IntakeFormSection[]
+  serviceIds: jsonb("service_ids").default([]), // Booking one of these services sends the form to the client
+  version: integer("version").notNull().default(1),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  updatedAt: timestamp("updated_at").default(sql`now()`)
+});
+
+// A form sent to a client, and their answers once completed. The questions they answered are copied in with the
+// version, so earlier submissions still read correctly after the form changes.
+export const intakeSubmissions = pgTable("intake_submissions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  formId: uuid("form_id").notNull(),
+  clientId: uuid("client_id").notNull(),
+  appointmentId: uuid("appointment_id"), // The booking that sent it, if any
+  status: intakeSubmissionStatusEnum("status").default("pending"),
+  formName: text("form_name").notNull(),
+  formVersion: integer("form_version"), // Set on completion
+  sections: jsonb("sections"), // IntakeFormSection[] as answered
+  answers: jsonb("answers"), // IntakeAnswers
+  flags: jsonb("flags"), // IntakeFlag[]
+  requestedAt: timestamp("requested_at").default(sql`now()`),
+  submittedAt: timestamp("submitted_at")
+});
+
+// Consent document a client signs before services that require consent. Changing the text bumps the version,
+// and clients must sign the new version.
+export const consentForms = pgTable("consent_forms", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  name: text("name").notNull(),
+  content: text("content").notNull(),
+  serviceIds: jsonb("service_ids").default([]),
+  renewalMonths: integer("renewal_months").default(12), // Re-consent after this many months; null never expires
+  version: integer("version").notNull().default(1),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  updatedAt: timestamp("updated_at").default(sql`now()`)
+});
+
+// A signed copy of a consent form. Never updated or deleted; the hash covers the signed text and signature so any
+// later change to the record shows.
+export const consentSignatures = pgTable("consent_signatures", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  consentFormId: uuid("consent_form_id").notNull(),
+  clientId: uuid("client_id").notNull(),
+  appointmentId: uuid("appointment_id"),
+  formName: text("form_name").notNull(),
+  formVersion: integer("form_version").notNull(),
+  content: text("content").notNull(), // The text as signed
+  typedName: text("typed_name").notNull(),
+  signatureImage: text("signature_image").notNull(), // Drawn signature as a PNG data URL
+  signedAt: timestamp("signed_at").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  collectedBy: uuid("collected_by"), // Staff user when signed in person at the clinic
+  expiresAt: timestamp("expires_at"),
+  contentHash: text("content_hash").notNull(), // SHA-256 of the signed fields
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+// Starting text for the SOAP sections of a chart, per service
+export const chartTemplates = pgTable("chart_templates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  name: text("name").notNull(),
+  serviceIds: jsonb("service_ids").default([]), // Offered when charting these services
+  subjective: text("subjective"),
+  objective: text("objective"),
+  assessment: text("assessment"),
+  plan: text("plan"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  updatedAt: timestamp("updated_at").default(sql`now()`)
+});
+
+// The provider's clinical record of one appointment. Editable while a draft; once signed it is locked and
+// corrections go in chartAddenda.
+export const chartNotes = pgTable("chart_notes", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  appointmentId: uuid("appointment_id").notNull().unique(),
+  clientId: uuid("client_id").notNull(),
+  serviceId: uuid("service_id").notNull(),
+  staffId: uuid("staff_id").notNull(), // The appointment's provider
+  templateId: uuid("template_id"),
+  status: chartNoteStatusEnum("status").default("draft"),
+  subjective: text("subjective"),
+  objective: text("objective"),
+  assessment: text("assessment"),
+  plan: text("plan"),
+  productsUsed: jsonb("products_used").default([]), // ChartProduct[]
+  injectionSites: jsonb("injection_sites").default([]), // InjectionSite[]
+  createdBy: uuid("created_by").notNull(),
+  signedBy: uuid("signed_by"),
+  signedAt: timestamp("signed_at"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  updatedAt: timestamp("updated_at").default(sql`now()`)
+});
+
+// A dated note added to a signed chart. Never updated or deleted.
+export const chartAddenda = pgTable("chart_addenda", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  chartNoteId: uuid("chart_note_id").notNull(),
+  content: text("content").notNull(),
+  createdBy: uuid("created_by").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
 export const services = pgTable("services", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: uuid("organization_id").notNull(),
@@ -188,6 +385,8 @@ export const services = pgTable("services", {
   category: text("category"),
   duration: integer("duration").notNull(),
   estimatedDuration: integer("estimated_duration"), // Duration in minutes
+  bufferBeforeMinutes: integer("buffer_before_minutes").default(0), // Setup time blocked before the appointment
+  bufferAfterMinutes: integer("buffer_after_minutes").default(0), // Cleanup time blocked after the appointment
   price: decimal("price", { precision: 10, scale: 2 }),
   depositRequired: boolean("deposit_required").default(false),
   depositAmount: decimal("deposit_amount", { precision: 10, scale: 2 }),
@@ -195,6 +394,8 @@ export const services = pgTable("services", {
   requiresConsent: boolean("requires_consent").default(false),
   requiresStaff: boolean("requires_staff").default(true),
   availableStaffIds: jsonb("available_staff_ids"),
+  requiredResourceIds: jsonb("required_resource_ids"), // Every listed resource must be free for the whole appointment
+  isTaxable: boolean("is_taxable").default(false), // Charged the location's sales tax
   stripeProductId: text("stripe_product_id"),
   stripePriceId: text("stripe_price_id"),
   isActive: boolean("is_active").default(true),
@@ -215,11 +416,81 @@ export const appointments = pgTable("appointments", {
   privateNotes: text("private_notes"),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }),
   depositPaid: decimal("deposit_paid", { precision: 10, scale: 2 }).default("0"),
+  giftCardPaid: decimal("gift_card_paid", { precision: 10, scale: 2 }).default("0"), // Kept apart from depositPaid; goes back on the card, not to Stripe, on cancel
+  cancellationRequestedAt: timestamp("cancellation_requested_at"), // When the patient asked to cancel; decides late-cancel fees
   remindersSent: integer("reminders_sent").default(0),
+  followUpSentAt: timestamp("follow_up_sent_at"), // Set once the post-visit follow-up has gone out, so it is only sent once
+  checkoutStartedAt: timestamp("checkout_started_at"), // Set while a front desk checkout runs, so two can't charge the same visit
+  resourceIds: jsonb("resource_ids"), // Resources held by this appointment
+  seriesId: uuid("series_id"), // Set when the appointment is one occurrence of a recurring series
+  seriesIndex: integer("series_index"), // 1-based occurrence number within the series
+  clientPackageId: uuid("client_package_id"), // Package session used up when this appointment was completed
   archived: boolean("archived").default(false),
   createdAt: timestamp("created_at").default(sql`now()`)
 });
 
+// Recurring bookings, e.g. the same treatment every 4 weeks; each occurrence is its own appointment row
+export const appointmentSeries = pgTable("appointment_series", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  locationId: uuid("location_id").notNull(),
+  clientId: uuid("client_id").notNull(),
+  staffId: uuid("staff_id").notNull(),
+  serviceId: uuid("service_id").notNull(),
+  frequency: appointmentSeriesFrequencyEnum("frequency").notNull().default("weekly"),
+  interval: integer("interval").notNull().default(1), // Every N weeks or months
+  occurrenceCount: integer("occurrence_count"), // End after N occurrences
+  endDate: text("end_date"), // Or end on this date (YYYY-MM-DD)
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+// Bookable rooms and equipment at a location
+export const resources = pgTable("resources", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  locationId: uuid("location_id").notNull(),
+  name: text("name").notNull(),
+  type: resourceTypeEnum("type").notNull().default("room"),
+  description: text("description"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+// Clients waiting for an opening for a service, optionally with a specific provider, within a date range
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  locationId: uuid("location_id").notNull(),
+  clientId: uuid("client_id").notNull(),
+  serviceId: uuid("service_id").notNull(),
+  staffId: uuid("staff_id"), // null = any provider
+  earliestDate: text("earliest_date").notNull(), // YYYY-MM-DD in the location's timezone
+  latestDate: text("latest_date").notNull(),
+  priority: integer("priority").default(0), // Higher is offered first; ties go to whoever joined first
+  status: waitlistStatusEnum("status").notNull().default("waiting"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+// A freed slot held for one waitlisted client until they accept, decline or the hold expires
+export const waitlistOffers = pgTable("waitlist_offers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  waitlistEntryId: uuid("waitlist_entry_id").notNull(),
+  clientId: uuid("client_id").notNull(),
+  locationId: uuid("location_id").notNull(),
+  staffId: uuid("staff_id").notNull(),
+  serviceId: uuid("service_id").notNull(),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  sourceAppointmentId: uuid("source_appointment_id"), // The canceled appointment that freed the slot
+  appointmentId: uuid("appointment_id"), // Set once the offer is accepted and booked
+  status: waitlistOfferStatusEnum("status").notNull().default("pending"),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
 export const membershipTiers = pgTable("membership_tiers", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: uuid("organization_id").notNull(),
@@ -230,6 +501,8 @@ export const membershipTiers = pgTable("membership_tiers", {
   benefits: jsonb("benefits"),
   discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }),
   monthlyCredits: decimal("monthly_credits", { precision: 10, scale: 2 }),
+  creditRollover: boolean("credit_rollover").default(false), // Unused credits carry into the next billing cycle
+  creditRolloverCap: decimal("credit_rollover_cap", { precision: 10, scale: 2 }), // Most credit that can carry over; null = no cap
   allowsMultiLocationAccess: boolean("allows_multi_location_access").default(false),
   color: text("color").default("gold"),
   stripePriceIdMonthly: text("stripe_price_id_monthly"),
@@ -249,7 +522,10 @@ export const memberships = pgTable("memberships", {
   benefits: jsonb("benefits"),
   discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }),
   monthlyCredits: decimal("monthly_credits", { precision: 10, scale: 2 }),
-  usedCredits: decimal("used_credits", { precision: 10, scale: 2 }).default("0"),
+  usedCredits: decimal("used_credits", { precision: 10, scale: 2 }).default("0"), // Spent since the last grant
+  creditBalance: decimal("credit_balance", { precision: 10, scale: 2 }).default("0"), // Only changed together with membership_credit_* transactions
+  creditRollover: boolean("credit_rollover").default(false), // Rollover rules are copied from the tier at signup
+  creditRolloverCap: decimal("credit_rollover_cap", { precision: 10, scale: 2 }),
   status: membershipStatusEnum("status").default("active"),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date"),
@@ -325,6 +601,139 @@ export const transactions = pgTable("transactions", {
   createdAt: timestamp("created_at").default(sql`now()`)
 });
 
+// A prepaid gift card. Its balance only changes together with a gift_card_* transaction, which is what
+// the liability report is built from.
+export const giftCards = pgTable("gift_cards", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  code: text("code").notNull().unique(),
+  initialAmount: decimal("initial_amount", { precision: 10, scale: 2 }).notNull(),
+  balance: decimal("balance", { precision: 10, scale: 2 }).notNull(),
+  status: giftCardStatusEnum("status").notNull().default("pending"), // pending until the purchase is paid
+  purchaserClientId: uuid("purchaser_client_id"),
+  purchaserName: text("purchaser_name"),
+  purchaserEmail: text("purchaser_email"),
+  recipientName: text("recipient_name"),
+  recipientEmail: text("recipient_email"),
+  message: text("message"),
+  stripePaymentIntentId: text("stripe_payment_intent_id"), // Online purchases only
+  soldBy: uuid("sold_by"), // Staff user who sold it at the front desk
+  activatedAt: timestamp("activated_at"),
+  expiresAt: timestamp("expires_at"), // null = never expires
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+// A prepaid bundle of sessions of one service, e.g. 6 microneedling sessions
+export const treatmentPackages = pgTable("treatment_packages", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  serviceId: uuid("service_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  sessionCount: integer("session_count").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  expiryDays: integer("expiry_days"), // Days after purchase the sessions can be used; null = never expire
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+// A package bought by a client. Name, service and session count are copied at purchase so later
+// catalog edits don't change what the client paid for.
+export const clientPackages = pgTable("client_packages", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  clientId: uuid("client_id").notNull(),
+  packageId: uuid("package_id").notNull(),
+  serviceId: uuid("service_id").notNull(),
+  name: text("name").notNull(),
+  sessionsTotal: integer("sessions_total").notNull(),
+  sessionsRemaining: integer("sessions_remaining").notNull(),
+  pricePaid: decimal("price_paid", { precision: 10, scale: 2 }).notNull(),
+  status: clientPackageStatusEnum("status").notNull().default("pending"), // pending until the purchase is paid
+  stripePaymentIntentId: text("stripe_payment_intent_id"), // Online purchases only
+  soldBy: uuid("sold_by"), // Staff user who sold it at the front desk
+  purchasedAt: timestamp("purchased_at"),
+  expiresAt: timestamp("expires_at"), // null = never expires
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+// Retail product sold at the front desk, e.g. skincare, or a consumable used up in treatments, e.g. Botox units.
+// Stock is kept per location in productStock.
+export const products = pgTable("products", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  name: text("name").notNull(),
+  sku: text("sku"),
+  description: text("description"),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Retail price
+  cost: decimal("cost", { precision: 10, scale: 2 }), // Unit cost, updated from the last purchase order received
+  unit: text("unit").default("each"), // e.g. "unit", "ml", "syringe"
+  isRetail: boolean("is_retail").default(true), // false = consumable only, not sold at checkout
+  trackInventory: boolean("track_inventory").default(true), // false = sell without counting stock
+  isTaxable: boolean("is_taxable").default(true), // Charged the location's sales tax
+  reorderLevel: integer("reorder_level"), // Alert admins when a location's stock falls to this; null = no alerts
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+export const productStock = pgTable("product_stock", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  productId: uuid("product_id").notNull(),
+  locationId: uuid("location_id").notNull(),
+  quantity: integer("quantity").notNull().default(0), // Only changed together with a stockMovements row
+  lowStockAlertedAt: timestamp("low_stock_alerted_at"), // Set when admins were alerted; cleared once restocked above the reorder level
+  updatedAt: timestamp("updated_at").default(sql`now()`)
+}, (table) => ({
+  productLocation: unique("product_stock_product_location").on(table.productId, table.locationId)
+}));
+
+// Every change to a location's stock, signed: negative for sales and treatment usage
+export const stockMovements = pgTable("stock_movements", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  productId: uuid("product_id").notNull(),
+  locationId: uuid("location_id").notNull(),
+  quantity: integer("quantity").notNull(),
+  reason: stockMovementReasonEnum("reason").notNull(),
+  referenceId: uuid("reference_id"), // Appointment or purchase order behind the movement
+  note: text("note"),
+  createdBy: uuid("created_by"), // null for automatic movements
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: uuid("organization_id").notNull(),
+  locationId: uuid("location_id").notNull(), // Where the delivery is received
+  supplier: text("supplier").notNull(),
+  reference: text("reference"), // Supplier's order or invoice number
+  status: purchaseOrderStatusEnum("status").default("ordered"),
+  notes: text("notes"),
+  createdBy: uuid("created_by"),
+  orderedAt: timestamp("ordered_at").default(sql`now()`),
+  receivedAt: timestamp("received_at"),
+  receivedBy: uuid("received_by")
+});
+
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: uuid("purchase_order_id").notNull(),
+  productId: uuid("product_id").notNull(),
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received"), // null until the order is received
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull()
+});
+
+// Products used up by one treatment of a service, taken from the appointment's location when it is completed
+export const serviceConsumables = pgTable("service_consumables", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  serviceId: uuid("service_id").notNull(),
+  productId: uuid("product_id").notNull(),
+  quantity: integer("quantity").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`)
+});
+
 export const addOns = pgTable("add_ons", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -403,14 +812,19 @@ export const fileStorage = pgTable("file_storage", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: uuid("organization_id").notNull(),
   clientId: uuid("client_id"),
+  appointmentId: uuid("appointment_id"), // Treatment a clinical photo was taken at
+  serviceId: uuid("service_id"),
   uploadedById: uuid("uploaded_by_id").notNull(),
-  fileName: text("file_name").notNull(),
+  fileName: text("file_name").notNull(), // Key in the file store
   originalName: text("original_name").notNull(),
   mimeType: text("mime_type").notNull(),
   fileSize: integer("file_size").notNull(),
-  category: text("category"),
+  category: text("category"), // "before", "after" and "progress" for clinical photos; documentCategories for the document vault
   tags: jsonb("tags"),
-  isPublic: boolean("is_public").default(false),
+  isPublic: boolean("is_public").default(false), // Usable in marketing; needs the client's photo consent
+  sharedWithClient: boolean("shared_with_client").default(false), // Document the client can download from their portal
+  scanStatus: text("scan_status"), // "clean" once a virus scanner passed the file, "not_scanned" when none is configured
+  takenAt: timestamp("taken_at"),
   url: text("url").notNull(),
   createdAt: timestamp("created_at").default(sql`now()`)
 });
@@ -431,7 +845,7 @@ export const featureFlags = pgTable("feature_flags", {
 export const messageTemplateTypeEnum = pgEnum("message_template_type", ["sms", "email"]);
 export const messageTemplateCategoryEnum = pgEnum("message_template_category", ["appointment", "marketing", "birthday", "membership", "follow_up", "promotion"]);
 export const campaignTypeEnum = pgEnum("campaign_type", ["sms", "email", "both"]);
-export const campaignStatusEnum = pgEnum("campaign_status", ["draft", "scheduled", "sent", "cancelled"]);
+export const campaignStatusEnum = pgEnum("campaign_status", ["draft", "scheduled", "sending", "sent", "cancelled"]);
 export const campaignRecipientStatusEnum = pgEnum("campaign_recipient_status", ["pending", "sent", "failed"]);
 
 export const messageTemplates = pgTable("message_templates", {
@@ -493,6 +907,41 @@ export const campaignRecipients = pgTable("campaign_recipients", {
   createdAt: timestamp("created_at").default(sql`now()`)
 });
 
+// Background Job Tables
+export const jobRunStatusEnum = pgEnum("job_run_status", ["running", "succeeded", "failed"]);
+export const jobRunTriggerEnum = pgEnum("job_run_trigger", ["schedule", "retry", "manual"]);
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(), // Matches a job registered in server/services/scheduler.ts
+  description: text("description"),
+  intervalMinutes: integer("interval_minutes").notNull(),
+  isEnabled: boolean("is_enabled").default(true),
+  maxAttempts: integer("max_attempts").default(3),
+  consecutiveFailures: integer("consecutive_failures").default(0),
+  lockedBy: text("locked_by"), // Instance ID currently holding the lease
+  lockedUntil: timestamp("locked_until"),
+  lastRunAt: timestamp("last_run_at"),
+  nextRunAt: timestamp("next_run_at").default(sql`now()`),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  updatedAt: timestamp("updated_at").default(sql`now()`)
+});
+
+export const jobRuns = pgTable("job_runs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobName: text("job_name").notNull(),
+  status: jobRunStatusEnum("status").notNull().default("running"),
+  trigger: jobRunTriggerEnum("trigger").notNull().default("schedule"),
+  attempt: integer("attempt").notNull().default(1),
+  instanceId: text("instance_id"),
+  triggeredBy: uuid("triggered_by"), // User who triggered a manual run
+  error: text("error"),
+  result: jsonb("result"),
+  startedAt: timestamp("started_at").default(sql`now()`),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms")
+});
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   staff: one(staff, { fields: [users.id], references: [staff.userId] }),
@@ -519,7 +968,13 @@ export const organizationsRelations = relations(organizations, ({ one, many }) =
 
 export const locationsRelations = relations(locations, ({ one, many }) => ({
   organization: one(organizations, { fields: [locations.organizationId], references: [organizations.id] }),
-  appointments: many(appointments)
+  appointments: many(appointments),
+  resources: many(resources)
+}));
+
+export const resourcesRelations = relations(resources, ({ one }) => ({
+  organization: one(organizations, { fields: [resources.organizationId], references: [organizations.id] }),
+  location: one(locations, { fields: [resources.locationId], references: [locations.id] })
 }));
 
 export const staffRelations = relations(staff, ({ one, many }) => ({
@@ -528,6 +983,14 @@ export const staffRelations = relations(staff, ({ one, many }) => ({
   appointments: many(appointments)
 }));
 
+export const timeClockEntriesRelations = relations(timeClockEntries, ({ one }) => ({
+  staff: one(staff, { fields: [timeClockEntries.staffId], references: [staff.id] })
+}));
+
+export const payPeriodsRelations = relations(payPeriods, ({ one }) => ({
+  organization: one(organizations, { fields: [payPeriods.organizationId], references: [organizations.id] })
+}));
+
 export const clientsRelations = relations(clients, ({ one, many }) => ({
   user: one(users, { fields: [clients.userId], references: [users.id] }),
   organization: one(organizations, { fields: [clients.organizationId], references: [organizations.id] }),
@@ -538,6 +1001,41 @@ export const clientsRelations = relations(clients, ({ one, many }) => ({
   fileStorage: many(fileStorage)
 }));
 
+export const intakeFormsRelations = relations(intakeForms, ({ one, many }) => ({
+  organization: one(organizations, { fields: [intakeForms.organizationId], references: [organizations.id] }),
+  submissions: many(intakeSubmissions)
+}));
+
+export const intakeSubmissionsRelations = relations(intakeSubmissions, ({ one }) => ({
+  form: one(intakeForms, { fields: [intakeSubmissions.formId], references: [intakeForms.id] }),
+  client: one(clients, { fields: [intakeSubmissions.clientId], references: [clients.id] }),
+  appointment: one(appointments, { fields: [intakeSubmissions.appointmentId], references: [appointments.id] })
+}));
+
+export const consentFormsRelations = relations(consentForms, ({ one, many }) => ({
+  organization: one(organizations, { fields: [consentForms.organizationId], references: [organizations.id] }),
+  signatures: many(consentSignatures)
+}));
+
+export const consentSignaturesRelations = relations(consentSignatures, ({ one }) => ({
+  form: one(consentForms, { fields: [consentSignatures.consentFormId], references: [consentForms.id] }),
+  client: one(clients, { fields: [consentSignatures.clientId], references: [clients.id] })
+}));
+
+export const chartTemplatesRelations = relations(chartTemplates, ({ one }) => ({
+  organization: one(organizations, { fields: [chartTemplates.organizationId], references: [organizations.id] })
+}));
+
+export const chartNotesRelations = relations(chartNotes, ({ one, many }) => ({
+  appointment: one(appointments, { fields: [chartNotes.appointmentId], references: [appointments.id] }),
+  client: one(clients, { fields: [chartNotes.clientId], references: [clients.id] }),
+  addenda: many(chartAddenda)
+}));
+
+export const chartAddendaRelations = relations(chartAddenda, ({ one }) => ({
+  chartNote: one(chartNotes, { fields: [chartAddenda.chartNoteId], references: [chartNotes.id] })
+}));
+
 export const servicesRelations = relations(services, ({ one, many }) => ({
   organization: one(organizations, { fields: [services.organizationId], references: [organizations.id] }),
   appointments: many(appointments)
@@ -573,6 +1071,55 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
   membership: one(memberships, { fields: [transactions.membershipId], references: [memberships.id] })
 }));
 
+export const giftCardsRelations = relations(giftCards, ({ one }) => ({
+  organization: one(organizations, { fields: [giftCards.organizationId], references: [organizations.id] }),
+  purchaser: one(clients, { fields: [giftCards.purchaserClientId], references: [clients.id] })
+}));
+
+export const treatmentPackagesRelations = relations(treatmentPackages, ({ one, many }) => ({
+  organization: one(organizations, { fields: [treatmentPackages.organizationId], references: [organizations.id] }),
+  service: one(services, { fields: [treatmentPackages.serviceId], references: [services.id] }),
+  clientPackages: many(clientPackages)
+}));
+
+export const clientPackagesRelations = relations(clientPackages, ({ one }) => ({
+  organization: one(organizations, { fields: [clientPackages.organizationId], references: [organizations.id] }),
+  client: one(clients, { fields: [clientPackages.clientId], references: [clients.id] }),
+  package: one(treatmentPackages, { fields: [clientPackages.packageId], references: [treatmentPackages.id] }),
+  service: one(services, { fields: [clientPackages.serviceId], references: [services.id] })
+}));
+
+export const productsRelations = relations(products, ({ one, many }) => ({
+  organization: one(organizations, { fields: [products.organizationId], references: [organizations.id] }),
+  stock: many(productStock)
+}));
+
+export const productStockRelations = relations(productStock, ({ one }) => ({
+  product: one(products, { fields: [productStock.productId], references: [products.id] }),
+  location: one(locations, { fields: [productStock.locationId], references: [locations.id] })
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  product: one(products, { fields: [stockMovements.productId], references: [products.id] }),
+  location: one(locations, { fields: [stockMovements.locationId], references: [locations.id] })
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  organization: one(organizations, { fields: [purchaseOrders.organizationId], references: [organizations.id] }),
+  location: one(locations, { fields: [purchaseOrders.locationId], references: [locations.id] }),
+  items: many(purchaseOrderItems)
+}));
+
+export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, { fields: [purchaseOrderItems.purchaseOrderId], references: [purchaseOrders.id] }),
+  product: one(products, { fields: [purchaseOrderItems.productId], references: [products.id] })
+}));
+
+export const serviceConsumablesRelations = relations(serviceConsumables, ({ one }) => ({
+  service: one(services, { fields: [serviceConsumables.serviceId], references: [services.id] }),
+  product: one(products, { fields: [serviceConsumables.productId], references: [products.id] })
+}));
+
 export const addOnsRelations = relations(addOns, ({ many }) => ({
   organizationAddOns: many(organizationAddOns)
 }));
@@ -620,17 +1167,90 @@ export const insertStaffSchema = createInsertSchema(staff).omit({
   createdAt: true
 });
 
+export const insertTimeClockEntrySchema = createInsertSchema(timeClockEntries).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertPayPeriodSchema = createInsertSchema(payPeriods).omit({
+  id: true,
+  createdAt: true,
+  lockedAt: true,
+  lockedBy: true
+});
+
+// Tiered commission: once a provider's service revenue in the pay period passes minRevenue, revenue above it earns rate
+export const commissionTiersSchema = z.array(z.object({
+  minRevenue: z.number().min(0),
+  rate: z.number().min(0).max(100)
+})).max(10);
+
+export const payPeriodSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+}).refine(period => period.endDate >= period.startDate, { message: "The period must end on or after its start", path: ["endDate"] });
+
 export const insertStaffAvailabilitySchema = createInsertSchema(staffAvailability).omit({
   id: true,
   createdAt: true
 });
 
+// Upper bound on occurrences generated for one recurring series
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const timeOfDaySchema = z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, "Invalid time format (expected HH:MM)");
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format (expected YYYY-MM-DD)");
+
+export const insertStaffScheduleExceptionSchema = createInsertSchema(staffScheduleExceptions).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  startDate: calendarDateSchema.nullable().optional(),
+  endDate: calendarDateSchema.nullable().optional(),
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+  startTime: timeOfDaySchema.nullable().optional(),
+  endTime: timeOfDaySchema.nullable().optional()
+}).superRefine((value, ctx) => {
+  if (value.type !== "break" && !value.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["startDate"], message: "Start date is required" });
+  }
+  if (value.type !== "time_off" && (!value.startTime || !value.endTime)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["startTime"], message: "Start and end time are required" });
+  }
+  if (!!value.startTime !== !!value.endTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endTime"], message: "Start and end time must be set together" });
+  }
+  if (value.startTime && value.endTime && value.startTime >= value.endTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endTime"], message: "End time must be after start time" });
+  }
+  if (value.startDate && value.endDate && value.endDate < value.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "End date must be on or after start date" });
+  }
+});
+
+export const insertLocationHoursExceptionSchema = createInsertSchema(locationHoursExceptions).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  date: calendarDateSchema,
+  openTime: timeOfDaySchema.nullable().optional(),
+  closeTime: timeOfDaySchema.nullable().optional()
+}).superRefine((value, ctx) => {
+  if (value.isClosed === false && (!value.openTime || !value.closeTime)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["openTime"], message: "Open and close time are required for modified hours" });
+  }
+  if (value.openTime && value.closeTime && value.openTime >= value.closeTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["closeTime"], message: "Close time must be after open time" });
+  }
+});
+
 export const insertStaffServiceSchema = createInsertSchema(staffServices).omit({
   createdAt: true
 });
 
 export const insertClientSchema = createInsertSchema(clients).omit({
   id: true,
+  walletBalance: true,
   createdAt: true
 });
 
@@ -639,6 +1259,148 @@ export const insertClientLocationSchema = createInsertSchema(clientLocations).om
   createdAt: true
 });
 
+export const insertIntakeFormSchema = createInsertSchema(intakeForms).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertIntakeSubmissionSchema = createInsertSchema(intakeSubmissions).omit({
+  id: true,
+  requestedAt: true
+});
+
+export const intakeFieldTypes = ["text", "textarea", "number", "date", "yes_no", "select", "multi_select"] as const;
+
+export const intakeFieldSchema = z.object({
+  id: z.string().min(1).max(64),
+  label: z.string().min(1).max(500),
+  type: z.enum(intakeFieldTypes),
+  required: z.boolean().default(false),
+  options: z.array(z.string().min(1)).max(50).optional(), // select and multi_select
+  showIf: z.object({ fieldId: z.string(), equals: z.string() }).optional(), // Only asked when an earlier answer matches
+  flagAnswers: z.array(z.string()).optional() // Answers staff need to see before the visit, e.g. ["yes"]
+});
+
+export const intakeSectionSchema = z.object({
+  id: z.string().min(1).max(64),
+  title: z.string().min(1).max(200),
+  fields: z.array(intakeFieldSchema).min(1).max(100)
+});
+
+export const intakeFormSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional().nullable(),
+  sections: z.array(intakeSectionSchema).min(1).max(30),
+  serviceIds: z.array(z.string().uuid()).default([]),
+  isActive: z.boolean().default(true)
+}).superRefine((form, ctx) => {
+  const seen = new Set<string>();
+  form.sections.forEach((section, s) => section.fields.forEach((field, f) => {
+    if (seen.has(field.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Question ids must be unique", path: ["sections", s, "fields", f, "id"] });
+    }
+    if ((field.type === "select" || field.type === "multi_select") && !field.options?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choice questions need options", path: ["sections", s, "fields", f, "options"] });
+    }
+    if (field.showIf && !seen.has(field.showIf.fieldId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A condition must refer to an earlier question", path: ["sections", s, "fields", f, "showIf"] });
+    }
+    seen.add(field.id);
+  }));
+});
+
+export const intakeAnswersSchema = z.record(z.union([z.string().max(5000), z.array(z.string().max(500)).max(50)]));
+
+export const insertConsentFormSchema = createInsertSchema(consentForms).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertConsentSignatureSchema = createInsertSchema(consentSignatures).omit({
+  id: true,
+  createdAt: true
+});
+
+export const consentFormSchema = z.object({
+  name: z.string().min(1).max(200),
+  content: z.string().min(1).max(50000),
+  serviceIds: z.array(z.string().uuid()).default([]),
+  renewalMonths: z.number().int().min(1).max(120).nullable().default(12),
+  isActive: z.boolean().default(true)
+});
+
+export const consentSignSchema = z.object({
+  typedName: z.string().trim().min(2).max(200),
+  signatureImage: z.string().regex(/^data:image\/png;base64,[A-Za-z0-9+/=]+$/, "Invalid signature").max(500000),
+  appointmentId: z.string().uuid().optional()
+});
+
+export const insertChartTemplateSchema = createInsertSchema(chartTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertChartNoteSchema = createInsertSchema(chartNotes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertChartAddendumSchema = createInsertSchema(chartAddenda).omit({
+  id: true,
+  createdAt: true
+});
+
+export const chartTemplateSchema = z.object({
+  name: z.string().min(1).max(200),
+  serviceIds: z.array(z.string().uuid()).default([]),
+  subjective: z.string().max(20000).nullable().default(null),
+  objective: z.string().max(20000).nullable().default(null),
+  assessment: z.string().max(20000).nullable().default(null),
+  plan: z.string().max(20000).nullable().default(null),
+  isActive: z.boolean().default(true)
+});
+
+// Product given in a treatment; productId is set when it was picked from inventory
+export const chartProductSchema = z.object({
+  productId: z.string().uuid().nullable().optional(),
+  name: z.string().min(1).max(200),
+  lotNumber: z.string().max(100).optional(),
+  expiresOn: calendarDateSchema.optional(),
+  quantity: z.number().positive().max(10000),
+  unit: z.string().max(30).default("units")
+});
+
+// A point on the face diagram, as a percentage of its width and height
+export const injectionSiteSchema = z.object({
+  id: z.string().min(1).max(64),
+  x: z.number().min(0).max(100),
+  y: z.number().min(0).max(100),
+  label: z.string().max(100).optional(), // e.g. "Glabella"
+  product: z.string().max(200).optional(),
+  units: z.number().min(0).max(1000).optional(),
+  notes: z.string().max(500).optional()
+});
+
+export const chartNoteSchema = z.object({
+  templateId: z.string().uuid().nullable().optional(),
+  subjective: z.string().max(20000).nullable().default(null),
+  objective: z.string().max(20000).nullable().default(null),
+  assessment: z.string().max(20000).nullable().default(null),
+  plan: z.string().max(20000).nullable().default(null),
+  productsUsed: z.array(chartProductSchema).max(50).default([]),
+  injectionSites: z.array(injectionSiteSchema).max(200).default([])
+});
+
+export const chartAddendumSchema = z.object({
+  content: z.string().trim().min(1).max(20000)
+});
+
 export const insertServiceSchema = createInsertSchema(services).omit({
   id: true,
   createdAt: true
@@ -659,16 +1421,87 @@ export const insertAppointmentSchema = createInsertSchema(appointments).omit({
   createdAt: true
 });
 
+export const insertResourceSchema = createInsertSchema(resources).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertAppointmentSeriesSchema = createInsertSchema(appointmentSeries).omit({
+  id: true,
+  createdAt: true
+});
+
+// Recurrence rule accepted when booking a series
+export const appointmentRecurrenceSchema = z.object({
+  frequency: z.enum(["weekly", "monthly"]),
+  interval: z.number().int().min(1).max(52),
+  occurrenceCount: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).nullable().optional(),
+  endDate: calendarDateSchema.nullable().optional()
+}).refine(value => !!value.occurrenceCount || !!value.endDate, {
+  message: "Choose a number of occurrences or an end date",
+  path: ["occurrenceCount"]
+});
+
+// Organization-wide cancellation and no-show rules; fee amounts are dollars or a percent of the appointment total
+export const cancellationPolicySchema = z.object({
+  freeCancelWindowHours: z.number().int().min(0).max(720),
+  lateCancelFeeType: z.enum(["percent", "flat"]),
+  lateCancelFeeAmount: z.number().min(0),
+  noShowFeeType: z.enum(["percent", "flat"]),
+  noShowFeeAmount: z.number().min(0),
+  chargeNoShowToCard: z.boolean().default(false)
+}).refine(value => value.lateCancelFeeType !== "percent" || value.lateCancelFeeAmount <= 100, {
+  message: "A percent fee cannot exceed 100",
+  path: ["lateCancelFeeAmount"]
+}).refine(value => value.noShowFeeType !== "percent" || value.noShowFeeAmount <= 100, {
+  message: "A percent fee cannot exceed 100",
+  path: ["noShowFeeAmount"]
+});
+
+// Prepaid wallet top-up bonuses; the largest tier the top-up reaches applies
+export const walletBonusTierSchema = z.object({
+  minAmount: z.number().positive(),
+  bonusAmount: z.number().min(0)
+});
+
+// Buyer and recipient details for a gift card, sold online or at the front desk
+export const giftCardPurchaseSchema = z.object({
+  amount: z.number().min(10).max(2000),
+  purchaserName: z.string().min(1),
+  purchaserEmail: z.string().email().optional(),
+  recipientName: z.string().optional(),
+  recipientEmail: z.string().email().optional(),
+  message: z.string().max(500).optional()
+});
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  earliestDate: calendarDateSchema,
+  latestDate: calendarDateSchema
+}).refine(value => value.earliestDate <= value.latestDate, {
+  message: "Latest date must be on or after the earliest date",
+  path: ["latestDate"]
+});
+
+export const insertWaitlistOfferSchema = createInsertSchema(waitlistOffers).omit({
+  id: true,
+  createdAt: true
+});
+
 export const insertMembershipTierSchema = createInsertSchema(membershipTiers).omit({
   id: true,
   createdAt: true
 }).extend({
   monthlyPrice: z.union([z.string(), z.number()]).transform(val => String(val)),
-  yearlyPrice: z.union([z.string(), z.number()]).optional().transform(val => val ? String(val) : val)
+  yearlyPrice: z.union([z.string(), z.number()]).optional().transform(val => val ? String(val) : val),
+  creditRolloverCap: z.union([z.string(), z.number()]).nullable().optional().transform(val => val === "" || val == null ? null : String(val))
 });
 
 export const insertMembershipSchema = createInsertSchema(memberships).omit({
   id: true,
+  creditBalance: true,
   createdAt: true
 });
 
@@ -692,6 +1525,100 @@ export const insertTransactionSchema = createInsertSchema(transactions).omit({
   createdAt: true
 });
 
+export const insertGiftCardSchema = createInsertSchema(giftCards).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertTreatmentPackageSchema = createInsertSchema(treatmentPackages).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  sessionCount: z.number().int().min(1),
+  price: z.union([z.string(), z.number()]).transform(val => String(val)),
+  expiryDays: z.number().int().min(1).nullable().optional()
+});
+
+export const insertClientPackageSchema = createInsertSchema(clientPackages).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertProductSchema = createInsertSchema(products).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  price: z.union([z.string(), z.number()]).transform(val => String(val)),
+  cost: z.union([z.string(), z.number(), z.null()]).transform(val => val === null ? null : String(val)).optional(),
+  reorderLevel: z.number().int().min(0).nullable().optional()
+});
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
+  id: true,
+  orderedAt: true,
+  receivedAt: true,
+  receivedBy: true
+});
+
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({
+  id: true
+});
+
+// A purchase order is placed with its items; stock only changes when it is received
+export const purchaseOrderSchema = z.object({
+  locationId: z.string().uuid(),
+  supplier: z.string().min(1),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.number().int().min(1),
+    unitCost: z.number().min(0)
+  })).min(1)
+});
+
+// Quantities actually delivered, which may be short of what was ordered
+export const receivePurchaseOrderSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.string().uuid(),
+    quantityReceived: z.number().int().min(0)
+  })).min(1)
+});
+
+export const stockCountSchema = z.object({
+  locationId: z.string().uuid(),
+  quantity: z.number().int().min(0),
+  note: z.string().optional()
+});
+
+export const serviceConsumablesSchema = z.array(z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().int().min(1)
+}));
+
+// Front desk checkout: the appointment's service is always on the ticket; everything else is added here
+export const posCheckoutSchema = z.object({
+  addOnServiceIds: z.array(z.string().uuid()).default([]),
+  products: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.number().int().min(1)
+  })).default([]),
+  tipAmount: z.number().min(0).default(0),
+  applyMemberDiscount: z.boolean().default(true),
+  rewardOptionIds: z.array(z.string().uuid()).default([]),
+  giftCardCode: z.string().optional(),
+  giftCardAmount: z.number().positive().optional(),
+  paymentMethod: z.enum(["saved_card", "cash", "external_terminal"])
+}).refine(data => !data.giftCardAmount || !!data.giftCardCode, {
+  message: "Enter the gift card code",
+  path: ["giftCardCode"]
+});
+
 export const insertAddOnSchema = createInsertSchema(addOns).omit({
   id: true,
   createdAt: true
@@ -722,6 +1649,59 @@ export const insertFileStorageSchema = createInsertSchema(fileStorage).omit({
   createdAt: true
 });
 
+export const photoCategories = ["before", "after", "progress"] as const;
+
+// Clinical photo details, sent as query parameters alongside the raw image body
+export const photoUploadSchema = z.object({
+  category: z.enum(photoCategories),
+  appointmentId: z.string().uuid().optional(),
+  takenAt: z.string().datetime().optional(),
+  fileName: z.string().min(1).max(255).default("photo"),
+  tags: z.string().max(500).optional().transform(value => value ? value.split(",").map(tag => tag.trim()).filter(Boolean) : [])
+});
+
+export const photoUpdateSchema = z.object({
+  category: z.enum(photoCategories).optional(),
+  appointmentId: z.string().uuid().nullable().optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+  isPublic: z.boolean().optional()
+});
+
+export const documentCategories = ["lab_result", "referral", "signed_paperwork", "insurance", "other"] as const;
+
+export const documentCategoryLabels: Record<typeof documentCategories[number], string> = {
+  lab_result: "Lab Result",
+  referral: "Referral",
+  signed_paperwork: "Signed Paperwork",
+  insurance: "Insurance",
+  other: "Other"
+};
+
+// Client document details, sent as query parameters alongside the raw file body
+export const documentUploadSchema = z.object({
+  category: z.enum(documentCategories),
+  fileName: z.string().min(1).max(255).default("document"),
+  sharedWithClient: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+  tags: z.string().max(500).optional().transform(value => value ? value.split(",").map(tag => tag.trim()).filter(Boolean) : [])
+});
+
+export const documentUpdateSchema = z.object({
+  category: z.enum(documentCategories).optional(),
+  originalName: z.string().min(1).max(255).optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+  sharedWithClient: z.boolean().optional()
+});
+
+// Months to keep client documents of each category after upload; a missing or null category is kept indefinitely
+const retentionMonths = z.number().int().min(1).max(1200).nullable().optional();
+export const documentRetentionSchema = z.object({
+  lab_result: retentionMonths,
+  referral: retentionMonths,
+  signed_paperwork: retentionMonths,
+  insurance: retentionMonths,
+  other: retentionMonths
+});
+
 export const insertFeatureFlagSchema = createInsertSchema(featureFlags).omit({
   id: true,
   createdAt: true
@@ -758,8 +1738,434 @@ export const insertCampaignRecipientSchema = createInsertSchema(campaignRecipien
   clickedAt: true
 });
 
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertJobRunSchema = createInsertSchema(jobRuns).omit({
+  id: true,
+  startedAt: true
+});
+
+// Staff Permission Catalog
+// Roles store permissions as flat keys, e.g. { "appointments.cancel": true }
+export const PERMISSION_CATALOG = {
+  appointments: {
+    label: "Appointments",
+    permissions: {
+      view: { label: "View Appointments", description: "Can view appointment calendar" },
+      create: { label: "Create Appointments", description: "Can book new appointments" },
+      edit: { label: "Edit Appointments", description: "Can modify existing appointments" },
+      cancel: { label: "Cancel Appointments", description: "Can cancel appointments" },
+    },
+  },
+  clients: {
+    label: "Clients",
+    permissions: {
+      view: { label: "View Clients", description: "Can view client information" },
+      create: { label: "Create Clients", description: "Can add new clients" },
+      edit: { label: "Edit Clients", description: "Can modify client information" },
+      delete: { label: "Delete Clients", description: "Can remove clients from system" },
+      manageForms: { label: "Manage Forms", description: "Can build intake, consent and chart forms and choose the services that use them" },
+    },
+  },
+  charts: {
+    label: "Clinical Charts",
+    permissions: {
+      view: { label: "View Charts", description: "Can read treatment notes, products used and injection maps" },
+      write: { label: "Write Charts", description: "Can chart treatments, sign charts and add addenda" },
+    },
+  },
+  payments: {
+    label: "Payments",
+    permissions: {
+      process: { label: "Process Payments", description: "Can process transactions" },
+      refund: { label: "Issue Refunds", description: "Can refund payments and decide deposit retention" },
+    },
+  },
+  services: {
+    label: "Services",
+    permissions: {
+      view: { label: "View Services", description: "Can view service menu" },
+      create: { label: "Create Services", description: "Can add new services" },
+      edit: { label: "Edit Services", description: "Can modify service details" },
+      setPricing: { label: "Set Pricing", description: "Can set service prices" },
+    },
+  },
+  memberships: {
+    label: "Memberships",
+    permissions: {
+      view: { label: "View Memberships", description: "Can view members and membership plans" },
+      manage: { label: "Manage Memberships", description: "Can change membership plans, status and credits" },
+    },
+  },
+  products: {
+    label: "Products & Inventory",
+    permissions: {
+      view: { label: "View Products", description: "Can view products and stock levels and sell products at checkout" },
+      manage: { label: "Manage Products", description: "Can add products, set prices and treatment consumables, and count stock" },
+      receive: { label: "Receive Stock", description: "Can place purchase orders and receive deliveries" },
+    },
+  },
+  rewards: {
+    label: "Rewards",
+    permissions: {
+      view: { label: "View Rewards", description: "Can view reward balances and options" },
+      manage: { label: "Manage Rewards", description: "Can award points and edit reward options" },
+    },
+  },
+  marketing: {
+    label: "Marketing",
+    permissions: {
+      sendCampaigns: { label: "Send Campaigns", description: "Can send marketing emails/SMS" },
+      viewAnalytics: { label: "View Analytics", description: "Can access marketing analytics" },
+      manageTemplates: { label: "Manage Templates", description: "Can create/edit templates" },
+      exportData: { label: "Export Data", description: "Can export client data" },
+    },
+  },
+  reports: {
+    label: "Reports",
+    permissions: {
+      view: { label: "View Reports", description: "Can access financial and business reports" },
+      payroll: { label: "Manage Payroll", description: "Can lock pay periods and export payroll statements" },
+    },
+  },
+  settings: {
+    label: "Settings",
+    permissions: {
+      view: { label: "View Settings", description: "Can view clinic settings" },
+      edit: { label: "Edit Settings", description: "Can modify clinic settings" },
+      manageStaff: { label: "Manage Staff", description: "Can manage staff accounts" },
+      manageRoles: { label: "Manage Roles", description: "Can create/edit roles" },
+    },
+  },
+} as const;
+
+type PermissionCatalog = typeof PERMISSION_CATALOG;
+export type PermissionCategory = keyof PermissionCatalog;
+export type PermissionKey = {
+  [C in PermissionCategory]: `${C}.${Extract<keyof PermissionCatalog[C]["permissions"], string>}`
+}[PermissionCategory];
+
+export const PERMISSION_KEYS = Object.entries(PERMISSION_CATALOG).flatMap(([category, { permissions }]) =>
+  Object.keys(permissions).map(action => `${category}.${action}`)
+) as PermissionKey[];
+
+// Keys used by roles saved before the catalog existed
+const LEGACY_PERMISSION_ALIASES: Partial<Record<PermissionKey, string[]>> = {
+  "reports.view": ["payments.viewReports"],
+  "services.setPricing": ["payments.editPricing"],
+  "settings.manageStaff": ["staff.manage"],
+};
+
+// Permissions for staff without a custom role, keyed by their system role
+export const DEFAULT_STAFF_ROLE_PERMISSIONS: Record<"admin" | "receptionist" | "provider", PermissionKey[]> = {
+  admin: PERMISSION_KEYS,
+  receptionist: [
+    "appointments.view", "appointments.create", "appointments.edit", "appointments.cancel",
+    "clients.view", "clients.create", "clients.edit",
+    "payments.process", "services.view", "products.view", "memberships.view", "rewards.view",
+  ],
+  provider: [
+    "appointments.view", "appointments.create", "appointments.edit",
+    "clients.view", "clients.create", "clients.edit", "charts.view", "charts.write",
+    "payments.process", "services.view", "products.view", "memberships.view", "rewards.view",
+  ],
+};
+
+// Flatten stored role permissions (flat keys or the older nested { appointments: { view: true } } shape)
+export function normalizePermissions(permissions: unknown): Record<PermissionKey, boolean> {
+  const stored: Record<string, boolean> = {};
+  if (permissions && typeof permissions === "object") {
+    for (const [key, value] of Object.entries(permissions as Record<string, unknown>)) {
+      if (value && typeof value === "object") {
+        for (const [action, allowed] of Object.entries(value as Record<string, unknown>)) {
+          stored[`${key}.${action}`] = allowed === true;
+        }
+      } else {
+        stored[key] = value === true;
+      }
+    }
+  }
+
+  const normalized = {} as Record<PermissionKey, boolean>;
+  for (const key of PERMISSION_KEYS) {
+    normalized[key] = stored[key] === true || (LEGACY_PERMISSION_ALIASES[key] || []).some(alias => stored[alias] === true);
+  }
+  return normalized;
+}
+
+export function hasPermission(permissions: unknown, key: PermissionKey): boolean {
+  return normalizePermissions(permissions)[key] === true;
+}
+
+// Scheduling Helpers
+// The time an appointment keeps staff and resources busy, including its service's setup and cleanup buffers
+export function getBufferedWindow(
+  startTime: Date | string,
+  endTime: Date | string,
+  service?: { bufferBeforeMinutes: number | null; bufferAfterMinutes: number | null } | null
+): { start: Date; end: Date } {
+  const before = service?.bufferBeforeMinutes || 0;
+  const after = service?.bufferAfterMinutes || 0;
+  return {
+    start: new Date(new Date(startTime).getTime() - before * 60 * 1000),
+    end: new Date(new Date(endTime).getTime() + after * 60 * 1000)
+  };
+}
+
+// Express an instant as a calendar date, weekday and HH:MM in a timezone
+export function getLocalTimeParts(date: Date, timezone: string): { date: string; dayOfWeek: number; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    dayOfWeek: weekdays.indexOf(part('weekday')),
+    time: `${part('hour')}:${part('minute')}`
+  };
+}
+
+// Convert a wall-clock date (YYYY-MM-DD) and time (HH:MM) in a timezone to the UTC instant.
+// The second pass corrects the offset when the first guess lands on the other side of a DST change.
+export function localTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const target = Date.UTC(year, month - 1, day, hour, minute);
+  let result = target;
+  for (let pass = 0; pass < 2; pass++) {
+    const local = getLocalTimeParts(new Date(result), timezone);
+    const [localYear, localMonth, localDay] = local.date.split('-').map(Number);
+    const [localHour, localMinute] = local.time.split(':').map(Number);
+    result += target - Date.UTC(localYear, localMonth - 1, localDay, localHour, localMinute);
+  }
+  return new Date(result);
+}
+
+// Every occurrence of a recurring series, starting with the first appointment. Occurrences keep the same
+// wall-clock time in the location's timezone; monthly series on the 29th-31st fall back to the month's last day.
+export function getSeriesOccurrences(
+  firstStart: Date,
+  firstEnd: Date,
+  rule: { frequency: "weekly" | "monthly"; interval: number; occurrenceCount?: number | null; endDate?: string | null },
+  timezone: string
+): { start: Date; end: Date }[] {
+  const durationMs = firstEnd.getTime() - firstStart.getTime();
+  const local = getLocalTimeParts(firstStart, timezone);
+  const [year, month, day] = local.date.split('-').map(Number);
+  const limit = Math.min(rule.occurrenceCount || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const occurrences: { start: Date; end: Date }[] = [];
+
+  for (let index = 0; index < limit; index++) {
+    let date: Date;
+    if (rule.frequency === "weekly") {
+      date = new Date(Date.UTC(year, month - 1, day + index * 7 * rule.interval));
+    } else {
+      const monthIndex = month - 1 + index * rule.interval;
+      const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+      date = new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay)));
+    }
+    const dateString = date.toISOString().slice(0, 10);
+    if (rule.endDate && dateString > rule.endDate) break;
+
+    const start = localTimeToUtc(dateString, local.time, timezone);
+    occurrences.push({ start, end: new Date(start.getTime() + durationMs) });
+  }
+
+  return occurrences;
+}
+
+// How a staff member's exceptions change one calendar day (date as YYYY-MM-DD, times as HH:MM).
+// Time off without times removes the whole day; breaks and partial time off block windows; extra shifts add windows.
+export function getStaffDaySchedule(
+  exceptions: Pick<StaffScheduleException, "type" | "startDate" | "endDate" | "dayOfWeek" | "startTime" | "endTime">[],
+  date: string,
+  dayOfWeek: number
+): { offAllDay: boolean; blocked: { start: string; end: string }[]; extraShifts: { start: string; end: string }[] } {
+  const result = { offAllDay: false, blocked: [] as { start: string; end: string }[], extraShifts: [] as { start: string; end: string }[] };
+
+  for (const exception of exceptions) {
+    if (exception.type === "time_off") {
+      const endDate = exception.endDate || exception.startDate;
+      if (!exception.startDate || date < exception.startDate || date > endDate!) continue;
+      if (exception.startTime && exception.endTime) {
+        result.blocked.push({ start: exception.startTime, end: exception.endTime });
+      } else {
+        result.offAllDay = true;
+      }
+    } else if (exception.type === "break") {
+      if (exception.dayOfWeek !== null && exception.dayOfWeek !== dayOfWeek) continue;
+      if (exception.startTime && exception.endTime) {
+        result.blocked.push({ start: exception.startTime, end: exception.endTime });
+      }
+    } else if (exception.type === "extra_shift") {
+      if (exception.startDate !== date || !exception.startTime || !exception.endTime) continue;
+      result.extraShifts.push({ start: exception.startTime, end: exception.endTime });
+    }
+  }
+
+  return result;
+}
+
+// Cancellation Policy Helpers
+// Dollar amount of a policy fee; percent fees are a share of the appointment total, rounded to cents
+export function getPolicyFee(type: "percent" | "flat", amount: number, appointmentTotal: number): number {
+  const fee = type === "percent" ? appointmentTotal * amount / 100 : amount;
+  return Math.round(fee * 100) / 100;
+}
+
+// Whether a cancellation made at canceledAt is inside the free-cancel window, and how much of what was paid ahead
+// the clinic keeps. The retained amount never exceeds the deposit and gift card money actually paid.
+export function evaluateCancellation(
+  policy: CancellationPolicy,
+  appointment: { startTime: Date | string; totalAmount: string | null; depositPaid: string | null; giftCardPaid?: string | null },
+  canceledAt: Date
+): { isLate: boolean; fee: number; retainedDeposit: number } {
+  const hoursBeforeStart = (new Date(appointment.startTime).getTime() - canceledAt.getTime()) / (60 * 60 * 1000);
+  const isLate = hoursBeforeStart < policy.freeCancelWindowHours;
+  const fee = isLate ? getPolicyFee(policy.lateCancelFeeType, policy.lateCancelFeeAmount, Number(appointment.totalAmount || 0)) : 0;
+  const prepaid = Number(appointment.depositPaid || 0) + Number(appointment.giftCardPaid || 0);
+  return { isLate, fee, retainedDeposit: Math.min(fee, Math.round(prepaid * 100) / 100) };
+}
+
+// Patient-facing summary of a cancellation policy, one sentence per rule
+export function describeCancellationPolicy(policy: CancellationPolicy): string[] {
+  const describeFee = (type: "percent" | "flat", amount: number) =>
+    type === "percent" ? `${amount}% of the appointment price` : `$${amount.toFixed(2)}`;
+  const lines: string[] = [];
+
+  if (policy.freeCancelWindowHours > 0) {
+    lines.push(`Free cancellation up to ${policy.freeCancelWindowHours} hours before your appointment.`);
+    if (policy.lateCancelFeeAmount > 0) {
+      lines.push(`Later cancellations are charged ${describeFee(policy.lateCancelFeeType, policy.lateCancelFeeAmount)}, kept from your deposit.`);
+    }
+  } else {
+    lines.push("You can cancel free of charge any time before your appointment.");
+  }
+  if (policy.noShowFeeAmount > 0) {
+    lines.push(`Missed appointments are charged ${describeFee(policy.noShowFeeType, policy.noShowFeeAmount)}${policy.chargeNoShowToCard ? " to your card on file" : ""}, less any deposit paid.`);
+  }
+  return lines;
+}
+
+// Wallet Helpers
+// Bonus credited for a wallet top-up: the tier with the highest minimum the amount reaches
+export function getWalletTopUpBonus(tiers: WalletBonusTier[], amount: number): number {
+  const tier = tiers
+    .filter(t => amount >= t.minAmount)
+    .sort((a, b) => b.minAmount - a.minAmount)[0];
+  return tier ? tier.bonusAmount : 0;
+}
+
+// Membership Credit Helpers
+// Part of an unused credit balance that carries into the next billing cycle; the rest is forfeited
+export function getCreditRollover(balance: number, rollover: boolean | null, cap: number | null): number {
+  if (!rollover || balance <= 0) return 0;
+  return cap === null ? balance : Math.min(balance, cap);
+}
+
+// Gift Card Helpers
+// Federal law (the CARD Act) keeps gift cards valid for at least five years
+export const GIFT_CARD_FEDERAL_MIN_EXPIRY_MONTHS = 60;
+
+// States that ban gift card expiry (null) or require a longer minimum than federal law.
+// A summary for configuring the setting; clinics should confirm their own obligations.
+export const GIFT_CARD_STATE_EXPIRY_RULES: Record<string, number | null> = {
+  CA: null,
+  CT: null,
+  FL: null,
+  ME: null,
+  MA: 84,
+  MN: null,
+  MT: null,
+  NH: null,
+  NY: 108,
+  OR: null,
+  RI: null,
+  WA: null
+};
+
+// Months a gift card stays valid under the clinic's setting and state law; null when it never expires
+export function getGiftCardExpiryMonths(state: string | null | undefined, configuredMonths: number | null | undefined): number | null {
+  if (configuredMonths === null || configuredMonths === undefined) return null;
+
+  const stateRule = state ? GIFT_CARD_STATE_EXPIRY_RULES[state.toUpperCase()] : undefined;
+  if (stateRule === null) return null;
+  return Math.max(configuredMonths, stateRule ?? GIFT_CARD_FEDERAL_MIN_EXPIRY_MONTHS);
+}
+
+export function getGiftCardExpiry(
+  state: string | null | undefined,
+  configuredMonths: number | null | undefined,
+  activatedAt: Date
+): Date | null {
+  const months = getGiftCardExpiryMonths(state, configuredMonths);
+  if (months === null) return null;
+
+  const expiresAt = new Date(activatedAt);
+  expiresAt.setMonth(expiresAt.getMonth() + months);
+  return expiresAt;
+}
+
+// Codes are shown grouped (ABCD-EFGH-JKLM) but compared without separators or case
+export function normalizeGiftCardCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// Sales Tax Helpers
+// Tax on an amount at a percentage rate, rounded to the cent
+export function calculateTax(taxableAmount: number, rate: number): number {
+  return Math.round(taxableAmount * rate) / 100;
+}
+
+// Intake Form Helpers
+// A conditional question is asked only when the question it depends on was asked and given that answer
+export function isIntakeFieldShown(sections: IntakeFormSection[], answers: IntakeAnswers, field: IntakeField): boolean {
+  if (!field.showIf) return true;
+  const { fieldId, equals } = field.showIf;
+  const parent = sections.flatMap(section => section.fields).find(candidate => candidate.id === fieldId);
+  if (!parent || !isIntakeFieldShown(sections, answers, parent)) return false;
+  const answer = answers[fieldId];
+  return Array.isArray(answer) ? answer.includes(equals) : answer === equals;
+}
+
+// Required questions left unanswered, and answers the form marks for staff attention
+export function reviewIntakeAnswers(
+  sections: IntakeFormSection[],
+  answers: IntakeAnswers
+): { missing: string[]; flags: IntakeFlag[] } {
+  const missing: string[] = [];
+  const flags: IntakeFlag[] = [];
+  for (const section of sections) {
+    for (const field of section.fields) {
+      if (!isIntakeFieldShown(sections, answers, field)) continue;
+      const answer = answers[field.id];
+      const values = Array.isArray(answer) ? answer : answer?.trim() ? [answer.trim()] : [];
+      if (values.length === 0) {
+        if (field.required) missing.push(field.label);
+        continue;
+      }
+      if (field.flagAnswers?.some(flagged => values.includes(flagged))) {
+        flags.push({ fieldId: field.id, label: field.label, answer: values.join(", ") });
+      }
+    }
+  }
+  return { missing, flags };
+}
+
 // Types
-export type User = typeof users.$inferSelect;
+export type User =typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
@@ -773,18 +2179,60 @@ export type StaffRole = typeof staffRoles.$inferSelect;
 export type InsertStaffRole = z.infer<typeof insertStaffRoleSchema>;
 export type Staff = typeof staff.$inferSelect;
 export type InsertStaff = z.infer<typeof insertStaffSchema>;
+export type TimeClockEntry = typeof timeClockEntries.$inferSelect;
+export type InsertTimeClockEntry = z.infer<typeof insertTimeClockEntrySchema>;
+export type PayPeriod = typeof payPeriods.$inferSelect;
+export type InsertPayPeriod = z.infer<typeof insertPayPeriodSchema>;
+export type CommissionTier = z.infer<typeof commissionTiersSchema>[number];
 export type StaffAvailability = typeof staffAvailability.$inferSelect;
 export type InsertStaffAvailability = z.infer<typeof insertStaffAvailabilitySchema>;
+export type LocationHoursException = typeof locationHoursExceptions.$inferSelect;
+export type InsertLocationHoursException = z.infer<typeof insertLocationHoursExceptionSchema>;
+export type StaffScheduleException = typeof staffScheduleExceptions.$inferSelect;
+export type InsertStaffScheduleException = z.infer<typeof insertStaffScheduleExceptionSchema>;
 export type StaffService = typeof staffServices.$inferSelect;
 export type InsertStaffService = z.infer<typeof insertStaffServiceSchema>;
 export type Client = typeof clients.$inferSelect;
 export type InsertClient = z.infer<typeof insertClientSchema>;
 export type ClientLocation = typeof clientLocations.$inferSelect;
 export type InsertClientLocation = z.infer<typeof insertClientLocationSchema>;
+export type IntakeForm = typeof intakeForms.$inferSelect;
+export type InsertIntakeForm = z.infer<typeof insertIntakeFormSchema>;
+export type IntakeSubmission = typeof intakeSubmissions.$inferSelect;
+export type InsertIntakeSubmission = z.infer<typeof insertIntakeSubmissionSchema>;
+export type IntakeField = z.infer<typeof intakeFieldSchema>;
+export type IntakeFormSection = z.infer<typeof intakeSectionSchema>;
+export type IntakeAnswers = z.infer<typeof intakeAnswersSchema>;
+// Kept on the submission so appointments can show them without re-reading the answers
+export type IntakeFlag = { fieldId: string; label: string; answer: string };
+export type ConsentForm = typeof consentForms.$inferSelect;
+export type InsertConsentForm = z.infer<typeof insertConsentFormSchema>;
+export type ConsentSignature = typeof consentSignatures.$inferSelect;
+export type InsertConsentSignature = z.infer<typeof insertConsentSignatureSchema>;
+export type ChartTemplate = typeof chartTemplates.$inferSelect;
+export type InsertChartTemplate = z.infer<typeof insertChartTemplateSchema>;
+export type ChartNote = typeof chartNotes.$inferSelect;
+export type InsertChartNote = z.infer<typeof insertChartNoteSchema>;
+export type ChartAddendum = typeof chartAddenda.$inferSelect;
+export type InsertChartAddendum = z.infer<typeof insertChartAddendumSchema>;
+export type ChartProduct = z.infer<typeof chartProductSchema>;
+export type InjectionSite = z.infer<typeof injectionSiteSchema>;
 export type Service = typeof services.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type Resource = typeof resources.$inferSelect;
+export type InsertResource = z.infer<typeof insertResourceSchema>;
+export type AppointmentSeries = typeof appointmentSeries.$inferSelect;
+export type InsertAppointmentSeries = z.infer<typeof insertAppointmentSeriesSchema>;
+export type AppointmentRecurrence = z.infer<typeof appointmentRecurrenceSchema>;
+export type CancellationPolicy = z.infer<typeof cancellationPolicySchema>;
+export type WalletBonusTier = z.infer<typeof walletBonusTierSchema>;
+export type DocumentRetention = z.infer<typeof documentRetentionSchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistOffer = typeof waitlistOffers.$inferSelect;
+export type InsertWaitlistOffer = z.infer<typeof insertWaitlistOfferSchema>;
 export type MembershipTier = typeof membershipTiers.$inferSelect;
 export type InsertMembershipTier = z.infer<typeof insertMembershipTierSchema>;
 export type Membership = typeof memberships.$inferSelect & {
@@ -799,6 +2247,53 @@ export type RewardOption = typeof rewardOptions.$inferSelect;
 export type InsertRewardOption = z.infer<typeof insertRewardOptionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type GiftCard = typeof giftCards.$inferSelect;
+export type InsertGiftCard = z.infer<typeof insertGiftCardSchema>;
+export type TreatmentPackage = typeof treatmentPackages.$inferSelect;
+export type InsertTreatmentPackage = z.infer<typeof insertTreatmentPackageSchema>;
+export type ClientPackage = typeof clientPackages.$inferSelect;
+export type InsertClientPackage = z.infer<typeof insertClientPackageSchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type ProductStock = typeof productStock.$inferSelect;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+export type PurchaseOrderInput = z.infer<typeof purchaseOrderSchema>;
+export type ServiceConsumable = typeof serviceConsumables.$inferSelect;
+export type PosCheckout = z.infer<typeof posCheckoutSchema>;
+export type CheckoutLineItem = {
+  kind: "service" | "add_on" | "product" | "member_discount" | "reward" | "tip";
+  referenceId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // Negative for discounts
+};
+export type CheckoutTicket = {
+  lines: CheckoutLineItem[];
+  subtotal: number;
+  discountTotal: number;
+  taxRate: number;
+  taxableAmount: number; // Taxable lines after their share of discounts and rewards
+  taxTotal: number;
+  tipAmount: number;
+  total: number;
+  previouslyPaid: number; // Deposits, credits, wallet and gift cards already applied to the appointment
+  giftCardApplied: number;
+  amountDue: number; // Left for the saved card, cash or terminal
+};
+// Kept in transactions.metadata.tax on the payment that collected the tax, which the tax report sums.
+// Deposits collect none; the checkout records whatever the visit's tax still owes.
+export type TaxBreakdown = {
+  locationId: string;
+  rate: number;
+  taxableAmount: number; // Of the whole sale
+  amount: number; // Collected by this transaction
+};
 export type AddOn = typeof addOns.$inferSelect;
 export type InsertAddOn = z.infer<typeof insertAddOnSchema>;
 export type UsageLog = typeof usageLogs.$inferSelect;
@@ -809,6 +2304,8 @@ export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+// Audit entry for a vault document; userName is null for signed-link downloads and retention deletions
+export type DocumentAccessEntry = AuditLog & { userName: string | null };
 export type FileStorage = typeof fileStorage.$inferSelect;
 export type InsertFileStorage = z.infer<typeof insertFileStorageSchema>;
 export type FeatureFlag = typeof featureFlags.$inferSelect;
@@ -819,3 +2316,7 @@ export type MarketingCampaign = typeof marketingCampaigns.$inferSelect;
 export type InsertMarketingCampaign = z.infer<typeof insertMarketingCampaignSchema>;
 export type CampaignRecipient = typeof campaignRecipients.$inferSelect;
 export type InsertCampaignRecipient = z.infer<typeof insertCampaignRecipientSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;